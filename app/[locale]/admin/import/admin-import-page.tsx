@@ -12,6 +12,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DuplicateReviewQueue } from "@/components/admin/duplicate-review-queue";
 import {
   Loader2,
   CheckCircle,
@@ -32,6 +33,7 @@ import {
   Copy,
   Facebook,
   Globe,
+  GitMerge,
 } from "lucide-react";
 
 interface ImportResult {
@@ -484,7 +486,7 @@ export function AdminImportPage() {
       </div>
 
       <Tabs defaultValue="import" className="space-y-6">
-        <TabsList className="grid grid-cols-4 w-full max-w-xl">
+        <TabsList className="grid grid-cols-5 w-full max-w-2xl">
           <TabsTrigger value="import" className="gap-1.5">
             <Download className="w-4 h-4" />
             <span className="hidden sm:inline">Import</span>
@@ -506,6 +508,10 @@ export function AdminImportPage() {
               </span>
             )}
           </TabsTrigger>
+          <TabsTrigger value="duplicates" className="gap-1.5">
+            <GitMerge className="w-4 h-4" />
+            <span className="hidden sm:inline">Duplicates</span>
+          </TabsTrigger>
         </TabsList>
 
         {/* ==================== IMPORT TAB ==================== */}
@@ -1151,6 +1157,25 @@ https://eventbrite.com/e/some-event-tickets-123`}
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* ==================== DUPLICATES TAB ==================== */}
+        <TabsContent value="duplicates" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitMerge className="w-5 h-5" />
+                Probable Duplicates
+              </CardTitle>
+              <CardDescription>
+                The same event imported from more than one source, matched on
+                title, time, venue and organizer
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DuplicateReviewQueue />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -109,6 +109,12 @@ export default async function AdminLayout({
       icon: "Download",
       show: isModerator,
     },
+    {
+      href: "/admin/news-sources",
+      label: "News Sources",
+      icon: "Newspaper",
+      show: isAdmin,
+    },
     {
       href: "/admin/personas",
       label: "AI Personas",
@@ -0,0 +1,55 @@
+import { redirect } from "next/navigation";
+import { Link } from "@/lib/i18n/routing";
+import { ArrowLeft } from "lucide-react";
+import { createClient } from "@/lib/supabase/server";
+import { hasRoleLevel, type UserRole } from "@/lib/types";
+import { NewsSourcesManager } from "@/components/admin/news-sources-manager";
+import type { NewsSourceRow } from "@/lib/news/sources";
+
+export default async function AdminNewsSourcesPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    redirect("/auth/login");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+  if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "admin")) {
+    redirect("/");
+  }
+
+  const { data } = await supabase
+    .from("news_sources")
+    .select("*")
+    .order("sort_order")
+    .order("id");
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <Link
+            href="/admin"
+            className="-ml-3 flex items-center gap-2 text-muted-foreground hover:text-foreground active:scale-95 transition-all px-3 py-2 rounded-lg"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+          <h1 className="text-2xl font-bold">News Sources</h1>
+        </div>
+        <p className="text-muted-foreground">
+          Outlets the news scraper reads. When a site changes its markup, dry-run the source here
+          and adjust its link pattern or content classes.
+        </p>
+      </div>
+
+      <NewsSourcesManager sources={(data ?? []) as NewsSourceRow[]} />
+    </div>
+  );
+}
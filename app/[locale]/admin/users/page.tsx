@@ -2,8 +2,12 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
-import { UserManagementTable } from "@/components/admin/user-management-table";
+import {
+  UserManagementTable,
+  type UserLoyaltyData,
+} from "@/components/admin/user-management-table";
 import { canUseGodMode } from "@/lib/god-mode";
+import type { LoyaltyAnomalyFlag } from "@/lib/types";
 
 interface UserAuthData {
   user_id: string;
@@ -35,12 +39,18 @@ export default async function AdminUsersPage() {
   }
 
   // Fetch all users and their auth data in parallel
-  const [usersResult, authDataResult] = await Promise.all([
+  const [usersResult, authDataResult, loyaltyResult, flagsResult] = await Promise.all([
     supabase
       .from("profiles")
       .select("*")
       .order("created_at", { ascending: false }),
     supabase.rpc("get_users_with_login_stats"),
+    supabase.from("user_loyalty_status").select("user_id, current_point_balance"),
+    supabase
+      .from("loyalty_anomaly_flags")
+      .select("*")
+      .is("resolved_at", null)
+      .order("flagged_on", { ascending: false }),
   ]);
 
   const users = usersResult.data || [];
@@ -51,6 +61,17 @@ export default async function AdminUsersPage() {
     authData.map((item) => [item.user_id, item])
   );
 
+  // Point balances and open anti-abuse flags, for the Points column
+  const loyaltyMap = new Map<string, UserLoyaltyData>();
+  for (const row of loyaltyResult.data || []) {
+    loyaltyMap.set(row.user_id, { balance: row.current_point_balance, openFlags: [] });
+  }
+  for (const flag of (flagsResult.data || []) as LoyaltyAnomalyFlag[]) {
+    const entry = loyaltyMap.get(flag.user_id) ?? { balance: 0, openFlags: [] };
+    entry.openFlags.push(flag);
+    loyaltyMap.set(flag.user_id, entry);
+  }
+
   // Check if current user can impersonate (super admin only)
   const canImpersonate = await canUseGodMode();
 
@@ -66,6 +87,7 @@ export default async function AdminUsersPage() {
       <UserManagementTable
         users={users}
         authDataMap={authDataMap}
+        loyaltyMap={loyaltyMap}
         canImpersonate={canImpersonate}
         currentUserId={user.id}
       />
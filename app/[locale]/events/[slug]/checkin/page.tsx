@@ -2,6 +2,7 @@ import { notFound } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
 import { hasRoleLevel, type Rsvp, type Profile, type UserRole, type PlusOneGuest } from "@/lib/types";
 import { CheckinInterface } from "@/components/events/checkin/checkin-interface";
+import { getEventCheckinKey } from "@/lib/checkin/event-key";
 
 interface PageProps {
   params: Promise<{ slug: string; locale: string }>;
@@ -64,6 +65,8 @@ export default async function CheckinPage({ params }: PageProps) {
       eventTitle={event.title}
       capacity={event.capacity}
       attendees={attendees}
+      // Managers only (gated above): lets the scanner verify tickets offline
+      checkinKey={getEventCheckinKey(event.id)}
     />
   );
 }
@@ -4,7 +4,7 @@ import { createClient } from "@/lib/supabase/server";
 // Increase serverless function timeout
 export const maxDuration = 60;
 import { EventForm } from "@/components/events/event-form";
-import { hasRoleLevel, type Event, type EventPrivateDetails, type Sponsor, type EventSponsor, type EventSettings, type UserRole, type EventMaterial } from "@/lib/types";
+import { hasRoleLevel, type Event, type EventPrivateDetails, type EventSeries, type Sponsor, type EventSponsor, type EventSettings, type UserRole, type EventMaterial } from "@/lib/types";
 
 interface PlaylistData {
   playlistId: string | null;
@@ -116,6 +116,17 @@ export default async function EditEventPage({ params }: PageProps) {
     };
   }
 
+  // Series events edit "this / this and following / all" against their series
+  let series: Pick<EventSeries, "slug" | "rrule"> | null = null;
+  if (event.series_id) {
+    const { data } = await supabase
+      .from("event_series")
+      .select("slug, rrule")
+      .eq("id", event.series_id)
+      .maybeSingle();
+    series = data;
+  }
+
   // Get pending moments count for moderation badge
   const { data: counts } = await supabase.rpc("get_moment_counts", {
     p_event_id: event.id,
@@ -137,6 +148,7 @@ export default async function EditEventPage({ params }: PageProps) {
           initialPlaylistId={playlistData.playlistId}
           initialPlaylistTracks={playlistData.tracks}
           initialPrivateDetails={privateDetails}
+          series={series}
         />
       </div>
     </main>
@@ -2,15 +2,17 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { ArrowLeft, Video, VideoOff, Mic, MicOff, Radio, Copy, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { useTranslations } from 'next-intl';
 import { Link } from '@/lib/i18n/routing';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { StreamStatusBadge } from '@/components/streaming';
+import { StreamStatusBadge, StreamChat, ChatModerationPanel } from '@/components/streaming';
 import { useStreamStatus } from '@/lib/hooks/use-stream-status';
-import type { LiveStreamStatus } from '@/lib/types';
+import { useChatModeration } from '@/lib/hooks/use-chat-moderation';
+import type { LiveStreamStatus, StreamChatMessageWithUser } from '@/lib/types';
 
 interface BroadcasterInterfaceProps {
   event: {
@@ -26,10 +28,19 @@ interface BroadcasterInterfaceProps {
     angleLabel: string | null;
     startedAt: string | null;
   } | null;
+  currentUserId: string;
+  initialMessages: StreamChatMessageWithUser[];
   locale: string;
 }
 
-export function BroadcasterInterface({ event, existingStream, locale: _locale }: BroadcasterInterfaceProps) {
+export function BroadcasterInterface({
+  event,
+  existingStream,
+  currentUserId,
+  initialMessages,
+  locale: _locale,
+}: BroadcasterInterfaceProps) {
+  const t = useTranslations('streaming');
   const [isCreating, setIsCreating] = useState(false);
   const [isEnding, setIsEnding] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -59,6 +70,9 @@ export function BroadcasterInterface({ event, existingStream, locale: _locale }:
   const streamStatus = currentStream?.status || existingStream?.status || 'idle';
   const viewerCount = currentStream?.current_viewers || 0;
 
+  // Shared by the chat and the settings card so both see the same rules
+  const moderation = useChatModeration(event.id);
+
   // Check camera availability
   useEffect(() => {
     navigator.mediaDevices?.enumerateDevices().then(devices => {
@@ -349,6 +363,33 @@ export function BroadcasterInterface({ event, existingStream, locale: _locale }:
         </Card>
       </div>
 
+      {/* Chat moderation */}
+      <div className="grid md:grid-cols-2 gap-6">
+        <StreamChat
+          eventId={event.id}
+          currentUserId={currentUserId}
+          isEventCreator={true}
+          initialMessages={initialMessages}
+          moderation={moderation}
+          className="h-[520px]"
+        />
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('moderation.title')}</CardTitle>
+            <CardDescription>{t('moderation.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {moderation.state ? (
+              <ChatModerationPanel moderation={moderation} canAppoint={true} />
+            ) : (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Instructions */}
       <Card>
         <CardHeader>
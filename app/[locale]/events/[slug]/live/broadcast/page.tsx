@@ -49,6 +49,12 @@ export default async function BroadcastPage({ params }: PageProps) {
     .neq('status', 'ended')
     .single();
 
+  const { data: recentMessages } = await supabase.rpc('get_stream_chat_messages', {
+    p_event_id: event.id,
+    p_limit: 50,
+    p_before: null,
+  });
+
   return (
     <main className="container max-w-4xl mx-auto px-4 py-6">
         <BroadcasterInterface
@@ -65,6 +71,9 @@ export default async function BroadcastPage({ params }: PageProps) {
             angleLabel: existingStream.angle_label,
             startedAt: existingStream.started_at,
           } : null}
+          currentUserId={user.id}
+          // Newest first from the RPC; the chat lists oldest first
+          initialMessages={(recentMessages || []).reverse()}
           locale={locale}
         />
     </main>
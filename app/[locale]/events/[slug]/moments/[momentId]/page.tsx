@@ -25,6 +25,8 @@ import { ExpandableMomentImage } from "@/components/moments/expandable-moment-im
 import { MomentImagePreloader } from "@/components/moments/moment-image-preloader";
 import { MomentVideoPlayer } from "@/components/moments/moment-video-player";
 import { MomentAiInsights } from "@/components/moments/moment-ai-insights";
+import { StreamReplay } from "@/components/streaming";
+import { getRecordingReplay } from "@/lib/streaming/recordings";
 import { getCfStreamPlaybackUrl } from "@/lib/media-utils";
 import { getTranslationsWithFallback, isValidContentLocale } from "@/lib/translations";
 import { decodeUnicodeEscapes } from "@/lib/utils";
@@ -199,6 +201,11 @@ export default async function MomentDetailPage({ params, searchParams }: PagePro
     moment.event_id
   );
 
+  // Recorded live streams replay their chat alongside the video
+  const replay = moment.content_type === "video" && moment.cf_video_uid
+    ? await getRecordingReplay(supabase, moment.id)
+    : null;
+
   // Get current user and check permissions
   const { data: { user } } = await supabase.auth.getUser();
   const isOwner = user?.id === moment.user_id;
@@ -327,7 +334,16 @@ export default async function MomentDetailPage({ params, searchParams }: PagePro
 
                 {/* Video player */}
                 {moment.content_type === "video" && (
-                  moment.video_status === "ready" || !moment.cf_video_uid ? (
+                  replay ? (
+                    <StreamReplay
+                      src={moment.media_url || ""}
+                      hlsSrc={moment.cf_playback_url || getCfStreamPlaybackUrl(moment.cf_video_uid) || undefined}
+                      poster={moment.thumbnail_url || undefined}
+                      messages={replay.messages}
+                      chapters={replay.chapters}
+                      durationSeconds={moment.video_duration_seconds}
+                    />
+                  ) : moment.video_status === "ready" || !moment.cf_video_uid ? (
                     <MomentVideoPlayer
                       src={moment.media_url || ""}
                       hlsSrc={moment.cf_playback_url || getCfStreamPlaybackUrl(moment.cf_video_uid) || undefined}
@@ -0,0 +1,61 @@
+import { notFound, redirect } from "next/navigation";
+import { Copy } from "lucide-react";
+import { getTranslations } from "next-intl/server";
+import { createClient } from "@/lib/supabase/server";
+import { hasRoleLevel, type UserRole } from "@/lib/types";
+import { NearDuplicateCleanup } from "@/components/moments/near-duplicate-cleanup";
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function NearDuplicatesPage({ params }: PageProps) {
+  const { slug } = await params;
+  const supabase = await createClient();
+  const t = await getTranslations("moments.nearDuplicates");
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/auth/login");
+  }
+
+  const { data: event, error } = await supabase
+    .from("events")
+    .select("id, slug, title, created_by")
+    .eq("slug", slug)
+    .single();
+
+  if (error || !event) {
+    notFound();
+  }
+
+  // Event creator or site moderator (same rule as remove_moment)
+  if (event.created_by !== user.id) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+    if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "moderator")) {
+      redirect(`/events/${slug}`);
+    }
+  }
+
+  return (
+    <main className="min-h-screen">
+      <div className="container max-w-2xl mx-auto px-4 py-8">
+        <div className="flex items-center gap-3 mb-2">
+          <Copy className="w-6 h-6 text-muted-foreground" />
+          <h1 className="text-2xl font-bold">{t("title")}</h1>
+        </div>
+        <p className="text-muted-foreground text-sm mb-2">{event.title}</p>
+        <p className="text-muted-foreground text-sm mb-8">{t("description")}</p>
+
+        <NearDuplicateCleanup eventSlug={event.slug} />
+      </div>
+    </main>
+  );
+}
@@ -286,6 +286,7 @@ export default async function EventMomentsPage({ params, searchParams }: PagePro
           }}
           initialPlaylist={playlist}
           eventCreatedBy={event.created_by}
+          eventTribeId={event.tribe_id}
         />
 
         {/* CTA for users who can post but haven't yet */}
@@ -0,0 +1,55 @@
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { hasRoleLevel, type TicketOrder, type UserRole } from "@/lib/types";
+import { OrderLedger } from "@/components/events/orders/order-ledger";
+
+interface PageProps {
+  params: Promise<{ slug: string; locale: string }>;
+}
+
+export default async function EventOrdersPage({ params }: PageProps) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return notFound();
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, slug, title, created_by")
+    .eq("slug", slug)
+    .single();
+
+  if (!event) return notFound();
+
+  // Permission gate: must be event creator or admin
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  const isCreator = user.id === event.created_by;
+  const isAdmin = profile?.role
+    ? hasRoleLevel(profile.role as UserRole, "admin")
+    : false;
+
+  if (!isCreator && !isAdmin) return notFound();
+
+  const { data: orders } = await supabase
+    .from("ticket_orders")
+    .select("*, ticket_order_items(*), profiles(*)")
+    .eq("event_id", event.id)
+    .order("created_at", { ascending: false });
+
+  return (
+    <OrderLedger
+      eventSlug={event.slug}
+      eventTitle={event.title}
+      orders={(orders ?? []) as TicketOrder[]}
+    />
+  );
+}
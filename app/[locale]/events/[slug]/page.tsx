@@ -25,8 +25,17 @@ import { EventSettingsSheet } from "@/components/events/event-settings-sheet";
 import { InviteModal } from "@/components/events/invite-modal";
 import { EventShareButton } from "@/components/events/event-share-button";
 import { AddToCalendar } from "@/components/events/add-to-calendar";
+import { RsvpTickets, type RsvpTicket } from "@/components/events/checkin/rsvp-tickets";
+import { issueRsvpTickets } from "@/lib/checkin/event-key";
+import {
+  TicketCheckout,
+  type PendingTicketOrder,
+  type TicketDiscount,
+} from "@/components/events/ticket-checkout";
+import { getAvailableProviders, getPaymentProvider, type PaymentProviderId } from "@/lib/payments";
 import { CopyAddress } from "@/components/events/copy-address";
 import { ConfirmAttendanceHandler } from "@/components/events/confirm-attendance-handler";
+import { EventViewTracker } from "@/components/events/event-view-tracker";
 import { AttendeeList } from "@/components/events/attendee-list";
 import { ReconfirmationBadge } from "@/components/events/reconfirmation-badge";
 import { EventMediaDisplay } from "@/components/events/event-media-display";
@@ -47,7 +56,7 @@ import { EventMaterialsSummary } from "@/components/events/event-materials";
 import { EventMaterialsStructuredData } from "@/components/events/event-materials-structured-data";
 import { EventCommentsSection } from "@/components/comments";
 import { PromoMediaSection } from "@/components/events/promo-media-section";
-import type { Event, EventCounts, EventPrivateDetails, Rsvp, Profile, Organizer, MomentWithProfile, MomentCounts, EventSettings, Sponsor, EventSponsor, UserRole, EventSeries, EventMaterial, EventPromoMedia, PromoSource } from "@/lib/types";
+import type { Event, EventCounts, EventPrivateDetails, Rsvp, Profile, Organizer, MomentWithProfile, MomentCounts, EventSettings, Sponsor, EventSponsor, UserRole, EventSeries, EventMaterial, EventPromoMedia, PromoSource, WaitlistOffer } from "@/lib/types";
 
 interface PageProps {
   params: Promise<{ slug: string; locale: string }>;
@@ -306,6 +315,122 @@ async function getWaitlistPosition(eventId: string, userId: string | null): Prom
   return position >= 0 ? position + 1 : null; // 1-indexed position
 }
 
+async function getWaitlistOffer(eventId: string, userId: string | null) {
+  if (!userId) return null;
+
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from("waitlist_offers")
+    .select("expires_at")
+    .eq("event_id", eventId)
+    .eq("user_id", userId)
+    .eq("status", "pending")
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return data as Pick<WaitlistOffer, "expires_at"> | null;
+}
+
+async function getCheckinTickets(eventId: string, rsvp: Rsvp | null): Promise<RsvpTicket[]> {
+  if (rsvp?.status !== "going") return [];
+
+  const supabase = await createClient();
+
+  const { data: guests } = await supabase
+    .from("plus_one_guests")
+    .select("id, name, checked_in_at")
+    .eq("rsvp_id", rsvp.id)
+    .order("sort_order", { ascending: true });
+
+  const checkedIn = new Map((guests ?? []).map((g) => [g.id as string, g.checked_in_at as string | null]));
+  const issued = await issueRsvpTickets(eventId, { id: rsvp.id, label: "" }, guests ?? []);
+
+  return issued.map((ticket) => ({
+    ...ticket,
+    checkedInAt: ticket.kind === "rsvp" ? rsvp.checked_in_at ?? null : checkedIn.get(ticket.id) ?? null,
+  }));
+}
+
+interface TicketSales {
+  sold: Record<string, number>;
+  providers: PaymentProviderId[];
+  pendingOrder: PendingTicketOrder | null;
+  discounts: TicketDiscount[];
+}
+
+// Paid events sell tiers through orders instead of a free RSVP
+async function getTicketSales(event: Event, userId: string | null): Promise<TicketSales> {
+  const supabase = await createClient();
+  const currency = event.ticket_tiers?.[0]?.currency ?? "VND";
+
+  const [{ data: soldRows }, { data: order }, { data: redemptions }] = await Promise.all([
+    supabase.rpc("ticket_tiers_sold", { p_event_id: event.id }),
+    userId
+      ? supabase
+          .from("ticket_orders")
+          .select("id, provider, reference_code, total_amount, currency, expires_at")
+          .eq("event_id", event.id)
+          .eq("user_id", userId)
+          .eq("status", "pending")
+          .gt("expires_at", new Date().toISOString())
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+    // Claimed loyalty discounts the buyer hasn't spent yet
+    userId
+      ? supabase
+          .from("reward_redemptions")
+          .select(
+            "id, rewards!inner(name, reward_type, discount_percentage, discount_fixed_amount, discount_currency)"
+          )
+          .eq("user_id", userId)
+          .eq("status", "approved")
+          .is("used_at", null)
+          .eq("rewards.reward_type", "discount")
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const sold: Record<string, number> = {};
+  for (const row of (soldRows ?? []) as { tier_id: string; sold: number }[]) {
+    sold[row.tier_id] = row.sold;
+  }
+
+  const pendingOrder: PendingTicketOrder | null = order
+    ? {
+        id: order.id,
+        referenceCode: order.reference_code,
+        totalAmount: order.total_amount,
+        currency: order.currency,
+        expiresAt: order.expires_at,
+        instructions:
+          getPaymentProvider(order.provider)?.describePending?.({
+            id: order.id,
+            referenceCode: order.reference_code,
+            amount: order.total_amount,
+            currency: order.currency,
+            eventTitle: event.title,
+            eventSlug: event.slug,
+          }) ?? null,
+      }
+    : null;
+
+  const discounts: TicketDiscount[] = (redemptions ?? []).flatMap((row) => {
+    const reward = Array.isArray(row.rewards) ? row.rewards[0] : row.rewards;
+    if (!reward) return [];
+    return [
+      {
+        redemptionId: row.id,
+        name: reward.name,
+        discount_percentage: reward.discount_percentage,
+        discount_fixed_amount: reward.discount_fixed_amount,
+        discount_currency: reward.discount_currency,
+      },
+    ];
+  });
+
+  return { sold, providers: getAvailableProviders(currency), pendingOrder, discounts };
+}
+
 interface UserFeedback {
   rating?: string;
   comment?: string;
@@ -849,7 +974,7 @@ export default async function EventPage({ params, searchParams }: PageProps) {
   const currentUserRole = await getCurrentUserRole(currentUserId);
 
   // Optimized: Combined RSVP fetch (3 queries -> 1), plus other parallel fetches
-  const [counts, currentRsvp, allRsvps, waitlistPosition, userFeedback, feedbackStats, organizerEvents, momentsPreview, momentCounts, canPostMoment, sponsors, eventTranslations, eventSettings, materials, playlistSummary, promoResult, questionnaire, privateDetails, recap] = await Promise.all([
+  const [counts, currentRsvp, allRsvps, waitlistPosition, userFeedback, feedbackStats, organizerEvents, momentsPreview, momentCounts, canPostMoment, sponsors, eventTranslations, eventSettings, materials, playlistSummary, promoResult, questionnaire, privateDetails, recap, waitlistOffer] = await Promise.all([
     getEventCounts(event.id),
     getCurrentUserRsvp(event.id),
     getAllRsvps(event.id), // Combined fetch for attendees, waitlist, interested
@@ -877,6 +1002,7 @@ export default async function EventPage({ params, searchParams }: PageProps) {
     getEventQuestionnaireServer(event.id),
     getPrivateDetails(event.id, event.has_private_details),
     getEventRecap(event.id, locale),
+    getWaitlistOffer(event.id, currentUserId),
   ]);
 
   // Fetch past moments for auto-display when no promo exists (pinned, then admin-linked, then series)
@@ -915,6 +1041,22 @@ export default async function EventPage({ params, searchParams }: PageProps) {
     return defaultEnd < now;
   })();
 
+  const checkinTickets = isPast ? [] : await getCheckinTickets(event.id, currentRsvp);
+
+  // Post-event survey for attendees, once the event is over
+  const survey =
+    isPast && currentRsvp?.status === "going"
+      ? await getEventQuestionnaireServer(event.id, "post_event")
+      : null;
+
+  // Buyers of paid events get their going RSVP from a paid order
+  const sellsTickets =
+    !isPast &&
+    event.price_type === "paid" &&
+    (event.ticket_tiers ?? []).some((tier) => tier.id) &&
+    currentRsvp?.status !== "going";
+  const ticketSales = sellsTickets ? await getTicketSales(event, currentUserId) : null;
+
   // Generate structured data for SEO and AEO (with translated image metadata)
   const eventSchema = generateEventSchema(event, locale, counts?.going_spots, {
     alt: eventTranslations.imageAlt,
@@ -953,6 +1095,10 @@ export default async function EventPage({ params, searchParams }: PageProps) {
         <ConfirmAttendanceHandler eventId={event.id} />
       </Suspense>
 
+      <Suspense fallback={null}>
+        <EventViewTracker eventId={event.id} />
+      </Suspense>
+
       <div className="container max-w-4xl mx-auto px-4 py-8 pb-24 lg:pb-8">
         {/* Event actions bar */}
         <div className="flex items-center justify-end gap-1 mb-4 -mt-2">
@@ -970,6 +1116,7 @@ export default async function EventPage({ params, searchParams }: PageProps) {
                 eventDescription={event.description}
                 startsAt={event.starts_at}
                 isAdmin={isAdmin}
+                canUseSegments={!!currentUserId && event.organizers?.owner_id === currentUserId}
                 isPast={isPast}
               />
               <EventSettingsSheet
@@ -1376,6 +1523,17 @@ export default async function EventPage({ params, searchParams }: PageProps) {
                 <hr />
 
                 {/* RSVP button - wrapped in observer to show/hide floating bar */}
+                {ticketSales ? (
+                  <TicketCheckout
+                    eventSlug={event.slug}
+                    tiers={event.ticket_tiers ?? []}
+                    sold={ticketSales.sold}
+                    providers={ticketSales.providers}
+                    pendingOrder={ticketSales.pendingOrder}
+                    isLoggedIn={isLoggedIn}
+                    discounts={ticketSales.discounts}
+                  />
+                ) : (
                 <RsvpCardObserver>
                   <RsvpButton
                     eventId={event.id}
@@ -1391,12 +1549,17 @@ export default async function EventPage({ params, searchParams }: PageProps) {
                     currentRsvp={currentRsvp}
                     isLoggedIn={isLoggedIn}
                     waitlistPosition={waitlistPosition}
+                    waitlistOffer={waitlistOffer}
                     startsAt={event.starts_at}
                     endsAt={event.ends_at}
                     existingFeedback={userFeedback}
                     questionnaire={questionnaire}
+                    hasSurvey={!!survey?.is_enabled && survey.questions.length > 0}
+                    rsvpOpensAt={event.rsvp_opens_at}
+                    loyaltyEarlyAccess={event.loyalty_early_access}
                   />
                 </RsvpCardObserver>
+                )}
 
                 {/* Feedback stats for past events */}
                 {feedbackStats && feedbackStats.total > 0 && (
@@ -1408,6 +1571,9 @@ export default async function EventPage({ params, searchParams }: PageProps) {
                   </div>
                 )}
 
+                {/* Door tickets - going attendees and their plus-ones */}
+                <RsvpTickets tickets={checkinTickets} />
+
                 {/* Add to calendar - only for upcoming events */}
                 {!isPast && (
                   <AddToCalendar
@@ -1542,6 +1708,7 @@ export default async function EventPage({ params, searchParams }: PageProps) {
       </div>
 
       {/* Floating RSVP bar for mobile */}
+      {!ticketSales && (
       <FloatingRsvpBar
         eventId={event.id}
         eventSlug={event.slug}
@@ -1556,10 +1723,12 @@ export default async function EventPage({ params, searchParams }: PageProps) {
         currentRsvp={currentRsvp}
         isLoggedIn={isLoggedIn}
         waitlistPosition={waitlistPosition}
+        waitlistOffer={waitlistOffer}
         startsAt={event.starts_at}
         endsAt={event.ends_at}
         questionnaire={questionnaire}
       />
+      )}
     </main>
     </CelebrationProvider>
   );
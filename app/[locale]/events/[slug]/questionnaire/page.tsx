@@ -4,10 +4,19 @@ import { getTranslations } from "next-intl/server";
 import { Link } from "@/lib/i18n/routing";
 import { createClient } from "@/lib/supabase/server";
 import { QuestionnaireBuilder } from "@/components/events/questionnaire-builder";
-import type { QuestionType, QuestionCategory, MultilingualText, QuestionOption } from "@/lib/types";
+import type {
+  QuestionType,
+  QuestionCategory,
+  QuestionnaireKind,
+  MultilingualText,
+  QuestionOption,
+  QuestionCondition,
+  OptionCapacities,
+} from "@/lib/types";
 
 interface PageProps {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<{ kind?: string }>;
 }
 
 interface QuestionTemplate {
@@ -29,10 +38,15 @@ interface EventQuestion {
   question_text: MultilingualText;
   description_text: MultilingualText | null;
   options: QuestionOption[] | null;
+  show_if: QuestionCondition | null;
+  required_if: QuestionCondition | null;
+  option_capacities: OptionCapacities | null;
 }
 
-export default async function QuestionnairePage({ params }: PageProps) {
+export default async function QuestionnairePage({ params, searchParams }: PageProps) {
   const { slug } = await params;
+  const kind: QuestionnaireKind = (await searchParams).kind === "post_event" ? "post_event" : "rsvp";
+  const isSurvey = kind === "post_event";
   const supabase = await createClient();
   const t = await getTranslations("questionnaireBuilder");
 
@@ -47,7 +61,7 @@ export default async function QuestionnairePage({ params }: PageProps) {
   // Fetch the event
   const { data: event, error } = await supabase
     .from("events")
-    .select("id, slug, title, created_by")
+    .select("id, slug, title, created_by, series_id")
     .eq("slug", slug)
     .single();
 
@@ -65,6 +79,7 @@ export default async function QuestionnairePage({ params }: PageProps) {
     .from("event_questionnaires")
     .select("id, is_enabled, intro_text")
     .eq("event_id", event.id)
+    .eq("kind", kind)
     .single();
 
   // Fetch current questions for this event
@@ -76,16 +91,20 @@ export default async function QuestionnairePage({ params }: PageProps) {
         id,
         template_id,
         sort_order,
-        is_required,
+        custom_is_required,
         custom_question_type,
         custom_question_text,
         custom_description_text,
         custom_options,
+        show_if,
+        required_if,
+        option_capacities,
         question_templates (
           question_type,
           question_text,
           description_text,
-          options
+          options,
+          is_required
         )
       `)
       .eq("questionnaire_id", questionnaire.id)
@@ -100,30 +119,40 @@ export default async function QuestionnairePage({ params }: PageProps) {
           question_text: MultilingualText;
           description_text: MultilingualText | null;
           options: QuestionOption[] | null;
+          is_required: boolean;
         } | null;
 
         return {
           id: q.id,
           template_id: q.template_id,
           sort_order: q.sort_order,
-          is_required: q.is_required,
+          is_required: q.custom_is_required ?? template?.is_required ?? false,
           question_type: (template?.question_type || q.custom_question_type || "text") as QuestionType,
           question_text: (template?.question_text || q.custom_question_text || {}) as MultilingualText,
           description_text: template?.description_text || q.custom_description_text,
           options: template?.options || q.custom_options,
+          show_if: q.show_if as QuestionCondition | null,
+          required_if: q.required_if as QuestionCondition | null,
+          option_capacities: q.option_capacities as OptionCapacities | null,
         };
       });
     }
   }
 
-  // Fetch all available templates
-  const { data: templates } = await supabase
+  // Fetch all available templates; feedback questions only make sense after the event
+  const { data: allTemplates } = await supabase
     .from("question_templates")
     .select("id, category, question_type, question_text, description_text, options, is_system")
     .eq("is_active", true)
     .order("category")
     .order("question_text");
 
+  const templates = ((allTemplates as QuestionTemplate[]) || [])
+    .filter((template) => isSurvey || template.category !== "feedback")
+    .sort((a, b) =>
+      isSurvey ? Number(b.category === "feedback") - Number(a.category === "feedback") : 0
+    );
+
   // Count responses if questionnaire exists
   let responseCount = 0;
   if (questionnaire) {
@@ -154,11 +183,13 @@ export default async function QuestionnairePage({ params }: PageProps) {
         <div className="flex items-center justify-between mb-2">
           <div className="flex items-center gap-3">
             <ClipboardList className="w-6 h-6 text-muted-foreground" />
-            <h1 className="text-2xl font-bold">{t("title")}</h1>
+            <h1 className="text-2xl font-bold">
+              {isSurvey ? t("survey.title") : t("title")}
+            </h1>
           </div>
           {questionnaire && responseCount > 0 && (
             <Link
-              href={`/events/${slug}/responses`}
+              href={isSurvey ? `/events/${slug}/survey/report` : `/events/${slug}/responses`}
               className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-primary hover:bg-primary/5 rounded-lg transition-colors"
             >
               <BarChart3 className="w-4 h-4" />
@@ -166,7 +197,10 @@ export default async function QuestionnairePage({ params }: PageProps) {
             </Link>
           )}
         </div>
-        <p className="text-muted-foreground text-sm mb-8">{event.title}</p>
+        <p className="text-muted-foreground text-sm mb-8">
+          {event.title}
+          {isSurvey && ` · ${t("survey.description")}`}
+        </p>
 
         {/* Builder */}
         <QuestionnaireBuilder
@@ -177,7 +211,9 @@ export default async function QuestionnairePage({ params }: PageProps) {
           isEnabled={questionnaire?.is_enabled ?? false}
           introText={questionnaire?.intro_text as MultilingualText | null}
           questions={questions}
-          templates={(templates as QuestionTemplate[]) || []}
+          templates={templates}
+          kind={kind}
+          isSeriesEvent={!!event.series_id}
         />
       </div>
     </main>
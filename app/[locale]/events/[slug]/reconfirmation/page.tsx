@@ -4,7 +4,7 @@ import { getTranslations } from "next-intl/server";
 import { Link } from "@/lib/i18n/routing";
 import { createClient } from "@/lib/supabase/server";
 import { ReconfirmationDashboard } from "@/components/events/reconfirmation-dashboard";
-import { hasRoleLevel, type UserRole } from "@/lib/types";
+import { hasRoleLevel, type UserRole, type WaitlistOffer } from "@/lib/types";
 
 interface PageProps {
   params: Promise<{ slug: string }>;
@@ -26,7 +26,7 @@ export default async function ReconfirmationPage({ params }: PageProps) {
   // Fetch the event
   const { data: event, error } = await supabase
     .from("events")
-    .select("id, slug, title, created_by")
+    .select("id, slug, title, created_by, waitlist_claim_minutes")
     .eq("slug", slug)
     .single();
 
@@ -60,6 +60,19 @@ export default async function ReconfirmationPage({ params }: PageProps) {
     notFound();
   }
 
+  // Waitlist offer queue: open offers first, then recent history
+  const { data: offers } = await supabase
+    .from("waitlist_offers")
+    .select("*, profiles:user_id (display_name, avatar_url, username)")
+    .eq("event_id", event.id)
+    .order("offered_at", { ascending: false })
+    .limit(30);
+
+  // Stable sort keeps each group newest-first
+  const sortedOffers = [...(offers ?? [])].sort(
+    (a, b) => Number(b.status === "pending") - Number(a.status === "pending")
+  );
+
   return (
     <main className="min-h-screen">
       <div className="container max-w-2xl mx-auto px-4 py-8">
@@ -90,6 +103,8 @@ export default async function ReconfirmationPage({ params }: PageProps) {
           confirmedAttendees={status.confirmed_attendees}
           pendingAttendees={status.pending_attendees}
           lastRePingAt={status.last_re_ping_at}
+          waitlistOffers={sortedOffers as WaitlistOffer[]}
+          claimWindowMinutes={event.waitlist_claim_minutes}
         />
       </div>
     </main>
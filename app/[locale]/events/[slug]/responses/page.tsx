@@ -4,7 +4,7 @@ import { getTranslations } from "next-intl/server";
 import { Link } from "@/lib/i18n/routing";
 import { createClient } from "@/lib/supabase/server";
 import { ResponseDashboard } from "@/components/events/response-dashboard";
-import type { MultilingualText, QuestionOption } from "@/lib/types";
+import type { MultilingualText, OptionCapacities, QuestionOption, QuestionType } from "@/lib/types";
 
 interface PageProps {
   params: Promise<{ slug: string }>;
@@ -13,8 +13,10 @@ interface PageProps {
 interface QuestionResponse {
   question_id: string;
   question_text: MultilingualText;
-  question_type: "single_choice" | "multi_choice" | "text";
+  question_type: QuestionType;
   options: QuestionOption[] | null;
+  option_capacities: OptionCapacities | null;
+  is_conditional: boolean;
   responses: {
     user_id: string;
     user_name: string;
@@ -58,6 +60,7 @@ export default async function ResponsesPage({ params }: PageProps) {
     .from("event_questionnaires")
     .select("id")
     .eq("event_id", event.id)
+    .eq("kind", "rsvp")
     .single();
 
   if (!questionnaire) {
@@ -86,6 +89,9 @@ export default async function ResponsesPage({ params }: PageProps) {
       custom_question_type,
       custom_question_text,
       custom_options,
+      show_if,
+      required_if,
+      option_capacities,
       question_templates (
         question_type,
         question_text,
@@ -99,12 +105,12 @@ export default async function ResponsesPage({ params }: PageProps) {
   const questions: QuestionResponse[] = (questionData || []).map((q) => {
     const templateData = q.question_templates;
     const template = (Array.isArray(templateData) ? templateData[0] : templateData) as {
-      question_type: "single_choice" | "multi_choice" | "text";
+      question_type: QuestionType;
       question_text: MultilingualText;
       options: QuestionOption[] | null;
     } | null;
 
-    const questionType = (template?.question_type || q.custom_question_type || "text") as "single_choice" | "multi_choice" | "text";
+    const questionType = (template?.question_type || q.custom_question_type || "text") as QuestionType;
     const questionText = (template?.question_text || q.custom_question_text || {}) as MultilingualText;
     const options = (template?.options || q.custom_options) as QuestionOption[] | null;
 
@@ -130,10 +136,32 @@ export default async function ResponsesPage({ params }: PageProps) {
       question_text: questionText,
       question_type: questionType,
       options,
+      option_capacities: q.option_capacities as OptionCapacities | null,
+      is_conditional: !!(q.show_if || q.required_if),
       responses: questionResponses,
     };
   });
 
+  // File answers are paths in a private bucket; sign them for this visit
+  const filePaths = questions
+    .filter((q) => q.question_type === "file")
+    .flatMap((q) => q.responses.map((r) => r.value))
+    .filter((value): value is string => typeof value === "string" && value.length > 0);
+
+  if (filePaths.length > 0) {
+    const { data: signed } = await supabase.storage
+      .from("questionnaire-uploads")
+      .createSignedUrls(filePaths, 60 * 60);
+    const urlByPath = new Map((signed ?? []).map((s) => [s.path, s.signedUrl]));
+
+    for (const question of questions) {
+      if (question.question_type !== "file") continue;
+      question.responses = question.responses
+        .map((r) => ({ ...r, value: urlByPath.get(r.value as string) ?? "" }))
+        .filter((r) => r.value);
+    }
+  }
+
   // Count unique users who responded
   const uniqueRespondents = new Set(
     (fullResponses || []).map((r: { user_id: string }) => r.user_id)
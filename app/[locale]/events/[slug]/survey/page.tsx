@@ -0,0 +1,102 @@
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/lib/i18n/routing";
+import { createClient } from "@/lib/supabase/server";
+import { getEventQuestionnaireServer } from "@/lib/questionnaire-server";
+import { SurveyResponder } from "@/components/surveys/survey-responder";
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function EventSurveyPage({ params }: PageProps) {
+  const { slug } = await params;
+  const supabase = await createClient();
+  const t = await getTranslations("surveys");
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/auth/login");
+  }
+
+  const { data: event, error } = await supabase
+    .from("events")
+    .select("id, slug, title, starts_at, ends_at")
+    .eq("slug", slug)
+    .single();
+
+  if (error || !event) {
+    notFound();
+  }
+
+  const [{ data: rsvp }, survey] = await Promise.all([
+    supabase
+      .from("rsvps")
+      .select("id, status")
+      .eq("event_id", event.id)
+      .eq("user_id", user.id)
+      .maybeSingle(),
+    getEventQuestionnaireServer(event.id, "post_event"),
+  ]);
+
+  // Same rule as the event page: ends_at, or 4 hours after the start
+  const endsAt = event.ends_at
+    ? new Date(event.ends_at)
+    : new Date(new Date(event.starts_at).getTime() + 4 * 60 * 60 * 1000);
+  const isPast = endsAt < new Date();
+
+  let message: string | null = null;
+  if (!survey?.is_enabled || survey.questions.length === 0) {
+    message = t("notAvailable");
+  } else if (rsvp?.status !== "going") {
+    message = t("attendeesOnly");
+  } else if (!isPast) {
+    message = t("notEnded");
+  } else {
+    const { count } = await supabase
+      .from("rsvp_responses")
+      .select("id", { count: "exact", head: true })
+      .eq("rsvp_id", rsvp.id)
+      .in(
+        "question_id",
+        survey.questions.map((q) => q.id)
+      );
+    if ((count ?? 0) > 0) {
+      message = t("alreadyAnswered");
+    }
+  }
+
+  return (
+    <main className="min-h-screen">
+      <div className="container max-w-2xl mx-auto px-4 py-8">
+        <Link
+          href={`/events/${slug}`}
+          className="-ml-3 flex items-center gap-2 text-muted-foreground hover:text-foreground active:text-foreground active:scale-95 transition-all px-3 py-2 rounded-lg mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>{t("backToEvent")}</span>
+        </Link>
+
+        {message || !survey || !rsvp ? (
+          <div className="p-8 border border-dashed rounded-lg text-center">
+            <p className="font-medium">{event.title}</p>
+            <p className="text-sm text-muted-foreground mt-2">{message}</p>
+          </div>
+        ) : (
+          <div className="rounded-2xl border bg-card">
+            <SurveyResponder
+              rsvpId={rsvp.id}
+              eventSlug={event.slug}
+              eventTitle={event.title}
+              survey={survey}
+            />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -13,8 +13,17 @@ import {
 } from "lucide-react";
 import { getTranslations } from "next-intl/server";
 import { createClient, createStaticClient } from "@/lib/supabase/server";
-import type { Festival, FestivalOrganizer, FestivalEvent, FestivalUpdate, Locale } from "@/lib/types";
+import {
+  hasRoleLevel,
+  type Festival,
+  type FestivalOrganizer,
+  type FestivalEvent,
+  type FestivalUpdate,
+  type Locale,
+  type UserRole,
+} from "@/lib/types";
 import { FestivalTabs } from "@/components/festivals/festival-tabs";
+import { toScheduleSessions } from "@/lib/festivals/schedule";
 import { generateFestivalMetadata } from "@/lib/metadata";
 import { JsonLd, generateFestivalSchema, generateBreadcrumbSchema } from "@/lib/structured-data";
 
@@ -86,6 +95,32 @@ async function getFestivalUpdates(festivalId: string) {
   return (data ?? []) as FestivalUpdate[];
 }
 
+// The signed-in visitor's starred sessions, and whether they run the festival
+async function getViewerContext(festival: Festival) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { isLoggedIn: false, starred: [] as string[], canManage: false };
+
+  const [{ data: items }, { data: profile }] = await Promise.all([
+    supabase
+      .from("festival_agenda_items")
+      .select("event_id")
+      .eq("user_id", user.id)
+      .eq("festival_id", festival.id),
+    supabase.from("profiles").select("role").eq("id", user.id).single(),
+  ]);
+
+  return {
+    isLoggedIn: true,
+    starred: (items ?? []).map((i) => i.event_id as string),
+    canManage:
+      festival.created_by === user.id ||
+      (!!profile?.role && hasRoleLevel(profile.role as UserRole, "admin")),
+  };
+}
+
 // Generate SEO metadata for festival pages
 export async function generateMetadata({ params }: FestivalPageProps): Promise<Metadata> {
   const { slug, locale } = await params;
@@ -124,9 +159,10 @@ export default async function FestivalPage({ params }: FestivalPageProps) {
     notFound();
   }
 
-  const [events, updates] = await Promise.all([
+  const [events, updates, viewer] = await Promise.all([
     getFestivalEvents(festival.id),
     getFestivalUpdates(festival.id),
+    getViewerContext(festival),
   ]);
 
   // Format dates
@@ -146,12 +182,10 @@ export default async function FestivalPage({ params }: FestivalPageProps) {
     (fo) => fo.role === "lead"
   );
 
-  // Separate official and community events
-  const officialEvents = events.filter(
-    (e) => e.event_type === "official_program"
-  );
-  const communityEvents = events.filter(
-    (e) => e.event_type === "community_side_event"
+  // Timed program items go in the schedule grid; the rest have no time yet
+  const sessions = toScheduleSessions(events);
+  const announcements = events.filter(
+    (e) => e.event_type === "announcement_only"
   );
 
   // Generate structured data for SEO and AEO
@@ -320,9 +354,12 @@ export default async function FestivalPage({ params }: FestivalPageProps) {
         {/* Tabs: Program / Updates / About */}
         <FestivalTabs
           festival={festival}
-          officialEvents={officialEvents}
-          communityEvents={communityEvents}
+          sessions={sessions}
+          announcements={announcements}
           updates={updates}
+          initialStarred={viewer.starred}
+          isLoggedIn={viewer.isLoggedIn}
+          canManage={viewer.canManage}
         />
       </div>
     </div>
@@ -6,6 +6,7 @@ import { getTranslations, getLocale } from "next-intl/server";
 import { createClient } from "@/lib/supabase/server";
 import { Card, CardContent } from "@/components/ui/card";
 import { formatInDaLat } from "@/lib/timezone";
+import { withRsvpSource } from "@/lib/events/rsvp-source";
 import { InviteRsvpButtons } from "./rsvp-buttons";
 import { decodeUnicodeEscapes } from "@/lib/utils";
 import type { Locale, InvitationRsvpStatus } from "@/lib/types";
@@ -257,7 +258,7 @@ export default async function InvitePage({ params, searchParams }: PageProps) {
               </a>
 
               <Link
-                href={`/events/${event.slug}`}
+                href={withRsvpSource(`/events/${event.slug}`, "invite")}
                 className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-md text-primary hover:underline"
               >
                 {t("viewEventPage")}
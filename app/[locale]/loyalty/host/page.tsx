@@ -4,6 +4,7 @@ import { buildLocales } from "@/lib/i18n/routing";
 import { generateLocalizedMetadata } from "@/lib/metadata";
 import { createClient } from "@/lib/supabase/server";
 import { HostDashboard } from "@/components/loyalty/host-dashboard";
+import { HostIssuedPerks } from "@/components/loyalty/host-issued-perks";
 import type { Locale } from "@/lib/types";
 
 type PageProps = {
@@ -50,6 +51,11 @@ export default async function HostRewardsPage({ params }: PageProps) {
         {t("hostRewards.subtitle")}
       </p>
       <HostDashboard userId={userId} />
+      {userId && (
+        <div className="mt-6">
+          <HostIssuedPerks />
+        </div>
+      )}
     </main>
   );
 }
@@ -0,0 +1,93 @@
+import { Link } from "@/lib/i18n/routing";
+import { redirect } from "next/navigation";
+import { getTranslations } from "next-intl/server";
+import {
+  ArrowLeft,
+  CheckCircle,
+  Eye,
+  Repeat,
+  Star,
+  UserX,
+  Users,
+} from "lucide-react";
+import { createClient } from "@/lib/supabase/server";
+import { StatCard } from "@/components/admin/analytics";
+import { AnalyticsDashboard } from "@/components/organizer/analytics-dashboard";
+import {
+  buildOrganizerAnalytics,
+  formatRate,
+  loadOrganizerAnalyticsInput,
+} from "@/lib/organizer/analytics";
+
+export default async function OrganizerAnalyticsPage() {
+  const supabase = await createClient();
+  const t = await getTranslations("organizerAnalytics");
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/auth/login");
+  }
+
+  const analytics = buildOrganizerAnalytics(
+    await loadOrganizerAnalyticsInput(supabase, user.id)
+  );
+  const { totals } = analytics;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <Link
+            href="/organizer"
+            className="-ml-3 flex items-center gap-2 text-muted-foreground hover:text-foreground active:scale-95 transition-all px-3 py-2 rounded-lg"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+          <h1 className="text-2xl font-bold">{t("title")}</h1>
+        </div>
+        <p className="text-muted-foreground">{t("description")}</p>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+        <StatCard
+          title={t("steps.views")}
+          value={totals.views}
+          icon={<Eye className="h-5 w-5" />}
+        />
+        <StatCard
+          title={t("steps.going")}
+          value={totals.going}
+          subtitle={t("interestedSubtitle", { count: totals.interested })}
+          icon={<Users className="h-5 w-5" />}
+        />
+        <StatCard
+          title={t("steps.checkedIn")}
+          value={totals.checkedIn}
+          icon={<CheckCircle className="h-5 w-5" />}
+        />
+        <StatCard
+          title={t("noShowRateTitle")}
+          value={formatRate(totals.noShowRate)}
+          subtitle={t("noShowRateSubtitle")}
+          icon={<UserX className="h-5 w-5" />}
+        />
+        <StatCard
+          title={t("returningTitle")}
+          value={totals.returningAttendees}
+          subtitle={t("returningSubtitle", { total: totals.uniqueAttendees })}
+          icon={<Repeat className="h-5 w-5" />}
+        />
+        <StatCard
+          title={t("steps.contributed")}
+          value={totals.contributed}
+          icon={<Star className="h-5 w-5" />}
+        />
+      </div>
+
+      <AnalyticsDashboard analytics={analytics} />
+    </div>
+  );
+}
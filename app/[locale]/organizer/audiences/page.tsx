@@ -0,0 +1,81 @@
+import { Link } from "@/lib/i18n/routing";
+import { ArrowLeft } from "lucide-react";
+import { redirect } from "next/navigation";
+import { getTranslations } from "next-intl/server";
+import { createClient } from "@/lib/supabase/server";
+import { AudienceSegments } from "@/components/organizer/audience-segments";
+import type { AudienceSegment } from "@/lib/audiences/segments";
+
+async function getSegmentBuilderData(organizerId: string) {
+  const supabase = await createClient();
+
+  const [segments, venues, tribes, organizers] = await Promise.all([
+    supabase
+      .from("audience_segments")
+      .select("*")
+      .eq("organizer_id", organizerId)
+      .order("updated_at", { ascending: false }),
+    supabase.from("venues").select("id, name").order("name"),
+    supabase.from("tribes").select("id, name").eq("is_listed", true).order("name"),
+    // Organizers are followed through their owner's profile — unowned ones can't be
+    supabase.from("organizers").select("id, name").not("owner_id", "is", null).order("name"),
+  ]);
+
+  return {
+    segments: (segments.data ?? []) as AudienceSegment[],
+    venues: venues.data ?? [],
+    tribes: tribes.data ?? [],
+    organizers: organizers.data ?? [],
+  };
+}
+
+export default async function OrganizerAudiencesPage() {
+  const supabase = await createClient();
+  const t = await getTranslations("organizerPortal");
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/auth/login");
+  }
+
+  const { data: organizer } = await supabase
+    .from("organizers")
+    .select("id")
+    .eq("owner_id", user.id)
+    .limit(1)
+    .maybeSingle();
+
+  const data = organizer ? await getSegmentBuilderData(organizer.id) : null;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <Link
+            href="/organizer"
+            className="-ml-3 flex items-center gap-2 text-muted-foreground hover:text-foreground active:scale-95 transition-all px-3 py-2 rounded-lg"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+          <h1 className="text-2xl font-bold">{t("audiences")}</h1>
+        </div>
+        <p className="text-muted-foreground">{t("audiencesDescription")}</p>
+      </div>
+
+      {organizer && data ? (
+        <AudienceSegments
+          organizerId={organizer.id}
+          initialSegments={data.segments}
+          venues={data.venues}
+          tribes={data.tribes}
+          organizers={data.organizers}
+        />
+      ) : (
+        <p className="text-muted-foreground">{t("noOrganizerLinked")}</p>
+      )}
+    </div>
+  );
+}
@@ -2,11 +2,13 @@ import { redirect } from "next/navigation";
 import { getTranslations } from "next-intl/server";
 import { Link } from "@/lib/i18n/routing";
 import {
+  BarChart3,
   Building2,
   Home,
   PartyPopper,
   Calendar,
   LayoutDashboard,
+  Megaphone,
 } from "lucide-react";
 import { createClient } from "@/lib/supabase/server";
 import type { Profile, Organizer } from "@/lib/types";
@@ -82,6 +84,8 @@ export default async function OrganizerLayout({
     { href: "/organizer", label: t("dashboard"), icon: LayoutDashboard },
     { href: "/organizer/festivals", label: t("festivals"), icon: PartyPopper },
     { href: "/organizer/events", label: t("events"), icon: Calendar },
+    { href: "/organizer/audiences", label: t("audiences"), icon: Megaphone },
+    { href: "/organizer/analytics", label: t("analytics"), icon: BarChart3 },
       ];
 
   return (
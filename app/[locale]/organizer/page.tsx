@@ -7,6 +7,7 @@ import {
   Users,
   Plus,
   ArrowRight,
+  BarChart3,
 } from "lucide-react";
 import { createClient } from "@/lib/supabase/server";
 import { StatCard } from "@/components/admin/analytics";
@@ -168,6 +169,13 @@ export default async function OrganizerDashboard() {
             <PartyPopper className="h-4 w-4" />
             {t("createFestival")}
           </Link>
+          <Link
+            href="/organizer/analytics"
+            className="inline-flex items-center gap-2 rounded-md bg-secondary px-4 py-2 text-sm font-medium text-secondary-foreground transition-colors hover:bg-secondary/80"
+          >
+            <BarChart3 className="h-4 w-4" />
+            {t("analytics")}
+          </Link>
         </div>
       </div>
 
@@ -269,7 +269,7 @@ export default async function SearchPage({ params }: PageProps) {
                   </h2>
                   <div className="grid gap-4 sm:grid-cols-2">
                     {happening.map((event) => (
-                      <EventCard key={event.id} event={event} counts={counts[event.id]} />
+                      <EventCard key={event.id} event={event} counts={counts[event.id]} source="search" />
                     ))}
                   </div>
                 </section>
@@ -283,7 +283,7 @@ export default async function SearchPage({ params }: PageProps) {
                   </h2>
                   <div className="grid gap-4 sm:grid-cols-2">
                     {upcoming.map((event) => (
-                      <EventCard key={event.id} event={event} counts={counts[event.id]} />
+                      <EventCard key={event.id} event={event} counts={counts[event.id]} source="search" />
                     ))}
                   </div>
                 </section>
@@ -297,7 +297,7 @@ export default async function SearchPage({ params }: PageProps) {
                   </h2>
                   <div className="grid gap-4 sm:grid-cols-2">
                     {past.map((event) => (
-                      <EventCard key={event.id} event={event} counts={counts[event.id]} />
+                      <EventCard key={event.id} event={event} counts={counts[event.id]} source="search" />
                     ))}
                   </div>
                 </section>
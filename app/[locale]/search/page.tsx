@@ -1,7 +1,8 @@
+import { Suspense } from "react";
 import { Search } from "lucide-react";
 import { getTranslations, setRequestLocale } from "next-intl/server";
 import { type Locale, buildLocales } from "@/lib/i18n/routing";
-import { EventSearchBar } from "@/components/events/event-search-bar";
+import { SearchExplorer } from "@/components/search/search-explorer";
 import { generateLocalizedMetadata } from "@/lib/metadata";
 import type { Metadata } from "next";
 
@@ -37,8 +38,8 @@ export default async function SearchLandingPage({ params }: PageProps) {
       {/* Content */}
       <div className="flex-1 container max-w-4xl mx-auto px-4 py-8">
         {/* Page title */}
-        <div className="mb-8 text-center">
-          <h1 className="text-2xl font-bold mb-2 flex items-center justify-center gap-2">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold mb-1 flex items-center gap-2">
             <Search className="w-6 h-6 text-muted-foreground" />
             {t("search.placeholder")}
           </h1>
@@ -47,10 +48,10 @@ export default async function SearchLandingPage({ params }: PageProps) {
           </p>
         </div>
 
-        {/* Search bar - auto-focused for immediate typing */}
-        <div className="max-w-md mx-auto">
-          <EventSearchBar className="w-full" />
-        </div>
+        {/* Filters live in the URL (useSearchParams), so the shell stays static */}
+        <Suspense fallback={<div className="h-11 rounded-full bg-muted animate-pulse" />}>
+          <SearchExplorer />
+        </Suspense>
       </div>
     </main>
   );
@@ -140,8 +140,9 @@ async function getSeriesData(slug: string): Promise<SeriesData | null> {
 
 export default async function SeriesPage({ params }: PageProps) {
   const { slug } = await params;
-  const [t, locale] = await Promise.all([
+  const [t, tRecurrence, locale] = await Promise.all([
     getTranslations(),
+    getTranslations("recurrence"),
     getLocale(),
   ]);
 
@@ -153,7 +154,7 @@ export default async function SeriesPage({ params }: PageProps) {
 
   const { series, upcomingEvents, subscriberCount, isSubscribed: _isSubscribed, isOwner, promo } = data;
 
-  const recurrenceDescription = describeRRule(series.rrule);
+  const recurrenceDescription = describeRRule(series.rrule, tRecurrence);
 
   // Use series image, or fall back to first event's image
   const coverImage = series.image_url || upcomingEvents[0]?.image_url;
@@ -286,6 +287,11 @@ export default async function SeriesPage({ params }: PageProps) {
               <Link href={`/series/${series.slug}/edit`}>{t("series.editSeries")}</Link>
             </Button>
           )}
+          {isOwner && (
+            <Button asChild variant="outline">
+              <Link href={`/series/${series.slug}/survey-report`}>{t("series.surveyReport")}</Link>
+            </Button>
+          )}
         </div>
 
         {/* Promo Media - promotional content for this series */}
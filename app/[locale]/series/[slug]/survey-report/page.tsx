@@ -0,0 +1,81 @@
+import { redirect } from "next/navigation";
+import { ArrowLeft, CalendarDays, MessageSquareHeart, Percent, Users } from "lucide-react";
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/lib/i18n/routing";
+import { createClient } from "@/lib/supabase/server";
+import { StatCard } from "@/components/admin/analytics";
+import { SurveyReport } from "@/components/surveys/survey-report";
+import { buildSurveyReport, loadSurveyReportInput, resolveReportTarget } from "@/lib/surveys/report";
+import { formatRate } from "@/lib/organizer/analytics";
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function SeriesSurveyReportPage({ params }: PageProps) {
+  const { slug } = await params;
+  const supabase = await createClient();
+  const t = await getTranslations("surveyReport");
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/auth/login");
+  }
+
+  const target = await resolveReportTarget(supabase, user.id, "series", slug);
+  if (!target) {
+    redirect(`/series/${slug}`);
+  }
+
+  const input = await loadSurveyReportInput(supabase, target.events);
+  const report = buildSurveyReport(input);
+  const surveyedDates = new Set(input.questions.map((q) => q.event_id)).size;
+
+  return (
+    <main className="min-h-screen">
+      <div className="container max-w-3xl mx-auto px-4 py-8 space-y-8">
+        <div>
+          <Link
+            href={`/series/${slug}`}
+            className="-ml-3 flex items-center gap-2 text-muted-foreground hover:text-foreground active:text-foreground active:scale-95 transition-all px-3 py-2 rounded-lg mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>{t("backToSeries")}</span>
+          </Link>
+          <div className="flex items-center gap-3 mb-2">
+            <MessageSquareHeart className="w-6 h-6 text-muted-foreground" />
+            <h1 className="text-2xl font-bold">{t("title")}</h1>
+          </div>
+          <p className="text-muted-foreground text-sm">
+            {target.title} · {t("seriesDescription")}
+          </p>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+          <StatCard
+            title={t("surveyedDates")}
+            value={surveyedDates}
+            subtitle={t("ofDates", { count: target.events.length })}
+            icon={<CalendarDays className="h-5 w-5" />}
+          />
+          <StatCard
+            title={t("respondents")}
+            value={report.respondents}
+            subtitle={t("ofAttendees", { count: report.attendees })}
+            icon={<Users className="h-5 w-5" />}
+          />
+          <StatCard
+            title={t("responseRate")}
+            value={formatRate(report.responseRate)}
+            icon={<Percent className="h-5 w-5" />}
+          />
+        </div>
+
+        <SurveyReport report={report} scope="series" slug={slug} />
+      </div>
+    </main>
+  );
+}
@@ -10,6 +10,9 @@ export const maxDuration = 60;
 import { ThemeSelector } from "@/components/settings/theme-selector";
 import { LanguageSelector } from "@/components/settings/language-selector";
 import { NotificationSettings } from "@/components/settings/notification-settings";
+import { DigestSettings } from "@/components/settings/digest-settings";
+import { QuietHoursSettings } from "@/components/settings/quiet-hours-settings";
+import { CalendarFeedSettings } from "@/components/settings/calendar-feed-settings";
 import { PasswordSettings } from "@/components/settings/password-settings";
 import { SignOutButton } from "@/components/settings/sign-out-button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -43,8 +46,23 @@ export default async function SettingsPage({ params }: Props) {
             {t("notificationsDescription")}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-6">
           <NotificationSettings />
+          <DigestSettings />
+          <QuietHoursSettings />
+        </CardContent>
+      </Card>
+
+      {/* Calendar Feed Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("calendarFeed.title")}</CardTitle>
+          <CardDescription>
+            {t("calendarFeed.description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CalendarFeedSettings />
         </CardContent>
       </Card>
 
@@ -9,9 +9,11 @@ import { TribeMembersList } from "@/components/tribes/tribe-members-list";
 import { TribeEventsList } from "@/components/tribes/tribe-events-list";
 import { JoinTribeButton } from "@/components/tribes/join-tribe-button";
 import { TribeTabs } from "@/components/tribes/tribe-tabs";
+import { TribeBoard } from "@/components/tribes/tribe-board";
 import { MomentsTimeline } from "@/components/moments/moments-timeline";
 import type { EventMomentsGroup } from "@/lib/types";
 import { generateLocalizedMetadata } from "@/lib/metadata";
+import { tribePermissionsFor } from "@/lib/tribes/permissions";
 import type { Locale } from "@/lib/i18n/routing";
 
 // Keep in sync with the same constants in components/moments/moments-timeline.tsx,
@@ -19,7 +21,10 @@ import type { Locale } from "@/lib/i18n/routing";
 const EVENTS_PER_PAGE = 5;
 const MOMENTS_PER_EVENT = 6;
 
-interface PageProps { params: Promise<{ slug: string; locale: string }>; }
+interface PageProps {
+  params: Promise<{ slug: string; locale: string }>;
+  searchParams: Promise<{ post?: string }>;
+}
 
 export async function generateMetadata({ params }: PageProps) {
   const { slug, locale } = await params;
@@ -49,8 +54,9 @@ export async function generateMetadata({ params }: PageProps) {
   return metadata;
 }
 
-export default async function TribePage({ params }: PageProps) {
+export default async function TribePage({ params, searchParams }: PageProps) {
   const { slug, locale } = await params;
+  const { post } = await searchParams;
   const supabase = await createClient();
   const t = await getTranslations("tribes");
   const { data: { user } } = await supabase.auth.getUser();
@@ -75,20 +81,27 @@ export default async function TribePage({ params }: PageProps) {
 
   if (tribe.access_type === "secret" && !membership) notFound();
 
-  const isAdmin = membership?.role === "leader" || membership?.role === "admin" || tribe.created_by === user?.id;
+  const permissions = tribePermissionsFor(tribe, membership, user?.id);
 
   // invite_code grants membership on its own — /api/tribes/[slug]/membership
   // inserts the row for any valid code, with no approval step. RLS makes
   // invite_only tribes readable by anonymous visitors, so passing the whole row
   // to a client component published the code in the RSC payload to everyone who
-  // could load the page. Strip it for non-admins before it crosses that boundary.
-  const clientTribe = isAdmin ? tribe : { ...tribe, invite_code: null };
+  // could load the page. Strip it for anyone who can't invite before it crosses
+  // that boundary.
+  const canSeeInviteCode = permissions.invite || permissions.rotate_invite_code;
+  const clientTribe = canSeeInviteCode ? tribe : { ...tribe, invite_code: null };
 
   // Mirrors the browse filter in app/api/tribes/route.ts and the gate inside
   // get_tribe_public_members(): only already-discoverable tribes expose a roster.
   const isDiscoverable =
     (tribe.access_type === "public" || tribe.access_type === "request") && tribe.is_listed;
 
+  // Same rule as can_view_tribe_posts(): public boards are open to read,
+  // everything else is members-only. Only active members post.
+  const isActiveMember = membership?.status === "active" || tribe.created_by === user?.id;
+  const canViewBoard = isActiveMember || (tribe.access_type === "public" && membership?.status !== "banned");
+
   const eventsQuery = supabase.from("events").select("*, profiles:created_by(display_name, avatar_url)").eq("tribe_id", tribe.id).eq("status", "published").order("starts_at", { ascending: true });
   if (!membership) eventsQuery.eq("tribe_visibility", "public");
 
@@ -114,7 +127,7 @@ export default async function TribePage({ params }: PageProps) {
       <TribeHeader
         tribe={clientTribe}
         membership={membership}
-        isAdmin={isAdmin}
+        permissions={permissions}
         eventCount={events?.length ?? 0}
         momentCount={momentCount ?? 0}
       />
@@ -133,7 +146,7 @@ export default async function TribePage({ params }: PageProps) {
           ) : undefined}
           eventsSlot={
             <section className="space-y-4">
-              {isAdmin && (
+              {permissions.create_events && (
                 <div className="flex justify-end">
                   <Link href={`/events/new?tribe=${tribe.slug}`}>
                     <Button variant="outline" size="sm" className="gap-2 px-3 py-2 active:scale-95 transition-all">
@@ -146,10 +159,29 @@ export default async function TribePage({ params }: PageProps) {
               <TribeEventsList events={events || []} locale={locale} />
             </section>
           }
+          boardSlot={canViewBoard ? (
+            <TribeBoard
+              tribeId={tribe.id}
+              tribeSlug={tribe.slug}
+              creatorId={tribe.created_by}
+              currentUserId={user?.id}
+              isMember={isActiveMember}
+              isAdmin={permissions.manage}
+            />
+          ) : undefined}
+          // Notification links (?post=) land on the board
+          initialTab={post ? "board" : undefined}
           // Discoverable tribes show their roster to everyone — seeing who runs
           // a tribe and who's in it is the whole reason to join one. invite_only
           // and secret tribes stay members-only.
-          membersSlot={(membership || isDiscoverable) ? <TribeMembersList tribeSlug={slug} isAdmin={isAdmin} /> : undefined}
+          membersSlot={(membership || isDiscoverable) ? (
+            <TribeMembersList
+              tribeSlug={slug}
+              roleNames={tribe.settings?.role_names}
+              canManage={permissions.manage}
+              canBan={permissions.ban_members}
+            />
+          ) : undefined}
         />
       </div>
     </main>
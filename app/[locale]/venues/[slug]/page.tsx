@@ -24,6 +24,7 @@ import { generateVenueMetadata } from "@/lib/metadata";
 import { JsonLd, generateLocalBusinessSchema, generateBreadcrumbSchema } from "@/lib/structured-data";
 import { getVenueTypeConfig } from "@/lib/constants/venue-types";
 import { VenueHoursBadge } from "@/components/venues/venue-hours-badge";
+import { VenueHoursTable } from "@/components/venues/venue-hours-table";
 import { PhoneActionButton } from "@/components/venues/phone-action-button";
 import { getTranslationsWithFallback } from "@/lib/translations";
 import { PhotoGallery } from "@/components/ui/photo-gallery";
@@ -253,17 +254,6 @@ export default async function VenuePage({ params }: PageProps) {
     locale
   );
 
-  const daysOfWeek = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
-  const dayLabels: Record<string, string> = {
-    monday: "Mon",
-    tuesday: "Tue",
-    wednesday: "Wed",
-    thursday: "Thu",
-    friday: "Fri",
-    saturday: "Sat",
-    sunday: "Sun",
-  };
-
   const amenities = [
     { key: "wifi", icon: Wifi, has: venue.has_wifi, label: t("amenities.wifi") },
     { key: "parking", icon: Car, has: venue.has_parking, label: t("amenities.parking") },
@@ -334,7 +324,7 @@ export default async function VenuePage({ params }: PageProps) {
                       </span>
                     )}
                     {venue.operating_hours && (
-                      <VenueHoursBadge operatingHours={venue.operating_hours} />
+                      <VenueHoursBadge operatingHours={venue.operating_hours} exceptions={venue.hours_exceptions} />
                     )}
                     {venue.price_range && (
                       <span className="text-sm text-white/80">
@@ -401,7 +391,7 @@ export default async function VenuePage({ params }: PageProps) {
                   </span>
                 )}
                 {venue.operating_hours && (
-                  <VenueHoursBadge operatingHours={venue.operating_hours} />
+                  <VenueHoursBadge operatingHours={venue.operating_hours} exceptions={venue.hours_exceptions} />
                 )}
                 {venue.price_range && (
                   <span className="text-sm text-muted-foreground">
@@ -668,42 +658,16 @@ export default async function VenuePage({ params }: PageProps) {
         <VenueCommunityPhotos venueId={venue.id} locale={locale} />
 
         {/* Hours Section */}
-        {venue.operating_hours && (
+        {(venue.operating_hours || venue.hours_exceptions.length > 0) && (
           <section id="hours" className="mb-8 pt-2">
             <h2 className="text-xl font-semibold mb-3 flex items-center gap-2">
               <Clock className="w-5 h-5" />
               {t("hours")}
             </h2>
-            <div className="bg-muted/30 rounded-lg p-4">
-              <div className="grid gap-2">
-                {daysOfWeek.map((day) => {
-                  const hours = venue.operating_hours?.[day];
-                  const today = new Date();
-                  const daLatTime = new Date(today.getTime() + 7 * 60 * 60 * 1000);
-                  const currentDay = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"][daLatTime.getUTCDay()];
-                  const isToday = currentDay === day;
-
-                  return (
-                    <div
-                      key={day}
-                      className={`flex justify-between items-center py-1 px-2 rounded ${
-                        isToday ? "bg-primary/10 font-medium" : ""
-                      }`}
-                    >
-                      <span className={isToday ? "text-primary" : "text-muted-foreground"}>
-                        {dayLabels[day]}
-                        {isToday && " (Today)"}
-                      </span>
-                      <span className={hours === "closed" || !hours ? "text-muted-foreground" : ""}>
-                        {hours === "closed" || !hours
-                          ? "Closed"
-                          : `${hours.open} - ${hours.close}`}
-                      </span>
-                    </div>
-                  );
-                })}
-              </div>
-            </div>
+            <VenueHoursTable
+              operatingHours={venue.operating_hours}
+              exceptions={venue.hours_exceptions}
+            />
           </section>
         )}
 
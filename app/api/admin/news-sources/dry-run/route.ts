@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { hasRoleLevel, type UserRole } from "@/lib/types";
+import { newsSourceFromInput, validateNewsSource } from "@/lib/news/sources";
+import { dryRunSource } from "@/lib/news/source-scraper";
+
+export const maxDuration = 60;
+
+/**
+ * POST /api/admin/news-sources/dry-run
+ * Run a (possibly unsaved) source definition against the live site: fetch
+ * the discovery page and the first few articles, store nothing, and return
+ * the links found plus what the title/content/date extractors returned for
+ * each article. Admin only.
+ *
+ * Body: same shape as PUT /api/admin/news-sources
+ * Returns: SourceDryRun
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+  if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "admin")) {
+    return NextResponse.json({ error: "not_authorized" }, { status: 403 });
+  }
+
+  const source = newsSourceFromInput(await request.json());
+  const problems = validateNewsSource(source);
+  if (problems.length > 0) {
+    return NextResponse.json({ error: "invalid_source", problems }, { status: 400 });
+  }
+
+  return NextResponse.json(await dryRunSource(source));
+}
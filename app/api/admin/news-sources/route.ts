@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { hasRoleLevel, type UserRole } from "@/lib/types";
+import { newsSourceFromInput, newsSourceToRow, validateNewsSource } from "@/lib/news/sources";
+
+async function getAdminClient() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: NextResponse.json({ error: "not_authenticated" }, { status: 401 }) };
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+  if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "admin")) {
+    return { error: NextResponse.json({ error: "not_authorized" }, { status: 403 }) };
+  }
+
+  return { supabase };
+}
+
+/**
+ * GET /api/admin/news-sources
+ * All news source definitions with their latest scrape yield. Admin only.
+ */
+export async function GET() {
+  const auth = await getAdminClient();
+  if (auth.error) return auth.error;
+
+  const { data, error } = await auth.supabase
+    .from("news_sources")
+    .select("*")
+    .order("sort_order")
+    .order("id");
+
+  if (error) {
+    console.error("News sources fetch error:", error);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+
+  return NextResponse.json({ sources: data ?? [] });
+}
+
+/**
+ * PUT /api/admin/news-sources
+ * Create or update a source definition. Admin only.
+ *
+ * Body: { id, name, baseUrl, discoveryUrl, linkPattern, excludeLinks[],
+ *         contentClasses[], maxArticles, requestDelay, enabled }
+ * Returns: { source } or { error: "invalid_source", problems: string[] }
+ */
+export async function PUT(request: Request) {
+  const auth = await getAdminClient();
+  if (auth.error) return auth.error;
+
+  const source = newsSourceFromInput(await request.json());
+  const problems = validateNewsSource(source);
+  if (problems.length > 0) {
+    return NextResponse.json({ error: "invalid_source", problems }, { status: 400 });
+  }
+
+  const { data, error } = await auth.supabase
+    .from("news_sources")
+    .upsert(newsSourceToRow(source), { onConflict: "id" })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("News source save error:", error);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+
+  return NextResponse.json({ source: data });
+}
+
+/**
+ * DELETE /api/admin/news-sources?id=...
+ * Remove a source definition. Admin only.
+ */
+export async function DELETE(request: Request) {
+  const auth = await getAdminClient();
+  if (auth.error) return auth.error;
+
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "missing_id" }, { status: 400 });
+  }
+
+  const { error } = await auth.supabase.from("news_sources").delete().eq("id", id);
+  if (error) {
+    console.error("News source delete error:", error);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -1,22 +1,44 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { createClient as createServiceRoleClient } from '@supabase/supabase-js';
 import { getAudienceCounts } from '@/lib/audiences/resolve';
+import { getSegmentAccess } from '@/lib/audiences/access';
+import {
+  resolveSegmentMembers,
+  segmentAudienceKey,
+  type AudienceSegment,
+} from '@/lib/audiences/segments';
 
-// GET /api/audiences — pinned audience options for the invite modal (admin only)
-export async function GET() {
+interface AudienceOption {
+  key: string;
+  count: number;
+  /** Segment name — pinned audiences are labelled by their key */
+  label?: string;
+}
+
+// GET /api/audiences?event=<slug> — audience options for the invite modal.
+// Admins get the pinned @all / @tag audiences; admins and the event's organizer
+// owner also get that organizer's saved segments.
+export async function GET(request: NextRequest) {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const { data: profile } = await supabase
-    .from('profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single();
-  if (profile?.role !== 'admin' && profile?.role !== 'superadmin') {
+  const eventSlug = request.nextUrl.searchParams.get('event');
+  let organizerId: string | null = null;
+  if (eventSlug) {
+    const { data: event } = await supabase
+      .from('events')
+      .select('organizer_id')
+      .eq('slug', eventSlug)
+      .single();
+    organizerId = event?.organizer_id ?? null;
+  }
+
+  const access = await getSegmentAccess(supabase, user.id, organizerId);
+  if (!access.allowed) {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
@@ -25,9 +47,31 @@ export async function GET() {
   if (!url || !serviceKey) {
     return NextResponse.json({ error: 'Not configured' }, { status: 500 });
   }
+  const admin = createServiceRoleClient(url, serviceKey);
 
   try {
-    const audiences = await getAudienceCounts(createServiceRoleClient(url, serviceKey));
+    const { data: segments, error } = organizerId
+      ? await supabase
+          .from('audience_segments')
+          .select('*')
+          .eq('organizer_id', organizerId)
+          .order('updated_at', { ascending: false })
+      : { data: [], error: null };
+    if (error) throw new Error(`segments: ${error.message}`);
+
+    const [pinned, segmentOptions] = await Promise.all([
+      access.isAdmin ? getAudienceCounts(admin) : Promise.resolve([]),
+      Promise.all(
+        ((segments ?? []) as AudienceSegment[]).map(async (segment): Promise<AudienceOption> => {
+          const members = await resolveSegmentMembers(admin, segment.rules, {
+            scopeToOrganizerId: access.isAdmin ? undefined : segment.organizer_id,
+          });
+          return { key: segmentAudienceKey(segment.id), label: segment.name, count: members.length };
+        })
+      ),
+    ]);
+
+    const audiences: AudienceOption[] = [...segmentOptions, ...pinned];
     return NextResponse.json({ audiences });
   } catch (err) {
     console.error('[audiences] count failed:', err);
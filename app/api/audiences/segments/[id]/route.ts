@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { MAX_SEGMENT_NAME_LENGTH, parseSegmentRules } from '@/lib/audiences/segments';
+
+// PATCH /api/audiences/segments/[id] — { name?, rules? }
+// Ownership is enforced by RLS (organizer owner or admin); a row the caller
+// can't see simply doesn't update.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const updates: Record<string, unknown> = {};
+
+  if (body?.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_SEGMENT_NAME_LENGTH) {
+      return NextResponse.json({ error: 'Invalid name' }, { status: 400 });
+    }
+    updates.name = name;
+  }
+
+  if (body?.rules !== undefined) {
+    const parsed = parseSegmentRules(body.rules);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    updates.rules = parsed.rules;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from('audience_segments')
+    .update(updates)
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'A segment with this name already exists' }, { status: 409 });
+    }
+    console.error('[audiences/segments] update failed:', error);
+    return NextResponse.json({ error: 'Failed to save segment' }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ segment: data });
+}
+
+// DELETE /api/audiences/segments/[id]
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from('audience_segments')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    console.error('[audiences/segments] delete failed:', error);
+    return NextResponse.json({ error: 'Failed to delete segment' }, { status: 500 });
+  }
+  if (!data?.length) {
+    return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
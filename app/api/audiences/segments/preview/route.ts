@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createClient as createServiceRoleClient } from '@supabase/supabase-js';
+import { getSegmentAccess } from '@/lib/audiences/access';
+import { getStandingExclusions, subtractExclusions } from '@/lib/audiences/resolve';
+import { parseSegmentRules, resolveSegmentMembers } from '@/lib/audiences/segments';
+
+// POST /api/audiences/segments/preview — { organizerId, rules } → live counts
+// for the rule builder. `count` is everyone matching; `reachable` drops people
+// in the blast cooldown or who muted audience invitations. Member ids never
+// leave the server.
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const organizerId = typeof body?.organizerId === 'string' ? body.organizerId : null;
+  if (!organizerId) {
+    return NextResponse.json({ error: 'organizerId required' }, { status: 400 });
+  }
+
+  const parsed = parseSegmentRules(body?.rules);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const access = await getSegmentAccess(supabase, user.id, organizerId);
+  if (!access.allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    return NextResponse.json({ error: 'Not configured' }, { status: 500 });
+  }
+  const admin = createServiceRoleClient(url, serviceKey);
+
+  try {
+    const [members, excluded] = await Promise.all([
+      resolveSegmentMembers(admin, parsed.rules, {
+        scopeToOrganizerId: access.isAdmin ? undefined : organizerId,
+      }),
+      getStandingExclusions(admin),
+    ]);
+    excluded.add(user.id);
+
+    return NextResponse.json({
+      count: members.length,
+      reachable: subtractExclusions(members, excluded).length,
+    });
+  } catch (err) {
+    console.error('[audiences/segments] preview failed:', err);
+    return NextResponse.json({ error: 'Failed to preview segment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getSegmentAccess } from '@/lib/audiences/access';
+import { MAX_SEGMENT_NAME_LENGTH, parseSegmentRules } from '@/lib/audiences/segments';
+
+// GET /api/audiences/segments?organizerId= — saved segments for one organizer
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const organizerId = request.nextUrl.searchParams.get('organizerId');
+  if (!organizerId) {
+    return NextResponse.json({ error: 'organizerId required' }, { status: 400 });
+  }
+
+  const access = await getSegmentAccess(supabase, user.id, organizerId);
+  if (!access.allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { data, error } = await supabase
+    .from('audience_segments')
+    .select('*')
+    .eq('organizer_id', organizerId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('[audiences/segments] list failed:', error);
+    return NextResponse.json({ error: 'Failed to load segments' }, { status: 500 });
+  }
+
+  return NextResponse.json({ segments: data ?? [] });
+}
+
+// POST /api/audiences/segments — { organizerId, name, rules }
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const organizerId = typeof body?.organizerId === 'string' ? body.organizerId : null;
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!organizerId) {
+    return NextResponse.json({ error: 'organizerId required' }, { status: 400 });
+  }
+  if (!name || name.length > MAX_SEGMENT_NAME_LENGTH) {
+    return NextResponse.json({ error: 'Invalid name' }, { status: 400 });
+  }
+
+  const parsed = parseSegmentRules(body?.rules);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const access = await getSegmentAccess(supabase, user.id, organizerId);
+  if (!access.allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { data, error } = await supabase
+    .from('audience_segments')
+    .insert({ organizer_id: organizerId, name, rules: parsed.rules, created_by: user.id })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'A segment with this name already exists' }, { status: 409 });
+    }
+    console.error('[audiences/segments] create failed:', error);
+    return NextResponse.json({ error: 'Failed to save segment' }, { status: 500 });
+  }
+
+  return NextResponse.json({ segment: data }, { status: 201 });
+}
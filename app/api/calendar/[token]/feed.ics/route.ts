@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { subDays } from "date-fns";
+import { buildCalendarFeed, type FeedEvent, type FeedSeries } from "@/lib/calendar/feed";
+
+// Past events stay in the feed for a month so recent history doesn't vanish
+// from the subscriber's calendar the moment an event ends.
+const PAST_WINDOW_DAYS = 30;
+const MAX_EVENTS = 500;
+
+const TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+interface Params {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * GET /api/calendar/[token]/feed.ics - Personal webcal feed
+ *
+ * Calendar apps can't authenticate, so the secret token is the credential
+ * and this route reads with the service role. That bypasses the RLS on
+ * event_private_details — the 'going'-only rule is re-applied below.
+ */
+export async function GET(request: Request, { params }: Params) {
+  const { token } = await params;
+
+  if (!TOKEN_PATTERN.test(token)) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  }
+
+  const supabase = getSupabase();
+
+  const { data: feedToken } = await supabase
+    .from("calendar_feed_tokens")
+    .select("user_id, profiles:user_id (display_name, username)")
+    .eq("token", token)
+    .single();
+
+  if (!feedToken) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  }
+
+  const userId = feedToken.user_id as string;
+  const since = subDays(new Date(), PAST_WINDOW_DAYS).toISOString();
+
+  const [{ data: rsvps }, { data: seriesRsvps }] = await Promise.all([
+    supabase
+      .from("rsvps")
+      .select(
+        `status,
+        events!inner (id, slug, title, description, location_name, address, google_maps_url,
+          starts_at, ends_at, status, has_private_details, series_id, series_instance_date, is_exception)`
+      )
+      .eq("user_id", userId)
+      .in("status", ["going", "interested"])
+      .neq("events.status", "draft")
+      .gte("events.starts_at", since)
+      .limit(MAX_EVENTS),
+    supabase
+      .from("series_rsvps")
+      .select(
+        `event_series!inner (id, slug, title, description, location_name, address, google_maps_url,
+          rrule, rrule_until, starts_at_time, duration_minutes, first_occurrence, exdates, rdates, status)`
+      )
+      .eq("user_id", userId),
+  ]);
+
+  const events: FeedEvent[] = (rsvps ?? []).map((r) => ({
+    ...(r.events as unknown as Omit<FeedEvent, "rsvp_status">),
+    rsvp_status: r.status as FeedEvent["rsvp_status"],
+    private_details: null,
+  }));
+
+  // Secret addresses: only for events the subscriber is exactly 'going' to
+  const privateEventIds = events
+    .filter((e) => e.has_private_details && e.rsvp_status === "going")
+    .map((e) => e.id);
+
+  if (privateEventIds.length > 0) {
+    const { data: details } = await supabase
+      .from("event_private_details")
+      .select("event_id, address, google_maps_url, arrival_notes")
+      .in("event_id", privateEventIds);
+
+    const byEvent = new Map((details ?? []).map((d) => [d.event_id as string, d]));
+    for (const event of events) {
+      if (event.rsvp_status === "going") {
+        event.private_details = byEvent.get(event.id) ?? null;
+      }
+    }
+  }
+
+  const seriesRows = (seriesRsvps ?? []).map(
+    (r) => r.event_series as unknown as Omit<FeedSeries, "cancelled_dates">
+  );
+
+  const cancelledBySeries = new Map<string, string[]>();
+  if (seriesRows.length > 0) {
+    const { data: exceptions } = await supabase
+      .from("series_exceptions")
+      .select("series_id, original_date")
+      .in("series_id", seriesRows.map((s) => s.id))
+      .eq("exception_type", "cancelled");
+
+    for (const ex of exceptions ?? []) {
+      const dates = cancelledBySeries.get(ex.series_id) ?? [];
+      dates.push(ex.original_date);
+      cancelledBySeries.set(ex.series_id, dates);
+    }
+  }
+
+  const series: FeedSeries[] = seriesRows.map((s) => ({
+    ...s,
+    cancelled_dates: cancelledBySeries.get(s.id) ?? [],
+  }));
+
+  const profile = feedToken.profiles as unknown as {
+    display_name: string | null;
+    username: string | null;
+  } | null;
+  const ownerName = profile?.display_name || profile?.username;
+
+  const icsContent = buildCalendarFeed({
+    calendarName: ownerName ? `dalat.app · ${ownerName}` : "dalat.app",
+    baseUrl: process.env.NEXT_PUBLIC_APP_URL || "https://dalat.app",
+    events,
+    series,
+  });
+
+  return new NextResponse(icsContent, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="dalat-app.ics"',
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+function buildFeedUrl(token: string): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL || "https://dalat.app";
+  return `${base}/api/calendar/${token}/feed.ics`;
+}
+
+async function getFeedToken(rotate: boolean) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: token, error } = await supabase.rpc("get_calendar_feed_token", {
+    p_rotate: rotate,
+  });
+
+  if (error || !token) {
+    console.error("Calendar feed token error:", error);
+    return NextResponse.json({ error: "Failed to load calendar feed" }, { status: 500 });
+  }
+
+  return NextResponse.json({ url: buildFeedUrl(token as string) });
+}
+
+/**
+ * GET /api/calendar/feed-token - Current user's calendar feed URL (created on first use)
+ */
+export async function GET() {
+  return getFeedToken(false);
+}
+
+/**
+ * POST /api/calendar/feed-token - Rotate the token; the old feed URL stops working
+ */
+export async function POST() {
+  return getFeedToken(true);
+}
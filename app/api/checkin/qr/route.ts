@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { parseTicketCode } from "@/lib/checkin/tickets";
+
+/**
+ * GET /api/checkin/qr?code=... - Render a ticket as a PNG QR code
+ *
+ * Email clients won't run scripts or show data: URIs reliably, so the RSVP
+ * confirmation email links here. Only well-formed ticket codes are rendered;
+ * the signature itself is checked at the door, not here.
+ */
+export async function GET(request: Request) {
+  const code = new URL(request.url).searchParams.get("code") ?? "";
+
+  if (!parseTicketCode(code)) {
+    return NextResponse.json({ error: "Invalid ticket" }, { status: 400 });
+  }
+
+  const png = await QRCode.toBuffer(code, {
+    type: "png",
+    errorCorrectionLevel: "M",
+    margin: 2,
+    width: 320,
+  });
+
+  return new NextResponse(new Uint8Array(png), {
+    headers: {
+      "Content-Type": "image/png",
+      // A ticket's code never changes, so its image can be cached forever
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
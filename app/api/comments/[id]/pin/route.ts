@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { pinComment } from "@/lib/comments";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/comments/[id]/pin
+ * Pin or unpin a tribe post as an announcement (tribe leaders/admins)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const { pinned } = body;
+
+    if (typeof pinned !== "boolean") {
+      return NextResponse.json(
+        { error: "Missing pinned" },
+        { status: 400 }
+      );
+    }
+
+    const result = await pinComment(id, pinned);
+
+    if (!result.ok) {
+      const status = result.error === "not_authorized" ? 403 : 400;
+      return NextResponse.json(
+        { error: result.error || "Failed to pin comment" },
+        { status }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[api/comments/pin] Error pinning comment:", error);
+    return NextResponse.json(
+      { error: "Failed to pin comment" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { toggleMuteThread } from "@/lib/comments";
+import { isThreadMuted, toggleMuteThread } from "@/lib/comments";
+
+/**
+ * GET /api/comments/mute?threadId=...
+ * Whether the current user muted a thread (or a tribe board, by tribe id)
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ muted: false });
+  }
+
+  const threadId = new URL(request.url).searchParams.get("threadId");
+  if (!threadId) {
+    return NextResponse.json(
+      { error: "Missing threadId" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ muted: await isThreadMuted(threadId) });
+}
 
 /**
  * POST /api/comments/mute
@@ -12,7 +12,7 @@ import type { CommentTargetType, Locale } from "@/lib/types";
 
 /**
  * GET /api/comments
- * Fetch comments for a target (event or moment)
+ * Fetch comments for a target (event, moment or tribe board)
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -30,7 +30,7 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  if (!["event", "moment"].includes(targetType)) {
+  if (!["event", "moment", "tribe"].includes(targetType)) {
     return NextResponse.json(
       { error: "Invalid targetType" },
       { status: 400 }
@@ -86,7 +86,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!["event", "moment"].includes(targetType)) {
+    if (!["event", "moment", "tribe"].includes(targetType)) {
       return NextResponse.json(
         { error: "Invalid targetType" },
         { status: 400 }
@@ -108,6 +108,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Tribe boards: only active members post (a public board is readable by all)
+    if (targetType === "tribe") {
+      const canPost = await checkTribePostPermission(supabase, targetId, user.id);
+      if (!canPost) {
+        return NextResponse.json(
+          { error: "You must be a member of this tribe to post" },
+          { status: 403 }
+        );
+      }
+    }
+
     // Create the comment
     const result = await createComment(targetType, targetId, content, {
       parentId,
@@ -232,3 +243,31 @@ async function checkEventCommentPermission(
 
   return false;
 }
+
+/**
+ * Check if a user can post on a tribe's board: the creator or an active member.
+ */
+async function checkTribePostPermission(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  tribeId: string,
+  userId: string
+): Promise<boolean> {
+  const { data: tribe } = await supabase
+    .from("tribes")
+    .select("created_by")
+    .eq("id", tribeId)
+    .single();
+
+  if (tribe?.created_by === userId) {
+    return true;
+  }
+
+  const { data: membership } = await supabase
+    .from("tribe_members")
+    .select("status")
+    .eq("tribe_id", tribeId)
+    .eq("user_id", userId)
+    .single();
+
+  return membership?.status === "active";
+}
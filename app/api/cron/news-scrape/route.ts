@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { ALL_SCRAPERS } from '@/lib/news/processors';
-import type { ScrapedArticle } from '@/lib/news/types';
+import { loadNewsSources } from '@/lib/news/sources';
+import { scrapeSource } from '@/lib/news/source-scraper';
+import { recordSourceYield } from '@/lib/news/source-health';
 
 // Lazy init
 function getSupabase() {
@@ -29,14 +30,19 @@ export async function GET(request: Request) {
   let totalNew = 0;
 
   try {
-    // Run each scraper sequentially (be respectful to news sites)
-    for (const { id, name, scrape } of ALL_SCRAPERS) {
+    const sources = await loadNewsSources(supabase);
+
+    // Run each source sequentially (be respectful to news sites)
+    for (const source of sources) {
+      const { id, name } = source;
       console.log(`[news-scrape] Starting ${name}...`);
       const sourceResult = { scraped: 0, new: 0, skipped: 0, errors: 0 };
 
       try {
-        const articles: ScrapedArticle[] = await scrape();
+        const run = await scrapeSource(source);
+        const { articles } = run;
         sourceResult.scraped = articles.length;
+        await recordSourceYield(supabase, source, run);
 
         for (const article of articles) {
           // Check for duplicate by source URL
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { notify } from '@/lib/notifications';
+import { notify, sendDigest } from '@/lib/notifications';
+import { isDigestDue, type DigestItem, type DigestPreferences } from '@/lib/notifications/digest';
+import { quietHoursEnd, resolveTimezone } from '@/lib/notifications/quiet-hours';
 import type { NotificationPayload, NotificationChannel } from '@/lib/notifications/types';
 import type { Locale } from '@/lib/types';
 
@@ -8,7 +10,8 @@ export const maxDuration = 300;
 
 /**
  * Delivers due rows from scheduled_notifications (event reminders,
- * confirmation nudges, feedback asks, secret address reveals).
+ * confirmation nudges, feedback asks, secret address reveals), then drains
+ * notification_digest_items for users whose hourly/daily digest is due.
  *
  * Runs every 5 minutes via Vercel cron (see vercel.json). Idempotent:
  * rows are claimed by flipping status pending → processing, so overlapping
@@ -24,6 +27,9 @@ export const maxDuration = 300;
 
 const RECLAIM_AFTER_MS = 15 * 60 * 1000;
 const GIVE_UP_AFTER_MS = 24 * 60 * 60 * 1000;
+// Users whose digests are considered per run, and how long sent items are kept
+const DIGEST_USER_BATCH = 200;
+const DIGEST_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
 
 function createServiceClient() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -127,6 +133,110 @@ async function sendAddressReveal(
   return { sent };
 }
 
+/**
+ * Digests: for each user with queued items whose digest is due (and who
+ * isn't inside their quiet hours — digests are never urgent; digest_due_users
+ * picks them, and the same rules are checked again here), claim the
+ * items (digested_at is null → now, so overlapping runs can't double-send)
+ * and send one grouped push/email. A failed send releases the items for the
+ * next run, giving up once the oldest is more than 24h old.
+ */
+async function drainDigests(
+  supabase: SupabaseClient,
+  now: Date
+): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+
+  // Picked in SQL so users who aren't due can't crowd out those who are
+  const { data: due, error: queueError } = await supabase.rpc('digest_due_users', {
+    p_now: now.toISOString(),
+    p_limit: DIGEST_USER_BATCH,
+  });
+
+  if (queueError) {
+    console.error('[process-notifications] Digest queue query failed:', queueError.message);
+    return { sent, failed: 1 };
+  }
+
+  const userIds = ((due ?? []) as { user_id: string }[]).map((row) => row.user_id);
+
+  if (userIds.length > 0) {
+    const [{ data: prefs }, { data: profiles }] = await Promise.all([
+      supabase
+        .from('notification_preferences')
+        .select('user_id, digest_frequency, digest_time, last_digest_at, quiet_hours_enabled, quiet_hours_start, quiet_hours_end')
+        .in('user_id', userIds),
+      supabase.from('profiles').select('id, locale, timezone').in('id', userIds),
+    ]);
+    type DigestPrefsRow = DigestPreferences & {
+      quiet_hours_enabled: boolean;
+      quiet_hours_start: string;
+      quiet_hours_end: string;
+    };
+    const prefsByUser = new Map(
+      (prefs ?? []).map((p) => [p.user_id as string, p as DigestPrefsRow])
+    );
+    const profileByUser = new Map(
+      (profiles ?? []).map((p) => [p.id as string, p as { locale: Locale; timezone: string | null }])
+    );
+
+    for (const userId of userIds) {
+      const userPrefs = prefsByUser.get(userId) ?? null;
+      const profile = profileByUser.get(userId);
+      const timeZone = resolveTimezone(profile?.timezone);
+      if (!isDigestDue(userPrefs, now, timeZone)) continue;
+      if (userPrefs?.quiet_hours_enabled && quietHoursEnd(userPrefs, timeZone, now)) continue;
+
+      const stamp = now.toISOString();
+      const { data: items, error: claimError } = await supabase
+        .from('notification_digest_items')
+        .update({ digested_at: stamp })
+        .eq('user_id', userId)
+        .is('digested_at', null)
+        .select('*');
+
+      if (claimError) {
+        console.error(`[process-notifications] Digest claim failed for ${userId}:`, claimError.message);
+        failed++;
+        continue;
+      }
+      if (!items || items.length === 0) continue; // another run got them
+
+      const result = await sendDigest(userId, profile?.locale || ('en' as Locale), items as DigestItem[]);
+
+      if (!result.success && result.channels.length > 0) {
+        const oldest = Math.min(...items.map((item) => new Date(item.created_at).getTime()));
+        if (now.getTime() - oldest <= GIVE_UP_AFTER_MS) {
+          await supabase
+            .from('notification_digest_items')
+            .update({ digested_at: null })
+            .in('id', items.map((item) => item.id));
+        }
+        console.error(`[process-notifications] Digest failed for ${userId} (${items.length} items)`);
+        failed++;
+        continue;
+      }
+
+      if (userPrefs) {
+        await supabase
+          .from('notification_preferences')
+          .update({ last_digest_at: stamp })
+          .eq('user_id', userId);
+      }
+      sent++;
+    }
+  }
+
+  // Sent items only matter for debugging a recent digest
+  await supabase
+    .from('notification_digest_items')
+    .delete()
+    .lt('digested_at', new Date(now.getTime() - DIGEST_RETENTION_MS).toISOString());
+
+  return { sent, failed };
+}
+
 export async function GET(request: Request) {
   const cronSecret = process.env.CRON_SECRET;
   if (!cronSecret) {
@@ -162,16 +272,14 @@ export async function GET(request: Request) {
     return NextResponse.json({ processed: 0, error: fetchError.message }, { status: 500 });
   }
 
-  if (!pendingNotifications || pendingNotifications.length === 0) {
-    return NextResponse.json({ processed: 0 });
+  if (pendingNotifications && pendingNotifications.length > 0) {
+    console.log(`[process-notifications] Processing ${pendingNotifications.length} due notification(s)`);
   }
 
-  console.log(`[process-notifications] Processing ${pendingNotifications.length} due notification(s)`);
-
   let processed = 0;
   let failed = 0;
 
-  for (const scheduled of pendingNotifications) {
+  for (const scheduled of pendingNotifications ?? []) {
     try {
       // Claim the row (prevent double-send by a concurrent run)
       const { data: claimed, error: claimError } = await supabase
@@ -232,8 +340,28 @@ export async function GET(request: Request) {
         }
       }
 
-      // Send the notification
-      const notifyResult = await notify(payload, onlyChannels ? { onlyChannels } : {});
+      // Point feedback requests at the organizer's post-event survey if one
+      // is open by now — it may have been set up after the RSVP was scheduled
+      if (payload.type === 'feedback_request') {
+        const { data: survey } = await supabase
+          .from('event_questionnaires')
+          .select('id, event_questions!inner(id)')
+          .eq('event_id', payload.eventId)
+          .eq('kind', 'post_event')
+          .eq('is_enabled', true)
+          .limit(1)
+          .maybeSingle();
+        payload.surveyAvailable = !!survey;
+      }
+
+      // Send the notification. The reference travels with it so a quiet-hours
+      // deferral can still be cancelled along with the original reminder.
+      const notifyResult = await notify(payload, {
+        ...(onlyChannels ? { onlyChannels } : {}),
+        ...(scheduled.reference_type && scheduled.reference_id
+          ? { reference: { type: scheduled.reference_type, id: scheduled.reference_id } }
+          : {}),
+      });
 
       if (notifyResult.success) {
         const { error: sentError } = await supabase
@@ -270,8 +398,15 @@ export async function GET(request: Request) {
     }
   }
 
-  console.log(`[process-notifications] Processed: ${processed}, Failed: ${failed}`);
+  const digests = await drainDigests(supabase, new Date(now));
+
+  console.log(
+    `[process-notifications] Processed: ${processed}, Failed: ${failed}, Digests: ${digests.sent} sent / ${digests.failed} failed`
+  );
 
   // Non-200 on failures so Vercel cron monitoring shows red instead of green
-  return NextResponse.json({ processed, failed }, { status: failed > 0 ? 500 : 200 });
+  return NextResponse.json(
+    { processed, failed, digests },
+    { status: failed + digests.failed > 0 ? 500 : 200 }
+  );
 }
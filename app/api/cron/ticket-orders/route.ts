@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { deliverWaitlistOffers } from "@/lib/notifications/waitlist-offers";
+
+export const maxDuration = 60;
+
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+/**
+ * Release tickets held by unpaid orders whose hold has lapsed, offer the
+ * freed spots to the waitlist, and notify those offers.
+ */
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("[ticket-orders] CRON_SECRET not configured");
+    return NextResponse.json({ error: "Not configured" }, { status: 503 });
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = getSupabase();
+    const { data, error } = await supabase.rpc("expire_ticket_orders");
+
+    if (error) {
+      console.error("[ticket-orders] RPC error:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const delivered = data?.offered > 0 ? await deliverWaitlistOffers() : 0;
+
+    console.log("[ticket-orders] Result:", { ...data, delivered });
+    return NextResponse.json({ ...data, delivered });
+  } catch (err) {
+    console.error("[ticket-orders] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
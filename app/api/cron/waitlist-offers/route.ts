@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { deliverWaitlistOffers } from "@/lib/notifications/waitlist-offers";
+
+export const maxDuration = 60;
+
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+/**
+ * Expire unclaimed waitlist offers, cascade their spots to the next people in
+ * line, then notify every offer that hasn't been delivered yet (including ones
+ * created by capacity increases and host no-show marks).
+ */
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("[waitlist-offers] CRON_SECRET not configured");
+    return NextResponse.json({ error: "Not configured" }, { status: 503 });
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = getSupabase();
+    const { data, error } = await supabase.rpc("expire_waitlist_offers");
+
+    if (error) {
+      console.error("[waitlist-offers] RPC error:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const delivered = await deliverWaitlistOffers();
+
+    console.log("[waitlist-offers] Result:", { ...data, delivered });
+    return NextResponse.json({ ...data, delivered });
+  } catch (err) {
+    console.error("[waitlist-offers] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
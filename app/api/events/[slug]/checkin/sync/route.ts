@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { TicketKind } from "@/lib/checkin/tickets";
+
+// One door device rarely queues more than this between reconnects; bigger
+// backlogs just take a few round trips.
+const MAX_BATCH = 200;
+
+const KINDS: TicketKind[] = ["rsvp", "guest"];
+
+interface SyncItem {
+  kind: TicketKind;
+  id: string;
+  scannedAt: string;
+}
+
+export interface CheckinSyncResult {
+  kind: TicketKind;
+  id: string;
+  ok: boolean;
+  status?: "checked_in" | "already_checked_in";
+  error?: string;
+  checked_in_at?: string;
+}
+
+/**
+ * POST /api/events/[slug]/checkin/sync - Apply scanned tickets
+ *
+ * The scanner verifies signatures locally and queues check-ins in IndexedDB;
+ * this route drains that queue. Each item goes through checkin_ticket, which
+ * keeps the earliest check-in time and reports conflicts (already checked in
+ * from another device, RSVP cancelled meanwhile) instead of overwriting.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const items: SyncItem[] = Array.isArray(body?.checkins) ? body.checkins : [];
+
+  if (items.length === 0 || items.length > MAX_BATCH) {
+    return NextResponse.json(
+      { error: `checkins must contain 1-${MAX_BATCH} items` },
+      { status: 400 }
+    );
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id")
+    .eq("slug", slug)
+    .single();
+
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const results: CheckinSyncResult[] = [];
+
+  for (const item of items) {
+    if (!KINDS.includes(item.kind) || typeof item.id !== "string") {
+      results.push({ kind: item.kind, id: String(item.id), ok: false, error: "ticket_not_found" });
+      continue;
+    }
+
+    const scannedAt = Number.isNaN(Date.parse(item.scannedAt))
+      ? new Date().toISOString()
+      : item.scannedAt;
+
+    const { data, error } = await supabase.rpc("checkin_ticket", {
+      p_event_id: event.id,
+      p_kind: item.kind,
+      p_id: item.id,
+      p_scanned_at: scannedAt,
+    });
+
+    if (error) {
+      results.push({ kind: item.kind, id: item.id, ok: false, error: error.message });
+      continue;
+    }
+
+    if (data?.error === "unauthorized") {
+      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+    }
+
+    results.push({ kind: item.kind, id: item.id, ...data });
+  }
+
+  return NextResponse.json({ results });
+}
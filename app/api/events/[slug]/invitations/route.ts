@@ -8,8 +8,24 @@ import {
   resolveAudienceMembers,
   getBlastExclusions,
   subtractExclusions,
+  type AudienceKey,
 } from '@/lib/audiences/resolve';
-import type { Locale, InviteQuotaCheck } from '@/lib/types';
+import { getSegmentAccess } from '@/lib/audiences/access';
+import {
+  parseSegmentAudienceKey,
+  resolveSegmentMembers,
+  segmentAudienceKey,
+  type AudienceSegment,
+} from '@/lib/audiences/segments';
+import {
+  deliverPhoneInvite,
+  getAvailableInviteChannels,
+  inviteUrl,
+  parsePhoneRecipients,
+  phoneInviteEmail,
+} from '@/lib/invites';
+import { formatInDaLat } from '@/lib/timezone';
+import type { Locale, InviteChannel, InviteDeliveryStatus, InviteQuotaCheck, PhoneInviteChannel } from '@/lib/types';
 
 // Manual email invites pace Resend inline (1s/email) and audience blasts run an
 // after() fan-out — both need more than the default function window
@@ -18,9 +34,15 @@ export const maxDuration = 300;
 interface InviteRequest {
   emails?: Array<{ email: string; name?: string }>;
   users?: Array<{ userId: string; username: string }>;
-  /** Admin-only: audience keys ('all' or an EventTag). Each member gets a real invitation. */
+  /** Numbers invited by SMS / WhatsApp / Zalo (see lib/invites) */
+  phones?: Array<{ phone: string; name?: string; channel: PhoneInviteChannel }>;
+  /**
+   * Audience keys: 'all' or an EventTag (admin only), or `segment:<id>` for one
+   * of the event organizer's saved segments (its owner or an admin). Each
+   * member gets a real invitation.
+   */
   audiences?: string[];
-  /** Optional human note rendered in the blast email (untranslated on purpose). */
+  /** Optional human note rendered in the blast email and phone invites (untranslated on purpose). */
   personalNote?: string;
   /**
    * 'attended' records who was actually at a past event: RSVPs only, no
@@ -119,7 +141,7 @@ export async function POST(
   // Get the event by slug
   const { data: event } = await supabase
     .from('events')
-    .select('id, title, slug, description, image_url, starts_at, ends_at, location_name, address, google_maps_url, created_by')
+    .select('id, title, slug, description, image_url, starts_at, ends_at, location_name, address, google_maps_url, created_by, organizer_id')
     .eq('slug', slug)
     .single();
 
@@ -137,12 +159,18 @@ export async function POST(
     return recordAttendance(supabase, event, user.id, users);
   }
 
-  const totalInvites = emails.length + users.length;
+  const parsedPhones = parsePhoneRecipients(body.phones);
+  if (!parsedPhones.ok) {
+    return NextResponse.json({ error: parsedPhones.error }, { status: 400 });
+  }
+  const phones = parsedPhones.recipients;
+
+  const totalInvites = emails.length + users.length + phones.length;
   if (totalInvites === 0 && audiences.length === 0) {
-    return NextResponse.json({ error: 'emails, users, or audiences array required' }, { status: 400 });
+    return NextResponse.json({ error: 'emails, users, phones, or audiences array required' }, { status: 400 });
   }
 
-  // Check quota before sending (audience blasts are admin-only; admins are unlimited)
+  // Check quota before sending (audience blasts don't count against it)
   if (totalInvites > 0) {
     const { data: quotaCheck } = await supabase.rpc('check_invite_quota', {
       p_user_id: user.id,
@@ -162,7 +190,7 @@ export async function POST(
   // Get inviter profile
   const { data: profile } = await supabase
     .from('profiles')
-    .select('display_name, username, locale, role')
+    .select('display_name, username, locale')
     .eq('id', user.id)
     .single();
 
@@ -171,23 +199,57 @@ export async function POST(
 
   // Validate the audience request BEFORE any personal invites go out — a late 4xx
   // after emails were sent makes the client retry and double-send.
-  const validAudiences = audiences.filter(isValidAudienceKey);
+  const pinnedAudiences = audiences.filter(isValidAudienceKey);
+  const segmentIds = audiences.flatMap((a) => parseSegmentAudienceKey(a) ?? []);
   const serviceUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  let segments: AudienceSegment[] = [];
+  let blastAsAdmin = false;
   if (audiences.length > 0) {
-    if (profile?.role !== 'admin' && profile?.role !== 'superadmin') {
+    if (pinnedAudiences.length + segmentIds.length !== audiences.length) {
+      const invalid = audiences.filter((a) => !isValidAudienceKey(a) && !parseSegmentAudienceKey(a));
+      return NextResponse.json({ error: `Unknown audience: ${invalid.join(', ')}` }, { status: 400 });
+    }
+
+    // Pinned audiences reach the whole community: admins only. Segments belong
+    // to the event's organizer: its owner or an admin.
+    const access = await getSegmentAccess(supabase, user.id, event.organizer_id);
+    if (!access.isAdmin && (pinnedAudiences.length > 0 || !access.allowed)) {
       return NextResponse.json({ error: 'Not authorized for audience invites' }, { status: 403 });
     }
-    if (validAudiences.length !== audiences.length) {
-      const invalid = audiences.filter((a) => !isValidAudienceKey(a));
-      return NextResponse.json({ error: `Unknown audience: ${invalid.join(', ')}` }, { status: 400 });
+    blastAsAdmin = access.isAdmin;
+
+    if (segmentIds.length > 0) {
+      const { data } = event.organizer_id
+        ? await supabase
+            .from('audience_segments')
+            .select('*')
+            .in('id', segmentIds)
+            .eq('organizer_id', event.organizer_id)
+        : { data: [] };
+      segments = (data ?? []) as AudienceSegment[];
+      if (segments.length !== new Set(segmentIds).size) {
+        return NextResponse.json({ error: 'Unknown audience segment' }, { status: 400 });
+      }
     }
+
     if (!serviceUrl || !serviceKey) {
       return NextResponse.json({ error: 'Server not configured for audience invites' }, { status: 500 });
     }
   }
-
-  const results: Array<{ email?: string; userId?: string; username?: string; success: boolean; error?: string; token?: string }> = [];
+  const validAudiences = [...pinnedAudiences, ...segments.map((s) => segmentAudienceKey(s.id))];
+
+  const results: Array<{
+    email?: string;
+    userId?: string;
+    username?: string;
+    phone?: string;
+    channel: InviteChannel;
+    deliveryStatus?: InviteDeliveryStatus;
+    success: boolean;
+    error?: string;
+    token?: string;
+  }> = [];
 
   // Helper to add delay between sends (Resend rate limit: 1 email/second on free tier)
   const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -230,19 +292,19 @@ export async function POST(
         if (existing) {
           existingInvitation = existing;
         } else {
-          results.push({ email, success: false, error: 'Already invited' });
+          results.push({ channel: 'email', email, success: false, error: 'Already invited' });
           continue;
         }
       } else {
         console.error("Invitation insert error:", insertError);
-        results.push({ email, success: false, error: "Failed to create invitation" });
+        results.push({ channel: 'email', email, success: false, error: "Failed to create invitation" });
         continue;
       }
     }
 
     // Send email via Novu (works for both new and existing invitations)
     if (!existingInvitation) {
-      results.push({ email, success: false, error: 'Failed to create invitation' });
+      results.push({ channel: 'email', email, success: false, error: 'Failed to create invitation' });
       continue;
     }
 
@@ -279,10 +341,10 @@ export async function POST(
         .update({ status: 'sent', sent_at: new Date().toISOString() })
         .eq('id', existingInvitation.id);
 
-      results.push({ email, success: true, token: existingInvitation.token });
+      results.push({ channel: 'email', email, success: true, token: existingInvitation.token });
     } catch (error) {
       console.error('Failed to send invite email:', error);
-      results.push({ email, success: false, error: 'Failed to send email' });
+      results.push({ channel: 'email', email, success: false, error: 'Failed to send email' });
     }
   }
 
@@ -302,7 +364,7 @@ export async function POST(
       .single();
 
     if (!inviteeProfile) {
-      results.push({ userId, username, success: false, error: 'User not found' });
+      results.push({ channel: 'in_app', userId, username, success: false, error: 'User not found' });
       continue;
     }
 
@@ -318,6 +380,7 @@ export async function POST(
         email: syntheticEmail,
         name: inviteeProfile.display_name || username,
         status: 'pending',
+        channel: 'in_app',
         claimed_by: userId, // Pre-link to the user
       })
       .select('id, token')
@@ -338,19 +401,19 @@ export async function POST(
         if (existing) {
           existingInvitation = existing;
         } else {
-          results.push({ userId, username, success: false, error: 'Already invited' });
+          results.push({ channel: 'in_app', userId, username, success: false, error: 'Already invited' });
           continue;
         }
       } else {
         console.error("User invitation insert error:", insertError);
-        results.push({ userId, username, success: false, error: "Failed to create invitation" });
+        results.push({ channel: 'in_app', userId, username, success: false, error: "Failed to create invitation" });
         continue;
       }
     }
 
     // Send in-app notification (works for both new and existing invitations)
     if (!existingInvitation) {
-      results.push({ userId, username, success: false, error: 'Failed to create invitation' });
+      results.push({ channel: 'in_app', userId, username, success: false, error: 'Failed to create invitation' });
       continue;
     }
 
@@ -381,7 +444,7 @@ export async function POST(
         .update({ status: 'sent', sent_at: new Date().toISOString() })
         .eq('id', existingInvitation.id);
 
-      results.push({ userId, username, success: true, token: existingInvitation.token });
+      results.push({ channel: 'in_app', userId, username, success: true, token: existingInvitation.token });
     } catch (error) {
       console.error('[POST /invitations] Failed to send user invite notification:', {
         userId,
@@ -390,6 +453,7 @@ export async function POST(
         stack: error instanceof Error ? error.stack : undefined,
       });
       results.push({
+        channel: 'in_app',
         userId,
         username,
         success: false,
@@ -398,16 +462,98 @@ export async function POST(
     }
   }
 
-  // Increment quota for successful sends
+  // Process each phone invite (SMS / WhatsApp / Zalo through lib/invites)
+  for (const { phone, name, channel } of phones) {
+    // Synthetic email again, so the (event_id, email) constraint dedupes numbers
+    const syntheticEmail = phoneInviteEmail(phone);
+
+    const { data: invitation, error: insertError } = await supabase
+      .from('event_invitations')
+      .insert({
+        event_id: event.id,
+        invited_by: user.id,
+        email: syntheticEmail,
+        name,
+        status: 'pending',
+        channel,
+        phone,
+      })
+      .select('id, token')
+      .single();
+
+    let row = invitation;
+
+    // Already invited: resend, possibly on another channel
+    if (insertError) {
+      if (insertError.code === '23505') {
+        const { data: existing } = await supabase
+          .from('event_invitations')
+          .select('id, token')
+          .eq('event_id', event.id)
+          .eq('email', syntheticEmail)
+          .single();
+        row = existing;
+      } else {
+        console.error('[POST /invitations] phone invitation insert error:', insertError);
+      }
+    }
+
+    if (!row) {
+      results.push({ channel, phone, success: false, error: 'Failed to create invitation' });
+      continue;
+    }
+
+    const delivery = await deliverPhoneInvite(channel, {
+      to: phone,
+      locale: inviterLocale,
+      kind: 'event',
+      title: event.title,
+      when: formatInDaLat(event.starts_at, 'HH:mm dd/MM'),
+      inviterName,
+      inviteeName: name,
+      personalNote,
+      url: inviteUrl('event', row.token),
+      invitationId: row.id,
+    });
+    const delivered = delivery.status !== 'failed';
+
+    await supabase
+      .from('event_invitations')
+      .update({
+        channel,
+        delivery_status: delivery.status,
+        delivery_error: delivery.error ?? null,
+        provider_message_id: delivery.providerMessageId ?? null,
+        // A failed send stays pending so it can be retried
+        ...(delivered ? { status: 'sent', sent_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', row.id);
+
+    results.push({
+      channel,
+      phone,
+      deliveryStatus: delivery.status,
+      success: delivered,
+      error: delivered ? undefined : delivery.error ?? 'Failed to send',
+      token: row.token,
+    });
+  }
+
+  // Increment quota for successful sends, per channel
   const successCount = results.filter(r => r.success).length;
-  if (successCount > 0) {
+  const sentByChannel = new Map<InviteChannel, number>();
+  for (const r of results) {
+    if (r.success) sentByChannel.set(r.channel, (sentByChannel.get(r.channel) ?? 0) + 1);
+  }
+  for (const [channel, count] of sentByChannel) {
     await supabase.rpc('increment_invite_quota', {
       p_user_id: user.id,
-      p_count: successCount,
+      p_count: count,
+      p_channel: channel,
     });
   }
 
-  // ---- Audience blasts (@all / @games) — validated above, admin only ----
+  // ---- Audience blasts (@all / @games / saved segments) — validated above ----
   let audienceQueued = 0;
   if (validAudiences.length > 0 && serviceUrl && serviceKey) {
     const admin = createServiceRoleClient(serviceUrl, serviceKey);
@@ -417,11 +563,15 @@ export async function POST(
 
       // Resolve every audience; first audience to claim a user wins (for the analytics column)
       const memberAudience = new Map<string, string>();
+      const resolveMembers = (key: string) => {
+        const segment = segments.find((s) => segmentAudienceKey(s.id) === key);
+        if (!segment) return resolveAudienceMembers(admin, key as AudienceKey);
+        return resolveSegmentMembers(admin, segment.rules, {
+          scopeToOrganizerId: blastAsAdmin ? undefined : segment.organizer_id,
+        });
+      };
       for (const key of validAudiences) {
-        const members = subtractExclusions(
-          await resolveAudienceMembers(admin, key),
-          excluded
-        );
+        const members = subtractExclusions(await resolveMembers(key), excluded);
         for (const memberId of members) {
           if (!memberAudience.has(memberId)) memberAudience.set(memberId, key);
         }
@@ -607,7 +757,7 @@ export async function GET(
   const [{ data: invitations }, { data: counts }] = await Promise.all([
     supabase
       .from('event_invitations')
-      .select('id, email, name, status, rsvp_status, claimed_by, sent_at, responded_at, created_at')
+      .select('id, email, name, status, channel, phone, delivery_status, delivery_error, rsvp_status, claimed_by, sent_at, responded_at, created_at')
       .eq('event_id', event.id)
       .order('created_at', { ascending: false }),
     supabase.rpc('get_invitation_counts', { p_event_id: event.id }),
@@ -616,5 +766,6 @@ export async function GET(
   return NextResponse.json({
     invitations: invitations || [],
     counts: counts || {},
+    channels: getAvailableInviteChannels(),
   });
 }
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { hasRoleLevel, type UserRole } from "@/lib/types";
+import {
+  NEAR_DUPLICATE_MAX_DISTANCE,
+  clusterNearDuplicates,
+  hashSimilarity,
+  isPerceptualHash,
+  pickClusterKeeper,
+  type NearDuplicateCluster,
+} from "@/lib/perceptual-hash";
+
+interface Params {
+  params: Promise<{ slug: string }>;
+}
+
+/** Albums beyond this are clustered on their most recent photos only */
+const MAX_PHOTOS = 2000;
+
+/**
+ * Resolve the event and confirm the caller may moderate its moments —
+ * same rule as remove_moment(): event creator or site moderator.
+ */
+async function getModeratedEvent(supabase: SupabaseClient, slug: string) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, created_by")
+    .eq("slug", slug)
+    .single();
+  if (!event) {
+    return { error: NextResponse.json({ error: "Event not found" }, { status: 404 }) };
+  }
+
+  if (event.created_by !== user.id) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+    if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "moderator")) {
+      return { error: NextResponse.json({ error: "Not event owner" }, { status: 403 }) };
+    }
+  }
+
+  return { event };
+}
+
+/**
+ * GET /api/events/[slug]/moments/near-duplicates
+ * Groups the album's photos into near-duplicate clusters, each with a
+ * suggested keeper (highest quality_score). Also lists photos that have no
+ * perceptual hash yet so the client can backfill them.
+ *
+ * Response:
+ * - clusters: NearDuplicateCluster[]
+ * - unhashed: { id, mediaUrl }[]
+ */
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const auth = await getModeratedEvent(supabase, slug);
+  if (auth.error) return auth.error;
+
+  const { data, error } = await supabase
+    .from("moments")
+    .select("id, media_url, thumbnail_url, perceptual_hash, created_at, moment_metadata(quality_score)")
+    .eq("event_id", auth.event.id)
+    .eq("content_type", "photo")
+    .in("status", ["published", "pending"])
+    .not("media_url", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(MAX_PHOTOS);
+
+  if (error) {
+    console.error("[near-duplicates] Fetch error:", error);
+    return NextResponse.json({ error: "Failed to load photos" }, { status: 500 });
+  }
+
+  const photos = (data ?? []).map((row) => {
+    const metadata = row.moment_metadata as
+      | { quality_score: number | null }
+      | { quality_score: number | null }[]
+      | null;
+    const meta = Array.isArray(metadata) ? metadata[0] : metadata;
+    return {
+      id: row.id as string,
+      mediaUrl: row.media_url as string,
+      thumbnailUrl: row.thumbnail_url as string | null,
+      perceptualHash: row.perceptual_hash as string | null,
+      qualityScore: meta?.quality_score ?? null,
+      createdAt: row.created_at as string,
+    };
+  });
+
+  const hashed = photos.filter(
+    (p): p is typeof p & { perceptualHash: string } => isPerceptualHash(p.perceptualHash)
+  );
+
+  const clusters: NearDuplicateCluster[] = clusterNearDuplicates(
+    hashed,
+    NEAR_DUPLICATE_MAX_DISTANCE
+  ).map((group) => {
+    const keeper = pickClusterKeeper(group);
+    return {
+      keepId: keeper.id,
+      photos: group.map(({ perceptualHash, ...photo }) => ({
+        ...photo,
+        similarity: hashSimilarity(keeper.perceptualHash, perceptualHash),
+      })),
+    };
+  });
+
+  return NextResponse.json({
+    clusters,
+    unhashed: photos
+      .filter((p) => !p.perceptualHash)
+      .map((p) => ({ id: p.id, mediaUrl: p.mediaUrl })),
+  });
+}
+
+/**
+ * POST /api/events/[slug]/moments/near-duplicates
+ *
+ * Request body, one of:
+ * - { action: "backfill", hashes: { momentId, hash }[] } - store hashes the
+ *   browser computed for older photos. Response: { updated }
+ * - { action: "resolve", keepId, removeIds: string[] } - keep one photo of a
+ *   cluster and remove the rest. Response: { removed }
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const auth = await getModeratedEvent(supabase, slug);
+  if (auth.error) return auth.error;
+
+  const body = await request.json();
+
+  if (body.action === "backfill") {
+    const hashes = (Array.isArray(body.hashes) ? body.hashes : [])
+      .filter(
+        (h: { momentId?: unknown; hash?: unknown }) =>
+          typeof h?.momentId === "string" && isPerceptualHash(h.hash)
+      )
+      .slice(0, 500)
+      .map((h: { momentId: string; hash: string }) => ({ moment_id: h.momentId, hash: h.hash }));
+
+    if (hashes.length === 0) {
+      return NextResponse.json({ updated: 0 });
+    }
+
+    const { data, error } = await supabase.rpc("set_moment_perceptual_hashes", {
+      p_event_id: auth.event.id,
+      p_hashes: hashes,
+    });
+
+    if (error) {
+      console.error("[near-duplicates] Backfill error:", error);
+      return NextResponse.json({ error: "Failed to save hashes" }, { status: 500 });
+    }
+
+    return NextResponse.json({ updated: data ?? 0 });
+  }
+
+  if (body.action === "resolve") {
+    const { keepId, removeIds } = body as { keepId?: string; removeIds?: string[] };
+    if (!keepId || !Array.isArray(removeIds) || removeIds.length === 0) {
+      return NextResponse.json({ error: "Missing keepId or removeIds" }, { status: 400 });
+    }
+
+    const { data: owned } = await supabase
+      .from("moments")
+      .select("id")
+      .eq("event_id", auth.event.id)
+      .in("id", removeIds.filter((id) => id !== keepId));
+
+    let removed = 0;
+    for (const { id } of owned ?? []) {
+      const { data, error } = await supabase.rpc("remove_moment", {
+        p_moment_id: id,
+        p_reason: `Near-duplicate of ${keepId}`,
+      });
+      if (error) {
+        console.error("[near-duplicates] Remove error:", id, error);
+        continue;
+      }
+      if (data?.ok) removed++;
+    }
+
+    return NextResponse.json({ removed });
+  }
+
+  return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+}
@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getAvailableProviders, getPaymentProvider, type PaymentStart } from "@/lib/payments";
+import { confirmTicketOrder, createTicketOrder } from "@/lib/payments/orders";
+import type { TicketTier } from "@/lib/types";
+
+// create_ticket_order error codes that are the buyer's problem, not ours
+const CONFLICT_ERRORS = ["order_exists", "already_going", "tier_sold_out", "sold_out", "reward_in_use"];
+
+interface OrderLine {
+  tierId: string;
+  quantity: number;
+}
+
+/**
+ * POST /api/events/[slug]/orders - Buy tickets
+ *
+ * Body: { items: [{ tierId, quantity }], provider: "mock" | "vietqr", rewardRedemptionId? }
+ *
+ * rewardRedemptionId applies one of the buyer's claimed discount rewards;
+ * the RPC checks it and works out the discount. An order the discount
+ * brings to zero is settled on the spot — there's nothing to pay.
+ *
+ * The order is created first — that's what holds the tickets — and only then
+ * handed to the payment provider. If the provider can't start, the hold is
+ * released straight away rather than waiting for it to expire.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const lines: OrderLine[] = Array.isArray(body?.items) ? body.items : [];
+
+  // Merge repeated tiers so per-tier inventory is checked on the real total
+  const quantities = new Map<string, number>();
+  for (const line of lines) {
+    const quantity = Math.floor(Number(line?.quantity));
+    if (typeof line?.tierId !== "string" || !(quantity > 0)) continue;
+    quantities.set(line.tierId, (quantities.get(line.tierId) ?? 0) + quantity);
+  }
+
+  if (quantities.size === 0) {
+    return NextResponse.json({ error: "items required" }, { status: 400 });
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, title, slug, ticket_tiers")
+    .eq("slug", slug)
+    .single();
+
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const tiers = (event.ticket_tiers ?? []) as TicketTier[];
+  const firstTier = tiers.find((tier) => tier.id && quantities.has(tier.id));
+  const currency = firstTier?.currency ?? "VND";
+
+  const provider = getPaymentProvider(body?.provider);
+  if (!provider || !getAvailableProviders(currency).includes(provider.id)) {
+    return NextResponse.json({ error: "Payment method not available" }, { status: 400 });
+  }
+
+  const { data: created, error: createError } = await createTicketOrder({
+    userId: user.id,
+    eventId: event.id,
+    items: [...quantities].map(([tier_id, quantity]) => ({ tier_id, quantity })),
+    provider,
+    rewardRedemptionId:
+      typeof body?.rewardRedemptionId === "string" ? body.rewardRedemptionId : null,
+  });
+
+  if (createError) {
+    console.error("[orders] create failed:", createError);
+    return NextResponse.json({ error: createError.message }, { status: 500 });
+  }
+
+  if (!created?.ok) {
+    const status = CONFLICT_ERRORS.includes(created?.error) ? 409 : 400;
+    return NextResponse.json({ error: created?.error ?? "order_failed" }, { status });
+  }
+
+  if (created.total_amount === 0) {
+    const confirmed = await confirmTicketOrder(created.order_id);
+    if (!confirmed) {
+      // Nothing to pay and nobody to verify it — don't leave the hold behind
+      await supabase.rpc("cancel_ticket_order", { p_order_id: created.order_id });
+      return NextResponse.json({ error: "order_failed" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      order: {
+        id: created.order_id,
+        referenceCode: created.reference_code,
+        totalAmount: 0,
+        discountAmount: created.discount_amount,
+        currency: created.currency,
+        expiresAt: created.expires_at,
+        status: "paid",
+      },
+      payment: { status: "paid" },
+    });
+  }
+
+  let payment: PaymentStart;
+  try {
+    payment = await provider.startPayment({
+      id: created.order_id,
+      referenceCode: created.reference_code,
+      amount: created.total_amount,
+      currency: created.currency,
+      eventTitle: event.title,
+      eventSlug: event.slug,
+    });
+  } catch (error) {
+    console.error("[orders] payment start failed:", error);
+    await supabase.rpc("cancel_ticket_order", { p_order_id: created.order_id });
+    return NextResponse.json({ error: "payment_unavailable" }, { status: 502 });
+  }
+
+  let status = "pending";
+  if (payment.status === "paid") {
+    const confirmed = await confirmTicketOrder(created.order_id, payment.providerRef);
+    if (confirmed) status = "paid";
+  }
+
+  return NextResponse.json({
+    order: {
+      id: created.order_id,
+      referenceCode: created.reference_code,
+      totalAmount: created.total_amount,
+      discountAmount: created.discount_amount,
+      currency: created.currency,
+      expiresAt: created.expires_at,
+      status,
+    },
+    payment,
+  });
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { revalidateTag, revalidatePath } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
 import { CACHE_TAGS } from "@/lib/cache/server-cache";
+import { authorizeTribe } from "@/lib/tribes/authorize";
 
 interface Params {
   params: Promise<{ slug: string }>;
@@ -64,37 +65,27 @@ export async function PATCH(request: Request, { params }: Params) {
   }
 
   // Side 2: may this user host events as the TARGET tribe?
-  // Mirrors the leader/admin filter the event form applies to /api/tribes/me.
+  // Same create_events check that /api/tribes/me exposes to the event form.
   let tribe = null;
   if (tribeId) {
-    const { data: membership } = await supabase
-      .from("tribe_members")
-      .select("role, status")
-      .eq("tribe_id", tribeId)
-      .eq("user_id", user.id)
-      .maybeSingle();
-
-    const canHost =
-      membership?.status === "active" &&
-      (membership.role === "leader" || membership.role === "admin");
-
-    if (!canHost && !isAdmin) {
+    const auth = await authorizeTribe<{
+      slug: string;
+      name: string;
+      cover_image_url: string | null;
+      access_type: string;
+    }>(supabase, { id: tribeId }, user.id, "create_events", {
+      columns: "slug, name, cover_image_url, access_type",
+      allowSiteAdmin: isAdmin,
+    });
+
+    if (!auth.ok) {
       return NextResponse.json(
-        { error: "Not authorized for this tribe" },
-        { status: 403 }
+        { error: auth.status === 403 ? "Not authorized for this tribe" : auth.error },
+        { status: auth.status }
       );
     }
-
-    const { data: tribeRow, error: tribeError } = await supabase
-      .from("tribes")
-      .select("id, slug, name, cover_image_url, access_type, settings")
-      .eq("id", tribeId)
-      .single();
-
-    if (tribeError || !tribeRow) {
-      return NextResponse.json({ error: "Tribe not found" }, { status: 404 });
-    }
-    tribe = tribeRow;
+    const { id, slug: tribeSlug, name, cover_image_url, access_type, settings } = auth.tribe;
+    tribe = { id, slug: tribeSlug, name, cover_image_url, access_type, settings };
   }
 
   // Attaching is a promotion action, so it publishes to the feed. Narrowing an
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { buildAgendaCalendar } from "@/lib/festivals/agenda";
+import { toScheduleSessions, type FestivalScheduleLink } from "@/lib/festivals/schedule";
+
+interface Params {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/festivals/[slug]/agenda.ics - Download my starred sessions
+ *
+ * A one-off export for the signed-in visitor (unlike the webcal feed, this
+ * is a browser download, so the session cookie authenticates it).
+ */
+export async function GET(request: Request, { params }: Params) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: festival } = await supabase
+    .from("festivals")
+    .select("id, slug, title")
+    .eq("slug", slug)
+    .eq("status", "published")
+    .single();
+  if (!festival) {
+    return NextResponse.json({ error: "Festival not found" }, { status: 404 });
+  }
+
+  const { data: items, error } = await supabase
+    .from("festival_agenda_items")
+    .select(
+      `festival_events!inner (event_id, event_type, is_highlighted, stage,
+        events!inner (id, slug, title, starts_at, ends_at, location_name, status))`
+    )
+    .eq("user_id", user.id)
+    .eq("festival_id", festival.id);
+
+  if (error) {
+    console.error("Agenda export error:", error);
+    return NextResponse.json({ error: "Failed to export agenda" }, { status: 500 });
+  }
+
+  const links = (items ?? []).map((item) => item.festival_events as unknown as FestivalScheduleLink);
+
+  const icsContent = buildAgendaCalendar({
+    festival,
+    sessions: toScheduleSessions(links),
+    baseUrl: process.env.NEXT_PUBLIC_APP_URL || "https://dalat.app",
+  });
+
+  return new NextResponse(icsContent, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${festival.slug}-agenda.ics"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { AGENDA_REMINDER_MINUTES } from "@/lib/festivals/agenda";
+import {
+  cancelFestivalSessionReminder,
+  scheduleFestivalSessionReminder,
+} from "@/lib/notifications/scheduler";
+import type { Locale } from "@/lib/types";
+
+interface Params {
+  params: Promise<{ slug: string }>;
+}
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+async function getSession(supabase: SupabaseServerClient, slug: string, eventId: string) {
+  const { data: festival } = await supabase
+    .from("festivals")
+    .select("id, slug, title")
+    .eq("slug", slug)
+    .eq("status", "published")
+    .single();
+  if (!festival) return null;
+
+  const { data: link } = await supabase
+    .from("festival_events")
+    .select("event_type, stage, events!inner (id, slug, title, starts_at, location_name)")
+    .eq("festival_id", festival.id)
+    .eq("event_id", eventId)
+    .neq("event_type", "announcement_only")
+    .maybeSingle();
+  if (!link) return null;
+
+  const event = link.events as unknown as {
+    id: string;
+    slug: string;
+    title: string;
+    starts_at: string;
+    location_name: string | null;
+  };
+  return { festival, event, stage: (link.stage as string | null) ?? event.location_name };
+}
+
+/**
+ * POST /api/festivals/[slug]/agenda - Star a session into my agenda
+ *
+ * Body: { eventId }. Schedules a reminder AGENDA_REMINDER_MINUTES before the
+ * session starts.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { eventId } = await request.json();
+  if (typeof eventId !== "string" || !eventId) {
+    return NextResponse.json({ error: "eventId required" }, { status: 400 });
+  }
+
+  const session = await getSession(supabase, slug, eventId);
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  const { error } = await supabase.from("festival_agenda_items").insert({
+    user_id: user.id,
+    festival_id: session.festival.id,
+    event_id: eventId,
+  });
+  // Already starred (double tap, second tab) is fine
+  if (error && error.code !== "23505") {
+    console.error("Agenda star error:", error);
+    return NextResponse.json({ error: "Failed to add to agenda" }, { status: 500 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("locale")
+    .eq("id", user.id)
+    .single();
+
+  try {
+    await scheduleFestivalSessionReminder({
+      userId: user.id,
+      locale: (profile?.locale as Locale) || "en",
+      festivalSlug: session.festival.slug,
+      festivalTitle: session.festival.title,
+      eventId,
+      eventSlug: session.event.slug,
+      eventTitle: session.event.title,
+      startsAt: session.event.starts_at,
+      stage: session.stage,
+      minutesBefore: AGENDA_REMINDER_MINUTES,
+    });
+  } catch (err) {
+    // The star itself is saved; a missing reminder shouldn't fail the tap
+    console.error("Agenda reminder error:", err);
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+/**
+ * DELETE /api/festivals/[slug]/agenda?eventId=… - Un-star a session
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const eventId = new URL(request.url).searchParams.get("eventId");
+  if (!eventId) {
+    return NextResponse.json({ error: "eventId required" }, { status: 400 });
+  }
+
+  const { data: festival } = await supabase
+    .from("festivals")
+    .select("id")
+    .eq("slug", slug)
+    .single();
+  if (!festival) {
+    return NextResponse.json({ error: "Festival not found" }, { status: 404 });
+  }
+
+  const { error } = await supabase
+    .from("festival_agenda_items")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("festival_id", festival.id)
+    .eq("event_id", eventId);
+  if (error) {
+    console.error("Agenda unstar error:", error);
+    return NextResponse.json({ error: "Failed to remove from agenda" }, { status: 500 });
+  }
+
+  try {
+    await cancelFestivalSessionReminder(user.id, eventId);
+  } catch (err) {
+    console.error("Agenda reminder cancel error:", err);
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,144 @@
+import { NextResponse, after } from "next/server";
+import { createClient as createServiceRoleClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { AGENDA_REMINDER_MINUTES } from "@/lib/festivals/agenda";
+import { notifyFestivalScheduleChange } from "@/lib/notifications";
+import { rescheduleFestivalSessionReminders } from "@/lib/notifications/scheduler";
+import { hasRoleLevel, type FestivalUpdateType, type UserRole } from "@/lib/types";
+
+interface Params {
+  params: Promise<{ slug: string }>;
+}
+
+const UPDATE_TYPES: FestivalUpdateType[] = ["announcement", "schedule_change", "highlight", "reminder"];
+
+/**
+ * POST /api/festivals/[slug]/updates - Post to the festival's update feed
+ *
+ * Body: { title, body?, update_type, affected_event_ids? }. A schedule_change
+ * naming affected sessions notifies everyone who starred one of them and
+ * moves their pending agenda reminders to the sessions' current times.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { slug } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: festival } = await supabase
+    .from("festivals")
+    .select("id, slug, title, created_by")
+    .eq("slug", slug)
+    .single();
+  if (!festival) {
+    return NextResponse.json({ error: "Festival not found" }, { status: 404 });
+  }
+
+  if (festival.created_by !== user.id) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+    if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "admin")) {
+      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+    }
+  }
+
+  const body = await request.json();
+  const title = typeof body.title === "string" ? body.title.trim() : "";
+  const updateType = body.update_type as FestivalUpdateType;
+  if (!title) {
+    return NextResponse.json({ error: "Title is required" }, { status: 400 });
+  }
+  if (!UPDATE_TYPES.includes(updateType)) {
+    return NextResponse.json({ error: "Invalid update type" }, { status: 400 });
+  }
+
+  const requestedIds: string[] = Array.isArray(body.affected_event_ids)
+    ? body.affected_event_ids.filter((id: unknown): id is string => typeof id === "string")
+    : [];
+
+  // Only sessions that are actually part of this festival
+  let affected: { id: string; title: string; starts_at: string; status: string }[] = [];
+  if (updateType === "schedule_change" && requestedIds.length > 0) {
+    const { data: links } = await supabase
+      .from("festival_events")
+      .select("events!inner (id, title, starts_at, status)")
+      .eq("festival_id", festival.id)
+      .in("event_id", requestedIds);
+    affected = (links ?? []).map((l) => l.events as unknown as (typeof affected)[number]);
+  }
+
+  const { data: update, error } = await supabase
+    .from("festival_updates")
+    .insert({
+      festival_id: festival.id,
+      title,
+      body: typeof body.body === "string" && body.body.trim() ? body.body.trim() : null,
+      update_type: updateType,
+      affected_event_ids: affected.map((e) => e.id),
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Festival update insert error:", error);
+    return NextResponse.json({ error: "Failed to post update" }, { status: 500 });
+  }
+
+  if (affected.length > 0) {
+    const serviceUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceUrl || !serviceKey) {
+      console.error("Festival schedule change: service client not configured, starrers not notified");
+    } else {
+      const admin = createServiceRoleClient(serviceUrl, serviceKey);
+      const festivalId = festival.id as string;
+      const editorId = user.id;
+
+      after(async () => {
+        await Promise.all(
+          affected.map((event) =>
+            rescheduleFestivalSessionReminders(
+              event.id,
+              event.starts_at,
+              AGENDA_REMINDER_MINUTES,
+              event.status === "cancelled"
+            )
+          )
+        );
+
+        const { data: starred } = await admin
+          .from("festival_agenda_items")
+          .select("user_id, event_id")
+          .eq("festival_id", festivalId)
+          .in("event_id", affected.map((e) => e.id));
+
+        const titles = new Map(affected.map((e) => [e.id, e.title]));
+        const sessionsByUser = new Map<string, string[]>();
+        for (const row of starred ?? []) {
+          if (row.user_id === editorId) continue;
+          const list = sessionsByUser.get(row.user_id) ?? [];
+          list.push(titles.get(row.event_id) ?? "");
+          sessionsByUser.set(row.user_id, list);
+        }
+        if (sessionsByUser.size === 0) return;
+
+        await notifyFestivalScheduleChange(sessionsByUser, {
+          festivalSlug: festival.slug,
+          festivalTitle: festival.title,
+          updateTitle: title,
+        });
+      });
+    }
+  }
+
+  return NextResponse.json({ success: true, update });
+}
@@ -0,0 +1,185 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { eventRichness, pickRichestFields, type MergeableEvent } from "@/lib/import/duplicates";
+import { hasRoleLevel, type UserRole } from "@/lib/types";
+
+const EVENT_COLUMNS =
+  "id, slug, title, starts_at, ends_at, status, source_platform, description, image_url, location_name, address, google_maps_url, latitude, longitude, venue_id, organizer_id, external_chat_url";
+
+type PairEvent = MergeableEvent & {
+  id: string;
+  slug: string;
+  title: string;
+  starts_at: string;
+  status: string;
+  source_platform: string | null;
+};
+
+async function requireAdmin() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: NextResponse.json({ error: "Not authenticated" }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+  if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "admin")) {
+    return { error: NextResponse.json({ error: "Not authorized" }, { status: 403 }) };
+  }
+
+  return { supabase, user };
+}
+
+/**
+ * GET /api/import/duplicates - Pending probable-duplicate pairs, best match
+ * first, each with a suggestion of which side to keep. Admin only.
+ */
+export async function GET() {
+  const auth = await requireAdmin();
+  if (auth.error) return auth.error;
+  const { supabase } = auth;
+
+  const { data, error } = await supabase
+    .from("event_duplicate_candidates")
+    .select(
+      `id, score, signals, created_at,
+        event:events!event_duplicate_candidates_event_id_fkey (${EVENT_COLUMNS}),
+        duplicate_of:events!event_duplicate_candidates_duplicate_of_event_id_fkey (${EVENT_COLUMNS})`
+    )
+    .eq("status", "pending")
+    .order("score", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error("Duplicate queue fetch error:", error);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+
+  const pairs = (data ?? [])
+    .map((row) => ({
+      ...row,
+      event: row.event as unknown as PairEvent | null,
+      duplicate_of: row.duplicate_of as unknown as PairEvent | null,
+    }))
+    .filter((row) => row.event && row.duplicate_of)
+    .map((row) => ({
+      ...row,
+      suggested_keep_id:
+        eventRichness(row.event!) > eventRichness(row.duplicate_of!)
+          ? row.event!.id
+          : row.duplicate_of!.id,
+    }));
+
+  return NextResponse.json({ pairs });
+}
+
+/**
+ * POST /api/import/duplicates - Review a queued pair. Admin only.
+ *
+ * Body: { candidateId, action: "dismiss" } or
+ *       { candidateId, action: "merge", keepEventId }
+ *
+ * A merge first copies the richer fields of the dropped event onto the kept
+ * one, then merge_duplicate_events moves RSVPs and moments across, deletes
+ * the dropped event and redirects its slug via previous_slugs. An event with
+ * ticket orders is never the one dropped: deleting it would delete them.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAdmin();
+  if (auth.error) return auth.error;
+  const { supabase, user } = auth;
+
+  const body = await request.json();
+  const { candidateId, action, keepEventId } = body as {
+    candidateId?: string;
+    action?: "merge" | "dismiss";
+    keepEventId?: string;
+  };
+
+  if (!candidateId || (action !== "merge" && action !== "dismiss")) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: candidate } = await supabase
+    .from("event_duplicate_candidates")
+    .select("id, event_id, duplicate_of_event_id, status")
+    .eq("id", candidateId)
+    .single();
+
+  if (!candidate || candidate.status !== "pending") {
+    return NextResponse.json({ error: "Pair not found or already reviewed" }, { status: 404 });
+  }
+
+  if (action === "dismiss") {
+    const { error } = await supabase
+      .from("event_duplicate_candidates")
+      .update({ status: "dismissed", reviewed_by: user.id, reviewed_at: new Date().toISOString() })
+      .eq("id", candidateId);
+
+    if (error) {
+      console.error("Duplicate dismiss error:", error);
+      return NextResponse.json({ error: "Failed to dismiss" }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  }
+
+  const dropEventId =
+    keepEventId === candidate.event_id
+      ? candidate.duplicate_of_event_id
+      : keepEventId === candidate.duplicate_of_event_id
+        ? candidate.event_id
+        : null;
+  if (!keepEventId || !dropEventId) {
+    return NextResponse.json({ error: "keepEventId must be one of the pair" }, { status: 400 });
+  }
+
+  const { data: events } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .in("id", [keepEventId, dropEventId]);
+  const keep = events?.find((e) => e.id === keepEventId) as PairEvent | undefined;
+  const drop = events?.find((e) => e.id === dropEventId) as PairEvent | undefined;
+  if (!keep || !drop) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  // Checked before patching so a refused merge leaves the kept event alone
+  const { count: dropOrders } = await supabase
+    .from("ticket_orders")
+    .select("id", { count: "exact", head: true })
+    .eq("event_id", drop.id);
+  if (dropOrders) {
+    return NextResponse.json(
+      { error: "The event being dropped has ticket orders. Keep that one instead." },
+      { status: 409 }
+    );
+  }
+
+  // RLS: events_update_admin allows admins to update any event
+  const patch = pickRichestFields(keep, drop);
+  if (Object.keys(patch).length > 0) {
+    const { error: patchError } = await supabase.from("events").update(patch).eq("id", keep.id);
+    if (patchError) {
+      console.error("Duplicate merge patch error:", patchError);
+      return NextResponse.json({ error: "Failed to merge" }, { status: 500 });
+    }
+  }
+
+  const { error: mergeError } = await supabase.rpc("merge_duplicate_events", {
+    p_candidate_id: candidateId,
+    p_keep_event_id: keep.id,
+  });
+
+  if (mergeError) {
+    console.error("Duplicate merge error:", mergeError);
+    return NextResponse.json({ error: "Failed to merge" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, slug: keep.slug, mergedFields: Object.keys(patch) });
+}
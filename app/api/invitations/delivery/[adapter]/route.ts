@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { createClient as createServiceRoleClient } from '@supabase/supabase-js';
+import { getInviteAdapterById, invitationStatusForDelivery, isDeliveryProgress } from '@/lib/invites';
+import type { InvitationStatus, InviteDeliveryStatus, TribeInvitationStatus } from '@/lib/types';
+
+const TABLES = ['event_invitations', 'tribe_invitations'] as const;
+
+/**
+ * POST /api/invitations/delivery/[adapter] - Delivery status callback from a
+ * phone invite provider (Twilio StatusCallback, Zalo OA webhook).
+ *
+ * The adapter authenticates the request (provider signature) and parses it
+ * into reports; each report updates the invitation it was sent for, in
+ * either invitations table, matched by provider_message_id.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ adapter: string }> }
+) {
+  const { adapter: adapterId } = await params;
+  const adapter = getInviteAdapterById(adapterId);
+  if (!adapter?.parseStatusCallback) {
+    return NextResponse.json({ error: 'Unknown adapter' }, { status: 404 });
+  }
+
+  const reports = await adapter.parseStatusCallback(request);
+  if (!reports) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  const serviceUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceUrl || !serviceKey) {
+    return NextResponse.json({ error: 'Server not configured' }, { status: 500 });
+  }
+  const admin = createServiceRoleClient(serviceUrl, serviceKey);
+
+  for (const report of reports) {
+    for (const table of TABLES) {
+      const { data: rows } = await admin
+        .from(table)
+        .select('id, status, delivery_status')
+        .eq('provider_message_id', report.providerMessageId);
+
+      for (const row of rows ?? []) {
+        if (!isDeliveryProgress(row.delivery_status as InviteDeliveryStatus | null, report.status)) continue;
+
+        const { error } = await admin
+          .from(table)
+          .update({
+            delivery_status: report.status,
+            delivery_error: report.error ?? null,
+            status: invitationStatusForDelivery(row.status as InvitationStatus | TribeInvitationStatus, report.status),
+          })
+          .eq('id', row.id);
+
+        if (error) {
+          console.error('[invitations/delivery] update failed:', { table, id: row.id, error: error.message });
+        }
+      }
+    }
+  }
+
+  return NextResponse.json({ received: true });
+}
@@ -36,6 +36,7 @@ export async function POST(
       rsvp_status,
       claimed_by,
       event_id,
+      audience,
       events (
         id,
         slug,
@@ -80,6 +81,9 @@ export async function POST(
     return NextResponse.json({ error: 'Failed to save response' }, { status: 500 });
   }
 
+  // Audience blasts are invitations too, but attributed separately
+  const source = invitation.audience ? 'audience' : 'invite';
+
   // If the invitation is claimed (user has an account), create/update RSVP record
   if (invitation.claimed_by && response === 'going') {
     await supabase
@@ -89,6 +93,7 @@ export async function POST(
         user_id: invitation.claimed_by,
         status: 'going',
         plus_ones: 0,
+        source,
       }, {
         onConflict: 'event_id,user_id',
       });
@@ -100,6 +105,7 @@ export async function POST(
         user_id: invitation.claimed_by,
         status: 'interested',
         plus_ones: 0,
+        source,
       }, {
         onConflict: 'event_id,user_id',
       });
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { createClient as createServiceRoleClient } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/server";
 
 /**
@@ -38,7 +39,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { data, error } = await supabase.rpc("award_loyalty_points", {
+    // award_loyalty_points is server-only; the admin check above is the gate
+    const serviceUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceUrl || !serviceKey) {
+      return NextResponse.json({ error: "Server not configured" }, { status: 500 });
+    }
+    const admin = createServiceRoleClient(serviceUrl, serviceKey);
+
+    const { data, error } = await admin.rpc("award_loyalty_points", {
       p_user_id: userId,
       p_activity_type: activityType,
       p_points: points ?? null,
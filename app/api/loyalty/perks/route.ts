@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_POINTS_COST = 10_000;
+
+/**
+ * GET /api/loyalty/perks
+ * Returns the custom perks the current user issued as a host, newest first.
+ * Requires authentication.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("rewards")
+      .select("id, name, description, points_cost, is_active, created_at")
+      .eq("host_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[api/loyalty/perks] Query error:", error);
+      return NextResponse.json({ error: "Failed to fetch perks" }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: data ?? [] });
+  } catch (error) {
+    console.error("[api/loyalty/perks] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch perks" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/loyalty/perks
+ * Issue a perk members can claim with points and show at your events' door.
+ * Body: { name: string, description?: string, pointsCost: number }
+ * Only people who have created an event can issue perks (enforced by RLS).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    const description =
+      typeof body?.description === "string" ? body.description.trim() : "";
+    const pointsCost = Math.floor(Number(body?.pointsCost));
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: "invalid_name" }, { status: 400 });
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json({ error: "invalid_description" }, { status: 400 });
+    }
+    if (!(pointsCost > 0) || pointsCost > MAX_POINTS_COST) {
+      return NextResponse.json({ error: "invalid_points_cost" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("rewards")
+      .insert({
+        name,
+        description: description || null,
+        category: "exclusive",
+        points_cost: pointsCost,
+        reward_type: "custom_perk",
+        host_id: user.id,
+        created_by: user.id,
+      })
+      .select("id, name, description, points_cost, is_active, created_at")
+      .single();
+
+    if (error) {
+      // RLS rejects people who have never hosted
+      if (error.code === "42501") {
+        return NextResponse.json({ error: "not_a_host" }, { status: 403 });
+      }
+      console.error("[api/loyalty/perks] Insert error:", error);
+      return NextResponse.json({ error: "Failed to create perk" }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("[api/loyalty/perks] Error:", error);
+    return NextResponse.json({ error: "Failed to create perk" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/loyalty/perks
+ * Pause or resume one of your perks. Codes already claimed stay valid.
+ * Body: { id: string, isActive: boolean }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.id !== "string" || typeof body?.isActive !== "boolean") {
+      return NextResponse.json({ error: "Missing id or isActive" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("rewards")
+      .update({ is_active: body.isActive })
+      .eq("id", body.id)
+      .eq("host_id", user.id)
+      .select("id, name, description, points_cost, is_active, created_at")
+      .maybeSingle();
+
+    if (error) {
+      console.error("[api/loyalty/perks] Update error:", error);
+      return NextResponse.json({ error: "Failed to update perk" }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Perk not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("[api/loyalty/perks] Error:", error);
+    return NextResponse.json({ error: "Failed to update perk" }, { status: 500 });
+  }
+}
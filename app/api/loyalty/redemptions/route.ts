@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * GET /api/loyalty/redemptions
+ * Returns the current user's claimed rewards, newest first, with the reward
+ * they're for. Unused perks carry the code to show at check-in.
+ * Requires authentication.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("reward_redemptions")
+      .select(
+        "id, user_id, reward_id, points_spent, status, redemption_code, redeemed_at, used_at, used_for_reference_type, used_for_reference_id, rewards(id, name, description, category, points_cost, min_tier, reward_type, discount_percentage, discount_fixed_amount, discount_currency, early_access_hours, host_id, is_active)"
+      )
+      .eq("user_id", user.id)
+      .order("redeemed_at", { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error("[api/loyalty/redemptions] Query error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch redemptions" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: data ?? [] });
+  } catch (error) {
+    console.error("[api/loyalty/redemptions] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch redemptions" },
+      { status: 500 }
+    );
+  }
+}
@@ -21,10 +21,12 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const category = searchParams.get("category");
 
-    // Query the rewards table directly (no RPC needed)
+    // Query the rewards table directly (no RPC needed), aliased to the names the catalog UI uses
     let query = supabase
       .from("rewards")
-      .select("id, name, description, category, points_cost, tier_required, is_active, stock_remaining, image_url, max_redemptions_per_user")
+      .select(
+        "id, name, description, category, points_cost, tier_required:min_tier, is_active, stock_remaining:stock_quantity, image_url:partner_logo_url, reward_type, discount_percentage, discount_fixed_amount, discount_currency, early_access_hours, host_id"
+      )
       .eq("is_active", true);
 
     if (category) {
@@ -71,6 +73,12 @@ export async function GET(request: NextRequest) {
         is_active: r.is_active,
         stock_remaining: r.stock_remaining,
         image_url: r.image_url,
+        reward_type: r.reward_type,
+        discount_percentage: r.discount_percentage,
+        discount_fixed_amount: r.discount_fixed_amount,
+        discount_currency: r.discount_currency,
+        early_access_hours: r.early_access_hours,
+        host_id: r.host_id,
         can_afford: userPoints >= r.points_cost,
         meets_tier: userTierRank >= requiredTierRank,
         eligible: userPoints >= r.points_cost && userTierRank >= requiredTierRank,
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  NEAR_DUPLICATE_MAX_DISTANCE,
+  distanceToSimilarity,
+  isPerceptualHash,
+} from "@/lib/perceptual-hash";
+
+/**
+ * POST /api/moments/check-near-duplicates
+ * Find photos in an event/album that look like the given perceptual hashes
+ * (same picture, different bytes — resized, re-exported, recompressed)
+ *
+ * Request body:
+ * - eventId: string - The event to check against
+ * - hashes: string[] - Array of 16-char dHash values (lib/perceptual-hash.ts)
+ *
+ * Response:
+ * - matches: { hash, momentId, similarity, thumbnailUrl }[] - Closest existing
+ *   photo per hash, only for hashes with a match. similarity is 0-1.
+ *   thumbnailUrl is null unless the match is published or the caller's own.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { eventId, hashes } = body;
+
+    if (!eventId || !Array.isArray(hashes)) {
+      return NextResponse.json(
+        { error: "Missing eventId or hashes array" },
+        { status: 400 }
+      );
+    }
+
+    const validHashes = hashes.filter(isPerceptualHash);
+    if (validHashes.length === 0) {
+      return NextResponse.json({ matches: [] });
+    }
+
+    // Limit to prevent abuse
+    if (validHashes.length > 500) {
+      return NextResponse.json(
+        { error: "Too many hashes (max 500)" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase.rpc("find_near_duplicate_moments", {
+      p_event_id: eventId,
+      p_hashes: validHashes,
+      p_max_distance: NEAR_DUPLICATE_MAX_DISTANCE,
+    });
+
+    if (error) {
+      console.error("[check-near-duplicates] RPC error:", error);
+      return NextResponse.json(
+        { error: "Failed to check near-duplicates" },
+        { status: 500 }
+      );
+    }
+
+    const rows = (data || []) as {
+      hash: string;
+      moment_id: string;
+      distance: number;
+      media_url: string | null;
+      thumbnail_url: string | null;
+    }[];
+
+    return NextResponse.json({
+      matches: rows.map((row) => ({
+        hash: row.hash,
+        momentId: row.moment_id,
+        similarity: distanceToSimilarity(row.distance),
+        thumbnailUrl: row.thumbnail_url || row.media_url,
+      })),
+    });
+  } catch (error) {
+    console.error("[check-near-duplicates] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to check near-duplicates" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { DEFAULT_DIGEST_TIME, DIGEST_FREQUENCIES } from '@/lib/notifications/digest';
+import type { DigestFrequency } from '@/lib/notifications/types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data } = await supabase
+    .from('notification_preferences')
+    .select('digest_frequency, digest_time')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  return NextResponse.json({
+    frequency: data?.digest_frequency || 'instant',
+    time: (data?.digest_time || DEFAULT_DIGEST_TIME).slice(0, 5),
+  });
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { frequency, time } = await request.json().catch(() => ({}));
+
+  if (!DIGEST_FREQUENCIES.includes(frequency as DigestFrequency)) {
+    return NextResponse.json({ error: 'Invalid frequency' }, { status: 400 });
+  }
+  if (time !== undefined && (typeof time !== 'string' || !TIME_PATTERN.test(time))) {
+    return NextResponse.json({ error: 'Invalid time' }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      {
+        user_id: user.id,
+        digest_frequency: frequency,
+        ...(time ? { digest_time: time } : {}),
+      },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) {
+    console.error('Failed to update digest preference:', error);
+    return NextResponse.json({ error: 'Failed to update preference' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
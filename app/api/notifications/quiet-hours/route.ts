@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { isValidTimezone } from '@/lib/notifications/quiet-hours';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const [{ data: prefs }, { data: profile }] = await Promise.all([
+    supabase
+      .from('notification_preferences')
+      .select('quiet_hours_enabled, quiet_hours_start, quiet_hours_end')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    supabase.from('profiles').select('timezone').eq('id', user.id).maybeSingle(),
+  ]);
+
+  return NextResponse.json({
+    enabled: prefs?.quiet_hours_enabled ?? false,
+    start: (prefs?.quiet_hours_start || '22:00').slice(0, 5),
+    end: (prefs?.quiet_hours_end || '08:00').slice(0, 5),
+    timezone: profile?.timezone ?? null,
+  });
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { enabled, start, end, timezone } = await request.json().catch(() => ({}));
+
+  if (typeof enabled !== 'boolean') {
+    return NextResponse.json({ error: 'Invalid enabled flag' }, { status: 400 });
+  }
+  if (![start, end].every((t) => typeof t === 'string' && TIME_PATTERN.test(t)) || start === end) {
+    return NextResponse.json({ error: 'Invalid quiet hours' }, { status: 400 });
+  }
+  if (timezone !== null && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+    return NextResponse.json({ error: 'Invalid timezone' }, { status: 400 });
+  }
+
+  const [{ error: prefsError }, { error: profileError }] = await Promise.all([
+    supabase
+      .from('notification_preferences')
+      .upsert(
+        {
+          user_id: user.id,
+          quiet_hours_enabled: enabled,
+          quiet_hours_start: start,
+          quiet_hours_end: end,
+        },
+        { onConflict: 'user_id' }
+      ),
+    supabase.from('profiles').update({ timezone }).eq('id', user.id),
+  ]);
+
+  if (prefsError || profileError) {
+    console.error('Failed to update quiet hours:', prefsError ?? profileError);
+    return NextResponse.json({ error: 'Failed to update preference' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
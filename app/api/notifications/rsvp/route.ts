@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server';
 import { notifyRsvpConfirmation, notifyOrganizerNewRsvp } from '@/lib/notifications';
 import { scheduleRsvpReminders } from '@/lib/notifications/scheduler';
 import { awardPoints } from '@/lib/loyalty';
+import { issueRsvpTickets, type IssuedTicket } from '@/lib/checkin/event-key';
 import type { Locale } from '@/lib/types';
 
 export async function POST(request: Request) {
@@ -42,6 +43,26 @@ export async function POST(request: Request) {
   console.log('[rsvp-notification] Starting for user:', user.id, 'event:', event.slug);
 
   try {
+    // Going RSVPs get signed QR tickets (one per plus-one guest too) in the email
+    // (checked against the row itself — callers don't always send rsvpStatus)
+    let tickets: IssuedTicket[] = [];
+    const { data: goingRsvp } = await supabase
+      .from('rsvps')
+      .select('id, plus_one_guests(id, name, sort_order)')
+      .eq('event_id', eventId)
+      .eq('user_id', user.id)
+      .eq('status', 'going')
+      .maybeSingle();
+
+    if (goingRsvp) {
+      const guests = [...(goingRsvp.plus_one_guests ?? [])].sort((a, b) => a.sort_order - b.sort_order);
+      tickets = await issueRsvpTickets(
+        eventId,
+        { id: goingRsvp.id, label: profile?.display_name || event.title },
+        guests
+      );
+    }
+
     // Send immediate RSVP confirmation
     console.log('[rsvp-notification] Sending confirmation...');
     const result = await notifyRsvpConfirmation(
@@ -49,7 +70,8 @@ export async function POST(request: Request) {
       locale,
       event.title,
       event.slug,
-      event.description
+      event.description,
+      tickets.map(({ label, code }) => ({ label, code }))
     );
     console.log('[rsvp-notification] Confirmation sent:', result);
 
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deliverWaitlistOffers } from "@/lib/notifications/waitlist-offers";
+
+/**
+ * POST /api/orders/[id]/cancel - Drop a pending order, or refund a paid one
+ *
+ * Buyers can cancel their own pending order; hosts can also mark a paid
+ * order refunded (the money itself goes back outside the app). Either way
+ * the freed tickets are offered to the waitlist.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: order } = await supabase
+    .from("ticket_orders")
+    .select("event_id")
+    .eq("id", id)
+    .single();
+
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+
+  const { data, error } = await supabase.rpc("cancel_ticket_order", { p_order_id: id });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  if (!data?.ok) {
+    return NextResponse.json(
+      { error: data?.error },
+      { status: data?.error === "unauthorized" ? 403 : 409 }
+    );
+  }
+
+  const offered = data.offers > 0 ? await deliverWaitlistOffers(order.event_id) : 0;
+
+  return NextResponse.json({ success: true, status: data.status, offered });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { afterOrderPaid } from "@/lib/payments/orders";
+
+/**
+ * POST /api/orders/[id]/verify - Host confirms a bank transfer arrived
+ *
+ * confirm_ticket_order checks the caller manages the order's event.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data, error } = await supabase.rpc("confirm_ticket_order", { p_order_id: id });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  if (!data?.ok) {
+    const status = data?.error === "unauthorized" ? 403 : data?.error === "order_not_found" ? 404 : 409;
+    return NextResponse.json({ error: data?.error }, { status });
+  }
+
+  await afterOrderPaid(id);
+
+  return NextResponse.json({ success: true, rsvpId: data.rsvp_id });
+}
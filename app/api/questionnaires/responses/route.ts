@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { createClient as createServiceRoleClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { getEventQuestionnaireServer } from "@/lib/questionnaire-server";
+import {
+  isQuestionnaireResponses,
+  pruneHiddenResponses,
+  validateResponses,
+} from "@/lib/questionnaire-logic";
+import type { QuestionnaireKind } from "@/lib/types";
+
+const KINDS: QuestionnaireKind[] = ["rsvp", "post_event"];
+
+/**
+ * POST /api/questionnaires/responses - Save answers to an RSVP or survey
+ *
+ * Body: { rsvpId, kind, responses }. The answers are checked against the
+ * event's questionnaire of that kind (branching, required-if, formats,
+ * option capacities) and only then written, so the rules hold even when the
+ * client skips /api/questionnaires/validate. Returns { errors } keyed by
+ * question ID with 422 when they don't pass.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const rsvpId = typeof body?.rsvpId === "string" ? body.rsvpId : "";
+  const kind = KINDS.find((k) => k === body?.kind);
+  if (!rsvpId || !kind || !isQuestionnaireResponses(body?.responses)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: rsvp } = await supabase
+    .from("rsvps")
+    .select("id, event_id")
+    .eq("id", rsvpId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (!rsvp) {
+    return NextResponse.json({ error: "RSVP not found" }, { status: 404 });
+  }
+
+  const questionnaire = await getEventQuestionnaireServer(rsvp.event_id, kind);
+  if (!questionnaire?.is_enabled) {
+    return NextResponse.json({ error: "No questionnaire" }, { status: 404 });
+  }
+
+  const errors = validateResponses(questionnaire.questions, body.responses);
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 422 });
+  }
+
+  // Only answers to this questionnaire's visible questions are kept
+  const answers = pruneHiddenResponses(questionnaire.questions, body.responses);
+  const rows = Object.entries(answers).map(([questionId, responseValue]) => ({
+    rsvp_id: rsvp.id,
+    question_id: questionId,
+    response_value: responseValue,
+  }));
+
+  if (rows.length === 0) {
+    return NextResponse.json({ success: true });
+  }
+
+  // rsvp_responses is server-written; the checks above are the gate
+  const serviceUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceUrl || !serviceKey) {
+    return NextResponse.json({ error: "Server not configured" }, { status: 500 });
+  }
+  const admin = createServiceRoleClient(serviceUrl, serviceKey);
+
+  const { error } = await admin
+    .from("rsvp_responses")
+    .upsert(rows, { onConflict: "rsvp_id,question_id" });
+
+  if (error) {
+    // enforce_option_capacity: the option filled up after the check above
+    if (error.message.includes("option_full")) {
+      return NextResponse.json({ error: "option_full" }, { status: 409 });
+    }
+    console.error("Failed to save questionnaire responses:", error);
+    return NextResponse.json({ error: "Failed to save responses" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
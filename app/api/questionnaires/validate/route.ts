@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { validateQuestionnaireResponsesServer } from "@/lib/questionnaire-server";
+import { isQuestionnaireResponses } from "@/lib/questionnaire-logic";
+
+/**
+ * POST /api/questionnaires/validate - Check RSVP questionnaire answers
+ *
+ * Body: { eventId, responses }. Returns { errors } keyed by question ID,
+ * empty when the answers can be submitted.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const eventId = typeof body?.eventId === "string" ? body.eventId : "";
+  if (!eventId || !isQuestionnaireResponses(body?.responses)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const errors = await validateQuestionnaireResponsesServer(eventId, body.responses);
+  return NextResponse.json({ errors });
+}
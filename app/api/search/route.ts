@@ -0,0 +1,309 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { expandSearchQuery } from "@/lib/search/expand-query";
+import { embedSearchQuery } from "@/lib/search/embed-query";
+import {
+  getDateWindow,
+  parseSearchFilters,
+  toWebsearchQuery,
+  type SearchFilters,
+  type SearchType,
+} from "@/lib/search/filters";
+import type {
+  EventFacets,
+  EventSearchResult,
+  MomentSearchResult,
+  OrganizerSearchResult,
+  SearchResponse,
+  SearchSection,
+  TribeSearchResult,
+  VenueSearchResult,
+} from "@/lib/search/types";
+import type { Event } from "@/lib/types";
+
+const PAGE_SIZE = 20;
+// "All" shows a short preview of each non-event section
+const PREVIEW_SIZE = 4;
+// Semantic moment search can't count matches, so it pages within this window
+const MAX_MOMENT_RESULTS = 100;
+const MOMENT_SIMILARITY_THRESHOLD = 0.15;
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+interface SearchContext {
+  supabase: Supabase;
+  filters: SearchFilters;
+  /** websearch_to_tsquery input, null when there's no text query */
+  websearch: string | null;
+  /** pgvector literal for the query, null when unavailable */
+  embedding: string | null;
+  page: number;
+  pageSize: number;
+}
+
+interface SearchHit {
+  id: string;
+  distance_km: number | null;
+}
+
+function section<T>(items: T[], total: number, page: number, pageSize: number): SearchSection<T> {
+  return { items, total, page, pageSize, hasMore: page * pageSize < total };
+}
+
+/** Re-order fetched rows to match the ranked hit list. */
+function inHitOrder<T extends { id: string }>(hits: SearchHit[], rows: T[]): (T & { distance_km: number | null })[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return hits.flatMap((hit) => {
+    const row = byId.get(hit.id);
+    return row ? [{ ...row, distance_km: hit.distance_km }] : [];
+  });
+}
+
+async function searchEvents(ctx: SearchContext) {
+  const { supabase, filters } = ctx;
+  const window = getDateWindow(filters);
+
+  const { data, error } = await supabase.rpc("search_events", {
+    p_query: ctx.websearch,
+    p_embedding: ctx.embedding,
+    p_tags: filters.tags.length ? filters.tags : null,
+    p_price_types: filters.priceTypes.length ? filters.priceTypes : null,
+    p_venue_types: filters.venueTypes.length ? filters.venueTypes : null,
+    p_from: window.from,
+    p_to: window.to,
+    p_lat: filters.near?.lat ?? null,
+    p_lng: filters.near?.lng ?? null,
+    p_radius_km: filters.near ? filters.radiusKm : null,
+    p_sort: filters.sort,
+    p_limit: ctx.pageSize,
+    p_offset: (ctx.page - 1) * ctx.pageSize,
+  });
+
+  if (error) {
+    throw new Error(`Event search failed: ${error.message}`);
+  }
+
+  const result = data as { total: number; hits: SearchHit[]; facets: EventFacets };
+  const ids = result.hits.map((hit) => hit.id);
+
+  const { data: events, error: eventsError } = ids.length
+    ? await supabase.from("events").select("*").in("id", ids)
+    : { data: [], error: null };
+
+  if (eventsError) {
+    throw new Error(`Event search details failed: ${eventsError.message}`);
+  }
+
+  return {
+    ...section<EventSearchResult>(
+      inHitOrder(result.hits, (events ?? []) as Event[]),
+      result.total,
+      ctx.page,
+      ctx.pageSize
+    ),
+    facets: result.facets,
+  };
+}
+
+async function searchVenues(ctx: SearchContext) {
+  const { supabase, filters } = ctx;
+
+  const { data, error } = await supabase.rpc("search_venues", {
+    p_query: ctx.websearch,
+    p_venue_types: filters.venueTypes.length ? filters.venueTypes : null,
+    p_lat: filters.near?.lat ?? null,
+    p_lng: filters.near?.lng ?? null,
+    p_radius_km: filters.near ? filters.radiusKm : null,
+    p_limit: ctx.pageSize,
+    p_offset: (ctx.page - 1) * ctx.pageSize,
+  });
+
+  if (error) {
+    throw new Error(`Venue search failed: ${error.message}`);
+  }
+
+  const result = data as { total: number; hits: SearchHit[] };
+  const ids = result.hits.map((hit) => hit.id);
+
+  const { data: venues } = ids.length
+    ? await supabase
+        .from("venues")
+        .select("id, slug, name, venue_type, address, logo_url, cover_photo_url, is_verified")
+        .in("id", ids)
+    : { data: [] };
+
+  return section<VenueSearchResult>(
+    inHitOrder(result.hits, (venues ?? []) as Omit<VenueSearchResult, "distance_km">[]),
+    result.total,
+    ctx.page,
+    ctx.pageSize
+  );
+}
+
+async function searchOrganizers(ctx: SearchContext) {
+  if (!ctx.websearch) return section<OrganizerSearchResult>([], 0, ctx.page, ctx.pageSize);
+
+  const from = (ctx.page - 1) * ctx.pageSize;
+  const { data, count, error } = await ctx.supabase
+    .from("organizers")
+    .select("id, slug, name, logo_url, organizer_type, is_verified", { count: "exact" })
+    .textSearch("search_vector", ctx.websearch, { config: "simple", type: "websearch" })
+    .order("is_verified", { ascending: false })
+    .order("priority_score", { ascending: false })
+    .range(from, from + ctx.pageSize - 1);
+
+  if (error) {
+    throw new Error(`Organizer search failed: ${error.message}`);
+  }
+
+  return section((data ?? []) as OrganizerSearchResult[], count ?? 0, ctx.page, ctx.pageSize);
+}
+
+async function searchTribes(ctx: SearchContext) {
+  if (!ctx.websearch) return section<TribeSearchResult>([], 0, ctx.page, ctx.pageSize);
+
+  const from = (ctx.page - 1) * ctx.pageSize;
+  const { data, count, error } = await ctx.supabase
+    .from("tribes")
+    .select("id, slug, name, description, cover_image_url, access_type", { count: "exact" })
+    .eq("is_listed", true)
+    .textSearch("search_vector", ctx.websearch, { config: "simple", type: "websearch" })
+    .order("created_at", { ascending: false })
+    .range(from, from + ctx.pageSize - 1);
+
+  if (error) {
+    throw new Error(`Tribe search failed: ${error.message}`);
+  }
+
+  return section((data ?? []) as TribeSearchResult[], count ?? 0, ctx.page, ctx.pageSize);
+}
+
+async function searchMoments(ctx: SearchContext) {
+  if (!ctx.embedding) return section<MomentSearchResult>([], 0, ctx.page, ctx.pageSize);
+
+  const { data: matches, error } = await ctx.supabase.rpc("search_moments_by_embedding", {
+    query_embedding: ctx.embedding,
+    match_threshold: MOMENT_SIMILARITY_THRESHOLD,
+    match_count: MAX_MOMENT_RESULTS,
+  });
+
+  if (error) {
+    throw new Error(`Moment search failed: ${error.message}`);
+  }
+
+  const ranked = (matches ?? []) as { moment_id: string; similarity: number }[];
+  const pageMatches = ranked.slice((ctx.page - 1) * ctx.pageSize, ctx.page * ctx.pageSize);
+  if (pageMatches.length === 0) return section<MomentSearchResult>([], ranked.length, ctx.page, ctx.pageSize);
+
+  // Moments of events the viewer can't see drop out here (RLS)
+  // Explicit FK hint disambiguates from events.cover_moment_id
+  const { data: moments } = await ctx.supabase
+    .from("moments")
+    .select("id, content_type, thumbnail_url, media_url, events!moments_event_id_fkey(slug, title)")
+    .in("id", pageMatches.map((m) => m.moment_id))
+    .eq("status", "published");
+
+  const byId = new Map(
+    ((moments ?? []) as unknown as {
+      id: string;
+      content_type: string;
+      thumbnail_url: string | null;
+      media_url: string | null;
+      events: { slug: string; title: string } | null;
+    }[]).map((m) => [m.id, m])
+  );
+
+  const items = pageMatches.flatMap(({ moment_id, similarity }): MomentSearchResult[] => {
+    const moment = byId.get(moment_id);
+    if (!moment?.events) return [];
+    return [
+      {
+        id: moment.id,
+        content_type: moment.content_type,
+        thumbnail_url: moment.thumbnail_url,
+        media_url: moment.media_url,
+        event_slug: moment.events.slug,
+        event_title: moment.events.title,
+        similarity,
+      },
+    ];
+  });
+
+  return section(items, ranked.length, ctx.page, ctx.pageSize);
+}
+
+const SECTIONS = {
+  events: searchEvents,
+  venues: searchVenues,
+  organizers: searchOrganizers,
+  tribes: searchTribes,
+  moments: searchMoments,
+} satisfies Record<Exclude<SearchType, "all">, (ctx: SearchContext) => Promise<unknown>>;
+
+type SectionName = keyof typeof SECTIONS;
+
+/**
+ * GET /api/search?q=&type=&tag=&price=&venue=&date=&from=&to=&near=&radius=&sort=&page=
+ *
+ * Ranked, paginated search across events, venues, organizers, tribes and
+ * moments. Events rank by full-text match plus CLIP similarity of their
+ * moments and carry facet counts. Parameters are those of
+ * lib/search/filters.ts, so a /search page URL maps straight onto this.
+ *
+ * type=all returns a page of events and a short preview of everything else;
+ * a specific type pages through that section alone.
+ */
+export async function GET(request: NextRequest) {
+  const filters = parseSearchFilters(request.nextUrl.searchParams);
+  const supabase = await createClient();
+
+  const sections: SectionName[] =
+    filters.type === "all" ? ["events", "venues", "organizers", "tribes", "moments"] : [filters.type];
+
+  // Only the event and moment sections use the embedding
+  const wantsEmbedding = Boolean(filters.q) && sections.some((s) => s === "events" || s === "moments");
+
+  const [expandedTerms, embedding] = await Promise.all([
+    filters.q ? expandSearchQuery(filters.q) : Promise.resolve([]),
+    wantsEmbedding ? embedSearchQuery(filters.q) : Promise.resolve(null),
+  ]);
+
+  const base = {
+    supabase,
+    filters,
+    websearch: filters.q ? toWebsearchQuery(expandedTerms) || null : null,
+    embedding,
+  };
+
+  const results = await Promise.allSettled(
+    sections.map((name) => {
+      const paged = filters.type !== "all" || name === "events";
+      return SECTIONS[name]({
+        ...base,
+        page: paged ? filters.page : 1,
+        pageSize: paged ? PAGE_SIZE : PREVIEW_SIZE,
+      });
+    })
+  );
+
+  const response: SearchResponse = { filters };
+  if (expandedTerms.length > 1) response.expandedTerms = expandedTerms;
+  if (wantsEmbedding && !embedding) response.degraded = true;
+
+  results.forEach((result, i) => {
+    const name = sections[i];
+    if (result.status === "fulfilled") {
+      (response as unknown as Record<string, unknown>)[name] = result.value;
+    } else {
+      console.error(`[search] ${name} section failed:`, result.reason);
+      response.degraded = true;
+    }
+  });
+
+  // Events are the core of search — without them there's nothing useful to show
+  if (sections.includes("events") && !response.events) {
+    return NextResponse.json({ ...response, error: "Search unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json(response);
+}
@@ -1,43 +1,18 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { format, parseISO } from "date-fns";
-
-const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
+import { format } from "date-fns";
+import {
+  DALAT_TIMEZONE,
+  buildSeriesRRule,
+  buildTimezoneLines,
+  escapeICS,
+  formatICSDate,
+} from "@/lib/calendar/ics";
 
 interface Params {
   params: Promise<{ slug: string }>;
 }
 
-/**
- * Escape special characters for ICS format
- */
-function escapeICS(text: string): string {
-  return text
-    .replace(/\\/g, "\\\\")
-    .replace(/;/g, "\\;")
-    .replace(/,/g, "\\,")
-    .replace(/\n/g, "\\n");
-}
-
-/**
- * Format date for ICS (YYYYMMDDTHHmmss)
- */
-function formatICSDate(dateStr: string, timeStr: string): string {
-  // timeStr is in format HH:MM:SS
-  const timeParts = timeStr.split(":");
-  const time = `${timeParts[0]}${timeParts[1]}${timeParts[2] || "00"}`;
-  const date = dateStr.replace(/-/g, "");
-  return `${date}T${time}`;
-}
-
-/**
- * Format UNTIL for RRULE (YYYYMMDDTHHmmssZ)
- */
-function formatRRuleUntil(dateStr: string): string {
-  const date = parseISO(dateStr);
-  return format(date, "yyyyMMdd'T'HHmmss'Z'");
-}
-
 /**
  * GET /api/series/[slug]/calendar.ics - Download series as ICS with RRULE
  */
@@ -84,10 +59,7 @@ export async function GET(request: Request, { params }: Params) {
   description += `\\n\\nSeries page: https://dalat.app/series/${series.slug}`;
 
   // Build RRULE with UNTIL if set
-  let rrule = series.rrule;
-  if (series.rrule_until) {
-    rrule += `;UNTIL=${formatRRuleUntil(series.rrule_until)}`;
-  }
+  const rrule = buildSeriesRRule(series);
 
   // Generate unique ID for the event
   const uid = `series-${series.id}@dalat.app`;
@@ -104,16 +76,7 @@ export async function GET(request: Request, { params }: Params) {
     "X-WR-TIMEZONE:" + DALAT_TIMEZONE,
     "",
     // Timezone definition
-    "BEGIN:VTIMEZONE",
-    "TZID:" + DALAT_TIMEZONE,
-    "X-LIC-LOCATION:" + DALAT_TIMEZONE,
-    "BEGIN:STANDARD",
-    "TZOFFSETFROM:+0700",
-    "TZOFFSETTO:+0700",
-    "TZNAME:ICT",
-    "DTSTART:19700101T000000",
-    "END:STANDARD",
-    "END:VTIMEZONE",
+    ...buildTimezoneLines(),
     "",
     // The recurring event
     "BEGIN:VEVENT",
@@ -137,12 +100,18 @@ export async function GET(request: Request, { params }: Params) {
     lines.push(`ORGANIZER;CN=${escapeICS(series.profiles.display_name)}:mailto:noreply@dalat.app`);
   }
 
-  // Add EXDATE for cancelled instances
-  if (exceptions && exceptions.length > 0) {
-    for (const ex of exceptions) {
-      const exDate = formatICSDate(ex.original_date, series.starts_at_time);
-      lines.push(`EXDATE;TZID=${DALAT_TIMEZONE}:${exDate}`);
-    }
+  // Add EXDATE for skipped dates (rule-level EXDATE + cancelled instances)
+  const exDates = new Set<string>(series.exdates ?? []);
+  for (const ex of exceptions ?? []) {
+    exDates.add(ex.original_date);
+  }
+  for (const date of [...exDates].sort()) {
+    lines.push(`EXDATE;TZID=${DALAT_TIMEZONE}:${formatICSDate(date, series.starts_at_time)}`);
+  }
+
+  // Add RDATE for one-off extra dates
+  for (const date of series.rdates ?? []) {
+    lines.push(`RDATE;TZID=${DALAT_TIMEZONE}:${formatICSDate(date, series.starts_at_time)}`);
   }
 
   lines.push("END:VEVENT");
@@ -0,0 +1,184 @@
+import { NextResponse, after } from "next/server";
+import { revalidateTag, revalidatePath } from "next/cache";
+import { createClient as createServiceRoleClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { isValidRRule } from "@/lib/recurrence";
+import { CACHE_TAGS } from "@/lib/cache/server-cache";
+import { notifySeriesOccurrenceChanged } from "@/lib/notifications";
+import {
+  SERIES_INSTANCE_COLUMNS,
+  editAllOccurrences,
+  editFutureOccurrences,
+  editThisOccurrence,
+  type SeriesInstanceRow,
+} from "@/lib/series/edit";
+import { parseOccurrenceFields, type SeriesChangeKind } from "@/lib/series/overrides";
+import { formatInDaLat } from "@/lib/timezone";
+import { hasRoleLevel, type EventSeries, type SeriesUpdateScope, type UserRole } from "@/lib/types";
+
+interface Params {
+  params: Promise<{ slug: string; date: string }>;
+}
+
+const SCOPES: SeriesUpdateScope[] = ["this_event", "future", "all"];
+
+/**
+ * PATCH /api/series/[slug]/occurrences/[date] - Edit one occurrence, this and
+ * following, or the whole series.
+ *
+ * Body: { scope, fields, rrule? }. `fields` are template fields plus the
+ * occurrence's venue_id and (this_event only) a new date. `rrule` is only
+ * accepted with scope "future", where a changed rule splits the series at
+ * `date`. Subscribers and attendees of changed upcoming occurrences are
+ * notified.
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  const { slug, date } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+
+  // Support lookup by UUID (id) or slug
+  const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slug);
+
+  const { data: series, error: fetchError } = await supabase
+    .from("event_series")
+    .select("*")
+    .eq(isUUID ? "id" : "slug", slug)
+    .single();
+
+  if (fetchError || !series) {
+    return NextResponse.json({ error: "Series not found" }, { status: 404 });
+  }
+
+  // Check if user is creator or admin
+  if (series.created_by !== user.id) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+    if (!profile?.role || !hasRoleLevel(profile.role as UserRole, "admin")) {
+      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+    }
+  }
+
+  const body = await request.json();
+  const scope = body.scope as SeriesUpdateScope;
+  if (!SCOPES.includes(scope)) {
+    return NextResponse.json({ error: "Invalid scope" }, { status: 400 });
+  }
+
+  const parsed = parseOccurrenceFields(body.fields ?? {});
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const fields = parsed.fields;
+
+  const rrule: string | undefined = body.rrule || undefined;
+  if (rrule && (scope !== "future" || !isValidRRule(rrule))) {
+    return NextResponse.json(
+      { error: scope === "future" ? "Invalid recurrence rule" : "Schedule changes apply to this and following events" },
+      { status: 400 }
+    );
+  }
+  if (fields.date && scope !== "this_event") {
+    return NextResponse.json({ error: "Only a single occurrence can move to another date" }, { status: 400 });
+  }
+
+  const serviceUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceUrl || !serviceKey) {
+    return NextResponse.json({ error: "Server not configured" }, { status: 500 });
+  }
+  const admin = createServiceRoleClient(serviceUrl, serviceKey);
+
+  let result;
+  if (scope === "this_event") {
+    const { data: instance } = await admin
+      .from("events")
+      .select(SERIES_INSTANCE_COLUMNS)
+      .eq("series_id", series.id)
+      .eq("series_instance_date", date)
+      .maybeSingle();
+    if (!instance) {
+      return NextResponse.json({ error: "Occurrence not found" }, { status: 404 });
+    }
+    result = await editThisOccurrence(admin, series as EventSeries, instance as SeriesInstanceRow, fields, user.id);
+  } else if (scope === "future") {
+    result = await editFutureOccurrences(admin, series as EventSeries, date, fields, rrule);
+  } else {
+    result = await editAllOccurrences(admin, series as EventSeries, fields);
+  }
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  revalidateTag(CACHE_TAGS.events, "max");
+  revalidatePath("/");
+
+  // Past occurrences changed too (scope "all"), but nobody needs telling
+  const now = new Date().toISOString();
+  const upcoming = result.changed
+    .filter((o) => o.startsAt > now)
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  const scheduleChanged = !!rrule && rrule !== series.rrule;
+
+  if (upcoming.length > 0 || scheduleChanged) {
+    const changes = new Set<SeriesChangeKind>(scheduleChanged ? ["schedule"] : []);
+    for (const occurrence of upcoming) occurrence.changes.forEach((c) => changes.add(c));
+    const first = upcoming[0];
+    const seriesTitle = fields.title ?? series.title;
+    const seriesId = series.id as string;
+    const seriesSlug = result.series.slug;
+    const editorId = user.id;
+
+    after(async () => {
+      const { data: subscribers } = await admin
+        .from("series_rsvps")
+        .select("user_id")
+        .eq("series_id", seriesId)
+        .eq("auto_rsvp", true);
+      const { data: attendees } = upcoming.length
+        ? await admin
+            .from("rsvps")
+            .select("user_id")
+            .in("event_id", upcoming.map((o) => o.eventId))
+            .in("status", ["going", "waitlist", "interested"])
+        : { data: [] };
+
+      const recipients = [
+        ...new Set([...(subscribers ?? []), ...(attendees ?? [])].map((r) => r.user_id as string)),
+      ].filter((id) => id !== editorId);
+      if (recipients.length === 0) return;
+
+      await notifySeriesOccurrenceChanged(recipients, {
+        seriesSlug,
+        seriesTitle,
+        eventSlug: first?.eventSlug ?? null,
+        eventTime: first ? formatInDaLat(first.startsAt, "dd/MM HH:mm") : formatInDaLat(`${date}T12:00:00Z`, "dd/MM"),
+        scope,
+        changes: [...changes],
+        occurrenceCount: upcoming.length,
+      });
+    });
+  }
+
+  return NextResponse.json({
+    success: true,
+    series_slug: result.series.slug,
+    split: result.split,
+    changed: result.changed.length,
+  });
+}
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { revalidateTag, revalidatePath } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
 import { fromZonedTime } from "date-fns-tz";
-import { isValidRRule } from "@/lib/recurrence";
+import { isValidRRule, parseDateList } from "@/lib/recurrence";
 import { CACHE_TAGS } from "@/lib/cache/server-cache";
 
 const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
@@ -146,6 +146,17 @@ export async function PATCH(request: Request, { params }: Params) {
     return NextResponse.json({ error: "Invalid recurrence rule" }, { status: 400 });
   }
 
+  // Validate EXDATE/RDATE lists if being updated
+  for (const field of ["exdates", "rdates"] as const) {
+    if (field in updateData) {
+      const dates = parseDateList(updateData[field]);
+      if (!dates) {
+        return NextResponse.json({ error: `Invalid ${field}` }, { status: 400 });
+      }
+      updateData[field] = dates;
+    }
+  }
+
   // Update series template
   const allowedFields = [
     "title",
@@ -161,6 +172,8 @@ export async function PATCH(request: Request, { params }: Params) {
     "duration_minutes",
     "rrule_until",
     "rrule_count",
+    "exdates",
+    "rdates",
     "status",
   ];
 
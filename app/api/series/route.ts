@@ -2,9 +2,10 @@ import { NextResponse } from "next/server";
 import { revalidateTag, revalidatePath } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
 import { CACHE_TAGS } from "@/lib/cache/server-cache";
+import { authorizeTribe } from "@/lib/tribes/authorize";
 import { addMonths, format } from "date-fns";
 import { fromZonedTime } from "date-fns-tz";
-import { generateSeriesInstances, isValidRRule } from "@/lib/recurrence";
+import { generateSeriesInstances, isValidRRule, parseDateList } from "@/lib/recurrence";
 import type { EventSeries } from "@/lib/types";
 import type { PostgrestError } from "@supabase/supabase-js";
 
@@ -43,6 +44,8 @@ interface CreateSeriesRequest {
   first_occurrence: string; // "2025-01-14"
   rrule_until?: string; // ISO date
   rrule_count?: number;
+  exdates?: string[]; // EXDATE: "2026-02-17"
+  rdates?: string[]; // RDATE: "2026-02-20"
 }
 
 const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
@@ -94,6 +97,12 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid recurrence rule" }, { status: 400 });
   }
 
+  const exdates = parseDateList(body.exdates);
+  const rdates = parseDateList(body.rdates);
+  if (!exdates || !rdates) {
+    return NextResponse.json({ error: "Invalid excluded or extra dates" }, { status: 400 });
+  }
+
   if (!body.starts_at_time) {
     return NextResponse.json({ error: "Start time is required" }, { status: 400 });
   }
@@ -113,29 +122,14 @@ export async function POST(request: Request) {
     );
   }
 
-  // Only tribe leaders/admins can create series on behalf of a tribe
+  // Only members the tribe lets create events can create series on its behalf
   if (body.tribe_id) {
-    const { data: tribeMembership, error: tribeMembershipError } = await supabase
-      .from("tribe_members")
-      .select("role")
-      .eq("tribe_id", body.tribe_id)
-      .eq("user_id", user.id)
-      .eq("status", "active")
-      .in("role", ["leader", "admin"])
-      .maybeSingle();
-
-    if (tribeMembershipError) {
-      console.error("Tribe membership check error:", tribeMembershipError);
-      return NextResponse.json(
-        { error: "Failed to verify tribe membership" },
-        { status: 500 }
-      );
-    }
+    const auth = await authorizeTribe(supabase, { id: body.tribe_id }, user.id, "create_events");
 
-    if (!tribeMembership) {
+    if (!auth.ok) {
       return NextResponse.json(
-        { error: "Not authorized to create events for this tribe" },
-        { status: 403 }
+        { error: auth.status === 403 ? "Not authorized to create events for this tribe" : auth.error },
+        { status: auth.status }
       );
     }
   }
@@ -189,6 +183,8 @@ export async function POST(request: Request) {
         first_occurrence: body.first_occurrence,
         rrule_until: body.rrule_until || null,
         rrule_count: body.rrule_count || null,
+        exdates,
+        rdates,
         status: "active",
       })
       .select()
@@ -239,6 +235,8 @@ export async function POST(request: Request) {
         first_occurrence: body.first_occurrence,
         rrule_until: body.rrule_until || null,
         rrule_count: body.rrule_count || null,
+        exdates,
+        rdates,
       },
       generateFrom,
       generateUntil
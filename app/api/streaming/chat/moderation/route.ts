@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { chatErrorStatus, parseBlockedWords, parseChatError } from '@/lib/streaming/moderation';
+
+type ModerationAction = 'timeout' | 'ban' | 'unban' | 'pin' | 'unpin' | 'add_moderator' | 'remove_moderator';
+
+const USER_ACTIONS: ModerationAction[] = ['timeout', 'ban', 'unban', 'add_moderator', 'remove_moderator'];
+
+function rpcError(error: { message: string }) {
+  const { code } = parseChatError(error.message);
+  if (code === 'unknown') {
+    console.error('Chat moderation failed:', error);
+    return NextResponse.json({ error: 'Moderation failed' }, { status: 500 });
+  }
+  return NextResponse.json({ error: code }, { status: chatErrorStatus(code) });
+}
+
+/**
+ * GET /api/streaming/chat/moderation?eventId=
+ * Chat rules, pinned message and the caller's own restriction; moderators
+ * also get the word lists, deputies and active bans.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const eventId = new URL(request.url).searchParams.get('eventId');
+
+  if (!eventId) {
+    return NextResponse.json({ error: 'eventId is required' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('get_stream_chat_state', { p_event_id: eventId });
+  if (error) return rpcError(error);
+
+  return NextResponse.json({ state: data });
+}
+
+/**
+ * PUT /api/streaming/chat/moderation
+ * Body: { eventId, slowModeSeconds, followersOnly, blockedWords: { [locale]: string[] } }
+ */
+export async function PUT(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { eventId, slowModeSeconds, followersOnly } = body;
+
+  if (!eventId) {
+    return NextResponse.json({ error: 'eventId is required' }, { status: 400 });
+  }
+
+  if (!Number.isInteger(slowModeSeconds) || slowModeSeconds < 0 || slowModeSeconds > 300) {
+    return NextResponse.json({ error: 'invalid_slow_mode' }, { status: 400 });
+  }
+
+  const blockedWords = parseBlockedWords(body.blockedWords ?? {});
+  if (!blockedWords.ok) {
+    return NextResponse.json({ error: blockedWords.error }, { status: 400 });
+  }
+
+  const { error } = await supabase.rpc('update_stream_chat_settings', {
+    p_event_id: eventId,
+    p_slow_mode_seconds: slowModeSeconds,
+    p_followers_only: followersOnly === true,
+    p_blocked_words: blockedWords.value,
+  });
+  if (error) return rpcError(error);
+
+  return NextResponse.json({ success: true });
+}
+
+/**
+ * POST /api/streaming/chat/moderation
+ * Body: { eventId, action, userId?, messageId?, durationSeconds?, reason? }
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { eventId, userId, messageId, durationSeconds, reason } = body;
+  const action = body.action as ModerationAction;
+
+  if (!eventId || !action) {
+    return NextResponse.json({ error: 'eventId and action are required' }, { status: 400 });
+  }
+
+  if (USER_ACTIONS.includes(action) && !userId) {
+    return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  let result;
+  switch (action) {
+    case 'timeout':
+    case 'ban':
+    case 'unban':
+      result = await supabase.rpc('moderate_stream_chat_user', {
+        p_event_id: eventId,
+        p_user_id: userId,
+        p_action: action,
+        p_duration_seconds: action === 'timeout' ? durationSeconds : null,
+        p_reason: typeof reason === 'string' ? reason.trim().slice(0, 200) || null : null,
+      });
+      break;
+    case 'pin':
+      if (!messageId) {
+        return NextResponse.json({ error: 'messageId is required' }, { status: 400 });
+      }
+      result = await supabase.rpc('pin_stream_chat_message', { p_event_id: eventId, p_message_id: messageId });
+      break;
+    case 'unpin':
+      result = await supabase.rpc('pin_stream_chat_message', { p_event_id: eventId, p_message_id: null });
+      break;
+    case 'add_moderator':
+    case 'remove_moderator':
+      result = await supabase.rpc('set_stream_chat_moderator', {
+        p_event_id: eventId,
+        p_user_id: userId,
+        p_is_moderator: action === 'add_moderator',
+      });
+      break;
+    default:
+      return NextResponse.json({ error: 'invalid_action' }, { status: 400 });
+  }
+
+  if (result.error) return rpcError(result.error);
+  return NextResponse.json({ success: true });
+}
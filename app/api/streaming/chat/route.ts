@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { chatErrorStatus, parseChatError } from '@/lib/streaming/moderation';
 
 export async function POST(request: Request) {
   const supabase = await createClient();
@@ -32,6 +33,14 @@ export async function POST(request: Request) {
     if (error.message.includes('event_not_found')) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
+    // Moderation rejections: banned, timed out, slow mode, followers-only, blocked word
+    const { code, retryAfter } = parseChatError(error.message);
+    if (code !== 'unknown') {
+      return NextResponse.json(
+        { error: 'Message not allowed', code, retryAfter },
+        { status: chatErrorStatus(code) }
+      );
+    }
     return NextResponse.json({ error: 'Failed to send message' }, { status: 500 });
   }
 
@@ -7,6 +7,7 @@ import {
   type CloudflareWebhookEvent,
 } from '@/lib/cloudflare-stream';
 import { notify } from '@/lib/notifications';
+import { ingestStreamRecording } from '@/lib/streaming/recordings';
 
 function getServiceClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -70,8 +71,39 @@ export async function POST(request: Request) {
       case 'video.ready': {
         // Handle both live stream recordings and VOD uploads
         if (event.liveInput?.uid) {
-          // Live stream recording is ready
-          console.log('Recording ready for live input:', event.liveInput.uid, 'Video UID:', event.video?.uid);
+          // Live stream recording is ready - publish it as a replayable moment
+          const videoUid = event.video?.uid ?? event.uid;
+          console.log('Recording ready for live input:', event.liveInput.uid, 'Video UID:', videoUid);
+
+          try {
+            const recording = await ingestStreamRecording(supabase, event.liveInput.uid, videoUid);
+
+            if (!recording) {
+              console.log('No live stream found for live input:', event.liveInput.uid);
+            } else if (recording.created) {
+              const { data: eventData } = await supabase
+                .from('events')
+                .select('slug, title')
+                .eq('id', recording.eventId)
+                .single();
+
+              if (eventData) {
+                await notify({
+                  type: 'video_ready',
+                  userId: recording.broadcasterId,
+                  locale: 'en',
+                  eventSlug: eventData.slug,
+                  eventTitle: eventData.title,
+                  momentId: recording.momentId,
+                  thumbnailUrl: recording.thumbnailUrl ?? undefined,
+                });
+              }
+            }
+          } catch (err) {
+            console.error('Error ingesting stream recording:', err);
+            // Let Cloudflare retry; ingestion is idempotent per video
+            return NextResponse.json({ error: 'Recording ingestion failed' }, { status: 500 });
+          }
         } else {
           // VOD upload is ready - update the moment
           const videoUid = event.uid;
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { createClient as createServiceRoleClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { loadSurveyReportInput, resolveReportTarget, type ReportScope } from "@/lib/surveys/report";
+import { pickThemeAnswers, summarizeThemes, type SurveyTheme } from "@/lib/surveys/themes";
+
+export const maxDuration = 60;
+
+const SCOPES: ReportScope[] = ["event", "series"];
+
+/**
+ * POST /api/surveys/themes - AI-summarised themes from a survey's free-text
+ * answers.
+ *
+ * Body: { scope: "event" | "series", slug }. Only the event or series
+ * creator may ask. Summaries are cached per scope and rebuilt once the
+ * number of answers changes; the newest answers are the ones summarised.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const scope = body?.scope as ReportScope;
+  const slug = typeof body?.slug === "string" ? body.slug : "";
+  if (!SCOPES.includes(scope) || !slug) {
+    return NextResponse.json({ error: "Invalid scope" }, { status: 400 });
+  }
+
+  const target = await resolveReportTarget(supabase, user.id, scope, slug);
+  if (!target) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceKey) {
+    return NextResponse.json({ error: "Server not configured" }, { status: 500 });
+  }
+  const serviceClient = createServiceRoleClient(supabaseUrl, serviceKey);
+
+  // Answers are read as the creator so RLS still scopes them to their events
+  const { total, answers } = pickThemeAnswers(await loadSurveyReportInput(supabase, target.events));
+
+  const { data: cached } = await serviceClient
+    .from("survey_theme_summaries")
+    .select("answer_count, themes, generated_at")
+    .eq("scope", target.key)
+    .maybeSingle();
+
+  if (cached && cached.answer_count === total) {
+    return NextResponse.json({
+      themes: cached.themes,
+      answerCount: cached.answer_count,
+      generatedAt: cached.generated_at,
+    });
+  }
+
+  let themes: SurveyTheme[];
+  try {
+    themes = await summarizeThemes(answers);
+  } catch (error) {
+    console.error("[survey-themes] Summary failed:", error);
+    return NextResponse.json({ error: "Summary failed" }, { status: 502 });
+  }
+
+  const generatedAt = new Date().toISOString();
+  const { error: upsertError } = await serviceClient.from("survey_theme_summaries").upsert({
+    scope: target.key,
+    answer_count: total,
+    themes,
+    generated_at: generatedAt,
+  });
+  if (upsertError) {
+    console.error("[survey-themes] Failed to cache summary:", upsertError);
+  }
+
+  return NextResponse.json({ themes, answerCount: total, generatedAt });
+}
@@ -1,7 +1,21 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { notifyTribeInvitation, sendEmailInvitation } from '@/lib/notifications';
-import type { Locale, InviteQuotaCheck } from '@/lib/types';
+import {
+  deliverPhoneInvite,
+  getAvailableInviteChannels,
+  inviteUrl,
+  parsePhoneRecipients,
+  phoneInviteEmail,
+} from '@/lib/invites';
+import { authorizeTribe } from '@/lib/tribes/authorize';
+import type {
+  Locale,
+  InviteChannel,
+  InviteDeliveryStatus,
+  InviteQuotaCheck,
+  PhoneInviteChannel,
+} from '@/lib/types';
 
 // Email sends are paced 1s apart for Resend's rate limit, so a leader inviting
 // their whole tribe needs more than the default function window.
@@ -12,12 +26,17 @@ interface TribeInviteRequest {
   emails?: string[];
   /** profiles.id values — invited in-app, never by email. */
   users?: string[];
+  /** Numbers invited by SMS / WhatsApp / Zalo (see lib/invites) */
+  phones?: Array<{ phone: string; name?: string; channel: PhoneInviteChannel }>;
   personalNote?: string;
 }
 
 interface InviteResult {
   email?: string;
   userId?: string;
+  phone?: string;
+  channel: InviteChannel;
+  deliveryStatus?: InviteDeliveryStatus;
   success: boolean;
   error?: string;
 }
@@ -37,50 +56,37 @@ export async function POST(
     return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
   }
 
-  const { data: tribe } = await supabase
-    .from('tribes')
-    .select('id, name, slug')
-    .eq('slug', slug)
-    .single();
-
-  if (!tribe) {
-    return NextResponse.json({ error: 'Tribe not found' }, { status: 404 });
+  // Two-sided check: RLS authorizes the actor on INSERT, but an unauthorized
+  // caller would otherwise get a confusing empty-result 500 instead of a 403.
+  const auth = await authorizeTribe<{ name: string; slug: string }>(supabase, slug, user.id, 'invite', {
+    columns: 'name, slug',
+    allowSiteAdmin: true,
+  });
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
+  const { tribe } = auth;
 
   const { data: profile } = await supabase
     .from('profiles')
-    .select('display_name, username, locale, role')
+    .select('display_name, username, locale')
     .eq('id', user.id)
     .single();
 
-  // Two-sided check: RLS authorizes the actor on INSERT, but an unauthorized
-  // caller would otherwise get a confusing empty-result 500 instead of a 403.
-  const isSiteAdmin = profile?.role === 'admin' || profile?.role === 'superadmin';
-  let isTribeAdmin = isSiteAdmin;
-  if (!isTribeAdmin) {
-    const { data: membership } = await supabase
-      .from('tribe_members')
-      .select('role, status')
-      .eq('tribe_id', tribe.id)
-      .eq('user_id', user.id)
-      .single();
-    isTribeAdmin =
-      membership?.status === 'active' &&
-      (membership.role === 'leader' || membership.role === 'admin');
-  }
-
-  if (!isTribeAdmin) {
-    return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
-  }
-
   const body: TribeInviteRequest = await request.json();
   const emails = (body.emails ?? []).map((e) => e.toLowerCase().trim()).filter(Boolean);
   const users = (body.users ?? []).filter(Boolean);
   const personalNote = body.personalNote?.trim() || null;
 
-  const total = emails.length + users.length;
+  const parsedPhones = parsePhoneRecipients(body.phones);
+  if (!parsedPhones.ok) {
+    return NextResponse.json({ error: parsedPhones.error }, { status: 400 });
+  }
+  const phones = parsedPhones.recipients;
+
+  const total = emails.length + users.length + phones.length;
   if (total === 0) {
-    return NextResponse.json({ error: 'emails or users array required' }, { status: 400 });
+    return NextResponse.json({ error: 'emails, users or phones array required' }, { status: 400 });
   }
 
   // Tribe invites have their OWN bucket (30/day, 100/week). Sharing the event
@@ -135,19 +141,19 @@ export async function POST(
           .eq('email', email)
           .single();
         if (!existing) {
-          results.push({ email, success: false, error: 'Already invited' });
+          results.push({ channel: 'email', email, success: false, error: 'Already invited' });
           continue;
         }
         row = existing;
       } else {
         console.error('[POST /tribes/invitations] insert failed:', insertError);
-        results.push({ email, success: false, error: 'Failed to create invitation' });
+        results.push({ channel: 'email', email, success: false, error: 'Failed to create invitation' });
         continue;
       }
     }
 
     if (!row) {
-      results.push({ email, success: false, error: 'Failed to create invitation' });
+      results.push({ channel: 'email', email, success: false, error: 'Failed to create invitation' });
       continue;
     }
 
@@ -169,10 +175,10 @@ export async function POST(
         .update({ status: 'sent', sent_at: new Date().toISOString() })
         .eq('id', row.id);
 
-      results.push({ email, success: true });
+      results.push({ channel: 'email', email, success: true });
     } catch (error) {
       console.error('[POST /tribes/invitations] email send failed:', error);
-      results.push({ email, success: false, error: 'Failed to send email' });
+      results.push({ channel: 'email', email, success: false, error: 'Failed to send email' });
     }
   }
 
@@ -185,7 +191,7 @@ export async function POST(
       .single();
 
     if (!invitee) {
-      results.push({ userId, success: false, error: 'User not found' });
+      results.push({ channel: 'in_app', userId, success: false, error: 'User not found' });
       continue;
     }
 
@@ -199,7 +205,7 @@ export async function POST(
       .maybeSingle();
 
     if (alreadyMember) {
-      results.push({ userId, success: false, error: 'Already a member' });
+      results.push({ channel: 'in_app', userId, success: false, error: 'Already a member' });
       continue;
     }
 
@@ -215,6 +221,7 @@ export async function POST(
         name: invitee.display_name || invitee.username,
         personal_note: personalNote,
         status: 'pending',
+        channel: 'in_app',
         claimed_by: userId, // Pre-linked: only this account may accept the token
       })
       .select('id, token')
@@ -231,19 +238,19 @@ export async function POST(
           .eq('email', syntheticEmail)
           .single();
         if (!existing) {
-          results.push({ userId, success: false, error: 'Already invited' });
+          results.push({ channel: 'in_app', userId, success: false, error: 'Already invited' });
           continue;
         }
         row = existing;
       } else {
         console.error('[POST /tribes/invitations] user insert failed:', insertError);
-        results.push({ userId, success: false, error: 'Failed to create invitation' });
+        results.push({ channel: 'in_app', userId, success: false, error: 'Failed to create invitation' });
         continue;
       }
     }
 
     if (!row) {
-      results.push({ userId, success: false, error: 'Failed to create invitation' });
+      results.push({ channel: 'in_app', userId, success: false, error: 'Failed to create invitation' });
       continue;
     }
 
@@ -263,19 +270,100 @@ export async function POST(
         .update({ status: 'sent', sent_at: new Date().toISOString() })
         .eq('id', row.id);
 
-      results.push({ userId, success: true });
+      results.push({ channel: 'in_app', userId, success: true });
     } catch (error) {
       console.error('[POST /tribes/invitations] notification failed:', error);
-      results.push({ userId, success: false, error: 'Failed to send notification' });
+      results.push({ channel: 'in_app', userId, success: false, error: 'Failed to send notification' });
     }
   }
 
+  // ---- Phone path: SMS / WhatsApp / Zalo through lib/invites ----
+  for (const { phone, name, channel } of phones) {
+    const syntheticEmail = phoneInviteEmail(phone);
+
+    const { data: invitation, error: insertError } = await supabase
+      .from('tribe_invitations')
+      .insert({
+        tribe_id: tribe.id,
+        invited_by: user.id,
+        email: syntheticEmail,
+        name,
+        personal_note: personalNote,
+        status: 'pending',
+        channel,
+        phone,
+      })
+      .select('id, token')
+      .single();
+
+    let row = invitation;
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        // Resend, possibly on another channel
+        const { data: existing } = await supabase
+          .from('tribe_invitations')
+          .select('id, token')
+          .eq('tribe_id', tribe.id)
+          .eq('email', syntheticEmail)
+          .single();
+        row = existing;
+      } else {
+        console.error('[POST /tribes/invitations] phone insert failed:', insertError);
+      }
+    }
+
+    if (!row) {
+      results.push({ channel, phone, success: false, error: 'Failed to create invitation' });
+      continue;
+    }
+
+    const delivery = await deliverPhoneInvite(channel, {
+      to: phone,
+      locale: inviterLocale,
+      kind: 'tribe',
+      title: tribe.name,
+      inviterName,
+      inviteeName: name,
+      personalNote,
+      url: inviteUrl('tribe', row.token),
+      invitationId: row.id,
+    });
+    const delivered = delivery.status !== 'failed';
+
+    await supabase
+      .from('tribe_invitations')
+      .update({
+        channel,
+        delivery_status: delivery.status,
+        delivery_error: delivery.error ?? null,
+        provider_message_id: delivery.providerMessageId ?? null,
+        // A failed send stays pending so the leader can retry
+        ...(delivered ? { status: 'sent', sent_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', row.id);
+
+    results.push({
+      channel,
+      phone,
+      deliveryStatus: delivery.status,
+      success: delivered,
+      error: delivered ? undefined : delivery.error ?? 'Failed to send',
+    });
+  }
+
   // Successes only — a bounced email should not cost a leader their quota.
+  // Counted per channel: SMS and Zalo cost money per message.
   const successCount = results.filter((r) => r.success).length;
-  if (successCount > 0) {
+  const sentByChannel = new Map<InviteChannel, number>();
+  for (const r of results) {
+    if (r.success) sentByChannel.set(r.channel, (sentByChannel.get(r.channel) ?? 0) + 1);
+  }
+  for (const [channel, count] of sentByChannel) {
     await supabase.rpc('increment_tribe_invite_quota', {
       p_user_id: user.id,
-      p_count: successCount,
+      p_count: count,
+      p_channel: channel,
     });
   }
 
@@ -288,7 +376,7 @@ export async function POST(
   });
 }
 
-// GET /api/tribes/[slug]/invitations — list invitations (leaders/admins only)
+// GET /api/tribes/[slug]/invitations — list invitations (members who can invite)
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ slug: string }> }
@@ -312,12 +400,13 @@ export async function GET(
   }
 
   // No explicit role check needed: `tribe_invitations_select` already limits
-  // rows to the tribe's admins, the inviter, and the invitee. Deliberately
+  // rows to members holding the tribe's invite permission, the inviter, and
+  // the invitee. Deliberately
   // does NOT select `token` — a token is a join grant, and a leaked list of
   // them would be a bulk membership grant.
   const { data: invitations, error } = await supabase
     .from('tribe_invitations')
-    .select('id, email, name, status, claimed_by, sent_at, accepted_at, created_at')
+    .select('id, email, name, status, channel, phone, delivery_status, delivery_error, claimed_by, sent_at, accepted_at, created_at')
     .eq('tribe_id', tribe.id)
     .order('created_at', { ascending: false });
 
@@ -330,5 +419,9 @@ export async function GET(
     p_count: 0,
   }) as { data: InviteQuotaCheck | null };
 
-  return NextResponse.json({ invitations: invitations ?? [], quota });
+  return NextResponse.json({
+    invitations: invitations ?? [],
+    quota,
+    channels: getAvailableInviteChannels(),
+  });
 }
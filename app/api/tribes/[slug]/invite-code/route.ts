@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { authorizeTribe } from '@/lib/tribes/authorize';
 
 interface RouteParams { params: Promise<{ slug: string }>; }
 
@@ -8,16 +9,10 @@ export async function POST(request: Request, { params }: RouteParams) {
   const { slug } = await params;
   const { data: { user } } = await supabase.auth.getUser();
 
-  if (!user) return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  const auth = await authorizeTribe(supabase, slug, user?.id, 'rotate_invite_code');
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
 
-  const { data: tribe } = await supabase.from('tribes').select('id, created_by').eq('slug', slug).single();
-  if (!tribe) return NextResponse.json({ error: 'Tribe not found' }, { status: 404 });
-
-  const { data: membership } = await supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', user.id).single();
-  const isAdmin = tribe.created_by === user.id || membership?.role === 'leader' || membership?.role === 'admin';
-  if (!isAdmin) return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
-
-  const { data: newCode } = await supabase.rpc('regenerate_tribe_invite_code', { p_tribe_id: tribe.id });
+  const { data: newCode } = await supabase.rpc('regenerate_tribe_invite_code', { p_tribe_id: auth.tribe.id });
 
   return NextResponse.json({ invite_code: newCode });
 }
@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { safeSingle, singleOrNull } from '@/lib/supabase/helpers';
+import { authorizeTribe, type AuthorizedTribe } from '@/lib/tribes/authorize';
+import { hasTribePermission, TRIBE_ROLES, type TribeViewerMembership } from '@/lib/tribes/permissions';
+import type { TribeMemberRole } from '@/lib/types';
 
 interface RouteParams { params: Promise<{ slug: string }>; }
 
@@ -108,38 +111,37 @@ export async function PUT(request: Request, { params }: RouteParams) {
   const { user_id, role, status } = body;
 
   if (!user_id) return NextResponse.json({ error: 'user_id required' }, { status: 400 });
-
-  const tribeResult = await safeSingle(
-    supabase.from('tribes').select('id, created_by').eq('slug', slug).single()
-  );
-  if (!tribeResult.success) {
-    return NextResponse.json({ error: tribeResult.error }, { status: tribeResult.status });
+  if (role && !TRIBE_ROLES.includes(role)) return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+  if (status && !['active', 'banned'].includes(status)) return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+
+  // Changing roles is managing the tribe; banning and unbanning is its own permission
+  const auth = await authorizeTribe(supabase, slug, user.id, role ? 'manage' : 'ban_members');
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { tribe, membership } = auth;
+  if (status && !hasTribePermission(tribe, membership, user.id, 'ban_members')) {
+    return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
   }
-  const tribe = tribeResult.data;
-
-  // Membership check - null is valid (user might not be a member)
-  const membership = await singleOrNull(
-    supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', user.id).single()
-  );
-  const isAdmin = tribe.created_by === user.id || membership?.role === 'leader' || membership?.role === 'admin';
-  if (!isAdmin) return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
   if (user_id === tribe.created_by) return NextResponse.json({ error: 'Cannot modify creator' }, { status: 400 });
 
-  // Only leaders can promote to leader or demote from leader
-  if (role === 'leader' || role === 'admin') {
-    const targetMember = await singleOrNull(
-      supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', user_id).single()
-    );
-    if (targetMember?.role === 'leader' && membership?.role !== 'leader' && tribe.created_by !== user.id) {
-      return NextResponse.json({ error: 'Only leaders can modify other leaders' }, { status: 403 });
-    }
-  }
+  const targetError = await checkTarget(supabase, tribe, membership, user.id, user_id);
+  if (targetError) return targetError;
 
-  const updates: Record<string, unknown> = {};
-  if (role) updates.role = role;
-  if (status) updates.status = status;
+  if (role) {
+    await supabase.from('tribe_members').update({ role }).eq('tribe_id', tribe.id).eq('user_id', user_id);
+  }
 
-  await supabase.from('tribe_members').update(updates).eq('tribe_id', tribe.id).eq('user_id', user_id);
+  // Bans go through the RPC: ban_members alone doesn't allow editing member rows
+  if (status) {
+    const { error } = await supabase.rpc('set_tribe_member_status', {
+      p_tribe_id: tribe.id,
+      p_user_id: user_id,
+      p_status: status,
+    });
+    if (error) {
+      console.error('Member status error:', error);
+      return NextResponse.json({ error: 'Failed to update member' }, { status: 500 });
+    }
+  }
 
   return NextResponse.json({ success: true });
 }
@@ -156,22 +158,48 @@ export async function DELETE(request: Request, { params }: RouteParams) {
 
   if (!user_id) return NextResponse.json({ error: 'user_id required' }, { status: 400 });
 
-  const tribeResult = await safeSingle(
-    supabase.from('tribes').select('id, created_by').eq('slug', slug).single()
-  );
-  if (!tribeResult.success) {
-    return NextResponse.json({ error: tribeResult.error }, { status: tribeResult.status });
-  }
-  const tribe = tribeResult.data;
-
-  const membership = await singleOrNull(
-    supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', user.id).single()
-  );
-  const isAdmin = tribe.created_by === user.id || membership?.role === 'leader' || membership?.role === 'admin';
-  if (!isAdmin) return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+  const auth = await authorizeTribe(supabase, slug, user.id, 'ban_members');
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { tribe, membership } = auth;
   if (user_id === tribe.created_by) return NextResponse.json({ error: 'Cannot remove creator' }, { status: 400 });
 
-  await supabase.from('tribe_members').delete().eq('tribe_id', tribe.id).eq('user_id', user_id);
+  const targetError = await checkTarget(supabase, tribe, membership, user.id, user_id);
+  if (targetError) return targetError;
+
+  // Removals go through the RPC for the same reason as bans
+  const { error } = await supabase.rpc('remove_tribe_member', {
+    p_tribe_id: tribe.id,
+    p_user_id: user_id,
+  });
+  if (error) {
+    console.error('Member removal error:', error);
+    return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 });
+  }
 
   return NextResponse.json({ success: true });
 }
+
+/**
+ * Rank checks on the member being changed: only leaders (or the creator)
+ * touch leaders, and someone who can ban but not manage only bans members.
+ */
+async function checkTarget(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  tribe: AuthorizedTribe<object>,
+  membership: TribeViewerMembership | null,
+  actorId: string,
+  targetId: string
+) {
+  const target = await singleOrNull<{ role: TribeMemberRole }>(
+    supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', targetId).single()
+  );
+  const isCreator = tribe.created_by === actorId;
+
+  if (target?.role === 'leader' && membership?.role !== 'leader' && !isCreator) {
+    return NextResponse.json({ error: 'Only leaders can modify other leaders' }, { status: 403 });
+  }
+  if (target && target.role !== 'member' && !hasTribePermission(tribe, membership, actorId, 'manage')) {
+    return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+  }
+  return null;
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { notifyTribeJoinRequest } from '@/lib/notifications';
+import { resolveTribePermissions } from '@/lib/tribes/permissions';
 
 interface RouteParams { params: Promise<{ slug: string }>; }
 
@@ -56,8 +57,8 @@ export async function POST(request: Request, { params }: RouteParams) {
       if (reqError?.code === '23505') return NextResponse.json({ error: 'Request already pending' }, { status: 400 });
       if (reqError) return NextResponse.json({ error: reqError.message }, { status: 500 });
 
-      // Notify admins
-      const { data: admins } = await supabase.from('tribe_members').select('user_id').eq('tribe_id', tribe.id).in('role', ['leader', 'admin']);
+      // Notify whoever the tribe lets approve requests
+      const { data: admins } = await supabase.from('tribe_members').select('user_id').eq('tribe_id', tribe.id).eq('status', 'active').in('role', resolveTribePermissions(tribe.settings).approve_requests);
       const { data: profile } = await supabase.from('profiles').select('display_name').eq('id', user.id).single();
       if (admins?.length) {
         await notifyTribeJoinRequest(admins.map(a => a.user_id), profile?.display_name || 'Someone', tribe.name, tribe.slug);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { notifyTribeRequestApproved, notifyTribeRequestRejected } from '@/lib/notifications';
+import { authorizeTribe } from '@/lib/tribes/authorize';
 
 interface RouteParams { params: Promise<{ slug: string }>; }
 
@@ -9,14 +10,9 @@ export async function GET(request: Request, { params }: RouteParams) {
   const { slug } = await params;
   const { data: { user } } = await supabase.auth.getUser();
 
-  if (!user) return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-
-  const { data: tribe } = await supabase.from('tribes').select('id, created_by').eq('slug', slug).single();
-  if (!tribe) return NextResponse.json({ error: 'Tribe not found' }, { status: 404 });
-
-  const { data: membership } = await supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', user.id).single();
-  const isAdmin = tribe.created_by === user.id || membership?.role === 'leader' || membership?.role === 'admin';
-  if (!isAdmin) return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+  const auth = await authorizeTribe(supabase, slug, user?.id, 'approve_requests');
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { tribe } = auth;
 
   const { data: requests, error } = await supabase
     .from('tribe_requests')
@@ -47,12 +43,9 @@ export async function PUT(request: Request, { params }: RouteParams) {
     return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
   }
 
-  const { data: tribe } = await supabase.from('tribes').select('id, name, slug, created_by').eq('slug', slug).single();
-  if (!tribe) return NextResponse.json({ error: 'Tribe not found' }, { status: 404 });
-
-  const { data: membership } = await supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', user.id).single();
-  const isAdmin = tribe.created_by === user.id || membership?.role === 'leader' || membership?.role === 'admin';
-  if (!isAdmin) return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+  const auth = await authorizeTribe<{ name: string; slug: string }>(supabase, slug, user.id, 'approve_requests', { columns: 'name, slug' });
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { tribe } = auth;
 
   const { data: joinRequest } = await supabase.from('tribe_requests').select('*').eq('id', request_id).eq('tribe_id', tribe.id).eq('status', 'pending').single();
   if (!joinRequest) return NextResponse.json({ error: 'Request not found' }, { status: 404 });
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { isReservedTribeSlug, normalizeTribeSlug } from '@/lib/tribes/slug';
+import { authorizeTribe } from '@/lib/tribes/authorize';
+import { parsePermissionMatrix, parseRoleNames, tribePermissionsFor } from '@/lib/tribes/permissions';
 
 interface RouteParams { params: Promise<{ slug: string }>; }
 
@@ -29,13 +31,16 @@ export async function GET(request: Request, { params }: RouteParams) {
     return NextResponse.json({ error: 'Tribe not found' }, { status: 404 });
   }
 
+  const permissions = tribePermissionsFor(tribe, membership, user?.id);
+
   return NextResponse.json({
     tribe: {
       ...tribe,
       is_member: membership?.status === 'active',
       user_role: membership?.role,
       user_status: membership?.status,
-      invite_code: membership?.role === 'leader' || membership?.role === 'admin' ? tribe.invite_code : null,
+      user_permissions: permissions,
+      invite_code: permissions.invite || permissions.rotate_invite_code ? tribe.invite_code : null,
     },
   });
 }
@@ -45,30 +50,34 @@ export async function PUT(request: Request, { params }: RouteParams) {
   const { slug } = await params;
   const { data: { user } } = await supabase.auth.getUser();
 
-  if (!user) return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-
-  const { data: tribe, error: tribeError } = await supabase.from('tribes').select('id, created_by, settings').eq('slug', slug).single();
-  if (tribeError && tribeError.code !== 'PGRST116') {
-    console.error("Tribe fetch error:", tribeError);
-    return NextResponse.json({ error: 'Failed to load tribe' }, { status: 500 });
-  }
-  if (!tribe) return NextResponse.json({ error: 'Tribe not found' }, { status: 404 });
-
-  const { data: membership, error: membershipError } = await supabase.from('tribe_members').select('role').eq('tribe_id', tribe.id).eq('user_id', user.id).single();
-  if (membershipError && membershipError.code !== 'PGRST116') {
-    console.error("Tribe membership fetch error:", membershipError);
-    return NextResponse.json({ error: 'Failed to load membership' }, { status: 500 });
-  }
-  const isAdmin = tribe.created_by === user.id || membership?.role === 'leader' || membership?.role === 'admin';
-  if (!isAdmin) return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+  const auth = await authorizeTribe(supabase, slug, user?.id, 'manage');
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { tribe } = auth;
 
   const body = await request.json();
   const { name, description, access_type, cover_image_url, is_listed } = body;
 
-  // avatar_url lives inside the settings jsonb — merge, never clobber other keys
-  const settingsUpdate = 'avatar_url' in body
-    ? { settings: { ...(tribe.settings ?? {}), avatar_url: body.avatar_url || null } }
-    : {};
+  // avatar_url, permissions and role_names live inside the settings jsonb —
+  // merge, never clobber other keys
+  const settings = { ...(tribe.settings ?? {}) };
+  let settingsChanged = false;
+  if ('avatar_url' in body) {
+    settings.avatar_url = body.avatar_url || null;
+    settingsChanged = true;
+  }
+  if ('permissions' in body) {
+    const parsed = parsePermissionMatrix(body.permissions);
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error, code: 'permissions_invalid' }, { status: 400 });
+    settings.permissions = parsed.value;
+    settingsChanged = true;
+  }
+  if ('role_names' in body) {
+    const parsed = parseRoleNames(body.role_names);
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error, code: 'role_names_invalid' }, { status: 400 });
+    settings.role_names = parsed.value;
+    settingsChanged = true;
+  }
+  const settingsUpdate = settingsChanged ? { settings } : {};
 
   // Leaders may rename the URL. Unlike creation there's no auto-suffix — they asked
   // for this exact slug, so a clash is an error they need to see, not a silent rename.
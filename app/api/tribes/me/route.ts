@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { hasTribePermission } from '@/lib/tribes/permissions';
 
 export async function GET() {
   const supabase = await createClient();
@@ -10,7 +11,7 @@ export async function GET() {
   // Get user's tribes
   const { data: memberships, error: membershipsError } = await supabase
     .from('tribe_members')
-    .select(`*, tribes(id, slug, name, cover_image_url, access_type, settings)`)
+    .select(`*, tribes(id, slug, name, cover_image_url, access_type, settings, created_by)`)
     .eq('user_id', user.id)
     .eq('status', 'active')
     .order('joined_at', { ascending: false });
@@ -33,8 +34,14 @@ export async function GET() {
     return NextResponse.json({ error: 'Failed to fetch pending requests' }, { status: 500 });
   }
 
+  // The event form and attach dialog offer only tribes the user may host as
+  const tribes = (memberships || []).map((m) => ({
+    ...m,
+    can_create_events: !!m.tribes && hasTribePermission(m.tribes, m, user.id, 'create_events'),
+  }));
+
   return NextResponse.json({
-    tribes: memberships || [],
+    tribes,
     pending_requests: pendingRequests || [],
   });
 }
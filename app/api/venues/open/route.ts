@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isVenueOpenAt, parseVenueDateTime } from "@/lib/venues/hours";
+
+/**
+ * GET /api/venues/open - IDs of venues open right now
+ * GET /api/venues/open?at=2026-11-20T19:30 - IDs of venues open at a Đà Lạt time
+ *
+ * Hours are evaluated here rather than in the browser so the result doesn't
+ * depend on the visitor's clock or timezone.
+ */
+export async function GET(request: NextRequest) {
+  const atParam = request.nextUrl.searchParams.get("at");
+  const at = atParam ? parseVenueDateTime(atParam) : new Date();
+
+  if (!at) {
+    return NextResponse.json({ error: "Invalid time" }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: venues, error } = await supabase
+    .from("venues")
+    .select("id, operating_hours, hours_exceptions");
+
+  if (error) {
+    console.error("Open venues error:", error);
+    return NextResponse.json({ error: "Failed to load venues" }, { status: 500 });
+  }
+
+  const venueIds = (venues ?? []).filter((venue) => isVenueOpenAt(venue, at)).map((venue) => venue.id);
+
+  // "Now" goes stale quickly; a fixed time only changes when hours are edited
+  const cacheMaxAge = atParam ? 300 : 60;
+
+  return NextResponse.json(
+    { at: at.toISOString(), venueIds },
+    {
+      headers: {
+        "Cache-Control": `public, s-maxage=${cacheMaxAge}, stale-while-revalidate=${cacheMaxAge * 2}`,
+      },
+    }
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Calendar, Copy, GitMerge, Loader2, MapPin, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import type { DuplicateSignals } from "@/lib/import/duplicates";
+
+interface PairEvent {
+  id: string;
+  slug: string;
+  title: string;
+  starts_at: string;
+  status: string;
+  source_platform: string | null;
+  location_name: string | null;
+  image_url: string | null;
+  description: string | null;
+}
+
+interface DuplicatePair {
+  id: string;
+  score: number;
+  signals: DuplicateSignals;
+  event: PairEvent;
+  duplicate_of: PairEvent;
+  suggested_keep_id: string;
+}
+
+async function fetchPairs(): Promise<DuplicatePair[]> {
+  const response = await fetch("/api/import/duplicates");
+  if (!response.ok) return [];
+  const data = await response.json();
+  return data.pairs ?? [];
+}
+
+function signalChips(signals: DuplicateSignals): string[] {
+  const chips = [`Title ${Math.round(signals.title * 100)}%`];
+  chips.push(signals.minutes_apart === 0 ? "Same start" : `${signals.minutes_apart} min apart`);
+  if (signals.distance_m !== null) chips.push(`${signals.distance_m} m apart`);
+  else if (signals.venue === 1) chips.push("Same venue");
+  else if (signals.venue !== null && signals.venue > 0) chips.push("Similar location");
+  if (signals.organizer === 1) chips.push("Same organizer");
+  if (signals.organizer === 0) chips.push("Different organizer");
+  return chips;
+}
+
+function EventSide({
+  event,
+  suggested,
+  disabled,
+  onKeep,
+}: {
+  event: PairEvent;
+  suggested: boolean;
+  disabled: boolean;
+  onKeep: () => void;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex-1 min-w-0 rounded-lg border p-3 space-y-2",
+        suggested && "border-primary/40 bg-primary/5"
+      )}
+    >
+      <div className="flex items-start gap-3">
+        {event.image_url && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={event.image_url} alt="" className="w-14 h-14 rounded object-cover shrink-0" />
+        )}
+        <div className="min-w-0">
+          <a
+            href={`/events/${event.slug}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium hover:underline line-clamp-2"
+          >
+            {event.title}
+          </a>
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground mt-1">
+            <span className="px-1.5 py-0.5 rounded bg-muted font-medium">
+              {event.source_platform ?? "manual"}
+            </span>
+            {event.status !== "published" && <span>{event.status}</span>}
+            <span className="flex items-center gap-1">
+              <Calendar className="w-3 h-3" />
+              {formatInDaLat(event.starts_at, "dd/MM HH:mm")}
+            </span>
+            {event.location_name && (
+              <span className="flex items-center gap-1 min-w-0">
+                <MapPin className="w-3 h-3 shrink-0" />
+                <span className="truncate">{event.location_name}</span>
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {event.description ? `${event.description.trim().length} character description` : "No description"}
+      </p>
+      <Button
+        size="sm"
+        variant={suggested ? "default" : "outline"}
+        className="w-full"
+        disabled={disabled}
+        onClick={onKeep}
+      >
+        <GitMerge className="w-4 h-4 mr-1.5" />
+        Keep this one{suggested && " (suggested)"}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Probable duplicates queued by the importers. Merging keeps the chosen
+ * event, copies over anything richer from the other one and redirects the
+ * other's URL; dismissing marks the pair as distinct events.
+ */
+export function DuplicateReviewQueue() {
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPairs().then((loaded) => {
+      if (!cancelled) setPairs(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const review = async (pair: DuplicatePair, action: "merge" | "dismiss", keepEventId?: string) => {
+    setBusyId(pair.id);
+    setError(null);
+    try {
+      const response = await fetch("/api/import/duplicates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ candidateId: pair.id, action, keepEventId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Review failed");
+        return;
+      }
+      // A merge also drops any other pairs involving the removed event
+      const removedId =
+        action === "merge"
+          ? keepEventId === pair.event.id
+            ? pair.duplicate_of.id
+            : pair.event.id
+          : null;
+      setPairs((prev) =>
+        (prev ?? []).filter(
+          (p) =>
+            p.id !== pair.id &&
+            (!removedId || (p.event.id !== removedId && p.duplicate_of.id !== removedId))
+        )
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (pairs === null) {
+    return (
+      <div className="text-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin mx-auto text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (pairs.length === 0) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <div className="w-16 h-16 mx-auto rounded-full bg-muted flex items-center justify-center">
+          <Copy className="w-8 h-8 text-muted-foreground" />
+        </div>
+        <p className="font-medium">No probable duplicates</p>
+        <p className="text-sm text-muted-foreground">
+          Imports that look like an existing event will show up here
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {pairs.map((pair) => (
+        <div key={pair.id} className="rounded-lg border p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-700 dark:text-amber-400 font-medium">
+              {Math.round(pair.score * 100)}% match
+            </span>
+            {signalChips(pair.signals).map((chip) => (
+              <span key={chip} className="px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                {chip}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3">
+            {[pair.duplicate_of, pair.event].map((event) => (
+              <EventSide
+                key={event.id}
+                event={event}
+                suggested={event.id === pair.suggested_keep_id}
+                disabled={busyId !== null}
+                onKeep={() => review(pair, "merge", event.id)}
+              />
+            ))}
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={busyId !== null}
+            onClick={() => review(pair, "dismiss")}
+          >
+            {busyId === pair.id ? (
+              <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+            ) : (
+              <X className="w-4 h-4 mr-1.5" />
+            )}
+            Not a duplicate
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
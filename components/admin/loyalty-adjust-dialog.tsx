@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Check, Loader2 } from "lucide-react";
+import { describeAnomaly, parseAdjustment } from "@/lib/loyalty/adjustments";
+import type { LoyaltyAnomalyFlag } from "@/lib/types";
+
+interface LedgerEntry {
+  id: string;
+  activity_type: string;
+  points_delta: number;
+  admin_note: string | null;
+  created_at: string;
+}
+
+interface LoyaltyAdjustDialogProps {
+  userId: string;
+  userName: string;
+  balance: number;
+  flags: LoyaltyAnomalyFlag[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_authorized: "You don't have permission to adjust points",
+  invalid_points: "Enter a whole number of points, e.g. +50 or -20 (not 0)",
+  reason_required: "A reason of at least 3 characters is required",
+  user_not_found: "User not found",
+};
+
+async function fetchLedger(userId: string): Promise<LedgerEntry[]> {
+  const supabase = createClient();
+  const { data } = await supabase
+    .from("loyalty_point_transactions")
+    .select("id, activity_type, points_delta, admin_note, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(20);
+  return (data ?? []) as LedgerEntry[];
+}
+
+/**
+ * Admin review of one user's loyalty points: open anomaly flags, the latest
+ * ledger entries, and a bonus/penalty form that always records a reason.
+ */
+export function LoyaltyAdjustDialog({
+  userId,
+  userName,
+  balance,
+  flags,
+  open,
+  onOpenChange,
+}: LoyaltyAdjustDialogProps) {
+  const router = useRouter();
+  const [ledger, setLedger] = useState<LedgerEntry[] | null>(null);
+  const [points, setPoints] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetchLedger(userId).then((entries) => {
+      if (!cancelled) setLedger(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId]);
+
+  const handleAdjust = async () => {
+    setError(null);
+    setSaved(false);
+    const parsed = parseAdjustment(points, reason);
+    if (!parsed.ok) {
+      setError(ERROR_MESSAGES[parsed.error]);
+      return;
+    }
+
+    setSaving(true);
+    const supabase = createClient();
+    const { data, error: rpcError } = await supabase.rpc("admin_adjust_loyalty_points", {
+      p_user_id: userId,
+      p_points: parsed.points,
+      p_reason: parsed.reason,
+    });
+    setSaving(false);
+
+    if (rpcError) {
+      console.error("Failed to adjust points:", rpcError);
+      setError("Database error: " + rpcError.message);
+      return;
+    }
+    if (!data?.ok) {
+      const errorKey = data?.error || "unknown";
+      setError(ERROR_MESSAGES[errorKey] || `Error: ${errorKey}`);
+      return;
+    }
+
+    setPoints("");
+    setReason("");
+    setSaved(true);
+    setLedger(await fetchLedger(userId));
+    router.refresh();
+  };
+
+  const handleResolve = async (flagId: string) => {
+    setResolving(flagId);
+    const supabase = createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const { error: updateError } = await supabase
+      .from("loyalty_anomaly_flags")
+      .update({ resolved_at: new Date().toISOString(), resolved_by: user?.id ?? null })
+      .eq("id", flagId);
+    setResolving(null);
+
+    if (updateError) {
+      console.error("Failed to resolve flag:", updateError);
+      setError("Failed to resolve flag");
+      return;
+    }
+    router.refresh();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Loyalty points: {userName}</DialogTitle>
+          <DialogDescription>Current balance: {balance} pts</DialogDescription>
+        </DialogHeader>
+
+        {flags.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Open flags</h3>
+            {flags.map((flag) => (
+              <div
+                key={flag.id}
+                className="flex items-center gap-2 rounded-md border border-amber-500/30 bg-amber-500/5 p-2 text-sm"
+              >
+                <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{describeAnomaly(flag)}</div>
+                  <div className="text-xs text-muted-foreground">{flag.flagged_on}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleResolve(flag.id)}
+                  disabled={resolving === flag.id}
+                >
+                  {resolving === flag.id ? <Loader2 className="w-4 h-4 animate-spin" /> : "Resolve"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Adjust points</h3>
+          <Input
+            inputMode="numeric"
+            placeholder="+50 or -20"
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+          />
+          <Textarea
+            placeholder="Reason (required, kept in the ledger)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            maxLength={500}
+          />
+          <div className="flex items-center gap-2">
+            <Button onClick={handleAdjust} disabled={saving} size="sm">
+              {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              Apply
+            </Button>
+            {saved && (
+              <span className="flex items-center gap-1 text-xs text-green-600">
+                <Check className="w-3 h-3" />
+                Saved
+              </span>
+            )}
+            {error && <span className="text-xs text-red-600">{error}</span>}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">Recent ledger</h3>
+          {ledger === null ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : ledger.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No points yet</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {ledger.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-2 py-1.5">
+                  <span
+                    className={`w-14 shrink-0 text-right tabular-nums font-medium ${
+                      entry.points_delta < 0 ? "text-red-600" : "text-green-600"
+                    }`}
+                  >
+                    {entry.points_delta > 0 ? "+" : ""}
+                    {entry.points_delta}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div>{entry.activity_type}</div>
+                    {entry.admin_note && (
+                      <div className="text-xs text-muted-foreground">{entry.admin_note}</div>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {new Date(entry.created_at).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,416 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertTriangle,
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  FlaskConical,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { NewsSourceRow } from "@/lib/news/sources";
+import type { ArticleRejection, SourceDryRun } from "@/lib/news/types";
+
+interface SourceForm {
+  id: string;
+  name: string;
+  baseUrl: string;
+  discoveryUrl: string;
+  linkPattern: string;
+  excludeLinks: string;
+  contentClasses: string;
+  maxArticles: string;
+  requestDelay: string;
+  enabled: boolean;
+}
+
+const REJECTION_LABELS: Record<ArticleRejection, string> = {
+  fetch_failed: "Page could not be fetched",
+  no_title: "No title found",
+  no_content: "No content matched the content classes",
+  not_dalat: "Not about Đà Lạt (skipped on purpose)",
+};
+
+const BLANK_FORM: SourceForm = {
+  id: "",
+  name: "",
+  baseUrl: "https://",
+  discoveryUrl: "https://",
+  linkPattern: 'href="(/[^"]*-\\d+\\.html)"',
+  excludeLinks: "/tag/",
+  contentClasses: "",
+  maxArticles: "20",
+  requestDelay: "700",
+  enabled: true,
+};
+
+function toForm(row: NewsSourceRow): SourceForm {
+  return {
+    id: row.id,
+    name: row.name,
+    baseUrl: row.base_url,
+    discoveryUrl: row.discovery_url,
+    linkPattern: row.link_pattern,
+    excludeLinks: row.exclude_links.join(", "),
+    contentClasses: row.content_classes.join(", "),
+    maxArticles: String(row.max_articles),
+    requestDelay: String(row.request_delay_ms),
+    enabled: row.enabled,
+  };
+}
+
+function toPayload(form: SourceForm) {
+  const split = (value: string) =>
+    value
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+  return {
+    id: form.id,
+    name: form.name,
+    baseUrl: form.baseUrl,
+    discoveryUrl: form.discoveryUrl,
+    linkPattern: form.linkPattern,
+    excludeLinks: split(form.excludeLinks),
+    contentClasses: split(form.contentClasses),
+    maxArticles: Number(form.maxArticles),
+    requestDelay: Number(form.requestDelay),
+    enabled: form.enabled,
+  };
+}
+
+function DryRunResult({ result }: { result: SourceDryRun }) {
+  if (result.discoveryStatus === "fetch_failed") {
+    return (
+      <p className="flex items-center gap-2 text-sm text-destructive">
+        <XCircle className="w-4 h-4" />
+        The discovery page could not be fetched
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <p className={cn("font-medium", result.links.length === 0 && "text-destructive")}>
+          {result.links.length} article links found
+        </p>
+        {result.links.length > 0 && (
+          <ul className="mt-1 max-h-32 overflow-y-auto text-xs text-muted-foreground space-y-0.5">
+            {result.links.map((link) => (
+              <li key={link} className="truncate">
+                {link}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {result.articles.map((article) => (
+        <div
+          key={article.url}
+          className={cn(
+            "rounded-md border p-2 space-y-1",
+            article.rejected && article.rejected !== "not_dalat" && "border-destructive/50"
+          )}
+        >
+          <p className="truncate text-xs text-muted-foreground">{article.url}</p>
+          {article.rejected ? (
+            <p className="flex items-center gap-1.5 text-xs text-destructive">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {REJECTION_LABELS[article.rejected]}
+            </p>
+          ) : (
+            <p className="flex items-center gap-1.5 text-xs text-green-600">
+              <CheckCircle className="w-3.5 h-3.5" />
+              Would be scraped
+            </p>
+          )}
+          <dl className="grid grid-cols-[6rem_1fr] gap-x-2 gap-y-0.5 text-xs">
+            <dt className="text-muted-foreground">Title</dt>
+            <dd>{article.title ?? "—"}</dd>
+            <dt className="text-muted-foreground">Content</dt>
+            <dd>
+              {article.contentLength} chars via{" "}
+              {article.contentClass ? <code>.{article.contentClass}</code> : "og:description fallback"}
+            </dd>
+            <dt className="text-muted-foreground">Date</dt>
+            <dd>{article.publishedAt ?? "—"}</dd>
+            <dt className="text-muted-foreground">Images</dt>
+            <dd>{article.imageUrls.length}</dd>
+          </dl>
+          {article.contentPreview && (
+            <p className="text-xs text-muted-foreground line-clamp-3">{article.contentPreview}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SourceEditor({
+  row,
+  onCancelNew,
+}: {
+  row: NewsSourceRow | null;
+  onCancelNew?: () => void;
+}) {
+  const router = useRouter();
+  const isNew = row === null;
+  const [form, setForm] = useState<SourceForm>(row ? toForm(row) : BLANK_FORM);
+  const [open, setOpen] = useState(isNew);
+  const [busy, setBusy] = useState<"save" | "dryRun" | "delete" | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [dryRun, setDryRun] = useState<SourceDryRun | null>(null);
+
+  const update = (field: keyof SourceForm, value: string | boolean) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const send = async (url: string, method: string) => {
+    setProblems([]);
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toPayload(form)),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setProblems(data.problems ?? [data.error ?? "Request failed"]);
+      return null;
+    }
+    return data;
+  };
+
+  const handleDryRun = async () => {
+    setBusy("dryRun");
+    setDryRun(null);
+    const data = await send("/api/admin/news-sources/dry-run", "POST");
+    if (data) setDryRun(data as SourceDryRun);
+    setBusy(null);
+  };
+
+  const handleSave = async () => {
+    setBusy("save");
+    const data = await send("/api/admin/news-sources", "PUT");
+    setBusy(null);
+    if (data) {
+      if (isNew) onCancelNew?.();
+      router.refresh();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!row || !confirm(`Delete the ${row.name} source?`)) return;
+    setBusy("delete");
+    const response = await fetch(`/api/admin/news-sources?id=${encodeURIComponent(row.id)}`, {
+      method: "DELETE",
+    });
+    setBusy(null);
+    if (response.ok) router.refresh();
+  };
+
+  // Toggling saves only the switch, not any unsaved edits in the form
+  const handleToggle = async (enabled: boolean) => {
+    update("enabled", enabled);
+    if (isNew) return;
+    setBusy("save");
+    const response = await fetch("/api/admin/news-sources", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...toPayload(toForm(row)), enabled }),
+    });
+    setBusy(null);
+    if (response.ok) router.refresh();
+  };
+
+  const broken = row?.last_yield === 0;
+
+  return (
+    <Card id={row?.id} className={cn(broken && "border-destructive/50")}>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch
+            checked={form.enabled}
+            onCheckedChange={handleToggle}
+            disabled={busy !== null}
+            aria-label="Enabled"
+          />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">{isNew ? "New source" : row.name}</p>
+            {row && (
+              <p className={cn("text-xs", broken ? "text-destructive" : "text-muted-foreground")}>
+                {row.last_run_at
+                  ? `Last run ${formatDistanceToNow(new Date(row.last_run_at), { addSuffix: true })}: ${row.last_link_count ?? 0} links → ${row.last_yield ?? 0} articles`
+                  : "Not scraped yet"}
+              </p>
+            )}
+          </div>
+          {!isNew && (
+            <Button variant="ghost" size="sm" onClick={() => setOpen(!open)}>
+              {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </Button>
+          )}
+        </div>
+
+        {open && (
+          <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>ID</Label>
+                <Input
+                  value={form.id}
+                  onChange={(e) => update("id", e.target.value)}
+                  disabled={!isNew}
+                  placeholder="baolamdong"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={form.name} onChange={(e) => update("name", e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Base URL</Label>
+                <Input value={form.baseUrl} onChange={(e) => update("baseUrl", e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Discovery URL</Label>
+                <Input
+                  value={form.discoveryUrl}
+                  onChange={(e) => update("discoveryUrl", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Link pattern</Label>
+              <Input
+                value={form.linkPattern}
+                onChange={(e) => update("linkPattern", e.target.value)}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                Regex over the discovery page HTML; the first capture group is the article URL
+                (relative URLs are joined to the base URL)
+              </p>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Skip links containing</Label>
+                <Input
+                  value={form.excludeLinks}
+                  onChange={(e) => update("excludeLinks", e.target.value)}
+                  placeholder="/tag/, /video/"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Content classes</Label>
+                <Input
+                  value={form.contentClasses}
+                  onChange={(e) => update("contentClasses", e.target.value)}
+                  placeholder="detail-content, article-body"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Max articles per run</Label>
+                <Input
+                  inputMode="numeric"
+                  value={form.maxArticles}
+                  onChange={(e) => update("maxArticles", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Delay between requests (ms)</Label>
+                <Input
+                  inputMode="numeric"
+                  value={form.requestDelay}
+                  onChange={(e) => update("requestDelay", e.target.value)}
+                />
+              </div>
+            </div>
+
+            {problems.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={handleDryRun} disabled={busy !== null}>
+                {busy === "dryRun" ? (
+                  <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+                ) : (
+                  <FlaskConical className="w-4 h-4 mr-1.5" />
+                )}
+                Dry run
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={busy !== null}>
+                {busy === "save" ? (
+                  <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-1.5" />
+                )}
+                Save
+              </Button>
+              {isNew ? (
+                <Button variant="ghost" size="sm" onClick={onCancelNew}>
+                  Cancel
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive ml-auto"
+                  onClick={handleDelete}
+                  disabled={busy !== null}
+                >
+                  <Trash2 className="w-4 h-4 mr-1.5" />
+                  Delete
+                </Button>
+              )}
+            </div>
+
+            {dryRun && <DryRunResult result={dryRun} />}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Admin editor for the news scraper's source definitions. A dry run tests
+ * the form as typed against the live site before anything is saved.
+ */
+export function NewsSourcesManager({ sources }: { sources: NewsSourceRow[] }) {
+  const [adding, setAdding] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      {sources.map((row) => (
+        <SourceEditor key={row.id} row={row} />
+      ))}
+      {adding ? (
+        <SourceEditor row={null} onCancelNew={() => setAdding(false)} />
+      ) : (
+        <Button variant="outline" onClick={() => setAdding(true)}>
+          <Plus className="w-4 h-4 mr-1.5" />
+          Add source
+        </Button>
+      )}
+    </div>
+  );
+}
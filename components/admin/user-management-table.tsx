@@ -6,9 +6,10 @@ import { createClient } from "@/lib/supabase/client";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Search, User, Loader2, CheckCircle, XCircle, Eye, PenLine, ChevronUp, ChevronDown, ChevronsUpDown } from "lucide-react";
+import { Search, User, Loader2, CheckCircle, XCircle, Eye, PenLine, ChevronUp, ChevronDown, ChevronsUpDown, AlertTriangle } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
-import type { Profile, UserRole } from "@/lib/types";
+import { LoyaltyAdjustDialog } from "@/components/admin/loyalty-adjust-dialog";
+import type { LoyaltyAnomalyFlag, Profile, UserRole } from "@/lib/types";
 
 interface UpdateStatus {
   type: "success" | "error";
@@ -23,9 +24,15 @@ interface UserAuthData {
   login_count: number;
 }
 
+export interface UserLoyaltyData {
+  balance: number;
+  openFlags: LoyaltyAnomalyFlag[];
+}
+
 interface UserManagementTableProps {
   users: Profile[];
   authDataMap: Map<string, UserAuthData>;
+  loyaltyMap: Map<string, UserLoyaltyData>;
   canImpersonate?: boolean;
   currentUserId?: string;
 }
@@ -74,6 +81,7 @@ const ERROR_MESSAGES: Record<string, string> = {
 export function UserManagementTable({
   users,
   authDataMap,
+  loyaltyMap,
   canImpersonate = false,
   currentUserId,
 }: UserManagementTableProps) {
@@ -85,6 +93,8 @@ export function UserManagementTable({
   const [impersonating, setImpersonating] = useState<string | null>(null);
   const [sortColumn, setSortColumn] = useState<SortColumn>("joined");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [loyaltyUserId, setLoyaltyUserId] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
 
   const handleImpersonate = async (targetUserId: string) => {
     setImpersonating(targetUserId);
@@ -121,7 +131,10 @@ export function UserManagementTable({
     }
   };
 
+  const flaggedCount = users.filter((u) => (loyaltyMap.get(u.id)?.openFlags.length ?? 0) > 0).length;
+
   const filteredUsers = users.filter((user) => {
+    if (flaggedOnly && !loyaltyMap.get(user.id)?.openFlags.length) return false;
     const searchLower = search.toLowerCase();
     return (
       user.username?.toLowerCase().includes(searchLower) ||
@@ -309,6 +322,19 @@ export function UserManagementTable({
         <Badge variant="outline" className={ROLE_COLORS.organizer_pending}>
           {users.filter((u) => u.role === "organizer_pending").length} pending
         </Badge>
+        {flaggedCount > 0 && (
+          <button type="button" onClick={() => setFlaggedOnly(!flaggedOnly)}>
+            <Badge
+              variant="outline"
+              className={`gap-1 bg-amber-500/10 text-amber-600 border-amber-500/20 ${
+                flaggedOnly ? "ring-2 ring-amber-500/40" : ""
+              }`}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {flaggedCount} loyalty flags
+            </Badge>
+          </button>
+        )}
       </div>
 
       {/* User List */}
@@ -323,6 +349,7 @@ export function UserManagementTable({
               <th className="text-center p-3 font-medium text-sm hidden sm:table-cell">
                 Blog
               </th>
+              <th className="text-left p-3 font-medium text-sm hidden md:table-cell">Points</th>
               <SortableHeader column="logins" className="text-left hidden md:table-cell">
                 Logins
               </SortableHeader>
@@ -442,6 +469,19 @@ export function UserManagementTable({
                     )}
                   </div>
                 </td>
+                <td className="p-3 hidden md:table-cell">
+                  <button
+                    type="button"
+                    onClick={() => setLoyaltyUserId(user.id)}
+                    className="flex items-center gap-1.5 text-sm font-medium hover:underline"
+                    title="Review and adjust loyalty points"
+                  >
+                    {loyaltyMap.get(user.id)?.balance ?? 0}
+                    {(loyaltyMap.get(user.id)?.openFlags.length ?? 0) > 0 && (
+                      <AlertTriangle className="w-4 h-4 text-amber-500" />
+                    )}
+                  </button>
+                </td>
                 <td className="p-3 hidden md:table-cell">
                   <div className="text-sm font-medium">
                     {authDataMap.get(user.id)?.login_count ?? "—"}
@@ -477,6 +517,20 @@ export function UserManagementTable({
           </div>
         )}
       </div>
+
+      {loyaltyUserId && (
+        <LoyaltyAdjustDialog
+          userId={loyaltyUserId}
+          userName={(() => {
+            const target = users.find((u) => u.id === loyaltyUserId);
+            return target?.display_name || target?.username || "Anonymous";
+          })()}
+          balance={loyaltyMap.get(loyaltyUserId)?.balance ?? 0}
+          flags={loyaltyMap.get(loyaltyUserId)?.openFlags ?? []}
+          open
+          onOpenChange={(open) => !open && setLoyaltyUserId(null)}
+        />
+      )}
     </div>
   );
 }
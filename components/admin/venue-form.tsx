@@ -2,7 +2,7 @@
 
 import { useState, useTransition, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { ChevronDown, Users, Trash2, AlertTriangle } from "lucide-react";
+import { ChevronDown, Users, Trash2, AlertTriangle, Plus, X } from "lucide-react";
 import { createClient } from "@/lib/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,7 +16,16 @@ import { PlaceAutocomplete } from "@/components/events/place-autocomplete";
 import { VenueManagersSection } from "@/components/admin/venue-managers-section";
 import { VENUE_TYPES, VENUE_TYPE_CONFIG } from "@/lib/constants/venue-types";
 import { triggerTranslation } from "@/lib/translations-client";
-import type { Venue, VenueType, OperatingHours, Organizer } from "@/lib/types";
+import { normalizeDayHours } from "@/lib/venues/hours";
+import type {
+  Venue,
+  VenueType,
+  OperatingHours,
+  Organizer,
+  HoursException,
+  HoursExceptionRecurrence,
+  TimeRange,
+} from "@/lib/types";
 import { sanitizeSlug, suggestSlug, finalizeSlug } from "@/lib/utils";
 import { useUnifiedSlugCheck, type SlugStatus } from "@/lib/hooks/use-unified-slug-check";
 
@@ -44,6 +53,67 @@ const DEFAULT_HOURS: OperatingHours = {
   sunday: { open: "09:00", close: "22:00" },
 };
 
+const DEFAULT_RANGE: TimeRange = { open: "09:00", close: "22:00" };
+
+const RECURRENCE_OPTIONS: { value: HoursExceptionRecurrence; label: string }[] = [
+  { value: "once", label: "These dates only" },
+  { value: "yearly", label: "Every year" },
+  { value: "monthly_weekday", label: "Same weekday every month" },
+];
+
+// Time inputs for one day's opening ranges (split shifts, past-midnight closes)
+function TimeRangesEditor({
+  ranges,
+  onChange,
+}: {
+  ranges: TimeRange[];
+  onChange: (ranges: TimeRange[]) => void;
+}) {
+  const updateRange = (index: number, field: keyof TimeRange, value: string) => {
+    onChange(ranges.map((range, i) => (i === index ? { ...range, [field]: value } : range)));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {ranges.map((range, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            type="time"
+            value={range.open}
+            onChange={(e) => updateRange(index, "open", e.target.value)}
+            className="w-32"
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            type="time"
+            value={range.close}
+            onChange={(e) => updateRange(index, "close", e.target.value)}
+            className="w-32"
+          />
+          {ranges.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+              className="p-1.5 hover:bg-muted rounded"
+              aria-label="Remove hours"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...ranges, { open: "17:00", close: "22:00" }])}
+        className="flex items-center gap-1 text-xs text-primary hover:underline self-start"
+      >
+        <Plus className="w-3 h-3" />
+        Add hours
+      </button>
+    </div>
+  );
+}
+
 export function VenueForm({ venue }: VenueFormProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -66,6 +136,9 @@ export function VenueForm({ venue }: VenueFormProps) {
   const [operatingHours, setOperatingHours] = useState<OperatingHours>(
     venue?.operating_hours ?? DEFAULT_HOURS
   );
+  const [hoursExceptions, setHoursExceptions] = useState<HoursException[]>(
+    venue?.hours_exceptions ?? []
+  );
 
   // Linked organizer
   const [organizerId, setOrganizerId] = useState<string | null>(venue?.organizer_id ?? null);
@@ -121,28 +194,35 @@ export function VenueForm({ venue }: VenueFormProps) {
     setSlugTouched(true);
   };
 
-  // Update operating hours for a specific day
-  const updateDayHours = (
-    day: keyof OperatingHours,
-    field: "open" | "close" | "closed",
-    value: string | boolean
-  ) => {
-    setOperatingHours((prev) => {
-      if (field === "closed") {
-        return {
-          ...prev,
-          [day]: value ? "closed" : { open: "09:00", close: "22:00" },
-        };
-      }
-      const current = prev[day];
-      if (current === "closed" || !current) {
-        return prev;
-      }
-      return {
-        ...prev,
-        [day]: { ...current, [field]: value },
-      };
-    });
+  // Update operating hours for a specific day (closed, or one or more ranges)
+  const updateDayHours = (day: keyof OperatingHours, value: TimeRange[] | "closed") => {
+    setOperatingHours((prev) => ({
+      ...prev,
+      [day]: value === "closed" || value.length === 0 ? "closed" : value,
+    }));
+  };
+
+  const addException = () => {
+    setHoursExceptions((prev) => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        label: null,
+        starts_on: "",
+        ends_on: null,
+        recurrence: "once",
+        closed: true,
+        ranges: [],
+      },
+    ]);
+  };
+
+  const updateException = (id: string, patch: Partial<HoursException>) => {
+    setHoursExceptions((prev) => prev.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  };
+
+  const removeException = (id: string) => {
+    setHoursExceptions((prev) => prev.filter((e) => e.id !== id));
   };
 
   // Check for linked events when delete is initiated
@@ -286,6 +366,15 @@ export function VenueForm({ venue }: VenueFormProps) {
         email: email || null,
         price_range: priceRange || null,
         operating_hours: operatingHours,
+        // Special dates without a start date can't match anything
+        hours_exceptions: hoursExceptions
+          .filter((e) => e.starts_on)
+          .map((e) => ({
+            ...e,
+            label: e.label?.trim() || null,
+            ends_on: e.ends_on && e.ends_on >= e.starts_on ? e.ends_on : null,
+            ranges: e.closed ? [] : e.ranges,
+          })),
         is_verified: isVerified,
         has_wifi: hasWifi,
         has_parking: hasParking,
@@ -566,40 +655,122 @@ export function VenueForm({ venue }: VenueFormProps) {
           <div className="p-6 space-y-3">
             {DAYS.map((day) => {
               const hours = operatingHours[day];
-              const isClosed = hours === "closed";
+              const isClosed = !hours || hours === "closed";
 
               return (
-                <div key={day} className="flex items-center gap-4">
-                  <span className="w-24 capitalize text-sm">{day}</span>
-                  <label className="flex items-center gap-2">
+                <div key={day} className="flex items-start gap-4">
+                  <span className="w-24 capitalize text-sm pt-2">{day}</span>
+                  <label className="flex items-center gap-2 pt-2">
                     <input
                       type="checkbox"
                       checked={isClosed}
-                      onChange={(e) => updateDayHours(day, "closed", e.target.checked)}
+                      onChange={(e) => updateDayHours(day, e.target.checked ? "closed" : [DEFAULT_RANGE])}
                       className="h-4 w-4 rounded border-input"
                     />
                     <span className="text-sm text-muted-foreground">Closed</span>
                   </label>
-                  {!isClosed && typeof hours === "object" && (
-                    <>
-                      <Input
-                        type="time"
-                        value={hours.open}
-                        onChange={(e) => updateDayHours(day, "open", e.target.value)}
-                        className="w-32"
-                      />
-                      <span className="text-muted-foreground">to</span>
-                      <Input
-                        type="time"
-                        value={hours.close}
-                        onChange={(e) => updateDayHours(day, "close", e.target.value)}
-                        className="w-32"
-                      />
-                    </>
+                  {!isClosed && (
+                    <TimeRangesEditor
+                      ranges={normalizeDayHours(hours)}
+                      onChange={(ranges) => updateDayHours(day, ranges)}
+                    />
                   )}
                 </div>
               );
             })}
+            <p className="text-xs text-muted-foreground">
+              A closing time earlier than the opening time runs past midnight (e.g. 18:00 to 02:00).
+            </p>
+
+            {/* Special dates: closures and festival hours that replace the weekly hours */}
+            <div className="pt-4 border-t space-y-3">
+              <div>
+                <h3 className="font-medium text-sm">Special dates</h3>
+                <p className="text-xs text-muted-foreground">
+                  Holidays, festivals and recurring closures. Tết moves every year, so add it for each year&apos;s dates.
+                </p>
+              </div>
+              {hoursExceptions.map((exception) => (
+                <div key={exception.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={exception.label ?? ""}
+                      onChange={(e) => updateException(exception.id, { label: e.target.value })}
+                      placeholder="Label (e.g. Tết, Flower Festival)"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeException(exception.id)}
+                      className="p-1.5 hover:bg-muted rounded"
+                      aria-label="Remove special date"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={exception.recurrence}
+                      onChange={(e) =>
+                        updateException(exception.id, {
+                          recurrence: e.target.value as HoursExceptionRecurrence,
+                        })
+                      }
+                      className="h-9 px-3 text-sm border rounded-md bg-background"
+                    >
+                      {RECURRENCE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      type="date"
+                      value={exception.starts_on}
+                      onChange={(e) => updateException(exception.id, { starts_on: e.target.value })}
+                      className="w-40"
+                    />
+                    <span className="text-muted-foreground">
+                      {exception.recurrence === "monthly_weekday" ? "until" : "to"}
+                    </span>
+                    <Input
+                      type="date"
+                      value={exception.ends_on ?? ""}
+                      min={exception.starts_on || undefined}
+                      onChange={(e) => updateException(exception.id, { ends_on: e.target.value || null })}
+                      className="w-40"
+                    />
+                  </div>
+                  <div className="flex items-start gap-4">
+                    <label className="flex items-center gap-2 pt-2">
+                      <input
+                        type="checkbox"
+                        checked={exception.closed}
+                        onChange={(e) =>
+                          updateException(exception.id, {
+                            closed: e.target.checked,
+                            ranges: e.target.checked ? [] : [DEFAULT_RANGE],
+                          })
+                        }
+                        className="h-4 w-4 rounded border-input"
+                      />
+                      <span className="text-sm text-muted-foreground">Closed</span>
+                    </label>
+                    {!exception.closed && (
+                      <TimeRangesEditor
+                        ranges={exception.ranges}
+                        onChange={(ranges) =>
+                          updateException(exception.id, { ranges, closed: ranges.length === 0 })
+                        }
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={addException} className="gap-1">
+                <Plus className="w-4 h-4" />
+                Add special date
+              </Button>
+            </div>
           </div>
         </details>
 
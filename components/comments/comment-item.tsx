@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { MessageCircle, MoreHorizontal, Trash2, Pencil, BellOff, ChevronDown, ChevronUp, X, Send, Loader2 } from "lucide-react";
+import { MessageCircle, MoreHorizontal, Trash2, Pencil, BellOff, ChevronDown, ChevronUp, X, Send, Loader2, Pin, PinOff } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
@@ -44,6 +44,8 @@ interface CommentItemProps {
   onDelete?: (commentId: string) => Promise<void>;
   /** Callback to mute thread */
   onMuteThread?: (threadId: string) => Promise<void>;
+  /** Callback to pin/unpin (tribe posts; moderators only) */
+  onTogglePin?: (commentId: string, pinned: boolean) => Promise<void>;
   /** Replies to this comment */
   replies?: TranslatedComment[];
   /** Whether replies are loading */
@@ -80,6 +82,7 @@ export function CommentItem({
   onEdit,
   onDelete,
   onMuteThread,
+  onTogglePin,
   replies,
   repliesLoading = false,
   onLoadReplies,
@@ -106,6 +109,7 @@ export function CommentItem({
 
   const isOwnComment = currentUserId === comment.user_id;
   const canModerate = isContentOwner && !isOwnComment;
+  const canPin = isContentOwner && !isReply && !!onTogglePin;
   const showActions = isOwnComment || canModerate;
 
   const displayName = comment.display_name || comment.username || "Anonymous";
@@ -179,6 +183,11 @@ export function CommentItem({
     onMuteThread?.(comment.id);
   };
 
+  const handleTogglePin = () => {
+    triggerHaptic("selection");
+    onTogglePin?.(comment.id, !comment.is_pinned);
+  };
+
   return (
     <div className={`${isReply ? "pl-10" : ""} ${isPending ? "opacity-60" : ""}`}>
       <div className="flex gap-3">
@@ -193,6 +202,12 @@ export function CommentItem({
           {/* Header: name + time + actions */}
           <div className="flex items-start justify-between gap-2">
             <div className="flex items-center gap-2 flex-wrap">
+              {comment.is_pinned && !isReply && (
+                <span className="inline-flex items-center gap-1 text-xs font-medium text-primary">
+                  <Pin className="w-3 h-3" />
+                  {t("pinned")}
+                </span>
+              )}
               <span className="font-medium text-sm">{displayName}</span>
               <span className="text-xs text-muted-foreground">{relativeTime}</span>
               {comment.is_edited && (
@@ -226,6 +241,16 @@ export function CommentItem({
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
+                  {canPin && (
+                    <DropdownMenuItem onClick={handleTogglePin}>
+                      {comment.is_pinned ? (
+                        <PinOff className="w-4 h-4 mr-2" />
+                      ) : (
+                        <Pin className="w-4 h-4 mr-2" />
+                      )}
+                      {comment.is_pinned ? t("unpin") : t("pin")}
+                    </DropdownMenuItem>
+                  )}
                   {isOwnComment && onEdit && (
                     <DropdownMenuItem onClick={() => onEdit(comment.id, comment.content)}>
                       <Pencil className="w-4 h-4 mr-2" />
@@ -32,6 +32,8 @@ interface CommentListProps {
   onDelete?: (commentId: string) => Promise<void>;
   /** Callback to mute a thread */
   onMuteThread?: (threadId: string) => Promise<void>;
+  /** Callback to pin/unpin a top-level comment (tribe posts) */
+  onTogglePin?: (commentId: string, pinned: boolean) => Promise<void>;
   /** Callback to load replies for a comment */
   onLoadReplies?: (parentId: string) => Promise<CommentWithProfile[]>;
   /** Map of parent ID to loaded replies */
@@ -64,6 +66,7 @@ export function CommentList({
   onEdit,
   onDelete,
   onMuteThread,
+  onTogglePin,
   onLoadReplies,
   repliesMap,
   loadingReplies,
@@ -119,6 +122,7 @@ export function CommentList({
           onEdit={onEdit}
           onDelete={onDelete}
           onMuteThread={onMuteThread}
+          onTogglePin={onTogglePin}
           replies={repliesMap?.get(comment.id)}
           repliesLoading={loadingReplies?.has(comment.id)}
           onLoadReplies={() => handleLoadReplies(comment.id)}
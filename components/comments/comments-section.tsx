@@ -3,14 +3,16 @@
 import { useState, useEffect, useCallback } from "react";
 import { MessageCircle } from "lucide-react";
 import { useTranslations, useLocale } from "next-intl";
+import { toast } from "sonner";
 import { CommentList } from "./comment-list";
 import { CommentForm } from "./comment-form";
 import { CommentInvitation } from "./comment-invitation";
 import { triggerHaptic } from "@/lib/haptics";
+import { cn } from "@/lib/utils";
 import type { CommentWithProfile, CommentTargetType, Locale } from "@/lib/types";
 
 interface CommentsSectionProps {
-  /** Target type (event or moment) */
+  /** Target type (event, moment or tribe) */
   targetType: CommentTargetType;
   /** Target ID */
   targetId: string;
@@ -20,6 +22,15 @@ interface CommentsSectionProps {
   currentUserId?: string;
   /** Path to redirect back to after login (for anonymous users) */
   redirectPath?: string;
+  /** Overrides the owner check, e.g. tribe leaders/admins moderate the board */
+  canModerate?: boolean;
+  /** Whether the current user may comment (readers of a public tribe can't) */
+  canPost?: boolean;
+  /** Moderators can pin top-level comments (tribe announcements) */
+  allowPinning?: boolean;
+  /** Header title, defaults to "Comments" */
+  title?: string;
+  className?: string;
 }
 
 /**
@@ -32,6 +43,11 @@ export function CommentsSection({
   contentOwnerId,
   currentUserId,
   redirectPath,
+  canModerate,
+  canPost = true,
+  allowPinning = false,
+  title,
+  className,
 }: CommentsSectionProps) {
   const t = useTranslations("comments");
   const locale = useLocale() as Locale;
@@ -47,7 +63,8 @@ export function CommentsSection({
   const [offset, setOffset] = useState(0);
   const [totalCount, setTotalCount] = useState(0);
 
-  const isContentOwner = currentUserId === contentOwnerId;
+  const isContentOwner = canModerate ?? currentUserId === contentOwnerId;
+  const canComment = !!currentUserId && canPost;
   const limit = 20;
 
   // Create an optimistic comment for instant UI feedback
@@ -147,7 +164,11 @@ export function CommentsSection({
 
     // Optimistic update - add comment immediately
     const optimisticComment = createOptimisticComment(content);
-    setComments((prev) => [optimisticComment, ...prev]);
+    // New comments go below pinned announcements
+    setComments((prev) => {
+      const pinned = prev.filter((c) => c.is_pinned);
+      return [...pinned, optimisticComment, ...prev.filter((c) => !c.is_pinned)];
+    });
     setTotalCount((prev) => prev + 1);
     triggerHaptic("selection");
 
@@ -326,13 +347,35 @@ export function CommentsSection({
     }
   };
 
+  // Pin or unpin a tribe post, then refetch so pinned posts lead the list
+  const handleTogglePin = async (commentId: string, pinned: boolean) => {
+    try {
+      const response = await fetch(`/api/comments/${commentId}/pin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pinned }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error === "pin_limit_reached" ? t("pinLimitReached") : t("pinFailed"));
+        return;
+      }
+
+      triggerHaptic("medium");
+      await fetchComments(true);
+    } catch (error) {
+      console.error("[comments] Error pinning comment:", error);
+    }
+  };
+
   return (
-    <div className="mt-8 border-t pt-6">
+    <div className={cn("mt-8 border-t pt-6", className)}>
       {/* Header */}
       <div className="flex items-center gap-2 mb-4">
         <MessageCircle className="w-5 h-5 text-muted-foreground" />
         <h2 className="text-lg font-semibold">
-          {t("title")}
+          {title ?? t("title")}
           {totalCount > 0 && (
             <span className="ml-2 text-muted-foreground font-normal">
               ({totalCount})
@@ -342,12 +385,12 @@ export function CommentsSection({
       </div>
 
       {/* Comment form at top for new comments (not replies) */}
-      {currentUserId && !replyingTo && (
+      {canComment && !replyingTo && (
         <div className="mb-6">
           <CommentForm
             onSubmit={handleSubmit}
             disabled={submitting}
-            aiContext={`a comment on ${targetType === "event" ? "an event" : "a moment"}`}
+            aiContext={targetType === "tribe" ? "a post on a community board" : `a comment on ${targetType === "event" ? "an event" : "a moment"}`}
           />
         </div>
       )}
@@ -372,14 +415,15 @@ export function CommentsSection({
         isContentOwner={isContentOwner}
         replyingToId={replyingTo?.id}
         isSubmittingReply={submitting}
-        onReply={(comment) => {
+        onReply={canComment ? (comment) => {
           triggerHaptic("selection");
           setReplyingTo(comment);
-        }}
+        } : undefined}
         onSubmitReply={handleSubmitReply}
         onCancelReply={() => setReplyingTo(null)}
         onDelete={handleDelete}
         onMuteThread={handleMuteThread}
+        onTogglePin={allowPinning ? handleTogglePin : undefined}
         onLoadReplies={handleLoadReplies}
         repliesMap={repliesMap}
         loadingReplies={loadingReplies}
@@ -1,15 +1,43 @@
 "use client";
 
-import { useState, useMemo, useCallback, useTransition } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef, useTransition } from "react";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, Search, Check, X, UserCheck, Clock, UserX } from "lucide-react";
+import {
+  ArrowLeft,
+  Search,
+  Check,
+  X,
+  UserCheck,
+  Clock,
+  UserX,
+  List,
+  ScanLine,
+  WifiOff,
+  CloudUpload,
+  AlertTriangle,
+  Gift,
+} from "lucide-react";
 import { useTranslations } from "next-intl";
 import { Link } from "@/lib/i18n/routing";
 import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { UserAvatar } from "@/components/ui/user-avatar";
 import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import { verifyTicketCode, type Ticket } from "@/lib/checkin/tickets";
+import { normalizePerkCode } from "@/lib/loyalty/rewards";
+import {
+  enqueueCheckin,
+  getQueuedCheckins,
+  isOfflineQueueSupported,
+  queueKey,
+  removeQueuedCheckins,
+} from "@/lib/checkin/offline-queue";
+import type { CheckinSyncResult } from "@/app/api/events/[slug]/checkin/sync/route";
+import type { PlusOneGuest } from "@/lib/types";
 import type { CheckinAttendee } from "@/app/[locale]/events/[slug]/checkin/page";
+import { TicketScanner } from "./ticket-scanner";
 
 interface CheckinInterfaceProps {
   eventId: string;
@@ -17,6 +45,8 @@ interface CheckinInterfaceProps {
   eventTitle: string;
   capacity: number | null;
   attendees: CheckinAttendee[];
+  /** Per-event ticket key for offline signature checks; null when signing isn't configured */
+  checkinKey: string | null;
 }
 
 type AttendeeStatus = "checked_in" | "pending" | "no_show";
@@ -31,19 +61,299 @@ function getDisplayName(attendee: CheckinAttendee): string {
   return attendee.profiles?.display_name || attendee.profiles?.username || "Anonymous";
 }
 
+type Mode = "list" | "scan";
+
+interface ScanFeedback {
+  tone: "success" | "warning" | "error";
+  title: string;
+  detail?: string;
+}
+
+interface SyncConflict {
+  key: string;
+  name: string;
+  reason: string;
+}
+
+// Server answers that will never change on retry — drop these from the queue
+const FINAL_ERRORS = ["not_going", "ticket_not_found"];
+
+const SYNC_RETRY_MS = 15_000;
+
+function findTicketOwner(
+  attendees: CheckinAttendee[],
+  ticket: Pick<Ticket, "kind" | "id">
+): { attendee: CheckinAttendee; guest?: PlusOneGuest } | null {
+  for (const attendee of attendees) {
+    if (ticket.kind === "rsvp" && attendee.id === ticket.id) return { attendee };
+    if (ticket.kind === "guest") {
+      const guest = (attendee.plus_one_guests ?? []).find((g) => g.id === ticket.id);
+      if (guest) return { attendee, guest };
+    }
+  }
+  return null;
+}
+
+/** Set (or clear) the check-in time for one ticket in local state. */
+function withCheckin(
+  attendees: CheckinAttendee[],
+  ticket: Pick<Ticket, "kind" | "id">,
+  checkedInAt: string | null
+): CheckinAttendee[] {
+  return attendees.map((a) => {
+    if (ticket.kind === "rsvp") {
+      if (a.id !== ticket.id) return a;
+      return checkedInAt
+        ? { ...a, checked_in_at: checkedInAt, no_show_at: null }
+        : { ...a, checked_in_at: null, checked_in_by: null };
+    }
+    if (!(a.plus_one_guests ?? []).some((g) => g.id === ticket.id)) return a;
+    return {
+      ...a,
+      plus_one_guests: a.plus_one_guests.map((g) =>
+        g.id === ticket.id ? { ...g, checked_in_at: checkedInAt } : g
+      ),
+    };
+  });
+}
+
 export function CheckinInterface({
   eventId,
   eventSlug,
   eventTitle,
   capacity,
   attendees: initialAttendees,
+  checkinKey,
 }: CheckinInterfaceProps) {
   const t = useTranslations("checkin");
   const router = useRouter();
   const [attendees, setAttendees] = useState(initialAttendees);
   const [search, setSearch] = useState("");
+  const [mode, setMode] = useState<Mode>("list");
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [perkInput, setPerkInput] = useState("");
+  const [isRedeemingPerk, startPerkTransition] = useTransition();
+  const [pendingSync, setPendingSync] = useState(0);
+  const [isOnline, setIsOnline] = useState(true);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
   const [, startTransition] = useTransition();
 
+  // Latest roster for the scan/sync callbacks without re-binding them per change
+  const attendeesRef = useRef(attendees);
+  useEffect(() => {
+    attendeesRef.current = attendees;
+  }, [attendees]);
+
+  const flushingRef = useRef(false);
+
+  const nameFor = useCallback(
+    (ticket: Pick<Ticket, "kind" | "id">) => {
+      const owner = findTicketOwner(attendeesRef.current, ticket);
+      if (!owner) return t("unknownGuest");
+      return owner.guest
+        ? `${owner.guest.name} (${t("guestOf", { host: getDisplayName(owner.attendee) })})`
+        : getDisplayName(owner.attendee);
+    },
+    [t]
+  );
+
+  // Push queued scans to the server. Safe to call any time: overlapping
+  // calls are skipped, and anything that fails for network reasons stays
+  // queued for the next attempt.
+  const flushQueue = useCallback(async () => {
+    if (flushingRef.current || !isOfflineQueueSupported()) return;
+    flushingRef.current = true;
+
+    try {
+      const queued = await getQueuedCheckins(eventId);
+      setPendingSync(queued.length);
+      if (queued.length === 0 || !navigator.onLine) return;
+
+      const res = await fetch(`/api/events/${eventSlug}/checkin/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          checkins: queued.map(({ kind, id, scannedAt }) => ({ kind, id, scannedAt })),
+        }),
+      });
+      if (!res.ok) return;
+
+      const { results } = (await res.json()) as { results: CheckinSyncResult[] };
+      const done: string[] = [];
+      const newConflicts: SyncConflict[] = [];
+
+      for (const result of results) {
+        const key = queueKey(result.kind, result.id);
+        if (result.ok) {
+          done.push(key);
+          // The server keeps the earliest time across devices
+          setAttendees((prev) => withCheckin(prev, result, result.checked_in_at ?? null));
+        } else if (result.error && FINAL_ERRORS.includes(result.error)) {
+          done.push(key);
+          setAttendees((prev) => withCheckin(prev, result, null));
+          newConflicts.push({
+            key,
+            name: nameFor(result),
+            reason: result.error === "not_going" ? t("conflictNotGoing") : t("conflictUnknown"),
+          });
+        }
+      }
+
+      await removeQueuedCheckins(eventId, done);
+      setPendingSync(queued.length - done.length);
+      if (newConflicts.length > 0) {
+        setConflicts((prev) => [...newConflicts, ...prev]);
+      }
+    } catch {
+      // Offline or flaky — the queue is intact, try again later
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [eventId, eventSlug, nameFor, t]);
+
+  // Sync whatever a previous session left behind, and again on reconnect
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      void flushQueue();
+    };
+    const goOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    const initial = setTimeout(() => {
+      setIsOnline(navigator.onLine);
+      void flushQueue();
+    }, 0);
+
+    // Venue Wi-Fi often "connects" without passing traffic, so keep retrying
+    const retry = setInterval(() => void flushQueue(), SYNC_RETRY_MS);
+
+    return () => {
+      clearTimeout(initial);
+      clearInterval(retry);
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [flushQueue]);
+
+  // Loyalty perk codes are checked online only: spending one has to be atomic
+  const redeemPerk = useCallback(
+    async (code: string) => {
+      const supabase = createClient();
+      const { data, error } = await supabase.rpc("redeem_perk_code", {
+        p_event_id: eventId,
+        p_code: code,
+      });
+
+      if (error || !data) {
+        setFeedback({ tone: "error", title: t("perkFailed") });
+        return;
+      }
+      if (data.ok) {
+        setFeedback({
+          tone: "success",
+          title: t("perkRedeemed", { reward: data.reward_name }),
+          detail: data.member_name ?? undefined,
+        });
+        return;
+      }
+      if (data.error === "already_used") {
+        setFeedback({
+          tone: "warning",
+          title: t("perkAlreadyUsed", { reward: data.reward_name }),
+          detail: t("perkUsedAt", { time: formatInDaLat(data.used_at, "d MMM HH:mm") }),
+        });
+        return;
+      }
+      setFeedback({
+        tone: "error",
+        title: data.error === "wrong_host" ? t("perkWrongHost") : t("perkNotFound"),
+      });
+    },
+    [eventId, t]
+  );
+
+  const handleScan = useCallback(
+    async (code: string) => {
+      const perkCode = normalizePerkCode(code);
+      if (perkCode) {
+        await redeemPerk(perkCode);
+        return;
+      }
+
+      const ticket = checkinKey ? await verifyTicketCode(checkinKey, code) : null;
+      if (!ticket) {
+        setFeedback({ tone: "error", title: t("invalidTicket"), detail: t("invalidTicketHint") });
+        return;
+      }
+
+      const owner = findTicketOwner(attendeesRef.current, ticket);
+      const name = nameFor(ticket);
+      const existing = owner
+        ? owner.guest
+          ? owner.guest.checked_in_at
+          : owner.attendee.checked_in_at
+        : null;
+
+      if (existing) {
+        setFeedback({
+          tone: "warning",
+          title: t("alreadyCheckedIn", { name }),
+          detail: t("checkedInAt", { time: formatInDaLat(existing, "HH:mm") }),
+        });
+        return;
+      }
+
+      // A valid signature means a genuine ticket for this event even if the
+      // roster is stale (RSVP after page load) — queue it and let sync decide.
+      const scannedAt = new Date().toISOString();
+      setAttendees((prev) => withCheckin(prev, ticket, scannedAt));
+      setFeedback({ tone: "success", title: t("welcome", { name }) });
+
+      if (isOfflineQueueSupported()) {
+        await enqueueCheckin({ eventId, kind: ticket.kind, id: ticket.id, scannedAt });
+        void flushQueue();
+        return;
+      }
+
+      // No IndexedDB (private mode on some browsers): straight to the server
+      const supabase = createClient();
+      const { data } = await supabase.rpc("checkin_ticket", {
+        p_event_id: eventId,
+        p_kind: ticket.kind,
+        p_id: ticket.id,
+        p_scanned_at: scannedAt,
+      });
+      if (!data?.ok) router.refresh();
+    },
+    [checkinKey, eventId, flushQueue, nameFor, redeemPerk, router, t]
+  );
+
+  function handlePerkSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    const code = normalizePerkCode(perkInput);
+    if (!code) {
+      setFeedback({ tone: "error", title: t("perkNotFound") });
+      return;
+    }
+    startPerkTransition(async () => {
+      await redeemPerk(code);
+      setPerkInput("");
+    });
+  }
+
+  // Forget a not-yet-synced scan so it can't re-check-in after an undo
+  const dropQueued = useCallback(
+    async (ticket: Pick<Ticket, "kind" | "id">) => {
+      if (!isOfflineQueueSupported()) return;
+      await removeQueuedCheckins(eventId, [queueKey(ticket.kind, ticket.id)]);
+      const queued = await getQueuedCheckins(eventId);
+      setPendingSync(queued.length);
+    },
+    [eventId]
+  );
+
   // Stats computed from current state
   const stats = useMemo(() => {
     let checkedIn = 0;
@@ -55,7 +365,15 @@ export function CheckinInterface({
       else if (status === "no_show") noShow++;
       else pending++;
     }
-    return { checkedIn, pending, noShow, total: attendees.length };
+    let guests = 0;
+    let guestsCheckedIn = 0;
+    for (const a of attendees) {
+      for (const g of a.plus_one_guests ?? []) {
+        guests++;
+        if (g.checked_in_at) guestsCheckedIn++;
+      }
+    }
+    return { checkedIn, pending, noShow, total: attendees.length, guests, guestsCheckedIn };
   }, [attendees]);
 
   // Client-side search filtering
@@ -121,6 +439,7 @@ export function CheckinInterface({
       );
 
       startTransition(async () => {
+        await dropQueued({ kind: "rsvp", id: rsvpId });
         const supabase = createClient();
         const { data } = await supabase.rpc("undo_checkin", {
           p_rsvp_id: rsvpId,
@@ -131,7 +450,34 @@ export function CheckinInterface({
         }
       });
     },
-    [eventId, router]
+    [dropQueued, eventId, router]
+  );
+
+  // Plus-one guests check in on their own ticket, tapped or scanned
+  const handleGuestCheckIn = useCallback(
+    (guestId: string, checkedIn: boolean) => {
+      const ticket = { kind: "guest" as const, id: guestId };
+      setAttendees((prev) => withCheckin(prev, ticket, checkedIn ? new Date().toISOString() : null));
+
+      startTransition(async () => {
+        const supabase = createClient();
+        if (!checkedIn) await dropQueued(ticket);
+        const { data } = checkedIn
+          ? await supabase.rpc("checkin_ticket", {
+              p_event_id: eventId,
+              p_kind: "guest",
+              p_id: guestId,
+            })
+          : await supabase.rpc("undo_guest_checkin", {
+              p_guest_id: guestId,
+              p_event_id: eventId,
+            });
+        if (!data?.ok) {
+          router.refresh();
+        }
+      });
+    },
+    [dropQueued, eventId, router]
   );
 
   // Optimistic toggle no-show
@@ -198,49 +544,151 @@ export function CheckinInterface({
               <span className="font-medium text-red-500">{stats.noShow}</span>
             </div>
           )}
+          {stats.guests > 0 && (
+            <span className="text-muted-foreground">
+              {t("guestsCheckedIn", { count: stats.guestsCheckedIn, total: stats.guests })}
+            </span>
+          )}
+          {/* Sync state: only shown when there's something to say */}
+          {(!isOnline || pendingSync > 0) && (
+            <div className="ml-auto flex items-center gap-1.5 text-muted-foreground">
+              {isOnline ? <CloudUpload className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+              <span>
+                {pendingSync > 0 ? t("pendingSync", { count: pendingSync }) : t("offline")}
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
-      {/* Search */}
+      {/* List / scanner toggle */}
       <div className="max-w-lg mx-auto px-4 pb-3">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            type="text"
-            placeholder={t("searchPlaceholder")}
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-10 h-12 text-base"
-            autoFocus
-          />
+        <div className="grid grid-cols-2 gap-1 rounded-lg bg-muted p-1">
+          {(["list", "scan"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={cn(
+                "flex items-center justify-center gap-2 rounded-md py-2 text-sm font-medium transition-colors",
+                mode === m ? "bg-background shadow-sm" : "text-muted-foreground"
+              )}
+            >
+              {m === "list" ? <List className="w-4 h-4" /> : <ScanLine className="w-4 h-4" />}
+              {m === "list" ? t("listMode") : t("scanMode")}
+            </button>
+          ))}
         </div>
       </div>
 
-      {/* Attendee list */}
-      <div className="max-w-lg mx-auto px-4 pb-8">
-        {attendees.length === 0 ? (
-          <p className="text-center text-muted-foreground py-12">
-            {t("noAttendees")}
-          </p>
-        ) : filtered.length === 0 ? (
-          <p className="text-center text-muted-foreground py-12">
-            {t("noResults")}
-          </p>
-        ) : (
-          <div className="space-y-1">
-            {filtered.map((attendee) => (
-              <AttendeeRow
-                key={attendee.id}
-                attendee={attendee}
-                onCheckIn={handleCheckIn}
-                onUndoCheckIn={handleUndoCheckIn}
-                onToggleNoShow={handleToggleNoShow}
-                t={t}
-              />
+      {/* Sync conflicts: scans the server rejected after reconnecting */}
+      {conflicts.length > 0 && (
+        <div className="max-w-lg mx-auto px-4 pb-3">
+          <div className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="flex items-center gap-1.5 font-medium">
+                <AlertTriangle className="w-4 h-4 text-amber-500" />
+                {t("syncConflicts")}
+              </p>
+              <button
+                type="button"
+                onClick={() => setConflicts([])}
+                className="text-muted-foreground hover:text-foreground"
+                title={t("dismiss")}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {conflicts.map((c) => (
+              <p key={c.key}>
+                <span className="font-medium">{c.name}</span> — {c.reason}
+              </p>
             ))}
           </div>
-        )}
-      </div>
+        </div>
+      )}
+
+      {mode === "scan" ? (
+        <div className="max-w-lg mx-auto px-4 pb-8 space-y-3">
+          {checkinKey ? (
+            <TicketScanner onScan={(code) => void handleScan(code)} />
+          ) : (
+            <p className="text-center text-muted-foreground py-12">{t("scannerUnavailable")}</p>
+          )}
+          <form onSubmit={handlePerkSubmit} className="flex gap-2">
+            <Input
+              value={perkInput}
+              onChange={(e) => setPerkInput(e.target.value)}
+              placeholder={t("enterPerkCode")}
+              autoCapitalize="characters"
+              autoComplete="off"
+              className="font-mono"
+            />
+            <Button type="submit" variant="outline" disabled={isRedeemingPerk || !perkInput.trim()}>
+              <Gift className="w-4 h-4 mr-1.5" />
+              {t("redeemPerk")}
+            </Button>
+          </form>
+          {feedback && (
+            <div
+              role="status"
+              className={cn(
+                "rounded-lg p-4 text-center",
+                feedback.tone === "success" && "bg-green-600 text-white",
+                feedback.tone === "warning" && "bg-amber-500 text-white",
+                feedback.tone === "error" && "bg-red-500 text-white"
+              )}
+            >
+              <p className="text-lg font-semibold">{feedback.title}</p>
+              {feedback.detail && <p className="text-sm opacity-90">{feedback.detail}</p>}
+            </div>
+          )}
+        </div>
+      ) : (
+        <>
+        {/* Search */}
+        <div className="max-w-lg mx-auto px-4 pb-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              type="text"
+              placeholder={t("searchPlaceholder")}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10 h-12 text-base"
+              autoFocus
+            />
+          </div>
+        </div>
+
+        {/* Attendee list */}
+        <div className="max-w-lg mx-auto px-4 pb-8">
+          {attendees.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">
+              {t("noAttendees")}
+            </p>
+          ) : filtered.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">
+              {t("noResults")}
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {filtered.map((attendee) => (
+                <AttendeeRow
+                  key={attendee.id}
+                  attendee={attendee}
+                  onCheckIn={handleCheckIn}
+                  onUndoCheckIn={handleUndoCheckIn}
+                  onToggleNoShow={handleToggleNoShow}
+                  onGuestCheckIn={handleGuestCheckIn}
+                  t={t}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+        </>
+      )}
     </div>
   );
 }
@@ -254,6 +702,7 @@ interface AttendeeRowProps {
   onCheckIn: (rsvpId: string) => void;
   onUndoCheckIn: (rsvpId: string) => void;
   onToggleNoShow: (rsvpId: string, isNoShow: boolean) => void;
+  onGuestCheckIn: (guestId: string, checkedIn: boolean) => void;
   t: ReturnType<typeof useTranslations<"checkin">>;
 }
 
@@ -262,6 +711,7 @@ function AttendeeRow({
   onCheckIn,
   onUndoCheckIn,
   onToggleNoShow,
+  onGuestCheckIn,
   t,
 }: AttendeeRowProps) {
   const status = getStatus(attendee);
@@ -349,6 +799,19 @@ function AttendeeRow({
               <span className="text-xs shrink-0">
                 ({t("guestOf", { host: displayName })})
               </span>
+              <button
+                type="button"
+                onClick={() => onGuestCheckIn(guest.id, !guest.checked_in_at)}
+                className={cn(
+                  "ml-auto flex items-center justify-center w-8 h-8 shrink-0 rounded-full active:scale-95 transition-all",
+                  guest.checked_in_at
+                    ? "bg-green-600 text-white"
+                    : "border-2 border-green-600 text-green-600 hover:bg-green-50 dark:hover:bg-green-950/30"
+                )}
+                title={guest.checked_in_at ? t("undoCheckIn") : t("checkInButton")}
+              >
+                <Check className="w-4 h-4" />
+              </button>
             </div>
           ))}
         </div>
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { CheckCircle2, QrCode } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { TicketKind } from "@/lib/checkin/tickets";
+
+export interface RsvpTicket {
+  kind: TicketKind;
+  id: string;
+  /** Guest name; the attendee's own ticket is labelled in the UI */
+  label: string;
+  code: string;
+  checkedInAt: string | null;
+}
+
+interface RsvpTicketsProps {
+  tickets: RsvpTicket[];
+}
+
+/**
+ * "Show my ticket" button for going attendees. Opens the signed QR codes —
+ * the attendee's own plus one per named plus-one guest — to scan at the door.
+ */
+export function RsvpTickets({ tickets }: RsvpTicketsProps) {
+  const t = useTranslations("checkin");
+  const [open, setOpen] = useState(false);
+  const [images, setImages] = useState<Record<string, string>>({});
+
+  // Render lazily: most visitors never open their ticket
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    Promise.all(
+      tickets.map(async (ticket) => [
+        ticket.code,
+        await QRCode.toDataURL(ticket.code, { errorCorrectionLevel: "M", margin: 2, width: 320 }),
+      ] as const)
+    ).then((entries) => {
+      if (!cancelled) setImages(Object.fromEntries(entries));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, tickets]);
+
+  if (tickets.length === 0) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <QrCode className="w-4 h-4 mr-2" />
+          {tickets.length > 1 ? t("showTickets", { count: tickets.length }) : t("showTicket")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("yourTickets")}</DialogTitle>
+          <DialogDescription>{t("ticketHint")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          {tickets.map((ticket) => (
+            <div key={ticket.code} className="flex flex-col items-center gap-2">
+              {images[ticket.code] ? (
+                // eslint-disable-next-line @next/next/no-img-element -- data URL, nothing to optimise
+                <img
+                  src={images[ticket.code]}
+                  alt={t("ticketFor", { name: ticket.kind === "rsvp" ? t("you") : ticket.label })}
+                  width={240}
+                  height={240}
+                  className="rounded-lg bg-white"
+                />
+              ) : (
+                <div className="w-[240px] h-[240px] rounded-lg bg-muted animate-pulse" />
+              )}
+              <p className="font-medium">
+                {ticket.kind === "rsvp" ? t("you") : t("guestTicket", { name: ticket.label })}
+              </p>
+              {ticket.checkedInAt && (
+                <p className="flex items-center gap-1 text-sm text-green-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  {t("checkedIn")}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { CameraOff } from "lucide-react";
+import { useTranslations } from "next-intl";
+
+interface TicketScannerProps {
+  /** Called once per distinct code; the same code is ignored for a few seconds */
+  onScan: (code: string) => void;
+}
+
+// Decoding every frame burns battery on door phones; a few times a second is plenty
+const SCAN_INTERVAL_MS = 250;
+const REPEAT_COOLDOWN_MS = 3000;
+// Tickets are small codes; decoding a downscaled frame is faster and just as reliable
+const MAX_FRAME_WIDTH = 640;
+
+/**
+ * Rear-camera QR reader. Decodes locally with jsQR, so it keeps working with
+ * no connection at all.
+ */
+export function TicketScanner({ onScan }: TicketScannerProps) {
+  const t = useTranslations("checkin");
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [cameraError, setCameraError] = useState(false);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    let last: { code: string; at: number } | null = null;
+
+    function tick() {
+      const video = videoRef.current;
+      if (stopped || !video || !context) return;
+
+      if (video.readyState >= video.HAVE_ENOUGH_DATA && video.videoWidth > 0) {
+        const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+        const result = jsQR(frame.data, frame.width, frame.height, {
+          inversionAttempts: "dontInvert",
+        });
+
+        if (result?.data) {
+          const now = Date.now();
+          if (!last || last.code !== result.data || now - last.at > REPEAT_COOLDOWN_MS) {
+            onScanRef.current(result.data);
+          }
+          last = { code: result.data, at: now };
+        }
+      }
+
+      timer = setTimeout(tick, SCAN_INTERVAL_MS);
+    }
+
+    // mediaDevices is missing on plain-http origins and some in-app browsers
+    const media = navigator.mediaDevices
+      ? navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      : Promise.reject(new Error("Camera not available"));
+
+    media
+      .then((camera) => {
+        if (stopped) {
+          camera.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = camera;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = camera;
+        void video.play();
+        tick();
+      })
+      .catch(() => setCameraError(true));
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (cameraError) {
+    return (
+      <div className="flex flex-col items-center gap-2 rounded-lg border border-dashed py-12 text-center text-sm text-muted-foreground">
+        <CameraOff className="w-6 h-6" />
+        <p>{t("cameraUnavailable")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black aspect-square">
+      <video
+        ref={videoRef}
+        className="w-full h-full object-cover"
+        muted
+        playsInline
+      />
+      {/* Aiming frame */}
+      <div className="pointer-events-none absolute inset-[15%] rounded-xl border-2 border-white/80" />
+    </div>
+  );
+}
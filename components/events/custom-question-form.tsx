@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Locale, MultilingualText, QuestionOption, QuestionType } from "@/lib/types";
+
+// Types organizers can pick for their own questions
+const CUSTOM_TYPES: QuestionType[] = [
+  "single_choice",
+  "multi_choice",
+  "text",
+  "number",
+  "date",
+  "phone",
+  "file",
+  "scale",
+  "nps",
+  "ranking",
+];
+
+const OPTION_TYPES: QuestionType[] = ["single_choice", "multi_choice", "ranking"];
+
+export interface CustomQuestionDraft {
+  question_type: QuestionType;
+  question_text: MultilingualText;
+  options: QuestionOption[] | null;
+}
+
+// Stable option values from labels ("Shuttle bus" -> "shuttle_bus"), de-duplicated
+function toOptions(labels: string[], locale: Locale): QuestionOption[] {
+  const used = new Set<string>();
+  return labels.map((label, index) => {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "") || `option_${index + 1}`;
+    let value = base;
+    for (let n = 2; used.has(value); n++) value = `${base}_${n}`;
+    used.add(value);
+    return { value, label: { [locale]: label } };
+  });
+}
+
+/**
+ * Inline form for a question that isn't in the template library, written in
+ * the organizer's current locale.
+ */
+export function CustomQuestionForm({
+  onAdd,
+  onCancel,
+}: {
+  onAdd: (draft: CustomQuestionDraft) => void;
+  onCancel: () => void;
+}) {
+  const t = useTranslations("questionnaireBuilder");
+  const locale = useLocale() as Locale;
+  const [text, setText] = useState("");
+  const [type, setType] = useState<QuestionType>("single_choice");
+  const [options, setOptions] = useState<string[]>(["", ""]);
+
+  const needsOptions = OPTION_TYPES.includes(type);
+  const filledOptions = options.map((o) => o.trim()).filter(Boolean);
+  const canAdd = text.trim().length > 0 && (!needsOptions || filledOptions.length >= 2);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({
+      question_type: type,
+      question_text: { [locale]: text.trim() },
+      options: needsOptions ? toOptions(filledOptions, locale) : null,
+    });
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3 bg-card animate-in fade-in slide-in-from-top-1 duration-150">
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-muted-foreground">{t("questionText")}</label>
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="w-full px-3 py-2 text-sm border rounded-lg bg-background"
+          autoFocus
+        />
+      </div>
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-muted-foreground">{t("questionType")}</label>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as QuestionType)}
+          className="w-full px-3 py-2 text-sm border rounded-lg bg-background"
+        >
+          {CUSTOM_TYPES.map((option) => (
+            <option key={option} value={option}>
+              {t(`types.${option}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+      {needsOptions && (
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-muted-foreground">{t("options")}</label>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={option}
+                onChange={(e) =>
+                  setOptions((prev) => prev.map((o, i) => (i === index ? e.target.value : o)))
+                }
+                className="flex-1 px-3 py-1.5 text-sm border rounded-lg bg-background"
+              />
+              {options.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => setOptions((prev) => prev.filter((_, i) => i !== index))}
+                  className="p-1.5 hover:bg-muted rounded"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setOptions((prev) => [...prev, ""])}
+            className="flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <Plus className="w-3 h-3" />
+            {t("addOption")}
+          </button>
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          {t("cancel")}
+        </Button>
+        <Button size="sm" onClick={handleAdd} disabled={!canAdd}>
+          {t("addQuestion")}
+        </Button>
+      </div>
+    </div>
+  );
+}
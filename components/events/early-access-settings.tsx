@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Check, Loader2 } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getDateTimeInDaLat, toUTCFromDaLat } from "@/lib/timezone";
+
+interface EarlyAccessSettingsProps {
+  eventId: string;
+  initialOpensAt: string | null;
+  initialLoyaltyEarlyAccess: boolean;
+}
+
+/**
+ * Edit-mode control for when RSVPs (and ticket sales) open. With loyalty
+ * early access on, members holding an early-access reward get in that many
+ * hours ahead. Saves on its own, outside the main form submit.
+ */
+export function EarlyAccessSettings({
+  eventId,
+  initialOpensAt,
+  initialLoyaltyEarlyAccess,
+}: EarlyAccessSettingsProps) {
+  const t = useTranslations("eventForm.earlyAccess");
+  const initial = initialOpensAt ? getDateTimeInDaLat(initialOpensAt) : null;
+  const [date, setDate] = useState(initial?.date ?? "");
+  const [time, setTime] = useState(initial?.time ?? "");
+  const [loyaltyEarlyAccess, setLoyaltyEarlyAccess] = useState(initialLoyaltyEarlyAccess);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSave() {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    const supabase = createClient();
+    const { error: updateError } = await supabase
+      .from("events")
+      .update({
+        rsvp_opens_at: date ? toUTCFromDaLat(date, time || "00:00") : null,
+        // Early access only means something once there's an opening time
+        loyalty_early_access: Boolean(date) && loyaltyEarlyAccess,
+      })
+      .eq("id", eventId);
+
+    setSaving(false);
+    if (updateError) {
+      console.error("Failed to save RSVP opening:", updateError);
+      setError(t("saveFailed"));
+      return;
+    }
+    setSaved(true);
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <Label>{t("title")}</Label>
+      <p className="text-xs text-muted-foreground">{t("help")}</p>
+      <div className="flex gap-2">
+        <Input
+          type="date"
+          value={date}
+          onChange={(e) => {
+            setDate(e.target.value);
+            setSaved(false);
+          }}
+          aria-label={t("date")}
+        />
+        <Input
+          type="time"
+          value={time}
+          onChange={(e) => {
+            setTime(e.target.value);
+            setSaved(false);
+          }}
+          aria-label={t("time")}
+          className="w-32"
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <Checkbox
+          id="loyaltyEarlyAccess"
+          checked={loyaltyEarlyAccess}
+          disabled={!date}
+          onCheckedChange={(checked) => {
+            setLoyaltyEarlyAccess(!!checked);
+            setSaved(false);
+          }}
+        />
+        <Label htmlFor="loyaltyEarlyAccess" className="cursor-pointer text-sm font-normal">
+          {t("loyaltyEarlyAccess")}
+        </Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+          {t("save")}
+        </Button>
+        {saved && <Check className="w-4 h-4 text-green-600" aria-label={t("saved")} />}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
-import { MoreHorizontal, Pencil, Trash2, Copy, Repeat, ClipboardCheck } from "lucide-react";
+import { MoreHorizontal, Pencil, Trash2, Copy, Repeat, ClipboardCheck, Receipt } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import {
@@ -40,6 +40,10 @@ export function EventActions({ eventId, eventSlug, seriesSlug }: EventActionsPro
     router.push(`/events/${eventSlug}/checkin`);
   }
 
+  function handleOrders() {
+    router.push(`/events/${eventSlug}/orders`);
+  }
+
   function handleCreateSimilar() {
     router.push(`/events/new?copyFrom=${eventId}`);
   }
@@ -106,6 +110,10 @@ export function EventActions({ eventId, eventSlug, seriesSlug }: EventActionsPro
           <ClipboardCheck className="w-4 h-4 mr-2" />
           {t("checkIn")}
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={handleOrders}>
+          <Receipt className="w-4 h-4 mr-2" />
+          {t("orders")}
+        </DropdownMenuItem>
         <DropdownMenuItem onClick={handleEdit}>
           <Pencil className="w-4 h-4 mr-2" />
           {t("editEvent")}
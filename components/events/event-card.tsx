@@ -13,6 +13,7 @@ import { triggerHaptic } from "@/lib/haptics";
 import { cloudflareLoader } from "@/lib/image-cdn";
 import { usePrefetch } from "@/lib/prefetch";
 import { cn, decodeUnicodeEscapes } from "@/lib/utils";
+import { withRsvpSource, type RsvpSource } from "@/lib/events/rsvp-source";
 import type { Event, EventCounts, FriendsAttending, Locale } from "@/lib/types";
 import { FriendsAttendingDisplay } from "@/components/events/friends-attending";
 
@@ -32,6 +33,8 @@ interface EventCardProps {
   friendsAttending?: FriendsAttending;
   /** Show full image without blur background or heavy gradient overlay */
   showFullImage?: boolean;
+  /** Channel to attribute RSVPs to when opened from this card (?src=) */
+  source?: RsvpSource;
 }
 
 // Check if event is past (same logic as rsvp-button)
@@ -55,6 +58,7 @@ export const EventCard = memo(function EventCard({
   onFlip,
   friendsAttending,
   showFullImage = false,
+  source,
 }: EventCardProps) {
   const t = useTranslations("events");
   const locale = useLocale() as Locale;
@@ -72,7 +76,8 @@ export const EventCard = memo(function EventCard({
 
     if (isFlipped || !onFlip) {
       // Already flipped (or no flip wiring) - navigate to event
-      router.push(`/events/${event.slug}`);
+      const href = `/events/${event.slug}`;
+      router.push(source ? withRsvpSource(href, source) : href);
     } else {
       // Not flipped - flip it
       onFlip(event.id);
@@ -3,6 +3,8 @@
 import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
+import { ClipboardList } from "lucide-react";
+import { Link } from "@/lib/i18n/routing";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { createClient } from "@/lib/supabase/client";
@@ -17,6 +19,8 @@ interface EventFeedbackProps {
     comment?: string;
     marked_no_show?: boolean;
   } | null;
+  // Link to the organizer's post-event survey, when there is one
+  surveyHref?: string;
 }
 
 const RATINGS = [
@@ -31,6 +35,7 @@ export function EventFeedback({
   eventTitle,
   currentRsvpStatus,
   existingFeedback,
+  surveyHref,
 }: EventFeedbackProps) {
   const router = useRouter();
   const t = useTranslations("feedback");
@@ -48,6 +53,16 @@ export function EventFeedback({
   // User was never going - just show "Event has ended" message
   const wasAttending = currentRsvpStatus === "going" || currentRsvpStatus === "waitlist";
 
+  const surveyLink = surveyHref && (
+    <Link
+      href={surveyHref}
+      className="inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline py-2 px-4"
+    >
+      <ClipboardList className="w-4 h-4" />
+      {t("takeSurvey")}
+    </Link>
+  );
+
   // Already submitted feedback
   if (submitted) {
     if (existingFeedback?.marked_no_show) {
@@ -63,6 +78,7 @@ export function EventFeedback({
       <div className="text-center py-4 space-y-2">
         <p className="text-2xl">{submittedRating?.emoji}</p>
         <p className="text-sm text-muted-foreground">{t("thankYou")}</p>
+        {surveyLink}
       </div>
     );
   }
@@ -175,6 +191,8 @@ export function EventFeedback({
         </div>
       )}
 
+      {surveyLink && <div className="text-center">{surveyLink}</div>}
+
       {/* "I didn't go" option */}
       <div className="text-center pt-2 border-t">
         <button
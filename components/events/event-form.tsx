@@ -19,6 +19,7 @@ import {
 } from "@/components/ui/select";
 import { LocationPicker, type SelectedLocation } from "@/components/events/location-picker";
 import { VenueLinker } from "@/components/events/venue-linker";
+import { VenueHoursWarning } from "@/components/events/venue-hours-warning";
 import { EventMediaUpload } from "@/components/events/event-media-upload";
 import dynamic from "next/dynamic";
 
@@ -51,10 +52,11 @@ import { ChevronDown, Settings, Repeat, Sparkles, Tag, Lock } from "lucide-react
 import { Textarea } from "@/components/ui/textarea";
 import { PromoManager } from "@/components/events/promo-manager";
 import { LinkedPastEventPicker } from "@/components/events/linked-past-event-picker";
+import { EarlyAccessSettings } from "@/components/events/early-access-settings";
 import { toUTCFromDaLat, getDateTimeInDaLat } from "@/lib/timezone";
 import { canEditSlug } from "@/lib/config";
-import { getDefaultRecurrenceData, buildRRule } from "@/lib/recurrence";
-import type { Event, EventPrivateDetails, RecurrenceFormData, Sponsor, EventSponsor, EventSettings, TranslationFieldName, Organizer, UserRole, DraftMaterial, EventMaterial, Tribe, TribeEventVisibility, TribeMemberRole } from "@/lib/types";
+import { getDefaultRecurrenceData, buildRRule, parseRRule } from "@/lib/recurrence";
+import type { Event, EventPrivateDetails, EventSeries, SeriesUpdateScope, RecurrenceFormData, Sponsor, EventSponsor, EventSettings, TranslationFieldName, Organizer, UserRole, DraftMaterial, EventMaterial, Tribe, TribeEventVisibility } from "@/lib/types";
 import { hasRoleLevel } from "@/lib/types";
 import { finalizeSlug } from "@/lib/utils";
 import { EVENT_TAGS, TAG_CONFIG, type EventTag } from "@/lib/constants/event-tags";
@@ -146,6 +148,8 @@ interface EventFormProps {
   initialPrivateDetails?: EventPrivateDetails | null;
   // Preselect a tribe in "Hosting as" (from /events/new?tribe=<slug>)
   initialTribeSlug?: string;
+  // The series a series event belongs to (edit scope + schedule changes)
+  series?: Pick<EventSeries, "slug" | "rrule"> | null;
 }
 
 type HostableTribe = Pick<Tribe, "id" | "slug" | "name" | "access_type">;
@@ -181,6 +185,7 @@ export function EventForm({
   initialPlaylistTracks = [],
   initialPrivateDetails = null,
   initialTribeSlug,
+  series,
 }: EventFormProps) {
   const router = useRouter();
   // Only moderators and above can select organizers
@@ -195,7 +200,11 @@ export function EventForm({
 
   // Check if editing a series event
   const isSeriesEvent = !!event?.series_id;
-  const [seriesEditScope, setSeriesEditScope] = useState<"this" | "future" | "all">("this");
+  const [seriesEditScope, setSeriesEditScope] = useState<SeriesUpdateScope>("this_event");
+  // "This and following" may also change the schedule, which splits the series
+  const [seriesSchedule, setSeriesSchedule] = useState<RecurrenceFormData>(() =>
+    series?.rrule ? parseRRule(series.rrule) : getDefaultRecurrenceData()
+  );
 
   // Celebration modal state (for new events)
   const [showCelebration, setShowCelebration] = useState(false);
@@ -397,7 +406,7 @@ export function EventForm({
         }
         const data = await res.json();
         const leadTribes: HostableTribe[] = (data.tribes || [])
-          .filter((m: { role: TribeMemberRole }) => m.role === "leader" || m.role === "admin")
+          .filter((m: { can_create_events?: boolean }) => m.can_create_events)
           .map((m: { tribes: HostableTribe | null }) => m.tribes)
           .filter(Boolean);
         setHostableTribes(leadTribes);
@@ -449,6 +458,7 @@ export function EventForm({
   // Track selected date for recurrence picker
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const dateStr = e.target.value;
+    setStartDate(e.target.value);
     if (dateStr) {
       // For new events, prevent selecting past dates
       if (!isEditing) {
@@ -456,6 +466,7 @@ export function EventForm({
         if (dateStr < today) {
           // Reset to today if user somehow selects a past date
           e.target.value = today;
+          setStartDate(today);
           setSelectedDate(new Date(today + "T12:00:00"));
           return;
         }
@@ -474,6 +485,10 @@ export function EventForm({
       ? { date: copyDefaults.date, time: copyDefaults.time }
       : { date: "", time: "" };
 
+  // Start date/time as typed, for the venue opening-hours warning
+  const [startDate, setStartDate] = useState(defaults.date);
+  const [startTime, setStartTime] = useState(defaults.time);
+
   async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     setError(null);
@@ -556,39 +571,45 @@ export function EventForm({
     startTransition(async () => {
       try {
       if (isEditing) {
-        // Check if we should update via series API (for "future" or "all" scope)
-        if (isSeriesEvent && seriesEditScope !== "this" && event.series_id) {
-          // Use series API to update template + events
-          const seriesResponse = await fetch(`/api/series/${event.series_id}`, {
-            method: "GET",
-          });
-
-          if (!seriesResponse.ok) {
-            setError("Failed to fetch series information");
-            return;
-          }
-
-          const seriesData = await seriesResponse.json();
-          const seriesSlug = seriesData.series?.slug;
-
-          if (!seriesSlug) {
+        const occurrenceUrl =
+          series && event.series_instance_date
+            ? `/api/series/${series.slug}/occurrences/${event.series_instance_date}`
+            : null;
+        // Only send time/venue when they changed, so editing the wider series
+        // from an occurrence doesn't copy that occurrence's own overrides
+        const timeChanged = time !== defaults.time;
+        const venueChanged = (venueIdToSave || null) !== (event.venue_id ?? null);
+
+        if (isSeriesEvent && seriesEditScope !== "this_event") {
+          if (!occurrenceUrl || !series) {
             setError("Series not found");
             return;
           }
 
-          const response = await fetch(`/api/series/${seriesSlug}`, {
+          // Compare normalized rules: the stored one may be ordered differently
+          const newRRule = seriesEditScope === "future" && seriesSchedule.isRecurring
+            ? buildRRule(seriesSchedule)
+            : null;
+          const scheduleChanged = !!newRRule && newRRule !== buildRRule(parseRRule(series.rrule));
+
+          const response = await fetch(occurrenceUrl, {
             method: "PATCH",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              title,
-              description: description || null,
-              image_url: imageUrl,
-              location_name: locationName || null,
-              address: address || null,
-              google_maps_url: googleMapsUrl || null,
-              external_chat_url: externalChatUrl || null,
-              capacity,
-              update_scope: seriesEditScope, // "future" or "all"
+              scope: seriesEditScope, // "future" or "all"
+              fields: {
+                title,
+                description: description || null,
+                image_url: imageUrl,
+                location_name: locationName || null,
+                address: address || null,
+                google_maps_url: googleMapsUrl || null,
+                external_chat_url: externalChatUrl || null,
+                capacity,
+                ...(timeChanged && { starts_at_time: time }),
+                ...(venueChanged && { venue_id: venueIdToSave || null }),
+              },
+              ...(scheduleChanged && { rrule: newRRule }),
             }),
           });
 
@@ -605,6 +626,34 @@ export function EventForm({
           router.push(`/events/${event.slug}`);
           router.refresh();
         } else {
+          // Record time/venue/capacity/description changes as overrides on
+          // the occurrence so later series edits leave them alone
+          if (isSeriesEvent && occurrenceUrl) {
+            const response = await fetch(occurrenceUrl, {
+              method: "PATCH",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                scope: "this_event",
+                fields: {
+                  date,
+                  starts_at_time: time,
+                  venue_id: venueIdToSave || null,
+                  location_name: locationName || null,
+                  address: address || null,
+                  google_maps_url: googleMapsUrl || null,
+                  capacity,
+                  description: description || null,
+                },
+              }),
+            });
+
+            if (!response.ok) {
+              const data = await response.json();
+              setError(data.error || "Failed to update event");
+              return;
+            }
+          }
+
           // Update just this event (current behavior)
           const updateData: Record<string, unknown> = {
             title,
@@ -714,6 +763,8 @@ export function EventForm({
                 ? new Date(recurrence.endDate).toISOString()
                 : null,
               rrule_count: recurrence.endType === "count" ? recurrence.endCount : null,
+              exdates: recurrence.excludeDates,
+              rdates: recurrence.extraDates,
               organizer_id: organizerId,
               venue_id: venueIdToSave || null,
               tribe_id: tribeId,
@@ -894,10 +945,10 @@ export function EventForm({
               </div>
               <RadioGroup
                 value={seriesEditScope}
-                onValueChange={(value) => setSeriesEditScope(value as "this" | "future" | "all")}
+                onValueChange={(value) => setSeriesEditScope(value as SeriesUpdateScope)}
               >
                 <div className="flex items-start gap-3">
-                  <RadioGroupItem value="this" id="scope-this" className="mt-1" />
+                  <RadioGroupItem value="this_event" id="scope-this" className="mt-1" />
                   <div>
                     <Label htmlFor="scope-this" className="cursor-pointer font-medium">
                       {tSeries("editThisEventOnly")}
@@ -1042,6 +1093,7 @@ export function EventForm({
                 name="time"
                 type="time"
                 defaultValue={defaults.time}
+                onChange={(e) => setStartTime(e.target.value)}
               />
             </div>
           </div>
@@ -1055,6 +1107,18 @@ export function EventForm({
             />
           )}
 
+          {/* Schedule change from this occurrence on (splits the series) */}
+          {isEditing && isSeriesEvent && series && seriesEditScope === "future" && (
+            <div className="space-y-2">
+              <RecurrencePicker
+                selectedDate={selectedDate}
+                value={seriesSchedule}
+                onChange={setSeriesSchedule}
+              />
+              <p className="text-xs text-muted-foreground">{tSeries("changeScheduleHint")}</p>
+            </div>
+          )}
+
           {/* Online event toggle */}
           <div className="space-y-3">
             <div className="flex items-center gap-3">
@@ -1141,6 +1205,8 @@ export function EventForm({
               disabled={isPending}
             />
 
+            <VenueHoursWarning venueId={venueId} date={startDate} time={startTime} />
+
             {/* Secret address (not for venues or recurring events) */}
             {!venueId && !recurrence.isRecurring && !isSeriesEvent && (
               <div className="space-y-3">
@@ -1322,6 +1388,15 @@ export function EventForm({
             />
           )}
 
+          {/* When RSVPs open, and whether loyalty early access gets in first */}
+          {event && (
+            <EarlyAccessSettings
+              eventId={event.id}
+              initialOpensAt={event.rsvp_opens_at ?? null}
+              initialLoyaltyEarlyAccess={event.loyalty_early_access ?? false}
+            />
+          )}
+
           {/* Capacity */}
           <div className="space-y-2">
             <div className="flex items-center gap-3">
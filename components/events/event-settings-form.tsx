@@ -2,7 +2,7 @@
 
 import { useState, useTransition, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { Camera, Users, Shield, Loader2, Check, ChevronRight, Languages, Clock, ChevronDown, ClipboardList } from "lucide-react";
+import { Camera, Users, Shield, Loader2, Check, ChevronRight, Languages, Clock, ChevronDown, ClipboardList, Copy, MessageSquareHeart } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { Link } from "@/lib/i18n/routing";
 import { createClient } from "@/lib/supabase/client";
@@ -68,6 +68,7 @@ export function EventSettingsForm({
   const router = useRouter();
   const t = useTranslations("eventSettings");
   const tModeration = useTranslations("moments.moderation");
+  const tNearDuplicates = useTranslations("moments.nearDuplicates");
   const [isPending, startTransition] = useTransition();
   const [saved, setSaved] = useState(false);
 
@@ -491,6 +492,22 @@ export function EventSettingsForm({
         </Link>
       )}
 
+      {/* Look-alike photo clean-up */}
+      {momentsEnabled && (
+        <Link
+          href={`/events/${eventSlug}/moments/duplicates`}
+          className="w-full flex items-center justify-between p-4 rounded-lg border border-border hover:border-primary/50 hover:bg-muted/50 transition-all duration-200 active:scale-[0.98]"
+        >
+          <div className="flex items-center gap-3">
+            <Copy className="w-5 h-5 text-muted-foreground" />
+            <p className="text-sm font-medium text-foreground">
+              {tNearDuplicates("open")}
+            </p>
+          </div>
+          <ChevronRight className="w-4 h-4 text-muted-foreground" />
+        </Link>
+      )}
+
       {/* Questionnaire Builder Link */}
       <Link
         href={`/events/${eventSlug}/questionnaire`}
@@ -510,6 +527,25 @@ export function EventSettingsForm({
         <ChevronRight className="w-4 h-4 text-muted-foreground" />
       </Link>
 
+      {/* Post-event Survey Builder Link */}
+      <Link
+        href={`/events/${eventSlug}/questionnaire?kind=post_event`}
+        className="w-full flex items-center justify-between p-4 rounded-lg border border-border hover:border-primary/50 hover:bg-muted/50 transition-all duration-200 active:scale-[0.98]"
+      >
+        <div className="flex items-center gap-3">
+          <MessageSquareHeart className="w-5 h-5 text-muted-foreground" />
+          <div className="text-left">
+            <p className="text-sm font-medium text-foreground">
+              {t("survey.title")}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {t("survey.description")}
+            </p>
+          </div>
+        </div>
+        <ChevronRight className="w-4 h-4 text-muted-foreground" />
+      </Link>
+
       {/* Retranslate Button */}
       <button
         type="button"
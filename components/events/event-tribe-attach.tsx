@@ -16,7 +16,7 @@ import {
 type HostableTribe = { id: string; slug: string; name: string };
 
 type Membership = {
-  role: string;
+  can_create_events?: boolean;
   tribes: { id: string; slug: string; name: string } | null;
 };
 
@@ -51,11 +51,11 @@ export function EventTribeAttach({
         if (!res.ok) throw new Error("failed");
         const data = (await res.json()) as { tribes: Membership[] };
         if (cancelled) return;
-        // Same leader/admin filter the event form applies — you can only host
-        // as a tribe you actually run.
+        // Same filter the event form applies — you can only host as a tribe
+        // that lets your role create events.
         setTribes(
           data.tribes
-            .filter((m) => m.role === "leader" || m.role === "admin")
+            .filter((m) => m.can_create_events)
             .map((m) => m.tribes)
             .filter((x): x is HostableTribe => x !== null)
         );
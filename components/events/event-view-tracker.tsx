@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSearchParams } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import {
+  RSVP_SOURCE_PARAM,
+  parseRsvpSource,
+  rememberRsvpSource,
+} from "@/lib/events/rsvp-source";
+
+const VIEWED_PREFIX = "event-viewed:";
+
+/**
+ * Counts one page view per event per browser session (top of the organizer
+ * funnel) and remembers the ?src= tag the visitor arrived with so the RSVP
+ * button can attribute the RSVP. Renders nothing.
+ */
+export function EventViewTracker({ eventId }: { eventId: string }) {
+  const searchParams = useSearchParams();
+
+  useEffect(() => {
+    const source = parseRsvpSource(searchParams?.get(RSVP_SOURCE_PARAM));
+    if (source) rememberRsvpSource(eventId, source);
+
+    try {
+      if (sessionStorage.getItem(VIEWED_PREFIX + eventId)) return;
+      sessionStorage.setItem(VIEWED_PREFIX + eventId, "1");
+    } catch {
+      // Storage disabled — still count, just without session dedupe
+    }
+
+    const recordView = async () => {
+      const { error } = await createClient().rpc("record_event_page_view", { p_event_id: eventId });
+      if (error) console.warn("[EventViewTracker] Failed to record view:", error.message);
+    };
+    recordView();
+  }, [eventId, searchParams]);
+
+  return null;
+}
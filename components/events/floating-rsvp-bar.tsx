@@ -12,7 +12,7 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
-import type { Rsvp, QuestionnaireData } from "@/lib/types";
+import type { Rsvp, QuestionnaireData, WaitlistOffer } from "@/lib/types";
 
 interface FloatingRsvpBarProps {
   eventId: string;
@@ -28,6 +28,7 @@ interface FloatingRsvpBarProps {
   currentRsvp: Rsvp | null;
   isLoggedIn: boolean;
   waitlistPosition: number | null;
+  waitlistOffer?: Pick<WaitlistOffer, "expires_at"> | null;
   startsAt: string;
   endsAt: string | null;
   questionnaire?: QuestionnaireData | null;
@@ -47,6 +48,7 @@ export function FloatingRsvpBar({
   currentRsvp,
   isLoggedIn,
   waitlistPosition,
+  waitlistOffer,
   startsAt,
   endsAt,
   questionnaire,
@@ -70,7 +72,7 @@ export function FloatingRsvpBar({
     setShowQuestionnaire(true);
   }, []);
 
-  const { isPending, handleRsvp, handleCancel, performRsvp, hasActiveQuestionnaire } = useRsvpActions(
+  const { isPending, handleRsvp, handleCancel, handleClaimOffer, performRsvp, hasActiveQuestionnaire } = useRsvpActions(
     eventId,
     isLoggedIn,
     handleCelebrationTrigger,
@@ -130,6 +132,13 @@ export function FloatingRsvpBar({
         {isPending ? "..." : t("cancelRsvp")}
       </Button>
     );
+  } else if (isWaitlist && waitlistOffer) {
+    statusText = t("spotOffered");
+    actionButton = (
+      <Button onClick={handleClaimOffer} disabled={isPending} size="sm">
+        {isPending ? "..." : t("claimSpot")}
+      </Button>
+    );
   } else if (isWaitlist) {
     statusText = t("waitlistPosition", { position: waitlistPosition ?? 0 });
     actionButton = (
@@ -19,6 +19,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { InviteSendingAnimation } from "./invite-sending-animation";
 import { InviteCelebration } from "./invite-celebration";
 import { AIEnhanceTextarea } from "@/components/ui/ai-enhance-textarea";
+import { PhoneInviteeInput, type PhoneInvitee } from "@/components/shared/phone-invitee-input";
+import type { PhoneInviteChannel } from "@/lib/types";
 
 interface InviteModalProps {
   eventSlug: string;
@@ -27,6 +29,8 @@ interface InviteModalProps {
   startsAt: string;
   /** Viewer has admin/superadmin role — unlocks @all / @tag audience mentions */
   isAdmin?: boolean;
+  /** Viewer owns the event's organizer — unlocks its saved audience segments */
+  canUseSegments?: boolean;
   /**
    * Event already happened — the modal flips from "invite" to "record who was there".
    * Computed on the server so the label can't disagree with the rest of the page.
@@ -37,6 +41,7 @@ interface InviteModalProps {
 interface InviteResult {
   email?: string;
   userId?: string;
+  phone?: string;
   /** Synthesized client-side for audience chips (server returns only a queued count) */
   audienceKey?: string;
   success: boolean;
@@ -53,14 +58,24 @@ interface UserSearchResult {
 interface AudienceOption {
   key: string;
   count: number;
+  /** Saved segment name; pinned audiences are named by their key */
+  label?: string;
 }
 
 type Invitee =
   | { type: "email"; email: string; name?: string }
   | { type: "user"; user: UserSearchResult }
-  | { type: "audience"; key: string; count: number };
-
-export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt, isAdmin = false, isPast = false }: InviteModalProps) {
+  | { type: "audience"; key: string; count: number; label?: string };
+
+export function InviteModal({
+  eventSlug,
+  eventTitle,
+  eventDescription,
+  startsAt,
+  isAdmin = false,
+  canUseSegments = false,
+  isPast = false,
+}: InviteModalProps) {
   const t = useTranslations("invite");
   const router = useRouter();
   const [open, setOpen] = useState(false);
@@ -73,6 +88,8 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
   const [celebrationCount, setCelebrationCount] = useState(0);
   const [audienceOptions, setAudienceOptions] = useState<AudienceOption[]>([]);
   const [personalNote, setPersonalNote] = useState("");
+  const [phoneInvitees, setPhoneInvitees] = useState<PhoneInvitee[]>([]);
+  const [phoneChannels, setPhoneChannels] = useState<PhoneInviteChannel[]>([]);
 
   // Auto-detect input mode: email if contains @domain.tld pattern, username otherwise
   const isEmailInput = useCallback((value: string) => {
@@ -99,16 +116,23 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
   // Username search is active when not typing an email and has 2+ chars
   const isUsernameSearch = !isEmailInput(inputValue) && inputValue.length >= 2;
 
-  // Audience mentions (@all / @games) — admin only, and never on a past event:
-  // blasting the whole community about something that already happened is spam.
-  const canBlast = isAdmin && !isPast;
+  // Audience mentions (@all / @games / saved segments) — admins and the
+  // organizer's owner, and never on a past event: blasting people about
+  // something that already happened is spam.
+  const canBlast = (isAdmin || canUseSegments) && !isPast;
+
+  const audienceName = useCallback(
+    (option: Pick<AudienceOption, "key" | "label">) =>
+      option.label ?? (option.key === "all" ? t("audienceEveryone").toLowerCase() : option.key),
+    [t]
+  );
 
   const audienceQuery = inputValue.startsWith("@") ? inputValue.slice(1).toLowerCase() : null;
   const audienceMatches =
     canBlast && audienceQuery !== null
       ? audienceOptions.filter(
           (a) =>
-            a.key.startsWith(audienceQuery) &&
+            (a.label ?? a.key).toLowerCase().includes(audienceQuery) &&
             !invitees.some((inv) => inv.type === "audience" && inv.key === a.key)
         )
       : [];
@@ -117,7 +141,7 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
   useEffect(() => {
     if (!open || !canBlast) return;
     let cancelled = false;
-    fetch("/api/audiences")
+    fetch(`/api/audiences?event=${encodeURIComponent(eventSlug)}`)
       .then((r) => (r.ok ? r.json() : { audiences: [] }))
       .then((data) => {
         if (!cancelled) setAudienceOptions(data.audiences || []);
@@ -126,7 +150,23 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
     return () => {
       cancelled = true;
     };
-  }, [open, canBlast]);
+  }, [open, canBlast, eventSlug]);
+
+  // Phone channels the server can send on. Attendance is recorded against
+  // accounts, so a past event never offers them.
+  useEffect(() => {
+    if (!open || isPast) return;
+    let cancelled = false;
+    fetch(`/api/events/${eventSlug}/invitations`)
+      .then((r) => (r.ok ? r.json() : { channels: [] }))
+      .then((data) => {
+        if (!cancelled) setPhoneChannels(data.channels || []);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isPast, eventSlug]);
 
   // Debounced user search
   useEffect(() => {
@@ -206,7 +246,7 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
     setInvitees((prev) =>
       prev.some((inv) => inv.type === "audience" && inv.key === option.key)
         ? prev
-        : [...prev, { type: "audience", key: option.key, count: option.count }]
+        : [...prev, { type: "audience", key: option.key, count: option.count, label: option.label }]
     );
     setInputValue("");
     setShowDropdown(false);
@@ -309,7 +349,7 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
       setInputValue("");
     }
 
-    if (finalInvitees.length === 0) {
+    if (finalInvitees.length === 0 && phoneInvitees.length === 0) {
       setError(t("noInvitees"));
       return;
     }
@@ -343,6 +383,7 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
         body: JSON.stringify({
           emails: emailInvitees,
           users: userInvitees,
+          phones: isPast ? undefined : phoneInvitees,
           audiences: audienceKeys,
           personalNote: personalNote.trim() || undefined,
           mode: isPast ? "attended" : undefined,
@@ -379,6 +420,10 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
       const failedUserIds = new Set(
         data.results.filter((r: InviteResult) => !r.success && r.userId).map((r: InviteResult) => r.userId)
       );
+      const failedPhones = new Set(
+        data.results.filter((r: InviteResult) => !r.success && r.phone).map((r: InviteResult) => r.phone)
+      );
+      setPhoneInvitees(phoneInvitees.filter((inv) => failedPhones.has(inv.phone)));
 
       setInvitees(invitees.filter(inv => {
         if (inv.type === "email") return failedEmails.has(inv.email);
@@ -420,6 +465,7 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
       setShowCelebration(false);
       setCelebrationCount(0);
       setPersonalNote("");
+      setPhoneInvitees([]);
     }
   };
 
@@ -521,7 +567,7 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
                         </div>
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium truncate">
-                            @{option.key === "all" ? t("audienceEveryone").toLowerCase() : option.key}
+                            @{audienceName(option)}
                           </p>
                           <p className="text-sm text-muted-foreground truncate">
                             {t("audiencePeople", { count: option.count })}
@@ -607,7 +653,7 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
                   ) : inv.type === "audience" ? (
                     <span className="flex items-center gap-1">
                       <span className="font-medium">
-                        @{inv.key === "all" ? t("audienceEveryone").toLowerCase() : inv.key}
+                        @{audienceName(inv)}
                       </span>
                       <span className="text-xs text-muted-foreground">
                         {t("audiencePeople", { count: inv.count })}
@@ -629,8 +675,17 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
             </div>
           )}
 
-          {/* Personal note — shown only for audience blasts */}
-          {invitees.some((inv) => inv.type === "audience") && (
+          {!isPast && (
+            <PhoneInviteeInput
+              invitees={phoneInvitees}
+              onInviteesChange={setPhoneInvitees}
+              channels={phoneChannels}
+              disabled={sending}
+            />
+          )}
+
+          {/* Personal note — shown for audience blasts and phone invites */}
+          {(invitees.some((inv) => inv.type === "audience") || phoneInvitees.length > 0) && (
             <div className="space-y-2">
               <Label className="text-sm font-medium">{t("personalNoteLabel")}</Label>
               <AIEnhanceTextarea
@@ -659,9 +714,15 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
                 </p>
               )}
               {results.filter(r => !r.success).map((r, idx) => (
-                <p key={r.email || r.userId || r.audienceKey || idx} className="text-sm text-destructive flex items-center gap-2">
+                <p key={r.email || r.userId || r.phone || r.audienceKey || idx} className="text-sm text-destructive flex items-center gap-2">
                   <X className="w-4 h-4" />
-                  {r.email || r.userId || (r.audienceKey ? `@${r.audienceKey}` : "")}: {r.error}
+                  {r.email ||
+                    r.userId ||
+                    r.phone ||
+                    (r.audienceKey
+                      ? `@${audienceName(audienceOptions.find((o) => o.key === r.audienceKey) ?? { key: r.audienceKey })}`
+                      : "")}
+                  : {r.error}
                 </p>
               ))}
             </div>
@@ -670,12 +731,15 @@ export function InviteModal({ eventSlug, eventTitle, eventDescription, startsAt,
           {/* Send button */}
           <Button
             onClick={handleSendInvites}
-            disabled={invitees.length === 0 || sending}
+            disabled={invitees.length + phoneInvitees.length === 0 || sending}
             className="w-full gap-2"
           >
             {isPast ? <UserCheck className="w-4 h-4" /> : <Send className="w-4 h-4" />}
             {t(isPast ? "markAttended" : "sendInvites", {
-              count: invitees.reduce((sum, inv) => sum + (inv.type === "audience" ? inv.count : 1), 0),
+              count: invitees.reduce(
+                (sum, inv) => sum + (inv.type === "audience" ? inv.count : 1),
+                phoneInvitees.length
+              ),
             })}
           </Button>
         </div>
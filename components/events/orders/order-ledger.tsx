@@ -0,0 +1,258 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Search, Check, X, Undo2, Wallet, Clock } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Link } from "@/lib/i18n/routing";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { UserAvatar } from "@/components/ui/user-avatar";
+import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import { formatTicketPrice } from "@/lib/payments/format";
+import type { TicketOrder, TicketOrderStatus } from "@/lib/types";
+
+interface OrderLedgerProps {
+  eventSlug: string;
+  eventTitle: string;
+  orders: TicketOrder[];
+}
+
+type Filter = "all" | TicketOrderStatus;
+
+const FILTERS: Filter[] = ["all", "pending", "paid", "refunded", "cancelled", "expired"];
+
+const STATUS_STYLES: Record<TicketOrderStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 dark:bg-amber-950/40 dark:text-amber-300",
+  paid: "bg-green-100 text-green-800 dark:bg-green-950/40 dark:text-green-300",
+  refunded: "bg-blue-100 text-blue-800 dark:bg-blue-950/40 dark:text-blue-300",
+  cancelled: "bg-muted text-muted-foreground",
+  expired: "bg-muted text-muted-foreground",
+};
+
+function buyerName(order: TicketOrder): string {
+  return order.profiles?.display_name || order.profiles?.username || "Anonymous";
+}
+
+function ticketCount(order: TicketOrder): number {
+  return (order.ticket_order_items ?? []).reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/**
+ * Host view of every order for an event: confirm bank transfers against the
+ * reference code in the memo, and refund paid orders.
+ */
+export function OrderLedger({ eventSlug, eventTitle, orders: initialOrders }: OrderLedgerProps) {
+  const t = useTranslations("tickets");
+  const router = useRouter();
+  const [orders, setOrders] = useState(initialOrders);
+  const [filter, setFilter] = useState<Filter>("all");
+  const [search, setSearch] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [, startTransition] = useTransition();
+
+  const stats = useMemo(() => {
+    const paid = orders.filter((o) => o.status === "paid");
+    const revenue = new Map<string, number>();
+    for (const order of paid) {
+      revenue.set(order.currency, (revenue.get(order.currency) ?? 0) + order.total_amount);
+    }
+    return {
+      ticketsSold: paid.reduce((sum, o) => sum + ticketCount(o), 0),
+      pending: orders.filter((o) => o.status === "pending").length,
+      revenue: [...revenue.entries()],
+    };
+  }, [orders]);
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return orders.filter((order) => {
+      if (filter !== "all" && order.status !== filter) return false;
+      if (!q) return true;
+      return (
+        order.reference_code.toLowerCase().includes(q) ||
+        buyerName(order).toLowerCase().includes(q) ||
+        (order.profiles?.username ?? "").toLowerCase().includes(q)
+      );
+    });
+  }, [orders, filter, search]);
+
+  function runAction(order: TicketOrder, action: "verify" | "cancel") {
+    if (action === "cancel" && order.status === "paid" && !confirm(t("refundConfirm"))) return;
+
+    setBusyId(order.id);
+    setError(null);
+    startTransition(async () => {
+      const res = await fetch(`/api/orders/${order.id}/${action}`, { method: "POST" });
+      const data = await res.json().catch(() => null);
+      setBusyId(null);
+
+      if (!res.ok) {
+        const key = `errors.${data?.error}`;
+        setError(t.has(key) ? t(key) : t("errors.generic"));
+        return;
+      }
+
+      const now = new Date().toISOString();
+      setOrders((prev) =>
+        prev.map((o) =>
+          o.id !== order.id
+            ? o
+            : action === "verify"
+              ? { ...o, status: "paid", paid_at: now }
+              : { ...o, status: data.status as TicketOrderStatus, cancelled_at: now }
+        )
+      );
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-background/95 backdrop-blur-sm border-b">
+        <div className="max-w-lg mx-auto px-4 py-3">
+          <Link
+            href={`/events/${eventSlug}`}
+            className="-ml-3 flex items-center gap-2 text-muted-foreground hover:text-foreground active:text-foreground active:scale-95 transition-all px-3 py-2 rounded-lg"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>{t("ordersTitle")}</span>
+          </Link>
+          <h1 className="text-lg font-semibold truncate mt-1">{eventTitle}</h1>
+        </div>
+      </div>
+
+      {/* Stats bar */}
+      <div className="max-w-lg mx-auto px-4 py-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex items-center gap-1.5">
+            <Check className="w-4 h-4 text-green-600" />
+            <span className="font-medium text-green-600">{t("ticketsSold", { count: stats.ticketsSold })}</span>
+          </div>
+          {stats.pending > 0 && (
+            <div className="flex items-center gap-1.5">
+              <Clock className="w-4 h-4 text-amber-500" />
+              <span className="font-medium text-amber-500">{t("pendingCount", { count: stats.pending })}</span>
+            </div>
+          )}
+          {stats.revenue.map(([currency, amount]) => (
+            <div key={currency} className="flex items-center gap-1.5">
+              <Wallet className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium">{formatTicketPrice(amount, currency)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("searchOrders")}
+            className="pl-9"
+          />
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {FILTERS.map((f) => (
+            <button
+              key={f}
+              type="button"
+              onClick={() => setFilter(f)}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-sm whitespace-nowrap border transition-colors",
+                filter === f ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground"
+              )}
+            >
+              {t(`status.${f}`)}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+
+      {/* Orders */}
+      <div className="max-w-lg mx-auto px-4 pb-8 space-y-2">
+        {visible.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">{t("noOrders")}</p>
+        ) : (
+          visible.map((order) => (
+            <div key={order.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center gap-3">
+                <UserAvatar
+                  src={order.profiles?.avatar_url}
+                  alt={buyerName(order)}
+                  size="sm"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{buyerName(order)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-mono">{order.reference_code}</span>
+                    {" · "}
+                    {formatInDaLat(order.created_at, "MMM d, HH:mm")}
+                  </p>
+                </div>
+                <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", STATUS_STYLES[order.status])}>
+                  {t(`status.${order.status}`)}
+                </span>
+              </div>
+
+              <ul className="text-sm text-muted-foreground">
+                {(order.ticket_order_items ?? []).map((item) => (
+                  <li key={item.id} className="flex justify-between">
+                    <span>
+                      {item.quantity} × {item.tier_name}
+                    </span>
+                    <span>{formatTicketPrice(item.unit_price * item.quantity, item.currency)}</span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{formatTicketPrice(order.total_amount, order.currency)}</span>
+                <div className="flex gap-2">
+                  {order.status === "pending" && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => runAction(order, "cancel")}
+                        disabled={busyId === order.id}
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        {t("cancelOrder")}
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => runAction(order, "verify")}
+                        disabled={busyId === order.id}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        {t("markPaid")}
+                      </Button>
+                    </>
+                  )}
+                  {order.status === "paid" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => runAction(order, "cancel")}
+                      disabled={busyId === order.id}
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      {t("refund")}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useLocale, useTranslations } from "next-intl";
+import { CAPACITY_TYPES, CONDITION_VALUE_TYPES } from "@/lib/questionnaire-logic";
+import type {
+  Locale,
+  MultilingualText,
+  OptionCapacities,
+  QuestionCondition,
+  QuestionConditionOperator,
+  ResolvedQuestion,
+} from "@/lib/types";
+
+type LogicQuestion = Pick<
+  ResolvedQuestion,
+  | "id"
+  | "question_type"
+  | "question_text"
+  | "options"
+  | "is_required"
+  | "show_if"
+  | "required_if"
+  | "option_capacities"
+>;
+
+type LogicPatch = Partial<Pick<LogicQuestion, "show_if" | "required_if" | "option_capacities">>;
+
+interface QuestionLogicEditorProps {
+  question: LogicQuestion;
+  /** Rules can only look back: these are the questions asked before this one */
+  earlierQuestions: LogicQuestion[];
+  onChange: (patch: LogicPatch) => void;
+}
+
+function getLocalizedText(text: MultilingualText | null | undefined, locale: Locale): string {
+  if (!text) return "";
+  return text[locale] || text.en || Object.values(text)[0] || "";
+}
+
+const selectClassName = "w-full px-3 py-2 text-sm border rounded-lg bg-background";
+
+function ConditionPicker({
+  label,
+  emptyLabel,
+  condition,
+  sources,
+  onChange,
+}: {
+  label: string;
+  /** What having no rule means: "Always" shown, "Never" required */
+  emptyLabel: string;
+  condition: QuestionCondition | null;
+  sources: LogicQuestion[];
+  onChange: (condition: QuestionCondition | null) => void;
+}) {
+  const t = useTranslations("questionnaireBuilder.logic");
+  const locale = useLocale() as Locale;
+  const source = sources.find((q) => q.id === condition?.question_id);
+  const comparesValue = !!source && CONDITION_VALUE_TYPES.includes(source.question_type) && !!source.options?.length;
+
+  const selectSource = (questionId: string) => {
+    const next = sources.find((q) => q.id === questionId);
+    if (!next) {
+      onChange(null);
+      return;
+    }
+    const firstOption = next.options?.[0]?.value;
+    onChange(
+      CONDITION_VALUE_TYPES.includes(next.question_type) && firstOption
+        ? { question_id: next.id, operator: "equals", value: firstOption }
+        : { question_id: next.id, operator: "answered" }
+    );
+  };
+
+  const selectOperator = (operator: QuestionConditionOperator) => {
+    if (!condition) return;
+    onChange(
+      operator === "answered"
+        ? { question_id: condition.question_id, operator }
+        : { ...condition, operator, value: condition.value ?? source?.options?.[0]?.value }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-muted-foreground">{label}</label>
+      <select
+        value={condition?.question_id ?? ""}
+        onChange={(e) => selectSource(e.target.value)}
+        className={selectClassName}
+      >
+        <option value="">{emptyLabel}</option>
+        {sources.map((q) => (
+          <option key={q.id} value={q.id}>
+            {getLocalizedText(q.question_text, locale)}
+          </option>
+        ))}
+      </select>
+      {condition && source && (
+        <div className="flex gap-2">
+          <select
+            value={condition.operator}
+            onChange={(e) => selectOperator(e.target.value as QuestionConditionOperator)}
+            className={selectClassName}
+          >
+            {comparesValue && <option value="equals">{t("operators.equals")}</option>}
+            {comparesValue && <option value="not_equals">{t("operators.not_equals")}</option>}
+            <option value="answered">{t("operators.answered")}</option>
+          </select>
+          {condition.operator !== "answered" && comparesValue && (
+            <select
+              value={condition.value ?? ""}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              className={selectClassName}
+            >
+              {source.options!.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {getLocalizedText(option.label, locale)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Branching ("show only if…"), required-if and per-option capacity settings
+ * for one question in the builder.
+ */
+export function QuestionLogicEditor({ question, earlierQuestions, onChange }: QuestionLogicEditorProps) {
+  const t = useTranslations("questionnaireBuilder.logic");
+  const locale = useLocale() as Locale;
+  const hasCapacities = CAPACITY_TYPES.includes(question.question_type) && !!question.options?.length;
+
+  const setCapacity = (value: string, raw: string) => {
+    const capacities: OptionCapacities = { ...question.option_capacities };
+    const max = parseInt(raw.replace(/\D/g, ""), 10);
+    if (Number.isFinite(max) && max >= 0) {
+      capacities[value] = max;
+    } else {
+      delete capacities[value];
+    }
+    onChange({ option_capacities: Object.keys(capacities).length > 0 ? capacities : null });
+  };
+
+  return (
+    <div className="space-y-4 p-3 border-t bg-muted/30">
+      {earlierQuestions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t("firstQuestionHint")}</p>
+      ) : (
+        <>
+          <ConditionPicker
+            label={t("showIf")}
+            emptyLabel={t("always")}
+            condition={question.show_if}
+            sources={earlierQuestions}
+            onChange={(show_if) => onChange({ show_if })}
+          />
+          {!question.is_required && (
+            <ConditionPicker
+              label={t("requiredIf")}
+              emptyLabel={t("never")}
+              condition={question.required_if}
+              sources={earlierQuestions}
+              onChange={(required_if) => onChange({ required_if })}
+            />
+          )}
+        </>
+      )}
+
+      {hasCapacities && (
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-muted-foreground">{t("capacity")}</label>
+          {question.options!.map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <span className="flex-1 min-w-0 truncate text-sm">{getLocalizedText(option.label, locale)}</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                value={question.option_capacities?.[option.value] ?? ""}
+                onChange={(e) => setCapacity(option.value, e.target.value)}
+                placeholder={t("unlimited")}
+                className="w-28 px-3 py-1.5 text-sm border rounded-lg bg-background"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">{t("capacityHint")}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,20 +2,33 @@
 
 import { useState, useTransition, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { Plus, GripVertical, Trash2, Check, Loader2, Save, Eye, ChevronDown, ChevronUp } from "lucide-react";
+import { Plus, GripVertical, Trash2, Check, Loader2, Save, Eye, ChevronDown, ChevronUp, Copy, GitBranch } from "lucide-react";
 import { useLocale, useTranslations } from "next-intl";
+import { toast } from "sonner";
 import { createClient } from "@/lib/supabase/client";
 import { Button } from "@/components/ui/button";
 import { triggerHaptic } from "@/lib/haptics";
 import { cn } from "@/lib/utils";
+import { dropForwardConditions } from "@/lib/questionnaire-logic";
 import { QuestionnaireFlow } from "@/components/questionnaire";
+import { QuestionLogicEditor } from "./question-logic-editor";
+import { CustomQuestionForm, type CustomQuestionDraft } from "./custom-question-form";
 import {
   Sheet,
   SheetContent,
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
-import type { Locale, QuestionType, QuestionCategory, MultilingualText, QuestionOption } from "@/lib/types";
+import type {
+  Locale,
+  QuestionType,
+  QuestionCategory,
+  QuestionnaireKind,
+  MultilingualText,
+  QuestionOption,
+  QuestionCondition,
+  OptionCapacities,
+} from "@/lib/types";
 
 interface QuestionTemplate {
   id: string;
@@ -36,8 +49,13 @@ interface EventQuestion {
   question_text: MultilingualText;
   description_text: MultilingualText | null;
   options: QuestionOption[] | null;
+  show_if: QuestionCondition | null;
+  required_if: QuestionCondition | null;
+  option_capacities: OptionCapacities | null;
 }
 
+type LogicPatch = Partial<Pick<EventQuestion, "show_if" | "required_if" | "option_capacities">>;
+
 interface QuestionnaireBuilderProps {
   eventId: string;
   eventTitle: string;
@@ -47,6 +65,9 @@ interface QuestionnaireBuilderProps {
   introText: MultilingualText | null;
   questions: EventQuestion[];
   templates: QuestionTemplate[];
+  kind?: QuestionnaireKind;
+  /** Post-event surveys on a series date can be copied to the later dates */
+  isSeriesEvent?: boolean;
 }
 
 // Helper to get localized text
@@ -55,15 +76,6 @@ function getLocalizedText(text: MultilingualText | null | undefined, locale: Loc
   return text[locale] || text.en || Object.values(text)[0] || "";
 }
 
-// Category labels
-const categoryLabels: Record<QuestionCategory | string, string> = {
-  logistics: "Logistics",
-  dietary: "Dietary",
-  contribution: "Contribution",
-  personal: "Personal Info",
-  custom: "Custom",
-};
-
 export function QuestionnaireBuilder({
   eventId,
   eventTitle,
@@ -73,12 +85,16 @@ export function QuestionnaireBuilder({
   introText: initialIntroText,
   questions: initialQuestions,
   templates,
+  kind = "rsvp",
+  isSeriesEvent = false,
 }: QuestionnaireBuilderProps) {
   const router = useRouter();
   const locale = useLocale() as Locale;
   const t = useTranslations("questionnaireBuilder");
   const [isPending, startTransition] = useTransition();
   const [saved, setSaved] = useState(false);
+  const [isCopying, setIsCopying] = useState(false);
+  const isSurvey = kind === "post_event";
 
   // Form state
   const [isEnabled, setIsEnabled] = useState(initialIsEnabled);
@@ -88,6 +104,8 @@ export function QuestionnaireBuilder({
   const [questions, setQuestions] = useState<EventQuestion[]>(initialQuestions);
   const [showPreview, setShowPreview] = useState(false);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
+  const [logicQuestionId, setLogicQuestionId] = useState<string | null>(null);
+  const [showCustomForm, setShowCustomForm] = useState(false);
 
   // Group templates by category
   const templatesByCategory = templates.reduce((acc, template) => {
@@ -109,7 +127,8 @@ export function QuestionnaireBuilder({
     setQuestions((prev) => [
       ...prev,
       {
-        id: `new-${Date.now()}`,
+        // Real ids up front so show_if / required_if can point at unsaved questions
+        id: crypto.randomUUID(),
         template_id: template.id,
         sort_order: prev.length,
         is_required: false,
@@ -117,30 +136,64 @@ export function QuestionnaireBuilder({
         question_text: template.question_text,
         description_text: template.description_text,
         options: template.options,
+        show_if: null,
+        required_if: null,
+        option_capacities: null,
+      },
+    ]);
+  }, []);
+
+  // Add a question written by the organizer
+  const addCustomQuestion = useCallback((draft: CustomQuestionDraft) => {
+    triggerHaptic("selection");
+    setQuestions((prev) => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        template_id: null,
+        sort_order: prev.length,
+        is_required: false,
+        question_type: draft.question_type,
+        question_text: draft.question_text,
+        description_text: null,
+        options: draft.options,
+        show_if: null,
+        required_if: null,
+        option_capacities: null,
       },
     ]);
+    setShowCustomForm(false);
   }, []);
 
-  // Remove question
+  // Remove question (and any rules that depended on it)
   const removeQuestion = useCallback((questionId: string) => {
     triggerHaptic("selection");
     setQuestions((prev) =>
-      prev
-        .filter((q) => q.id !== questionId)
-        .map((q, i) => ({ ...q, sort_order: i }))
+      dropForwardConditions(
+        prev
+          .filter((q) => q.id !== questionId)
+          .map((q, i) => ({ ...q, sort_order: i }))
+      )
     );
   }, []);
 
-  // Toggle required
+  // Toggle required; an always-required question needs no required-if rule
   const toggleRequired = useCallback((questionId: string) => {
     triggerHaptic("selection");
     setQuestions((prev) =>
       prev.map((q) =>
-        q.id === questionId ? { ...q, is_required: !q.is_required } : q
+        q.id === questionId
+          ? { ...q, is_required: !q.is_required, required_if: q.is_required ? q.required_if : null }
+          : q
       )
     );
   }, []);
 
+  // Update branching, required-if or capacity settings
+  const updateQuestionLogic = useCallback((questionId: string, patch: LogicPatch) => {
+    setQuestions((prev) => prev.map((q) => (q.id === questionId ? { ...q, ...patch } : q)));
+  }, []);
+
   // Move question up
   const moveQuestionUp = useCallback((index: number) => {
     if (index === 0) return;
@@ -151,7 +204,7 @@ export function QuestionnaireBuilder({
         newQuestions[index],
         newQuestions[index - 1],
       ];
-      return newQuestions.map((q, i) => ({ ...q, sort_order: i }));
+      return dropForwardConditions(newQuestions.map((q, i) => ({ ...q, sort_order: i })));
     });
   }, []);
 
@@ -165,7 +218,7 @@ export function QuestionnaireBuilder({
         newQuestions[index + 1],
         newQuestions[index],
       ];
-      return newQuestions.map((q, i) => ({ ...q, sort_order: i }));
+      return dropForwardConditions(newQuestions.map((q, i) => ({ ...q, sort_order: i })));
     });
   }, []);
 
@@ -198,10 +251,11 @@ export function QuestionnaireBuilder({
             {
               id: questionnaireId || undefined,
               event_id: eventId,
+              kind,
               is_enabled: isEnabled,
               intro_text: introTextJson,
             },
-            { onConflict: "event_id" }
+            { onConflict: "event_id,kind" }
           )
           .select("id")
           .single();
@@ -213,29 +267,44 @@ export function QuestionnaireBuilder({
 
         const newQuestionnaireId = qData.id;
 
-        // 2. Delete existing questions
-        await supabase
+        // 2. Delete removed questions only: rewriting every row would cascade
+        // away the answers already given and break rules between questions
+        const keptIds = questions.map((q) => q.id);
+        let deleteQuery = supabase
           .from("event_questions")
           .delete()
           .eq("questionnaire_id", newQuestionnaireId);
+        if (keptIds.length > 0) {
+          deleteQuery = deleteQuery.not("id", "in", `(${keptIds.join(",")})`);
+        }
+        const { error: deleteError } = await deleteQuery;
 
-        // 3. Insert new questions
+        if (deleteError) {
+          console.error("Failed to remove questions:", deleteError);
+          return;
+        }
+
+        // 3. Upsert the remaining questions
         if (questions.length > 0) {
           const questionRows = questions.map((q, index) => ({
+            id: q.id,
             questionnaire_id: newQuestionnaireId,
             template_id: q.template_id,
             sort_order: index,
-            is_required: q.is_required,
+            custom_is_required: q.is_required,
             // Only include custom text if no template
             custom_question_text: q.template_id ? null : q.question_text,
             custom_description_text: q.template_id ? null : q.description_text,
             custom_options: q.template_id ? null : q.options,
             custom_question_type: q.template_id ? null : q.question_type,
+            show_if: q.show_if,
+            required_if: q.required_if,
+            option_capacities: q.option_capacities,
           }));
 
           const { error: insertError } = await supabase
             .from("event_questions")
-            .insert(questionRows);
+            .upsert(questionRows, { onConflict: "id" });
 
           if (insertError) {
             console.error("Failed to save questions:", insertError);
@@ -251,7 +320,25 @@ export function QuestionnaireBuilder({
         console.error("Failed to save questionnaire:", error);
       }
     });
-  }, [eventId, questionnaireId, isEnabled, introText, questions, locale, router]);
+  }, [eventId, kind, questionnaireId, isEnabled, introText, questions, locale, router]);
+
+  // Copy the saved survey to the later dates of the series
+  const copyToSeries = useCallback(async () => {
+    const supabase = createClient();
+    setIsCopying(true);
+    const { data, error } = await supabase.rpc("copy_survey_to_series", {
+      p_event_id: eventId,
+    });
+    setIsCopying(false);
+
+    if (error) {
+      console.error("Failed to copy survey to series:", error);
+      toast.error(t("survey.copyFailed"));
+      return;
+    }
+    triggerHaptic("success");
+    toast.success(t("survey.copied", { count: (data as number) ?? 0 }));
+  }, [eventId, t]);
 
   // Preview questions for QuestionnaireFlow
   const previewQuestions = questions.map((q) => ({
@@ -263,6 +350,10 @@ export function QuestionnaireBuilder({
     description_text: q.description_text,
     options: q.options,
     is_required: q.is_required,
+    show_if: q.show_if,
+    required_if: q.required_if,
+    option_capacities: q.option_capacities,
+    option_counts: null,
   }));
 
   return (
@@ -288,10 +379,10 @@ export function QuestionnaireBuilder({
               isEnabled ? "text-primary" : "text-foreground"
             )}
           >
-            {t("enableQuestionnaire")}
+            {isSurvey ? t("survey.enable") : t("enableQuestionnaire")}
           </p>
           <p className="text-xs text-muted-foreground">
-            {t("enableDescription")}
+            {isSurvey ? t("survey.enableDescription") : t("enableDescription")}
           </p>
         </div>
         <div
@@ -354,60 +445,79 @@ export function QuestionnaireBuilder({
             ) : (
               <div className="space-y-2">
                 {questions.map((question, index) => (
-                  <div
-                    key={question.id}
-                    className="flex items-center gap-2 p-3 border rounded-lg bg-card"
-                  >
-                    <div className="flex flex-col gap-1">
+                  <div key={question.id} className="border rounded-lg bg-card overflow-hidden">
+                    <div className="flex items-center gap-2 p-3">
+                      <div className="flex flex-col gap-1">
+                        <button
+                          type="button"
+                          onClick={() => moveQuestionUp(index)}
+                          disabled={index === 0}
+                          className="p-1 hover:bg-muted rounded disabled:opacity-30"
+                        >
+                          <ChevronUp className="w-3 h-3" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveQuestionDown(index)}
+                          disabled={index === questions.length - 1}
+                          className="p-1 hover:bg-muted rounded disabled:opacity-30"
+                        >
+                          <ChevronDown className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {getLocalizedText(question.question_text, locale)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {t(`types.${question.question_type}`)}
+                          {question.is_required && ` · ${t("required")}`}
+                          {(question.show_if || question.required_if) && ` · ${t("logic.conditional")}`}
+                          {question.option_capacities && ` · ${t("logic.limited")}`}
+                        </p>
+                      </div>
                       <button
                         type="button"
-                        onClick={() => moveQuestionUp(index)}
-                        disabled={index === 0}
-                        className="p-1 hover:bg-muted rounded disabled:opacity-30"
+                        onClick={() =>
+                          setLogicQuestionId((current) => (current === question.id ? null : question.id))
+                        }
+                        aria-label={t("logic.title")}
+                        className={cn(
+                          "p-2 rounded transition-colors",
+                          logicQuestionId === question.id || question.show_if || question.required_if
+                            ? "text-primary hover:bg-primary/10"
+                            : "text-muted-foreground hover:bg-muted"
+                        )}
                       >
-                        <ChevronUp className="w-3 h-3" />
+                        <GitBranch className="w-4 h-4" />
                       </button>
                       <button
                         type="button"
-                        onClick={() => moveQuestionDown(index)}
-                        disabled={index === questions.length - 1}
-                        className="p-1 hover:bg-muted rounded disabled:opacity-30"
+                        onClick={() => toggleRequired(question.id)}
+                        className={cn(
+                          "px-2 py-1 text-xs rounded-full transition-colors",
+                          question.is_required
+                            ? "bg-primary/10 text-primary"
+                            : "bg-muted text-muted-foreground hover:bg-muted/80"
+                        )}
                       >
-                        <ChevronDown className="w-3 h-3" />
+                        {question.is_required ? t("required") : t("optional")}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeQuestion(question.id)}
+                        className="p-2 hover:bg-destructive/10 hover:text-destructive rounded transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
                       </button>
                     </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">
-                        {getLocalizedText(question.question_text, locale)}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        {question.question_type === "single_choice"
-                          ? t("singleChoice")
-                          : question.question_type === "multi_choice"
-                            ? t("multiChoice")
-                            : t("textInput")}
-                        {question.is_required && ` · ${t("required")}`}
-                      </p>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={() => toggleRequired(question.id)}
-                      className={cn(
-                        "px-2 py-1 text-xs rounded-full transition-colors",
-                        question.is_required
-                          ? "bg-primary/10 text-primary"
-                          : "bg-muted text-muted-foreground hover:bg-muted/80"
-                      )}
-                    >
-                      {question.is_required ? t("required") : t("optional")}
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => removeQuestion(question.id)}
-                      className="p-2 hover:bg-destructive/10 hover:text-destructive rounded transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {logicQuestionId === question.id && (
+                      <QuestionLogicEditor
+                        question={question}
+                        earlierQuestions={questions.slice(0, index)}
+                        onChange={(patch) => updateQuestionLogic(question.id, patch)}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -426,7 +536,7 @@ export function QuestionnaireBuilder({
                     className="w-full flex items-center justify-between p-3 bg-muted/50 hover:bg-muted transition-colors"
                   >
                     <span className="text-sm font-medium">
-                      {categoryLabels[category] || category}
+                      {t(`categories.${category}`)}
                     </span>
                     <div className="flex items-center gap-2">
                       <span className="text-xs text-muted-foreground">
@@ -478,11 +588,7 @@ export function QuestionnaireBuilder({
                               )}
                             </div>
                             <span className="text-xs text-muted-foreground flex-shrink-0">
-                              {template.question_type === "single_choice"
-                                ? t("singleChoice")
-                                : template.question_type === "multi_choice"
-                                  ? t("multiChoice")
-                                  : t("textInput")}
+                              {t(`types.${template.question_type}`)}
                             </span>
                           </button>
                         );
@@ -492,6 +598,22 @@ export function QuestionnaireBuilder({
                 </div>
               ))}
             </div>
+            {showCustomForm ? (
+              <CustomQuestionForm
+                onAdd={addCustomQuestion}
+                onCancel={() => setShowCustomForm(false)}
+              />
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowCustomForm(true)}
+                className="w-full gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                {t("addCustom")}
+              </Button>
+            )}
           </div>
         </div>
       )}
@@ -512,11 +634,27 @@ export function QuestionnaireBuilder({
             </span>
           )}
         </div>
-        <Button onClick={saveQuestionnaire} disabled={isPending} className="gap-2">
-          <Save className="w-4 h-4" />
-          {t("save")}
-        </Button>
+        <div className="flex items-center gap-2">
+          {isSurvey && isSeriesEvent && questionnaireId && (
+            <Button
+              variant="outline"
+              onClick={copyToSeries}
+              disabled={isPending || isCopying}
+              className="gap-2"
+            >
+              {isCopying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+              {t("survey.copyToSeries")}
+            </Button>
+          )}
+          <Button onClick={saveQuestionnaire} disabled={isPending} className="gap-2">
+            <Save className="w-4 h-4" />
+            {t("save")}
+          </Button>
+        </div>
       </div>
+      {isSurvey && isSeriesEvent && questionnaireId && (
+        <p className="text-xs text-muted-foreground -mt-4">{t("survey.copyHint")}</p>
+      )}
 
       {/* Preview Sheet */}
       <Sheet open={showPreview} onOpenChange={setShowPreview}>
@@ -529,6 +667,7 @@ export function QuestionnaireBuilder({
               questions={previewQuestions}
               introText={introText ? { [locale]: introText } : null}
               eventTitle={eventTitle}
+              variant={isSurvey ? "survey" : "rsvp"}
               onSubmit={async () => {
                 setShowPreview(false);
                 triggerHaptic("success");
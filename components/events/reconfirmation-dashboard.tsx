@@ -1,12 +1,33 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useTransition } from "react";
 import { useTranslations } from "next-intl";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { CheckCircle2, Clock, Bell, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, Clock, Bell, Loader2, Hourglass } from "lucide-react";
 import { Link } from "@/lib/i18n/routing";
+import { createClient } from "@/lib/supabase/client";
+import type { WaitlistOffer, WaitlistOfferStatus } from "@/lib/types";
+
+// Claim window choices, in minutes (the DB allows 15 min – 48 h)
+const CLAIM_WINDOW_OPTIONS = [30, 60, 120, 360, 720, 1440];
+
+const OFFER_STATUS_STYLES: Record<WaitlistOfferStatus, string> = {
+  pending: "text-amber-600",
+  claimed: "text-green-600",
+  declined: "text-muted-foreground",
+  expired: "text-red-500",
+  withdrawn: "text-muted-foreground",
+};
 
 interface Attendee {
   user_id: string;
@@ -28,6 +49,8 @@ interface ReconfirmationDashboardProps {
   confirmedAttendees: Attendee[];
   pendingAttendees: Attendee[];
   lastRePingAt: string | null;
+  waitlistOffers: WaitlistOffer[];
+  claimWindowMinutes: number;
 }
 
 export function ReconfirmationDashboard({
@@ -40,11 +63,15 @@ export function ReconfirmationDashboard({
   confirmedAttendees,
   pendingAttendees,
   lastRePingAt,
+  waitlistOffers,
+  claimWindowMinutes,
 }: ReconfirmationDashboardProps) {
   const t = useTranslations("reconfirmation");
   const [isRePinging, setIsRePinging] = useState(false);
   const [rePingResult, setRePingResult] = useState<string | null>(null);
   const [lastPing, setLastPing] = useState(lastRePingAt);
+  const [claimWindow, setClaimWindow] = useState(claimWindowMinutes);
+  const [isSavingWindow, startSavingWindow] = useTransition();
 
   const confirmRate = totalGoing > 0 ? Math.round((confirmed / totalGoing) * 100) : 0;
 
@@ -73,6 +100,30 @@ export function ReconfirmationDashboard({
     }
   }
 
+  function handleClaimWindowChange(value: string) {
+    const minutes = parseInt(value, 10);
+    const previous = claimWindow;
+    setClaimWindow(minutes);
+
+    startSavingWindow(async () => {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from("events")
+        .update({ waitlist_claim_minutes: minutes })
+        .eq("id", eventId);
+      if (error) {
+        console.error("Failed to update claim window:", error);
+        setClaimWindow(previous);
+      }
+    });
+  }
+
+  function formatClaimWindow(minutes: number) {
+    return minutes < 60
+      ? t("claimWindowMinutes", { count: minutes })
+      : t("claimWindowHours", { count: minutes / 60 });
+  }
+
   return (
     <div className="space-y-6">
       {/* Stats Grid */}
@@ -144,6 +195,45 @@ export function ReconfirmationDashboard({
         </div>
       )}
 
+      {/* Waitlist Offers */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <Hourglass className="w-4 h-4 text-amber-500" />
+            {t("offerQueue")}
+          </h3>
+          <Select
+            value={String(claimWindow)}
+            onValueChange={handleClaimWindowChange}
+            disabled={isSavingWindow}
+          >
+            <SelectTrigger className="w-36 h-8 text-xs" aria-label={t("claimWindow")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {/* Keep a custom value set elsewhere selectable */}
+              {[...new Set([...CLAIM_WINDOW_OPTIONS, claimWindow])]
+                .sort((a, b) => a - b)
+                .map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {formatClaimWindow(minutes)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">{t("claimWindowHint")}</p>
+        {waitlistOffers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("noOffers")}</p>
+        ) : (
+          <div className="space-y-2">
+            {waitlistOffers.map((offer) => (
+              <OfferRow key={offer.id} offer={offer} eventSlug={eventSlug} />
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Confirmed Attendees */}
       {confirmedAttendees.length > 0 && (
         <div>
@@ -187,6 +277,36 @@ export function ReconfirmationDashboard({
   );
 }
 
+function OfferRow({ offer, eventSlug }: { offer: WaitlistOffer; eventSlug: string }) {
+  const t = useTranslations("reconfirmation");
+  const profile = offer.profiles;
+  const name = profile?.display_name || profile?.username || "?";
+
+  const detail =
+    offer.status === "pending"
+      ? t("offerExpires", { time: formatDistanceToNow(new Date(offer.expires_at), { addSuffix: true }) })
+      : t(`offerStatus.${offer.status}`);
+
+  return (
+    <Link
+      href={profile?.username ? `/${profile.username}` : `/events/${eventSlug}`}
+      className="flex items-center gap-3 p-2 -mx-2 rounded-lg hover:bg-muted transition-colors"
+    >
+      <Avatar className="h-8 w-8">
+        <AvatarImage src={profile?.avatar_url || undefined} />
+        <AvatarFallback className="text-xs">{name.slice(0, 2)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{name}</p>
+        {offer.spots > 1 && (
+          <p className="text-xs text-muted-foreground">{t("offerSpots", { count: offer.spots })}</p>
+        )}
+      </div>
+      <span className={`text-xs shrink-0 ${OFFER_STATUS_STYLES[offer.status]}`}>{detail}</span>
+    </Link>
+  );
+}
+
 function AttendeeRow({
   attendee,
   status,
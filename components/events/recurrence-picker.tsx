@@ -12,16 +12,26 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Repeat, ChevronDown, ChevronUp } from "lucide-react";
+import { Repeat, ChevronDown, ChevronUp, Plus, X } from "lucide-react";
 import {
   getRecurrencePresets,
-  buildRRule,
   parseRRule,
-  describeRRule,
+  describeRecurrence,
   getDefaultRecurrenceData,
+  isSameRecurrencePattern,
 } from "@/lib/recurrence";
 import type { RecurrenceFormData, RecurrencePreset } from "@/lib/types";
 
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const MONTH_POSITIONS = [1, 2, 3, 4, -1];
+// Day sets that combine with BYSETPOS ("last weekday of the month")
+const DAY_SETS: Record<string, string[]> = {
+  weekday: ["MO", "TU", "WE", "TH", "FR"],
+  weekendDay: ["SA", "SU"],
+};
+
+type MonthlyMode = "monthDay" | "weekday";
+
 interface RecurrencePickerProps {
   selectedDate: Date | null;
   value: RecurrenceFormData;
@@ -38,6 +48,8 @@ export function RecurrencePicker({
   const t = useTranslations("recurrence");
   const [showCustom, setShowCustom] = useState(false);
   const [presets, setPresets] = useState<RecurrencePreset[]>([]);
+  const [pendingExcludeDate, setPendingExcludeDate] = useState("");
+  const [pendingExtraDate, setPendingExtraDate] = useState("");
 
   const END_TYPE_OPTIONS = [
     { value: "never", label: t("never") },
@@ -68,7 +80,11 @@ export function RecurrencePicker({
     const preset = presets.find((p) => p.id === presetId);
     if (preset) {
       const parsed = parseRRule(preset.rrule);
-      onChange(parsed);
+      onChange({
+        ...parsed,
+        excludeDates: value.excludeDates,
+        extraDates: value.extraDates,
+      });
       setShowCustom(false);
     }
   };
@@ -77,19 +93,9 @@ export function RecurrencePicker({
   const getCurrentPresetId = (): string => {
     if (!value.isRecurring) return "none";
 
-    const currentRRule = buildRRule(value);
-    const matchingPreset = presets.find((p) => {
-      const presetData = parseRRule(p.rrule);
-      return (
-        presetData.frequency === value.frequency &&
-        presetData.interval === value.interval &&
-        JSON.stringify(presetData.weekDays.sort()) ===
-          JSON.stringify(value.weekDays.sort()) &&
-        presetData.monthDay === value.monthDay &&
-        JSON.stringify(presetData.monthWeekDay) ===
-          JSON.stringify(value.monthWeekDay)
-      );
-    });
+    const matchingPreset = presets.find((p) =>
+      isSameRecurrencePattern(parseRRule(p.rrule), value)
+    );
 
     return matchingPreset?.id || "custom";
   };
@@ -106,6 +112,78 @@ export function RecurrencePicker({
     });
   };
 
+  const monthlyMode: MonthlyMode =
+    value.monthWeekDays.length > 0 || value.setPositions.length > 0 ? "weekday" : "monthDay";
+
+  // Positions/day currently picked in "weekday" mode, whichever encoding holds them
+  const selectedPositions =
+    value.monthWeekDays.length > 0
+      ? value.monthWeekDays.map((m) => m.week)
+      : value.setPositions;
+  const selectedDayKey =
+    value.monthWeekDays[0]?.day ??
+    Object.keys(DAY_SETS).find(
+      (key) => [...DAY_SETS[key]].sort().join() === [...value.weekDays].sort().join()
+    ) ??
+    value.weekDays[0] ??
+    "MO";
+
+  // A single weekday uses positional BYDAY (1MO,3MO); a day set uses BYSETPOS
+  const setMonthlyWeekday = (positions: number[], dayKey: string) => {
+    const base = { ...value, isRecurring: true, monthDays: [] };
+    if (DAY_SETS[dayKey]) {
+      onChange({ ...base, weekDays: DAY_SETS[dayKey], monthWeekDays: [], setPositions: positions });
+    } else {
+      onChange({
+        ...base,
+        weekDays: [],
+        monthWeekDays: positions.map((week) => ({ week, day: dayKey })),
+        setPositions: [],
+      });
+    }
+  };
+
+  const handleMonthlyModeChange = (mode: MonthlyMode) => {
+    if (mode === "weekday" && selectedDate) {
+      const weekOfMonth = Math.ceil(selectedDate.getDate() / 7);
+      setMonthlyWeekday([Math.min(weekOfMonth, 4)], WEEKDAYS[(selectedDate.getDay() + 6) % 7]);
+    } else if (mode === "monthDay" && selectedDate) {
+      onChange({
+        ...value,
+        isRecurring: true,
+        weekDays: [],
+        monthWeekDays: [],
+        setPositions: [],
+        monthDays: [selectedDate.getDate()],
+      });
+    }
+  };
+
+  const toggleMonthDay = (day: number) => {
+    const next = value.monthDays.includes(day)
+      ? value.monthDays.filter((d) => d !== day)
+      : [...value.monthDays, day];
+    // Positive days ascending, "last day" (-1) at the end
+    updateField("monthDays", next.sort((a, b) => (a < 0 ? 32 : a) - (b < 0 ? 32 : b)));
+  };
+
+  const togglePosition = (position: number) => {
+    const next = selectedPositions.includes(position)
+      ? selectedPositions.filter((p) => p !== position)
+      : [...selectedPositions, position];
+    if (next.length === 0) return;
+    setMonthlyWeekday(next.sort((a, b) => (a < 0 ? 9 : a) - (b < 0 ? 9 : b)), selectedDayKey);
+  };
+
+  const addDate = (field: "excludeDates" | "extraDates", date: string) => {
+    if (!date || value[field].includes(date)) return;
+    updateField(field, [...value[field], date].sort());
+  };
+
+  const removeDate = (field: "excludeDates" | "extraDates", date: string) => {
+    updateField(field, value[field].filter((d) => d !== date));
+  };
+
   if (!selectedDate) {
     return null;
   }
@@ -212,6 +290,77 @@ export function RecurrencePicker({
             </div>
           )}
 
+          {/* Day Selection for Monthly */}
+          {value.frequency === "MONTHLY" && (
+            <div className="space-y-2">
+              <Select
+                value={monthlyMode}
+                onValueChange={(v) => handleMonthlyModeChange(v as MonthlyMode)}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthDay">{t("monthly.byMonthDay")}</SelectItem>
+                  <SelectItem value="weekday">{t("monthly.byWeekday")}</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {monthlyMode === "monthDay" ? (
+                <div className="grid grid-cols-7 gap-1">
+                  {Array.from({ length: 31 }, (_, i) => i + 1)
+                    .concat(-1)
+                    .map((day) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        variant={value.monthDays.includes(day) ? "default" : "outline"}
+                        size="sm"
+                        className={day === -1 ? "col-span-4 h-8 px-2" : "w-8 h-8 p-0"}
+                        onClick={() => toggleMonthDay(day)}
+                      >
+                        {day === -1 ? t("monthly.lastDay") : day}
+                      </Button>
+                    ))}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-1">
+                    {MONTH_POSITIONS.map((position) => (
+                      <Button
+                        key={position}
+                        type="button"
+                        variant={selectedPositions.includes(position) ? "default" : "outline"}
+                        size="sm"
+                        className="h-8 px-3"
+                        onClick={() => togglePosition(position)}
+                      >
+                        {t(`describe.ordinal.${position}`)}
+                      </Button>
+                    ))}
+                  </div>
+                  <Select
+                    value={selectedDayKey}
+                    onValueChange={(dayKey) => setMonthlyWeekday(selectedPositions, dayKey)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((day) => (
+                        <SelectItem key={day} value={day}>
+                          {t(`describe.day.${day}`)}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="weekday">{t("describe.weekday")}</SelectItem>
+                      <SelectItem value="weekendDay">{t("describe.weekendDay")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* End Condition */}
           <div className="space-y-2">
             <Label className="text-sm text-muted-foreground">{t("ends")}</Label>
@@ -262,12 +411,61 @@ export function RecurrencePicker({
             </div>
           </div>
 
+          {/* Skipped (EXDATE) and extra (RDATE) dates */}
+          {([
+            ["excludeDates", t("skipDates"), pendingExcludeDate, setPendingExcludeDate],
+            ["extraDates", t("extraDates"), pendingExtraDate, setPendingExtraDate],
+          ] as const).map(([field, label, pending, setPending]) => (
+            <div key={field} className="space-y-2">
+              <Label className="text-sm text-muted-foreground">{label}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={pending}
+                  onChange={(e) => setPending(e.target.value)}
+                  className="w-40"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={!pending}
+                  onClick={() => {
+                    addDate(field, pending);
+                    setPending("");
+                  }}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  {t("addDate")}
+                </Button>
+              </div>
+              {value[field].length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {value[field].map((date) => (
+                    <span
+                      key={date}
+                      className="inline-flex items-center gap-1 rounded-full bg-background border px-2 py-0.5 text-xs"
+                    >
+                      {date}
+                      <button
+                        type="button"
+                        onClick={() => removeDate(field, date)}
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label={t("removeDate")}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
           {/* Summary */}
           <div className="pt-2 border-t">
             <p className="text-sm text-muted-foreground">
-              {describeRRule(buildRRule(value))}
-              {value.endType === "count" && value.endCount && `, ${value.endCount} times`}
-              {value.endType === "date" && value.endDate && `, until ${value.endDate}`}
+              {describeRecurrence(value, t)}
             </p>
           </div>
 
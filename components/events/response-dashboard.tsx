@@ -1,18 +1,22 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { Download, Users, BarChart3, List, User } from "lucide-react";
+import { Download, Users, BarChart3, List, User, FileText, GitBranch } from "lucide-react";
 import { useLocale, useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import { triggerHaptic } from "@/lib/haptics";
 import { cn } from "@/lib/utils";
-import type { Locale, MultilingualText, QuestionOption } from "@/lib/types";
+import { summarizeNumbers } from "@/lib/questionnaire-logic";
+import type { Locale, MultilingualText, OptionCapacities, QuestionOption, QuestionType } from "@/lib/types";
 
 interface QuestionResponse {
   question_id: string;
   question_text: MultilingualText;
-  question_type: "single_choice" | "multi_choice" | "text";
+  question_type: QuestionType;
   options: QuestionOption[] | null;
+  option_capacities: OptionCapacities | null;
+  /** Only shown (or only required) for some answers */
+  is_conditional: boolean;
   responses: {
     user_id: string;
     user_name: string;
@@ -35,6 +39,9 @@ function getLocalizedText(text: MultilingualText | null | undefined, locale: Loc
   return text[locale] || text.en || Object.values(text)[0] || "";
 }
 
+// Answers listed one by one rather than counted
+const LIST_TYPES: QuestionType[] = ["text", "phone", "file"];
+
 // Helper to get option label
 function getOptionLabel(options: QuestionOption[] | null, value: string, locale: Locale): string {
   if (!options) return value;
@@ -42,6 +49,40 @@ function getOptionLabel(options: QuestionOption[] | null, value: string, locale:
   return option ? getLocalizedText(option.label, locale) : value;
 }
 
+// Date answers are stored as YYYY-MM-DD; read them as local calendar days
+function formatDate(value: string, locale: Locale): string {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(locale, { year: "numeric", month: "short", day: "numeric" });
+}
+
+// Phone numbers and uploads become links
+function AnswerText({ type, value }: { type: QuestionType; value: string }) {
+  const t = useTranslations("responseDashboard");
+
+  if (type === "phone") {
+    return (
+      <a href={`tel:${value.replace(/[^\d+]/g, "")}`} className="text-sm text-primary hover:underline">
+        {value}
+      </a>
+    );
+  }
+  if (type === "file") {
+    return (
+      <a
+        href={value}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+      >
+        <FileText className="w-4 h-4" />
+        {t("viewFile")}
+      </a>
+    );
+  }
+  return <p className="text-sm">{value}</p>;
+}
+
 export function ResponseDashboard({
   eventTitle,
   totalResponses,
@@ -52,13 +93,32 @@ export function ResponseDashboard({
   const t = useTranslations("responseDashboard");
   const [viewMode, setViewMode] = useState<"summary" | "individual">("summary");
 
-  // Calculate summary stats for choice questions
+  // Show an answer the way the organizer reads it: option labels, formatted dates
+  const formatValue = (q: QuestionResponse, value: string | string[]): string => {
+    if (Array.isArray(value)) {
+      return value.map((v) => getOptionLabel(q.options, v, locale)).join(", ");
+    }
+    if (q.question_type === "date") return formatDate(value, locale);
+    return getOptionLabel(q.options, value, locale);
+  };
+
+  // Calculate summary stats per question type
   const questionSummaries = useMemo(() => {
     return questions.map((q) => {
-      if (q.question_type === "text") {
+      if (q.question_type === "number") {
         return {
           ...q,
           summary: null,
+          numbers: summarizeNumbers(q.responses.map((r) => String(r.value))),
+          textResponses: null,
+        };
+      }
+
+      if (LIST_TYPES.includes(q.question_type)) {
+        return {
+          ...q,
+          summary: null,
+          numbers: null,
           textResponses: q.responses.map((r) => ({
             userName: r.user_name,
             userAvatar: r.user_avatar,
@@ -67,7 +127,7 @@ export function ResponseDashboard({
         };
       }
 
-      // Count responses for each option
+      // Count responses for each option (or each date)
       const counts: Record<string, number> = {};
       q.responses.forEach((r) => {
         const values = Array.isArray(r.value) ? r.value : [r.value];
@@ -78,16 +138,24 @@ export function ResponseDashboard({
 
       // Calculate percentages
       const total = q.responses.length;
-      const summary = (q.options || []).map((opt) => ({
-        value: opt.value,
-        label: getLocalizedText(opt.label, locale),
-        count: counts[opt.value] || 0,
-        percentage: total > 0 ? Math.round(((counts[opt.value] || 0) / total) * 100) : 0,
+      const buckets =
+        q.question_type === "date"
+          ? Object.keys(counts)
+              .sort()
+              .map((value) => ({ value, label: formatDate(value, locale) }))
+          : (q.options || []).map((opt) => ({ value: opt.value, label: getLocalizedText(opt.label, locale) }));
+      const summary = buckets.map(({ value, label }) => ({
+        value,
+        label,
+        count: counts[value] || 0,
+        capacity: q.option_capacities?.[value] ?? null,
+        percentage: total > 0 ? Math.round(((counts[value] || 0) / total) * 100) : 0,
       }));
 
       return {
         ...q,
         summary,
+        numbers: null,
         textResponses: null,
       };
     });
@@ -116,9 +184,9 @@ export function ResponseDashboard({
         }
         const value = Array.isArray(r.value)
           ? r.value.map((v) => getOptionLabel(q.options, v, locale)).join("; ")
-          : q.question_type !== "text"
-            ? getOptionLabel(q.options, r.value, locale)
-            : r.value;
+          : q.question_type === "date"
+            ? r.value
+            : getOptionLabel(q.options, r.value, locale);
         userResponses.get(r.user_id)![q.question_id] = value;
       });
     });
@@ -238,9 +306,17 @@ export function ResponseDashboard({
         <div className="space-y-6">
           {questionSummaries.map((q, index) => (
             <div key={q.question_id} className="p-4 border rounded-lg">
-              <p className="text-sm font-medium mb-3">
-                {index + 1}. {getLocalizedText(q.question_text, locale)}
-              </p>
+              <div className="flex items-start justify-between gap-3 mb-3">
+                <p className="text-sm font-medium">
+                  {index + 1}. {getLocalizedText(q.question_text, locale)}
+                </p>
+                {q.is_conditional && (
+                  <span className="shrink-0 flex items-center gap-1 text-xs text-muted-foreground">
+                    <GitBranch className="w-3 h-3" />
+                    {t("answeredBy", { count: q.responses.length })}
+                  </span>
+                )}
+              </div>
 
               {q.summary && (
                 <div className="space-y-2">
@@ -249,7 +325,13 @@ export function ResponseDashboard({
                       <div className="flex items-center justify-between text-sm">
                         <span>{item.label}</span>
                         <span className="text-muted-foreground">
-                          {item.count} ({item.percentage}%)
+                          {item.capacity !== null ? (
+                            <span className={cn(item.count >= item.capacity && "text-destructive font-medium")}>
+                              {t("capacityUsed", { count: item.count, capacity: item.capacity })}
+                            </span>
+                          ) : (
+                            `${item.count} (${item.percentage}%)`
+                          )}
                         </span>
                       </div>
                       <div className="h-2 bg-muted rounded-full overflow-hidden">
@@ -263,6 +345,25 @@ export function ResponseDashboard({
                 </div>
               )}
 
+              {q.numbers && (
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="p-2 bg-muted/50 rounded-lg">
+                    <p className="text-lg font-semibold tabular-nums">
+                      {Number(q.numbers.average.toFixed(2)).toLocaleString(locale)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{t("average")}</p>
+                  </div>
+                  <div className="p-2 bg-muted/50 rounded-lg">
+                    <p className="text-lg font-semibold tabular-nums">{q.numbers.min.toLocaleString(locale)}</p>
+                    <p className="text-xs text-muted-foreground">{t("min")}</p>
+                  </div>
+                  <div className="p-2 bg-muted/50 rounded-lg">
+                    <p className="text-lg font-semibold tabular-nums">{q.numbers.max.toLocaleString(locale)}</p>
+                    <p className="text-xs text-muted-foreground">{t("max")}</p>
+                  </div>
+                </div>
+              )}
+
               {q.textResponses && (
                 <div className="space-y-2">
                   {q.textResponses.slice(0, 5).map((response, i) => (
@@ -285,7 +386,7 @@ export function ResponseDashboard({
                         <p className="text-xs text-muted-foreground mb-0.5">
                           {response.userName}
                         </p>
-                        <p className="text-sm">{response.text}</p>
+                        <AnswerText type={q.question_type} value={response.text} />
                       </div>
                     </div>
                   ))}
@@ -342,20 +443,12 @@ export function ResponseDashboard({
                   const response = q.responses.find((r) => r.user_id === user.user_id);
                   if (!response) return null;
 
-                  const displayValue = Array.isArray(response.value)
-                    ? response.value
-                        .map((v) => getOptionLabel(q.options, v, locale))
-                        .join(", ")
-                    : q.question_type !== "text"
-                      ? getOptionLabel(q.options, response.value, locale)
-                      : response.value;
-
                   return (
                     <div key={q.question_id}>
                       <p className="text-xs text-muted-foreground mb-1">
                         {getLocalizedText(q.question_text, locale)}
                       </p>
-                      <p className="text-sm">{displayValue}</p>
+                      <AnswerText type={q.question_type} value={formatValue(q, response.value)} />
                     </div>
                   );
                 })}
@@ -2,7 +2,7 @@
 
 import { useState, useTransition, createContext, useContext, useEffect, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { useTranslations } from "next-intl";
+import { useLocale, useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import { createClient } from "@/lib/supabase/client";
 import { EventFeedback } from "./event-feedback";
@@ -14,8 +14,10 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
-import { submitQuestionnaireResponses } from "@/lib/questionnaire";
-import type { Rsvp, QuestionnaireData } from "@/lib/types";
+import { submitQuestionnaireResponses, validateQuestionnaireResponses } from "@/lib/questionnaire";
+import { formatInDaLat } from "@/lib/timezone";
+import { recallRsvpSource } from "@/lib/events/rsvp-source";
+import type { Rsvp, QuestionnaireData, WaitlistOffer, Locale } from "@/lib/types";
 
 // Context for coordinating celebration state and RSVP card visibility across components
 interface CelebrationContextValue {
@@ -84,6 +86,8 @@ interface RsvpButtonProps {
   currentRsvp: Rsvp | null;
   isLoggedIn: boolean;
   waitlistPosition: number | null;
+  // Open offer of a freed spot (only while the user is waitlisted)
+  waitlistOffer?: Pick<WaitlistOffer, "expires_at"> | null;
   startsAt: string;
   endsAt: string | null;
   existingFeedback?: {
@@ -92,6 +96,22 @@ interface RsvpButtonProps {
     marked_no_show?: boolean;
   } | null;
   questionnaire?: QuestionnaireData | null;
+  // The organizer's post-event survey is open to this attendee
+  hasSurvey?: boolean;
+  // RSVPs open at this time; loyalty early access can get in sooner
+  rsvpOpensAt?: string | null;
+  loyaltyEarlyAccess?: boolean;
+}
+
+/**
+ * Tag the caller's fresh RSVP with the channel that brought them to the
+ * event page (tribe, search, audience blast). Best-effort, never blocks.
+ */
+async function recordRsvpSource(supabase: ReturnType<typeof createClient>, eventId: string) {
+  const source = recallRsvpSource(eventId);
+  if (!source) return;
+  const { error } = await supabase.rpc("set_rsvp_source", { p_event_id: eventId, p_source: source });
+  if (error) console.error("Failed to record RSVP source:", error);
 }
 
 // Helper to check if event is past (mirrors database logic)
@@ -116,6 +136,7 @@ export function useRsvpActions(
   onShowQuestionnaire?: () => void
 ) {
   const router = useRouter();
+  const t = useTranslations("rsvp");
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
   const [lastRsvpId, setLastRsvpId] = useState<string | null>(null);
@@ -147,6 +168,15 @@ export function useRsvpActions(
     setError(null);
     const supabase = createClient();
 
+    // Re-check the answers server-side first (capacities may have filled up
+    // since the form loaded); throwing keeps the questionnaire open with the message
+    if (questionnaireResponses) {
+      const errors = Object.values(await validateQuestionnaireResponses(eventId, questionnaireResponses));
+      if (errors.length > 0) {
+        throw new Error(errors.includes("option_full") ? t("optionFull") : t("answersInvalid"));
+      }
+    }
+
     return new Promise((resolve) => {
       startTransition(async () => {
         const { data, error: rpcError } = await supabase.rpc("rsvp_event", {
@@ -155,13 +185,15 @@ export function useRsvpActions(
         });
 
         if (rpcError) {
-          setError(rpcError.message);
+          // rsvp_event raises rsvp_not_open before the event's RSVP window
+          setError(rpcError.message === "rsvp_not_open" ? t("notOpenYet") : rpcError.message);
           resolve({ success: false });
           return;
         }
 
         const rsvpId = data?.rsvp_id;
         setLastRsvpId(rsvpId || null);
+        recordRsvpSource(supabase, eventId);
 
         // If we have questionnaire responses, save them
         if (rsvpId && questionnaireResponses && Object.keys(questionnaireResponses).length > 0) {
@@ -199,7 +231,7 @@ export function useRsvpActions(
     const supabase = createClient();
 
     startTransition(async () => {
-      const { data, error: rpcError } = await supabase.rpc("mark_interested", {
+      const { error: rpcError } = await supabase.rpc("mark_interested", {
         p_event_id: eventId,
       });
 
@@ -208,15 +240,14 @@ export function useRsvpActions(
         return;
       }
 
+      recordRsvpSource(supabase, eventId);
+
       // Always cancel old scheduled reminders for this RSVP state.
-      // If someone was promoted from waitlist, this request also notifies them.
+      // If the freed spot was offered to the waitlist, this request also notifies them.
       fetch("/api/notifications/cancel", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          eventId,
-          promotedUserId: data?.promoted_user ?? null,
-        }),
+        body: JSON.stringify({ eventId }),
       }).catch(console.error);
 
       // Schedule reminders for interested users
@@ -235,7 +266,7 @@ export function useRsvpActions(
     const supabase = createClient();
 
     startTransition(async () => {
-      const { data, error: rpcError } = await supabase.rpc("cancel_rsvp", {
+      const { error: rpcError } = await supabase.rpc("cancel_rsvp", {
         p_event_id: eventId,
       });
 
@@ -245,14 +276,44 @@ export function useRsvpActions(
       }
 
       // Always cancel scheduled reminders for this user.
-      // If someone was promoted, this request also sends the promotion notification.
+      // If the freed spot was offered to the waitlist, this request also notifies them.
       fetch("/api/notifications/cancel", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          eventId,
-          promotedUserId: data?.promoted_user ?? null,
-        }),
+        body: JSON.stringify({ eventId }),
+      }).catch(console.error);
+
+      router.refresh();
+    });
+  }
+
+  async function handleClaimOffer() {
+    setError(null);
+    const supabase = createClient();
+
+    startTransition(async () => {
+      const { data, error: rpcError } = await supabase.rpc("claim_waitlist_offer", {
+        p_event_id: eventId,
+      });
+
+      if (rpcError) {
+        setError(rpcError.message);
+        return;
+      }
+
+      if (!data?.ok) {
+        // Expired or withdrawn - the refresh puts them back in the waitlist state
+        setError(t("offerUnavailable"));
+        router.refresh();
+        return;
+      }
+
+      onRsvpSuccess?.();
+
+      fetch("/api/notifications/rsvp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId }),
       }).catch(console.error);
 
       router.refresh();
@@ -265,6 +326,7 @@ export function useRsvpActions(
     handleRsvp,
     handleInterested,
     handleCancel,
+    handleClaimOffer,
     performRsvp,
     lastRsvpId,
     hasActiveQuestionnaire,
@@ -285,12 +347,17 @@ export function RsvpButton({
   currentRsvp,
   isLoggedIn,
   waitlistPosition,
+  waitlistOffer,
   startsAt,
   endsAt,
   existingFeedback,
   questionnaire,
+  hasSurvey = false,
+  rsvpOpensAt = null,
+  loyaltyEarlyAccess = false,
 }: RsvpButtonProps) {
   const t = useTranslations("rsvp");
+  const locale = useLocale() as Locale;
   const [showCelebration, setShowCelebration] = useState(false);
   const [showQuestionnaire, setShowQuestionnaire] = useState(false);
   const celebration = useCelebration();
@@ -309,7 +376,7 @@ export function RsvpButton({
     setShowQuestionnaire(true);
   }, []);
 
-  const { isPending, error, handleRsvp, handleInterested, handleCancel, performRsvp, hasActiveQuestionnaire } =
+  const { isPending, error, handleRsvp, handleInterested, handleCancel, handleClaimOffer, performRsvp, hasActiveQuestionnaire } =
     useRsvpActions(eventId, isLoggedIn, handleCelebrationTrigger, questionnaire, handleShowQuestionnaire);
 
   // Handle questionnaire submission
@@ -379,6 +446,7 @@ export function RsvpButton({
           eventTitle={eventTitle}
           currentRsvpStatus={currentRsvp?.status ?? null}
           existingFeedback={existingFeedback}
+          surveyHref={hasSurvey ? `/events/${eventSlug}/survey` : undefined}
         />
       </>
     );
@@ -415,6 +483,41 @@ export function RsvpButton({
     );
   }
 
+  // STATE: User is on waitlist and a spot is being held for them
+  if (isWaitlist && waitlistOffer) {
+    return (
+      <>
+        {celebrationPortal}
+        {questionnaireSheet}
+        <div className="space-y-3">
+          <div className="text-center space-y-1">
+            <p className="text-sm text-green-600 font-medium">
+              {t("spotOffered")}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {t("claimBy", { time: formatInDaLat(waitlistOffer.expires_at, "EEE p", locale) })}
+            </p>
+          </div>
+          <Button
+            onClick={handleClaimOffer}
+            disabled={isPending}
+            className="w-full"
+          >
+            {isPending ? "..." : t("claimSpot")}
+          </Button>
+          <button
+            onClick={handleCancel}
+            disabled={isPending}
+            className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+          >
+            {isPending ? "..." : t("declineSpot")}
+          </button>
+          {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+        </div>
+      </>
+    );
+  }
+
   // STATE: User is on waitlist
   if (isWaitlist) {
     return (
@@ -502,6 +605,12 @@ export function RsvpButton({
         >
           {isPending ? "..." : t("interested")}
         </Button>
+        {rsvpOpensAt && new Date(rsvpOpensAt) > new Date() && (
+          <p className="text-xs text-muted-foreground text-center">
+            {t("opensAt", { time: formatInDaLat(rsvpOpensAt, "EEE d MMM, HH:mm", locale) })}
+            {loyaltyEarlyAccess && ` · ${t("earlyAccessHint")}`}
+          </p>
+        )}
         {error && <p className="text-sm text-red-500 text-center">{error}</p>}
       </div>
     </>
@@ -0,0 +1,324 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Minus, Plus, Ticket, Landmark, FlaskConical, Clock, Gift } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import { formatTicketPrice } from "@/lib/payments/format";
+import { rewardDiscount } from "@/lib/loyalty/rewards";
+import type { BankTransferInstructions, PaymentProviderId, PaymentStart } from "@/lib/payments";
+import type { CatalogReward, TicketTier } from "@/lib/types";
+
+export interface PendingTicketOrder {
+  id: string;
+  referenceCode: string;
+  totalAmount: number;
+  currency: string;
+  expiresAt: string;
+  instructions: BankTransferInstructions | null;
+}
+
+/** A claimed loyalty discount the buyer can put towards this order */
+export interface TicketDiscount
+  extends Pick<CatalogReward, "discount_percentage" | "discount_fixed_amount" | "discount_currency"> {
+  redemptionId: string;
+  name: string;
+}
+
+interface TicketCheckoutProps {
+  eventSlug: string;
+  tiers: TicketTier[];
+  /** Sold + held tickets per tier id */
+  sold: Record<string, number>;
+  providers: PaymentProviderId[];
+  pendingOrder: PendingTicketOrder | null;
+  isLoggedIn: boolean;
+  discounts?: TicketDiscount[];
+}
+
+// Keeps a single order to a sensible group size
+const MAX_PER_TIER = 10;
+
+const PROVIDER_ICONS: Record<PaymentProviderId, typeof Landmark> = {
+  vietqr: Landmark,
+  mock: FlaskConical,
+};
+
+/**
+ * Ticket purchase for paid events. Stands in for the RSVP button until the
+ * buyer's order is paid — the paid order is what makes them 'going'.
+ */
+export function TicketCheckout({
+  eventSlug,
+  tiers,
+  sold,
+  providers,
+  pendingOrder,
+  isLoggedIn,
+  discounts = [],
+}: TicketCheckoutProps) {
+  const t = useTranslations("tickets");
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [provider, setProvider] = useState<PaymentProviderId | null>(providers[0] ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const [placedOrder, setPlacedOrder] = useState<PendingTicketOrder | null>(null);
+  const [discountId, setDiscountId] = useState<string | null>(null);
+
+  const order = placedOrder ?? pendingOrder;
+
+  const sellable = tiers.filter((tier): tier is TicketTier & { id: string } => Boolean(tier.id));
+
+  const remaining = (tier: TicketTier & { id: string }) =>
+    tier.quantity == null ? MAX_PER_TIER : Math.max(0, tier.quantity - (sold[tier.id] ?? 0));
+
+  const { count, total, currency } = useMemo(() => {
+    let count = 0;
+    let total = 0;
+    for (const tier of sellable) {
+      const q = quantities[tier.id] ?? 0;
+      count += q;
+      total += q * tier.price;
+    }
+    return { count, total, currency: sellable[0]?.currency ?? "VND" };
+  }, [quantities, sellable]);
+
+  // Only offer rewards that take something off this order's currency
+  const applicableDiscounts = discounts.filter(
+    (discount) => rewardDiscount(1, currency, discount) !== null
+  );
+  const selectedDiscount = applicableDiscounts.find((d) => d.redemptionId === discountId) ?? null;
+  const discountAmount = selectedDiscount ? rewardDiscount(total, currency, selectedDiscount) ?? 0 : 0;
+
+  function setQuantity(tierId: string, quantity: number) {
+    setQuantities((prev) => ({ ...prev, [tierId]: quantity }));
+  }
+
+  function handleBuy() {
+    if (!isLoggedIn) {
+      router.push("/auth/login");
+      return;
+    }
+    if (!provider || count === 0) return;
+
+    setError(null);
+    startTransition(async () => {
+      const res = await fetch(`/api/events/${eventSlug}/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider,
+          items: Object.entries(quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([tierId, quantity]) => ({ tierId, quantity })),
+          rewardRedemptionId: selectedDiscount?.redemptionId,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        const key = `errors.${data?.error}`;
+        setError(t.has(key) ? t(key) : t("errors.generic"));
+        router.refresh();
+        return;
+      }
+
+      const payment = data.payment as PaymentStart;
+      if (payment.status === "redirect") {
+        window.location.href = payment.url;
+        return;
+      }
+
+      if (payment.status === "pending_verification") {
+        setPlacedOrder({ ...data.order, instructions: payment.instructions });
+      }
+      router.refresh();
+    });
+  }
+
+  function handleCancel(orderId: string) {
+    if (!confirm(t("cancelConfirm"))) return;
+
+    startTransition(async () => {
+      const res = await fetch(`/api/orders/${orderId}/cancel`, { method: "POST" });
+      if (!res.ok) {
+        setError(t("errors.generic"));
+        return;
+      }
+      setPlacedOrder(null);
+      router.refresh();
+    });
+  }
+
+  // Waiting on a bank transfer: show how to pay instead of the tier picker
+  if (order) {
+    const instructions = order.instructions;
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Clock className="w-4 h-4 text-amber-500" />
+          {t("awaitingPayment")}
+        </div>
+        {instructions ? (
+          <div className="rounded-lg border p-3 space-y-3 text-sm">
+            {/* eslint-disable-next-line @next/next/no-img-element -- external VietQR image */}
+            <img
+              src={instructions.qrImageUrl}
+              alt={t("transferQr")}
+              width={220}
+              height={220}
+              className="mx-auto rounded-md bg-white"
+            />
+            <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+              <dt className="text-muted-foreground">{t("bank")}</dt>
+              <dd>{instructions.bankName}</dd>
+              <dt className="text-muted-foreground">{t("accountNumber")}</dt>
+              <dd className="font-mono">{instructions.accountNumber}</dd>
+              <dt className="text-muted-foreground">{t("accountName")}</dt>
+              <dd>{instructions.accountName}</dd>
+              <dt className="text-muted-foreground">{t("amount")}</dt>
+              <dd className="font-medium">{formatTicketPrice(instructions.amount, instructions.currency)}</dd>
+              <dt className="text-muted-foreground">{t("memo")}</dt>
+              <dd className="font-mono font-semibold">{instructions.memo}</dd>
+            </dl>
+            <p className="text-xs text-muted-foreground">{t("memoHint")}</p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {t("orderReference", { code: order.referenceCode })}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {t("holdUntil", { time: formatInDaLat(order.expiresAt, "EEE HH:mm") })}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full text-muted-foreground"
+          onClick={() => handleCancel(order.id)}
+          disabled={isPending}
+        >
+          {t("cancelOrder")}
+        </Button>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {sellable.map((tier) => {
+          const left = remaining(tier);
+          const quantity = quantities[tier.id] ?? 0;
+          return (
+            <div key={tier.id} className="flex items-center gap-3 rounded-lg border p-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{tier.name || t("generalAdmission")}</p>
+                <p className="text-sm text-muted-foreground">
+                  {formatTicketPrice(tier.price, tier.currency)}
+                  {tier.quantity != null && (
+                    <span className={cn("ml-2", left === 0 && "text-destructive")}>
+                      · {left === 0 ? t("soldOut") : t("left", { count: left })}
+                    </span>
+                  )}
+                </p>
+                {tier.description && (
+                  <p className="text-xs text-muted-foreground mt-0.5">{tier.description}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => setQuantity(tier.id, Math.max(0, quantity - 1))}
+                  disabled={quantity === 0}
+                  className="flex items-center justify-center w-8 h-8 rounded-full border disabled:opacity-40"
+                  aria-label={t("fewer")}
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <span className="w-5 text-center tabular-nums">{quantity}</span>
+                <button
+                  type="button"
+                  onClick={() => setQuantity(tier.id, Math.min(Math.min(left, MAX_PER_TIER), quantity + 1))}
+                  disabled={quantity >= Math.min(left, MAX_PER_TIER)}
+                  className="flex items-center justify-center w-8 h-8 rounded-full border disabled:opacity-40"
+                  aria-label={t("more")}
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {providers.length > 1 && (
+        <div className="grid grid-cols-2 gap-2">
+          {providers.map((id) => {
+            const Icon = PROVIDER_ICONS[id];
+            return (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setProvider(id)}
+                className={cn(
+                  "flex items-center justify-center gap-2 rounded-lg border py-2 text-sm transition-colors",
+                  provider === id ? "border-primary bg-primary/5 font-medium" : "text-muted-foreground"
+                )}
+              >
+                <Icon className="w-4 h-4" />
+                {t(`providers.${id}`)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {applicableDiscounts.length > 0 && count > 0 && (
+        <div className="space-y-1.5">
+          <p className="flex items-center gap-1.5 text-sm font-medium">
+            <Gift className="w-4 h-4 text-primary" />
+            {t("rewardDiscount")}
+          </p>
+          {applicableDiscounts.map((discount) => {
+            const selected = discount.redemptionId === discountId;
+            return (
+              <button
+                key={discount.redemptionId}
+                type="button"
+                onClick={() => setDiscountId(selected ? null : discount.redemptionId)}
+                className={cn(
+                  "flex w-full items-center justify-between rounded-lg border px-3 py-2 text-sm transition-colors",
+                  selected ? "border-primary bg-primary/5 font-medium" : "text-muted-foreground"
+                )}
+              >
+                <span className="truncate">{discount.name}</span>
+                <span className="shrink-0 tabular-nums">
+                  −{formatTicketPrice(rewardDiscount(total, currency, discount) ?? 0, currency)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {providers.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center">{t("salesClosed")}</p>
+      ) : (
+        <Button className="w-full" onClick={handleBuy} disabled={isPending || count === 0}>
+          <Ticket className="w-4 h-4 mr-2" />
+          {count === 0
+            ? t("selectTickets")
+            : t("buy", { count, total: formatTicketPrice(total - discountAmount, currency) })}
+        </Button>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -19,10 +19,12 @@ import { useTranslations } from "next-intl";
 export type PriceType = "free" | "paid" | "donation";
 
 export interface TicketTier {
+  id?: string;
   name: string;
   price: number;
   currency: string;
   description?: string;
+  quantity?: number | null;
 }
 
 interface TicketTierInputProps {
@@ -68,7 +70,7 @@ export function TicketTierInput({
   };
 
   // Update a single tier field
-  const updateTier = (index: number, field: keyof TicketTier, value: string | number) => {
+  const updateTier = (index: number, field: keyof TicketTier, value: string | number | null) => {
     const updated = [...tiers];
     updated[index] = { ...updated[index], [field]: value };
     onTiersChange(updated);
@@ -254,6 +256,20 @@ export function TicketTierInput({
                       />
                     </>
                   )}
+
+                  {/* Inventory: blank means only the event capacity limits sales */}
+                  <Input
+                    type="text"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    placeholder={t("tierQuantity")}
+                    value={tier.quantity ?? ""}
+                    onChange={(e) => {
+                      const digits = e.target.value.replace(/\D/g, "");
+                      updateTier(index, "quantity", digits ? parseInt(digits, 10) : null);
+                    }}
+                    className="text-sm"
+                  />
                 </div>
               ))}
 
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Clock } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  formatRanges,
+  getRangesForDate,
+  hasOpeningHours,
+  isVenueOpenAt,
+  parseVenueDateTime,
+  type VenueHours,
+} from "@/lib/venues/hours";
+
+interface VenueHoursWarningProps {
+  venueId: string | null;
+  /** Đà Lạt date and time from the form inputs */
+  date: string;
+  time: string;
+}
+
+type VenueWithHours = VenueHours & { name: string };
+
+/**
+ * Heads-up when an event starts while its venue is closed (outside weekly
+ * hours, or on a holiday closure). Advisory only: venues sometimes open
+ * specially for an event.
+ */
+export function VenueHoursWarning({ venueId, date, time }: VenueHoursWarningProps) {
+  const t = useTranslations("eventForm.venueHours");
+  // Keyed by venue so a stale response never shows for a newly picked venue
+  const [loaded, setLoaded] = useState<{ id: string; venue: VenueWithHours | null } | null>(null);
+  const venue = venueId && loaded?.id === venueId ? loaded.venue : null;
+
+  useEffect(() => {
+    if (!venueId) return;
+
+    let cancelled = false;
+    async function fetchHours(id: string) {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("venues")
+        .select("name, operating_hours, hours_exceptions")
+        .eq("id", id)
+        .single();
+
+      if (!cancelled) setLoaded({ id, venue: data ?? null });
+    }
+    fetchHours(venueId);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [venueId]);
+
+  const startsAt = date && time ? parseVenueDateTime(`${date}T${time}`) : null;
+  if (!venue || !startsAt || !hasOpeningHours(venue) || isVenueOpenAt(venue, startsAt)) {
+    return null;
+  }
+
+  const { ranges, exception } = getRangesForDate(venue, date);
+
+  return (
+    <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm">
+      <Clock className="w-4 h-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+      <div className="space-y-0.5">
+        <p className="font-medium text-amber-700 dark:text-amber-300">
+          {t("closedAt", { venue: venue.name })}
+        </p>
+        <p className="text-muted-foreground">
+          {exception?.label && ranges.length === 0
+            ? t("closedFor", { label: exception.label })
+            : ranges.length === 0
+              ? t("closedThatDay")
+              : t("hoursThatDay", { hours: formatRanges(ranges) })}
+        </p>
+        <p className="text-xs text-muted-foreground">{t("hint")}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useLocale, useTranslations } from "next-intl";
+import { AlertTriangle, CalendarPlus, Star } from "lucide-react";
+import { Link } from "@/lib/i18n/routing";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import { AGENDA_REMINDER_MINUTES } from "@/lib/festivals/agenda";
+import { findOverlaps, sessionDay, type ScheduleSession } from "@/lib/festivals/schedule";
+import type { Locale } from "@/lib/types";
+
+interface FestivalAgendaProps {
+  festivalSlug: string;
+  sessions: ScheduleSession[];
+  starred: Set<string>;
+  onToggleStar: (eventId: string) => void;
+  isLoggedIn: boolean;
+}
+
+/**
+ * The visitor's starred sessions in time order, warning where two of them
+ * clash, with an .ics download of the lot.
+ */
+export function FestivalAgenda({
+  festivalSlug,
+  sessions,
+  starred,
+  onToggleStar,
+  isLoggedIn,
+}: FestivalAgendaProps) {
+  const t = useTranslations("festival.agenda");
+  const locale = useLocale() as Locale;
+
+  if (!isLoggedIn) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center space-y-3">
+          <p className="text-muted-foreground">{t("signIn")}</p>
+          <Link
+            href="/auth/login"
+            className="inline-flex px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+          >
+            {t("signInCta")}
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const mine = sessions.filter((s) => starred.has(s.eventId));
+  if (mine.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-muted-foreground">{t("empty")}</CardContent>
+      </Card>
+    );
+  }
+
+  const clashes = findOverlaps(mine);
+  const titles = new Map(mine.map((s) => [s.eventId, s.title]));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {t("reminderHint", { minutes: AGENDA_REMINDER_MINUTES })}
+        </p>
+        <a
+          href={`/api/festivals/${festivalSlug}/agenda.ics`}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors text-sm"
+        >
+          <CalendarPlus className="h-4 w-4" />
+          {t("download")}
+        </a>
+      </div>
+
+      <div className="space-y-2">
+        {mine.map((session, i) => {
+          const showDay = i === 0 || sessionDay(mine[i - 1]) !== sessionDay(session);
+          const clash = clashes.get(session.eventId);
+
+          return (
+            <div key={session.eventId}>
+              {showDay && (
+                <h3 className="mt-4 mb-2 text-sm font-semibold first:mt-0">
+                  {formatInDaLat(session.startsAt, "EEEE d MMMM", locale)}
+                </h3>
+              )}
+              <Card className={cn(clash && "border-amber-500/50")}>
+                <CardContent className="flex items-start gap-3 p-3">
+                  <div className="w-12 shrink-0 text-sm font-medium tabular-nums">
+                    {formatInDaLat(session.startsAt, "HH:mm")}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      href={`/events/${session.slug}`}
+                      className={cn("font-medium hover:underline", session.isCancelled && "line-through")}
+                    >
+                      {session.title}
+                    </Link>
+                    {session.stage && (
+                      <p className="text-xs text-muted-foreground truncate">{session.stage}</p>
+                    )}
+                    {clash && (
+                      <p className="mt-1 flex items-start gap-1 text-xs text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="mt-px h-3 w-3 shrink-0" />
+                        {t("overlap", { titles: clash.map((id) => titles.get(id)).join(", ") })}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onToggleStar(session.eventId)}
+                    aria-label={t("remove")}
+                    className="shrink-0 p-1"
+                  >
+                    <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                  </button>
+                </CardContent>
+              </Card>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
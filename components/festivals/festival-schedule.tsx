@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { AlertTriangle, Star } from "lucide-react";
+import { Link } from "@/lib/i18n/routing";
+import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import { buildScheduleDays, sessionSpan, type ScheduleSession } from "@/lib/festivals/schedule";
+import type { Locale } from "@/lib/types";
+
+// Height of one hour in the grid; sessions shorter than MIN_BLOCK_PX still
+// get room for their title.
+const HOUR_PX = 72;
+const MIN_BLOCK_PX = 36;
+
+interface FestivalScheduleProps {
+  sessions: ScheduleSession[];
+  starred: Set<string>;
+  onToggleStar: (eventId: string) => void;
+  /** Same-stage double bookings; only passed to people who can fix them */
+  stageConflicts?: Map<string, string[]>;
+}
+
+/**
+ * Multi-day festival grid: pick a day, then one column per stage with each
+ * session placed at its Đà Lạt start time.
+ */
+export function FestivalSchedule({
+  sessions,
+  starred,
+  onToggleStar,
+  stageConflicts,
+}: FestivalScheduleProps) {
+  const t = useTranslations("festival.schedule");
+  const locale = useLocale() as Locale;
+  const days = buildScheduleDays(sessions);
+  const [dayIndex, setDayIndex] = useState(0);
+  const titles = new Map(sessions.map((s) => [s.eventId, s.title]));
+
+  if (days.length === 0) return null;
+  const day = days[Math.min(dayIndex, days.length - 1)];
+  const hours: number[] = [];
+  for (let m = day.startMinute; m < day.endMinute; m += 60) hours.push(m / 60);
+  const height = ((day.endMinute - day.startMinute) / 60) * HOUR_PX;
+
+  return (
+    <div className="space-y-3">
+      {days.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {days.map((d, i) => (
+            <button
+              key={d.date}
+              type="button"
+              onClick={() => setDayIndex(i)}
+              className={cn(
+                "shrink-0 rounded-full px-3 py-1.5 text-sm transition-colors",
+                i === dayIndex
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {formatInDaLat(`${d.date}T05:00:00Z`, "EEE d MMM", locale)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border">
+        <div className="flex min-w-max">
+          {/* Time axis */}
+          <div className="w-12 shrink-0 border-r bg-muted/30">
+            <div className="h-10 border-b" />
+            <div className="relative" style={{ height }}>
+              {hours.map((hour, i) => (
+                <div
+                  key={hour}
+                  className="absolute right-1 -translate-y-1/2 text-xs tabular-nums text-muted-foreground"
+                  style={{ top: i * HOUR_PX }}
+                >
+                  {i > 0 && `${String(hour).padStart(2, "0")}:00`}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {day.stages.map((stage) => (
+            <div key={stage.name ?? ""} className="w-48 shrink-0 border-r last:border-r-0">
+              <div className="flex h-10 items-center border-b px-2 text-sm font-medium">
+                <span className="truncate">{stage.name ?? t("otherStage")}</span>
+              </div>
+              <div className="relative" style={{ height }}>
+                {hours.slice(1).map((hour, i) => (
+                  <div
+                    key={hour}
+                    className="absolute inset-x-0 border-t border-dashed border-muted"
+                    style={{ top: (i + 1) * HOUR_PX }}
+                  />
+                ))}
+                {stage.sessions.map((session) => {
+                  const span = sessionSpan(session);
+                  const top = ((span.start - day.startMinute) / 60) * HOUR_PX;
+                  const blockHeight = Math.max(((span.end - span.start) / 60) * HOUR_PX, MIN_BLOCK_PX);
+                  const isStarred = starred.has(session.eventId);
+                  const conflicts = stageConflicts?.get(session.eventId);
+
+                  return (
+                    <div
+                      key={session.eventId}
+                      className={cn(
+                        "absolute inset-x-1 overflow-hidden rounded-md border p-1.5 text-xs",
+                        session.kind === "official_program"
+                          ? "border-primary/30 bg-primary/10"
+                          : "border-dashed bg-card",
+                        session.isHighlighted && "ring-1 ring-primary",
+                        session.isCancelled && "opacity-50",
+                        conflicts && "border-amber-500 bg-amber-500/10"
+                      )}
+                      style={{ top, height: blockHeight }}
+                    >
+                      <div className="flex items-start gap-1">
+                        <Link
+                          href={`/events/${session.slug}`}
+                          className={cn(
+                            "flex-1 font-medium leading-tight hover:underline line-clamp-2",
+                            session.isCancelled && "line-through"
+                          )}
+                        >
+                          {session.title}
+                        </Link>
+                        {!session.isCancelled && (
+                          <button
+                            type="button"
+                            onClick={() => onToggleStar(session.eventId)}
+                            aria-label={isStarred ? t("unstar") : t("star")}
+                            aria-pressed={isStarred}
+                            className="shrink-0 p-0.5"
+                          >
+                            <Star
+                              className={cn(
+                                "h-3.5 w-3.5",
+                                isStarred ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+                              )}
+                            />
+                          </button>
+                        )}
+                      </div>
+                      <div className="mt-0.5 text-muted-foreground tabular-nums">
+                        {formatInDaLat(session.startsAt, "HH:mm")}–{formatInDaLat(session.endsAt, "HH:mm")}
+                        {session.kind === "community_side_event" && ` · ${t("sideEvent")}`}
+                        {session.isCancelled && ` · ${t("cancelled")}`}
+                      </div>
+                      {conflicts && (
+                        <div className="mt-0.5 flex items-start gap-1 text-amber-700 dark:text-amber-400">
+                          <AlertTriangle className="mt-px h-3 w-3 shrink-0" />
+                          <span className="line-clamp-2">
+                            {t("stageConflict", {
+                              titles: conflicts.map((id) => titles.get(id)).join(", "),
+                            })}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
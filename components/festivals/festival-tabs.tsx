@@ -3,39 +3,93 @@
 import { useState } from "react";
 import { useLocale, useTranslations } from "next-intl";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar, MessageSquare, Info } from "lucide-react";
+import { Calendar, MessageSquare, Info, Star } from "lucide-react";
+import { useRouter } from "@/lib/i18n/routing";
 import { cn } from "@/lib/utils";
+import { findStageConflicts, type ScheduleSession } from "@/lib/festivals/schedule";
+import { FestivalSchedule } from "@/components/festivals/festival-schedule";
+import { FestivalAgenda } from "@/components/festivals/festival-agenda";
+import { FestivalUpdateComposer } from "@/components/festivals/festival-update-composer";
 import type { Festival, FestivalEvent, FestivalUpdate } from "@/lib/types";
 
 interface FestivalTabsProps {
   festival: Festival;
-  officialEvents: (FestivalEvent & { events: NonNullable<FestivalEvent["events"]> })[];
-  communityEvents: (FestivalEvent & { events: NonNullable<FestivalEvent["events"]> })[];
+  sessions: ScheduleSession[];
+  /** Linked events with no confirmed time yet */
+  announcements: (FestivalEvent & { events: NonNullable<FestivalEvent["events"]> })[];
   updates: FestivalUpdate[];
+  initialStarred: string[];
+  isLoggedIn: boolean;
+  /** Festival creator or admin: sees stage conflicts and can post updates */
+  canManage: boolean;
 }
 
-type Tab = "program" | "updates" | "about";
+type Tab = "program" | "agenda" | "updates" | "about";
 
 export function FestivalTabs({
   festival,
-  officialEvents,
-  communityEvents,
+  sessions,
+  announcements,
   updates,
+  initialStarred,
+  isLoggedIn,
+  canManage,
 }: FestivalTabsProps) {
   const t = useTranslations("festival");
   const locale = useLocale();
+  const router = useRouter();
   const [activeTab, setActiveTab] = useState<Tab>("program");
-  const totalEvents = officialEvents.length + communityEvents.length;
+  const [starred, setStarred] = useState<Set<string>>(new Set(initialStarred));
+  const [starError, setStarError] = useState(false);
+  const totalEvents = sessions.length + announcements.length;
+  const sessionTitles = new Map(sessions.map((s) => [s.eventId, s.title]));
+
+  async function toggleStar(eventId: string) {
+    if (!isLoggedIn) {
+      router.push("/auth/login");
+      return;
+    }
+
+    const wasStarred = starred.has(eventId);
+    const apply = (add: boolean) =>
+      setStarred((prev) => {
+        const next = new Set(prev);
+        if (add) next.add(eventId);
+        else next.delete(eventId);
+        return next;
+      });
+
+    apply(!wasStarred);
+    setStarError(false);
+    const res = await fetch(
+      wasStarred
+        ? `/api/festivals/${festival.slug}/agenda?eventId=${encodeURIComponent(eventId)}`
+        : `/api/festivals/${festival.slug}/agenda`,
+      wasStarred
+        ? { method: "DELETE" }
+        : {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ eventId }),
+          }
+    ).catch(() => null);
+
+    if (!res?.ok) {
+      apply(wasStarred);
+      setStarError(true);
+    }
+  }
 
   const tabs = [
     { id: "program" as Tab, label: t("tabs.program"), icon: Calendar },
+    { id: "agenda" as Tab, label: t("tabs.agenda"), icon: Star },
     { id: "updates" as Tab, label: t("tabs.updates"), icon: MessageSquare },
     { id: "about" as Tab, label: t("tabs.about"), icon: Info },
   ];
 
   return (
     <div className="w-full">
-      <div className="grid w-full grid-cols-3 gap-1 rounded-lg bg-muted p-1">
+      <div className="grid w-full grid-cols-4 gap-1 rounded-lg bg-muted p-1">
         {tabs.map((tab) => {
           const Icon = tab.icon;
           return (
@@ -66,31 +120,23 @@ export function FestivalTabs({
           </Card>
         ) : (
           <>
-            {officialEvents.length > 0 && (
-              <div className="space-y-4">
-                <h3 className="text-lg font-semibold">{t("officialProgram")}</h3>
-                <div className="space-y-3">
-                  {officialEvents.map((fe) => (
-                    <Card key={fe.event_id}>
-                      <CardContent className="p-4">
-                        <div className="font-medium">{fe.events.title}</div>
-                        {fe.events.description && (
-                          <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
-                            {fe.events.description}
-                          </p>
-                        )}
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              </div>
+            {starError && (
+              <p className="text-sm text-destructive">{t("schedule.starFailed")}</p>
+            )}
+            {sessions.length > 0 && (
+              <FestivalSchedule
+                sessions={sessions}
+                starred={starred}
+                onToggleStar={toggleStar}
+                stageConflicts={canManage ? findStageConflicts(sessions) : undefined}
+              />
             )}
 
-            {communityEvents.length > 0 && (
+            {announcements.length > 0 && (
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">{t("communitySideEvents")}</h3>
+                <h3 className="text-lg font-semibold">{t("schedule.timeTba")}</h3>
                 <div className="space-y-3">
-                  {communityEvents.map((fe) => (
+                  {announcements.map((fe) => (
                     <Card key={fe.event_id}>
                       <CardContent className="p-4">
                         <div className="font-medium">{fe.events.title}</div>
@@ -110,8 +156,26 @@ export function FestivalTabs({
         </div>
       )}
 
+      {activeTab === "agenda" && (
+        <div className="mt-6">
+          {starError && (
+            <p className="mb-3 text-sm text-destructive">{t("schedule.starFailed")}</p>
+          )}
+          <FestivalAgenda
+            festivalSlug={festival.slug}
+            sessions={sessions}
+            starred={starred}
+            onToggleStar={toggleStar}
+            isLoggedIn={isLoggedIn}
+          />
+        </div>
+      )}
+
       {activeTab === "updates" && (
         <div className="mt-6 space-y-4">
+          {canManage && (
+            <FestivalUpdateComposer festivalSlug={festival.slug} sessions={sessions} />
+          )}
           {updates.length === 0 ? (
             <Card>
               <CardContent className="p-8 text-center text-muted-foreground">
@@ -120,15 +184,33 @@ export function FestivalTabs({
             </Card>
           ) : (
             updates.map((update) => (
-              <Card key={update.id}>
+              <Card
+                key={update.id}
+                className={cn(update.update_type === "schedule_change" && "border-orange-500/40")}
+              >
                 <CardHeader className="pb-2">
+                  {update.update_type === "schedule_change" && (
+                    <span className="text-xs font-medium text-orange-600 dark:text-orange-400">
+                      {t("updates.scheduleChange")}
+                    </span>
+                  )}
                   <CardTitle className="text-base">{update.title}</CardTitle>
                   <CardDescription>
                     {new Date(update.posted_at).toLocaleDateString(locale)}
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <p className="text-sm">{update.body}</p>
+                <CardContent className="space-y-2">
+                  {update.body && <p className="text-sm">{update.body}</p>}
+                  {update.affected_event_ids?.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("updates.affects", {
+                        titles: update.affected_event_ids
+                          .map((id) => sessionTitles.get(id))
+                          .filter(Boolean)
+                          .join(", "),
+                      })}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             ))
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import { useRouter } from "@/lib/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import type { ScheduleSession } from "@/lib/festivals/schedule";
+import type { FestivalUpdateType } from "@/lib/types";
+
+const UPDATE_TYPES: FestivalUpdateType[] = ["announcement", "schedule_change", "highlight", "reminder"];
+
+interface FestivalUpdateComposerProps {
+  festivalSlug: string;
+  sessions: ScheduleSession[];
+}
+
+/**
+ * Festival owners post to the updates feed here. For a schedule change they
+ * tick the affected sessions so everyone who starred one is notified.
+ */
+export function FestivalUpdateComposer({ festivalSlug, sessions }: FestivalUpdateComposerProps) {
+  const t = useTranslations("festival.composer");
+  const router = useRouter();
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [updateType, setUpdateType] = useState<FestivalUpdateType>("announcement");
+  const [affected, setAffected] = useState<Set<string>>(new Set());
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggleAffected(eventId: string) {
+    setAffected((prev) => {
+      const next = new Set(prev);
+      if (next.has(eventId)) next.delete(eventId);
+      else next.add(eventId);
+      return next;
+    });
+  }
+
+  async function handlePost() {
+    if (!title.trim()) return;
+    setPosting(true);
+    setError(null);
+
+    const res = await fetch(`/api/festivals/${festivalSlug}/updates`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        title,
+        body,
+        update_type: updateType,
+        affected_event_ids: updateType === "schedule_change" ? [...affected] : [],
+      }),
+    });
+
+    setPosting(false);
+    if (!res.ok) {
+      setError(t("failed"));
+      return;
+    }
+    setTitle("");
+    setBody("");
+    setAffected(new Set());
+    setUpdateType("announcement");
+    router.refresh();
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <h3 className="font-medium">{t("title")}</h3>
+        <div className="flex flex-wrap gap-2">
+          {UPDATE_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setUpdateType(type)}
+              className={cn(
+                "rounded-full px-3 py-1 text-xs transition-colors",
+                updateType === type
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {t(`types.${type}`)}
+            </button>
+          ))}
+        </div>
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={t("titlePlaceholder")}
+          maxLength={200}
+        />
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder={t("bodyPlaceholder")}
+          rows={3}
+        />
+
+        {updateType === "schedule_change" && sessions.length > 0 && (
+          <div className="space-y-2">
+            <Label>{t("affectedSessions")}</Label>
+            <div className="max-h-48 space-y-1.5 overflow-y-auto rounded-md border p-2">
+              {sessions.map((session) => (
+                <div key={session.eventId} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`affected-${session.eventId}`}
+                    checked={affected.has(session.eventId)}
+                    onCheckedChange={() => toggleAffected(session.eventId)}
+                  />
+                  <Label
+                    htmlFor={`affected-${session.eventId}`}
+                    className="cursor-pointer text-sm font-normal"
+                  >
+                    <span className="tabular-nums text-muted-foreground">
+                      {formatInDaLat(session.startsAt, "dd/MM HH:mm")}
+                    </span>{" "}
+                    {session.title}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={handlePost} disabled={posting || !title.trim()}>
+            {posting && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            {t("post")}
+          </Button>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Gift, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface IssuedPerk {
+  id: string;
+  name: string;
+  description: string | null;
+  points_cost: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+async function fetchPerks(): Promise<IssuedPerk[]> {
+  const res = await fetch("/api/loyalty/perks");
+  if (!res.ok) return [];
+  const { data } = await res.json();
+  return data ?? [];
+}
+
+/**
+ * Perks a host offers in the rewards catalog. Members claim them with points
+ * and get a code the host redeems from the check-in screen.
+ */
+export function HostIssuedPerks() {
+  const t = useTranslations("loyalty.issuedPerks");
+  const [perks, setPerks] = useState<IssuedPerk[] | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [pointsCost, setPointsCost] = useState("100");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPerks()
+      .then((data) => {
+        if (!cancelled) setPerks(data);
+      })
+      .catch((err) => console.error("Failed to load perks:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function handleCreate(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/loyalty/perks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description, pointsCost: Number(pointsCost) }),
+      });
+      const body = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        const key = `errors.${body?.error}`;
+        setError(t.has(key) ? t(key) : t("errors.generic"));
+        return;
+      }
+
+      setPerks((prev) => [body.data, ...(prev ?? [])]);
+      setName("");
+      setDescription("");
+    } catch (err) {
+      console.error("Failed to create perk:", err);
+      setError(t("errors.generic"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(perk: IssuedPerk) {
+    const res = await fetch("/api/loyalty/perks", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: perk.id, isActive: !perk.is_active }),
+    });
+    if (!res.ok) {
+      setError(t("errors.generic"));
+      return;
+    }
+    const { data } = await res.json();
+    setPerks((prev) => (prev ?? []).map((p) => (p.id === data.id ? data : p)));
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Gift className="w-4 h-4" />
+          {t("title")}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t("subtitle")}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="space-y-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("namePlaceholder")}
+            maxLength={80}
+            required
+          />
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder={t("descriptionPlaceholder")}
+            maxLength={300}
+          />
+          <div className="flex gap-2">
+            <Input
+              inputMode="numeric"
+              value={pointsCost}
+              onChange={(e) => setPointsCost(e.target.value.replace(/\D/g, ""))}
+              aria-label={t("pointsCost")}
+              className="w-28"
+            />
+            <span className="self-center text-sm text-muted-foreground">{t("pointsCost")}</span>
+            <Button type="submit" className="ml-auto" disabled={saving || !name.trim()}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+              {t("create")}
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+
+        {perks && perks.length > 0 && (
+          <div className="space-y-2">
+            {perks.map((perk) => (
+              <div
+                key={perk.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg border p-3 text-sm",
+                  !perk.is_active && "opacity-60"
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{perk.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t("cost", { points: perk.points_cost })}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => void handleToggle(perk)}>
+                  {perk.is_active ? t("pause") : t("resume")}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">{t("checkinHint")}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,6 +21,9 @@ import {
   Users,
   Radio,
   Zap,
+  UserPlus,
+  Undo2,
+  ShieldAlert,
 } from "lucide-react";
 
 // Maps action types to icons
@@ -37,6 +40,11 @@ const ACTION_ICONS: Record<string, typeof Trophy> = {
   venue_created: Star,
   blog_published: Star,
   livestream_hosted: Radio,
+  follow_give: UserPlus,
+  follow_received: UserPlus,
+  point_reversal: Undo2,
+  admin_bonus: Gift,
+  penalty: ShieldAlert,
 };
 
 interface LoyaltyStatus {
@@ -239,8 +247,13 @@ export function LoyaltyDashboard({ userId }: { userId: string | null }) {
                             {new Date(entry.created_at).toLocaleDateString(locale)}
                           </p>
                         </div>
-                        <span className="text-sm font-semibold text-emerald-500 tabular-nums shrink-0">
-                          +{entry.points}
+                        <span
+                          className={`text-sm font-semibold tabular-nums shrink-0 ${
+                            entry.points < 0 ? "text-red-500" : "text-emerald-500"
+                          }`}
+                        >
+                          {entry.points > 0 ? "+" : ""}
+                          {entry.points}
                         </span>
                       </div>
                     );
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Ticket } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatInDaLat } from "@/lib/timezone";
+import { isRedemptionUsable } from "@/lib/loyalty/rewards";
+import type { RewardRedemption, RewardType } from "@/lib/types";
+
+// Reward types that need something from the member to take effect
+const HOW_TO_USE_TYPES: RewardType[] = ["discount", "early_access", "custom_perk"];
+
+async function fetchRedemptions(): Promise<RewardRedemption[]> {
+  const res = await fetch("/api/loyalty/redemptions");
+  if (!res.ok) return [];
+  const { data } = await res.json();
+  return data ?? [];
+}
+
+/**
+ * The member's claimed rewards: perk codes to show at the door, discounts
+ * waiting for a ticket purchase, and what's already been used.
+ */
+export function MyRewards() {
+  const t = useTranslations("loyalty.redemptions");
+  const [redemptions, setRedemptions] = useState<RewardRedemption[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRedemptions()
+      .then((data) => {
+        if (!cancelled) setRedemptions(data);
+      })
+      .catch((err) => console.error("Failed to load claimed rewards:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!redemptions || redemptions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Ticket className="w-4 h-4" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {redemptions.map((redemption) => {
+          const usable = isRedemptionUsable(redemption);
+          const rewardType = redemption.rewards?.reward_type;
+          return (
+            <div
+              key={redemption.id}
+              className={cn("rounded-lg border p-3 text-sm", !usable && "opacity-60")}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium truncate">{redemption.rewards?.name}</p>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {redemption.used_at
+                    ? t("usedOn", { date: formatInDaLat(redemption.used_at, "d MMM") })
+                    : t(`status.${redemption.status}`)}
+                </span>
+              </div>
+              {usable && rewardType && HOW_TO_USE_TYPES.includes(rewardType) && (
+                <p className="text-xs text-muted-foreground mt-0.5">{t(`howToUse.${rewardType}`)}</p>
+              )}
+              {usable && redemption.redemption_code && (
+                <p className="mt-1.5 font-mono text-lg font-semibold tracking-widest">
+                  {redemption.redemption_code}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/dialog";
 import { RewardCard } from "@/components/loyalty/reward-card";
 import { LoyaltyProgress } from "@/components/loyalty/loyalty-progress";
+import { MyRewards } from "@/components/loyalty/my-rewards";
 import {
   Loader2,
   Gift,
@@ -71,6 +72,8 @@ export function RewardsCatalog({ userId }: { userId: string | null }) {
   const [loading, setLoading] = useState(true);
   const [claimingId, setClaimingId] = useState<string | null>(null);
   const [claimedReward, setClaimedReward] = useState<Reward | null>(null);
+  const [claimedCode, setClaimedCode] = useState<string | null>(null);
+  const [claimCount, setClaimCount] = useState(0);
   const [showConfirm, setShowConfirm] = useState(false);
   const [pendingClaim, setPendingClaim] = useState<string | null>(null);
 
@@ -117,8 +120,11 @@ export function RewardsCatalog({ userId }: { userId: string | null }) {
       });
 
       if (res.ok) {
+        const { data } = await res.json();
         const reward = rewards.find((r) => r.id === pendingClaim);
         setClaimedReward(reward ?? null);
+        setClaimedCode(data?.redemption_code ?? null);
+        setClaimCount((count) => count + 1);
         // Refresh status after claim
         const statusRes = await fetch("/api/loyalty/status");
         if (statusRes.ok) {
@@ -161,6 +167,9 @@ export function RewardsCatalog({ userId }: { userId: string | null }) {
         </Card>
       )}
 
+      {/* Rewards already claimed, re-fetched after each claim */}
+      {userId && <MyRewards key={claimCount} />}
+
       {/* Category filter */}
       <div className="flex gap-2 overflow-x-auto pb-2 -mx-4 px-4 scrollbar-hide">
         {CATEGORY_KEYS.map((key) => (
@@ -234,7 +243,10 @@ export function RewardsCatalog({ userId }: { userId: string | null }) {
       {/* Success dialog */}
       <Dialog
         open={!!claimedReward}
-        onOpenChange={() => setClaimedReward(null)}
+        onOpenChange={() => {
+          setClaimedReward(null);
+          setClaimedCode(null);
+        }}
       >
         <DialogContent className="max-w-sm text-center">
           <div className="flex flex-col items-center gap-3 py-4">
@@ -249,6 +261,12 @@ export function RewardsCatalog({ userId }: { userId: string | null }) {
                 {t("rewardClaimedDesc", { name: claimedReward.name })}
               </p>
             )}
+            {claimedCode && (
+              <div className="space-y-1">
+                <p className="font-mono text-2xl font-semibold tracking-widest">{claimedCode}</p>
+                <p className="text-xs text-muted-foreground">{t("redemptions.codeHint")}</p>
+              </div>
+            )}
             <DialogClose asChild>
               <Button className="mt-2 gap-1.5">
                 <Sparkles className="w-4 h-4" />
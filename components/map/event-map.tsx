@@ -16,6 +16,8 @@ import { MapLegend } from "./map-legend";
 import { VENUE_MARKER_COLORS } from "@/lib/constants/venue-types";
 import { DALAT_CENTER, DEFAULT_ZOOM, MARKER_COLORS } from "./map-styles";
 import { MapFilterBar, type DatePreset } from "./map-filter-bar";
+import { VenueOpenFilter } from "@/components/venues/venue-open-filter";
+import { useOpenVenueIds, type OpenAtFilter } from "@/lib/hooks/use-open-venues";
 import { triggerHaptic } from "@/lib/haptics";
 
 // Clustering configuration
@@ -202,6 +204,8 @@ export function EventMap({ events, happeningEventIds = [], venues = [] }: EventM
   const [datePreset, setDatePreset] = useState<DatePreset>("7days");
   const [customStartDate, setCustomStartDate] = useState<string>("");
   const [customEndDate, setCustomEndDate] = useState<string>("");
+  const [venueOpenAt, setVenueOpenAt] = useState<OpenAtFilter>(null);
+  const { data: openVenueIds, isFetching: isLoadingOpenVenues } = useOpenVenueIds(venueOpenAt);
 
   const mapRef = useRef<HTMLDivElement>(null);
   const markersRef = useRef<google.maps.marker.AdvancedMarkerElement[]>([]);
@@ -275,6 +279,12 @@ export function EventMap({ events, happeningEventIds = [], venues = [] }: EventM
     event => event.latitude && event.longitude
   );
 
+  // Venues shown on the map, narrowed to those open at the chosen time
+  const visibleVenues = useMemo(() => {
+    if (!venueOpenAt || !openVenueIds) return venues;
+    return venues.filter(venue => openVenueIds.has(venue.id));
+  }, [venues, venueOpenAt, openVenueIds]);
+
   // Create cluster index from events
   const clusterIndex = useMemo(() => {
     const index = new Supercluster<EventPointProperties>({
@@ -572,15 +582,16 @@ export function EventMap({ events, happeningEventIds = [], venues = [] }: EventM
   // Create venue markers
   useEffect(() => {
     if (!map || typeof google === "undefined" || !google.maps?.marker) return;
-    if (!venues.length) return;
 
     // Clear existing venue markers
     venueMarkersRef.current.forEach(marker => marker.map = null);
     venueMarkersRef.current = [];
 
+    if (!visibleVenues.length) return;
+
     const theme = resolvedTheme === "dark" ? "dark" : "light";
 
-    venues.forEach(venue => {
+    visibleVenues.forEach(venue => {
       const markerElement = createVenueMarkerElement(
         theme,
         venue.upcoming_event_count,
@@ -628,7 +639,7 @@ export function EventMap({ events, happeningEventIds = [], venues = [] }: EventM
 
       venueMarkersRef.current.push(marker);
     });
-  }, [map, venues, selectedVenue?.id, resolvedTheme]);
+  }, [map, visibleVenues, selectedVenue?.id, resolvedTheme]);
 
   // Handle "Near Me" button
   const handleNearMe = useCallback(() => {
@@ -718,6 +729,19 @@ export function EventMap({ events, happeningEventIds = [], venues = [] }: EventM
       <div className="flex-1 relative">
         <div ref={mapRef} className="w-full h-full" />
 
+        {/* Venue opening-hours filter */}
+        {venues.length > 0 && (
+          <VenueOpenFilter
+            value={venueOpenAt}
+            onChange={(value) => {
+              setVenueOpenAt(value);
+              setSelectedVenue(null);
+            }}
+            isLoading={isLoadingOpenVenues}
+            className="absolute top-3 left-3 z-10 p-1 rounded-xl bg-background/95 shadow-lg border border-border"
+          />
+        )}
+
         {/* Loading overlay */}
         {isLoading && (
           <div className="absolute inset-0 flex items-center justify-center bg-muted/80 z-10">
@@ -5,6 +5,7 @@ import { X, Route, BadgeCheck, Calendar } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { triggerHaptic } from "@/lib/haptics";
 import { getVenueTypeConfig } from "@/lib/constants/venue-types";
+import { VenueHoursBadge } from "@/components/venues/venue-hours-badge";
 import type { VenueMapMarker } from "@/lib/types";
 
 interface VenuePopupCardProps {
@@ -57,6 +58,15 @@ export function VenuePopupCard({ venue, onClose }: VenuePopupCardProps) {
                 {typeConfig.label}
               </span>
 
+              {/* Opening hours */}
+              {venue.operating_hours && (
+                <VenueHoursBadge
+                  operatingHours={venue.operating_hours}
+                  exceptions={venue.hours_exceptions}
+                  className="flex mt-1"
+                />
+              )}
+
               {/* Event count */}
               {venue.upcoming_event_count > 0 ? (
                 <p className="text-xs text-green-600 dark:text-green-400 mt-1 flex items-center gap-1">
@@ -43,7 +43,7 @@ export function MomentActionsMenu({
   const router = useRouter();
   const t = useTranslations("moments");
   const tCommon = useTranslations("common");
-  const { isOwner, canModerate, isEventCreator, isLoading } = useMomentPermissions(
+  const { isOwner, canModerate, isEventCreator, isTribeModerator, isLoading } = useMomentPermissions(
     momentUserId,
     eventSlug
   );
@@ -52,7 +52,7 @@ export function MomentActionsMenu({
   const [isSettingCover, setIsSettingCover] = useState(false);
 
   // Don't render if loading or user has no permissions
-  if (isLoading || (!isOwner && !canModerate && !isEventCreator)) {
+  if (isLoading || (!isOwner && !canModerate && !isEventCreator && !isTribeModerator)) {
     return null;
   }
 
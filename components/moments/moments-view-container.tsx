@@ -57,6 +57,8 @@ interface MomentsViewContainerProps {
   initialPlaylist?: { tracks: AudioTrack[]; playlistInfo: PlaylistInfo } | null;
   /** Event creator id — event owners can moderate their own event's moments (matches remove_moment RPC) */
   eventCreatedBy?: string | null;
+  /** Hosting tribe — members it lets moderate moments can remove them too */
+  eventTribeId?: string | null;
 }
 
 /**
@@ -73,6 +75,7 @@ export function MomentsViewContainer({
   eventMeta,
   initialPlaylist,
   eventCreatedBy,
+  eventTribeId,
 }: MomentsViewContainerProps) {
   const t = useTranslations("moments");
   const tCommon = useTranslations("common");
@@ -113,6 +116,16 @@ export function MomentsViewContainer({
         setCanModerate(true);
         return;
       }
+      if (eventTribeId) {
+        const { data: tribeModerator } = await supabase.rpc("has_tribe_permission", {
+          p_tribe_id: eventTribeId,
+          p_permission: "moderate_moments",
+        });
+        if (tribeModerator) {
+          setCanModerate(true);
+          return;
+        }
+      }
       const { data: profile } = await supabase
         .from("profiles")
         .select("role")
@@ -123,7 +136,7 @@ export function MomentsViewContainer({
       }
     }
     fetchPermissions();
-  }, [eventCreatedBy]);
+  }, [eventCreatedBy, eventTribeId]);
 
   // Track moments loaded so far (for immersive view to access all loaded moments)
   const [allMoments, setAllMoments] = useState<MomentWithProfile[]>(initialMoments);
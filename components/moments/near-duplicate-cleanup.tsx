@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Check, Copy, Loader2, Sparkles, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { optimizedImageUrl } from "@/lib/image-cdn";
+import {
+  computePerceptualHashFromUrl,
+  type NearDuplicateCluster,
+} from "@/lib/perceptual-hash";
+
+interface ScanResult {
+  clusters: NearDuplicateCluster[];
+  unhashed: { id: string; mediaUrl: string }[];
+}
+
+/** Hashes posted per backfill request */
+const BACKFILL_BATCH = 25;
+
+async function fetchScan(eventSlug: string): Promise<ScanResult | null> {
+  const response = await fetch(`/api/events/${eventSlug}/moments/near-duplicates`);
+  if (!response.ok) return null;
+  return response.json();
+}
+
+/**
+ * Hash older photos that predate perceptual hashing. Runs in the browser
+ * because that's where the decoder is; uses a small CDN rendition so an
+ * album of hundreds doesn't download every original.
+ */
+async function backfillHashes(
+  eventSlug: string,
+  photos: ScanResult["unhashed"],
+  onProgress: (done: number) => void
+): Promise<number> {
+  let failed = 0;
+
+  for (let i = 0; i < photos.length; i += BACKFILL_BATCH) {
+    const batch = photos.slice(i, i + BACKFILL_BATCH);
+    const hashes: { momentId: string; hash: string }[] = [];
+
+    for (const photo of batch) {
+      const url = optimizedImageUrl(photo.mediaUrl, { width: 256, format: "webp" }) ?? photo.mediaUrl;
+      const hash = await computePerceptualHashFromUrl(url);
+      if (hash) hashes.push({ momentId: photo.id, hash });
+      else failed++;
+    }
+
+    if (hashes.length > 0) {
+      await fetch(`/api/events/${eventSlug}/moments/near-duplicates`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "backfill", hashes }),
+      });
+    }
+    onProgress(Math.min(i + BACKFILL_BATCH, photos.length));
+  }
+
+  return failed;
+}
+
+function ClusterCard({
+  cluster,
+  eventSlug,
+  onResolved,
+}: {
+  cluster: NearDuplicateCluster;
+  eventSlug: string;
+  onResolved: () => void;
+}) {
+  const t = useTranslations("moments.nearDuplicates");
+  const [keepId, setKeepId] = useState(cluster.keepId);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const removeIds = cluster.photos.map((p) => p.id).filter((id) => id !== keepId);
+
+  const resolve = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/events/${eventSlug}/moments/near-duplicates`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "resolve", keepId, removeIds }),
+      });
+      if (!response.ok) throw new Error("resolve failed");
+      const { removed } = await response.json();
+      toast.success(t("removed", { count: removed }));
+      onResolved();
+    } catch {
+      toast.error(t("error"));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border bg-card p-3 space-y-3">
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+        {cluster.photos.map((photo) => {
+          const isKept = photo.id === keepId;
+          return (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setKeepId(photo.id)}
+              disabled={isSaving}
+              className={cn(
+                "relative aspect-square rounded-lg overflow-hidden border-2 transition-all active:scale-95",
+                isKept ? "border-primary" : "border-transparent opacity-60"
+              )}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={optimizedImageUrl(photo.thumbnailUrl || photo.mediaUrl, { width: 240, height: 240, fit: "cover" }) ?? photo.mediaUrl}
+                alt=""
+                className="w-full h-full object-cover"
+              />
+              {isKept && (
+                <span className="absolute top-1 right-1 rounded-full bg-primary p-1 text-primary-foreground">
+                  <Check className="w-3 h-3" />
+                </span>
+              )}
+              <span className="absolute bottom-0 inset-x-0 bg-black/60 px-1.5 py-0.5 text-[10px] text-white text-left">
+                {photo.id === cluster.keepId ? (
+                  <span className="flex items-center gap-1">
+                    <Sparkles className="w-3 h-3" />
+                    {t("best")}
+                  </span>
+                ) : (
+                  t("similar", { percent: Math.round(photo.similarity * 100) })
+                )}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        disabled={isSaving || removeIds.length === 0}
+        onClick={resolve}
+      >
+        {isSaving ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Trash2 className="w-4 h-4 mr-2" />
+        )}
+        {t("removeOthers", { count: removeIds.length })}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Organizer clean-up for an album: groups photos that look the same and
+ * keeps the highest quality one of each group. Older photos without a
+ * perceptual hash are hashed here first.
+ */
+export function NearDuplicateCleanup({ eventSlug }: { eventSlug: string }) {
+  const t = useTranslations("moments.nearDuplicates");
+  const [clusters, setClusters] = useState<NearDuplicateCluster[] | null>(null);
+  const [backfill, setBackfill] = useState<{ done: number; total: number } | null>(null);
+  const [unreadable, setUnreadable] = useState(0);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchScan(eventSlug).then(async (scan) => {
+      if (cancelled) return;
+      if (!scan) {
+        setLoadFailed(true);
+        return;
+      }
+      if (scan.unhashed.length === 0) {
+        setClusters(scan.clusters);
+        return;
+      }
+
+      setBackfill({ done: 0, total: scan.unhashed.length });
+      const failed = await backfillHashes(eventSlug, scan.unhashed, (done) => {
+        if (!cancelled) setBackfill({ done, total: scan.unhashed.length });
+      });
+      if (cancelled) return;
+
+      const rescan = await fetchScan(eventSlug);
+      if (cancelled) return;
+      setUnreadable(failed);
+      setBackfill(null);
+      if (rescan) setClusters(rescan.clusters);
+      else setLoadFailed(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventSlug]);
+
+  if (loadFailed) {
+    return <p className="text-sm text-destructive">{t("error")}</p>;
+  }
+
+  if (backfill) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-8 justify-center">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {t("scanning", { done: backfill.done, total: backfill.total })}
+      </div>
+    );
+  }
+
+  if (!clusters) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {unreadable > 0 && (
+        <p className="text-xs text-muted-foreground">{t("scanFailed", { count: unreadable })}</p>
+      )}
+
+      {clusters.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+          <Copy className="w-8 h-8" />
+          <p className="text-sm">{t("none")}</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {t("groupCount", { count: clusters.length })}
+          </p>
+          {clusters.map((cluster) => (
+            <ClusterCard
+              key={cluster.keepId}
+              cluster={cluster}
+              eventSlug={eventSlug}
+              onResolved={() =>
+                setClusters((prev) => prev?.filter((c) => c.keepId !== cluster.keepId) ?? null)
+              }
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -31,6 +31,7 @@ export function ProUploadPage({
     state,
     addFiles,
     removeFile,
+    skipNearDuplicates,
     startUpload,
     pauseUpload,
     resumeUpload,
@@ -104,6 +105,7 @@ export function ProUploadPage({
               onResume={resumeUpload}
               onRetryAll={retryAllFailed}
               onClearComplete={clearComplete}
+              onSkipNearDuplicates={skipNearDuplicates}
             />
           </div>
         )}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useTranslations } from "next-intl";
-import { Play, Pause, RotateCcw, Trash2, Eye } from "lucide-react";
+import { Play, Pause, RotateCcw, Trash2, Eye, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import type { BulkUploadStats } from "@/lib/bulk-upload/types";
 import Link from "next/link";
@@ -15,6 +15,7 @@ interface UploadControlsProps {
   onResume: () => void;
   onRetryAll: () => void;
   onClearComplete: () => void;
+  onSkipNearDuplicates: () => void;
 }
 
 export function UploadControls({
@@ -26,6 +27,7 @@ export function UploadControls({
   onResume,
   onRetryAll,
   onClearComplete,
+  onSkipNearDuplicates,
 }: UploadControlsProps) {
   const t = useTranslations("moments.proUpload");
 
@@ -65,6 +67,14 @@ export function UploadControls({
         </>
       )}
 
+      {/* Drop photos that look like ones already in the album */}
+      {status === "idle" && stats.nearDuplicates > 0 && (
+        <Button onClick={onSkipNearDuplicates} variant="outline" size="sm">
+          <Copy className="w-4 h-4 mr-2" />
+          {t("skipLookAlikes", { count: stats.nearDuplicates })}
+        </Button>
+      )}
+
       {/* Retry failed */}
       {hasFailed && (
         <Button onClick={onRetryAll} variant="outline" size="sm">
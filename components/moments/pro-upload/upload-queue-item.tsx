@@ -1,5 +1,6 @@
 "use client";
 
+import Image from "next/image";
 import { useTranslations } from "next-intl";
 import {
   Clock,
@@ -13,6 +14,7 @@ import {
   Copy,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { optimizedImageUrl } from "@/lib/image-cdn";
 import type { FileUploadState } from "@/lib/bulk-upload/types";
 
 interface UploadQueueItemProps {
@@ -63,6 +65,7 @@ export function UploadQueueItem({ file, onRemove, onRetry }: UploadQueueItemProp
   );
   const canRemove = ["queued", "error", "complete", "skipped"].includes(file.status);
   const canRetry = file.status === "error";
+  const showNearDuplicate = file.nearDuplicate && ["queued", "error"].includes(file.status);
 
   return (
     <div
@@ -119,6 +122,25 @@ export function UploadQueueItem({ file, onRemove, onRetry }: UploadQueueItemProp
           </span>
         </div>
 
+        {/* Looks like a photo already in the album */}
+        {showNearDuplicate && file.nearDuplicate && (
+          <div className="mt-1 flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400">
+            {file.nearDuplicate.thumbnailUrl && (
+              <Image
+                src={optimizedImageUrl(file.nearDuplicate.thumbnailUrl, { width: 48, height: 48, fit: "cover" }) ?? file.nearDuplicate.thumbnailUrl}
+                alt=""
+                width={20}
+                height={20}
+                className="w-5 h-5 rounded object-cover flex-shrink-0"
+                unoptimized
+              />
+            )}
+            <span className="truncate">
+              {t("looksLikeExisting", { similarity: Math.round(file.nearDuplicate.similarity * 100) })}
+            </span>
+          </div>
+        )}
+
         {/* Progress bar for uploading */}
         {file.status === "uploading" && (
           <div className="mt-1 h-1 bg-muted rounded-full overflow-hidden">
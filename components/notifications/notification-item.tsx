@@ -1,7 +1,7 @@
 'use client';
 
 import { formatDistanceToNow } from 'date-fns';
-import { Bell, Calendar, Users, CheckCircle2, XCircle } from 'lucide-react';
+import { Bell, Calendar, Users, CheckCircle2, XCircle, MessageSquare } from 'lucide-react';
 import type { Notification, NotificationType } from '@/lib/notifications/types';
 import { isUnread } from '@/lib/notifications/staleness';
 import { cn } from '@/lib/utils';
@@ -15,11 +15,13 @@ function getNotificationIcon(type: NotificationType) {
   switch (type) {
     case 'rsvp_confirmation':
     case 'waitlist_promotion':
+    case 'order_receipt':
       return <CheckCircle2 className="w-4 h-4 text-green-500" />;
     case 'confirm_attendance_24h':
     case 'final_reminder_2h':
     case 'event_reminder':
       return <Calendar className="w-4 h-4 text-blue-500" />;
+    case 'waitlist_offer':
     case 'waitlist_position':
       return <Bell className="w-4 h-4 text-yellow-500" />;
     case 'new_rsvp':
@@ -36,6 +38,13 @@ function getNotificationIcon(type: NotificationType) {
       return <XCircle className="w-4 h-4 text-red-500" />;
     case 'tribe_new_event':
       return <Calendar className="w-4 h-4 text-purple-500" />;
+    case 'tribe_new_post':
+      return <MessageSquare className="w-4 h-4 text-purple-500" />;
+    case 'series_occurrence_changed':
+    case 'festival_schedule_change':
+      return <Calendar className="w-4 h-4 text-orange-500" />;
+    case 'festival_session_reminder':
+      return <Calendar className="w-4 h-4 text-pink-500" />;
     default:
       return <Bell className="w-4 h-4 text-muted-foreground" />;
   }
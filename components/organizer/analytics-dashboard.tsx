@@ -0,0 +1,242 @@
+"use client";
+
+import { useLocale, useTranslations } from "next-intl";
+import { Download, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/lib/i18n/routing";
+import {
+  SOURCE_KEYS,
+  cohortsToCsv,
+  formatRate,
+  funnelsToCsv,
+  type EventFunnel,
+  type OrganizerAnalytics,
+  type SeriesCohort,
+  type SourceKey,
+} from "@/lib/organizer/analytics";
+
+function downloadCsv(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function Bar({ value, max }: { value: number; max: number }) {
+  const width = max > 0 ? Math.max((value / max) * 100, value > 0 ? 2 : 0) : 0;
+  return (
+    <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+      <div className="h-full rounded-full bg-primary" style={{ width: `${width}%` }} />
+    </div>
+  );
+}
+
+function SectionHeader({
+  title,
+  onExport,
+}: {
+  title: string;
+  onExport?: () => void;
+}) {
+  const t = useTranslations("organizerAnalytics");
+  return (
+    <div className="flex items-center justify-between gap-3 mb-4">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {onExport && (
+        <Button variant="outline" size="sm" onClick={onExport}>
+          <Download className="w-4 h-4 mr-2" />
+          {t("exportCsv")}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function SourceBreakdown({ sources }: { sources: Record<SourceKey, number> }) {
+  const t = useTranslations("organizerAnalytics");
+  const total = SOURCE_KEYS.reduce((sum, key) => sum + sources[key], 0);
+
+  return (
+    <div className="rounded-lg border bg-card p-6">
+      <SectionHeader title={t("sourcesTitle")} />
+      {total === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("noRsvpsYet")}</p>
+      ) : (
+        <div className="space-y-3">
+          {SOURCE_KEYS.map((key) => (
+            <div key={key} className="flex items-center gap-3 text-sm">
+              <span className="w-28 shrink-0">{t(`sources.${key}`)}</span>
+              <Bar value={sources[key]} max={total} />
+              <span className="w-20 shrink-0 text-right tabular-nums text-muted-foreground">
+                {sources[key]} · {formatRate(sources[key] / total)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FunnelRow({ funnel }: { funnel: EventFunnel }) {
+  const t = useTranslations("organizerAnalytics");
+  const locale = useLocale();
+  const steps = [
+    { label: t("steps.views"), value: funnel.views },
+    { label: t("steps.interested"), value: funnel.interested },
+    { label: t("steps.going"), value: funnel.going },
+    { label: t("steps.checkedIn"), value: funnel.checkedIn },
+    { label: t("steps.contributed"), value: funnel.contributed },
+  ];
+  const max = Math.max(...steps.map((s) => s.value));
+
+  return (
+    <div className="px-4 sm:px-6 py-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <Link
+            href={`/events/${funnel.slug}`}
+            className="font-medium hover:text-primary truncate block"
+          >
+            {funnel.title}
+          </Link>
+          <p className="text-sm text-muted-foreground">
+            {new Date(funnel.startsAt).toLocaleDateString(locale, {
+              month: "short",
+              day: "numeric",
+              year: "numeric",
+            })}
+          </p>
+        </div>
+        {funnel.isPast && (
+          <span className="shrink-0 text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground">
+            {t("noShowRate", { rate: formatRate(funnel.noShowRate) })}
+          </span>
+        )}
+      </div>
+      <div className="space-y-1.5">
+        {steps.map((step) => (
+          <div key={step.label} className="flex items-center gap-3 text-xs">
+            <span className="w-32 shrink-0 text-muted-foreground">{step.label}</span>
+            <Bar value={step.value} max={max} />
+            <span className="w-10 shrink-0 text-right tabular-nums">{step.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CohortTable({ cohort }: { cohort: SeriesCohort }) {
+  const t = useTranslations("organizerAnalytics");
+  const locale = useLocale();
+
+  return (
+    <div className="px-4 sm:px-6 py-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p className="font-medium truncate">{cohort.title}</p>
+        <span className="shrink-0 flex items-center gap-1 text-xs text-muted-foreground">
+          <Repeat className="w-3 h-3" />
+          {t("returningSummary", {
+            returning: cohort.returningAttendees,
+            total: cohort.uniqueAttendees,
+          })}
+        </span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-muted-foreground">
+            <th className="font-normal pb-1">{t("occurrence")}</th>
+            <th className="font-normal pb-1 text-right">{t("attendees")}</th>
+            <th className="font-normal pb-1 text-right">{t("returning")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cohort.occurrences.map((occurrence) => (
+            <tr key={occurrence.eventId} className="border-t">
+              <td className="py-1.5">
+                {new Date(occurrence.startsAt).toLocaleDateString(locale, {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                })}
+              </td>
+              <td className="py-1.5 text-right tabular-nums">{occurrence.attendees}</td>
+              <td className="py-1.5 text-right tabular-nums">
+                {occurrence.returning}
+                {occurrence.attendees > 0 && (
+                  <span className="ml-1 text-muted-foreground">
+                    ({formatRate(occurrence.returning / occurrence.attendees)})
+                  </span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Organizer analytics body: RSVP sources, per-event funnels and series
+ * cohorts, each exportable as CSV. Headline stats are rendered by the page.
+ */
+export function AnalyticsDashboard({ analytics }: { analytics: OrganizerAnalytics }) {
+  const t = useTranslations("organizerAnalytics");
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-8">
+      <SourceBreakdown sources={analytics.totals.sources} />
+
+      <div className="rounded-lg border bg-card">
+        <div className="p-6 pb-0">
+          <SectionHeader
+            title={t("funnelsTitle")}
+            onExport={
+              analytics.funnels.length > 0
+                ? () => downloadCsv(funnelsToCsv(analytics.funnels), `event-funnels-${today}.csv`)
+                : undefined
+            }
+          />
+        </div>
+        {analytics.funnels.length > 0 ? (
+          <div className="divide-y">
+            {analytics.funnels.map((funnel) => (
+              <FunnelRow key={funnel.eventId} funnel={funnel} />
+            ))}
+          </div>
+        ) : (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">{t("noEvents")}</p>
+        )}
+      </div>
+
+      <div className="rounded-lg border bg-card">
+        <div className="p-6 pb-0">
+          <SectionHeader
+            title={t("cohortsTitle")}
+            onExport={
+              analytics.cohorts.length > 0
+                ? () => downloadCsv(cohortsToCsv(analytics.cohorts), `series-cohorts-${today}.csv`)
+                : undefined
+            }
+          />
+          <p className="text-sm text-muted-foreground -mt-2 mb-2">{t("cohortsDescription")}</p>
+        </div>
+        {analytics.cohorts.length > 0 ? (
+          <div className="divide-y">
+            {analytics.cohorts.map((cohort) => (
+              <CohortTable key={cohort.seriesId} cohort={cohort} />
+            ))}
+          </div>
+        ) : (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">{t("noSeries")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
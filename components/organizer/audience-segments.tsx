@@ -0,0 +1,486 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, Pencil, Plus, Trash2, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { EVENT_TAGS } from "@/lib/constants/event-tags";
+import {
+  LOCALES,
+  LOCALE_FLAGS,
+  LOCALE_NAMES,
+  LOYALTY_TIER_INFO,
+  type Locale,
+  type LoyaltyTier,
+} from "@/lib/types";
+import {
+  MAX_SEGMENT_NAME_LENGTH,
+  MAX_SEGMENT_RULES,
+  SEGMENT_RULE_TYPES,
+  parseSegmentRules,
+  type AudienceSegment,
+  type SegmentRule,
+  type SegmentRuleType,
+} from "@/lib/audiences/segments";
+
+interface NamedOption {
+  id: string;
+  name: string;
+}
+
+interface AudienceSegmentsProps {
+  organizerId: string;
+  initialSegments: AudienceSegment[];
+  venues: NamedOption[];
+  tribes: NamedOption[];
+  organizers: NamedOption[];
+}
+
+/** A rule being edited — fields may be blank until the organizer picks them */
+type DraftRule = {
+  type: SegmentRuleType;
+  venueId?: string;
+  tribeId?: string;
+  organizerId?: string;
+  tag?: string;
+  minTier?: LoyaltyTier;
+  locales?: Locale[];
+  maxPercent?: string;
+  withinDays?: number;
+};
+
+interface Draft {
+  id: string | null;
+  name: string;
+  rules: DraftRule[];
+}
+
+// "Any time" plus a few look-back windows for RSVP-based rules
+const WINDOW_OPTIONS = [0, 30, 90, 180, 365] as const;
+const WINDOWED_RULES: SegmentRuleType[] = ["attended_venue", "tribe_events", "event_tag"];
+const PREVIEW_DEBOUNCE_MS = 500;
+
+function emptyRule(type: SegmentRuleType): DraftRule {
+  switch (type) {
+    case "loyalty_tier":
+      return { type, minTier: "insider" };
+    case "locale":
+      return { type, locales: [] };
+    case "no_show_rate":
+      return { type, maxPercent: "20" };
+    default:
+      return { type };
+  }
+}
+
+function toDraftRule(rule: SegmentRule): DraftRule {
+  if (rule.type === "no_show_rate") return { type: rule.type, maxPercent: String(rule.maxPercent) };
+  return { ...rule } as DraftRule;
+}
+
+/** Draft → API shape; parseSegmentRules decides whether it's complete */
+function toRuleInput(rule: DraftRule): unknown {
+  const { maxPercent, withinDays, ...rest } = rule;
+  return {
+    ...rest,
+    ...(withinDays ? { withinDays } : {}),
+    ...(rule.type === "no_show_rate" ? { maxPercent: Number(maxPercent) } : {}),
+  };
+}
+
+/**
+ * Saved audience segments for one organizer: list, rule builder and live
+ * member count. Segments show up as @mentions in the event invite modal.
+ */
+export function AudienceSegments({
+  organizerId,
+  initialSegments,
+  venues,
+  tribes,
+  organizers,
+}: AudienceSegmentsProps) {
+  const t = useTranslations("audienceSegments");
+  const tTags = useTranslations("eventTags");
+  const [segments, setSegments] = useState(initialSegments);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ key: string; count: number; reachable: number } | null>(null);
+
+  const parsed = draft ? parseSegmentRules(draft.rules.map(toRuleInput)) : null;
+  const validRules = parsed?.ok ? parsed.rules : null;
+  const previewKey = validRules ? JSON.stringify(validRules) : null;
+  const previewLoading = previewKey !== null && preview?.key !== previewKey;
+
+  // Live count, debounced while the organizer is still clicking
+  useEffect(() => {
+    if (!previewKey) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/audiences/segments/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ organizerId, rules: JSON.parse(previewKey) }),
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`preview ${response.status}`);
+        const data = await response.json();
+        setPreview({ key: previewKey, count: data.count, reachable: data.reachable });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("[audience-segments] preview failed:", err);
+        setPreview({ key: previewKey, count: -1, reachable: -1 });
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [previewKey, organizerId]);
+
+  function updateRule(index: number, patch: Partial<DraftRule>) {
+    setDraft((d) => d && { ...d, rules: d.rules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+  }
+
+  function removeRule(index: number) {
+    setDraft((d) => d && { ...d, rules: d.rules.filter((_, i) => i !== index) });
+  }
+
+  async function handleSave() {
+    if (!draft || !validRules) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        draft.id ? `/api/audiences/segments/${draft.id}` : "/api/audiences/segments",
+        {
+          method: draft.id ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ organizerId, name: draft.name, rules: validRules }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        setError(response.status === 409 ? t("nameTaken") : t("saveFailed"));
+        return;
+      }
+
+      const saved = data.segment as AudienceSegment;
+      setSegments((prev) => [saved, ...prev.filter((s) => s.id !== saved.id)]);
+      setDraft(null);
+    } catch (err) {
+      console.error("[audience-segments] save failed:", err);
+      setError(t("saveFailed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(segment: AudienceSegment) {
+    if (!confirm(t("deleteConfirm", { name: segment.name }))) return;
+
+    const response = await fetch(`/api/audiences/segments/${segment.id}`, { method: "DELETE" });
+    if (response.ok) {
+      setSegments((prev) => prev.filter((s) => s.id !== segment.id));
+      if (draft?.id === segment.id) setDraft(null);
+    } else {
+      setError(t("deleteFailed"));
+    }
+  }
+
+  function describeRule(rule: SegmentRule): string {
+    const nameOf = (list: NamedOption[], id: string) => list.find((o) => o.id === id)?.name ?? "…";
+    switch (rule.type) {
+      case "attended_venue":
+        return t("summary.attended_venue", { venue: nameOf(venues, rule.venueId) });
+      case "tribe_events":
+        return t("summary.tribe_events", { tribe: nameOf(tribes, rule.tribeId) });
+      case "event_tag":
+        return t("summary.event_tag", { tag: tTags(rule.tag) });
+      case "loyalty_tier":
+        return t("summary.loyalty_tier", { tier: LOYALTY_TIER_INFO[rule.minTier].label });
+      case "locale":
+        return t("summary.locale", { locales: rule.locales.map((l) => LOCALE_NAMES[l]).join(", ") });
+      case "no_show_rate":
+        return t("summary.no_show_rate", { percent: rule.maxPercent });
+      case "follows_organizer":
+        return t("summary.follows_organizer", { organizer: nameOf(organizers, rule.organizerId) });
+    }
+  }
+
+  function renderOptionSelect(
+    value: string | undefined,
+    options: NamedOption[],
+    onChange: (id: string) => void
+  ) {
+    return (
+      <Select value={value ?? ""} onValueChange={onChange}>
+        <SelectTrigger className="flex-1 min-w-0">
+          <SelectValue placeholder={t("choose")} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((o) => (
+            <SelectItem key={o.id} value={o.id}>
+              {o.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  function renderRuleValue(rule: DraftRule, index: number) {
+    switch (rule.type) {
+      case "attended_venue":
+        return renderOptionSelect(rule.venueId, venues, (venueId) => updateRule(index, { venueId }));
+      case "tribe_events":
+        return renderOptionSelect(rule.tribeId, tribes, (tribeId) => updateRule(index, { tribeId }));
+      case "follows_organizer":
+        return renderOptionSelect(rule.organizerId, organizers, (id) => updateRule(index, { organizerId: id }));
+      case "event_tag":
+        return renderOptionSelect(
+          rule.tag,
+          EVENT_TAGS.map((tag) => ({ id: tag, name: tTags(tag) })),
+          (tag) => updateRule(index, { tag })
+        );
+      case "loyalty_tier":
+        return (
+          <Select value={rule.minTier} onValueChange={(v) => updateRule(index, { minTier: v as LoyaltyTier })}>
+            <SelectTrigger className="flex-1 min-w-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LOYALTY_TIER_INFO) as LoyaltyTier[]).map((tier) => (
+                <SelectItem key={tier} value={tier}>
+                  {LOYALTY_TIER_INFO[tier].icon} {t("tierOrAbove", { tier: LOYALTY_TIER_INFO[tier].label })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "locale":
+        return (
+          <div className="flex flex-wrap gap-1.5 flex-1">
+            {LOCALES.map((locale) => {
+              const active = rule.locales?.includes(locale);
+              return (
+                <button
+                  key={locale}
+                  type="button"
+                  onClick={() =>
+                    updateRule(index, {
+                      locales: active
+                        ? rule.locales?.filter((l) => l !== locale)
+                        : [...(rule.locales ?? []), locale],
+                    })
+                  }
+                  className={cn(
+                    "px-2 py-1 rounded-full text-xs border transition-colors",
+                    active ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground"
+                  )}
+                >
+                  {LOCALE_FLAGS[locale]} {LOCALE_NAMES[locale]}
+                </button>
+              );
+            })}
+          </div>
+        );
+      case "no_show_rate":
+        return (
+          <div className="flex items-center gap-2 flex-1">
+            <span className="text-sm text-muted-foreground">{t("under")}</span>
+            <Input
+              type="text"
+              inputMode="numeric"
+              value={rule.maxPercent ?? ""}
+              onChange={(e) => updateRule(index, { maxPercent: e.target.value.replace(/[^\d]/g, "").slice(0, 3) })}
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+          </div>
+        );
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Saved segments */}
+      {segments.length > 0 ? (
+        <div className="border rounded-lg divide-y">
+          {segments.map((segment) => (
+            <div key={segment.id} className="flex items-start justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <p className="font-medium">@{segment.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {segment.rules.map(describeRule).join(` ${t("and")} `)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setDraft({ id: segment.id, name: segment.name, rules: segment.rules.map(toDraftRule) })
+                  }
+                  aria-label={t("edit")}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(segment)} aria-label={t("delete")}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        !draft && (
+          <div className="text-center py-12 border rounded-lg border-dashed">
+            <Users className="w-10 h-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p className="text-muted-foreground">{t("empty")}</p>
+          </div>
+        )
+      )}
+
+      {!draft && (
+        <Button
+          onClick={() => setDraft({ id: null, name: "", rules: [emptyRule("attended_venue")] })}
+          className="gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          {t("newSegment")}
+        </Button>
+      )}
+
+      {/* Builder */}
+      {draft && (
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="segment-name">{t("name")}</Label>
+            <Input
+              id="segment-name"
+              value={draft.name}
+              maxLength={MAX_SEGMENT_NAME_LENGTH}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t("namePlaceholder")}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("rules")}</Label>
+            <p className="text-xs text-muted-foreground">{t("rulesHint")}</p>
+            {draft.rules.map((rule, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-md bg-muted/40">
+                <Select
+                  value={rule.type}
+                  onValueChange={(v) =>
+                    setDraft({
+                      ...draft,
+                      rules: draft.rules.map((r, i) => (i === index ? emptyRule(v as SegmentRuleType) : r)),
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-full sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEGMENT_RULE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t(`ruleTypes.${type}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {renderRuleValue(rule, index)}
+
+                {WINDOWED_RULES.includes(rule.type) && (
+                  <Select
+                    value={String(rule.withinDays ?? 0)}
+                    onValueChange={(v) => updateRule(index, { withinDays: Number(v) || undefined })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WINDOW_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days === 0 ? t("anyTime") : t("withinDays", { days })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRule(index)}
+                  disabled={draft.rules.length === 1}
+                  aria-label={t("removeRule")}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {draft.rules.length < MAX_SEGMENT_RULES && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, rules: [...draft.rules, emptyRule("loyalty_tier")] })}
+                className="gap-1"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                {t("addRule")}
+              </Button>
+            )}
+          </div>
+
+          {/* Live count */}
+          <div className="flex items-center gap-2 text-sm">
+            <Users className="w-4 h-4 text-muted-foreground" />
+            {!validRules ? (
+              <span className="text-muted-foreground">{t("incomplete")}</span>
+            ) : previewLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            ) : preview && preview.count >= 0 ? (
+              <span>
+                {t("previewCount", { count: preview.count })}
+                <span className="text-muted-foreground">
+                  {" · "}
+                  {t("previewReachable", { count: preview.reachable })}
+                </span>
+              </span>
+            ) : (
+              <span className="text-destructive">{t("previewFailed")}</span>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+            >
+              {t("cancel")}
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !validRules || !draft.name.trim()}>
+              {saving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {t("save")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
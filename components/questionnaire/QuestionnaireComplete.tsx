@@ -2,18 +2,20 @@
 
 import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Check, Calendar, Users } from "lucide-react";
+import { Check, Calendar, Heart, Users } from "lucide-react";
 import confetti from "canvas-confetti";
 import { useTranslations } from "next-intl";
 
 interface QuestionnaireCompleteProps {
   eventTitle: string;
   onClose: () => void;
+  variant?: "rsvp" | "survey";
 }
 
 export function QuestionnaireComplete({
   eventTitle,
   onClose,
+  variant = "rsvp",
 }: QuestionnaireCompleteProps) {
   const t = useTranslations("questionnaire.complete");
 
@@ -69,8 +71,12 @@ export function QuestionnaireComplete({
 
       {/* Title */}
       <div className="space-y-2 animate-in fade-in slide-in-from-bottom-4 duration-500 delay-200">
-        <h2 className="text-2xl font-bold">{t("title")}</h2>
-        <p className="text-muted-foreground">{t("subtitle")}</p>
+        <h2 className="text-2xl font-bold">
+          {variant === "survey" ? t("surveyTitle") : t("title")}
+        </h2>
+        <p className="text-muted-foreground">
+          {variant === "survey" ? t("surveySubtitle") : t("subtitle")}
+        </p>
       </div>
 
       {/* Event card preview */}
@@ -78,8 +84,17 @@ export function QuestionnaireComplete({
         <p className="font-medium text-lg">{eventTitle}</p>
         <div className="flex items-center justify-center gap-4 mt-2 text-sm text-muted-foreground">
           <span className="flex items-center gap-1">
-            <Calendar className="w-4 h-4" />
-            {t("seeYouSoon")}
+            {variant === "survey" ? (
+              <>
+                <Heart className="w-4 h-4" />
+                {t("thanksForSharing")}
+              </>
+            ) : (
+              <>
+                <Calendar className="w-4 h-4" />
+                {t("seeYouSoon")}
+              </>
+            )}
           </span>
         </div>
       </div>
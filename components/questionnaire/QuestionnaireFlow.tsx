@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { useLocale, useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
@@ -10,7 +10,19 @@ import { QuestionnaireComplete } from "./QuestionnaireComplete";
 import { SingleChoiceQuestion } from "./questions/SingleChoiceQuestion";
 import { MultiChoiceQuestion } from "./questions/MultiChoiceQuestion";
 import { TextQuestion } from "./questions/TextQuestion";
-import type { ResolvedQuestion, MultilingualText, Locale } from "@/lib/types";
+import { ScaleQuestion } from "./questions/ScaleQuestion";
+import { RankingQuestion } from "./questions/RankingQuestion";
+import { FieldQuestion } from "./questions/FieldQuestion";
+import { FileQuestion } from "./questions/FileQuestion";
+import {
+  getVisibleQuestions,
+  hasAnswer,
+  isQuestionRequired,
+  pruneHiddenResponses,
+  remainingSpots,
+  validateAnswer,
+} from "@/lib/questionnaire-logic";
+import type { ResolvedQuestion, MultilingualText, Locale, QuestionType } from "@/lib/types";
 
 interface QuestionnaireFlowProps {
   questions: ResolvedQuestion[];
@@ -18,16 +30,24 @@ interface QuestionnaireFlowProps {
   eventTitle: string;
   onSubmit: (responses: Record<string, string | string[]>) => Promise<void>;
   onCancel: () => void;
+  /** "survey" swaps the welcome and completion copy for post-event surveys */
+  variant?: "rsvp" | "survey";
 }
 
 type FlowStep = "welcome" | "questions" | "complete";
 
+// Picking an answer moves straight on to the next question
+const AUTO_ADVANCE_TYPES: QuestionType[] = ["single_choice", "scale", "nps"];
+
+const FIELD_INPUT_TYPES = { number: "number", date: "date", phone: "tel" } as const;
+
 export function QuestionnaireFlow({
   questions,
   introText,
   eventTitle,
   onSubmit,
   onCancel,
+  variant = "rsvp",
 }: QuestionnaireFlowProps) {
   const locale = useLocale() as Locale;
   const t = useTranslations("questionnaire");
@@ -39,8 +59,13 @@ export function QuestionnaireFlow({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const currentQuestion = questions[currentQuestionIndex];
-  const totalQuestions = questions.length;
+  // Follow-up questions appear and disappear with the answers they depend on
+  const activeQuestions = useMemo(
+    () => getVisibleQuestions(questions, responses),
+    [questions, responses]
+  );
+  const currentQuestion = activeQuestions[currentQuestionIndex];
+  const totalQuestions = activeQuestions.length;
   const isFirstQuestion = currentQuestionIndex === 0;
   const isLastQuestion = currentQuestionIndex === totalQuestions - 1;
 
@@ -53,10 +78,10 @@ export function QuestionnaireFlow({
   const getCurrentResponse = useCallback(
     (questionId: string, questionType: string) => {
       const response = responses[questionId];
-      if (questionType === "multi_choice") {
+      if (questionType === "multi_choice" || questionType === "ranking") {
         return Array.isArray(response) ? response : [];
       }
-      if (questionType === "text") {
+      if (questionType === "text" || questionType in FIELD_INPUT_TYPES) {
         return typeof response === "string" ? response : "";
       }
       return typeof response === "string" ? response : null;
@@ -72,21 +97,20 @@ export function QuestionnaireFlow({
     []
   );
 
-  // Check if current question is answered (for required validation)
-  const isCurrentQuestionAnswered = useCallback(() => {
-    if (!currentQuestion) return true;
+  // Required (or required-if) check plus the field format, as an error message
+  const getCurrentQuestionError = useCallback((): string | null => {
+    if (!currentQuestion) return null;
     const response = responses[currentQuestion.id];
 
-    if (!currentQuestion.is_required) return true;
-
-    if (currentQuestion.question_type === "multi_choice") {
-      return Array.isArray(response) && response.length > 0;
-    }
-    if (currentQuestion.question_type === "text") {
-      return typeof response === "string" && response.trim().length > 0;
+    if (!hasAnswer(response)) {
+      // The default order is a valid answer; it's filled in on submit
+      if (currentQuestion.question_type === "ranking") return null;
+      return isQuestionRequired(currentQuestion, questions, responses) ? t("errors.required") : null;
     }
-    return response !== undefined && response !== null && response !== "";
-  }, [currentQuestion, responses]);
+
+    const error = validateAnswer(currentQuestion, response);
+    return error ? t(`errors.${error}`) : null;
+  }, [currentQuestion, questions, responses, t]);
 
   // Handle start questionnaire
   const handleStart = () => {
@@ -96,8 +120,9 @@ export function QuestionnaireFlow({
 
   // Handle next question
   const handleNext = useCallback(() => {
-    if (!isCurrentQuestionAnswered()) {
-      setError(t("errors.required"));
+    const questionError = getCurrentQuestionError();
+    if (questionError) {
+      setError(questionError);
       return;
     }
     setError(null);
@@ -109,7 +134,7 @@ export function QuestionnaireFlow({
       setSlideDirection("left");
       setCurrentQuestionIndex((prev) => prev + 1);
     }
-  }, [isLastQuestion, isCurrentQuestionAnswered, t]);
+  }, [isLastQuestion, getCurrentQuestionError]);
 
   // Handle previous question
   const handlePrevious = useCallback(() => {
@@ -127,25 +152,56 @@ export function QuestionnaireFlow({
   const handleSingleChoiceSelect = useCallback(
     (questionId: string, value: string) => {
       updateResponse(questionId, value);
+      setError(null);
+
+      // The answer may reveal follow-ups, so "last" is decided with it applied
+      const nextQuestions = getVisibleQuestions(questions, { ...responses, [questionId]: value });
 
       // Auto-advance after short delay for single choice
-      if (!isLastQuestion) {
+      if (currentQuestionIndex < nextQuestions.length - 1) {
         setTimeout(() => {
           setSlideDirection("left");
           setCurrentQuestionIndex((prev) => prev + 1);
         }, 300);
       }
     },
-    [isLastQuestion, updateResponse]
+    [questions, responses, currentQuestionIndex, updateResponse]
   );
 
+  // Spots-left notes and full options for capacity-limited choices
+  const getCapacityProps = (question: ResolvedQuestion) => {
+    if (!question.option_capacities) return {};
+    const optionNotes: Record<string, string> = {};
+    const disabledOptions: string[] = [];
+    for (const option of question.options ?? []) {
+      const spots = remainingSpots(question, option.value);
+      if (spots === null) continue;
+      if (spots === 0) disabledOptions.push(option.value);
+      optionNotes[option.value] = spots === 0 ? t("optionFull") : t("spotsLeft", { count: spots });
+    }
+    return { optionNotes, disabledOptions };
+  };
+
   // Submit all responses
   const handleSubmit = async () => {
     setIsSubmitting(true);
     setError(null);
 
+    // Answers to questions that ended up hidden are dropped; required rankings
+    // left untouched were accepted in their default order
+    const finalResponses = pruneHiddenResponses(questions, responses);
+    for (const question of activeQuestions) {
+      if (
+        question.question_type === "ranking" &&
+        isQuestionRequired(question, questions, responses) &&
+        !finalResponses[question.id]
+      ) {
+        finalResponses[question.id] = (question.options ?? []).map((o) => o.value);
+      }
+    }
+
     try {
-      await onSubmit(responses);
+      await onSubmit(finalResponses);
       setSlideDirection("left");
       setStep("complete");
     } catch (err) {
@@ -160,9 +216,15 @@ export function QuestionnaireFlow({
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] px-6 py-8 text-center space-y-6">
         <div className="space-y-2">
-          <h2 className="text-2xl font-bold">{t("welcome.title")}</h2>
+          <h2 className="text-2xl font-bold">
+            {variant === "survey" ? t("survey.welcomeTitle") : t("welcome.title")}
+          </h2>
           <p className="text-muted-foreground">
-            {introText ? getText(introText) : t("welcome.subtitle", { organizer: "" })}
+            {introText
+              ? getText(introText)
+              : variant === "survey"
+                ? t("survey.welcomeSubtitle")
+                : t("welcome.subtitle", { organizer: "" })}
           </p>
         </div>
 
@@ -197,10 +259,13 @@ export function QuestionnaireFlow({
       <QuestionnaireComplete
         eventTitle={eventTitle}
         onClose={onCancel}
+        variant={variant}
       />
     );
   }
 
+  const isCurrentRequired = isQuestionRequired(currentQuestion, questions, responses);
+
   // Render question
   return (
     <div className="flex flex-col min-h-[400px]">
@@ -244,7 +309,8 @@ export function QuestionnaireFlow({
               value={getCurrentResponse(currentQuestion.id, "single_choice") as string | null}
               onChange={(value) => handleSingleChoiceSelect(currentQuestion.id, value)}
               locale={locale}
-              isRequired={currentQuestion.is_required}
+              isRequired={isCurrentRequired}
+              {...getCapacityProps(currentQuestion)}
             />
           )}
 
@@ -256,7 +322,36 @@ export function QuestionnaireFlow({
               value={getCurrentResponse(currentQuestion.id, "multi_choice") as string[]}
               onChange={(value) => updateResponse(currentQuestion.id, value)}
               locale={locale}
-              isRequired={currentQuestion.is_required}
+              isRequired={isCurrentRequired}
+              {...getCapacityProps(currentQuestion)}
+            />
+          )}
+
+          {(currentQuestion.question_type === "scale" || currentQuestion.question_type === "nps") && (
+            <ScaleQuestion
+              questionText={currentQuestion.question_text}
+              descriptionText={currentQuestion.description_text}
+              min={currentQuestion.question_type === "nps" ? 0 : 1}
+              max={currentQuestion.question_type === "nps" ? 10 : 5}
+              value={getCurrentResponse(currentQuestion.id, currentQuestion.question_type) as string | null}
+              onChange={(value) => handleSingleChoiceSelect(currentQuestion.id, value)}
+              locale={locale}
+              lowLabel={t(`scale.${currentQuestion.question_type}Low`)}
+              highLabel={t(`scale.${currentQuestion.question_type}High`)}
+              isRequired={isCurrentRequired}
+            />
+          )}
+
+          {currentQuestion.question_type === "ranking" && currentQuestion.options && (
+            <RankingQuestion
+              questionText={currentQuestion.question_text}
+              descriptionText={currentQuestion.description_text}
+              options={currentQuestion.options}
+              value={getCurrentResponse(currentQuestion.id, "ranking") as string[]}
+              onChange={(value) => updateResponse(currentQuestion.id, value)}
+              locale={locale}
+              hint={t("rankingHint")}
+              isRequired={isCurrentRequired}
             />
           )}
 
@@ -267,7 +362,41 @@ export function QuestionnaireFlow({
               value={getCurrentResponse(currentQuestion.id, "text") as string}
               onChange={(value) => updateResponse(currentQuestion.id, value)}
               locale={locale}
-              isRequired={currentQuestion.is_required}
+              isRequired={isCurrentRequired}
+            />
+          )}
+
+          {(currentQuestion.question_type === "number" ||
+            currentQuestion.question_type === "date" ||
+            currentQuestion.question_type === "phone") && (
+            <FieldQuestion
+              questionText={currentQuestion.question_text}
+              descriptionText={currentQuestion.description_text}
+              inputType={FIELD_INPUT_TYPES[currentQuestion.question_type]}
+              value={getCurrentResponse(currentQuestion.id, currentQuestion.question_type) as string}
+              onChange={(value) => updateResponse(currentQuestion.id, value)}
+              locale={locale}
+              isRequired={isCurrentRequired}
+              placeholder={currentQuestion.question_type === "phone" ? t("phonePlaceholder") : undefined}
+            />
+          )}
+
+          {currentQuestion.question_type === "file" && (
+            <FileQuestion
+              questionText={currentQuestion.question_text}
+              descriptionText={currentQuestion.description_text}
+              value={getCurrentResponse(currentQuestion.id, "file") as string | null}
+              onChange={(value) => updateResponse(currentQuestion.id, value)}
+              locale={locale}
+              isRequired={isCurrentRequired}
+              labels={{
+                upload: t("file.upload"),
+                replace: t("file.replace"),
+                uploading: t("file.uploading"),
+                failed: t("file.failed"),
+                tooLarge: t("file.tooLarge"),
+                hint: t("file.hint"),
+              }}
             />
           )}
         </div>
@@ -280,8 +409,8 @@ export function QuestionnaireFlow({
         </div>
       )}
 
-      {/* Footer with next/submit button (for non-single-choice questions) */}
-      {(currentQuestion.question_type !== "single_choice" || isLastQuestion) && (
+      {/* Footer with next/submit button (for questions that don't auto-advance) */}
+      {(!AUTO_ADVANCE_TYPES.includes(currentQuestion.question_type) || isLastQuestion) && (
         <div className="px-4 pb-6">
           <Button
             onClick={handleNext}
@@ -4,3 +4,7 @@ export { QuestionnaireComplete } from "./QuestionnaireComplete";
 export { SingleChoiceQuestion } from "./questions/SingleChoiceQuestion";
 export { MultiChoiceQuestion } from "./questions/MultiChoiceQuestion";
 export { TextQuestion } from "./questions/TextQuestion";
+export { ScaleQuestion } from "./questions/ScaleQuestion";
+export { RankingQuestion } from "./questions/RankingQuestion";
+export { FieldQuestion } from "./questions/FieldQuestion";
+export { FileQuestion } from "./questions/FileQuestion";
@@ -0,0 +1,78 @@
+"use client";
+
+import { useRef, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import type { MultilingualText, Locale } from "@/lib/types";
+
+interface FieldQuestionProps {
+  questionText: MultilingualText;
+  descriptionText?: MultilingualText | null;
+  /** number, date and phone answers all use a single native input */
+  inputType: "number" | "date" | "tel";
+  value: string;
+  onChange: (value: string) => void;
+  locale: Locale;
+  isRequired?: boolean;
+  placeholder?: string;
+  hint?: string;
+}
+
+export function FieldQuestion({
+  questionText,
+  descriptionText,
+  inputType,
+  value,
+  onChange,
+  locale,
+  isRequired,
+  placeholder,
+  hint,
+}: FieldQuestionProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const getText = (text: MultilingualText | null | undefined): string => {
+    if (!text) return "";
+    return text[locale] || text.en || Object.values(text)[0] || "";
+  };
+
+  // Auto-focus on mount
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      inputRef.current?.focus();
+    }, 300); // Wait for animation
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      {/* Question */}
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-center">
+          {getText(questionText)}
+          {isRequired && <span className="text-destructive ml-1">*</span>}
+        </h2>
+        {descriptionText && (
+          <p className="text-sm text-muted-foreground text-center">
+            {getText(descriptionText)}
+          </p>
+        )}
+      </div>
+
+      <Input
+        ref={inputRef}
+        // Plain text for numbers: no spinner that changes the value on scroll
+        type={inputType === "number" ? "text" : inputType}
+        inputMode={inputType === "number" ? "decimal" : inputType === "tel" ? "tel" : undefined}
+        autoComplete={inputType === "tel" ? "tel" : undefined}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="h-12 text-lg text-center"
+      />
+
+      {hint && (
+        <p className="text-xs text-muted-foreground text-center">{hint}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FileText, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { createClient } from "@/lib/supabase/client";
+import { generateSmartFilename } from "@/lib/media-utils";
+import type { MultilingualText, Locale } from "@/lib/types";
+
+// Private bucket: answers can be IDs or certificates, so they're never public
+const BUCKET = "questionnaire-uploads";
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const ACCEPT = "image/jpeg,image/png,image/webp,image/heic,application/pdf";
+// Signed links only need to outlive the form
+const LINK_SECONDS = 60 * 60;
+
+// Some browsers leave HEIC untyped, so the file name is the fallback
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "application/pdf": "pdf",
+};
+const CONTENT_TYPES = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type]));
+
+interface FileQuestionProps {
+  questionText: MultilingualText;
+  descriptionText?: MultilingualText | null;
+  /** Path of the upload in the private bucket ("<user id>/<file>") */
+  value: string | null;
+  onChange: (value: string) => void;
+  locale: Locale;
+  isRequired?: boolean;
+  labels: {
+    upload: string;
+    replace: string;
+    uploading: string;
+    failed: string;
+    tooLarge: string;
+    hint: string;
+  };
+}
+
+export function FileQuestion({
+  questionText,
+  descriptionText,
+  value,
+  onChange,
+  locale,
+  isRequired,
+  labels,
+}: FileQuestionProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Keyed by path so a link for a replaced file is never shown
+  const [link, setLink] = useState<{ path: string; url: string } | null>(null);
+
+  useEffect(() => {
+    if (!value) return;
+
+    let cancelled = false;
+    async function signLink(path: string) {
+      const { data } = await createClient().storage.from(BUCKET).createSignedUrl(path, LINK_SECONDS);
+      if (!cancelled && data?.signedUrl) setLink({ path, url: data.signedUrl });
+    }
+    signLink(value);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [value]);
+
+  const getText = (text: MultilingualText | null | undefined): string => {
+    if (!text) return "";
+    return text[locale] || text.en || Object.values(text)[0] || "";
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input so same file can be selected again
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      setError(labels.tooLarge);
+      return;
+    }
+
+    setError(null);
+    setIsUploading(true);
+    try {
+      const nameExt = file.name.split(".").pop()?.toLowerCase() ?? "";
+      const ext = EXTENSIONS[file.type] ?? (nameExt === "jpeg" ? "jpg" : nameExt);
+      const contentType = CONTENT_TYPES[ext];
+      if (!contentType) throw new Error(`Unsupported file type: ${file.type || nameExt}`);
+
+      // Uploads live under the attendee's own folder (enforced by storage policies)
+      const supabase = createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const path = generateSmartFilename(file.name, user.id, ext);
+      const { error: uploadError } = await supabase.storage.from(BUCKET).upload(path, file, { contentType });
+      if (uploadError) throw uploadError;
+      onChange(path);
+    } catch (err) {
+      console.error("Upload error:", err);
+      setError(labels.failed);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const fileName = value ? (value.split("/").pop() ?? null) : null;
+  const href = link && link.path === value ? link.url : undefined;
+
+  return (
+    <div className="space-y-6">
+      {/* Question */}
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-center">
+          {getText(questionText)}
+          {isRequired && <span className="text-destructive ml-1">*</span>}
+        </h2>
+        {descriptionText && (
+          <p className="text-sm text-muted-foreground text-center">
+            {getText(descriptionText)}
+          </p>
+        )}
+      </div>
+
+      {fileName && (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-3 p-4 rounded-xl border-2 border-primary bg-primary/5"
+        >
+          <FileText className="w-5 h-5 text-primary shrink-0" />
+          <span className="text-sm font-medium truncate">{fileName}</span>
+        </a>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPT}
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="lg"
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading}
+        className="w-full gap-2"
+      >
+        {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+        {isUploading ? labels.uploading : value ? labels.replace : labels.upload}
+      </Button>
+
+      {error ? (
+        <p className="text-xs text-destructive text-center">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground text-center">{labels.hint}</p>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,10 @@ interface MultiChoiceQuestionProps {
   onChange: (value: string[]) => void;
   locale: Locale;
   isRequired?: boolean;
+  /** Short line under an option, e.g. spots left */
+  optionNotes?: Record<string, string>;
+  /** Options that can't be picked (full), unless already selected */
+  disabledOptions?: string[];
 }
 
 export function MultiChoiceQuestion({
@@ -23,6 +27,8 @@ export function MultiChoiceQuestion({
   onChange,
   locale,
   isRequired,
+  optionNotes,
+  disabledOptions,
 }: MultiChoiceQuestionProps) {
   const getText = (text: MultilingualText | null | undefined): string => {
     if (!text) return "";
@@ -59,11 +65,14 @@ export function MultiChoiceQuestion({
       <div className="space-y-3">
         {options.map((option) => {
           const isSelected = value.includes(option.value);
+          const isDisabled = !isSelected && !!disabledOptions?.includes(option.value);
+          const note = optionNotes?.[option.value];
           return (
             <Touchable
               key={option.value}
               onClick={() => toggleOption(option.value)}
               haptic="selection"
+              disabled={isDisabled}
               className={cn(
                 "w-full p-4 rounded-xl border-2 transition-all cursor-pointer",
                 "min-h-[56px] flex items-center justify-between",
@@ -72,11 +81,16 @@ export function MultiChoiceQuestion({
                   : "border-border hover:border-primary/50 hover:bg-muted/50"
               )}
             >
-              <span className={cn(
-                "font-medium",
-                isSelected && "text-primary"
-              )}>
-                {getText(option.label)}
+              <span className="text-left">
+                <span className={cn(
+                  "block font-medium",
+                  isSelected && "text-primary"
+                )}>
+                  {getText(option.label)}
+                </span>
+                {note && (
+                  <span className="block text-xs text-muted-foreground">{note}</span>
+                )}
               </span>
               <div className={cn(
                 "w-6 h-6 rounded-md border-2 flex items-center justify-center transition-all",
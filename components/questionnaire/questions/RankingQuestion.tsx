@@ -0,0 +1,100 @@
+"use client";
+
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { triggerHaptic } from "@/lib/haptics";
+import type { QuestionOption, MultilingualText, Locale } from "@/lib/types";
+
+interface RankingQuestionProps {
+  questionText: MultilingualText;
+  descriptionText?: MultilingualText | null;
+  options: QuestionOption[];
+  /** Option values, best first. Empty until the user reorders. */
+  value: string[];
+  onChange: (value: string[]) => void;
+  locale: Locale;
+  hint: string;
+  isRequired?: boolean;
+}
+
+export function RankingQuestion({
+  questionText,
+  descriptionText,
+  options,
+  value,
+  onChange,
+  locale,
+  hint,
+  isRequired,
+}: RankingQuestionProps) {
+  const getText = (text: MultilingualText | null | undefined): string => {
+    if (!text) return "";
+    return text[locale] || text.en || Object.values(text)[0] || "";
+  };
+
+  // Unranked options keep their configured order
+  const order = [
+    ...value.filter((v) => options.some((o) => o.value === v)),
+    ...options.map((o) => o.value).filter((v) => !value.includes(v)),
+  ];
+  const byValue = new Map(options.map((o) => [o.value, o]));
+
+  const move = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+    triggerHaptic("selection");
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Question */}
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-center">
+          {getText(questionText)}
+          {isRequired && <span className="text-destructive ml-1">*</span>}
+        </h2>
+        {descriptionText && (
+          <p className="text-sm text-muted-foreground text-center">
+            {getText(descriptionText)}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground text-center">{hint}</p>
+      </div>
+
+      {/* Ranked options */}
+      <ol className="space-y-2">
+        {order.map((optionValue, index) => (
+          <li
+            key={optionValue}
+            className="flex items-center gap-3 p-3 rounded-xl border-2 border-border min-h-[56px]"
+          >
+            <span className="w-6 h-6 shrink-0 rounded-full bg-primary/10 text-primary text-sm font-semibold flex items-center justify-center">
+              {index + 1}
+            </span>
+            <span className="flex-1 font-medium">{getText(byValue.get(optionValue)?.label)}</span>
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 hover:bg-muted rounded disabled:opacity-30"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === order.length - 1}
+                className="p-1 hover:bg-muted rounded disabled:opacity-30"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
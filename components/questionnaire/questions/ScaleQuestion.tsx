@@ -0,0 +1,86 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Touchable } from "@/components/ui/touchable";
+import type { MultilingualText, Locale } from "@/lib/types";
+
+interface ScaleQuestionProps {
+  questionText: MultilingualText;
+  descriptionText?: MultilingualText | null;
+  /** 1 for a 1–5 rating, 0 for NPS */
+  min: number;
+  /** 5 for a 1–5 rating, 10 for NPS */
+  max: number;
+  value: string | null;
+  onChange: (value: string) => void;
+  locale: Locale;
+  lowLabel: string;
+  highLabel: string;
+  isRequired?: boolean;
+}
+
+export function ScaleQuestion({
+  questionText,
+  descriptionText,
+  min,
+  max,
+  value,
+  onChange,
+  locale,
+  lowLabel,
+  highLabel,
+  isRequired,
+}: ScaleQuestionProps) {
+  const getText = (text: MultilingualText | null | undefined): string => {
+    if (!text) return "";
+    return text[locale] || text.en || Object.values(text)[0] || "";
+  };
+
+  const steps = Array.from({ length: max - min + 1 }, (_, i) => String(min + i));
+
+  return (
+    <div className="space-y-6">
+      {/* Question */}
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-center">
+          {getText(questionText)}
+          {isRequired && <span className="text-destructive ml-1">*</span>}
+        </h2>
+        {descriptionText && (
+          <p className="text-sm text-muted-foreground text-center">
+            {getText(descriptionText)}
+          </p>
+        )}
+      </div>
+
+      {/* Scale */}
+      <div className="space-y-2">
+        <div className={cn("grid gap-1.5", steps.length > 6 ? "grid-cols-11" : "grid-cols-5")}>
+          {steps.map((step) => {
+            const isSelected = value === step;
+            return (
+              <Touchable
+                key={step}
+                onClick={() => onChange(step)}
+                haptic="selection"
+                className={cn(
+                  "rounded-xl border-2 transition-all cursor-pointer",
+                  "min-h-[48px] flex items-center justify-center font-semibold tabular-nums",
+                  isSelected
+                    ? "border-primary bg-primary text-primary-foreground"
+                    : "border-border hover:border-primary/50 hover:bg-muted/50"
+                )}
+              >
+                {step}
+              </Touchable>
+            );
+          })}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{lowLabel}</span>
+          <span>{highLabel}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,10 @@ interface SingleChoiceQuestionProps {
   onChange: (value: string) => void;
   locale: Locale;
   isRequired?: boolean;
+  /** Short line under an option, e.g. spots left */
+  optionNotes?: Record<string, string>;
+  /** Options that can't be picked (full), unless already selected */
+  disabledOptions?: string[];
 }
 
 export function SingleChoiceQuestion({
@@ -23,6 +27,8 @@ export function SingleChoiceQuestion({
   onChange,
   locale,
   isRequired,
+  optionNotes,
+  disabledOptions,
 }: SingleChoiceQuestionProps) {
   const getText = (text: MultilingualText | null | undefined): string => {
     if (!text) return "";
@@ -48,11 +54,14 @@ export function SingleChoiceQuestion({
       <div className="space-y-3">
         {options.map((option) => {
           const isSelected = value === option.value;
+          const isDisabled = !isSelected && !!disabledOptions?.includes(option.value);
+          const note = optionNotes?.[option.value];
           return (
             <Touchable
               key={option.value}
               onClick={() => onChange(option.value)}
               haptic="selection"
+              disabled={isDisabled}
               className={cn(
                 "w-full p-4 rounded-xl border-2 transition-all cursor-pointer",
                 "min-h-[56px] flex items-center justify-between",
@@ -61,11 +70,16 @@ export function SingleChoiceQuestion({
                   : "border-border hover:border-primary/50 hover:bg-muted/50"
               )}
             >
-              <span className={cn(
-                "font-medium",
-                isSelected && "text-primary"
-              )}>
-                {getText(option.label)}
+              <span className="text-left">
+                <span className={cn(
+                  "block font-medium",
+                  isSelected && "text-primary"
+                )}>
+                  {getText(option.label)}
+                </span>
+                {note && (
+                  <span className="block text-xs text-muted-foreground">{note}</span>
+                )}
               </span>
               {isSelected && (
                 <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center">
@@ -7,6 +7,7 @@ import { useTranslations } from "next-intl";
 import { Search, X, Loader2, MapPin, Calendar } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { DALAT_TIMEZONE } from "@/lib/timezone";
+import { withRsvpSource } from "@/lib/events/rsvp-source";
 
 interface SearchSuggestion {
   id: string;
@@ -147,7 +148,7 @@ export function HeaderSearch() {
       setIsOpen(false);
       setQuery("");
       setShowSuggestions(false);
-      router.push(`/events/${slug}`);
+      router.push(withRsvpSource(`/events/${slug}`, "search"));
     },
     [router]
   );
@@ -6,6 +6,7 @@ import { useTranslations } from "next-intl";
 import { Search, Loader2, MapPin, Calendar } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { DALAT_TIMEZONE } from "@/lib/timezone";
+import { withRsvpSource } from "@/lib/events/rsvp-source";
 
 interface SearchSuggestion {
   id: string;
@@ -106,7 +107,7 @@ export function InstantSearch({
   const navigateToEvent = useCallback(
     (slug: string) => {
       setIsOpen(false);
-      router.push(`/events/${slug}`);
+      router.push(withRsvpSource(`/events/${slug}`, "search"));
     },
     [router]
   );
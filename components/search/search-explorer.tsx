@@ -0,0 +1,401 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { BadgeCheck, ChevronLeft, ChevronRight, Search, Users } from "lucide-react";
+import { Link } from "@/lib/i18n/routing";
+import { Input } from "@/components/ui/input";
+import { EventCard } from "@/components/events/event-card";
+import { cn } from "@/lib/utils";
+import { getVenueTypeConfig } from "@/lib/constants/venue-types";
+import {
+  SEARCH_TYPES,
+  parseSearchFilters,
+  toSearchParams,
+  type SearchFilters,
+  type SearchType,
+} from "@/lib/search/filters";
+import type { SearchResponse, SearchSection } from "@/lib/search/types";
+import { SearchFilterBar } from "./search-filter-bar";
+
+// Typing settles before the URL (and the request) updates
+const QUERY_DEBOUNCE_MS = 350;
+
+type Loaded = { key: string; data: SearchResponse | null; failed: boolean };
+
+/**
+ * Faceted search over /api/search. The URL holds every filter, so any
+ * state of this page can be shared or bookmarked.
+ */
+export function SearchExplorer() {
+  const t = useTranslations("search");
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(
+    () => parseSearchFilters(new URLSearchParams(searchParams?.toString())),
+    [searchParams]
+  );
+  const requestKey = toSearchParams(filters).toString();
+
+  const [draft, setDraft] = useState(filters.q);
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+
+  function update(patch: Partial<SearchFilters>) {
+    // Any change other than paging starts over at page 1
+    const next = { ...filters, page: 1, ...patch };
+    const query = toSearchParams(next).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: "page" in patch });
+  }
+
+  // Push the typed query into the URL once typing pauses
+  useEffect(() => {
+    if (draft.trim() === filters.q) return;
+    const timer = setTimeout(() => update({ q: draft.trim() }), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only re-run when the draft changes
+  }, [draft]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/search?${requestKey}`, { signal: controller.signal })
+      .then(async (res) => {
+        const data = (await res.json().catch(() => null)) as SearchResponse | null;
+        setLoaded({ key: requestKey, data: res.ok ? data : null, failed: !res.ok });
+      })
+      .catch((error) => {
+        if (error?.name === "AbortError") return;
+        setLoaded({ key: requestKey, data: null, failed: true });
+      });
+
+    return () => controller.abort();
+  }, [requestKey]);
+
+  const isLoading = loaded?.key !== requestKey;
+  // Keep showing the previous results while the next ones load
+  const data = loaded?.data ?? null;
+  const showEvents = filters.type === "all" || filters.type === "events";
+
+  return (
+    <div className="space-y-5">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          type="search"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") update({ q: draft.trim() });
+          }}
+          placeholder={t("placeholder")}
+          className="pl-9 h-11 rounded-full"
+          autoFocus
+        />
+      </div>
+
+      {/* Result types */}
+      <div className="flex gap-1 overflow-x-auto -mx-4 px-4 border-b">
+        {SEARCH_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => update({ type })}
+            className={cn(
+              "px-3 py-2 text-sm whitespace-nowrap border-b-2 -mb-px transition-colors",
+              filters.type === type
+                ? "border-primary text-foreground font-medium"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {t(`types.${type}`)}
+            {type !== "all" && data?.[type] ? ` (${data[type].total})` : ""}
+          </button>
+        ))}
+      </div>
+
+      {showEvents && (
+        <SearchFilterBar filters={filters} facets={data?.events?.facets ?? null} onChange={update} />
+      )}
+
+      {loaded?.failed && !isLoading && (
+        <p className="text-sm text-destructive">{t("searchFailed")}</p>
+      )}
+      {data?.degraded && !isLoading && (
+        <p className="text-xs text-muted-foreground">{t("degraded")}</p>
+      )}
+
+      <div className={cn("space-y-8 transition-opacity", isLoading && "opacity-60")}>
+        {!data && isLoading && <ResultsSkeleton />}
+
+        {data && isEmpty(data) && !isLoading && (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>{t("noMatches")}</p>
+            <p className="text-sm mt-1">{t("noResultsHint")}</p>
+          </div>
+        )}
+
+        {data?.events && data.events.items.length > 0 && (
+          <ResultSection
+            title={t("types.events")}
+            section={data.events}
+            type="events"
+            filters={filters}
+            onPage={(page) => update({ page })}
+            onSeeAll={() => update({ type: "events" })}
+          >
+            <div className="grid gap-4 sm:grid-cols-2">
+              {data.events.items.map((event) => (
+                <div key={event.id} className="relative">
+                  <EventCard event={event} source="search" />
+                  {event.distance_km !== null && (
+                    <span className="absolute top-2 right-2 rounded-full bg-background/90 px-2 py-0.5 text-xs">
+                      {t("distance", { km: event.distance_km })}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ResultSection>
+        )}
+
+        {data?.venues && data.venues.items.length > 0 && (
+          <ResultSection
+            title={t("types.venues")}
+            section={data.venues}
+            type="venues"
+            filters={filters}
+            onPage={(page) => update({ page })}
+            onSeeAll={() => update({ type: "venues" })}
+          >
+            <div className="grid gap-2 sm:grid-cols-2">
+              {data.venues.items.map((venue) => {
+                const TypeIcon = getVenueTypeConfig(venue.venue_type).icon;
+                return (
+                  <ResultRow
+                    key={venue.id}
+                    href={`/venues/${venue.slug}`}
+                    image={venue.logo_url ?? venue.cover_photo_url}
+                    fallback={<TypeIcon className="w-5 h-5 text-muted-foreground" />}
+                    title={venue.name}
+                    verified={venue.is_verified}
+                    subtitle={
+                      venue.distance_km !== null
+                        ? t("distance", { km: venue.distance_km })
+                        : venue.address
+                    }
+                  />
+                );
+              })}
+            </div>
+          </ResultSection>
+        )}
+
+        {data?.organizers && data.organizers.items.length > 0 && (
+          <ResultSection
+            title={t("types.organizers")}
+            section={data.organizers}
+            type="organizers"
+            filters={filters}
+            onPage={(page) => update({ page })}
+            onSeeAll={() => update({ type: "organizers" })}
+          >
+            <div className="grid gap-2 sm:grid-cols-2">
+              {data.organizers.items.map((organizer) => (
+                <ResultRow
+                  key={organizer.id}
+                  href={`/organizers/${organizer.slug}`}
+                  image={organizer.logo_url}
+                  fallback={<Users className="w-5 h-5 text-muted-foreground" />}
+                  title={organizer.name}
+                  verified={organizer.is_verified}
+                />
+              ))}
+            </div>
+          </ResultSection>
+        )}
+
+        {data?.tribes && data.tribes.items.length > 0 && (
+          <ResultSection
+            title={t("types.tribes")}
+            section={data.tribes}
+            type="tribes"
+            filters={filters}
+            onPage={(page) => update({ page })}
+            onSeeAll={() => update({ type: "tribes" })}
+          >
+            <div className="grid gap-2 sm:grid-cols-2">
+              {data.tribes.items.map((tribe) => (
+                <ResultRow
+                  key={tribe.id}
+                  href={`/tribes/${tribe.slug}`}
+                  image={tribe.cover_image_url}
+                  fallback={<span className="font-semibold">{tribe.name.charAt(0).toUpperCase()}</span>}
+                  title={tribe.name}
+                  subtitle={tribe.description}
+                />
+              ))}
+            </div>
+          </ResultSection>
+        )}
+
+        {data?.moments && data.moments.items.length > 0 && (
+          <ResultSection
+            title={t("types.moments")}
+            section={data.moments}
+            type="moments"
+            filters={filters}
+            onPage={(page) => update({ page })}
+            onSeeAll={() => update({ type: "moments" })}
+          >
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-1.5">
+              {data.moments.items.map((moment) => (
+                <Link
+                  key={moment.id}
+                  href={`/moments/${moment.id}`}
+                  className="relative aspect-square overflow-hidden rounded-md bg-muted"
+                  title={moment.event_title}
+                >
+                  {(moment.thumbnail_url ?? moment.media_url) && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={moment.thumbnail_url ?? moment.media_url ?? ""}
+                      alt={moment.event_title}
+                      loading="lazy"
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </Link>
+              ))}
+            </div>
+          </ResultSection>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function isEmpty(data: SearchResponse): boolean {
+  return (["events", "venues", "organizers", "tribes", "moments"] as const).every(
+    (type) => !data[type] || data[type].items.length === 0
+  );
+}
+
+function ResultSection<T>({
+  title,
+  section,
+  type,
+  filters,
+  onPage,
+  onSeeAll,
+  children,
+}: {
+  title: string;
+  section: SearchSection<T>;
+  type: Exclude<SearchType, "all">;
+  filters: SearchFilters;
+  onPage: (page: number) => void;
+  onSeeAll: () => void;
+  children: React.ReactNode;
+}) {
+  const t = useTranslations("search");
+  const totalPages = Math.max(1, Math.ceil(section.total / section.pageSize));
+  // In "all", only events page here; other sections link through to their tab
+  const pages = filters.type === type || (filters.type === "all" && type === "events");
+
+  return (
+    <section>
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold">
+          {title} <span className="text-muted-foreground font-normal">({section.total})</span>
+        </h2>
+        {!pages && section.hasMore && (
+          <button type="button" onClick={onSeeAll} className="text-sm text-primary hover:underline">
+            {t("seeAll")}
+          </button>
+        )}
+      </div>
+
+      {children}
+
+      {pages && totalPages > 1 && (
+        <nav className="flex items-center justify-center gap-4 mt-6">
+          <button
+            type="button"
+            onClick={() => onPage(section.page - 1)}
+            disabled={section.page <= 1}
+            className="flex items-center gap-1 text-sm disabled:opacity-40"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            {t("previous")}
+          </button>
+          <span className="text-sm text-muted-foreground">
+            {t("pageOf", { page: section.page, pages: totalPages })}
+          </span>
+          <button
+            type="button"
+            onClick={() => onPage(section.page + 1)}
+            disabled={!section.hasMore}
+            className="flex items-center gap-1 text-sm disabled:opacity-40"
+          >
+            {t("next")}
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </nav>
+      )}
+    </section>
+  );
+}
+
+function ResultRow({
+  href,
+  image,
+  fallback,
+  title,
+  subtitle,
+  verified,
+}: {
+  href: string;
+  image: string | null;
+  fallback: React.ReactNode;
+  title: string;
+  subtitle?: string | null;
+  verified?: boolean;
+}) {
+  return (
+    <Link
+      href={href}
+      className="flex items-center gap-3 rounded-lg border p-3 hover:border-primary/50 hover:bg-muted/50 transition-colors active:scale-[0.99]"
+    >
+      <div className="w-10 h-10 shrink-0 rounded-lg bg-muted overflow-hidden flex items-center justify-center">
+        {image ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={image} alt="" className="w-full h-full object-cover" />
+        ) : (
+          fallback
+        )}
+      </div>
+      <div className="min-w-0">
+        <p className="font-medium truncate flex items-center gap-1">
+          {title}
+          {verified && <BadgeCheck className="w-4 h-4 text-primary shrink-0" />}
+        </p>
+        {subtitle && (
+          <p className="text-sm text-muted-foreground truncate">{subtitle}</p>
+        )}
+      </div>
+    </Link>
+  );
+}
+
+function ResultsSkeleton() {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {Array.from({ length: 4 }, (_, i) => (
+        <div key={i} className="h-48 rounded-xl bg-muted animate-pulse" />
+      ))}
+    </div>
+  );
+}
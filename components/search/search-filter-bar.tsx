@@ -0,0 +1,272 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Calendar, LocateFixed, Loader2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { triggerHaptic } from "@/lib/haptics";
+import {
+  DATE_PRESETS,
+  PRICE_TYPES,
+  RADIUS_OPTIONS_KM,
+  SEARCH_SORTS,
+  hasActiveFilters,
+  type SearchFilters,
+} from "@/lib/search/filters";
+import type { EventFacets, FacetCount } from "@/lib/search/types";
+import type { EventTag } from "@/lib/constants/event-tags";
+import type { PriceType, VenueType } from "@/lib/types";
+
+// Tag chips beyond this are behind "more" so the bar stays one or two rows
+const VISIBLE_TAGS = 10;
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  facets: EventFacets | null;
+  onChange: (patch: Partial<SearchFilters>) => void;
+}
+
+function Chip({
+  active,
+  onClick,
+  children,
+  count,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+  count?: number;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        triggerHaptic("selection");
+        onClick();
+      }}
+      className={cn(
+        "inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-sm whitespace-nowrap border transition-colors active:scale-95",
+        active
+          ? "bg-primary text-primary-foreground border-primary"
+          : "text-muted-foreground hover:text-foreground hover:border-foreground/30"
+      )}
+    >
+      {children}
+      {count !== undefined && <span className={cn("text-xs", active ? "opacity-80" : "opacity-60")}>{count}</span>}
+    </button>
+  );
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function countFor(facet: FacetCount[] | undefined, value: string): number {
+  return facet?.find((f) => f.value === value)?.count ?? 0;
+}
+
+/**
+ * Filter chips for the search page. Counts come from the API's facets and
+ * already account for the other active filters.
+ */
+export function SearchFilterBar({ filters, facets, onChange }: SearchFilterBarProps) {
+  const t = useTranslations("search");
+  const tTags = useTranslations("eventTags");
+  const tVenues = useTranslations("venues");
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState(false);
+  const [showAllTags, setShowAllTags] = useState(false);
+  const [showDates, setShowDates] = useState(Boolean(filters.from || filters.to));
+
+  // Selected values stay visible even when they have no matches
+  const tagFacets: FacetCount[] = [
+    ...filters.tags
+      .filter((tag) => !facets?.tags.some((f) => f.value === tag))
+      .map((tag) => ({ value: tag, count: 0 })),
+    ...(facets?.tags ?? []),
+  ];
+  const visibleTags = showAllTags ? tagFacets : tagFacets.slice(0, VISIBLE_TAGS);
+
+  const venueFacets: FacetCount[] = [
+    ...filters.venueTypes
+      .filter((type) => !facets?.venue_type.some((f) => f.value === type))
+      .map((type) => ({ value: type, count: 0 })),
+    ...(facets?.venue_type ?? []),
+  ];
+
+  function handleNearMe() {
+    if (filters.near) {
+      onChange({ near: null, sort: filters.sort === "distance" ? "relevance" : filters.sort });
+      return;
+    }
+    if (!navigator.geolocation) {
+      setLocationError(true);
+      return;
+    }
+
+    setLocating(true);
+    setLocationError(false);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        onChange({ near: { lat: position.coords.latitude, lng: position.coords.longitude } });
+      },
+      (error) => {
+        console.error("Geolocation error:", error);
+        setLocating(false);
+        setLocationError(true);
+      },
+      { enableHighAccuracy: false, timeout: 10000 }
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* When */}
+      <div className="flex gap-2 overflow-x-auto pb-1 -mx-4 px-4 scrollbar-hide">
+        {DATE_PRESETS.map((preset) => (
+          <Chip
+            key={preset}
+            active={filters.date === preset && !filters.from && !filters.to}
+            onClick={() =>
+              onChange({ date: filters.date === preset ? null : preset, from: null, to: null })
+            }
+          >
+            {t(`dates.${preset}`)}
+          </Chip>
+        ))}
+        <Chip active={Boolean(filters.from || filters.to)} onClick={() => setShowDates((v) => !v)}>
+          <Calendar className="w-3.5 h-3.5" />
+          {t("dates.custom")}
+        </Chip>
+      </div>
+
+      {showDates && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={filters.from ?? ""}
+            onChange={(e) => onChange({ from: e.target.value || null, date: null })}
+            aria-label={t("dates.from")}
+            className="h-9"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="date"
+            value={filters.to ?? ""}
+            min={filters.from ?? undefined}
+            onChange={(e) => onChange({ to: e.target.value || null, date: null })}
+            aria-label={t("dates.to")}
+            className="h-9"
+          />
+        </div>
+      )}
+
+      {/* Price + where */}
+      <div className="flex gap-2 overflow-x-auto pb-1 -mx-4 px-4 scrollbar-hide">
+        {PRICE_TYPES.map((price) => (
+          <Chip
+            key={price}
+            active={filters.priceTypes.includes(price)}
+            count={facets ? countFor(facets.price_type, price) : undefined}
+            onClick={() => onChange({ priceTypes: toggle<PriceType>(filters.priceTypes, price) })}
+          >
+            {t(`price.${price}`)}
+          </Chip>
+        ))}
+        <Chip active={Boolean(filters.near)} onClick={handleNearMe}>
+          {locating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <LocateFixed className="w-3.5 h-3.5" />}
+          {t("nearMe")}
+        </Chip>
+        {filters.near &&
+          RADIUS_OPTIONS_KM.map((km) => (
+            <Chip key={km} active={filters.radiusKm === km} onClick={() => onChange({ radiusKm: km })}>
+              {t("radius", { km })}
+            </Chip>
+          ))}
+      </div>
+      {locationError && <p className="text-xs text-destructive">{t("locationUnavailable")}</p>}
+
+      {/* Tags */}
+      {tagFacets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {visibleTags.map(({ value, count }) => (
+            <Chip
+              key={value}
+              active={filters.tags.includes(value as EventTag)}
+              count={count}
+              onClick={() => onChange({ tags: toggle(filters.tags, value as EventTag) })}
+            >
+              {tTags(value)}
+            </Chip>
+          ))}
+          {tagFacets.length > VISIBLE_TAGS && (
+            <button
+              type="button"
+              onClick={() => setShowAllTags((v) => !v)}
+              className="px-2 py-1.5 text-sm text-primary hover:underline"
+            >
+              {showAllTags ? t("fewerTags") : t("moreTags", { count: tagFacets.length - VISIBLE_TAGS })}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Venue types */}
+      {venueFacets.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1 -mx-4 px-4 scrollbar-hide">
+          {venueFacets.map(({ value, count }) => (
+            <Chip
+              key={value}
+              active={filters.venueTypes.includes(value as VenueType)}
+              count={count}
+              onClick={() => onChange({ venueTypes: toggle(filters.venueTypes, value as VenueType) })}
+            >
+              {tVenues(`types.${value}`)}
+            </Chip>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1 text-sm">
+          {SEARCH_SORTS.filter((sort) => sort !== "distance" || filters.near).map((sort) => (
+            <button
+              key={sort}
+              type="button"
+              onClick={() => onChange({ sort })}
+              className={cn(
+                "px-2 py-1 rounded-md transition-colors",
+                filters.sort === sort ? "bg-muted font-medium" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {t(`sort.${sort}`)}
+            </button>
+          ))}
+        </div>
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                tags: [],
+                priceTypes: [],
+                venueTypes: [],
+                date: null,
+                from: null,
+                to: null,
+                near: null,
+                sort: "relevance",
+              })
+            }
+            className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <X className="w-3.5 h-3.5" />
+            {t("clearFilters")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -45,6 +45,7 @@ export function SeriesForm({ series, userId: _userId }: SeriesFormProps) {
   const tCommon = useTranslations("common");
   const tEventForm = useTranslations("eventForm");
   const tErrors = useTranslations("errors");
+  const tRecurrence = useTranslations("recurrence");
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
 
@@ -185,7 +186,7 @@ export function SeriesForm({ series, userId: _userId }: SeriesFormProps) {
     }
   }
 
-  const recurrenceDescription = describeRRule(series.rrule);
+  const recurrenceDescription = describeRRule(series.rrule, tRecurrence);
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useTranslations } from "next-intl";
+import { CalendarPlus, Check, Copy, Loader2, RefreshCw } from "lucide-react";
+import { useShare } from "@/lib/hooks/use-share";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export function CalendarFeedSettings() {
+  const t = useTranslations("settings");
+  const { copyText, copied } = useShare();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    fetch("/api/calendar/feed-token")
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data) => setFeedUrl(data.url))
+      .catch(() => setError(true));
+  }, []);
+
+  const handleRotate = () => {
+    if (!confirm(t("calendarFeed.rotateConfirm"))) return;
+
+    startTransition(async () => {
+      const res = await fetch("/api/calendar/feed-token", { method: "POST" });
+      if (res.ok) {
+        const data = await res.json();
+        setFeedUrl(data.url);
+        setError(false);
+      } else {
+        setError(true);
+      }
+    });
+  };
+
+  if (error && !feedUrl) {
+    return <p className="text-sm text-destructive">{t("calendarFeed.loadFailed")}</p>;
+  }
+
+  if (!feedUrl) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+      </div>
+    );
+  }
+
+  // webcal:// hands the URL to the OS calendar app as a live subscription
+  const webcalUrl = feedUrl.replace(/^https?:\/\//, "webcal://");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input value={feedUrl} readOnly className="font-mono text-xs" />
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => copyText(feedUrl)}
+          className="shrink-0 p-2"
+          aria-label={t("calendarFeed.copy")}
+        >
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">{t("calendarFeed.privateNote")}</p>
+      <div className="flex flex-wrap gap-2">
+        <Button asChild size="sm">
+          <a href={webcalUrl}>
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            {t("calendarFeed.subscribe")}
+          </a>
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleRotate} disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          {t("calendarFeed.rotate")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { Check, Clock, Layers, Zap } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState, useTransition } from "react";
+import { cn } from "@/lib/utils";
+import { triggerHaptic } from "@/lib/haptics";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DigestFrequency } from "@/lib/notifications/types";
+
+const DIGEST_OPTIONS = [
+  { value: "instant" as DigestFrequency, labelKey: "digestInstant", icon: Zap },
+  { value: "hourly" as DigestFrequency, labelKey: "digestHourly", icon: Clock },
+  { value: "daily" as DigestFrequency, labelKey: "digestDaily", icon: Layers },
+] as const;
+
+const HOURS = Array.from({ length: 24 }, (_, h) => `${String(h).padStart(2, "0")}:00`);
+
+/**
+ * How RSVPs, comments, thread replies and new followers reach push/email:
+ * one by one, or batched into an hourly / daily digest.
+ */
+export function DigestSettings() {
+  const t = useTranslations("notifications");
+  const [frequency, setFrequency] = useState<DigestFrequency>("instant");
+  const [time, setTime] = useState("08:00");
+  const [loaded, setLoaded] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    fetch("/api/notifications/digest")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data) {
+          setFrequency(data.frequency);
+          setTime(data.time);
+        }
+      })
+      .catch(() => {})
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const save = (next: { frequency: DigestFrequency; time: string }) => {
+    startTransition(async () => {
+      await fetch("/api/notifications/digest", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+    });
+  };
+
+  const handleFrequencyChange = (value: DigestFrequency) => {
+    if (value === frequency || isPending) return;
+    triggerHaptic("selection");
+    setFrequency(value);
+    save({ frequency: value, time });
+  };
+
+  const handleTimeChange = (value: string) => {
+    setTime(value);
+    save({ frequency, time: value });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-foreground">{t("digestTitle")}</p>
+        <p className="text-xs text-muted-foreground">{t("digestDescription")}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {DIGEST_OPTIONS.map((option) => {
+          const Icon = option.icon;
+          const isSelected = frequency === option.value;
+
+          return (
+            <button
+              key={option.value}
+              onClick={() => handleFrequencyChange(option.value)}
+              disabled={!loaded || isPending}
+              className={cn(
+                "flex flex-col items-center gap-2 p-4 rounded-lg border-2 transition-all duration-200",
+                isSelected
+                  ? "border-primary bg-primary/5 shadow-sm"
+                  : "border-border hover:border-primary/50 hover:bg-muted/50",
+                (!loaded || isPending) && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              <div className="relative">
+                <Icon
+                  className={cn(
+                    "w-5 h-5",
+                    isSelected ? "text-primary" : "text-muted-foreground"
+                  )}
+                />
+                {isSelected && (
+                  <Check className="w-3 h-3 text-primary absolute -bottom-1 -right-1" />
+                )}
+              </div>
+              <span
+                className={cn(
+                  "text-sm font-medium text-center",
+                  isSelected ? "text-primary" : "text-muted-foreground"
+                )}
+              >
+                {t(option.labelKey)}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {frequency === "daily" && (
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm text-foreground">{t("digestTime")}</p>
+            <p className="text-xs text-muted-foreground">{t("digestTimeHint")}</p>
+          </div>
+          <Select value={time} onValueChange={handleTimeChange} disabled={isPending}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOURS.map((hour) => (
+                <SelectItem key={hour} value={hour}>
+                  {hour}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { Moon, Globe } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DALAT_TIMEZONE } from "@/lib/timezone";
+
+interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  /** null = Đà Lạt */
+  timezone: string | null;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, h) => `${String(h).padStart(2, "0")}:00`);
+
+/**
+ * Quiet hours for push and email, in the member's own timezone. Urgent
+ * notifications (the 2h reminder, secret address, waitlist offers) still
+ * come through; everything else waits for the window to end.
+ */
+export function QuietHoursSettings() {
+  const t = useTranslations("notifications");
+  const [settings, setSettings] = useState<QuietHours>({
+    enabled: false,
+    start: "22:00",
+    end: "08:00",
+    timezone: null,
+  });
+  const [loaded, setLoaded] = useState(false);
+  const [deviceTimezone, setDeviceTimezone] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const timezones = useMemo(() => {
+    const all = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+    return all.includes(DALAT_TIMEZONE) ? all : [DALAT_TIMEZONE, ...all];
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/notifications/quiet-hours")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data) setSettings(data);
+        // Read after mount so the server render doesn't disagree
+        setDeviceTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone || null);
+      })
+      .catch(() => {})
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const update = (patch: Partial<QuietHours>) => {
+    const next = { ...settings, ...patch };
+    if (next.start === next.end) return;
+    setSettings(next);
+    startTransition(async () => {
+      await fetch("/api/notifications/quiet-hours", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+    });
+  };
+
+  const timezone = settings.timezone ?? DALAT_TIMEZONE;
+  const disabled = !loaded || isPending;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <Moon className="w-5 h-5 mt-0.5 text-muted-foreground" />
+          <div>
+            <p className="text-sm font-medium text-foreground">{t("quietHoursTitle")}</p>
+            <p className="text-xs text-muted-foreground">{t("quietHoursDescription")}</p>
+          </div>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+          disabled={disabled}
+          aria-label={t("quietHoursTitle")}
+        />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-3 pl-8">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">{t("quietHoursFrom")}</span>
+            <Select value={settings.start} onValueChange={(start) => update({ start })} disabled={disabled}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOURS.map((hour) => (
+                  <SelectItem key={hour} value={hour} disabled={hour === settings.end}>
+                    {hour}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">{t("quietHoursTo")}</span>
+            <Select value={settings.end} onValueChange={(end) => update({ end })} disabled={disabled}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOURS.map((hour) => (
+                  <SelectItem key={hour} value={hour} disabled={hour === settings.start}>
+                    {hour}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">{t("quietHoursUrgent")}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Globe className="w-4 h-4 text-muted-foreground" />
+          <p className="text-sm text-foreground">{t("timezone")}</p>
+        </div>
+        <Select
+          value={timezone}
+          onValueChange={(value) => update({ timezone: value === DALAT_TIMEZONE ? null : value })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timezones.map((zone) => (
+              <SelectItem key={zone} value={zone}>
+                {zone.replace(/_/g, " ")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {deviceTimezone && deviceTimezone !== timezone && (
+          <button
+            type="button"
+            onClick={() => update({ timezone: deviceTimezone === DALAT_TIMEZONE ? null : deviceTimezone })}
+            disabled={disabled}
+            className="text-xs text-primary hover:underline disabled:opacity-50"
+          >
+            {t("useDeviceTimezone", { timezone: deviceTimezone.replace(/_/g, " ") })}
+          </button>
+        )}
+        <p className="text-xs text-muted-foreground">{t("timezoneHint")}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Plus, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { normalizePhoneNumber } from "@/lib/invites/phone";
+import type { PhoneInviteChannel } from "@/lib/types";
+
+export interface PhoneInvitee {
+  /** E.164 */
+  phone: string;
+  channel: PhoneInviteChannel;
+}
+
+interface PhoneInviteeInputProps {
+  invitees: PhoneInvitee[];
+  onInviteesChange: (invitees: PhoneInvitee[]) => void;
+  /** Channels the server can send on (GET …/invitations → channels) */
+  channels: PhoneInviteChannel[];
+  disabled?: boolean;
+}
+
+const CHANNEL_KEYS: Record<PhoneInviteChannel, "channelSms" | "channelWhatsapp" | "channelZalo"> = {
+  sms: "channelSms",
+  whatsapp: "channelWhatsapp",
+  zalo: "channelZalo",
+};
+
+/**
+ * Invite by phone number over SMS, WhatsApp or Zalo. Sits next to
+ * InviteeInput rather than inside it: numbers need a channel, and the row
+ * only appears when the server has at least one phone channel configured.
+ * Numbers are normalised here for the chip and again on the server.
+ */
+export function PhoneInviteeInput({
+  invitees,
+  onInviteesChange,
+  channels,
+  disabled = false,
+}: PhoneInviteeInputProps) {
+  const t = useTranslations("invite");
+  const [value, setValue] = useState("");
+  const [picked, setPicked] = useState<PhoneInviteChannel | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  if (channels.length === 0) return null;
+
+  // Channels load after mount; default to Zalo, which most people here use
+  const channel = picked && channels.includes(picked)
+    ? picked
+    : channels.includes("zalo") ? "zalo" : channels[0];
+
+  const handleAdd = () => {
+    if (!value.trim()) return;
+    const phone = normalizePhoneNumber(value);
+    if (!phone) {
+      setInvalid(true);
+      return;
+    }
+    if (!invitees.some((inv) => inv.phone === phone)) {
+      onInviteesChange([...invitees, { phone, channel }]);
+    }
+    setValue("");
+    setInvalid(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="tel"
+          inputMode="tel"
+          autoComplete="tel"
+          placeholder={t("phonePlaceholder")}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setInvalid(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          disabled={disabled}
+          aria-invalid={invalid}
+          className="flex-1 text-base"
+        />
+        <Select
+          value={channel}
+          onValueChange={(v) => setPicked(v as PhoneInviteChannel)}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-32" aria-label={t("phoneChannel")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {channels.map((c) => (
+              <SelectItem key={c} value={c}>
+                {t(CHANNEL_KEYS[c])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={handleAdd}
+          disabled={disabled || !value.trim()}
+          aria-label={t("addPhone")}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {invalid && <p className="text-xs text-destructive">{t("phoneInvalid")}</p>}
+
+      {invitees.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {invitees.map((inv, index) => (
+            <span
+              key={inv.phone}
+              className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-sm bg-secondary text-secondary-foreground"
+            >
+              {inv.phone}
+              <span className="text-xs text-muted-foreground">{t(CHANNEL_KEYS[inv.channel])}</span>
+              <button
+                type="button"
+                onClick={() => onInviteesChange(invitees.filter((_, i) => i !== index))}
+                className="hover:text-destructive p-0.5"
+                disabled={disabled}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
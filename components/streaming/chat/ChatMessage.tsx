@@ -1,22 +1,80 @@
 'use client';
 
 import { formatDistanceToNow } from 'date-fns';
-import { Trash2 } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { Ban, Clock, MoreVertical, Pin, Shield, Trash2 } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
-import type { StreamChatMessageWithUser } from '@/lib/types';
+import { CHAT_TIMEOUT_OPTIONS, formatChatDuration } from '@/lib/streaming/moderation';
+import type { ChatModerationAction } from '@/lib/hooks/use-chat-moderation';
+import type { StreamChatAuditMetadata, StreamChatMessageWithUser } from '@/lib/types';
 
 interface ChatMessageProps {
   message: StreamChatMessageWithUser;
   isOwn: boolean;
   canDelete: boolean;
   onDelete?: (messageId: string) => void;
+  /** Show the moderator menu (pin, timeout, ban) */
+  canModerate?: boolean;
+  /** Event creator or site staff: may also appoint moderators */
+  canAppoint?: boolean;
+  onModerate?: (action: ChatModerationAction) => void;
 }
 
-export function ChatMessage({ message, isOwn, canDelete, onDelete }: ChatMessageProps) {
+function auditText(
+  t: ReturnType<typeof useTranslations<'streaming'>>,
+  metadata: StreamChatAuditMetadata
+): string {
+  const name = metadata.target_name ?? '';
+  switch (metadata.action) {
+    case 'slow_mode':
+      return metadata.seconds
+        ? t('chatAudit.slowModeOn', { duration: formatChatDuration(metadata.seconds) })
+        : t('chatAudit.slowModeOff');
+    case 'followers_only':
+      return metadata.enabled ? t('chatAudit.followersOnlyOn') : t('chatAudit.followersOnlyOff');
+    case 'timeout':
+      return t('chatAudit.timeout', { name, duration: formatChatDuration(metadata.seconds ?? 0) });
+    case 'ban':
+      return t('chatAudit.ban', { name });
+    case 'unban':
+      return t('chatAudit.unban', { name });
+    case 'pin':
+      return t('chatAudit.pin');
+    case 'unpin':
+      return t('chatAudit.unpin');
+    case 'delete':
+      return t('chatAudit.delete', { name });
+    case 'moderator_added':
+      return t('chatAudit.moderatorAdded', { name });
+    case 'moderator_removed':
+      return t('chatAudit.moderatorRemoved', { name });
+  }
+}
+
+export function ChatMessage({
+  message,
+  isOwn,
+  canDelete,
+  onDelete,
+  canModerate = false,
+  canAppoint = false,
+  onModerate,
+}: ChatMessageProps) {
+  const t = useTranslations('streaming');
   const initials = message.user_name?.split(' ')?.map((n) => n[0])?.join('')?.toUpperCase()?.slice(0, 2) || '??';
   const timeAgo = formatDistanceToNow(new Date(message.created_at), { addSuffix: false });
+  const isSystem = message.message_type === 'system';
+  const content = isSystem && message.metadata ? auditText(t, message.metadata) : message.content;
+  const showMenu = canModerate && !isSystem;
 
   return (
     <div className={cn(
@@ -24,24 +82,75 @@ export function ChatMessage({ message, isOwn, canDelete, onDelete }: ChatMessage
       message.message_type === 'system' && 'bg-muted/30 text-muted-foreground text-sm',
       message.message_type === 'highlight' && 'bg-primary/10 border-l-2 border-primary'
     )}>
-      {message.message_type === 'text' && (
+      {message.message_type !== 'system' && (
         <Avatar className="h-7 w-7 shrink-0">
           <AvatarImage src={message.user_avatar || undefined} />
           <AvatarFallback className="text-xs">{initials}</AvatarFallback>
         </Avatar>
       )}
       <div className="flex-1 min-w-0">
-        {message.message_type === 'text' && (
+        {message.message_type !== 'system' && (
           <div className="flex items-baseline gap-2">
             <span className="font-medium text-sm truncate">{message.user_name || 'Anonymous'}</span>
             <span className="text-xs text-muted-foreground shrink-0">{timeAgo}</span>
           </div>
         )}
         <p className={cn('text-sm break-words', message.message_type === 'system' && 'italic')}>
-          {message.content}
+          {content}
         </p>
       </div>
-      {canDelete && (
+      {showMenu ? (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity shrink-0"
+              aria-label={t('moderation.actions')}
+            >
+              <MoreVertical className="h-3 w-3 text-muted-foreground" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => onModerate?.({ action: 'pin', messageId: message.id })}>
+              <Pin className="h-4 w-4 mr-2" />
+              {t('moderation.pin')}
+            </DropdownMenuItem>
+            {!isOwn && (
+              <>
+                <DropdownMenuSeparator />
+                {CHAT_TIMEOUT_OPTIONS.map((seconds) => (
+                  <DropdownMenuItem
+                    key={seconds}
+                    onClick={() => onModerate?.({ action: 'timeout', userId: message.user_id, durationSeconds: seconds })}
+                  >
+                    <Clock className="h-4 w-4 mr-2" />
+                    {t('moderation.timeoutFor', { duration: formatChatDuration(seconds) })}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem
+                  onClick={() => onModerate?.({ action: 'ban', userId: message.user_id })}
+                  className="text-destructive"
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  {t('moderation.ban')}
+                </DropdownMenuItem>
+                {canAppoint && (
+                  <DropdownMenuItem onClick={() => onModerate?.({ action: 'add_moderator', userId: message.user_id })}>
+                    <Shield className="h-4 w-4 mr-2" />
+                    {t('moderation.makeModerator')}
+                  </DropdownMenuItem>
+                )}
+              </>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onDelete?.(message.id)} className="text-destructive">
+              <Trash2 className="h-4 w-4 mr-2" />
+              {t('moderation.delete')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : canDelete && !isSystem && (
         <Button
           variant="ghost"
           size="icon"
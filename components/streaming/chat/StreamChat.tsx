@@ -1,9 +1,11 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { MessageCircle, WifiOff } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { MessageCircle, Pin, WifiOff, X } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import { useChatSubscription } from '@/lib/hooks/use-chat-subscription';
+import { useChatModeration, type ChatModerationAction } from '@/lib/hooks/use-chat-moderation';
+import { formatChatDuration, type ChatError } from '@/lib/streaming/moderation';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 import { cn } from '@/lib/utils';
@@ -15,21 +17,65 @@ interface StreamChatProps {
   isEventCreator?: boolean;
   initialMessages?: StreamChatMessageWithUser[];
   className?: string;
+  /** Share the broadcaster's moderation state instead of fetching a second copy */
+  moderation?: ReturnType<typeof useChatModeration>;
 }
 
+const SEND_ERROR_KEYS = {
+  chat_banned: 'chatErrors.banned',
+  chat_timed_out: 'chatErrors.timedOut',
+  followers_only: 'chatErrors.followersOnly',
+  slow_mode: 'chatErrors.slowMode',
+  blocked_word: 'chatErrors.blockedWord',
+  message_too_long: 'chatErrors.tooLong',
+} as const;
+
 export function StreamChat({
   eventId,
   currentUserId,
   isEventCreator = false,
   initialMessages = [],
   className,
+  moderation: sharedModeration,
 }: StreamChatProps) {
   const t = useTranslations('streaming');
-  const { messages, isConnected, error, sendMessage, deleteMessage } = useChatSubscription({
+  const { messages, isConnected, error, sendError, sendMessage, deleteMessage } = useChatSubscription({
     eventId,
     enabled: true,
     initialMessages,
   });
+  const ownModeration = useChatModeration(eventId, !sharedModeration);
+  const moderation = sharedModeration ?? ownModeration;
+  const chatState = moderation.state;
+  const canModerate = chatState?.can_moderate ?? isEventCreator;
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Audit entries mean the rules or the pin changed: pick up the new state
+  const lastSystemId = messages.findLast((m) => m.message_type === 'system')?.id;
+  const refreshModeration = moderation.refresh;
+  useEffect(() => {
+    if (lastSystemId) refreshModeration();
+  }, [lastSystemId, refreshModeration]);
+
+  // A timeout lifts itself; re-check once it should have expired
+  const restrictionExpiry = chatState?.restriction?.expires_at;
+  useEffect(() => {
+    if (!restrictionExpiry) return;
+    const delay = Math.max(0, new Date(restrictionExpiry).getTime() - Date.now()) + 1000;
+    const timer = setTimeout(refreshModeration, delay);
+    return () => clearTimeout(timer);
+  }, [restrictionExpiry, refreshModeration]);
+
+  const handleModerate = async (action: ChatModerationAction) => {
+    const code = await moderation.moderate(action);
+    setActionError(code ? t('moderation.failed') : null);
+  };
+
+  const sendHint = (chatError: ChatError | null) => {
+    if (!chatError || !(chatError.code in SEND_ERROR_KEYS)) return null;
+    const key = SEND_ERROR_KEYS[chatError.code as keyof typeof SEND_ERROR_KEYS];
+    return t(key, { duration: formatChatDuration(chatError.retryAfter ?? 0) });
+  };
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const isAtBottomRef = useRef(true);
@@ -67,6 +113,26 @@ export function StreamChat({
         </div>
       </div>
 
+      {chatState?.pinned && (
+        <div className="flex items-start gap-2 px-3 py-2 border-b bg-primary/5 text-sm">
+          <Pin className="h-3.5 w-3.5 mt-0.5 shrink-0 text-primary" />
+          <p className="flex-1 min-w-0 break-words">
+            <span className="font-medium mr-1.5">{chatState.pinned.user_name || 'Anonymous'}</span>
+            {chatState.pinned.content}
+          </p>
+          {canModerate && (
+            <button
+              type="button"
+              onClick={() => handleModerate({ action: 'unpin' })}
+              className="-m-2 p-2 text-muted-foreground hover:text-foreground"
+              aria-label={t('moderation.unpin')}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+
       <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
         {messages.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-muted-foreground text-sm p-4">
@@ -81,17 +147,40 @@ export function StreamChat({
                 key={message.id}
                 message={message}
                 isOwn={message.user_id === currentUserId}
-                canDelete={message.user_id === currentUserId || isEventCreator}
+                canDelete={message.user_id === currentUserId || canModerate}
                 onDelete={deleteMessage}
+                canModerate={canModerate}
+                canAppoint={isEventCreator}
+                onModerate={handleModerate}
               />
             ))}
           </div>
         )}
       </div>
 
-      {error && <div className="px-3 py-2 bg-destructive/10 text-destructive text-xs">{error}</div>}
+      {(error || actionError) && (
+        <div className="px-3 py-2 bg-destructive/10 text-destructive text-xs">{actionError || error}</div>
+      )}
 
-      {isAuthenticated ? (
+      {isAuthenticated && !canModerate && (chatState?.slow_mode_seconds || chatState?.followers_only || sendError) ? (
+        <div className="px-3 py-1.5 border-t text-xs text-muted-foreground space-y-0.5">
+          {sendHint(sendError) && <p className="text-destructive">{sendHint(sendError)}</p>}
+          {!sendError && chatState?.slow_mode_seconds ? (
+            <p>{t('chatRules.slowMode', { duration: formatChatDuration(chatState.slow_mode_seconds) })}</p>
+          ) : null}
+          {!sendError && chatState?.followers_only && <p>{t('chatRules.followersOnly')}</p>}
+        </div>
+      ) : null}
+
+      {isAuthenticated && chatState?.restriction ? (
+        <div className="px-3 py-3 border-t bg-muted/30 text-center text-sm text-muted-foreground">
+          {chatState.restriction.expires_at
+            ? t('chatRules.timedOutUntil', {
+                time: new Date(chatState.restriction.expires_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
+              })
+            : t('chatRules.banned')}
+        </div>
+      ) : isAuthenticated ? (
         <ChatInput onSend={sendMessage} disabled={!isConnected} />
       ) : (
         <div className="px-3 py-3 border-t bg-muted/30 text-center text-sm text-muted-foreground">
@@ -3,8 +3,12 @@ export { StreamChat } from './chat/StreamChat';
 export { ChatMessage } from './chat/ChatMessage';
 export { ChatInput } from './chat/ChatInput';
 
+// Moderation components
+export { ChatModerationPanel } from './moderation/ChatModerationPanel';
+
 // Viewer components
 export { StreamPlayer } from './viewer/StreamPlayer';
+export { StreamReplay } from './replay/StreamReplay';
 
 // Shared components
 export { StreamStatusBadge } from './StreamStatusBadge';
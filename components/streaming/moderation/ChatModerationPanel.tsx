@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Loader2, Shield, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CHAT_SLOW_MODE_OPTIONS, formatChatDuration, splitBlockedTerms } from '@/lib/streaming/moderation';
+import { CONTENT_LOCALES, LOCALE_NAMES, type ContentLocale, type StreamChatBlockedWords } from '@/lib/types';
+import type { useChatModeration } from '@/lib/hooks/use-chat-moderation';
+
+interface ChatModerationPanelProps {
+  moderation: ReturnType<typeof useChatModeration>;
+  /** Only the event creator appoints and removes moderators */
+  canAppoint: boolean;
+}
+
+function toDrafts(blocked: StreamChatBlockedWords | undefined): Partial<Record<ContentLocale, string>> {
+  return Object.fromEntries(
+    Object.entries(blocked ?? {}).map(([locale, terms]) => [locale, (terms ?? []).join('\n')])
+  );
+}
+
+/**
+ * Broadcaster-side chat controls: slow mode, followers-only, per-language
+ * blocked words, and the lists of active bans and moderators.
+ * Rendered once moderation state has loaded, so drafts start from it.
+ */
+export function ChatModerationPanel({ moderation, canAppoint }: ChatModerationPanelProps) {
+  const t = useTranslations('streaming');
+  const state = moderation.state;
+  const [slowMode, setSlowMode] = useState(state?.slow_mode_seconds ?? 0);
+  const [followersOnly, setFollowersOnly] = useState(state?.followers_only ?? false);
+  const [drafts, setDrafts] = useState(() => toDrafts(state?.blocked_words));
+  const [locale, setLocale] = useState<ContentLocale>('en');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    const blockedWords = Object.fromEntries(
+      Object.entries(drafts).map(([key, text]) => [key, splitBlockedTerms(text ?? '')])
+    );
+    const error = await moderation.updateSettings({ slowModeSeconds: slowMode, followersOnly, blockedWords });
+    setMessage(error
+      ? { ok: false, text: t.has(`moderation.errors.${error}`) ? t(`moderation.errors.${error}`) : t('moderation.failed') }
+      : { ok: true, text: t('moderation.saved') });
+    setSaving(false);
+  };
+
+  const termCount = (key: ContentLocale) => splitBlockedTerms(drafts[key] ?? '').length;
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label>{t('moderation.slowMode')}</Label>
+        <Select value={String(slowMode)} onValueChange={(v) => setSlowMode(Number(v))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CHAT_SLOW_MODE_OPTIONS.map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>
+                {seconds === 0 ? t('moderation.off') : formatChatDuration(seconds)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{t('moderation.slowModeHint')}</p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label htmlFor="followers-only">{t('moderation.followersOnly')}</Label>
+          <p className="text-xs text-muted-foreground">{t('moderation.followersOnlyHint')}</p>
+        </div>
+        <Switch id="followers-only" checked={followersOnly} onCheckedChange={setFollowersOnly} />
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('moderation.blockedWords')}</Label>
+        <Select value={locale} onValueChange={(v) => setLocale(v as ContentLocale)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CONTENT_LOCALES.map((key) => (
+              <SelectItem key={key} value={key}>
+                {LOCALE_NAMES[key]}
+                {termCount(key) > 0 && ` (${termCount(key)})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          value={drafts[locale] ?? ''}
+          onChange={(e) => setDrafts({ ...drafts, [locale]: e.target.value })}
+          placeholder={t('moderation.blockedWordsPlaceholder')}
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground">{t('moderation.blockedWordsHint')}</p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button onClick={handleSave} disabled={saving} className="px-4 py-2">
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {t('moderation.save')}
+        </Button>
+        {message && (
+          <p className={message.ok ? 'text-sm text-muted-foreground' : 'text-sm text-destructive'}>
+            {message.text}
+          </p>
+        )}
+      </div>
+
+      {(state?.bans?.length ?? 0) > 0 && (
+        <div className="space-y-2">
+          <Label>{t('moderation.restrictedUsers')}</Label>
+          {state?.bans?.map((ban) => (
+            <div key={ban.user_id} className="flex items-center justify-between gap-2 rounded-lg bg-muted px-3 py-2 text-sm">
+              <span className="truncate">
+                {ban.user_name || 'Anonymous'}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {ban.expires_at
+                    ? t('moderation.timedOutUntil', {
+                        time: new Date(ban.expires_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
+                      })
+                    : t('moderation.banned')}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moderation.moderate({ action: 'unban', userId: ban.user_id })}
+                className="px-3 py-2"
+              >
+                {t('moderation.lift')}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(state?.moderators?.length ?? 0) > 0 && (
+        <div className="space-y-2">
+          <Label>{t('moderation.moderators')}</Label>
+          {state?.moderators?.map((mod) => (
+            <div key={mod.user_id} className="flex items-center justify-between gap-2 rounded-lg bg-muted px-3 py-2 text-sm">
+              <span className="flex items-center gap-2 truncate">
+                <Shield className="h-3.5 w-3.5 text-blue-500" />
+                {mod.user_name || 'Anonymous'}
+              </span>
+              {canAppoint && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moderation.moderate({ action: 'remove_moderator', userId: mod.user_id })}
+                  aria-label={t('moderation.removeModerator')}
+                  className="h-9 w-9"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
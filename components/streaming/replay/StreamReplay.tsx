@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { MessageSquare, Radio } from 'lucide-react';
+import { MomentVideoPlayer } from '@/components/moments/moment-video-player';
+import { cn } from '@/lib/utils';
+import { chapterAt, countReachedAt, formatReplayOffset } from '@/lib/streaming/replay';
+import type { ReplayChapter, ReplayChatMessage } from '@/lib/types';
+
+interface StreamReplayProps {
+  src: string;
+  hlsSrc?: string | null;
+  poster?: string | null;
+  messages: ReplayChatMessage[];
+  chapters: ReplayChapter[];
+  /** Fallback for the marker bar until the video reports its own duration */
+  durationSeconds?: number | null;
+}
+
+/**
+ * Recorded live stream: the video plus its chat, revealed in step with
+ * playback, and highlight messages as chapter markers that seek the video.
+ */
+export function StreamReplay({
+  src,
+  hlsSrc,
+  poster,
+  messages,
+  chapters,
+  durationSeconds,
+}: StreamReplayProps) {
+  const t = useTranslations('streaming');
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const chatRef = useRef<HTMLDivElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(durationSeconds ?? 0);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleTime = () => setCurrentTime(video.currentTime);
+    const handleDuration = () => {
+      if (Number.isFinite(video.duration) && video.duration > 0) setDuration(video.duration);
+    };
+
+    video.addEventListener('timeupdate', handleTime);
+    video.addEventListener('seeked', handleTime);
+    video.addEventListener('loadedmetadata', handleDuration);
+    return () => {
+      video.removeEventListener('timeupdate', handleTime);
+      video.removeEventListener('seeked', handleTime);
+      video.removeEventListener('loadedmetadata', handleDuration);
+    };
+  }, []);
+
+  const visibleCount = countReachedAt(messages, currentTime);
+  const visibleMessages = useMemo(() => messages.slice(0, visibleCount), [messages, visibleCount]);
+  const activeChapter = chapterAt(chapters, currentTime);
+
+  // Follow the newest message, like the live chat did
+  useEffect(() => {
+    const el = chatRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [visibleCount]);
+
+  const seekTo = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    video.play().catch(() => {});
+  };
+
+  return (
+    <div>
+      <MomentVideoPlayer ref={videoRef} src={src} hlsSrc={hlsSrc} poster={poster} />
+
+      {chapters.length > 0 && duration > 0 && (
+        <div className="relative h-1.5 bg-muted-foreground/20">
+          <div
+            className="absolute inset-y-0 left-0 bg-primary/40"
+            style={{ width: `${Math.min(100, (currentTime / duration) * 100)}%` }}
+          />
+          {chapters.map((chapter) => (
+            <button
+              key={chapter.id}
+              type="button"
+              onClick={() => seekTo(chapter.offset_seconds)}
+              className="absolute -top-2 h-5 w-3 -translate-x-1/2 flex justify-center"
+              style={{ left: `${Math.min(100, (chapter.offset_seconds / duration) * 100)}%` }}
+              aria-label={t('jumpToChapter', {
+                title: chapter.title,
+                time: formatReplayOffset(chapter.offset_seconds),
+              })}
+            >
+              <span className="block h-full w-1 rounded-full bg-primary" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-background p-3 space-y-3">
+        {chapters.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{t('chapters')}</p>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {chapters.map((chapter) => (
+                <button
+                  key={chapter.id}
+                  type="button"
+                  onClick={() => seekTo(chapter.offset_seconds)}
+                  className={cn(
+                    'shrink-0 max-w-[14rem] rounded-full border px-3 py-2 text-left text-xs transition-colors active:scale-95',
+                    activeChapter?.id === chapter.id
+                      ? 'border-primary bg-primary/10 text-primary'
+                      : 'hover:bg-muted'
+                  )}
+                >
+                  <span className="font-mono mr-1.5">{formatReplayOffset(chapter.offset_seconds)}</span>
+                  <span className="truncate">{chapter.title}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+            <Radio className="h-3 w-3" />
+            {t('chatReplay')}
+          </p>
+          <div ref={chatRef} className="max-h-64 overflow-y-auto rounded-lg bg-muted/30">
+            {visibleMessages.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-6 text-center text-sm text-muted-foreground">
+                <MessageSquare className="h-5 w-5 opacity-50" />
+                {t('chatReplayEmpty')}
+              </div>
+            ) : (
+              visibleMessages.map((message) => (
+                <div
+                  key={message.id}
+                  className={cn(
+                    'flex gap-2 px-3 py-1.5 text-sm',
+                    message.message_type === 'system' && 'text-muted-foreground italic',
+                    message.message_type === 'highlight' && 'bg-primary/10 border-l-2 border-primary'
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => seekTo(message.offset_seconds)}
+                    className="shrink-0 font-mono text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    {formatReplayOffset(message.offset_seconds)}
+                  </button>
+                  <p className="min-w-0 break-words">
+                    {message.message_type !== 'system' && (
+                      <span className="font-medium mr-1.5">{message.user_name || 'Anonymous'}</span>
+                    )}
+                    {message.content}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
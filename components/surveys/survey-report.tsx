@@ -0,0 +1,264 @@
+"use client";
+
+import { useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { QuestionReport, ReportScope, SurveyReport as SurveyReportData, TrendPoint } from "@/lib/surveys/report";
+import type { SurveyTheme } from "@/lib/surveys/themes";
+import type { Locale, MultilingualText } from "@/lib/types";
+
+function getLocalizedText(text: MultilingualText | null | undefined, locale: Locale): string {
+  if (!text) return "";
+  return text[locale] || text.en || Object.values(text)[0] || "";
+}
+
+function Bar({ value, max }: { value: number; max: number }) {
+  const width = max > 0 ? Math.max((value / max) * 100, value > 0 ? 2 : 0) : 0;
+  return (
+    <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+      <div className="h-full rounded-full bg-primary" style={{ width: `${width}%` }} />
+    </div>
+  );
+}
+
+function Trend({ points, format }: { points: TrendPoint[]; format: (value: number) => string }) {
+  const t = useTranslations("surveyReport");
+  const locale = useLocale();
+  if (points.length < 2) return null;
+
+  return (
+    <div className="pt-3 border-t">
+      <p className="text-xs text-muted-foreground mb-2">{t("trend")}</p>
+      <div className="space-y-1">
+        {points.map((point) => (
+          <div key={point.eventId} className="flex items-center gap-3 text-xs">
+            <span className="w-24 shrink-0 text-muted-foreground">
+              {new Date(point.startsAt).toLocaleDateString(locale, { month: "short", day: "numeric" })}
+            </span>
+            <span className="w-12 shrink-0 tabular-nums font-medium">
+              {point.value === null ? "—" : format(point.value)}
+            </span>
+            <span className="text-muted-foreground">{t("answers", { count: point.count })}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function QuestionCard({ question }: { question: QuestionReport }) {
+  const t = useTranslations("surveyReport");
+  const locale = useLocale() as Locale;
+
+  let body: React.ReactNode;
+  switch (question.type) {
+    case "scale": {
+      const max = Math.max(...question.summary.distribution);
+      body = (
+        <>
+          <p className="text-3xl font-bold tabular-nums">
+            {question.summary.average?.toFixed(1) ?? "—"}
+            <span className="text-base font-normal text-muted-foreground"> / 5</span>
+          </p>
+          <div className="space-y-1">
+            {question.summary.distribution.map((count, index) => (
+              <div key={index} className="flex items-center gap-3 text-xs">
+                <span className="w-4 shrink-0 text-muted-foreground">{index + 1}</span>
+                <Bar value={count} max={max} />
+                <span className="w-8 shrink-0 text-right tabular-nums">{count}</span>
+              </div>
+            ))}
+          </div>
+          <Trend points={question.trend} format={(value) => value.toFixed(1)} />
+        </>
+      );
+      break;
+    }
+    case "nps": {
+      const { summary } = question;
+      body = (
+        <>
+          <p className="text-3xl font-bold tabular-nums">
+            {summary.score === null ? "—" : summary.score > 0 ? `+${summary.score}` : summary.score}
+          </p>
+          <div className="grid grid-cols-3 gap-2 text-center text-xs">
+            <div className="rounded-lg bg-green-500/10 p-2">
+              <p className="text-lg font-semibold tabular-nums">{summary.promoters}</p>
+              <p className="text-muted-foreground">{t("promoters")}</p>
+            </div>
+            <div className="rounded-lg bg-muted p-2">
+              <p className="text-lg font-semibold tabular-nums">{summary.passives}</p>
+              <p className="text-muted-foreground">{t("passives")}</p>
+            </div>
+            <div className="rounded-lg bg-red-500/10 p-2">
+              <p className="text-lg font-semibold tabular-nums">{summary.detractors}</p>
+              <p className="text-muted-foreground">{t("detractors")}</p>
+            </div>
+          </div>
+          <Trend points={question.trend} format={(value) => String(value)} />
+        </>
+      );
+      break;
+    }
+    case "ranking":
+      body = (
+        <ol className="space-y-2">
+          {question.ranking.map((option, index) => (
+            <li key={option.value} className="flex items-center gap-3 text-sm">
+              <span className="w-6 h-6 shrink-0 flex items-center justify-center rounded-full bg-muted text-xs font-medium">
+                {index + 1}
+              </span>
+              <span className="flex-1 min-w-0 truncate">{getLocalizedText(option.label, locale)}</span>
+              <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+                {t("averageRank", { rank: option.averageRank?.toFixed(1) ?? "—" })} ·{" "}
+                {t("firstPlace", { count: option.firstPlace })}
+              </span>
+            </li>
+          ))}
+        </ol>
+      );
+      break;
+    case "single_choice":
+    case "multi_choice": {
+      const max = Math.max(...question.options.map((o) => o.count), 0);
+      body = (
+        <div className="space-y-1.5">
+          {question.options.map((option) => (
+            <div key={option.value} className="flex items-center gap-3 text-xs">
+              <span className="w-32 shrink-0 truncate">{getLocalizedText(option.label, locale)}</span>
+              <Bar value={option.count} max={max} />
+              <span className="w-8 shrink-0 text-right tabular-nums">{option.count}</span>
+            </div>
+          ))}
+        </div>
+      );
+      break;
+    }
+    case "text":
+      body =
+        question.answers.length > 0 ? (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {question.answers.map((answer, index) => (
+              <li key={index} className="text-sm p-2 rounded-lg bg-muted/50">
+                {answer}
+              </li>
+            ))}
+          </ul>
+        ) : null;
+      break;
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-4 sm:p-6 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <h3 className="font-medium">{getLocalizedText(question.questionText, locale)}</h3>
+        <span className="shrink-0 text-xs text-muted-foreground">
+          {t("answers", { count: question.count })}
+        </span>
+      </div>
+      {question.count === 0 ? <p className="text-sm text-muted-foreground">{t("noAnswers")}</p> : body}
+    </div>
+  );
+}
+
+const SENTIMENT_STYLES: Record<SurveyTheme["sentiment"], string> = {
+  positive: "bg-green-500/10 text-green-700 dark:text-green-400",
+  neutral: "bg-muted text-muted-foreground",
+  negative: "bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+function Themes({ scope, slug }: { scope: ReportScope; slug: string }) {
+  const t = useTranslations("surveyReport");
+  const [themes, setThemes] = useState<SurveyTheme[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  async function summarize() {
+    setIsLoading(true);
+    setError(false);
+    try {
+      const response = await fetch("/api/surveys/themes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope, slug }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = (await response.json()) as { themes: SurveyTheme[] };
+      setThemes(data.themes);
+    } catch (err) {
+      console.error("Failed to summarize themes:", err);
+      setError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-4 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">{t("themesTitle")}</h2>
+          <p className="text-sm text-muted-foreground">{t("themesDescription")}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={summarize} disabled={isLoading} className="gap-2 shrink-0">
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          {themes ? t("refreshThemes") : t("summarizeThemes")}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{t("themesFailed")}</p>}
+      {themes && themes.length === 0 && <p className="text-sm text-muted-foreground">{t("noThemes")}</p>}
+      {themes && themes.length > 0 && (
+        <ul className="space-y-3">
+          {themes.map((theme) => (
+            <li key={theme.theme} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{theme.theme}</span>
+                <span className={cn("text-xs px-2 py-0.5 rounded-full", SENTIMENT_STYLES[theme.sentiment])}>
+                  {t(`sentiment.${theme.sentiment}`)}
+                </span>
+                <span className="text-xs text-muted-foreground">{t("mentions", { count: theme.mentions })}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">{theme.summary}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Post-event survey results: one card per question with score trends across
+ * series dates, plus AI themes from the free-text answers on request.
+ */
+export function SurveyReport({
+  report,
+  scope,
+  slug,
+}: {
+  report: SurveyReportData;
+  scope: ReportScope;
+  slug: string;
+}) {
+  const t = useTranslations("surveyReport");
+  const hasText = report.questions.some((q) => q.type === "text" && q.answers.length > 0);
+
+  if (report.questions.length === 0) {
+    return (
+      <div className="p-8 border border-dashed rounded-lg text-center">
+        <p className="text-sm text-muted-foreground">{t("noSurvey")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {hasText && <Themes scope={scope} slug={slug} />}
+      {report.questions.map((question) => (
+        <QuestionCard key={question.key} question={question} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback } from "react";
+import { useRouter } from "@/lib/i18n/routing";
+import { QuestionnaireFlow } from "@/components/questionnaire";
+import { submitQuestionnaireResponses } from "@/lib/questionnaire";
+import type { QuestionnaireData } from "@/lib/types";
+
+interface SurveyResponderProps {
+  rsvpId: string;
+  eventSlug: string;
+  eventTitle: string;
+  survey: QuestionnaireData;
+}
+
+/**
+ * Runs the post-event survey for an attendee. Answers are stored against
+ * their RSVP like RSVP questions, so they share the same access rules.
+ */
+export function SurveyResponder({ rsvpId, eventSlug, eventTitle, survey }: SurveyResponderProps) {
+  const router = useRouter();
+
+  const handleSubmit = useCallback(
+    async (responses: Record<string, string | string[]>) => {
+      const result = await submitQuestionnaireResponses(rsvpId, responses, "post_event");
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+    [rsvpId]
+  );
+
+  const handleClose = useCallback(() => {
+    router.push(`/events/${eventSlug}`);
+  }, [router, eventSlug]);
+
+  return (
+    <QuestionnaireFlow
+      questions={survey.questions}
+      introText={survey.intro_text}
+      eventTitle={eventTitle}
+      onSubmit={handleSubmit}
+      onCancel={handleClose}
+      variant="survey"
+    />
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Bell, BellOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CommentsSection } from "@/components/comments/comments-section";
+import { triggerHaptic } from "@/lib/haptics";
+
+interface TribeBoardProps {
+  tribeId: string;
+  tribeSlug: string;
+  creatorId: string;
+  currentUserId?: string;
+  /** Active members (and the creator) can post; others only read a public board */
+  isMember: boolean;
+  /** Leaders/admins moderate and pin announcements */
+  isAdmin: boolean;
+}
+
+/**
+ * The tribe's discussion board: posts are top-level comments on the tribe,
+ * so threading, reactions, translation and moderation come from the comments
+ * system. Members can mute the board to stop new-post notifications.
+ */
+export function TribeBoard({
+  tribeId,
+  tribeSlug,
+  creatorId,
+  currentUserId,
+  isMember,
+  isAdmin,
+}: TribeBoardProps) {
+  const t = useTranslations("tribes");
+  const [muted, setMuted] = useState(false);
+  const [toggling, setToggling] = useState(false);
+
+  useEffect(() => {
+    if (!isMember) return;
+    let cancelled = false;
+    fetch(`/api/comments/mute?threadId=${tribeId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setMuted(!!data.muted);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [tribeId, isMember]);
+
+  const handleToggleMute = async () => {
+    setToggling(true);
+    try {
+      const response = await fetch("/api/comments/mute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ threadId: tribeId }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMuted(!!data.muted);
+        triggerHaptic("selection");
+      }
+    } catch (error) {
+      console.error("[tribe-board] Error toggling mute:", error);
+    } finally {
+      setToggling(false);
+    }
+  };
+
+  return (
+    <section className="space-y-2">
+      {isMember && (
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToggleMute}
+            disabled={toggling}
+            className="gap-2 px-3 py-2 text-muted-foreground"
+          >
+            {muted ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+            {muted ? t("unmuteBoard") : t("muteBoard")}
+          </Button>
+        </div>
+      )}
+
+      {!isMember && currentUserId && (
+        <p className="text-sm text-muted-foreground">{t("joinToPost")}</p>
+      )}
+
+      <CommentsSection
+        targetType="tribe"
+        targetId={tribeId}
+        contentOwnerId={creatorId}
+        currentUserId={currentUserId}
+        redirectPath={`/tribes/${tribeSlug}`}
+        canModerate={isAdmin}
+        canPost={isMember}
+        allowPinning={isAdmin}
+        title={t("discussion")}
+        className="mt-0 border-t-0 pt-0"
+      />
+    </section>
+  );
+}
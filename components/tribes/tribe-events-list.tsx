@@ -6,6 +6,7 @@ import { Calendar, MapPin } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { decodeUnicodeEscapes } from "@/lib/utils";
 import { DALAT_TIMEZONE } from "@/lib/timezone";
+import { withRsvpSource } from "@/lib/events/rsvp-source";
 import type { Event, Profile } from "@/lib/types";
 
 interface TribeEventsListProps {
@@ -34,7 +35,7 @@ export function TribeEventsList({ events, locale }: TribeEventsListProps) {
         return (
           <Link
             key={event.id}
-            href={`/${locale}/events/${event.slug}`}
+            href={withRsvpSource(`/${locale}/events/${event.slug}`, "tribe")}
             className="block p-4 rounded-lg border border-border hover:border-primary/50 hover:bg-muted/50 transition-colors active:scale-[0.99]"
           >
             <div className="flex gap-4">
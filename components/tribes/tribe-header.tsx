@@ -11,18 +11,20 @@ import { TribeSettingsModal } from "./tribe-settings-modal";
 import { TribeRequestsModal } from "./tribe-requests-modal";
 import { TribeShareButton } from "./tribe-share-button";
 import { TribeInviteModal } from "./tribe-invite-modal";
+import { tribeRoleName, type TribeAction } from "@/lib/tribes/permissions";
 import type { Tribe, TribeMember } from "@/lib/types";
 
 interface TribeHeaderProps {
   tribe: Tribe & { profiles?: { display_name: string | null; avatar_url: string | null; username: string | null } };
   membership: TribeMember | null;
-  isAdmin: boolean;
+  /** What the viewer may do here (tribePermissionsFor) */
+  permissions: Record<TribeAction, boolean>;
   /** Counts shown in the profile-style stat row. */
   eventCount: number;
   momentCount: number;
 }
 
-export function TribeHeader({ tribe, membership, isAdmin, eventCount, momentCount }: TribeHeaderProps) {
+export function TribeHeader({ tribe, membership, permissions, eventCount, momentCount }: TribeHeaderProps) {
   const t = useTranslations("tribes");
   const [showSettings, setShowSettings] = useState(false);
   const [showRequests, setShowRequests] = useState(false);
@@ -104,42 +106,42 @@ export function TribeHeader({ tribe, membership, isAdmin, eventCount, momentCoun
                   </div>
                 </div>
 
-                {/* Share is for everyone — it's how a tribe grows. Admin-only
-                    actions stay gated behind isAdmin alongside it. */}
+                {/* Share is for everyone — it's how a tribe grows. The other
+                    actions each follow the tribe's permissions. */}
                 <div className="flex gap-2">
-                  {/* Join code goes to admins only — it grants instant membership. */}
-                  <TribeShareButton tribe={tribe} inviteCode={isAdmin ? tribe.invite_code : null} />
-                  {isAdmin && (
-                    <>
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        onClick={() => setShowInvite(true)}
-                        className="h-11 w-11"
-                        title={t("inviteToTribe")}
-                      >
-                        <UserPlus className="w-4 h-4" />
-                        <span className="sr-only">{t("inviteToTribe")}</span>
-                      </Button>
-                      {tribe.access_type === "request" && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setShowRequests(true)}
-                          className="px-3 py-2"
-                        >
-                          {t("joinRequests")}
-                        </Button>
-                      )}
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        onClick={() => setShowSettings(true)}
-                        className="p-2"
-                      >
-                        <Settings className="w-4 h-4" />
-                      </Button>
-                    </>
+                  {/* Join code goes to inviters only — it grants instant membership. */}
+                  <TribeShareButton tribe={tribe} inviteCode={permissions.invite ? tribe.invite_code : null} />
+                  {permissions.invite && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setShowInvite(true)}
+                      className="h-11 w-11"
+                      title={t("inviteToTribe")}
+                    >
+                      <UserPlus className="w-4 h-4" />
+                      <span className="sr-only">{t("inviteToTribe")}</span>
+                    </Button>
+                  )}
+                  {permissions.approve_requests && tribe.access_type === "request" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowRequests(true)}
+                      className="px-3 py-2"
+                    >
+                      {t("joinRequests")}
+                    </Button>
+                  )}
+                  {permissions.manage && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setShowSettings(true)}
+                      className="p-2"
+                    >
+                      <Settings className="w-4 h-4" />
+                    </Button>
                   )}
                 </div>
               </div>
@@ -160,7 +162,7 @@ export function TribeHeader({ tribe, membership, isAdmin, eventCount, momentCoun
 
               {membership && (
                 <Badge variant="secondary" className="mt-3">
-                  {t(membership.role)}
+                  {tribeRoleName(tribe.settings, membership.role) ?? t(membership.role)}
                 </Badge>
               )}
             </div>
@@ -168,25 +170,28 @@ export function TribeHeader({ tribe, membership, isAdmin, eventCount, momentCoun
         </div>
       </div>
 
-      {isAdmin && (
-        <>
-          <TribeSettingsModal
-            tribe={tribe}
-            open={showSettings}
-            onOpenChange={setShowSettings}
-          />
-          <TribeRequestsModal
-            tribeSlug={tribe.slug}
-            open={showRequests}
-            onOpenChange={setShowRequests}
-          />
-          <TribeInviteModal
-            tribe={tribe}
-            inviteCode={tribe.invite_code}
-            open={showInvite}
-            onOpenChange={setShowInvite}
-          />
-        </>
+      {permissions.manage && (
+        <TribeSettingsModal
+          tribe={tribe}
+          canRotateInviteCode={permissions.rotate_invite_code}
+          open={showSettings}
+          onOpenChange={setShowSettings}
+        />
+      )}
+      {permissions.approve_requests && (
+        <TribeRequestsModal
+          tribeSlug={tribe.slug}
+          open={showRequests}
+          onOpenChange={setShowRequests}
+        />
+      )}
+      {permissions.invite && (
+        <TribeInviteModal
+          tribe={tribe}
+          inviteCode={tribe.invite_code}
+          open={showInvite}
+          onOpenChange={setShowInvite}
+        />
       )}
     </>
   );
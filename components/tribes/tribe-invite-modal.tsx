@@ -15,8 +15,9 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { InviteeInput, type Invitee } from "@/components/shared/invitee-input";
+import { PhoneInviteeInput, type PhoneInvitee } from "@/components/shared/phone-invitee-input";
 import { TribeShareButton } from "./tribe-share-button";
-import type { Tribe } from "@/lib/types";
+import type { PhoneInviteChannel, Tribe } from "@/lib/types";
 
 interface TribeInviteModalProps {
   tribe: Pick<Tribe, "name" | "slug" | "access_type">;
@@ -29,12 +30,14 @@ interface TribeInviteModalProps {
 interface InviteResult {
   email?: string;
   userId?: string;
+  phone?: string;
   success: boolean;
   error?: string;
 }
 
 /**
- * Invite people to a tribe by email or @username.
+ * Invite people to a tribe by email, @username or phone number (SMS,
+ * WhatsApp, Zalo — whichever the server has configured).
  *
  * Uses the SHARED `InviteeInput`, not the fork inside events/invite-modal.tsx —
  * that fork exists only to add the `@audience` row type, and tribes have no
@@ -51,6 +54,8 @@ export function TribeInviteModal({
   const router = useRouter();
   const t = useTranslations("tribes");
   const [invitees, setInvitees] = useState<Invitee[]>([]);
+  const [phoneInvitees, setPhoneInvitees] = useState<PhoneInvitee[]>([]);
+  const [channels, setChannels] = useState<PhoneInviteChannel[]>([]);
   const [note, setNote] = useState("");
   const [sending, setSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -68,9 +73,11 @@ export function TribeInviteModal({
         const res = await fetch(`/api/tribes/${tribe.slug}/invitations`);
         if (!res.ok) return;
         const data = await res.json();
-        if (!cancelled && typeof data.quota?.remaining_daily === "number") {
+        if (cancelled) return;
+        if (typeof data.quota?.remaining_daily === "number") {
           setRemaining(data.quota.remaining_daily);
         }
+        setChannels(data.channels ?? []);
       } catch (err) {
         // Non-fatal: the send path enforces the quota server-side anyway.
         console.error("[tribe invite] quota lookup failed:", err);
@@ -84,6 +91,7 @@ export function TribeInviteModal({
   const handleOpenChange = (next: boolean) => {
     if (!next) {
       setInvitees([]);
+      setPhoneInvitees([]);
       setNote("");
       setError(null);
       setStatus(null);
@@ -92,7 +100,8 @@ export function TribeInviteModal({
   };
 
   const handleSend = async () => {
-    if (invitees.length === 0) {
+    const recipientCount = invitees.length + phoneInvitees.length;
+    if (recipientCount === 0) {
       setError(t("inviteNeedsRecipient"));
       return;
     }
@@ -112,7 +121,12 @@ export function TribeInviteModal({
       const response = await fetch(`/api/tribes/${tribe.slug}/invitations`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ emails, users, personalNote: note.trim() || undefined }),
+        body: JSON.stringify({
+          emails,
+          users,
+          phones: phoneInvitees,
+          personalNote: note.trim() || undefined,
+        }),
       });
 
       const data = await response.json();
@@ -132,11 +146,13 @@ export function TribeInviteModal({
       // Keep only the ones that failed, so a retry doesn't re-send the rest.
       const failedEmails = new Set(failed.map((r) => r.email).filter(Boolean));
       const failedUserIds = new Set(failed.map((r) => r.userId).filter(Boolean));
+      const failedPhones = new Set(failed.map((r) => r.phone).filter(Boolean));
       setInvitees(
         invitees.filter((i) =>
           i.type === "email" ? failedEmails.has(i.email) : failedUserIds.has(i.user.id)
         )
       );
+      setPhoneInvitees(phoneInvitees.filter((i) => failedPhones.has(i.phone)));
 
       setStatus(t("inviteSent", { count: data.sent ?? 0 }));
       if (typeof data.remaining_daily === "number") setRemaining(data.remaining_daily);
@@ -165,6 +181,13 @@ export function TribeInviteModal({
             placeholder={t("inviteePlaceholder")}
           />
 
+          <PhoneInviteeInput
+            invitees={phoneInvitees}
+            onInviteesChange={setPhoneInvitees}
+            channels={channels}
+            disabled={sending}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="tribe-invite-note" className="text-sm">
               {t("inviteNoteLabel")}
@@ -195,7 +218,7 @@ export function TribeInviteModal({
 
           <Button
             onClick={handleSend}
-            disabled={sending || invitees.length === 0}
+            disabled={sending || invitees.length + phoneInvitees.length === 0}
             className="w-full px-4 py-3"
           >
             {sending ? (
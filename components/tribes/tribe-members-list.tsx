@@ -9,16 +9,21 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { TransferLeadershipModal } from "./transfer-leadership-modal";
-import type { TribeMember, Profile } from "@/lib/types";
+import type { TribeMember, TribeMemberRole, Profile } from "@/lib/types";
 
 interface TribeMembersListProps {
   tribeSlug: string;
-  isAdmin: boolean;
+  /** The tribe's custom role labels (settings.role_names) */
+  roleNames?: Partial<Record<TribeMemberRole, string>>;
+  /** Change roles and transfer leadership */
+  canManage: boolean;
+  /** Ban and remove members; admins too when combined with canManage */
+  canBan: boolean;
 }
 
 type MemberWithProfile = TribeMember & { profiles: Profile };
 
-export function TribeMembersList({ tribeSlug, isAdmin }: TribeMembersListProps) {
+export function TribeMembersList({ tribeSlug, roleNames, canManage, canBan }: TribeMembersListProps) {
   const t = useTranslations("tribes");
   const router = useRouter();
   const [members, setMembers] = useState<MemberWithProfile[]>([]);
@@ -114,11 +119,11 @@ export function TribeMembersList({ tribeSlug, isAdmin }: TribeMembersListProps)
               <div className="flex items-center gap-1">
                 {roleIcon[member.role]}
                 <Badge variant={roleBadgeVariant[member.role]} className="text-xs">
-                  {t(member.role)}
+                  {roleNames?.[member.role] || t(member.role)}
                 </Badge>
               </div>
             </div>
-            {isAdmin && member.role !== "leader" && (
+            {member.role !== "leader" && (canManage || (canBan && member.role === "member")) && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -135,26 +140,30 @@ export function TribeMembersList({ tribeSlug, isAdmin }: TribeMembersListProps)
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  {member.role === "member" && (
+                  {canManage && member.role === "member" && (
                     <DropdownMenuItem onClick={() => handleRoleChange(member.user_id, "admin")}>
                       <Shield className="w-4 h-4 mr-2" />
                       Promote to Admin
                     </DropdownMenuItem>
                   )}
-                  {member.role === "admin" && (
+                  {canManage && member.role === "admin" && (
                     <DropdownMenuItem onClick={() => handleRoleChange(member.user_id, "member")}>
                       <UserCheck className="w-4 h-4 mr-2" />
                       Demote to Member
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuItem onClick={() => handleBan(member.user_id)} className="text-orange-600">
-                    <Ban className="w-4 h-4 mr-2" />
-                    {t("banMember")}
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleRemove(member.user_id)} className="text-destructive">
-                    <UserMinus className="w-4 h-4 mr-2" />
-                    {t("removeMember")}
-                  </DropdownMenuItem>
+                  {canBan && (
+                    <>
+                      <DropdownMenuItem onClick={() => handleBan(member.user_id)} className="text-orange-600">
+                        <Ban className="w-4 h-4 mr-2" />
+                        {t("banMember")}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleRemove(member.user_id)} className="text-destructive">
+                        <UserMinus className="w-4 h-4 mr-2" />
+                        {t("removeMember")}
+                      </DropdownMenuItem>
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
@@ -170,7 +179,7 @@ export function TribeMembersList({ tribeSlug, isAdmin }: TribeMembersListProps)
         </p>
       )}
 
-      {isAdmin && (
+      {canManage && (
         <div className="mt-4">
           <Button
             variant="outline"
@@ -0,0 +1,97 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MAX_ROLE_NAME_LENGTH, TRIBE_PERMISSIONS, TRIBE_ROLES } from "@/lib/tribes/permissions";
+import type { TribeMemberRole, TribePermission } from "@/lib/types";
+
+// Leaders always hold every permission, so only these columns are editable
+const EDITABLE_ROLES: TribeMemberRole[] = ["admin", "member"];
+
+interface TribePermissionsEditorProps {
+  roleNames: Partial<Record<TribeMemberRole, string>>;
+  onRoleNamesChange: (roleNames: Partial<Record<TribeMemberRole, string>>) => void;
+  permissions: Record<TribePermission, TribeMemberRole[]>;
+  onPermissionsChange: (permissions: Record<TribePermission, TribeMemberRole[]>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Roles & permissions section of the tribe settings: custom names for the
+ * three roles, and which roles may do what. Saved with the rest of the form
+ * into tribes.settings (see lib/tribes/permissions.ts).
+ */
+export function TribePermissionsEditor({
+  roleNames,
+  onRoleNamesChange,
+  permissions,
+  onPermissionsChange,
+  disabled = false,
+}: TribePermissionsEditorProps) {
+  const t = useTranslations("tribes");
+
+  const label = (role: TribeMemberRole) => roleNames[role]?.trim() || t(role);
+
+  function toggle(permission: TribePermission, role: TribeMemberRole, checked: boolean) {
+    const current = permissions[permission];
+    const next = checked ? [...current, role] : current.filter((r) => r !== role);
+    onPermissionsChange({
+      ...permissions,
+      [permission]: TRIBE_ROLES.filter((r) => r === "leader" || next.includes(r)),
+    });
+  }
+
+  return (
+    <div className="space-y-4 p-3 bg-muted rounded-lg">
+      <div className="space-y-1">
+        <Label>{t("permissions.title")}</Label>
+        <p className="text-xs text-muted-foreground">{t("permissions.hint")}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">{t("permissions.roleNames")}</Label>
+        {TRIBE_ROLES.map((role) => (
+          <div key={role} className="flex items-center gap-3">
+            <span className="w-20 shrink-0 text-sm text-muted-foreground">{t(role)}</span>
+            <Input
+              value={roleNames[role] ?? ""}
+              onChange={(e) => onRoleNamesChange({ ...roleNames, [role]: e.target.value })}
+              placeholder={t(role)}
+              maxLength={MAX_ROLE_NAME_LENGTH}
+              disabled={disabled}
+              aria-label={t("permissions.roleNameFor", { role: t(role) })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="grid grid-cols-[1fr_repeat(2,4.5rem)] items-end gap-2 text-xs text-muted-foreground">
+          <span>{t("permissions.leadersAlways", { leader: label("leader") })}</span>
+          {EDITABLE_ROLES.map((role) => (
+            <span key={role} className="text-center truncate">
+              {label(role)}
+            </span>
+          ))}
+        </div>
+        {TRIBE_PERMISSIONS.map((permission) => (
+          <div key={permission} className="grid grid-cols-[1fr_repeat(2,4.5rem)] items-center gap-2">
+            <span className="text-sm">{t(`permissions.${permission}`)}</span>
+            {EDITABLE_ROLES.map((role) => (
+              <label key={role} className="flex justify-center py-3 cursor-pointer">
+                <Checkbox
+                  checked={permissions[permission].includes(role)}
+                  onCheckedChange={(checked) => toggle(permission, role, checked === true)}
+                  disabled={disabled}
+                  aria-label={`${t(`permissions.${permission}`)} — ${label(role)}`}
+                />
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -15,15 +15,18 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { DeleteTribeModal } from "./delete-tribe-modal";
-import type { Tribe, TribeAccessType } from "@/lib/types";
+import { TribePermissionsEditor } from "./tribe-permissions-editor";
+import { resolveTribePermissions } from "@/lib/tribes/permissions";
+import type { Tribe, TribeAccessType, TribeMemberRole } from "@/lib/types";
 
 interface TribeSettingsModalProps {
   tribe: Tribe;
+  canRotateInviteCode: boolean;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-export function TribeSettingsModal({ tribe, open, onOpenChange }: TribeSettingsModalProps) {
+export function TribeSettingsModal({ tribe, canRotateInviteCode, open, onOpenChange }: TribeSettingsModalProps) {
   const router = useRouter();
   const t = useTranslations("tribes");
   const [isPending, startTransition] = useTransition();
@@ -38,6 +41,10 @@ export function TribeSettingsModal({ tribe, open, onOpenChange }: TribeSettingsM
   const [accessType, setAccessType] = useState<TribeAccessType>(tribe.access_type);
   const [isListed, setIsListed] = useState(tribe.is_listed);
   const [inviteCode, setInviteCode] = useState(tribe.invite_code);
+  const [roleNames, setRoleNames] = useState<Partial<Record<TribeMemberRole, string>>>(
+    tribe.settings?.role_names ?? {}
+  );
+  const [permissions, setPermissions] = useState(() => resolveTribePermissions(tribe.settings));
   const [error, setError] = useState<string | null>(null);
 
   const [coverUrl, setCoverUrl] = useState<string | null>(tribe.cover_image_url);
@@ -130,6 +137,8 @@ export function TribeSettingsModal({ tribe, open, onOpenChange }: TribeSettingsM
             is_listed: isListed,
             cover_image_url: coverUrl,
             avatar_url: avatarUrl,
+            permissions,
+            role_names: roleNames,
           }),
         });
 
@@ -383,15 +392,17 @@ export function TribeSettingsModal({ tribe, open, onOpenChange }: TribeSettingsM
                   >
                     <Copy className="w-4 h-4" />
                   </Button>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={handleRegenerateCode}
-                    disabled={isPending}
-                    className="shrink-0 p-2"
-                  >
-                    <RefreshCw className={`w-4 h-4 ${isPending ? "animate-spin" : ""}`} />
-                  </Button>
+                  {canRotateInviteCode && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={handleRegenerateCode}
+                      disabled={isPending}
+                      className="shrink-0 p-2"
+                    >
+                      <RefreshCw className={`w-4 h-4 ${isPending ? "animate-spin" : ""}`} />
+                    </Button>
+                  )}
                 </div>
                 {copied && <p className="text-sm text-green-600">{t("codeCopied")}</p>}
                 {inviteUrl && (
@@ -410,6 +421,14 @@ export function TribeSettingsModal({ tribe, open, onOpenChange }: TribeSettingsM
               </div>
             )}
 
+            <TribePermissionsEditor
+              roleNames={roleNames}
+              onRoleNamesChange={setRoleNames}
+              permissions={permissions}
+              onPermissionsChange={setPermissions}
+              disabled={isPending}
+            />
+
             {error && <p className="text-sm text-destructive">{error}</p>}
           </div>
 
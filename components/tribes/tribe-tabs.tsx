@@ -2,33 +2,42 @@
 
 import { useState } from "react";
 import { useTranslations } from "next-intl";
-import { Grid3x3, Calendar, Users } from "lucide-react";
+import { Grid3x3, Calendar, Users, MessageSquare } from "lucide-react";
 
-type TabKey = "moments" | "events" | "members";
+export type TribeTabKey = "moments" | "events" | "board" | "members";
 
 interface TribeTabsProps {
   /** Omitted when the tribe has no visible moments -- the tab is then not rendered at all. */
   momentsSlot?: React.ReactNode;
   eventsSlot: React.ReactNode;
+  /** Omitted when the viewer can't read the discussion board. */
+  boardSlot?: React.ReactNode;
   /** Omitted for non-members, who can't see the roster. */
   membersSlot?: React.ReactNode;
+  /** Open on this tab when present, e.g. the board for a ?post= link */
+  initialTab?: TribeTabKey;
 }
 
-export function TribeTabs({ momentsSlot, eventsSlot, membersSlot }: TribeTabsProps) {
+export function TribeTabs({ momentsSlot, eventsSlot, boardSlot, membersSlot, initialTab }: TribeTabsProps) {
   const t = useTranslations("tribes");
 
-  const tabs: { key: TabKey; icon: React.ReactNode; label: string; content: React.ReactNode }[] = [
+  const tabs: { key: TribeTabKey; icon: React.ReactNode; label: string; content: React.ReactNode }[] = [
     ...(momentsSlot
       ? [{ key: "moments" as const, icon: <Grid3x3 className="w-4 h-4" />, label: t("moments"), content: momentsSlot }]
       : []),
     { key: "events", icon: <Calendar className="w-4 h-4" />, label: t("events"), content: eventsSlot },
+    ...(boardSlot
+      ? [{ key: "board" as const, icon: <MessageSquare className="w-4 h-4" />, label: t("discussion"), content: boardSlot }]
+      : []),
     ...(membersSlot
       ? [{ key: "members" as const, icon: <Users className="w-4 h-4" />, label: t("members"), content: membersSlot }]
       : []),
   ];
 
   // Moments lead when the tribe has a gallery; otherwise the page opens on events.
-  const [active, setActive] = useState<TabKey>(tabs[0].key);
+  const [active, setActive] = useState<TribeTabKey>(
+    initialTab && tabs.some((tab) => tab.key === initialTab) ? initialTab : tabs[0].key
+  );
   const activeTab = tabs.find((tab) => tab.key === active) ?? tabs[0];
 
   return (
@@ -1,124 +1,42 @@
 "use client";
 
-import { useTranslations } from "next-intl";
+import { useLocale, useTranslations } from "next-intl";
 import { cn } from "@/lib/utils";
-import type { OperatingHours } from "@/lib/types";
+import { getVenueStatus, WEEKDAYS } from "@/lib/venues/hours";
+import type { HoursException, OperatingHours } from "@/lib/types";
 
 interface VenueHoursBadgeProps {
   operatingHours: OperatingHours | null;
+  exceptions?: HoursException[] | null;
   showTime?: boolean;
   className?: string;
 }
 
-// Get current day in Da Lat timezone (UTC+7)
-function getDaLatDay(): keyof OperatingHours {
-  const now = new Date();
-  // Shift to UTC+7
-  const daLatTime = new Date(now.getTime() + 7 * 60 * 60 * 1000);
-  const days: (keyof OperatingHours)[] = [
-    "sunday",
-    "monday",
-    "tuesday",
-    "wednesday",
-    "thursday",
-    "friday",
-    "saturday",
-  ];
-  return days[daLatTime.getUTCDay()];
-}
-
-// Get current time in Da Lat as HH:MM
-function getDaLatTime(): string {
-  const now = new Date();
-  const daLatTime = new Date(now.getTime() + 7 * 60 * 60 * 1000);
-  const hours = daLatTime.getUTCHours().toString().padStart(2, "0");
-  const minutes = daLatTime.getUTCMinutes().toString().padStart(2, "0");
-  return `${hours}:${minutes}`;
-}
-
-// Parse time string (HH:MM) to minutes from midnight
-function timeToMinutes(time: string): number {
-  const [hours, minutes] = time.split(":").map(Number);
-  return hours * 60 + minutes;
-}
-
-export function isVenueOpenNow(operatingHours: OperatingHours | null): {
-  isOpen: boolean;
-  closesAt?: string;
-  opensAt?: string;
-} {
-  if (!operatingHours) {
-    return { isOpen: false };
-  }
-
-  const today = getDaLatDay();
-  const todayHours = operatingHours[today];
-
-  if (!todayHours || todayHours === "closed") {
-    // Find next opening day
-    const days: (keyof OperatingHours)[] = [
-      "monday",
-      "tuesday",
-      "wednesday",
-      "thursday",
-      "friday",
-      "saturday",
-      "sunday",
-    ];
-    const todayIndex = days.indexOf(today);
-
-    for (let i = 1; i <= 7; i++) {
-      const nextDay = days[(todayIndex + i) % 7];
-      const nextHours = operatingHours[nextDay];
-      if (nextHours && nextHours !== "closed") {
-        return {
-          isOpen: false,
-          opensAt: `${nextDay.charAt(0).toUpperCase() + nextDay.slice(1)} ${nextHours.open}`,
-        };
-      }
-    }
-
-    return { isOpen: false };
-  }
-
-  const currentMinutes = timeToMinutes(getDaLatTime());
-  const openMinutes = timeToMinutes(todayHours.open);
-  const closeMinutes = timeToMinutes(todayHours.close);
-
-  // Handle cases where close time is past midnight
-  const isOvernight = closeMinutes < openMinutes;
-
-  if (isOvernight) {
-    // Open if after opening OR before closing
-    const isOpen = currentMinutes >= openMinutes || currentMinutes < closeMinutes;
-    return {
-      isOpen,
-      closesAt: isOpen ? todayHours.close : undefined,
-      opensAt: !isOpen ? todayHours.open : undefined,
-    };
-  }
-
-  const isOpen = currentMinutes >= openMinutes && currentMinutes < closeMinutes;
-
-  return {
-    isOpen,
-    closesAt: isOpen ? todayHours.close : undefined,
-    opensAt: !isOpen && currentMinutes < openMinutes ? todayHours.open : undefined,
-  };
+// Short weekday name in the viewer's language ("Mon", "T2", "月")
+export function formatWeekday(weekday: keyof OperatingHours, locale: string): string {
+  // 2026-11-15 is a Sunday, so WEEKDAYS index = days after it
+  const date = new Date(Date.UTC(2026, 10, 15 + WEEKDAYS.indexOf(weekday)));
+  return new Intl.DateTimeFormat(locale, { weekday: "short", timeZone: "UTC" }).format(date);
 }
 
 export function VenueHoursBadge({
   operatingHours,
+  exceptions,
   showTime = true,
   className,
 }: VenueHoursBadgeProps) {
   const t = useTranslations("venues");
-  const status = isVenueOpenNow(operatingHours);
+  const locale = useLocale();
+  const status = getVenueStatus({ operating_hours: operatingHours, hours_exceptions: exceptions });
 
-  if (!operatingHours) {
+  if (!status) {
     return null;
   }
 
+  // Tết closures, festival hours etc. are named so the change isn't a surprise
+  const exceptionLabel = status.exception?.label;
+  const closedFor = !status.isOpen && status.exception?.closed ? exceptionLabel : null;
+
   // When open: green dot + "Open" + closing time
   // When closed: subtle muted text showing next opening time only
   if (status.isOpen) {
@@ -136,12 +54,13 @@ export function VenueHoursBadge({
         {showTime && status.closesAt && (
           <span className="text-muted-foreground">· {t("status.until")} {status.closesAt}</span>
         )}
+        {exceptionLabel && <span className="text-muted-foreground">· {exceptionLabel}</span>}
       </span>
     );
   }
 
   // Closed - just show when it opens, no alarming red
-  if (showTime && status.opensAt) {
+  if (showTime && (status.opensAt || closedFor)) {
     return (
       <span
         className={cn(
@@ -149,7 +68,16 @@ export function VenueHoursBadge({
           className
         )}
       >
-        {t("status.opens")} {status.opensAt}
+        {closedFor && <span>{t("status.closedFor", { label: closedFor })}</span>}
+        {closedFor && status.opensAt && <span>·</span>}
+        {status.opensAt && (
+          <span>
+            {t("status.opens")}{" "}
+            {status.opensAt.isToday
+              ? status.opensAt.time
+              : `${formatWeekday(status.opensAt.weekday, locale)} ${status.opensAt.time}`}
+          </span>
+        )}
       </span>
     );
   }
@@ -0,0 +1,110 @@
+"use client";
+
+import { useLocale, useTranslations } from "next-intl";
+import { formatWeekday } from "@/components/venues/venue-hours-badge";
+import {
+  formatRanges,
+  normalizeDayHours,
+  toVenueDateKey,
+  weekdayOf,
+} from "@/lib/venues/hours";
+import type { HoursException, OperatingHours } from "@/lib/types";
+
+const DAYS_OF_WEEK: (keyof OperatingHours)[] = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+interface VenueHoursTableProps {
+  operatingHours: OperatingHours | null;
+  exceptions?: HoursException[] | null;
+}
+
+function formatDate(dateKey: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale, { day: "numeric", month: "short", timeZone: "UTC" }).format(
+    new Date(`${dateKey}T00:00:00Z`)
+  );
+}
+
+/**
+ * Weekly hours with split shifts, followed by upcoming special dates
+ * (closures and festival hours) that override them.
+ */
+export function VenueHoursTable({ operatingHours, exceptions }: VenueHoursTableProps) {
+  const t = useTranslations("venues");
+  const locale = useLocale();
+  const todayKey = toVenueDateKey(new Date());
+  const today = weekdayOf(todayKey);
+
+  // Past one-off dates are noise; recurring ones always apply again
+  const specialDates = (exceptions ?? [])
+    .filter((e) => e.recurrence !== "once" || (e.ends_on || e.starts_on) >= todayKey)
+    .sort((a, b) => a.starts_on.localeCompare(b.starts_on));
+
+  const describeDates = (exception: HoursException) => {
+    const range =
+      exception.ends_on && exception.ends_on !== exception.starts_on && exception.recurrence !== "monthly_weekday"
+        ? `${formatDate(exception.starts_on, locale)} – ${formatDate(exception.ends_on, locale)}`
+        : formatDate(exception.starts_on, locale);
+    if (exception.recurrence === "yearly") return `${range} · ${t("everyYear")}`;
+    if (exception.recurrence === "monthly_weekday") {
+      return t("everyMonthOn", {
+        week: Math.ceil(Number(exception.starts_on.slice(8)) / 7),
+        day: formatWeekday(weekdayOf(exception.starts_on), locale),
+      });
+    }
+    return range;
+  };
+
+  return (
+    <div className="bg-muted/30 rounded-lg p-4 space-y-4">
+      {operatingHours && (
+        <div className="grid gap-2">
+          {DAYS_OF_WEEK.map((day) => {
+            const ranges = normalizeDayHours(operatingHours[day]);
+            const isToday = day === today;
+
+            return (
+              <div
+                key={day}
+                className={`flex justify-between items-center gap-4 py-1 px-2 rounded ${
+                  isToday ? "bg-primary/10 font-medium" : ""
+                }`}
+              >
+                <span className={isToday ? "text-primary" : "text-muted-foreground"}>
+                  {formatWeekday(day, locale)}
+                  {isToday && ` (${t("hoursToday")})`}
+                </span>
+                <span className={ranges.length === 0 ? "text-muted-foreground" : "text-right"}>
+                  {ranges.length === 0 ? t("closedNow") : formatRanges(ranges)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {specialDates.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium px-2">{t("specialDates")}</h3>
+          {specialDates.map((exception) => (
+            <div key={exception.id} className="flex justify-between items-start gap-4 py-1 px-2 text-sm">
+              <span>
+                {exception.label && <span className="block font-medium">{exception.label}</span>}
+                <span className="text-muted-foreground">{describeDates(exception)}</span>
+              </span>
+              <span className={exception.closed ? "text-muted-foreground" : "text-right"}>
+                {exception.closed ? t("closedNow") : formatRanges(normalizeDayHours(exception.ranges))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
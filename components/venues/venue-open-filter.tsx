@@ -0,0 +1,79 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Clock, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toVenueDateKey, toVenueTime } from "@/lib/venues/hours";
+import type { OpenAtFilter } from "@/lib/hooks/use-open-venues";
+
+interface VenueOpenFilterProps {
+  value: OpenAtFilter;
+  onChange: (value: OpenAtFilter) => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+// Next full hour in Đà Lạt, as a datetime-local value
+function nextHour(): string {
+  const at = new Date(Math.ceil(Date.now() / 3_600_000) * 3_600_000);
+  return `${toVenueDateKey(at)}T${toVenueTime(at)}`;
+}
+
+/**
+ * "Open now" / "Open at <time>" chips for venue lists and the map. Times are
+ * Đà Lạt wall-clock times whatever the visitor's own timezone.
+ */
+export function VenueOpenFilter({ value, onChange, isLoading, className }: VenueOpenFilterProps) {
+  const t = useTranslations("venues");
+  const isAt = !!value && value !== "now";
+
+  const chipClassName = (active: boolean) =>
+    cn(
+      "inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-all active:scale-95",
+      active
+        ? "bg-primary/10 text-primary border border-primary/20"
+        : "text-muted-foreground hover:text-foreground hover:bg-muted"
+    );
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <button
+        type="button"
+        onClick={() => onChange(value === "now" ? null : "now")}
+        className={chipClassName(value === "now")}
+      >
+        <span className={cn("w-2 h-2 rounded-full", value === "now" ? "bg-green-500" : "bg-muted-foreground/40")} />
+        {t("showOpenNow")}
+      </button>
+
+      {isAt ? (
+        <span className={chipClassName(true)}>
+          <Clock className="w-4 h-4" />
+          <input
+            type="datetime-local"
+            value={value}
+            onChange={(e) => onChange(e.target.value || null)}
+            aria-label={t("openAt")}
+            className="bg-transparent text-sm outline-none"
+          />
+        </span>
+      ) : (
+        <button type="button" onClick={() => onChange(nextHour())} className={chipClassName(false)}>
+          <Clock className="w-4 h-4" />
+          {t("openAt")}
+        </button>
+      )}
+
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted"
+          aria-label={t("clearOpenFilter")}
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+        </button>
+      )}
+    </div>
+  );
+}
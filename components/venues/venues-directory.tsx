@@ -1,10 +1,13 @@
 "use client";
 
-import { useSearchParams } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useTranslations } from "next-intl";
 import { Building2 } from "lucide-react";
 import { VenueCard } from "@/components/venues/venue-card";
 import { VenueTypeFilter } from "@/components/venues/venue-type-filter";
+import { VenueOpenFilter } from "@/components/venues/venue-open-filter";
+import { useOpenVenueIds, type OpenAtFilter } from "@/lib/hooks/use-open-venues";
+import { parseVenueDateTime } from "@/lib/venues/hours";
 import type { VenueListItem, VenueType } from "@/lib/types";
 
 const VALID_TYPES = [
@@ -29,16 +32,37 @@ interface VenuesDirectoryProps {
 
 export function VenuesDirectory({ venues, translatedNames, typeCounts }: VenuesDirectoryProps) {
   const t = useTranslations("venues");
+  const router = useRouter();
+  const pathname = usePathname();
   const searchParams = useSearchParams();
 
   // Validate type parameter from URL (client-side so the page stays static)
   const type = searchParams?.get("type");
   const selectedType = type && VALID_TYPES.includes(type) ? (type as VenueType) : null;
 
-  // Filter venues by selected type
-  const filteredVenues = selectedType
-    ? venues.filter((v) => v.venue_type === selectedType)
-    : venues;
+  // "open=now" or "open=2026-11-20T19:30" (Đà Lạt time), checked server-side
+  const open = searchParams?.get("open");
+  const openAt: OpenAtFilter = open === "now" || (open && parseVenueDateTime(open)) ? open : null;
+  const { data: openIds, isFetching: isLoadingOpen } = useOpenVenueIds(openAt);
+
+  const handleOpenChange = (value: OpenAtFilter) => {
+    const params = new URLSearchParams(searchParams?.toString());
+    if (value) {
+      params.set("open", value);
+    } else {
+      params.delete("open");
+    }
+    const queryString = params.toString();
+    const base = pathname ?? "/";
+    router.replace(queryString ? `${base}?${queryString}` : base, { scroll: false });
+  };
+
+  // Filter venues by selected type and opening hours
+  const filteredVenues = venues.filter(
+    (v) =>
+      (!selectedType || v.venue_type === selectedType) &&
+      (!openAt || !openIds || openIds.has(v.id))
+  );
 
   // Separate venues with happening now
   const happeningNow = filteredVenues.filter((v) => v.has_happening_now);
@@ -46,9 +70,10 @@ export function VenuesDirectory({ venues, translatedNames, typeCounts }: VenuesD
 
   return (
     <>
-      {/* Type filter - only shows types with venues */}
-      <div className="mb-6">
+      {/* Type filter (only shows types with venues) and opening-hours filter */}
+      <div className="mb-6 flex flex-wrap items-center gap-2">
         <VenueTypeFilter selectedType={selectedType} typeCounts={typeCounts} />
+        <VenueOpenFilter value={openAt} onChange={handleOpenChange} isLoading={isLoadingOpen} />
       </div>
 
       {/* Venues grid */}
@@ -56,7 +81,7 @@ export function VenuesDirectory({ venues, translatedNames, typeCounts }: VenuesD
         <div className="text-center py-16">
           <Building2 className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
           <p className="text-lg font-medium text-muted-foreground mb-1">
-            {t("noVenues")}
+            {openAt ? t("noOpenVenues") : t("noVenues")}
           </p>
           <p className="text-sm text-muted-foreground/70">
             {t("noVenuesDescription")}
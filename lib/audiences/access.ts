@@ -0,0 +1,32 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { hasRoleLevel, type UserRole } from '@/lib/types';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+export interface SegmentAccess {
+  /** May view, edit and blast this organizer's segments */
+  allowed: boolean;
+  /** Admins see the pinned audiences and aren't confined to the organizer's reach */
+  isAdmin: boolean;
+}
+
+/**
+ * Who may use an organizer's saved segments: its owner and site admins.
+ * Checked with the caller's own client before any service-role resolution.
+ */
+export async function getSegmentAccess(
+  supabase: AnySupabaseClient,
+  userId: string,
+  organizerId: string | null
+): Promise<SegmentAccess> {
+  const [{ data: profile }, { data: organizer }] = await Promise.all([
+    supabase.from('profiles').select('role').eq('id', userId).single(),
+    organizerId
+      ? supabase.from('organizers').select('owner_id').eq('id', organizerId).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const isAdmin = profile?.role ? hasRoleLevel(profile.role as UserRole, 'admin') : false;
+  const isOwner = Boolean(organizerId) && organizer?.owner_id === userId;
+  return { allowed: isAdmin || isOwner, isAdmin };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { isValidAudienceKey, subtractExclusions } from './resolve';
+import { fetchAllRows, isValidAudienceKey, subtractExclusions } from './resolve';
 
 describe('isValidAudienceKey', () => {
   it('accepts all and real tags', () => {
@@ -24,3 +24,21 @@ describe('subtractExclusions', () => {
     expect(subtractExclusions(['a'], new Set(['a']))).toEqual([]);
   });
 });
+
+describe('fetchAllRows', () => {
+  it('pages until a short page comes back', async () => {
+    const all = Array.from({ length: 2500 }, (_, i) => ({ id: String(i) }));
+    const ranges: Array<[number, number]> = [];
+    const rows = await fetchAllRows('test', async (from, to) => {
+      ranges.push([from, to]);
+      return { data: all.slice(from, to + 1), error: null };
+    });
+    expect(rows).toHaveLength(2500);
+    expect(ranges).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+  it('throws with the label on error', async () => {
+    await expect(
+      fetchAllRows('members', async () => ({ data: null, error: { message: 'boom' } }))
+    ).rejects.toThrow('members: boom');
+  });
+});
@@ -5,7 +5,7 @@ import { EVENT_TAGS, type EventTag } from '@/lib/constants/event-tags';
 type AnySupabaseClient = SupabaseClient<any, any, any>;
 
 /** Tag audiences look at RSVPs within this window — "actually plays games", not "clicked interested once in January" */
-const TAG_WINDOW_DAYS = 120;
+export const TAG_WINDOW_DAYS = 120;
 /** A user receives at most one audience blast per this window (notification-fatigue guard) */
 export const BLAST_COOLDOWN_DAYS = 30;
 
@@ -14,9 +14,29 @@ export type AudienceKey = 'all' | EventTag;
 /**
  * PostgREST silently caps unbounded selects at 1000 rows — enough to truncate
  * both audience membership AND the exclusion set once the community grows.
- * Explicit ceiling with lots of headroom (177 users today); paginate before we near it.
+ * Every list query pages through with fetchAllRows instead of trusting one select.
  */
-const ROW_CEILING = 5000;
+const PAGE_SIZE = 1000;
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+/**
+ * Read every row of a query, PAGE_SIZE at a time. `page` must apply a stable
+ * order (e.g. .order('id')) or rows shift between pages.
+ * Throws on the first error, labelled for the caller's log line.
+ */
+export async function fetchAllRows<T>(
+  label: string,
+  page: (from: number, to: number) => PageResult<T>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${label}: ${error.message}`);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
 
 export function isValidAudienceKey(key: string): key is AudienceKey {
   return key === 'all' || (EVENT_TAGS as readonly string[]).includes(key);
@@ -26,7 +46,7 @@ export function subtractExclusions(memberIds: string[], excluded: Set<string>):
   return [...new Set(memberIds)].filter((id) => !excluded.has(id));
 }
 
-function daysAgoIso(days: number): string {
+export function daysAgoIso(days: number): string {
   return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
 }
 
@@ -39,76 +59,98 @@ export async function resolveAudienceMembers(
   key: AudienceKey
 ): Promise<string[]> {
   if (key === 'all') {
-    const { data, error } = await admin
-      .from('profiles')
-      .select('id')
-      .eq('is_ghost', false)
-      .limit(ROW_CEILING);
-    if (error) throw new Error(`resolveAudienceMembers(all): ${error.message}`);
-    return (data ?? []).map((r: { id: string }) => r.id);
+    const rows = await fetchAllRows<{ id: string }>('resolveAudienceMembers(all)', (from, to) =>
+      admin.from('profiles').select('id').eq('is_ghost', false).order('id').range(from, to)
+    );
+    return rows.map((r) => r.id);
   }
 
   // Users who RSVP'd going/interested to events carrying this tag, recently
-  const { data, error } = await admin
-    .from('rsvps')
-    .select('user_id, events!inner(id)')
-    .in('status', ['going', 'interested'])
-    .gte('created_at', daysAgoIso(TAG_WINDOW_DAYS))
-    .contains('events.ai_tags', [key])
-    .limit(ROW_CEILING);
-  if (error) throw new Error(`resolveAudienceMembers(${key}): ${error.message}`);
-  return [...new Set((data ?? []).map((r: { user_id: string }) => r.user_id))];
+  const rows = await fetchAllRows<{ user_id: string }>(`resolveAudienceMembers(${key})`, (from, to) =>
+    admin
+      .from('rsvps')
+      .select('user_id, events!inner(id)')
+      .in('status', ['going', 'interested'])
+      .gte('created_at', daysAgoIso(TAG_WINDOW_DAYS))
+      .contains('events.ai_tags', [key])
+      .order('id')
+      .range(from, to)
+  );
+  return [...new Set(rows.map((r) => r.user_id))];
+}
+
+/**
+ * User ids no blast may reach, whatever the event: anyone blasted in the last
+ * 30 days and anyone who muted audience blasts entirely. Also what segment
+ * previews subtract, so the live count matches what a send would reach.
+ */
+export async function getStandingExclusions(admin: AnySupabaseClient): Promise<Set<string>> {
+  const [recentlyBlasted, prefs] = await Promise.all([
+    fetchAllRows<{ claimed_by: string | null }>('getStandingExclusions(cooldown)', (from, to) =>
+      admin
+        .from('event_invitations')
+        .select('claimed_by')
+        .not('audience', 'is', null)
+        .not('claimed_by', 'is', null)
+        .gte('created_at', daysAgoIso(BLAST_COOLDOWN_DAYS))
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows<{ user_id: string; channel_preferences: Record<string, string[]> | null }>(
+      'getStandingExclusions(preferences)',
+      (from, to) =>
+        admin
+          .from('notification_preferences')
+          .select('user_id, channel_preferences')
+          .order('id')
+          .range(from, to)
+    ),
+  ]);
+
+  const excluded = new Set<string>();
+  for (const r of recentlyBlasted) {
+    if (r.claimed_by) excluded.add(r.claimed_by);
+  }
+  for (const r of prefs) {
+    const chans = r.channel_preferences?.audience_invitation;
+    if (Array.isArray(chans) && chans.length === 0) excluded.add(r.user_id);
+  }
+  return excluded;
 }
 
 /**
  * User ids that must NOT receive this blast:
  * already invited to the event, already RSVP'd, the sender,
- * anyone blasted in the last 30 days, anyone who muted audience blasts entirely.
+ * plus the standing exclusions (30-day cooldown, muted).
  */
 export async function getBlastExclusions(
   admin: AnySupabaseClient,
   eventId: string,
   senderId: string
 ): Promise<Set<string>> {
-  const [invited, rsvped, recentlyBlasted, prefs] = await Promise.all([
-    admin
-      .from('event_invitations')
-      .select('claimed_by')
-      .eq('event_id', eventId)
-      .not('claimed_by', 'is', null)
-      .limit(ROW_CEILING),
-    admin.from('rsvps').select('user_id').eq('event_id', eventId).limit(ROW_CEILING),
-    admin
-      .from('event_invitations')
-      .select('claimed_by')
-      .not('audience', 'is', null)
-      .not('claimed_by', 'is', null)
-      .gte('created_at', daysAgoIso(BLAST_COOLDOWN_DAYS))
-      .limit(ROW_CEILING),
-    admin
-      .from('notification_preferences')
-      .select('user_id, channel_preferences')
-      .limit(ROW_CEILING),
+  const [invited, rsvped, standing] = await Promise.all([
+    fetchAllRows<{ claimed_by: string | null }>('getBlastExclusions(invited)', (from, to) =>
+      admin
+        .from('event_invitations')
+        .select('claimed_by')
+        .eq('event_id', eventId)
+        .not('claimed_by', 'is', null)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows<{ user_id: string }>('getBlastExclusions(rsvped)', (from, to) =>
+      admin.from('rsvps').select('user_id').eq('event_id', eventId).order('id').range(from, to)
+    ),
+    getStandingExclusions(admin),
   ]);
 
-  for (const q of [invited, rsvped, recentlyBlasted, prefs]) {
-    if (q.error) throw new Error(`getBlastExclusions: ${q.error.message}`);
-  }
-
-  const excluded = new Set<string>([senderId]);
-  for (const r of (invited.data ?? []) as Array<{ claimed_by: string | null }>) {
+  const excluded = new Set<string>([senderId, ...standing]);
+  for (const r of invited) {
     if (r.claimed_by) excluded.add(r.claimed_by);
   }
-  for (const r of (rsvped.data ?? []) as Array<{ user_id: string }>) {
+  for (const r of rsvped) {
     excluded.add(r.user_id);
   }
-  for (const r of (recentlyBlasted.data ?? []) as Array<{ claimed_by: string | null }>) {
-    if (r.claimed_by) excluded.add(r.claimed_by);
-  }
-  for (const r of (prefs.data ?? []) as Array<{ user_id: string; channel_preferences: Record<string, string[]> | null }>) {
-    const chans = r.channel_preferences?.audience_invitation;
-    if (Array.isArray(chans) && chans.length === 0) excluded.add(r.user_id);
-  }
   return excluded;
 }
 
@@ -121,17 +163,19 @@ export async function getAudienceCounts(
 ): Promise<Array<{ key: AudienceKey; count: number }>> {
   const [allMembers, tagRows] = await Promise.all([
     resolveAudienceMembers(admin, 'all'),
-    admin
-      .from('rsvps')
-      .select('user_id, events!inner(ai_tags)')
-      .in('status', ['going', 'interested'])
-      .gte('created_at', daysAgoIso(TAG_WINDOW_DAYS))
-      .limit(ROW_CEILING),
+    fetchAllRows<{ user_id: string; events: unknown }>('getAudienceCounts', (from, to) =>
+      admin
+        .from('rsvps')
+        .select('user_id, events!inner(ai_tags)')
+        .in('status', ['going', 'interested'])
+        .gte('created_at', daysAgoIso(TAG_WINDOW_DAYS))
+        .order('id')
+        .range(from, to)
+    ),
   ]);
-  if (tagRows.error) throw new Error(`getAudienceCounts: ${tagRows.error.message}`);
 
   const perTag = new Map<string, Set<string>>();
-  for (const row of (tagRows.data ?? []) as Array<{ user_id: string; events: unknown }>) {
+  for (const row of tagRows) {
     const tags = (row.events as { ai_tags: string[] | null } | null)?.ai_tags ?? [];
     for (const tag of tags) {
       if (!(EVENT_TAGS as readonly string[]).includes(tag)) continue;
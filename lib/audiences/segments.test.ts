@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  combineRuleResults,
+  noShowExclusions,
+  parseSegmentAudienceKey,
+  parseSegmentRules,
+  segmentAudienceKey,
+  tiersAtOrAbove,
+} from './segments';
+
+const VENUE = '3f1c2b9e-8a7d-4c6e-9b5a-1d2e3f4a5b6c';
+
+describe('parseSegmentRules', () => {
+  it('accepts and normalizes valid rules', () => {
+    const result = parseSegmentRules([
+      { type: 'attended_venue', venueId: VENUE, withinDays: 90 },
+      { type: 'locale', locales: ['ko', 'ko', 'vi'] },
+      { type: 'loyalty_tier', minTier: 'insider' },
+      { type: 'no_show_rate', maxPercent: 20, extra: 'dropped' },
+    ]);
+    expect(result).toEqual({
+      ok: true,
+      rules: [
+        { type: 'attended_venue', venueId: VENUE, withinDays: 90 },
+        { type: 'locale', locales: ['ko', 'vi'] },
+        { type: 'loyalty_tier', minTier: 'insider' },
+        { type: 'no_show_rate', maxPercent: 20 },
+      ],
+    });
+  });
+  it('rejects empty, unknown and malformed rules', () => {
+    expect(parseSegmentRules([]).ok).toBe(false);
+    expect(parseSegmentRules('nope').ok).toBe(false);
+    expect(parseSegmentRules([{ type: 'everyone' }]).ok).toBe(false);
+    expect(parseSegmentRules([{ type: 'attended_venue', venueId: 'not-a-uuid' }]).ok).toBe(false);
+    expect(parseSegmentRules([{ type: 'event_tag', tag: 'games', withinDays: 0 }]).ok).toBe(false);
+    expect(parseSegmentRules([{ type: 'locale', locales: ['xx'] }]).ok).toBe(false);
+    expect(parseSegmentRules([{ type: 'no_show_rate', maxPercent: 0 }]).ok).toBe(false);
+  });
+  it('caps the number of rules', () => {
+    const rules = Array.from({ length: 9 }, () => ({ type: 'loyalty_tier', minTier: 'legend' }));
+    expect(parseSegmentRules(rules).ok).toBe(false);
+  });
+});
+
+describe('segment audience keys', () => {
+  it('round-trips and rejects pinned keys', () => {
+    expect(parseSegmentAudienceKey(segmentAudienceKey(VENUE))).toBe(VENUE);
+    expect(parseSegmentAudienceKey('all')).toBeNull();
+    expect(parseSegmentAudienceKey('segment:drop table')).toBeNull();
+  });
+});
+
+describe('tiersAtOrAbove', () => {
+  it('includes the floor tier and everything higher', () => {
+    expect(tiersAtOrAbove('insider')).toEqual(['insider', 'ambassador', 'legend']);
+    expect(tiersAtOrAbove('explorer')).toHaveLength(5);
+  });
+});
+
+describe('noShowExclusions', () => {
+  it('excludes users at or over the threshold only', () => {
+    const excluded = noShowExclusions(
+      [
+        { user_id: 'a', no_show_at: null },
+        { user_id: 'a', no_show_at: null },
+        { user_id: 'a', no_show_at: null },
+        { user_id: 'a', no_show_at: '2026-01-01' },
+        { user_id: 'b', no_show_at: '2026-01-01' },
+        { user_id: 'b', no_show_at: null },
+      ],
+      25
+    );
+    expect([...excluded]).toEqual(['a', 'b']);
+    expect(noShowExclusions([{ user_id: 'a', no_show_at: null }], 25).size).toBe(0);
+  });
+});
+
+describe('combineRuleResults', () => {
+  const nobody = async () => {
+    throw new Error('should not load everyone');
+  };
+
+  it('intersects includes and subtracts excludes', async () => {
+    const members = await combineRuleResults(
+      [
+        { include: new Set(['a', 'b', 'c']) },
+        { include: new Set(['b', 'c', 'd']) },
+        { exclude: new Set(['c']) },
+      ],
+      nobody
+    );
+    expect(members).toEqual(['b']);
+  });
+  it('starts from everyone when only filters are given', async () => {
+    const members = await combineRuleResults([{ exclude: new Set(['b']) }], async () => ['a', 'b', 'c']);
+    expect(members).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,350 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EVENT_TAGS, type EventTag } from '@/lib/constants/event-tags';
+import { LOCALES, LOYALTY_TIER_INFO, type Locale, type LoyaltyTier } from '@/lib/types';
+import { TAG_WINDOW_DAYS, daysAgoIso, fetchAllRows } from './resolve';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+/**
+ * Saved audience segments: an organizer's reusable invitation audience.
+ * Every rule must match (AND). Most rules select people; `no_show_rate` only
+ * narrows, so a segment made of filters alone starts from everyone.
+ */
+export type SegmentRule =
+  | { type: 'attended_venue'; venueId: string; withinDays?: number }
+  | { type: 'tribe_events'; tribeId: string; withinDays?: number }
+  | { type: 'event_tag'; tag: EventTag; withinDays?: number }
+  | { type: 'loyalty_tier'; minTier: LoyaltyTier }
+  | { type: 'locale'; locales: Locale[] }
+  | { type: 'no_show_rate'; maxPercent: number }
+  | { type: 'follows_organizer'; organizerId: string };
+
+export type SegmentRuleType = SegmentRule['type'];
+
+export const SEGMENT_RULE_TYPES: readonly SegmentRuleType[] = [
+  'attended_venue',
+  'tribe_events',
+  'event_tag',
+  'loyalty_tier',
+  'locale',
+  'no_show_rate',
+  'follows_organizer',
+];
+
+export interface AudienceSegment {
+  id: string;
+  organizer_id: string;
+  name: string;
+  rules: SegmentRule[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_SEGMENT_RULES = 8;
+export const MAX_SEGMENT_NAME_LENGTH = 80;
+/** Upper bound on an RSVP rule's look-back window */
+export const MAX_RULE_WINDOW_DAYS = 730;
+
+/** event_invitations.audience value for a segment blast — keeps the cooldown index working */
+const SEGMENT_KEY_PREFIX = 'segment:';
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function segmentAudienceKey(segmentId: string): string {
+  return `${SEGMENT_KEY_PREFIX}${segmentId}`;
+}
+
+/** Segment id from an audience key, or null for pinned keys ('all', tags) and junk */
+export function parseSegmentAudienceKey(key: string): string | null {
+  if (!key.startsWith(SEGMENT_KEY_PREFIX)) return null;
+  const id = key.slice(SEGMENT_KEY_PREFIX.length);
+  return UUID_RE.test(id) ? id : null;
+}
+
+/** Tiers at or above `minTier`, ordered by the points they need */
+export function tiersAtOrAbove(minTier: LoyaltyTier): LoyaltyTier[] {
+  const floor = LOYALTY_TIER_INFO[minTier].minPoints;
+  return (Object.keys(LOYALTY_TIER_INFO) as LoyaltyTier[]).filter(
+    (tier) => LOYALTY_TIER_INFO[tier].minPoints >= floor
+  );
+}
+
+function parseWindow(value: unknown): number | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_RULE_WINDOW_DAYS) {
+    return null;
+  }
+  return value;
+}
+
+function parseId(value: unknown): string | null {
+  return typeof value === 'string' && UUID_RE.test(value) ? value : null;
+}
+
+function parseRule(raw: unknown): SegmentRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+
+  switch (r.type) {
+    case 'attended_venue':
+    case 'tribe_events': {
+      const idField = r.type === 'attended_venue' ? 'venueId' : 'tribeId';
+      const id = parseId(r[idField]);
+      const withinDays = parseWindow(r.withinDays);
+      if (!id || withinDays === null) return null;
+      return r.type === 'attended_venue'
+        ? { type: 'attended_venue', venueId: id, ...(withinDays && { withinDays }) }
+        : { type: 'tribe_events', tribeId: id, ...(withinDays && { withinDays }) };
+    }
+    case 'event_tag': {
+      const withinDays = parseWindow(r.withinDays);
+      if (!(EVENT_TAGS as readonly unknown[]).includes(r.tag) || withinDays === null) return null;
+      return { type: 'event_tag', tag: r.tag as EventTag, ...(withinDays && { withinDays }) };
+    }
+    case 'loyalty_tier':
+      return typeof r.minTier === 'string' && r.minTier in LOYALTY_TIER_INFO
+        ? { type: 'loyalty_tier', minTier: r.minTier as LoyaltyTier }
+        : null;
+    case 'locale': {
+      if (!Array.isArray(r.locales) || r.locales.length === 0) return null;
+      if (!r.locales.every((l) => (LOCALES as unknown[]).includes(l))) return null;
+      return { type: 'locale', locales: [...new Set(r.locales as Locale[])] };
+    }
+    case 'no_show_rate':
+      return typeof r.maxPercent === 'number' && r.maxPercent > 0 && r.maxPercent <= 100
+        ? { type: 'no_show_rate', maxPercent: r.maxPercent }
+        : null;
+    case 'follows_organizer': {
+      const id = parseId(r.organizerId);
+      return id ? { type: 'follows_organizer', organizerId: id } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate client-supplied rules. Returns the normalized rules or the index
+ * of the first bad one — never trusts jsonb shape on the way in.
+ */
+export function parseSegmentRules(
+  input: unknown
+): { ok: true; rules: SegmentRule[] } | { ok: false; error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, error: 'At least one rule is required' };
+  }
+  if (input.length > MAX_SEGMENT_RULES) {
+    return { ok: false, error: `At most ${MAX_SEGMENT_RULES} rules` };
+  }
+
+  const rules: SegmentRule[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const rule = parseRule(input[i]);
+    if (!rule) return { ok: false, error: `Invalid rule at position ${i + 1}` };
+    rules.push(rule);
+  }
+  return { ok: true, rules };
+}
+
+/**
+ * Users whose no-show rate is at or over `maxPercent`, counting only RSVPs
+ * with an attendance outcome. People with no outcomes yet have no rate and
+ * are never excluded.
+ */
+export function noShowExclusions(
+  outcomes: Array<{ user_id: string; no_show_at: string | null }>,
+  maxPercent: number
+): Set<string> {
+  const tally = new Map<string, { total: number; noShows: number }>();
+  for (const row of outcomes) {
+    const t = tally.get(row.user_id) ?? { total: 0, noShows: 0 };
+    t.total += 1;
+    if (row.no_show_at) t.noShows += 1;
+    tally.set(row.user_id, t);
+  }
+
+  const excluded = new Set<string>();
+  for (const [userId, { total, noShows }] of tally) {
+    if ((noShows / total) * 100 >= maxPercent) excluded.add(userId);
+  }
+  return excluded;
+}
+
+type RuleResult = { include: Set<string> } | { exclude: Set<string> };
+
+/**
+ * AND the rule results together. `everyone` is only called when no rule
+ * selects anybody (a segment of filters alone).
+ */
+export async function combineRuleResults(
+  results: RuleResult[],
+  everyone: () => Promise<string[]>
+): Promise<string[]> {
+  const includes = results.flatMap((r) => ('include' in r ? [r.include] : []));
+  const excludes = results.flatMap((r) => ('exclude' in r ? [r.exclude] : []));
+
+  let members: string[];
+  if (includes.length === 0) {
+    members = await everyone();
+  } else {
+    // Intersect smallest-first so the working set only shrinks
+    const [smallest, ...rest] = [...includes].sort((a, b) => a.size - b.size);
+    members = [...smallest].filter((id) => rest.every((set) => set.has(id)));
+  }
+
+  return members.filter((id) => !excludes.some((set) => set.has(id)));
+}
+
+async function userIdSet(label: string, page: Parameters<typeof fetchAllRows<{ user_id: string }>>[1]) {
+  const rows = await fetchAllRows(label, page);
+  return new Set(rows.map((r) => r.user_id));
+}
+
+async function resolveRule(admin: AnySupabaseClient, rule: SegmentRule): Promise<RuleResult> {
+  switch (rule.type) {
+    case 'attended_venue': {
+      // Went (and wasn't marked a no-show) to a past event at this venue
+      const include = await userIdSet(`segment(attended_venue:${rule.venueId})`, (from, to) => {
+        let query = admin
+          .from('rsvps')
+          .select('user_id, events!inner(id)')
+          .eq('status', 'going')
+          .is('no_show_at', null)
+          .eq('events.venue_id', rule.venueId)
+          .lt('events.starts_at', new Date().toISOString());
+        if (rule.withinDays) query = query.gte('events.starts_at', daysAgoIso(rule.withinDays));
+        return query.order('id').range(from, to);
+      });
+      return { include };
+    }
+
+    case 'tribe_events': {
+      const include = await userIdSet(`segment(tribe_events:${rule.tribeId})`, (from, to) => {
+        let query = admin
+          .from('rsvps')
+          .select('user_id, events!inner(id)')
+          .in('status', ['going', 'interested'])
+          .eq('events.tribe_id', rule.tribeId);
+        if (rule.withinDays) query = query.gte('created_at', daysAgoIso(rule.withinDays));
+        return query.order('id').range(from, to);
+      });
+      return { include };
+    }
+
+    case 'event_tag': {
+      const include = await userIdSet(`segment(event_tag:${rule.tag})`, (from, to) =>
+        admin
+          .from('rsvps')
+          .select('user_id, events!inner(id)')
+          .in('status', ['going', 'interested'])
+          .gte('created_at', daysAgoIso(rule.withinDays ?? TAG_WINDOW_DAYS))
+          .contains('events.ai_tags', [rule.tag])
+          .order('id')
+          .range(from, to)
+      );
+      return { include };
+    }
+
+    case 'loyalty_tier': {
+      const include = await userIdSet(`segment(loyalty_tier:${rule.minTier})`, (from, to) =>
+        admin
+          .from('user_loyalty_status')
+          .select('user_id')
+          .in('current_tier', tiersAtOrAbove(rule.minTier))
+          .order('user_id')
+          .range(from, to)
+      );
+      return { include };
+    }
+
+    case 'locale': {
+      const rows = await fetchAllRows<{ id: string }>(`segment(locale:${rule.locales.join(',')})`, (from, to) =>
+        admin
+          .from('profiles')
+          .select('id')
+          .eq('is_ghost', false)
+          .in('locale', rule.locales)
+          .order('id')
+          .range(from, to)
+      );
+      return { include: new Set(rows.map((r) => r.id)) };
+    }
+
+    case 'no_show_rate': {
+      const outcomes = await fetchAllRows<{ user_id: string; no_show_at: string | null }>(
+        'segment(no_show_rate)',
+        (from, to) =>
+          admin
+            .from('rsvps')
+            .select('user_id, no_show_at')
+            .or('checked_in_at.not.is.null,no_show_at.not.is.null')
+            .order('id')
+            .range(from, to)
+      );
+      return { exclude: noShowExclusions(outcomes, rule.maxPercent) };
+    }
+
+    case 'follows_organizer': {
+      // Organizers are followed through their owner's profile
+      const { data: organizer, error } = await admin
+        .from('organizers')
+        .select('owner_id')
+        .eq('id', rule.organizerId)
+        .maybeSingle();
+      if (error) throw new Error(`segment(follows_organizer): ${error.message}`);
+      if (!organizer?.owner_id) return { include: new Set() };
+
+      const rows = await fetchAllRows<{ follower_id: string }>('segment(follows_organizer)', (from, to) =>
+        admin
+          .from('user_follows')
+          .select('follower_id')
+          .eq('following_id', organizer.owner_id)
+          .order('id')
+          .range(from, to)
+      );
+      return { include: new Set(rows.map((r) => r.follower_id)) };
+    }
+  }
+}
+
+/**
+ * Everyone an organizer already has a relationship with: RSVP'd to one of
+ * their events, or follows them. Non-admin segments are confined to this so
+ * an organizer can't blast the whole community by picking `locale = vi`.
+ */
+async function getOrganizerReach(admin: AnySupabaseClient, organizerId: string): Promise<Set<string>> {
+  const [attendees, followers] = await Promise.all([
+    userIdSet('segment(reach:rsvps)', (from, to) =>
+      admin
+        .from('rsvps')
+        .select('user_id, events!inner(id)')
+        .eq('events.organizer_id', organizerId)
+        .order('id')
+        .range(from, to)
+    ),
+    resolveRule(admin, { type: 'follows_organizer', organizerId }),
+  ]);
+  return new Set([...attendees, ...('include' in followers ? followers.include : [])]);
+}
+
+/**
+ * Resolve segment rules to member user ids (no blast exclusions applied).
+ * Pass `scopeToOrganizerId` for non-admin senders. Throws on query errors.
+ */
+export async function resolveSegmentMembers(
+  admin: AnySupabaseClient,
+  rules: SegmentRule[],
+  options: { scopeToOrganizerId?: string } = {}
+): Promise<string[]> {
+  const results = await Promise.all(rules.map((rule) => resolveRule(admin, rule)));
+  if (options.scopeToOrganizerId) {
+    results.push({ include: await getOrganizerReach(admin, options.scopeToOrganizerId) });
+  }
+
+  return combineRuleResults(results, async () => {
+    const rows = await fetchAllRows<{ id: string }>('segment(everyone)', (from, to) =>
+      admin.from('profiles').select('id').eq('is_ghost', false).order('id').range(from, to)
+    );
+    return rows.map((r) => r.id);
+  });
+}
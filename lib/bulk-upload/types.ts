@@ -2,6 +2,8 @@
  * Type definitions for the Pro Photographer bulk upload feature
  */
 
+import type { NearDuplicateMatch } from '@/lib/perceptual-hash';
+
 export type FileUploadStatus =
   | 'queued'      // In queue, not yet started
   | 'hashing'     // Computing file hash for duplicate detection
@@ -37,6 +39,8 @@ export interface FileUploadState {
   caption: string | null;       // Optional caption
   batchId: string;              // Groups files from same session
   fileHash: string | null;      // SHA-256 hash for duplicate detection
+  perceptualHash: string | null; // dHash for near-duplicate detection (photos only)
+  nearDuplicate: NearDuplicateMatch | null; // Looks like a photo already in the album
 }
 
 export interface BulkUploadStats {
@@ -50,6 +54,7 @@ export interface BulkUploadStats {
   complete: number;
   skipped: number;
   failed: number;
+  nearDuplicates: number;       // Queued files flagged as look-alikes
 }
 
 export interface BulkUploadState {
@@ -78,6 +83,7 @@ export type BulkUploadAction =
   | { type: 'MARK_FILES_COMPLETE'; ids: string[]; momentIds: string[] }
   | { type: 'MARK_FILES_ERROR'; ids: string[]; error: string }
   | { type: 'MARK_FILES_SKIPPED'; ids: string[] }
+  | { type: 'SKIP_NEAR_DUPLICATES' }
   | { type: 'RESET' };
 
 // Response from create_moments_batch RPC
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { buildCalendarFeed, type FeedEvent, type FeedSeries } from "./feed";
+import { escapeICS } from "./ics";
+
+const event = (o: Partial<FeedEvent> = {}): FeedEvent => ({
+  id: "e1",
+  slug: "jazz-night",
+  title: "Jazz Night",
+  description: null,
+  location_name: "Maze Bar",
+  address: "1 Phan Bội Châu",
+  google_maps_url: null,
+  starts_at: "2026-11-01T12:00:00.000Z",
+  ends_at: "2026-11-01T14:00:00.000Z",
+  status: "published",
+  has_private_details: false,
+  series_id: null,
+  series_instance_date: null,
+  is_exception: false,
+  rsvp_status: "going",
+  private_details: null,
+  ...o,
+});
+
+const series = (o: Partial<FeedSeries> = {}): FeedSeries => ({
+  id: "s1",
+  slug: "sunday-run",
+  title: "Sunday Run",
+  description: null,
+  location_name: "Xuân Hương Lake",
+  address: null,
+  google_maps_url: null,
+  rrule: "FREQ=WEEKLY;BYDAY=SU",
+  rrule_until: null,
+  starts_at_time: "06:00:00",
+  duration_minutes: 60,
+  first_occurrence: "2026-10-04",
+  exdates: [],
+  rdates: [],
+  status: "active",
+  cancelled_dates: [],
+  ...o,
+});
+
+const build = (events: FeedEvent[], s: FeedSeries[] = []) =>
+  buildCalendarFeed({
+    calendarName: "dalat.app",
+    baseUrl: "https://dalat.app",
+    events,
+    series: s,
+    now: new Date("2026-10-19T00:00:00Z"),
+  });
+
+describe("escapeICS", () => {
+  it("escapes separators and newlines", () => {
+    expect(escapeICS("a;b,c\\d\ne")).toBe("a\\;b\\,c\\\\d\\ne");
+  });
+});
+
+describe("buildCalendarFeed", () => {
+  it("emits one VEVENT per RSVP'd event with UTC times", () => {
+    const ics = build([event()]);
+    expect(ics).toContain("UID:e1@dalat.app");
+    expect(ics).toContain("DTSTART:20261101T120000Z");
+    expect(ics).toContain("STATUS:CONFIRMED");
+  });
+
+  it("marks interested events tentative and transparent", () => {
+    const ics = build([event({ rsvp_status: "interested" })]);
+    expect(ics).toContain("STATUS:TENTATIVE");
+    expect(ics).toContain("TRANSP:TRANSPARENT");
+  });
+
+  it("emits cancelled events as STATUS:CANCELLED", () => {
+    const ics = build([event({ status: "cancelled" })]);
+    expect(ics).toContain("STATUS:CANCELLED");
+  });
+
+  it("uses the secret address only when private details are passed in", () => {
+    const hidden = build([
+      event({ has_private_details: true, address: null, rsvp_status: "interested" }),
+    ]);
+    expect(hidden).toContain("LOCATION:Maze Bar");
+    expect(hidden).not.toContain("Hidden Alley");
+
+    const revealed = build([
+      event({
+        has_private_details: true,
+        address: null,
+        private_details: {
+          address: "12 Hidden Alley",
+          google_maps_url: null,
+          arrival_notes: "Ring twice",
+        },
+      }),
+    ]);
+    expect(revealed).toContain("LOCATION:Maze Bar\\, 12 Hidden Alley");
+    expect(revealed).toContain("Ring twice");
+  });
+
+  it("emits subscribed series as RRULE with EXDATE for cancellations", () => {
+    const ics = build([], [series({ cancelled_dates: ["2026-10-11"] })]);
+    expect(ics).toContain("UID:series-s1@dalat.app");
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;BYDAY=SU");
+    expect(ics).toContain("EXDATE;TZID=Asia/Ho_Chi_Minh:20261011T060000");
+  });
+
+  it("merges rule EXDATEs with cancellations and emits RDATEs", () => {
+    const ics = build(
+      [],
+      [series({ exdates: ["2027-02-07"], rdates: ["2027-02-10"], cancelled_dates: ["2026-10-11"] })]
+    );
+    expect(ics).toContain("EXDATE;TZID=Asia/Ho_Chi_Minh:20261011T060000");
+    expect(ics).toContain("EXDATE;TZID=Asia/Ho_Chi_Minh:20270207T060000");
+    expect(ics).toContain("RDATE;TZID=Asia/Ho_Chi_Minh:20270210T060000");
+  });
+
+  it("skips plain instances of a subscribed series but overrides modified ones", () => {
+    const plain = event({ id: "i1", series_id: "s1", series_instance_date: "2026-10-18" });
+    const modified = event({
+      id: "i2",
+      series_id: "s1",
+      series_instance_date: "2026-10-25",
+      is_exception: true,
+    });
+    const ics = build([plain, modified], [series()]);
+    expect(ics).not.toContain("UID:i1@dalat.app");
+    expect(ics).not.toContain("UID:i2@dalat.app");
+    expect(ics).toContain("RECURRENCE-ID;TZID=Asia/Ho_Chi_Minh:20261025T060000");
+  });
+
+  it("uses CRLF line endings", () => {
+    expect(build([event()])).toMatch(/^BEGIN:VCALENDAR\r\nVERSION:2.0\r\n/);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Personal calendar feed (webcal subscription).
+ *
+ * Pure ICS builder — the route at app/api/calendar/[token]/feed.ics gathers
+ * the rows and decides what the subscriber may see (secret addresses are
+ * passed in only for events where their RSVP is 'going').
+ */
+
+import {
+  DALAT_TIMEZONE,
+  buildSeriesRRule,
+  buildTimezoneLines,
+  escapeICS,
+  formatICSDate,
+  formatICSTimestamp,
+} from "./ics";
+import type { Event, EventPrivateDetails, EventSeries, Rsvp } from "@/lib/types";
+
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+export type FeedEvent = Pick<
+  Event,
+  | "id"
+  | "slug"
+  | "title"
+  | "description"
+  | "location_name"
+  | "address"
+  | "google_maps_url"
+  | "starts_at"
+  | "ends_at"
+  | "status"
+  | "has_private_details"
+  | "series_id"
+  | "series_instance_date"
+  | "is_exception"
+> & {
+  rsvp_status: Extract<Rsvp["status"], "going" | "interested">;
+  // Only set when the subscriber is 'going' — never for interested
+  private_details?: Pick<
+    EventPrivateDetails,
+    "address" | "google_maps_url" | "arrival_notes"
+  > | null;
+};
+
+export type FeedSeries = Pick<
+  EventSeries,
+  | "id"
+  | "slug"
+  | "title"
+  | "description"
+  | "location_name"
+  | "address"
+  | "google_maps_url"
+  | "rrule"
+  | "rrule_until"
+  | "starts_at_time"
+  | "duration_minutes"
+  | "first_occurrence"
+  | "exdates"
+  | "rdates"
+  | "status"
+> & {
+  // series_exceptions.original_date (YYYY-MM-DD) of cancelled instances
+  cancelled_dates: string[];
+};
+
+export interface CalendarFeedInput {
+  calendarName: string;
+  baseUrl: string;
+  events: FeedEvent[];
+  series: FeedSeries[];
+  now?: Date;
+}
+
+function eventLocation(event: FeedEvent): string {
+  const details = event.private_details;
+  if (details?.address) {
+    return [event.location_name, details.address].filter(Boolean).join(", ");
+  }
+  return [event.location_name, event.address].filter(Boolean).join(", ");
+}
+
+function eventDescription(event: FeedEvent, baseUrl: string): string {
+  const parts: string[] = [];
+  if (event.description) parts.push(event.description);
+
+  const details = event.private_details;
+  if (details?.arrival_notes) parts.push(details.arrival_notes);
+
+  const mapsUrl = details?.google_maps_url || event.google_maps_url;
+  if (mapsUrl) parts.push(`Location: ${mapsUrl}`);
+
+  parts.push(`Event page: ${baseUrl}/events/${event.slug}`);
+  return parts.join("\n\n");
+}
+
+function eventStatus(event: FeedEvent): string {
+  if (event.status === "cancelled") return "CANCELLED";
+  return event.rsvp_status === "going" ? "CONFIRMED" : "TENTATIVE";
+}
+
+function buildEventLines(
+  event: FeedEvent,
+  baseUrl: string,
+  stamp: string,
+  seriesTimes: Map<string, string>
+): string[] {
+  const start = new Date(event.starts_at);
+  const end = event.ends_at
+    ? new Date(event.ends_at)
+    : new Date(start.getTime() + DEFAULT_DURATION_MS);
+
+  // A modified instance of a subscribed series overrides that occurrence of
+  // the series VEVENT (same UID + RECURRENCE-ID) instead of duplicating it.
+  const seriesTime = event.series_id ? seriesTimes.get(event.series_id) : undefined;
+  const uid = seriesTime ? `series-${event.series_id}@dalat.app` : `${event.id}@dalat.app`;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+  ];
+
+  if (seriesTime && event.series_instance_date) {
+    lines.push(
+      `RECURRENCE-ID;TZID=${DALAT_TIMEZONE}:${formatICSDate(event.series_instance_date, seriesTime)}`
+    );
+  }
+
+  lines.push(
+    `DTSTART:${formatICSTimestamp(start)}`,
+    `DTEND:${formatICSTimestamp(end)}`,
+    `SUMMARY:${escapeICS(event.title)}`,
+    `DESCRIPTION:${escapeICS(eventDescription(event, baseUrl))}`,
+    `STATUS:${eventStatus(event)}`
+  );
+
+  const location = eventLocation(event);
+  if (location) lines.push(`LOCATION:${escapeICS(location)}`);
+
+  // Interested = "maybe": don't block the subscriber's free/busy
+  if (event.rsvp_status === "interested") lines.push("TRANSP:TRANSPARENT");
+
+  lines.push(`URL:${baseUrl}/events/${event.slug}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function buildSeriesLines(series: FeedSeries, baseUrl: string, stamp: string): string[] {
+  let location = "";
+  if (series.address) {
+    location = series.address;
+  } else if (series.location_name) {
+    location = `${series.location_name}, Đà Lạt, Vietnam`;
+  }
+
+  const description = [
+    series.description,
+    series.google_maps_url ? `Location: ${series.google_maps_url}` : null,
+    `Series page: ${baseUrl}/series/${series.slug}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:series-${series.id}@dalat.app`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${DALAT_TIMEZONE}:${formatICSDate(series.first_occurrence, series.starts_at_time)}`,
+    `DURATION:PT${series.duration_minutes}M`,
+    `RRULE:${buildSeriesRRule(series)}`,
+    `SUMMARY:${escapeICS(series.title)}`,
+    `DESCRIPTION:${escapeICS(description)}`,
+    `STATUS:${series.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+  ];
+
+  if (location) lines.push(`LOCATION:${escapeICS(location)}`);
+  lines.push(`URL:${baseUrl}/series/${series.slug}`);
+
+  const exDates = new Set([...(series.exdates ?? []), ...series.cancelled_dates]);
+  for (const date of [...exDates].sort()) {
+    lines.push(`EXDATE;TZID=${DALAT_TIMEZONE}:${formatICSDate(date, series.starts_at_time)}`);
+  }
+  for (const date of series.rdates ?? []) {
+    lines.push(`RDATE;TZID=${DALAT_TIMEZONE}:${formatICSDate(date, series.starts_at_time)}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Build the subscriber's full calendar: one VEVENT per RSVP'd event and one
+ * recurring VEVENT per subscribed series. Plain instances of a subscribed
+ * series are already covered by its RRULE and are skipped.
+ */
+export function buildCalendarFeed(input: CalendarFeedInput): string {
+  const { calendarName, baseUrl, events, series } = input;
+  const stamp = formatICSTimestamp(input.now ?? new Date());
+  const seriesTimes = new Map(series.map((s) => [s.id, s.starts_at_time]));
+
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//dalat.app//Personal Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:" + escapeICS(calendarName),
+    "X-WR-TIMEZONE:" + DALAT_TIMEZONE,
+    // Hint for clients that honour it (Apple, Outlook): poll hourly
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...buildTimezoneLines(),
+  ];
+
+  for (const s of series) {
+    lines.push(...buildSeriesLines(s, baseUrl, stamp));
+  }
+
+  for (const event of events) {
+    const coveredBySeries =
+      event.series_id && seriesTimes.has(event.series_id) && !event.is_exception;
+    if (coveredBySeries) continue;
+    lines.push(...buildEventLines(event, baseUrl, stamp, seriesTimes));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.join("\r\n");
+}
@@ -0,0 +1,81 @@
+/**
+ * iCalendar (RFC 5545) helpers shared by every .ics export
+ * (series download, personal calendar feed).
+ *
+ * All dalat.app times are anchored to Đà Lạt local time; floating
+ * local timestamps are always emitted with TZID=Asia/Ho_Chi_Minh.
+ */
+
+import { format, parseISO } from "date-fns";
+import type { EventSeries } from "@/lib/types";
+
+export const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
+
+/**
+ * Escape special characters for ICS format
+ */
+export function escapeICS(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Format date for ICS (YYYYMMDDTHHmmss)
+ */
+export function formatICSDate(dateStr: string, timeStr: string): string {
+  // timeStr is in format HH:MM:SS
+  const timeParts = timeStr.split(":");
+  const time = `${timeParts[0]}${timeParts[1]}${timeParts[2] || "00"}`;
+  const date = dateStr.replace(/-/g, "");
+  return `${date}T${time}`;
+}
+
+/**
+ * Format an absolute instant as a UTC ICS timestamp (YYYYMMDDTHHmmssZ)
+ */
+export function formatICSTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format UNTIL for RRULE (YYYYMMDDTHHmmssZ)
+ */
+export function formatRRuleUntil(dateStr: string): string {
+  const date = parseISO(dateStr);
+  return format(date, "yyyyMMdd'T'HHmmss'Z'");
+}
+
+/**
+ * Build the RRULE value for a series. UNTIL is stored in its own column,
+ * not in the rrule string, so it's appended here.
+ */
+export function buildSeriesRRule(
+  series: Pick<EventSeries, "rrule" | "rrule_until">
+): string {
+  let rrule = series.rrule;
+  if (series.rrule_until) {
+    rrule += `;UNTIL=${formatRRuleUntil(series.rrule_until)}`;
+  }
+  return rrule;
+}
+
+/**
+ * VTIMEZONE block for Đà Lạt (fixed +07:00, no DST)
+ */
+export function buildTimezoneLines(): string[] {
+  return [
+    "BEGIN:VTIMEZONE",
+    "TZID:" + DALAT_TIMEZONE,
+    "X-LIC-LOCATION:" + DALAT_TIMEZONE,
+    "BEGIN:STANDARD",
+    "TZOFFSETFROM:+0700",
+    "TZOFFSETTO:+0700",
+    "TZNAME:ICT",
+    "DTSTART:19700101T000000",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ];
+}
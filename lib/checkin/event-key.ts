@@ -0,0 +1,57 @@
+import { createHmac } from "crypto";
+import { createTicketCode, type TicketKind } from "./tickets";
+
+/**
+ * Per-event ticket signing keys.
+ *
+ * Keys are derived from a server secret rather than stored, so there's nothing
+ * to migrate or rotate per event. Only the event's managers ever see a key
+ * (the check-in page hands it to the scanner); attendees only get signed codes.
+ */
+
+function getSecret(): string | null {
+  return (
+    process.env.CHECKIN_SECRET ||
+    process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    null
+  );
+}
+
+export function getEventCheckinKey(eventId: string): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+  return createHmac("sha256", secret).update(`checkin:${eventId}`).digest("base64url");
+}
+
+export interface IssuedTicket {
+  kind: TicketKind;
+  id: string;
+  /** Attendee or guest name shown next to the code */
+  label: string;
+  code: string;
+}
+
+/**
+ * Sign the attendee's own ticket plus one per named plus-one guest.
+ * Returns an empty list when no signing secret is configured.
+ */
+export async function issueRsvpTickets(
+  eventId: string,
+  rsvp: { id: string; label: string },
+  guests: { id: string; name: string }[] = []
+): Promise<IssuedTicket[]> {
+  const key = getEventCheckinKey(eventId);
+  if (!key) return [];
+
+  const entries: Omit<IssuedTicket, "code">[] = [
+    { kind: "rsvp", id: rsvp.id, label: rsvp.label },
+    ...guests.map((g) => ({ kind: "guest" as const, id: g.id, label: g.name })),
+  ];
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      ...entry,
+      code: await createTicketCode(key, { kind: entry.kind, id: entry.id }),
+    }))
+  );
+}
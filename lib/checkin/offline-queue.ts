@@ -0,0 +1,87 @@
+import type { TicketKind } from "./tickets";
+
+/**
+ * IndexedDB queue of scanned check-ins waiting to reach the server.
+ *
+ * Every scan is written here first and then flushed, so a dropped connection
+ * mid-request loses nothing and a reload of the check-in page picks up where
+ * it left off. Entries are keyed by ticket, so scanning the same code twice
+ * while offline keeps a single (earliest) entry.
+ */
+
+export interface QueuedCheckin {
+  /** `${kind}:${id}` — one pending entry per ticket */
+  key: string;
+  eventId: string;
+  kind: TicketKind;
+  id: string;
+  /** When the door actually scanned it; the server keeps the earliest time */
+  scannedAt: string;
+}
+
+const DB_NAME = "dalat-checkin";
+const STORE = "queue";
+const DB_VERSION = 1;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: ["eventId", "key"] });
+      store.createIndex("eventId", "eventId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function isOfflineQueueSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export function queueKey(kind: TicketKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/** Add a scan unless the same ticket is already waiting (first scan wins). */
+export async function enqueueCheckin(entry: Omit<QueuedCheckin, "key">): Promise<void> {
+  const key = queueKey(entry.kind, entry.id);
+  await withStore("readwrite", (store) => {
+    const existing = store.get([entry.eventId, key]);
+    existing.onsuccess = () => {
+      if (!existing.result) store.put({ ...entry, key });
+    };
+  });
+}
+
+export async function getQueuedCheckins(eventId: string): Promise<QueuedCheckin[]> {
+  const rows = await withStore<QueuedCheckin[]>("readonly", (store) =>
+    store.index("eventId").getAll(eventId)
+  );
+  return (rows ?? []).sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+}
+
+export async function removeQueuedCheckins(eventId: string, keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  await withStore("readwrite", (store) => {
+    for (const key of keys) store.delete([eventId, key]);
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { createTicketCode, parseTicketCode, verifyTicketCode, getTicketQrUrl } from "./tickets";
+
+// Any base64url string works as a key; these stand in for derived event keys
+const KEY = "c2VjcmV0LWtleS1mb3ItZXZlbnQtb25lLTMyLWJ5dGVz";
+const OTHER_KEY = "c2VjcmV0LWtleS1mb3ItZXZlbnQtdHdvLTMyLWJ5dGVz";
+
+const RSVP_ID = "3f2b8c1e-6a0d-4d8e-9b7a-1c2d3e4f5a6b";
+const GUEST_ID = "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+
+describe("ticket codes", () => {
+  it("round-trips attendee and guest tickets", async () => {
+    const rsvp = await createTicketCode(KEY, { kind: "rsvp", id: RSVP_ID });
+    const guest = await createTicketCode(KEY, { kind: "guest", id: GUEST_ID });
+
+    expect(rsvp).toMatch(/^dlt1\.r\./);
+    expect(guest).toMatch(/^dlt1\.g\./);
+    expect(await verifyTicketCode(KEY, rsvp)).toEqual({ kind: "rsvp", id: RSVP_ID });
+    expect(await verifyTicketCode(KEY, guest)).toEqual({ kind: "guest", id: GUEST_ID });
+  });
+
+  it("rejects tickets signed for another event", async () => {
+    const code = await createTicketCode(OTHER_KEY, { kind: "rsvp", id: RSVP_ID });
+    expect(await verifyTicketCode(KEY, code)).toBeNull();
+  });
+
+  it("rejects a signature moved onto another ticket", async () => {
+    const code = await createTicketCode(KEY, { kind: "rsvp", id: RSVP_ID });
+    // Same id, but claiming to be a guest ticket
+    expect(await verifyTicketCode(KEY, code.replace("dlt1.r.", "dlt1.g."))).toBeNull();
+    // Same signature on someone else's RSVP
+    expect(await verifyTicketCode(KEY, code.replace(RSVP_ID, GUEST_ID))).toBeNull();
+  });
+
+  it("ignores codes that aren't tickets", () => {
+    expect(parseTicketCode("https://dalat.app/events/jazz")).toBeNull();
+    expect(parseTicketCode("dlt1.x.3f2b8c1e-6a0d-4d8e-9b7a-1c2d3e4f5a6b.abc")).toBeNull();
+    expect(parseTicketCode("dlt1.r.not-a-uuid.abc")).toBeNull();
+  });
+
+  it("builds an encoded QR image URL", async () => {
+    const code = await createTicketCode(KEY, { kind: "rsvp", id: RSVP_ID });
+    expect(getTicketQrUrl(code, "https://dalat.app")).toBe(
+      `https://dalat.app/api/checkin/qr?code=${encodeURIComponent(code)}`
+    );
+  });
+});
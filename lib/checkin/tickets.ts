@@ -0,0 +1,114 @@
+/**
+ * Signed check-in tickets.
+ *
+ * Every "going" RSVP — and every plus-one guest on it — gets a QR code that
+ * encodes a short, signed ticket:
+ *
+ *   dlt1.r.<rsvp id>.<signature>    the attendee themselves
+ *   dlt1.g.<guest id>.<signature>   a named plus-one guest
+ *
+ * The signature is an HMAC over the kind and id, keyed with a per-event key
+ * (see lib/checkin/event-key.ts). The host's check-in page receives that key,
+ * so a scanner can verify tickets with no network at all — the whole point on
+ * café Wi-Fi. A ticket from another event fails verification because its key
+ * differs.
+ *
+ * Uses WebCrypto only, so the same code runs in the browser, in route handlers
+ * and in tests.
+ */
+
+export type TicketKind = "rsvp" | "guest";
+
+export interface Ticket {
+  kind: TicketKind;
+  id: string;
+}
+
+const VERSION = "dlt1";
+
+const KIND_CODES: Record<TicketKind, string> = { rsvp: "r", guest: "g" };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// 16 bytes of HMAC is plenty against forgery and keeps the QR code small
+const SIGNATURE_BYTES = 16;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) return null;
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/") + "===".slice((value.length + 3) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function importKey(eventKey: string): Promise<CryptoKey> {
+  const raw = fromBase64Url(eventKey);
+  if (!raw) throw new Error("Invalid event key");
+  return crypto.subtle.importKey(
+    "raw",
+    raw as BufferSource,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+}
+
+async function signature(key: CryptoKey, ticket: Ticket): Promise<string> {
+  const data = new TextEncoder().encode(`${KIND_CODES[ticket.kind]}:${ticket.id.toLowerCase()}`);
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", key, data));
+  return toBase64Url(mac.slice(0, SIGNATURE_BYTES));
+}
+
+/** Constant-time string comparison (both sides are short base64url strings). */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * Split a scanned code into its parts without checking the signature.
+ * Returns null for anything that isn't a ticket (random QR codes, URLs…).
+ */
+export function parseTicketCode(code: string): (Ticket & { sig: string }) | null {
+  const parts = code.trim().split(".");
+  if (parts.length !== 4 || parts[0] !== VERSION) return null;
+
+  const [, kindCode, id, sig] = parts;
+  const kind = (Object.keys(KIND_CODES) as TicketKind[]).find((k) => KIND_CODES[k] === kindCode);
+  if (!kind || !UUID_PATTERN.test(id) || !sig) return null;
+
+  return { kind, id: id.toLowerCase(), sig };
+}
+
+export async function createTicketCode(eventKey: string, ticket: Ticket): Promise<string> {
+  const key = await importKey(eventKey);
+  const sig = await signature(key, ticket);
+  return `${VERSION}.${KIND_CODES[ticket.kind]}.${ticket.id.toLowerCase()}.${sig}`;
+}
+
+/**
+ * Verify a scanned code against this event's key.
+ * Returns the ticket when the signature matches, null otherwise.
+ */
+export async function verifyTicketCode(eventKey: string, code: string): Promise<Ticket | null> {
+  const parsed = parseTicketCode(code);
+  if (!parsed) return null;
+
+  const key = await importKey(eventKey);
+  const expected = await signature(key, parsed);
+  if (!safeEqual(parsed.sig, expected)) return null;
+
+  return { kind: parsed.kind, id: parsed.id };
+}
+
+/** URL of the rendered QR image, for emails and <img> tags. */
+export function getTicketQrUrl(code: string, baseUrl = ""): string {
+  return `${baseUrl}/api/checkin/qr?code=${encodeURIComponent(code)}`;
+}
@@ -37,7 +37,8 @@ export interface ToggleMuteResult {
 // ============================================
 
 /**
- * Get paginated top-level comments for a target (event or moment)
+ * Get paginated top-level comments for a target (event, moment or tribe).
+ * Pinned tribe posts come first.
  */
 export async function getComments(
   targetType: CommentTargetType,
@@ -353,12 +354,35 @@ export async function moderateComment(
   return data as { ok: boolean; is_hidden: boolean };
 }
 
+/**
+ * Pin or unpin a tribe post as an announcement (tribe leaders/admins)
+ */
+export async function pinComment(
+  commentId: string,
+  pinned: boolean
+): Promise<{ ok: boolean; is_pinned?: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .rpc('pin_comment', {
+      p_comment_id: commentId,
+      p_pinned: pinned,
+    });
+
+  if (error) {
+    console.error('[comments] Error pinning comment:', error.message);
+    return { ok: false, error: error.message };
+  }
+
+  return data as { ok: boolean; is_pinned: boolean };
+}
+
 // ============================================
 // Thread Muting
 // ============================================
 
 /**
- * Toggle mute on a thread
+ * Toggle mute on a thread. A tribe id mutes that tribe's new-post notifications.
  */
 export async function toggleMuteThread(
   threadId: string
@@ -530,6 +554,20 @@ export async function getContentOwner(
         slug: event.slug,
       };
     }
+  } else if (targetType === 'tribe') {
+    const { data: tribe } = await supabase
+      .from('tribes')
+      .select('created_by, name, slug')
+      .eq('id', targetId)
+      .single();
+
+    if (tribe) {
+      return {
+        ownerId: tribe.created_by,
+        title: tribe.name,
+        slug: tribe.slug,
+      };
+    }
   }
 
   return null;
@@ -0,0 +1,50 @@
+/**
+ * RSVP source attribution.
+ *
+ * Links into an event page from a tribe, search results or an audience blast
+ * carry ?src=<source>. The event page remembers it for the browser session
+ * and the RSVP button records it on the RSVP (set_rsvp_source, first touch
+ * wins). Invite-link RSVPs are tagged server-side. Untagged RSVPs are "direct".
+ */
+
+export const RSVP_SOURCES = ["invite", "tribe", "audience", "search"] as const;
+
+export type RsvpSource = (typeof RSVP_SOURCES)[number];
+
+export const RSVP_SOURCE_PARAM = "src";
+
+const STORAGE_PREFIX = "rsvp-source:";
+
+export function parseRsvpSource(value: unknown): RsvpSource | null {
+  return RSVP_SOURCES.includes(value as RsvpSource) ? (value as RsvpSource) : null;
+}
+
+/**
+ * Tag an event URL (absolute or path) with its source
+ */
+export function withRsvpSource(url: string, source: RsvpSource): string {
+  const [path, hash] = url.split("#");
+  const separator = path.includes("?") ? "&" : "?";
+  return `${path}${separator}${RSVP_SOURCE_PARAM}=${source}${hash !== undefined ? `#${hash}` : ""}`;
+}
+
+/**
+ * Remember the source for this event for the rest of the browser session.
+ * An earlier source for the same event is kept.
+ */
+export function rememberRsvpSource(eventId: string, source: RsvpSource): void {
+  try {
+    const key = STORAGE_PREFIX + eventId;
+    if (!sessionStorage.getItem(key)) sessionStorage.setItem(key, source);
+  } catch {
+    // Private mode / storage disabled — attribution is best-effort
+  }
+}
+
+export function recallRsvpSource(eventId: string): RsvpSource | null {
+  try {
+    return parseRsvpSource(sessionStorage.getItem(STORAGE_PREFIX + eventId));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,69 @@
+import { buildTimezoneLines, DALAT_TIMEZONE, escapeICS, formatICSTimestamp } from "@/lib/calendar/ics";
+import type { ScheduleSession } from "./schedule";
+
+/** How long before a starred session its reminder goes out */
+export const AGENDA_REMINDER_MINUTES = 30;
+
+export interface AgendaCalendarInput {
+  festival: { slug: string; title: string };
+  sessions: ScheduleSession[];
+  baseUrl: string;
+  now?: Date;
+}
+
+/**
+ * A visitor's starred sessions as a one-off .ics download. UIDs match the
+ * personal calendar feed's event UIDs, so importing both doesn't duplicate
+ * a session the visitor also RSVP'd to.
+ */
+export function buildAgendaCalendar(input: AgendaCalendarInput): string {
+  const { festival, sessions, baseUrl } = input;
+  const stamp = formatICSTimestamp(input.now ?? new Date());
+  const festivalUrl = `${baseUrl}/festivals/${festival.slug}`;
+
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//dalat.app//Festival Agenda//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:" + escapeICS(festival.title),
+    "X-WR-TIMEZONE:" + DALAT_TIMEZONE,
+    ...buildTimezoneLines(),
+  ];
+
+  for (const session of sessions) {
+    const description = [
+      festival.title,
+      `Event page: ${baseUrl}/events/${session.slug}`,
+      festivalUrl,
+    ].join("\n\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${session.eventId}@dalat.app`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICSTimestamp(new Date(session.startsAt))}`,
+      `DTEND:${formatICSTimestamp(new Date(session.endsAt))}`,
+      `SUMMARY:${escapeICS(session.title)}`,
+      `DESCRIPTION:${escapeICS(description)}`,
+      `STATUS:${session.isCancelled ? "CANCELLED" : "CONFIRMED"}`
+    );
+    if (session.stage) lines.push(`LOCATION:${escapeICS(session.stage)}`);
+    lines.push(`URL:${baseUrl}/events/${session.slug}`);
+
+    if (!session.isCancelled) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeICS(session.title)}`,
+        `TRIGGER:-PT${AGENDA_REMINDER_MINUTES}M`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.join("\r\n");
+}
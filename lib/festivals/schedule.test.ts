@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildScheduleDays,
+  findOverlaps,
+  findStageConflicts,
+  sessionSpan,
+  toScheduleSessions,
+  type FestivalScheduleLink,
+  type ScheduleSession,
+} from "./schedule";
+import { buildAgendaCalendar } from "./agenda";
+
+const link = (o: Partial<FestivalScheduleLink> & { id: string; starts_at: string; ends_at?: string | null }): FestivalScheduleLink => ({
+  event_id: o.id,
+  event_type: o.event_type ?? "official_program",
+  is_highlighted: false,
+  stage: o.stage ?? null,
+  events: {
+    id: o.id,
+    slug: o.id,
+    title: o.id.toUpperCase(),
+    starts_at: o.starts_at,
+    ends_at: o.ends_at === undefined ? null : o.ends_at,
+    location_name: "Lâm Viên Square",
+    status: "published",
+    ...o.events,
+  },
+});
+
+// Đà Lạt is UTC+7: 02:00Z is 09:00 local
+const sessions = (): ScheduleSession[] =>
+  toScheduleSessions([
+    link({ id: "parade", starts_at: "2026-12-20T02:00:00Z", ends_at: "2026-12-20T04:00:00Z", stage: "Main stage" }),
+    link({ id: "concert", starts_at: "2026-12-20T03:00:00Z", stage: "Main stage" }),
+    link({ id: "market", starts_at: "2026-12-20T03:30:00Z", event_type: "community_side_event" }),
+    link({ id: "tba", starts_at: "2026-12-21T02:00:00Z", event_type: "announcement_only" }),
+    link({ id: "night", starts_at: "2026-12-21T14:00:00Z", ends_at: "2026-12-21T18:00:00Z", stage: "Main stage" }),
+  ]);
+
+describe("toScheduleSessions", () => {
+  it("drops untimed announcements, defaults the end and falls back to the location", () => {
+    const result = sessions();
+    expect(result.map((s) => s.eventId)).toEqual(["parade", "concert", "market", "night"]);
+    expect(result[1].endsAt).toBe("2026-12-20T05:00:00.000Z");
+    expect(result[2].stage).toBe("Lâm Viên Square");
+  });
+});
+
+describe("buildScheduleDays", () => {
+  it("groups by local day and stage with an hour-rounded window", () => {
+    const days = buildScheduleDays(sessions());
+    expect(days.map((d) => d.date)).toEqual(["2026-12-20", "2026-12-21"]);
+    expect(days[0].stages.map((s) => s.name)).toEqual(["Lâm Viên Square", "Main stage"]);
+    expect(days[0].startMinute).toBe(9 * 60);
+    expect(days[0].endMinute).toBe(13 * 60);
+  });
+
+  it("cuts sessions that run past midnight at the end of their day", () => {
+    const night = sessions().find((s) => s.eventId === "night")!;
+    expect(sessionSpan(night)).toEqual({ start: 21 * 60, end: 24 * 60 });
+    expect(buildScheduleDays([night])[0].endMinute).toBe(24 * 60);
+  });
+});
+
+describe("conflicts", () => {
+  it("finds every overlapping pair for an agenda", () => {
+    const overlaps = findOverlaps(sessions());
+    expect(overlaps.get("concert")).toEqual(["parade", "market"]);
+    expect(overlaps.has("night")).toBe(false);
+  });
+
+  it("only flags official items sharing a stage", () => {
+    const conflicts = findStageConflicts(sessions());
+    expect(conflicts.get("parade")).toEqual(["concert"]);
+    expect(conflicts.has("market")).toBe(false);
+  });
+
+  it("ignores cancelled sessions", () => {
+    const result = sessions().map((s) => (s.eventId === "concert" ? { ...s, isCancelled: true } : s));
+    expect(findStageConflicts(result).size).toBe(0);
+  });
+});
+
+describe("buildAgendaCalendar", () => {
+  it("exports starred sessions with a reminder alarm", () => {
+    const ics = buildAgendaCalendar({
+      festival: { slug: "flower-festival", title: "Flower Festival, 2026" },
+      sessions: sessions().slice(0, 1),
+      baseUrl: "https://dalat.app",
+      now: new Date("2026-12-01T00:00:00Z"),
+    });
+    expect(ics).toContain("X-WR-CALNAME:Flower Festival\\, 2026");
+    expect(ics).toContain("UID:parade@dalat.app");
+    expect(ics).toContain("DTSTART:20261220T020000Z");
+    expect(ics).toContain("LOCATION:Main stage");
+    expect(ics).toContain("TRIGGER:-PT30M");
+    expect(ics.split("\r\n").at(-1)).toBe("END:VCALENDAR");
+  });
+});
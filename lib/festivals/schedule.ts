@@ -0,0 +1,190 @@
+import { formatInTimeZone } from "date-fns-tz";
+import type { Event, FestivalEvent, FestivalEventType } from "@/lib/types";
+
+const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
+
+/** Program items without an end time are shown (and checked) as two hours */
+export const DEFAULT_SESSION_MINUTES = 120;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Festival schedule layout.
+ *
+ * A session is a festival_events link with a confirmed time. The grid shows
+ * one column per stage (festival_events.stage, else the event's location)
+ * for each festival day in Đà Lạt time. "Announcement only" links have no
+ * time yet and stay out of the grid.
+ */
+
+export type FestivalScheduleLink = Pick<
+  FestivalEvent,
+  "event_id" | "event_type" | "is_highlighted" | "stage"
+> & {
+  events: Pick<Event, "id" | "slug" | "title" | "starts_at" | "ends_at" | "location_name" | "status">;
+};
+
+export interface ScheduleSession {
+  eventId: string;
+  slug: string;
+  title: string;
+  startsAt: string;
+  /** Always set — DEFAULT_SESSION_MINUTES after the start when the event has no end */
+  endsAt: string;
+  /** null when neither a stage nor a location is known */
+  stage: string | null;
+  kind: Exclude<FestivalEventType, "announcement_only">;
+  isHighlighted: boolean;
+  isCancelled: boolean;
+}
+
+export interface ScheduleStage {
+  name: string | null;
+  sessions: ScheduleSession[];
+}
+
+export interface ScheduleDay {
+  /** YYYY-MM-DD in Đà Lạt time */
+  date: string;
+  stages: ScheduleStage[];
+  /** Grid window in minutes from local midnight, rounded out to whole hours */
+  startMinute: number;
+  endMinute: number;
+}
+
+export function toScheduleSessions(links: FestivalScheduleLink[]): ScheduleSession[] {
+  const sessions: ScheduleSession[] = [];
+  for (const link of links) {
+    if (link.event_type === "announcement_only") continue;
+    const event = link.events;
+    const start = new Date(event.starts_at);
+    const end = event.ends_at
+      ? new Date(event.ends_at)
+      : new Date(start.getTime() + DEFAULT_SESSION_MINUTES * 60_000);
+
+    sessions.push({
+      eventId: event.id,
+      slug: event.slug,
+      title: event.title,
+      startsAt: start.toISOString(),
+      endsAt: (end > start ? end : start).toISOString(),
+      stage: link.stage?.trim() || event.location_name?.trim() || null,
+      kind: link.event_type,
+      isHighlighted: link.is_highlighted,
+      isCancelled: event.status === "cancelled",
+    });
+  }
+  return sessions.sort(
+    (a, b) => a.startsAt.localeCompare(b.startsAt) || (a.stage ?? "").localeCompare(b.stage ?? "")
+  );
+}
+
+/** Local calendar day (YYYY-MM-DD) a session belongs to */
+export function sessionDay(session: Pick<ScheduleSession, "startsAt">): string {
+  return formatInTimeZone(new Date(session.startsAt), DALAT_TIMEZONE, "yyyy-MM-dd");
+}
+
+/** Minutes from local midnight of the session's own day */
+export function minutesIntoDay(iso: string): number {
+  const [hours, minutes] = formatInTimeZone(new Date(iso), DALAT_TIMEZONE, "H:m").split(":");
+  return Number(hours) * 60 + Number(minutes);
+}
+
+/**
+ * Where a session sits in its day's column. Sessions running past midnight
+ * are cut off at the bottom of the day they start on.
+ */
+export function sessionSpan(session: Pick<ScheduleSession, "startsAt" | "endsAt">): {
+  start: number;
+  end: number;
+} {
+  const start = minutesIntoDay(session.startsAt);
+  const durationMinutes =
+    (new Date(session.endsAt).getTime() - new Date(session.startsAt).getTime()) / 60_000;
+  return { start, end: Math.min(start + durationMinutes, MINUTES_PER_DAY) };
+}
+
+/**
+ * Group sessions into days, and each day into stage columns. Named stages
+ * are sorted alphabetically with the unnamed column last.
+ */
+export function buildScheduleDays(sessions: ScheduleSession[]): ScheduleDay[] {
+  const byDay = new Map<string, ScheduleSession[]>();
+  for (const session of sessions) {
+    const day = sessionDay(session);
+    byDay.set(day, [...(byDay.get(day) ?? []), session]);
+  }
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, daySessions]) => {
+      const byStage = new Map<string | null, ScheduleSession[]>();
+      let startMinute = MINUTES_PER_DAY;
+      let endMinute = 0;
+      for (const session of daySessions) {
+        byStage.set(session.stage, [...(byStage.get(session.stage) ?? []), session]);
+        const span = sessionSpan(session);
+        startMinute = Math.min(startMinute, span.start);
+        endMinute = Math.max(endMinute, span.end);
+      }
+
+      const stages = [...byStage.entries()]
+        .sort(([a], [b]) => {
+          if (a === null) return 1;
+          if (b === null) return -1;
+          return a.localeCompare(b);
+        })
+        .map(([name, stageSessions]) => ({ name, sessions: stageSessions }));
+
+      return {
+        date,
+        stages,
+        startMinute: Math.floor(startMinute / 60) * 60,
+        endMinute: Math.min(Math.ceil(endMinute / 60) * 60, MINUTES_PER_DAY),
+      };
+    });
+}
+
+function overlaps(a: ScheduleSession, b: ScheduleSession): boolean {
+  return a.startsAt < b.endsAt && b.startsAt < a.endsAt;
+}
+
+/**
+ * Every pair of sessions whose times overlap, keyed both ways. Cancelled
+ * sessions never conflict. Used for a visitor's starred agenda.
+ */
+export function findOverlaps(sessions: ScheduleSession[]): Map<string, string[]> {
+  const active = sessions.filter((s) => !s.isCancelled);
+  const conflicts = new Map<string, string[]>();
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length; j++) {
+      if (!overlaps(active[i], active[j])) continue;
+      const a = active[i].eventId;
+      const b = active[j].eventId;
+      conflicts.set(a, [...(conflicts.get(a) ?? []), b]);
+      conflicts.set(b, [...(conflicts.get(b) ?? []), a]);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Official program items double-booked on the same stage — what an
+ * organizer needs to fix. Side events and unnamed stages are left out:
+ * they aren't the festival's to schedule.
+ */
+export function findStageConflicts(sessions: ScheduleSession[]): Map<string, string[]> {
+  const byStage = new Map<string, ScheduleSession[]>();
+  for (const session of sessions) {
+    if (session.kind !== "official_program" || session.stage === null) continue;
+    byStage.set(session.stage, [...(byStage.get(session.stage) ?? []), session]);
+  }
+
+  const conflicts = new Map<string, string[]>();
+  for (const stageSessions of byStage.values()) {
+    for (const [eventId, others] of findOverlaps(stageSessions)) {
+      conflicts.set(eventId, others);
+    }
+  }
+  return conflicts;
+}
@@ -18,6 +18,11 @@ import {
   computeFileHash,
   checkDuplicateHashes,
 } from "@/lib/file-hash";
+import {
+  computePerceptualHash,
+  checkNearDuplicates,
+  type NearDuplicateMatch,
+} from "@/lib/perceptual-hash";
 import { uploadFile as uploadToStorage } from "@/lib/storage/client";
 import type {
   BulkUploadState,
@@ -43,9 +48,14 @@ function calculateStats(files: Map<string, FileUploadState>): BulkUploadStats {
     complete: 0,
     skipped: 0,
     failed: 0,
+    nearDuplicates: 0,
   };
 
   for (const file of files.values()) {
+    if (file.nearDuplicate && file.status === "queued") {
+      stats.nearDuplicates++;
+    }
+
     switch (file.status) {
       case "queued":
         stats.queued++;
@@ -156,6 +166,8 @@ function bulkUploadReducer(
           caption: null,
           batchId: state.batchId,
           fileHash: null,
+          perceptualHash: null,
+          nearDuplicate: null,
         });
       }
       return {
@@ -348,6 +360,20 @@ function bulkUploadReducer(
       };
     }
 
+    case "SKIP_NEAR_DUPLICATES": {
+      const files = new Map(state.files);
+      for (const [id, file] of files) {
+        if (file.nearDuplicate && file.status === "queued") {
+          files.set(id, { ...file, status: "skipped" });
+        }
+      }
+      return {
+        ...state,
+        files,
+        stats: calculateStats(files),
+      };
+    }
+
     case "RESET": {
       return {
         ...state,
@@ -365,6 +391,7 @@ function bulkUploadReducer(
           complete: 0,
           skipped: 0,
           failed: 0,
+          nearDuplicates: 0,
         },
       };
     }
@@ -393,6 +420,7 @@ export function useBulkUpload(eventId: string, userId: string, godModeUserId?: s
       complete: 0,
       skipped: 0,
       failed: 0,
+      nearDuplicates: 0,
     },
   });
 
@@ -446,6 +474,10 @@ export function useBulkUpload(eventId: string, userId: string, godModeUserId?: s
     fileHash: string | null,
     capturedAt: string | null
   ) => {
+    // Perceptual hashing runs in the background after files are added and may
+    // finish after this upload was picked from the queue
+    const perceptualHash = filesRef.current.get(id)?.perceptualHash ?? null;
+
     dispatch({ type: "UPDATE_FILE", id, updates: { status: "saving" } });
 
     try {
@@ -458,6 +490,7 @@ export function useBulkUpload(eventId: string, userId: string, godModeUserId?: s
         p_taken_at: capturedAt,
         p_cf_video_uid: cfVideoUid,
         p_file_hash: fileHash,
+        p_perceptual_hash: perceptualHash,
       });
 
       if (error) throw error;
@@ -811,6 +844,36 @@ export function useBulkUpload(eventId: string, userId: string, godModeUserId?: s
 
   // No blob URL cleanup needed — previews use data URLs (embedded strings)
 
+  const flagNearDuplicates = async (files: File[]) => {
+    // Sequential: decoding hundreds of full-size photos at once exhausts memory
+    const hashed: { file: File; hash: string }[] = [];
+    for (const file of files) {
+      const hash = await computePerceptualHash(file);
+      if (hash) hashed.push({ file, hash });
+    }
+    if (hashed.length === 0) return;
+
+    let matches = new Map<string, NearDuplicateMatch>();
+    try {
+      matches = await checkNearDuplicates(eventId, hashed.map((h) => h.hash));
+    } catch (err) {
+      console.error("[BulkUpload] Near-duplicate check failed, proceeding anyway:", err);
+    }
+
+    for (const { file, hash } of hashed) {
+      const entry = Array.from(filesRef.current.entries()).find(
+        ([, f]) => f.file === file
+      );
+      if (entry) {
+        dispatch({
+          type: "UPDATE_FILE",
+          id: entry[0],
+          updates: { perceptualHash: hash, nearDuplicate: matches.get(hash) ?? null },
+        });
+      }
+    }
+  };
+
   return {
     state,
     addFiles: (files: File[]) => {
@@ -850,9 +913,14 @@ export function useBulkUpload(eventId: string, userId: string, godModeUserId?: s
             }
           });
         }
+
+        // Flag photos that look like one already in the album (re-exported,
+        // resized by a messenger app) so the user can drop them before upload
+        flagNearDuplicates(validFiles);
       }
     },
     removeFile: (id: string) => dispatch({ type: "REMOVE_FILE", id }),
+    skipNearDuplicates: () => dispatch({ type: "SKIP_NEAR_DUPLICATES" }),
     startUpload: async () => {
       isPausedRef.current = false;
 
@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { StreamChatBlockedWords, StreamChatState } from '@/lib/types';
+
+export type ChatModerationAction =
+  | { action: 'timeout'; userId: string; durationSeconds: number }
+  | { action: 'ban' | 'unban' | 'add_moderator' | 'remove_moderator'; userId: string }
+  | { action: 'pin'; messageId: string }
+  | { action: 'unpin' };
+
+export interface ChatSettingsInput {
+  slowModeSeconds: number;
+  followersOnly: boolean;
+  blockedWords: StreamChatBlockedWords;
+}
+
+interface UseChatModerationReturn {
+  state: StreamChatState | null;
+  refresh: () => Promise<void>;
+  /** Resolves to an error code, or null on success */
+  moderate: (action: ChatModerationAction) => Promise<string | null>;
+  updateSettings: (settings: ChatSettingsInput) => Promise<string | null>;
+}
+
+async function fetchChatState(eventId: string): Promise<StreamChatState | null> {
+  const res = await fetch(`/api/streaming/chat/moderation?eventId=${eventId}`);
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data.state ?? null;
+}
+
+/**
+ * Chat rules and moderator tools for an event's live chat, via
+ * /api/streaming/chat/moderation. Everything is enforced by the RPCs behind
+ * it; this only keeps the UI in step.
+ */
+export function useChatModeration(eventId: string, enabled = true): UseChatModerationReturn {
+  const [state, setState] = useState<StreamChatState | null>(null);
+
+  const refresh = useCallback(async () => {
+    const next = await fetchChatState(eventId);
+    if (next) setState(next);
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    fetchChatState(eventId).then((next) => {
+      if (!cancelled && next) setState(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, eventId]);
+
+  const moderate = useCallback(
+    async (action: ChatModerationAction): Promise<string | null> => {
+      const res = await fetch('/api/streaming/chat/moderation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId, ...action }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        return data.error || 'unknown';
+      }
+      await refresh();
+      return null;
+    },
+    [eventId, refresh]
+  );
+
+  const updateSettings = useCallback(
+    async (settings: ChatSettingsInput): Promise<string | null> => {
+      const res = await fetch('/api/streaming/chat/moderation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId, ...settings }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        return data.error || 'unknown';
+      }
+      await refresh();
+      return null;
+    },
+    [eventId, refresh]
+  );
+
+  return { state, refresh, moderate, updateSettings };
+}
@@ -2,7 +2,8 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { createClient } from '@/lib/supabase/client';
-import type { StreamChatMessageWithUser } from '@/lib/types';
+import { parseChatError, type ChatError } from '@/lib/streaming/moderation';
+import type { StreamChatAuditMetadata, StreamChatMessageWithUser } from '@/lib/types';
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 
 interface UseChatSubscriptionOptions {
@@ -15,6 +16,8 @@ interface UseChatSubscriptionReturn {
   messages: StreamChatMessageWithUser[];
   isConnected: boolean;
   error: string | null;
+  /** Why the last send was refused (slow mode, ban...), for a localised hint */
+  sendError: ChatError | null;
   sendMessage: (content: string) => Promise<boolean>;
   deleteMessage: (messageId: string) => Promise<boolean>;
 }
@@ -33,6 +36,7 @@ export function useChatSubscription({
   const [messages, setMessages] = useState<StreamChatMessageWithUser[]>(initialMessages);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sendError, setSendError] = useState<ChatError | null>(null);
 
   const channelRef = useRef<RealtimeChannel | null>(null);
   const supabaseRef = useRef(createClient());
@@ -42,12 +46,12 @@ export function useChatSubscription({
     async (userId: string): Promise<{ name: string | null; avatar: string | null }> => {
       const { data } = await supabaseRef.current
         .from('profiles')
-        .select('full_name, avatar_url')
+        .select('display_name, avatar_url')
         .eq('id', userId)
         .single();
 
       return {
-        name: data?.full_name ?? null,
+        name: data?.display_name ?? null,
         avatar: data?.avatar_url ?? null,
       };
     },
@@ -76,6 +80,7 @@ export function useChatSubscription({
             user_id: string;
             content: string;
             message_type: 'text' | 'system' | 'highlight';
+            metadata: StreamChatAuditMetadata | null;
             created_at: string;
           }>) => {
           const newMessage = payload.new as {
@@ -83,6 +88,7 @@ export function useChatSubscription({
             user_id: string;
             content: string;
             message_type: 'text' | 'system' | 'highlight';
+            metadata: StreamChatAuditMetadata | null;
             created_at: string;
           };
 
@@ -96,6 +102,7 @@ export function useChatSubscription({
             user_avatar: profile.avatar,
             content: newMessage.content,
             message_type: newMessage.message_type,
+            metadata: newMessage.metadata,
             created_at: newMessage.created_at,
           };
 
@@ -110,14 +117,27 @@ export function useChatSubscription({
           table: 'stream_chat_messages',
           filter: `event_id=eq.${eventId}`,
         },
-        (payload: RealtimePostgresChangesPayload<{ id: string; is_deleted: boolean }>) => {
-          const updated = payload.new as { id: string; is_deleted: boolean };
+        (payload: RealtimePostgresChangesPayload<{
+            id: string;
+            is_deleted: boolean;
+            message_type: 'text' | 'system' | 'highlight';
+          }>) => {
+          const updated = payload.new as {
+            id: string;
+            is_deleted: boolean;
+            message_type: 'text' | 'system' | 'highlight';
+          };
 
           if (updated.is_deleted) {
             // Remove deleted message from list
             setMessages((prev) =>
               prev.filter((msg) => msg.id !== updated.id)
             );
+          } else {
+            // Pinning turns a message into a highlight
+            setMessages((prev) =>
+              prev.map((msg) => (msg.id === updated.id ? { ...msg, message_type: updated.message_type } : msg))
+            );
           }
         }
       )
@@ -149,7 +169,7 @@ export function useChatSubscription({
 
       const supabase = supabaseRef.current;
 
-      const { error: sendError } = await supabase.rpc(
+      const { error: rpcError } = await supabase.rpc(
         'send_stream_chat_message',
         {
           p_event_id: eventId,
@@ -157,12 +177,19 @@ export function useChatSubscription({
         }
       );
 
-      if (sendError) {
-        console.error('Failed to send message:', sendError);
-        setError('Failed to send message');
+      if (rpcError) {
+        const chatError = parseChatError(rpcError.message);
+        if (chatError.code === 'unknown') {
+          console.error('Failed to send message:', rpcError);
+          setError('Failed to send message');
+          setSendError(null);
+        } else {
+          setSendError(chatError);
+        }
         return false;
       }
 
+      setSendError(null);
       return true;
     },
     [eventId]
@@ -195,6 +222,7 @@ export function useChatSubscription({
     messages,
     isConnected,
     error,
+    sendError,
     sendMessage,
     deleteMessage,
   };
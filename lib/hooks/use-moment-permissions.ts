@@ -9,6 +9,8 @@ interface MomentPermissions {
   isOwner: boolean;
   canModerate: boolean;
   isEventCreator: boolean;
+  /** Holds moderate_moments in the tribe hosting the event */
+  isTribeModerator: boolean;
   isLoading: boolean;
 }
 
@@ -16,7 +18,8 @@ interface MomentPermissions {
  * Client-side hook to check if the current user can delete/moderate a moment.
  * Fetches auth + profile role once and derives permissions.
  * Pass eventSlug to also check whether the current user created the event
- * (event creators can set the album cover).
+ * (event creators can set the album cover) and, for tribe events, whether the
+ * tribe lets them remove moments.
  */
 export function useMomentPermissions(
   momentUserId: string,
@@ -25,6 +28,7 @@ export function useMomentPermissions(
   const [currentUserId, setCurrentUserId] = useState<string | undefined>();
   const [userRole, setUserRole] = useState<UserRole>("user");
   const [eventCreatorId, setEventCreatorId] = useState<string | undefined>();
+  const [isTribeModerator, setIsTribeModerator] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -45,11 +49,17 @@ export function useMomentPermissions(
       const [{ data: profile }, eventResult] = await Promise.all([
         supabase.from("profiles").select("role").eq("id", user.id).single(),
         eventSlug
-          ? supabase.from("events").select("created_by").eq("slug", eventSlug).single()
+          ? supabase.from("events").select("created_by, tribe_id").eq("slug", eventSlug).single()
           : Promise.resolve({ data: null }),
       ]);
 
+      const tribeId = eventResult.data?.tribe_id;
+      const { data: tribeModerator } = tribeId
+        ? await supabase.rpc("has_tribe_permission", { p_tribe_id: tribeId, p_permission: "moderate_moments" })
+        : { data: false };
+
       if (!cancelled) {
+        setIsTribeModerator(!!tribeModerator);
         if (profile?.role) {
           setUserRole(profile.role as UserRole);
         }
@@ -68,5 +78,5 @@ export function useMomentPermissions(
   const canModerate = !!currentUserId && hasRoleLevel(userRole, "moderator");
   const isEventCreator = !!currentUserId && currentUserId === eventCreatorId;
 
-  return { currentUserId, isOwner, canModerate, isEventCreator, isLoading };
+  return { currentUserId, isOwner, canModerate, isEventCreator, isTribeModerator, isLoading };
 }
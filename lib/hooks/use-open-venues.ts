@@ -0,0 +1,46 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+/**
+ * "now", or a Đà Lạt wall-clock time from a datetime-local input
+ * ("2026-11-20T19:30"). Null means no opening-hours filter.
+ */
+export type OpenAtFilter = "now" | string | null;
+
+export const openVenuesKeys = {
+  all: ["openVenues"] as const,
+  at: (openAt: string) => [...openVenuesKeys.all, openAt] as const,
+};
+
+/**
+ * IDs of venues open at the filter time, evaluated server-side by
+ * /api/venues/open. Returns null while no filter is set.
+ *
+ * @example
+ * const { data: openIds } = useOpenVenueIds(searchParams.get("open"));
+ * const visible = openIds ? venues.filter((v) => openIds.has(v.id)) : venues;
+ */
+export function useOpenVenueIds(openAt: OpenAtFilter) {
+  return useQuery({
+    queryKey: openVenuesKeys.at(openAt ?? ""),
+    queryFn: async (): Promise<Set<string>> => {
+      const query = openAt && openAt !== "now" ? `?at=${encodeURIComponent(openAt)}` : "";
+      const response = await fetch(`/api/venues/open${query}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch open venues: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return new Set<string>(data.venueIds ?? []);
+    },
+    // "Open now" should follow the clock; a fixed time can be cached longer
+    staleTime: openAt === "now" ? 60_000 : 5 * 60_000,
+    refetchInterval: openAt === "now" ? 60_000 : false,
+    refetchOnWindowFocus: false,
+    // Keep the previous list on screen while a new time loads
+    placeholderData: (previous) => previous,
+    enabled: !!openAt,
+  });
+}
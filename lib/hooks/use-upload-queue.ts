@@ -18,6 +18,7 @@ import {
 import { convertIfNeeded, convertHeicOnR2 } from "@/lib/media-conversion";
 import { needsImageCompression, compressImage } from "@/lib/image-compression";
 import { extractCaptureTime, primeBatchCaptureTimes } from "@/lib/exif-capture-time";
+import { computePerceptualHash } from "@/lib/perceptual-hash";
 import type { CompressionProgress } from "@/lib/video-compression";
 import { uploadFile as uploadToStorage } from "@/lib/storage/client";
 import { triggerHaptic } from "@/lib/haptics";
@@ -165,7 +166,8 @@ export function useUploadQueue({
     thumbnailUrl: string | null,
     cfVideoUid: string | null,
     isVideo: boolean,
-    capturedAt: string | null
+    capturedAt: string | null,
+    perceptualHash: string | null = null
   ): Promise<string | null> => {
     if (!mountedRef.current) return null;
 
@@ -180,6 +182,7 @@ export function useUploadQueue({
         p_text_content: null,
         p_taken_at: capturedAt,
         p_cf_video_uid: cfVideoUid,
+        p_perceptual_hash: perceptualHash,
       });
 
       if (error) throw error;
@@ -381,6 +384,10 @@ export function useUploadQueue({
 
         console.log(`[UploadQueue] Uploading ${file.name} (${fileToUpload.size} bytes) as ${fileName}`);
 
+        // Near-duplicate fingerprint; null when the browser can't decode the
+        // file (HEIC awaiting server conversion)
+        const perceptualHash = await computePerceptualHash(fileToUpload);
+
         let publicUrl: string;
 
         // Upload to R2 via presigned URL (works for all formats including HEIC)
@@ -414,7 +421,7 @@ export function useUploadQueue({
           });
 
           // Immediately save as draft to database
-          await saveAsDraft(id, publicUrl, null, null, false, capturedAt);
+          await saveAsDraft(id, publicUrl, null, null, false, capturedAt, perceptualHash);
 
           triggerHaptic("light");
 
@@ -30,6 +30,7 @@ export const CLIENT_NAMESPACES = [
   "activity",
   "archive",
   "attendees",
+  "audienceSegments",
   "auth",
   "calendar",
   "calendarView",
@@ -61,6 +62,7 @@ export const CLIENT_NAMESPACES = [
   "notifications",
   "onboarding",
   "organizer",
+  "organizerAnalytics",
   "playlist",
   "plusOnes",
   "pokerTable",
@@ -75,9 +77,12 @@ export const CLIENT_NAMESPACES = [
   "responseDashboard",
   "rsvp",
   "rsvpCelebration",
+  "search",
   "series",
   "settings",
   "streaming",
+  "surveyReport",
+  "tickets",
   "translations",
   "tribes",
   "userMenu",
@@ -70,6 +70,11 @@ export const ROUTE_MESSAGE_ISLANDS: RouteIsland[] = [
     test: (p) => inSection(p, "venues"),
     namespaces: ["venues", "mapPage", "categories"],
   },
+  {
+    // Faceted search page (search-explorer, search-filter-bar)
+    test: (p) => p === "/search",
+    namespaces: ["search", "eventTags", "venues"],
+  },
   {
     test: (p) => inSection(p, "loyalty"),
     namespaces: ["loyalty"],
@@ -104,6 +109,10 @@ export const ROUTE_MESSAGE_ISLANDS: RouteIsland[] = [
     test: (p) => /^\/events\/[^/]+\/table$/.test(p),
     namespaces: ["pokerTable"],
   },
+  {
+    test: (p) => /^\/events\/[^/]+\/orders$/.test(p),
+    namespaces: ["tickets"],
+  },
   {
     // Single event detail (not list/new/edit)
     test: (p) =>
@@ -116,6 +125,7 @@ export const ROUTE_MESSAGE_ISLANDS: RouteIsland[] = [
       "rsvpCelebration",
       "comments",
       "checkin",
+      "tickets",
       "plusOnes",
       "attendees",
       "calendar",
@@ -172,6 +182,8 @@ export const ROUTE_MESSAGE_ISLANDS: RouteIsland[] = [
     test: (p) => inSection(p, "organizer", "admin"),
     namespaces: [
       "organizer",
+      "audienceSegments",
+      "eventTags",
       "eventForm",
       "eventSettings",
       "responseDashboard",
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  eventRichness,
+  isProbableDuplicate,
+  normalizeTitle,
+  pickRichestFields,
+  scoreDuplicate,
+  titleSimilarity,
+  type DuplicateComparable,
+  type MergeableEvent,
+} from "./duplicates";
+
+function comparable(overrides: Partial<DuplicateComparable>): DuplicateComparable {
+  return {
+    id: "a",
+    title: "Đêm nhạc Acoustic tại Cheo Leo",
+    starts_at: "2026-11-14T12:00:00Z",
+    latitude: null,
+    longitude: null,
+    venue_id: null,
+    location_name: null,
+    organizer_id: null,
+    ...overrides,
+  };
+}
+
+function mergeable(overrides: Partial<MergeableEvent>): MergeableEvent {
+  return {
+    description: null,
+    image_url: null,
+    ends_at: null,
+    location_name: null,
+    address: null,
+    google_maps_url: null,
+    latitude: null,
+    longitude: null,
+    venue_id: null,
+    organizer_id: null,
+    external_chat_url: null,
+    ...overrides,
+  };
+}
+
+describe("normalizeTitle", () => {
+  it("strips diacritics and folds đ", () => {
+    expect(normalizeTitle("Đêm nhạc Đà Lạt!")).toBe("dem nhac da lat");
+  });
+});
+
+describe("titleSimilarity", () => {
+  it("treats accent and case differences as identical", () => {
+    expect(titleSimilarity("Đêm Nhạc Acoustic", "dem nhac acoustic")).toBe(1);
+  });
+
+  it("scores a contained title as a near match", () => {
+    expect(titleSimilarity("Jazz Night Live", "Jazz Night Live at Cheo Leo Café")).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("scores unrelated titles low", () => {
+    expect(titleSimilarity("Yoga buổi sáng", "Đêm nhạc Trịnh Công Sơn")).toBeLessThan(0.3);
+  });
+});
+
+describe("scoreDuplicate", () => {
+  it("flags the same gig imported from two sources", () => {
+    const match = scoreDuplicate(
+      comparable({ latitude: 11.9404, longitude: 108.4583, organizer_id: "org-1" }),
+      comparable({
+        id: "b",
+        title: "Dem nhac acoustic - Cheo Leo",
+        starts_at: "2026-11-14T12:30:00Z",
+        latitude: 11.9408,
+        longitude: 108.4585,
+        organizer_id: "org-1",
+      })
+    );
+    expect(match.signals.time).toBe(1);
+    expect(match.signals.venue).toBe(1);
+    expect(match.signals.distance_m).toBeLessThan(150);
+    expect(isProbableDuplicate(match)).toBe(true);
+  });
+
+  it("leaves missing venue and organizer out of the score", () => {
+    const match = scoreDuplicate(comparable({}), comparable({ id: "b" }));
+    expect(match.signals.venue).toBeNull();
+    expect(match.signals.organizer).toBeNull();
+    expect(match.score).toBe(1);
+  });
+
+  it("does not flag different sessions at the same venue and time", () => {
+    const match = scoreDuplicate(
+      comparable({ title: "Khai mạc Festival Hoa", venue_id: "v1", organizer_id: "o1" }),
+      comparable({ id: "b", title: "Workshop cắm hoa", venue_id: "v1", organizer_id: "o1" })
+    );
+    expect(isProbableDuplicate(match)).toBe(false);
+  });
+
+  it("discounts events hours apart and far away", () => {
+    const match = scoreDuplicate(
+      comparable({ latitude: 11.94, longitude: 108.45 }),
+      comparable({ id: "b", starts_at: "2026-11-14T20:00:00Z", latitude: 11.98, longitude: 108.5 })
+    );
+    expect(match.signals.time).toBe(0.3);
+    expect(match.signals.venue).toBe(0);
+    expect(isProbableDuplicate(match)).toBe(false);
+  });
+});
+
+describe("pickRichestFields", () => {
+  it("takes the longer description and fills missing fields", () => {
+    const patch = pickRichestFields(
+      mergeable({ description: "Short", image_url: "keep.jpg", location_name: "Đà Lạt" }),
+      mergeable({
+        description: "A much longer description of the night",
+        image_url: "drop.jpg",
+        location_name: "Cheo Leo Café",
+        latitude: 11.94,
+        longitude: 108.45,
+        ends_at: "2026-11-14T15:00:00Z",
+      })
+    );
+    expect(patch).toEqual({
+      description: "A much longer description of the night",
+      location_name: "Cheo Leo Café",
+      latitude: 11.94,
+      longitude: 108.45,
+      ends_at: "2026-11-14T15:00:00Z",
+    });
+  });
+
+  it("returns nothing when the kept event is already richer", () => {
+    const keep = mergeable({ description: "Long enough description", image_url: "a.jpg" });
+    expect(pickRichestFields(keep, mergeable({ description: "Short" }))).toEqual({});
+    expect(eventRichness(keep)).toBeGreaterThan(eventRichness(mergeable({ description: "Short" })));
+  });
+});
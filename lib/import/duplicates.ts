@@ -0,0 +1,354 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { slugify } from "./utils";
+
+/**
+ * Fuzzy cross-source duplicate detection for imported events.
+ *
+ * The same gig often arrives from Facebook, Luma and a news article with
+ * slightly different titles and times. Each import is scored against events
+ * starting nearby; probable duplicates are queued in
+ * event_duplicate_candidates for an admin to merge or dismiss.
+ */
+
+/** Minimum overall score for a pair to be queued for review */
+export const DUPLICATE_REVIEW_THRESHOLD = 0.6;
+
+/**
+ * Pairs whose titles are this dissimilar are never queued, however well the
+ * rest lines up: festival sessions share a venue, organizer and evening.
+ */
+export const MIN_TITLE_SIMILARITY = 0.5;
+
+/** Only events starting this close to the new one are compared */
+export const CANDIDATE_WINDOW_HOURS = 12;
+
+const WEIGHTS = { title: 0.45, time: 0.25, venue: 0.2, organizer: 0.1 } as const;
+
+export interface DuplicateComparable {
+  id: string;
+  title: string;
+  starts_at: string;
+  latitude: number | null;
+  longitude: number | null;
+  venue_id: string | null;
+  location_name: string | null;
+  organizer_id: string | null;
+}
+
+/** Per-signal scores in 0..1; null means the signal could not be compared */
+export interface DuplicateSignals {
+  title: number;
+  time: number;
+  venue: number | null;
+  organizer: number | null;
+  minutes_apart: number;
+  distance_m: number | null;
+}
+
+export interface DuplicateMatch {
+  score: number;
+  signals: DuplicateSignals;
+}
+
+/**
+ * Diacritic-free, punctuation-free title for comparison. slugify drops "đ"
+ * entirely (NFD doesn't decompose it), so fold it to "d" first.
+ */
+export function normalizeTitle(title: string): string {
+  return slugify(title.replace(/đ/g, "d").replace(/Đ/g, "D")).replace(/-/g, " ");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const compact = text.replace(/\s+/g, " ");
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Sørensen–Dice similarity over character bigrams of the normalised titles.
+ * A title contained in the other ("Jazz Night" in "Jazz Night at Cheo Leo")
+ * counts as a near match.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const na = normalizeTitle(a);
+  const nb = normalizeTitle(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const [shorter, longer] = na.length <= nb.length ? [na, nb] : [nb, na];
+  const contained = shorter.length >= 8 && longer.includes(shorter);
+
+  const ga = bigrams(na);
+  const gb = bigrams(nb);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of ga) {
+    overlap += Math.min(count, gb.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of gb.values()) total += count;
+  const dice = total > 0 ? (2 * overlap) / total : 0;
+
+  return contained ? Math.max(dice, 0.9) : dice;
+}
+
+/** Great-circle distance in metres */
+export function distanceMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+function timeScore(minutesApart: number): number {
+  if (minutesApart <= 30) return 1;
+  if (minutesApart <= 180) return 0.6;
+  if (minutesApart <= CANDIDATE_WINDOW_HOURS * 60) return 0.3;
+  return 0;
+}
+
+function venueScore(
+  a: DuplicateComparable,
+  b: DuplicateComparable
+): { score: number | null; distance: number | null } {
+  if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null) {
+    const distance = Math.round(distanceMeters(a.latitude, a.longitude, b.latitude, b.longitude));
+    const score = distance <= 150 ? 1 : distance <= 500 ? 0.6 : distance <= 2000 ? 0.2 : 0;
+    return { score, distance };
+  }
+  if (a.venue_id && b.venue_id) {
+    return { score: a.venue_id === b.venue_id ? 1 : 0, distance: null };
+  }
+  // Imported location names are free text ("Đà Lạt", "Cheo Leo Cafe, 1A…"),
+  // so only a match is informative; a mismatch stays neutral.
+  if (a.location_name && b.location_name) {
+    const na = normalizeTitle(a.location_name);
+    const nb = normalizeTitle(b.location_name);
+    if (na.length >= 4 && nb.length >= 4 && (na.includes(nb) || nb.includes(na))) {
+      return { score: 0.8, distance: null };
+    }
+  }
+  return { score: null, distance: null };
+}
+
+/**
+ * Score how likely two events are the same real-world event. Signals that
+ * can't be compared (no coordinates, unknown organizer) drop out and the
+ * remaining weights are rescaled, so missing data neither helps nor hurts.
+ */
+export function scoreDuplicate(a: DuplicateComparable, b: DuplicateComparable): DuplicateMatch {
+  const title = titleSimilarity(a.title, b.title);
+  const minutesApart = Math.round(
+    Math.abs(new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime()) / 60000
+  );
+  const time = timeScore(minutesApart);
+  const venue = venueScore(a, b);
+  const organizer =
+    a.organizer_id && b.organizer_id ? (a.organizer_id === b.organizer_id ? 1 : 0) : null;
+
+  let weighted = WEIGHTS.title * title + WEIGHTS.time * time;
+  let weightTotal = WEIGHTS.title + WEIGHTS.time;
+  if (venue.score !== null) {
+    weighted += WEIGHTS.venue * venue.score;
+    weightTotal += WEIGHTS.venue;
+  }
+  if (organizer !== null) {
+    weighted += WEIGHTS.organizer * organizer;
+    weightTotal += WEIGHTS.organizer;
+  }
+
+  return {
+    score: Math.round((weighted / weightTotal) * 1000) / 1000,
+    signals: {
+      title: Math.round(title * 100) / 100,
+      time,
+      venue: venue.score,
+      organizer,
+      minutes_apart: minutesApart,
+      distance_m: venue.distance,
+    },
+  };
+}
+
+export function isProbableDuplicate(match: DuplicateMatch): boolean {
+  return match.score >= DUPLICATE_REVIEW_THRESHOLD && match.signals.title >= MIN_TITLE_SIMILARITY;
+}
+
+/** Fields a merge may carry over from the dropped event */
+export interface MergeableEvent {
+  description: string | null;
+  image_url: string | null;
+  ends_at: string | null;
+  location_name: string | null;
+  address: string | null;
+  google_maps_url: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  venue_id: string | null;
+  organizer_id: string | null;
+  external_chat_url: string | null;
+}
+
+const FILL_FIELDS = [
+  "image_url",
+  "ends_at",
+  "address",
+  "google_maps_url",
+  "venue_id",
+  "organizer_id",
+  "external_chat_url",
+] as const;
+
+// Imports fall back to the city name when the source has no venue
+const GENERIC_LOCATIONS = new Set(["da lat", "dalat", "lam dong"]);
+
+function isBlank(value: string | null): boolean {
+  return !value || !value.trim();
+}
+
+/**
+ * Update for the kept event that takes the richest value of each field from
+ * the pair: the longer description, a specific location over the city
+ * fallback, and anything the kept event is missing. Title, slug and times
+ * stay as they are on the kept event.
+ */
+export function pickRichestFields(keep: MergeableEvent, drop: MergeableEvent): Partial<MergeableEvent> {
+  const patch: Partial<MergeableEvent> = {};
+
+  if ((drop.description?.trim().length ?? 0) > (keep.description?.trim().length ?? 0)) {
+    patch.description = drop.description;
+  }
+
+  for (const field of FILL_FIELDS) {
+    if (isBlank(keep[field]) && !isBlank(drop[field])) {
+      patch[field] = drop[field];
+    }
+  }
+
+  const keepGeneric =
+    isBlank(keep.location_name) || GENERIC_LOCATIONS.has(normalizeTitle(keep.location_name ?? ""));
+  const dropGeneric =
+    isBlank(drop.location_name) || GENERIC_LOCATIONS.has(normalizeTitle(drop.location_name ?? ""));
+  if (keepGeneric && !dropGeneric) {
+    patch.location_name = drop.location_name;
+  }
+
+  if ((keep.latitude == null || keep.longitude == null) && drop.latitude != null && drop.longitude != null) {
+    patch.latitude = drop.latitude;
+    patch.longitude = drop.longitude;
+  }
+
+  return patch;
+}
+
+/**
+ * Rough measure of how complete an event is, used to suggest which side of
+ * a pair to keep.
+ */
+export function eventRichness(event: MergeableEvent): number {
+  let score = Math.min((event.description?.trim().length ?? 0) / 200, 3);
+  for (const field of FILL_FIELDS) {
+    if (!isBlank(event[field])) score += 1;
+  }
+  if (event.latitude != null && event.longitude != null) score += 1;
+  return score;
+}
+
+const COMPARABLE_COLUMNS =
+  "id, title, starts_at, latitude, longitude, venue_id, location_name, organizer_id, venues (latitude, longitude)";
+
+interface ComparableRow extends DuplicateComparable {
+  venues: { latitude: number | null; longitude: number | null } | null;
+}
+
+// Events linked to a venue may only carry coordinates on the venue row
+function toComparable(row: ComparableRow): DuplicateComparable {
+  return {
+    id: row.id,
+    title: row.title,
+    starts_at: row.starts_at,
+    latitude: row.latitude ?? row.venues?.latitude ?? null,
+    longitude: row.longitude ?? row.venues?.longitude ?? null,
+    venue_id: row.venue_id,
+    location_name: row.location_name,
+    organizer_id: row.organizer_id,
+  };
+}
+
+/**
+ * Score a freshly imported event against everything starting within
+ * CANDIDATE_WINDOW_HOURS and queue probable duplicates for admin review.
+ * Returns how many pairs were queued. Never throws: a failed check must not
+ * fail the import.
+ */
+export async function queueDuplicateCandidates(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<number> {
+  try {
+    const { data: event } = await supabase
+      .from("events")
+      .select(COMPARABLE_COLUMNS)
+      .eq("id", eventId)
+      .single();
+    if (!event) return 0;
+
+    const startsAt = new Date(event.starts_at).getTime();
+    const windowMs = CANDIDATE_WINDOW_HOURS * 60 * 60 * 1000;
+
+    const { data: nearby, error } = await supabase
+      .from("events")
+      .select(COMPARABLE_COLUMNS)
+      .neq("id", eventId)
+      .neq("status", "cancelled")
+      .gte("starts_at", new Date(startsAt - windowMs).toISOString())
+      .lte("starts_at", new Date(startsAt + windowMs).toISOString())
+      .limit(200);
+
+    if (error) {
+      console.error("Duplicate candidate lookup error:", error);
+      return 0;
+    }
+
+    const subject = toComparable(event as unknown as ComparableRow);
+    const rows = (nearby ?? [])
+      .map((row) => {
+        const candidate = toComparable(row as unknown as ComparableRow);
+        return { candidate, match: scoreDuplicate(subject, candidate) };
+      })
+      .filter(({ match }) => isProbableDuplicate(match))
+      .map(({ candidate, match }) => ({
+        event_id: eventId,
+        duplicate_of_event_id: candidate.id,
+        score: match.score,
+        signals: match.signals,
+      }));
+
+    if (rows.length === 0) return 0;
+
+    const { error: insertError } = await supabase
+      .from("event_duplicate_candidates")
+      .upsert(rows, { onConflict: "event_id,duplicate_of_event_id", ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error("Duplicate candidate insert error:", insertError);
+      return 0;
+    }
+    return rows.length;
+  } catch (err) {
+    console.error("Duplicate candidate check failed:", err);
+    return 0;
+  }
+}
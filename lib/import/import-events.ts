@@ -9,6 +9,7 @@ import {
   type ProcessResult,
 } from "./utils";
 import { IMPORT_STATUS, MAX_IMPORTS_PER_RUN } from "./import-config";
+import { queueDuplicateCandidates } from "./duplicates";
 
 /**
  * Event extracted from an article by AI.
@@ -159,6 +160,9 @@ export async function importExtractedEvents(
         result.processed++;
         result.details.push(`Imported: ${event.title}`);
         if (newEvent?.id) {
+          if (await queueDuplicateCandidates(supabase, newEvent.id)) {
+            result.details.push(`Possible duplicate queued for review: ${event.title}`);
+          }
           imported.push({
             id: newEvent.id,
             title: event.title,
@@ -6,10 +6,12 @@ import {
   findOrCreateOrganizer,
   checkDuplicateByUrl,
   generateMapsUrl,
+  parseCoordinate,
   createEmptyResult,
   downloadAndUploadImage,
   type ProcessResult,
 } from "../utils";
+import { queueDuplicateCandidates } from "../duplicates";
 import { triggerTranslationServer } from "@/lib/translations";
 
 export async function processEventbriteEvents(
@@ -60,6 +62,8 @@ export async function processEventbriteEvents(
         location_name: normalized.locationName,
         address: normalized.address,
         google_maps_url: normalized.mapsUrl,
+        latitude: normalized.latitude,
+        longitude: normalized.longitude,
         external_chat_url: event.url,
         image_url: imageUrl,
         status: "published",
@@ -80,6 +84,10 @@ export async function processEventbriteEvents(
       } else {
         result.processed++;
 
+        if (newEvent?.id && (await queueDuplicateCandidates(supabase, newEvent.id))) {
+          result.details.push(`Possible duplicate queued for review: ${normalized.title}`);
+        }
+
         // Trigger translation to all 12 languages (server-side, no HTTP)
         // Must await to ensure translation completes before serverless function terminates
         if (newEvent?.id) {
@@ -118,6 +126,8 @@ function normalizeEventbriteEvent(event: EventbriteEvent) {
     locationName,
     address: event.venue?.address?.localized_address_display,
     mapsUrl: generateMapsUrl(latitude, longitude, locationName),
+    latitude: parseCoordinate(latitude),
+    longitude: parseCoordinate(longitude),
     imageUrl: event.logo?.url || event.imageUrl || event.coverImage,
     organizerName: event.organizer?.name || event.hostName,
   };
@@ -7,10 +7,12 @@ import {
   checkDuplicateByUrl,
   canonicalizeFacebookEventUrl,
   generateMapsUrl,
+  parseCoordinate,
   createEmptyResult,
   downloadAndUploadImage,
   type ProcessResult,
 } from "../utils";
+import { queueDuplicateCandidates } from "../duplicates";
 import { triggerTranslationServer } from "@/lib/translations";
 import { IMPORT_STATUS, MAX_IMPORTS_PER_RUN } from "../import-config";
 
@@ -71,6 +73,8 @@ export async function processFacebookEvents(
         location_name: normalized.locationName,
         address: normalized.address,
         google_maps_url: normalized.mapsUrl,
+        latitude: normalized.latitude,
+        longitude: normalized.longitude,
         external_chat_url: canonicalUrl,
         image_url: imageUrl,
         status: IMPORT_STATUS,
@@ -93,6 +97,10 @@ export async function processFacebookEvents(
       } else {
         result.processed++;
 
+        if (newEvent?.id && (await queueDuplicateCandidates(supabase, newEvent.id))) {
+          result.details.push(`Possible duplicate queued for review: ${normalized.title}`);
+        }
+
         // Trigger translation to all 12 languages (server-side, no HTTP)
         // Must await to ensure translation completes before serverless function terminates
         if (newEvent?.id) {
@@ -146,6 +154,8 @@ function normalizeFacebookEvent(event: FacebookEvent) {
     locationName: locationName || locationCity || null,
     address: address || null,
     mapsUrl,
+    latitude: parseCoordinate(latitude),
+    longitude: parseCoordinate(longitude),
     imageUrl: imageUrl || null,
     additionalImages,
     organizerName,
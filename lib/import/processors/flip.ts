@@ -8,6 +8,7 @@ import {
   downloadAndUploadImage,
   type ProcessResult,
 } from "../utils";
+import { queueDuplicateCandidates } from "../duplicates";
 import { triggerTranslationServer } from "@/lib/translations";
 
 // Flip.vn event structure (extracted from HTML meta tags)
@@ -386,6 +387,10 @@ export async function processFlipEvents(
       } else {
         result.processed++;
 
+        if (newEvent?.id && (await queueDuplicateCandidates(supabase, newEvent.id))) {
+          result.details.push(`Possible duplicate queued for review: ${event.title}`);
+        }
+
         // Trigger translation to all 12 languages
         if (newEvent?.id) {
           const fieldsToTranslate = [];
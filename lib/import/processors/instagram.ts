@@ -11,6 +11,7 @@ import {
   downloadAndUploadImage,
   type ProcessResult,
 } from "../utils";
+import { queueDuplicateCandidates } from "../duplicates";
 
 export async function processInstagramPosts(
   supabase: SupabaseClient,
@@ -57,7 +58,7 @@ export async function processInstagramPosts(
         slug
       );
 
-      const { error } = await supabase.from("events").insert({
+      const { data: newEvent, error } = await supabase.from("events").insert({
         slug,
         title: extracted.title,
         description: extracted.description || post.caption,
@@ -75,13 +76,17 @@ export async function processInstagramPosts(
           extracted_by_ai: true,
           imported_at: new Date().toISOString(),
         },
-      });
+      }).select("id").single();
 
       if (error) {
         result.errors++;
         result.details.push(`Error: ${extracted.title} - ${error.message}`);
       } else {
         result.processed++;
+
+        if (newEvent?.id && (await queueDuplicateCandidates(supabase, newEvent.id))) {
+          result.details.push(`Possible duplicate queued for review: ${extracted.title}`);
+        }
       }
     } catch (err) {
       result.errors++;
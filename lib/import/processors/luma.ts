@@ -5,10 +5,12 @@ import {
   findOrCreateOrganizer,
   checkDuplicateByUrl,
   generateMapsUrl,
+  parseCoordinate,
   createEmptyResult,
   downloadAndUploadImage,
   type ProcessResult,
 } from "../utils";
+import { queueDuplicateCandidates } from "../duplicates";
 import { triggerTranslationServer } from "@/lib/translations";
 
 // Lu.ma event from lexis-solutions/lu-ma-scraper
@@ -97,6 +99,8 @@ export async function processLumaEvents(
         location_name: normalized.locationName,
         address: normalized.address,
         google_maps_url: normalized.mapsUrl,
+        latitude: normalized.latitude,
+        longitude: normalized.longitude,
         external_chat_url: event.url,
         image_url: imageUrl,
         status: needsManualDate ? "draft" : "published",
@@ -119,6 +123,10 @@ export async function processLumaEvents(
       } else {
         result.processed++;
 
+        if (newEvent?.id && (await queueDuplicateCandidates(supabase, newEvent.id))) {
+          result.details.push(`Possible duplicate queued for review: ${normalized.title}`);
+        }
+
         // Trigger translation to all 12 languages (server-side, no HTTP)
         // Must await to ensure translation completes before serverless function terminates
         if (newEvent?.id) {
@@ -166,6 +174,8 @@ function normalizeLumaEvent(event: LumaEvent) {
     locationName,
     address: event.address || (event.city ? `${locationName}, ${event.city}` : null),
     mapsUrl: event.mapsUrl || generateMapsUrl(event.latitude, event.longitude, locationName),
+    latitude: parseCoordinate(event.latitude),
+    longitude: parseCoordinate(event.longitude),
     imageUrl: event.imageUrl || event.coverImage || event.coverUrl,
     organizerName: event.organizer || event.hostName,
   };
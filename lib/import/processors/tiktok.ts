@@ -11,6 +11,7 @@ import {
   downloadAndUploadImage,
   type ProcessResult,
 } from "../utils";
+import { queueDuplicateCandidates } from "../duplicates";
 
 export async function processTikTokPosts(
   supabase: SupabaseClient,
@@ -60,7 +61,7 @@ export async function processTikTokPosts(
       const imageUrl = await downloadAndUploadImage(
         coverImage, slug);
 
-      const { error } = await supabase.from("events").insert({
+      const { data: newEvent, error } = await supabase.from("events").insert({
         slug,
         title: extracted.title,
         description: extracted.description || caption,
@@ -79,13 +80,17 @@ export async function processTikTokPosts(
           extracted_by_ai: true,
           imported_at: new Date().toISOString(),
         },
-      });
+      }).select("id").single();
 
       if (error) {
         result.errors++;
         result.details.push(`Error: ${extracted.title} - ${error.message}`);
       } else {
         result.processed++;
+
+        if (newEvent?.id && (await queueDuplicateCandidates(supabase, newEvent.id))) {
+          result.details.push(`Possible duplicate queued for review: ${extracted.title}`);
+        }
       }
     } catch (err) {
       result.errors++;
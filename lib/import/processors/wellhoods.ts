@@ -5,10 +5,12 @@ import {
   findOrCreateOrganizer,
   checkDuplicateByUrl,
   generateMapsUrl,
+  parseCoordinate,
   createEmptyResult,
   downloadAndUploadImage,
   type ProcessResult,
 } from "../utils";
+import { queueDuplicateCandidates } from "../duplicates";
 import { triggerTranslationServer } from "@/lib/translations";
 
 const WELLHOODS_API = "https://wellhoods.com/api/events";
@@ -166,6 +168,8 @@ export async function processWellhoodsEvents(
           location_name: normalized.locationName,
           address: normalized.address,
           google_maps_url: normalized.mapsUrl,
+          latitude: normalized.latitude,
+          longitude: normalized.longitude,
           external_chat_url: eventUrl,
           image_url: imageUrl,
           status: "published",
@@ -193,6 +197,10 @@ export async function processWellhoodsEvents(
         result.processed++;
         result.details.push(`Imported: ${normalized.title}`);
 
+        if (newEvent?.id && (await queueDuplicateCandidates(supabase, newEvent.id))) {
+          result.details.push(`Possible duplicate queued for review: ${normalized.title}`);
+        }
+
         // Trigger translation
         if (newEvent?.id) {
           const fieldsToTranslate = [];
@@ -297,6 +305,8 @@ function normalizeWellhoodsEvent(event: WellhoodsEvent) {
     locationName: event.location,
     address: event.address,
     mapsUrl: generateMapsUrl(event.latitude, event.longitude, event.location, "Da Lat"),
+    latitude: parseCoordinate(event.latitude),
+    longitude: parseCoordinate(event.longitude),
     imageUrl: event.imageUrl,
     organizerName: event.hostName,
   };
@@ -9,8 +9,21 @@ import {
   downloadAndUploadImage,
   parseEventDate,
   canonicalizeFacebookEventUrl,
+  parseCoordinate,
 } from "./utils";
 
+describe("parseCoordinate", () => {
+  it.each([
+    [11.9404, 11.9404],
+    ["108.4583", 108.4583],
+    ["", null],
+    ["n/a", null],
+    [undefined, null],
+  ])("parses %s", (input, expected) => {
+    expect(parseCoordinate(input)).toBe(expected);
+  });
+});
+
 describe("canonicalizeFacebookEventUrl", () => {
   it.each([
     ["https://m.facebook.com/events/123456789/", "https://www.facebook.com/events/123456789"],
@@ -146,6 +146,16 @@ export function canonicalizeFacebookEventUrl(url: string): string {
   return match ? `https://www.facebook.com/events/${match[1]}` : url;
 }
 
+/**
+ * Scrapers return coordinates as numbers or numeric strings; anything else
+ * becomes null so it can go straight into events.latitude/longitude.
+ */
+export function parseCoordinate(value?: number | string | null): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
 export function generateMapsUrl(
   latitude?: number | string,
   longitude?: number | string,
@@ -0,0 +1,35 @@
+import { appendFile } from 'node:fs/promises';
+import { renderInviteText } from '../messages';
+import type { InviteChannelAdapter } from '../types';
+
+/**
+ * Development stand-in for every phone channel: nothing leaves the machine.
+ * Invites are appended as JSON lines to INVITE_OUTBOX_FILE when set (handy
+ * for tests and for clicking the links), otherwise logged. Disabled in
+ * production unless INVITES_CONSOLE_ENABLED=true (useful on preview deploys).
+ */
+export const consoleAdapter: InviteChannelAdapter = {
+  id: 'console',
+  channels: ['sms', 'whatsapp', 'zalo'],
+
+  isAvailable() {
+    return (
+      process.env.NODE_ENV !== 'production' ||
+      process.env.INVITES_CONSOLE_ENABLED === 'true'
+    );
+  },
+
+  async send(channel, invite) {
+    const text = renderInviteText(invite);
+    const outbox = process.env.INVITE_OUTBOX_FILE;
+
+    if (outbox) {
+      const line = JSON.stringify({ at: new Date().toISOString(), channel, to: invite.to, text });
+      await appendFile(outbox, `${line}\n`);
+    } else {
+      console.warn(`[invites:${channel}] → ${invite.to}\n${text}`);
+    }
+
+    return { status: 'delivered', providerMessageId: `console_${invite.invitationId}` };
+  },
+};
@@ -0,0 +1,130 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { InviteDeliveryStatus, PhoneInviteChannel } from '@/lib/types';
+import { renderInviteText } from '../messages';
+import type { DeliveryReport, InviteAdapterId, InviteChannelAdapter } from '../types';
+
+/**
+ * SMS and WhatsApp through Twilio's Messages API. Each channel has its own
+ * sender (TWILIO_SMS_FROM / TWILIO_WHATSAPP_FROM), so each is its own adapter
+ * and can be configured independently. Delivery reports arrive at
+ * /api/invitations/delivery/<adapter id>.
+ *
+ * WhatsApp only accepts free-form text to people who messaged the sender in
+ * the last 24h (or the Twilio sandbox); cold invites need the sender's
+ * approved invite template, set as TWILIO_WHATSAPP_CONTENT_SID.
+ */
+
+// Twilio MessageStatus → our delivery status
+const STATUS_MAP: Record<string, InviteDeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'failed',
+  failed: 'failed',
+};
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://dalat.app';
+}
+
+function callbackUrl(id: InviteAdapterId): string {
+  return `${getBaseUrl()}/api/invitations/delivery/${id}`;
+}
+
+/**
+ * X-Twilio-Signature: base64 HMAC-SHA1 of the callback URL followed by every
+ * POST parameter (sorted by name) as name+value, keyed with the auth token.
+ */
+export function twilioSignature(authToken: string, url: string, params: Record<string, string>): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  return createHmac('sha1', authToken).update(data).digest('base64');
+}
+
+function createTwilioAdapter(
+  id: Extract<InviteAdapterId, 'twilio-sms' | 'twilio-whatsapp'>,
+  channel: Extract<PhoneInviteChannel, 'sms' | 'whatsapp'>,
+  fromEnv: 'TWILIO_SMS_FROM' | 'TWILIO_WHATSAPP_FROM'
+): InviteChannelAdapter {
+  const address = (phone: string) => (channel === 'whatsapp' ? `whatsapp:${phone}` : phone);
+
+  return {
+    id,
+    channels: [channel],
+
+    isAvailable() {
+      return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env[fromEnv]);
+    },
+
+    async send(_channel, invite) {
+      const accountSid = process.env.TWILIO_ACCOUNT_SID!;
+      const authToken = process.env.TWILIO_AUTH_TOKEN!;
+
+      try {
+        const response = await fetch(
+          `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+          {
+            method: 'POST',
+            headers: {
+              Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+              'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams({
+              To: address(invite.to),
+              From: address(process.env[fromEnv]!),
+              StatusCallback: callbackUrl(id),
+              ...(channel === 'whatsapp' && process.env.TWILIO_WHATSAPP_CONTENT_SID
+                ? {
+                    ContentSid: process.env.TWILIO_WHATSAPP_CONTENT_SID,
+                    // Template placeholders {{1}}–{{3}}: inviter, title, link
+                    ContentVariables: JSON.stringify({ 1: invite.inviterName, 2: invite.title, 3: invite.url }),
+                  }
+                : { Body: renderInviteText(invite) }),
+            }),
+          }
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          console.error(`[invites:${id}] send failed:`, data?.code, data?.message);
+          return { status: 'failed', error: data?.message ?? `HTTP ${response.status}` };
+        }
+        return { status: STATUS_MAP[data.status] ?? 'queued', providerMessageId: data.sid };
+      } catch (error) {
+        console.error(`[invites:${id}] send failed:`, error);
+        return { status: 'failed', error: error instanceof Error ? error.message : 'Send failed' };
+      }
+    },
+
+    async parseStatusCallback(request) {
+      const authToken = process.env.TWILIO_AUTH_TOKEN;
+      const signature = request.headers.get('x-twilio-signature');
+      if (!authToken || !signature) return null;
+
+      const form = await request.formData();
+      const params: Record<string, string> = {};
+      form.forEach((value, key) => {
+        if (typeof value === 'string') params[key] = value;
+      });
+
+      const expected = Buffer.from(twilioSignature(authToken, callbackUrl(id), params));
+      const given = Buffer.from(signature);
+      if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+      const status = STATUS_MAP[params.MessageStatus];
+      if (!params.MessageSid || !status) return [];
+
+      const report: DeliveryReport = { providerMessageId: params.MessageSid, status };
+      if (status === 'failed') report.error = params.ErrorCode ? `Twilio error ${params.ErrorCode}` : 'Undelivered';
+      return [report];
+    },
+  };
+}
+
+export const twilioSmsAdapter = createTwilioAdapter('twilio-sms', 'sms', 'TWILIO_SMS_FROM');
+export const twilioWhatsAppAdapter = createTwilioAdapter('twilio-whatsapp', 'whatsapp', 'TWILIO_WHATSAPP_FROM');
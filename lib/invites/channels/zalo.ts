@@ -0,0 +1,98 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { isVietnamesePhone } from '../phone';
+import type { InviteChannelAdapter } from '../types';
+
+/**
+ * Zalo invites through ZNS (Zalo Notification Service), sent from the
+ * dalat.app Official Account. ZNS only delivers pre-approved templates, one
+ * for event invites and one for tribe invites; their parameters are the
+ * template_data keys below. Only Vietnamese numbers can receive ZNS.
+ *
+ * ZALO_OA_ACCESS_TOKEN is short-lived and refreshed outside the app.
+ * Delivery reports ("user_received_message") come in through the OA webhook
+ * pointed at /api/invitations/delivery/zalo-zns.
+ */
+
+const ZNS_ENDPOINT = 'https://business.openapi.zalo.me/message/template';
+
+function templateId(kind: 'event' | 'tribe'): string | undefined {
+  return kind === 'event'
+    ? process.env.ZALO_ZNS_EVENT_TEMPLATE_ID
+    : process.env.ZALO_ZNS_TRIBE_TEMPLATE_ID;
+}
+
+export const zaloAdapter: InviteChannelAdapter = {
+  id: 'zalo-zns',
+  channels: ['zalo'],
+
+  isAvailable() {
+    return !!(
+      process.env.ZALO_OA_ACCESS_TOKEN &&
+      process.env.ZALO_ZNS_EVENT_TEMPLATE_ID &&
+      process.env.ZALO_ZNS_TRIBE_TEMPLATE_ID
+    );
+  },
+
+  accepts(phone) {
+    return isVietnamesePhone(phone);
+  },
+
+  async send(_channel, invite) {
+    try {
+      const response = await fetch(ZNS_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          access_token: process.env.ZALO_OA_ACCESS_TOKEN!,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          // ZNS wants 84xxxxxxxxx, no plus
+          phone: invite.to.slice(1),
+          template_id: templateId(invite.kind),
+          template_data: {
+            inviter_name: invite.inviterName,
+            title: invite.title,
+            time: invite.when ?? '',
+            url: invite.url,
+          },
+          tracking_id: invite.invitationId,
+        }),
+      });
+      const data = await response.json();
+
+      // ZNS reports errors in the body with HTTP 200
+      if (!response.ok || data?.error !== 0) {
+        console.error('[invites:zalo-zns] send failed:', data?.error, data?.message);
+        return { status: 'failed', error: data?.message ?? `HTTP ${response.status}` };
+      }
+      return { status: 'sent', providerMessageId: data.data?.msg_id };
+    } catch (error) {
+      console.error('[invites:zalo-zns] send failed:', error);
+      return { status: 'failed', error: error instanceof Error ? error.message : 'Send failed' };
+    }
+  },
+
+  async parseStatusCallback(request) {
+    const appId = process.env.ZALO_APP_ID;
+    const secret = process.env.ZALO_OA_SECRET_KEY;
+    const signature = request.headers.get('x-zevent-signature');
+    if (!appId || !secret || !signature) return null;
+
+    const raw = await request.text();
+    let body: { event_name?: string; timestamp?: string; message?: { msg_id?: string } };
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+
+    // mac = sha256(appId + body + timestamp + OA secret key)
+    const mac = createHash('sha256').update(`${appId}${raw}${body.timestamp ?? ''}${secret}`).digest('hex');
+    const expected = Buffer.from(`mac=${mac}`);
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+    if (body.event_name !== 'user_received_message' || !body.message?.msg_id) return [];
+    return [{ providerMessageId: body.message.msg_id, status: 'delivered' }];
+  },
+};
@@ -0,0 +1,74 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  getInviteAdapter,
+  invitationStatusForDelivery,
+  isDeliveryProgress,
+  parsePhoneRecipients,
+} from './index';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('parsePhoneRecipients', () => {
+  it('normalises numbers and collapses duplicates', () => {
+    const result = parsePhoneRecipients([
+      { phone: '090 123 4567', name: ' Lan ', channel: 'zalo' },
+      { phone: '+84901234567', channel: 'sms' },
+      { phone: '0168 123 4567', channel: 'whatsapp' },
+    ]);
+    expect(result).toEqual({
+      ok: true,
+      recipients: [
+        { phone: '+84901234567', name: 'Lan', channel: 'zalo' },
+        { phone: '+84381234567', name: null, channel: 'whatsapp' },
+      ],
+    });
+  });
+
+  it('rejects bad numbers and non-phone channels', () => {
+    expect(parsePhoneRecipients([{ phone: '12345', channel: 'sms' }]).ok).toBe(false);
+    expect(parsePhoneRecipients([{ phone: '0901234567', channel: 'email' }]).ok).toBe(false);
+    expect(parsePhoneRecipients('0901234567').ok).toBe(false);
+    expect(parsePhoneRecipients(undefined)).toEqual({ ok: true, recipients: [] });
+  });
+});
+
+describe('getInviteAdapter', () => {
+  it('prefers a configured provider over the console stand-in', () => {
+    vi.stubEnv('TWILIO_ACCOUNT_SID', 'AC123');
+    vi.stubEnv('TWILIO_AUTH_TOKEN', 'secret');
+    vi.stubEnv('TWILIO_SMS_FROM', '+15550001111');
+    expect(getInviteAdapter('sms', '+84901234567')?.id).toBe('twilio-sms');
+    expect(getInviteAdapter('whatsapp', '+84901234567')?.id).toBe('console');
+  });
+
+  it('only sends Zalo to Vietnamese numbers', () => {
+    vi.stubEnv('ZALO_OA_ACCESS_TOKEN', 'token');
+    vi.stubEnv('ZALO_ZNS_EVENT_TEMPLATE_ID', '1');
+    vi.stubEnv('ZALO_ZNS_TRIBE_TEMPLATE_ID', '2');
+    expect(getInviteAdapter('zalo', '+84901234567')?.id).toBe('zalo-zns');
+    expect(getInviteAdapter('zalo', '+14155550123')?.id).toBe('console');
+  });
+
+  it('has nothing to offer in production without a provider', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(getInviteAdapter('sms', '+84901234567')).toBeNull();
+  });
+});
+
+describe('delivery status', () => {
+  it('ignores reports that arrive out of order', () => {
+    expect(isDeliveryProgress(null, 'queued')).toBe(true);
+    expect(isDeliveryProgress('sent', 'delivered')).toBe(true);
+    expect(isDeliveryProgress('delivered', 'sent')).toBe(false);
+    expect(isDeliveryProgress('sent', 'failed')).toBe(true);
+  });
+
+  it('keeps failed invites pending and never rewinds answered ones', () => {
+    expect(invitationStatusForDelivery('sent', 'failed')).toBe('pending');
+    expect(invitationStatusForDelivery('pending', 'delivered')).toBe('sent');
+    expect(invitationStatusForDelivery('responded', 'failed')).toBe('responded');
+    expect(invitationStatusForDelivery('accepted', 'failed')).toBe('accepted');
+  });
+});
@@ -0,0 +1,149 @@
+import type {
+  InvitationStatus,
+  InviteDeliveryStatus,
+  PhoneInviteChannel,
+  TribeInvitationStatus,
+} from '@/lib/types';
+import { consoleAdapter } from './channels/console';
+import { twilioSmsAdapter, twilioWhatsAppAdapter } from './channels/twilio';
+import { zaloAdapter } from './channels/zalo';
+import { normalizePhoneNumber } from './phone';
+import type { InviteAdapterId, InviteChannelAdapter, InviteDelivery, PhoneInvite } from './types';
+
+export type {
+  DeliveryReport,
+  InviteAdapterId,
+  InviteChannelAdapter,
+  InviteDelivery,
+  PhoneInvite,
+} from './types';
+export { normalizePhoneNumber, isVietnamesePhone, phoneInviteEmail } from './phone';
+
+const ADAPTERS: Record<InviteAdapterId, InviteChannelAdapter> = {
+  'twilio-sms': twilioSmsAdapter,
+  'twilio-whatsapp': twilioWhatsAppAdapter,
+  'zalo-zns': zaloAdapter,
+  console: consoleAdapter,
+};
+
+export const PHONE_INVITE_CHANNELS: PhoneInviteChannel[] = ['sms', 'whatsapp', 'zalo'];
+
+export function getInviteAdapterById(id: string): InviteChannelAdapter | null {
+  return (ADAPTERS as Record<string, InviteChannelAdapter>)[id] ?? null;
+}
+
+/**
+ * The adapter that will send `channel` to `phone`: the first configured real
+ * provider that can reach the number, else the console stand-in (outside
+ * production). Null when the channel can't reach the number here.
+ */
+export function getInviteAdapter(channel: PhoneInviteChannel, phone: string): InviteChannelAdapter | null {
+  return (
+    Object.values(ADAPTERS).find(
+      (a) => a.channels.includes(channel) && a.isAvailable() && (a.accepts?.(phone) ?? true)
+    ) ?? null
+  );
+}
+
+/** Phone channels with a configured adapter, for the invite UI. */
+export function getAvailableInviteChannels(): PhoneInviteChannel[] {
+  return PHONE_INVITE_CHANNELS.filter((channel) =>
+    Object.values(ADAPTERS).some((a) => a.channels.includes(channel) && a.isAvailable())
+  );
+}
+
+const DELIVERY_RANK: Record<InviteDeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  failed: 2,
+};
+
+/**
+ * Whether a delivery report moves an invitation forward. Providers don't
+ * guarantee callback order, so a late "sent" must not overwrite "delivered".
+ */
+export function isDeliveryProgress(
+  current: InviteDeliveryStatus | null,
+  next: InviteDeliveryStatus
+): boolean {
+  return current === null || DELIVERY_RANK[next] >= DELIVERY_RANK[current];
+}
+
+/**
+ * Invitation status for a phone invite after a delivery report. A failed
+ * send leaves the invitation pending so it can be retried; anything else
+ * counts as sent. Never moves an invitation that has already been viewed
+ * or answered.
+ */
+export function invitationStatusForDelivery<S extends InvitationStatus | TribeInvitationStatus>(
+  current: S,
+  delivery: InviteDeliveryStatus
+): S {
+  if (current !== 'pending' && current !== 'sent') return current;
+  return (delivery === 'failed' ? 'pending' : 'sent') as S;
+}
+
+/** The token link a phone invite carries (same pages as the email links) */
+export function inviteUrl(kind: PhoneInvite['kind'], token: string): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL || 'https://dalat.app';
+  return kind === 'event' ? `${base}/invite/${token}` : `${base}/tribes/invite/${token}`;
+}
+
+/** A phone invite as the invitation routes accept it */
+export interface PhoneInviteRecipient {
+  /** E.164 after parsePhoneRecipients */
+  phone: string;
+  name: string | null;
+  channel: PhoneInviteChannel;
+}
+
+type ParsedRecipients = { ok: true; recipients: PhoneInviteRecipient[] } | { ok: false; error: string };
+
+/**
+ * Validate the `phones` array of an invitation request: every number must
+ * normalise and every channel must be a phone channel. Duplicates (same
+ * number written two ways) collapse to the first.
+ */
+export function parsePhoneRecipients(input: unknown): ParsedRecipients {
+  if (input === undefined) return { ok: true, recipients: [] };
+  if (!Array.isArray(input)) return { ok: false, error: 'phones must be an array' };
+
+  const recipients: PhoneInviteRecipient[] = [];
+  const seen = new Set<string>();
+  for (const entry of input) {
+    const channel = entry?.channel as PhoneInviteChannel;
+    if (!PHONE_INVITE_CHANNELS.includes(channel)) {
+      return { ok: false, error: `Invalid channel: ${String(entry?.channel)}` };
+    }
+    const phone = typeof entry?.phone === 'string' ? normalizePhoneNumber(entry.phone) : null;
+    if (!phone) {
+      return { ok: false, error: `Invalid phone number: ${String(entry?.phone)}` };
+    }
+    if (seen.has(phone)) continue;
+    seen.add(phone);
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    recipients.push({ phone, name: name || null, channel });
+  }
+  return { ok: true, recipients };
+}
+
+/**
+ * Send one phone invite through whichever adapter serves the channel.
+ * Never throws: provider errors come back as a failed delivery.
+ */
+export async function deliverPhoneInvite(
+  channel: PhoneInviteChannel,
+  invite: PhoneInvite
+): Promise<InviteDelivery> {
+  const adapter = getInviteAdapter(channel, invite.to);
+  if (!adapter) {
+    return { status: 'failed', error: `${channel} is not available for this number` };
+  }
+  try {
+    return await adapter.send(channel, invite);
+  } catch (error) {
+    console.error(`[invites:${adapter.id}] send threw:`, error);
+    return { status: 'failed', error: error instanceof Error ? error.message : 'Send failed' };
+  }
+}
@@ -0,0 +1,48 @@
+import type { Locale } from '@/lib/types';
+import type { PhoneInvite } from './types';
+
+/**
+ * Plain-text invite for SMS and WhatsApp. Kept short: one SMS segment is 160
+ * GSM characters (70 with Vietnamese diacritics), so the link comes early and
+ * the personal note is trimmed.
+ */
+
+type MessageLocale = 'en' | 'fr' | 'vi';
+
+const strings: Record<MessageLocale, {
+  event: (inviter: string, title: string, when: string | null) => string;
+  tribe: (inviter: string, title: string) => string;
+}> = {
+  en: {
+    event: (inviter, title, when) => `${inviter} invited you to "${title}"${when ? ` (${when})` : ''}`,
+    tribe: (inviter, title) => `${inviter} invited you to join ${title} on dalat.app`,
+  },
+  fr: {
+    event: (inviter, title, when) => `${inviter} vous invite à "${title}"${when ? ` (${when})` : ''}`,
+    tribe: (inviter, title) => `${inviter} vous invite à rejoindre ${title} sur dalat.app`,
+  },
+  vi: {
+    event: (inviter, title, when) => `${inviter} mời bạn tham gia "${title}"${when ? ` (${when})` : ''}`,
+    tribe: (inviter, title) => `${inviter} mời bạn tham gia nhóm ${title} trên dalat.app`,
+  },
+};
+
+const NOTE_LIMIT = 80;
+
+function messageLocale(locale: Locale): MessageLocale {
+  return locale === 'vi' || locale === 'fr' ? locale : 'en';
+}
+
+export function renderInviteText(invite: PhoneInvite): string {
+  const s = strings[messageLocale(invite.locale)];
+  const headline = invite.kind === 'event'
+    ? s.event(invite.inviterName, invite.title, invite.when ?? null)
+    : s.tribe(invite.inviterName, invite.title);
+
+  const lines = [headline, invite.url];
+  const note = invite.personalNote?.trim();
+  if (note) {
+    lines.push(note.length > NOTE_LIMIT ? `"${note.slice(0, NOTE_LIMIT - 1)}…"` : `"${note}"`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { isVietnamesePhone, normalizePhoneNumber, phoneInviteEmail } from './phone';
+
+describe('normalizePhoneNumber', () => {
+  it('accepts the ways Vietnamese mobiles are written', () => {
+    for (const input of [
+      '0901234567',
+      '090 123 4567',
+      '090.123.4567',
+      '+84 90-123-4567',
+      '+84 090 123 4567',
+      '84901234567',
+      '0084901234567',
+      '901234567',
+    ]) {
+      expect(normalizePhoneNumber(input)).toBe('+84901234567');
+    }
+  });
+
+  it('maps pre-2018 eleven-digit numbers to their new prefix', () => {
+    expect(normalizePhoneNumber('0168 123 4567')).toBe('+84381234567');
+    expect(normalizePhoneNumber('01201234567')).toBe('+84701234567');
+    expect(normalizePhoneNumber('01991234567')).toBe('+84591234567');
+    expect(normalizePhoneNumber('01301234567')).toBeNull();
+  });
+
+  it('rejects landlines and junk', () => {
+    expect(normalizePhoneNumber('0263 3822 222')).toBeNull(); // Lâm Đồng landline
+    expect(normalizePhoneNumber('0612345678')).toBeNull();
+    expect(normalizePhoneNumber('12345')).toBeNull();
+    expect(normalizePhoneNumber('hello')).toBeNull();
+  });
+
+  it('passes through international E.164 numbers', () => {
+    expect(normalizePhoneNumber('+49 151 23456789')).toBe('+4915123456789');
+    expect(normalizePhoneNumber('0049 151 23456789')).toBe('+4915123456789');
+    expect(isVietnamesePhone('+4915123456789')).toBe(false);
+  });
+});
+
+describe('phoneInviteEmail', () => {
+  it('builds a stable synthetic address', () => {
+    expect(phoneInviteEmail('+84901234567')).toBe('phone-84901234567@dalat.app');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Phone numbers for SMS / WhatsApp / Zalo invites.
+ *
+ * Organizers paste numbers the way Vietnamese people write them — "090 123
+ * 4567", "+84 90-123-4567", "0084901234567", pre-2018 eleven-digit numbers
+ * like "0168 123 4567" — and every provider wants E.164. Only mobile numbers
+ * are accepted: landlines can't receive SMS or Zalo.
+ */
+
+// 2018 renumbering of eleven-digit mobile prefixes (01xx → 0xx)
+const OLD_MOBILE_PREFIXES: Record<string, string> = {
+  // Viettel
+  '0162': '032', '0163': '033', '0164': '034', '0165': '035',
+  '0166': '036', '0167': '037', '0168': '038', '0169': '039',
+  // MobiFone
+  '0120': '070', '0121': '079', '0122': '077', '0126': '076', '0128': '078',
+  // VinaPhone
+  '0123': '083', '0124': '084', '0125': '085', '0127': '081', '0129': '082',
+  // Vietnamobile
+  '0186': '056', '0188': '058',
+  // Gmobile
+  '0199': '059',
+};
+
+const VN_MOBILE = /^0[35789]\d{8}$/;
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Normalise a Vietnamese mobile number (any common way of writing it) to
+ * E.164, e.g. "+84901234567". Numbers already written with another country
+ * code pass through when they look like valid E.164 — tourists invite each
+ * other on WhatsApp. Returns null for anything else.
+ */
+export function normalizePhoneNumber(input: string): string | null {
+  let digits = input.trim().replace(/[\s.\-()]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+
+  let national: string;
+  if (digits.startsWith('+')) {
+    if (!digits.startsWith('+84')) return E164.test(digits) ? digits : null;
+    national = `0${digits.slice(3)}`;
+  } else if (/^84\d{9,10}$/.test(digits)) {
+    national = `0${digits.slice(2)}`;
+  } else if (/^[35789]\d{8}$/.test(digits)) {
+    // Leading zero dropped
+    national = `0${digits}`;
+  } else {
+    national = digits;
+  }
+
+  // "+84 090…" — the trunk zero kept after the country code
+  if (national.startsWith('00')) national = national.slice(1);
+
+  if (/^01\d{9}$/.test(national)) {
+    const prefix = OLD_MOBILE_PREFIXES[national.slice(0, 4)];
+    if (!prefix) return null;
+    national = prefix + national.slice(4);
+  }
+
+  return VN_MOBILE.test(national) ? `+84${national.slice(1)}` : null;
+}
+
+export function isVietnamesePhone(e164: string): boolean {
+  return e164.startsWith('+84');
+}
+
+/**
+ * Synthetic address for a phone invite, so the invitation tables' UNIQUE
+ * (…, email) constraint dedupes phone invites like username invites.
+ */
+export function phoneInviteEmail(e164: string): string {
+  return `phone-${e164.slice(1)}@dalat.app`;
+}
@@ -0,0 +1,60 @@
+import type { InviteDeliveryStatus, Locale, PhoneInviteChannel } from '@/lib/types';
+
+/**
+ * Invite channel adapter contract.
+ *
+ * Email and in-app invites go through lib/notifications. Phone channels
+ * (SMS, WhatsApp, Zalo) go through an adapter: the route creates the
+ * invitation row first, then hands the rendered invite to whichever adapter
+ * is configured for the channel and records what it reports on the row
+ * (delivery_status, provider_message_id). Providers that report delivery
+ * later call back into /api/invitations/delivery/[adapter].
+ */
+
+export type InviteAdapterId = 'console' | 'twilio-sms' | 'twilio-whatsapp' | 'zalo-zns';
+
+export interface PhoneInvite {
+  /** E.164, already normalised (lib/invites/phone.ts) */
+  to: string;
+  locale: Locale;
+  kind: 'event' | 'tribe';
+  /** Event or tribe name */
+  title: string;
+  /** Pre-formatted start time, for event invites */
+  when?: string | null;
+  inviterName: string;
+  inviteeName?: string | null;
+  personalNote?: string | null;
+  /** Token link the invitee opens */
+  url: string;
+  /** Our invitation id, passed to providers that echo a tracking id */
+  invitationId: string;
+}
+
+export interface InviteDelivery {
+  status: InviteDeliveryStatus;
+  providerMessageId?: string;
+  error?: string;
+}
+
+/** A delivery report parsed from a provider callback */
+export interface DeliveryReport {
+  providerMessageId: string;
+  status: InviteDeliveryStatus;
+  error?: string;
+}
+
+export interface InviteChannelAdapter {
+  id: InviteAdapterId;
+  channels: PhoneInviteChannel[];
+  /** Whether this adapter can send in the current environment */
+  isAvailable(): boolean;
+  /** Numbers this adapter can reach (Zalo: Vietnamese numbers only) */
+  accepts?(phone: string): boolean;
+  send(channel: PhoneInviteChannel, invite: PhoneInvite): Promise<InviteDelivery>;
+  /**
+   * Parse (and authenticate) a delivery status callback. Returns null when the
+   * request isn't a valid report from this provider.
+   */
+  parseStatusCallback?(request: Request): Promise<DeliveryReport[] | null>;
+}
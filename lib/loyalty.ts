@@ -1,11 +1,23 @@
-import { createClient } from "@/lib/supabase/server";
+import { createClient } from "@supabase/supabase-js";
+
+// award_loyalty_points is server-only: a signed-in client could otherwise
+// pick its own activity, points and reference ids
+function createServiceClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  return createClient(url, serviceKey);
+}
 
 /**
  * Award loyalty points to a user for completing an activity.
  *
  * This is a fire-and-forget helper — errors are logged but never thrown.
  * The underlying RPC is idempotent: calling it twice with the same
- * reference_id + activity_type won't double-award.
+ * reference_id + activity_type won't double-award, even after the award
+ * has been reversed. Awards are clamped to the per-activity daily cap in
+ * loyalty_daily_caps, and database triggers reverse them when the source
+ * (moment, comment, RSVP, follow, like) is removed.
  *
  * @returns The number of points awarded (0 if already awarded or on error)
  */
@@ -19,7 +31,12 @@ export async function awardPoints(
   }
 ): Promise<number> {
   try {
-    const supabase = await createClient();
+    const supabase = createServiceClient();
+    if (!supabase) {
+      console.error("[Loyalty] Service role not configured; points not awarded");
+      return 0;
+    }
+
     const { data, error } = await supabase.rpc("award_loyalty_points", {
       p_user_id: userId,
       p_activity_type: activityType,
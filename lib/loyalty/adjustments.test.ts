@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { describeAnomaly, parseAdjustment } from "./adjustments";
+
+describe("parseAdjustment", () => {
+  it("accepts signed amounts with a reason", () => {
+    expect(parseAdjustment("+50", "Helped run the meetup")).toEqual({
+      ok: true,
+      points: 50,
+      reason: "Helped run the meetup",
+    });
+    expect(parseAdjustment(" -1,000 ", "  Like farming  ")).toEqual({
+      ok: true,
+      points: -1000,
+      reason: "Like farming",
+    });
+  });
+
+  it("rejects zero, fractions and out-of-range amounts", () => {
+    expect(parseAdjustment("0", "reason")).toEqual({ ok: false, error: "invalid_points" });
+    expect(parseAdjustment("2.5", "reason")).toEqual({ ok: false, error: "invalid_points" });
+    expect(parseAdjustment("200000", "reason")).toEqual({ ok: false, error: "invalid_points" });
+  });
+
+  it("requires a reason", () => {
+    expect(parseAdjustment("10", "  ")).toEqual({ ok: false, error: "reason_required" });
+    expect(parseAdjustment("10", "ok")).toEqual({ ok: false, error: "reason_required" });
+  });
+});
+
+describe("describeAnomaly", () => {
+  it("names the activity and how often it tripped", () => {
+    expect(describeAnomaly({ kind: "daily_cap", activity_type: "moment_like", occurrences: 3 })).toBe(
+      "moment_like: daily cap ×3"
+    );
+    expect(
+      describeAnomaly({ kind: "reversal_churn", activity_type: "follow_give", occurrences: 1 })
+    ).toBe("follow_give: undo/redo churn");
+  });
+});
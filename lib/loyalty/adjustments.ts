@@ -0,0 +1,45 @@
+import type { LoyaltyAnomalyFlag } from "@/lib/types";
+
+/**
+ * Admin point adjustments. Mirrors the checks in admin_adjust_loyalty_points
+ * (see 20261107_001_loyalty_anti_abuse) so the form can explain a rejection
+ * before submitting.
+ */
+
+export const MAX_ADJUSTMENT = 100_000;
+export const MIN_REASON_LENGTH = 3;
+export const MAX_REASON_LENGTH = 500;
+
+export type AdjustmentError = "invalid_points" | "reason_required";
+
+export type ParsedAdjustment =
+  | { ok: true; points: number; reason: string }
+  | { ok: false; error: AdjustmentError };
+
+/**
+ * Parse the admin form: a signed whole number ("+50", "-20") and a reason.
+ * Positive amounts become admin_bonus entries, negative ones penalties.
+ */
+export function parseAdjustment(pointsInput: string, reasonInput: string): ParsedAdjustment {
+  const cleaned = pointsInput.replace(/[\s,]/g, "");
+  if (!/^[+-]?\d+$/.test(cleaned)) return { ok: false, error: "invalid_points" };
+
+  const points = Number(cleaned);
+  if (points === 0 || Math.abs(points) > MAX_ADJUSTMENT) {
+    return { ok: false, error: "invalid_points" };
+  }
+
+  const reason = reasonInput.trim();
+  if (reason.length < MIN_REASON_LENGTH || reason.length > MAX_REASON_LENGTH) {
+    return { ok: false, error: "reason_required" };
+  }
+
+  return { ok: true, points, reason };
+}
+
+/** One line an admin can read at a glance, e.g. "moment_like: daily cap ×3". */
+export function describeAnomaly(flag: Pick<LoyaltyAnomalyFlag, "kind" | "activity_type" | "occurrences">): string {
+  const label = flag.kind === "daily_cap" ? "daily cap" : "undo/redo churn";
+  const times = flag.occurrences > 1 ? ` ×${flag.occurrences}` : "";
+  return `${flag.activity_type}: ${label}${times}`;
+}
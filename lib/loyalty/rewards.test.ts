@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  earlyAccessOpensAt,
+  isRedemptionUsable,
+  normalizePerkCode,
+  rewardDiscount,
+} from "./rewards";
+
+describe("normalizePerkCode", () => {
+  it("accepts codes typed loosely", () => {
+    expect(normalizePerkCode("pk-abc 234")).toBe("PKABC234");
+    expect(normalizePerkCode(" PKXYZ789 ")).toBe("PKXYZ789");
+  });
+
+  it("rejects tickets, order references and look-alike characters", () => {
+    expect(normalizePerkCode("dlt1.r.00000000-0000-0000-0000-000000000000.sig")).toBeNull();
+    expect(normalizePerkCode("DLABC234")).toBeNull();
+    expect(normalizePerkCode("PKABC0O1")).toBeNull();
+  });
+});
+
+describe("rewardDiscount", () => {
+  const none = { discount_percentage: null, discount_fixed_amount: null, discount_currency: "VND" };
+
+  it("takes a percentage, rounding down", () => {
+    expect(rewardDiscount(150_000, "VND", { ...none, discount_percentage: 15 })).toBe(22_500);
+    expect(rewardDiscount(99, "USD", { ...none, discount_percentage: 10 })).toBe(9);
+  });
+
+  it("caps a fixed amount at the subtotal", () => {
+    expect(rewardDiscount(30_000, "VND", { ...none, discount_fixed_amount: 50_000 })).toBe(30_000);
+  });
+
+  it("skips a fixed amount in another currency", () => {
+    expect(rewardDiscount(20, "USD", { ...none, discount_fixed_amount: 50_000 })).toBeNull();
+  });
+});
+
+describe("isRedemptionUsable", () => {
+  it("needs an approved, unspent redemption", () => {
+    expect(isRedemptionUsable({ status: "approved", used_at: null })).toBe(true);
+    expect(isRedemptionUsable({ status: "pending", used_at: null })).toBe(false);
+    expect(isRedemptionUsable({ status: "fulfilled", used_at: "2026-11-01T00:00:00Z" })).toBe(false);
+  });
+});
+
+describe("earlyAccessOpensAt", () => {
+  it("uses the longest window", () => {
+    expect(earlyAccessOpensAt("2026-11-10T12:00:00Z", [6, 24])?.toISOString()).toBe(
+      "2026-11-09T12:00:00.000Z"
+    );
+    expect(earlyAccessOpensAt("2026-11-10T12:00:00Z", [])).toBeNull();
+  });
+});
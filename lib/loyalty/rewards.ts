@@ -0,0 +1,57 @@
+import type { CatalogReward, RewardRedemption } from "@/lib/types";
+
+/**
+ * Client-side helpers for claimed rewards. The database decides whether a
+ * reward can actually be used (see 20261106_001_loyalty_reward_fulfilment);
+ * these only mirror it so the UI can show prices and hints up front.
+ */
+
+// Same look-alike-free alphabet as ticket order references
+const PERK_CODE_PATTERN = /^PK[ABCDEFGHJKMNPQRSTUVWXYZ23456789]{6}$/;
+
+/**
+ * Tidy a perk code the way redeem_perk_code() does — uppercase, spaces and
+ * dashes dropped — and return it if it looks like one, else null. Lets the
+ * check-in scanner tell perk codes from door tickets.
+ */
+export function normalizePerkCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return PERK_CODE_PATTERN.test(code) ? code : null;
+}
+
+type DiscountFields = Pick<
+  CatalogReward,
+  "discount_percentage" | "discount_fixed_amount" | "discount_currency"
+>;
+
+/**
+ * Amount a discount reward takes off an order, or null when it doesn't
+ * apply (a fixed amount in another currency). Rounds down like the RPC.
+ */
+export function rewardDiscount(
+  subtotal: number,
+  currency: string,
+  reward: DiscountFields
+): number | null {
+  if (reward.discount_percentage != null) {
+    return Math.floor((subtotal * reward.discount_percentage) / 100);
+  }
+  if (reward.discount_fixed_amount != null && reward.discount_currency === currency) {
+    return Math.min(reward.discount_fixed_amount, subtotal);
+  }
+  return null;
+}
+
+/** A claimed reward that hasn't been spent yet. */
+export function isRedemptionUsable(redemption: Pick<RewardRedemption, "status" | "used_at">): boolean {
+  return redemption.status === "approved" && !redemption.used_at;
+}
+
+/**
+ * Earliest moment a member holding the given early-access rewards can RSVP,
+ * or null if none of them applies. `hours` are the rewards' windows.
+ */
+export function earlyAccessOpensAt(rsvpOpensAt: string, hours: number[]): Date | null {
+  if (hours.length === 0) return null;
+  return new Date(new Date(rsvpOpensAt).getTime() - Math.max(...hours) * 60 * 60 * 1000);
+}
@@ -247,25 +247,29 @@ function extractElementByClass(html: string, className: string): string | null {
 
 /**
  * Extract main content from article HTML.
- * Accepts class names (without dots) to search for content containers.
+ * Accepts class names (without dots) to search for content containers and
+ * reports which one matched (null when it fell back to og:description).
  */
-export function extractContent(html: string, selectors: string[]): string {
+export function extractContent(
+  html: string,
+  selectors: string[]
+): { content: string; className: string | null } {
   for (const selector of selectors) {
     // Strip leading dot if provided (e.g. '.fck_detail' -> 'fck_detail')
     const className = selector.startsWith('.') ? selector.slice(1) : selector;
     const inner = extractElementByClass(html, className);
     if (inner) {
       const content = stripHtml(inner);
-      if (content.length > 100) return content;
+      if (content.length > 100) return { content, className };
     }
   }
 
   // Fallback: extract from og:description
   const ogDesc = html.match(/<meta\s+property="og:description"\s+content="([^"]+)"/i)
     || html.match(/<meta\s+content="([^"]+)"\s+property="og:description"/i);
-  if (ogDesc) return stripHtml(ogDesc[1]);
+  if (ogDesc) return { content: stripHtml(ogDesc[1]), className: null };
 
-  return '';
+  return { content: '', className: null };
 }
 
 /**
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { yieldAlert } from './source-health';
+
+const source = { id: 'tuoitre', name: 'Tuổi Trẻ', discoveryUrl: 'https://tuoitre.vn/da-lat.html' };
+
+describe('yieldAlert', () => {
+  it('alerts when a producing source drops to zero links', () => {
+    const alert = yieldAlert(source, 12, { linksFound: 0, articleCount: 0 });
+    expect(alert).toContain('Tuổi Trẻ');
+    expect(alert).toContain('link pattern');
+  });
+
+  it('points at the content classes when links were found but nothing parsed', () => {
+    expect(yieldAlert(source, 12, { linksFound: 25, articleCount: 0 })).toContain('content classes');
+  });
+
+  it('stays quiet while a source remains at zero', () => {
+    expect(yieldAlert(source, 0, { linksFound: 0, articleCount: 0 })).toBeNull();
+  });
+
+  it('reports recovery once', () => {
+    expect(yieldAlert(source, 0, { linksFound: 10, articleCount: 4 })).toContain('recovered');
+    expect(yieldAlert(source, 4, { linksFound: 10, articleCount: 4 })).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Yield monitoring for news sources. Each scrape records how many links and
+ * articles a source produced; when a source that was producing drops to
+ * zero (usually a markup change breaking its definition) Telegram is told
+ * once, and again when it recovers.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendTelegram } from '@/lib/alerts/telegram';
+import type { NewsSource, SourceScrapeResult } from './types';
+
+/**
+ * Alert text for a change in yield, or null when nothing changed that is
+ * worth a message. `previousYield` is null for a source's first run.
+ */
+export function yieldAlert(
+  source: Pick<NewsSource, 'id' | 'name' | 'discoveryUrl'>,
+  previousYield: number | null,
+  run: Pick<SourceScrapeResult, 'linksFound'> & { articleCount: number }
+): string | null {
+  const review = `Dry run: https://dalat.app/admin/news-sources#${source.id}`;
+
+  if (run.articleCount === 0 && previousYield !== 0) {
+    // Which stage came up empty points at the broken part of the definition
+    const stage =
+      run.linksFound === 0
+        ? `no article links found on ${source.discoveryUrl} (link pattern or discovery URL)`
+        : `${run.linksFound} links found but no article parsed (content classes)`;
+    return `🚨 <b>News source yielded nothing: ${source.name}</b>\n${stage}\n${review}`;
+  }
+
+  if (run.articleCount > 0 && previousYield === 0) {
+    return `✅ News source recovered: ${source.name} (${run.articleCount} articles)`;
+  }
+
+  return null;
+}
+
+/**
+ * Store the run's yield on the source row and send any alert. Never throws:
+ * monitoring must not break the scrape it watches.
+ */
+export async function recordSourceYield(
+  supabase: SupabaseClient,
+  source: NewsSource,
+  run: SourceScrapeResult
+): Promise<void> {
+  try {
+    const { data: previous } = await supabase
+      .from('news_sources')
+      .select('last_yield')
+      .eq('id', source.id)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from('news_sources')
+      .update({
+        last_run_at: new Date().toISOString(),
+        last_link_count: run.linksFound,
+        last_yield: run.articles.length,
+      })
+      .eq('id', source.id);
+    if (error) {
+      console.error(`[news-sources] Failed to record yield for ${source.id}:`, error);
+    }
+
+    const alert = yieldAlert(source, previous?.last_yield ?? null, {
+      linksFound: run.linksFound,
+      articleCount: run.articles.length,
+    });
+    if (alert) await sendTelegram(alert);
+  } catch (error) {
+    console.error(`[news-sources] Yield check failed for ${source.id}:`, error);
+  }
+}
@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { NEWS_SOURCES } from './sources';
+import { discoverArticleUrls, parseArticle } from './source-scraper';
+import type { NewsSource } from './types';
+
+// Saved pages from each outlet (trimmed to the parts the definitions touch).
+// When a site changes its markup, save the new page here and update the
+// definition until these pass again.
+function fixture(sourceId: string, page: 'discovery' | 'article'): string {
+  return readFileSync(path.join(__dirname, '__fixtures__', sourceId, `${page}.html`), 'utf8');
+}
+
+function source(id: string): NewsSource {
+  return NEWS_SOURCES.find(s => s.id === id)!;
+}
+
+const EXPECTED: Record<
+  string,
+  { links: string[]; title: string; contentClass: string; publishedAt: string }
+> = {
+  tuoitre: {
+    links: [
+      'https://tuoitre.vn/da-lat-mo-lai-tuyen-duong-len-dinh-langbiang-20261012093015123.htm',
+      'https://tuoitre.vn/festival-hoa-da-lat-2026-cong-bo-chuong-trinh-20261011184502456.htm',
+    ],
+    title: 'Đà Lạt mở lại tuyến đường lên đỉnh Langbiang',
+    contentClass: 'detail-content',
+    publishedAt: '2026-10-12T09:30:15+07:00',
+  },
+  vnexpress: {
+    links: [
+      'https://vnexpress.net/ho-xuan-huong-duoc-nao-vet-sau-20-nam-4801234.html',
+      'https://vnexpress.net/san-bay-lien-khuong-don-chuyen-bay-quoc-te-moi-4801567.html',
+    ],
+    title: 'Hồ Xuân Hương được nạo vét sau 20 năm',
+    contentClass: 'fck_detail',
+    publishedAt: '2026-10-10T06:15:00+07:00',
+  },
+  thanhnien: {
+    links: [
+      'https://thanhnien.vn/cho-dem-da-lat-sap-xep-lai-gian-hang-185261009223344556.htm',
+      'https://thanhnien.vn/lang-hoa-van-thanh-mo-cua-don-khach-185261008101112131.htm',
+    ],
+    title: 'Chợ đêm Đà Lạt sắp xếp lại gian hàng',
+    contentClass: 'detail__content',
+    publishedAt: '2026-10-09T22:33:00+07:00',
+  },
+  baophapluat: {
+    links: [
+      'https://baophapluat.vn/lam-dong-xu-phat-cong-trinh-khong-phep-tren-doi-robin-post541234.html',
+      'https://baophapluat.vn/da-lat-tang-cuong-kiem-tra-an-toan-thuc-pham-post541299.html',
+    ],
+    title: 'Lâm Đồng xử phạt công trình không phép trên đồi Robin',
+    contentClass: 'content-detail',
+    publishedAt: '2026-10-08T14:00:00+07:00',
+  },
+  congan: {
+    links: [
+      'https://congan.com.vn/tin-chinh/da-lat-triet-pha-duong-day-lua-dao-dat-phong-homestay_123456.html',
+      'https://congan.com.vn/doi-song/deo-prenn-thong-xe-sau-sat-lo_123789.html',
+    ],
+    title: 'Đà Lạt triệt phá đường dây lừa đảo đặt phòng homestay',
+    contentClass: 'content-detail',
+    publishedAt: '2026-10-07T08:45:00+07:00',
+  },
+};
+
+describe('news source definitions against saved pages', () => {
+  it('has a fixture for every built-in source', () => {
+    expect(Object.keys(EXPECTED).sort()).toEqual(NEWS_SOURCES.map(s => s.id).sort());
+  });
+
+  describe.each(Object.entries(EXPECTED))('%s', (id, expected) => {
+    it('finds the article links and skips listing pages', () => {
+      expect(discoverArticleUrls(source(id), fixture(id, 'discovery'))).toEqual(expected.links);
+    });
+
+    it('extracts title, body and date from an article', () => {
+      const { extraction, article } = parseArticle(source(id), expected.links[0], fixture(id, 'article'));
+      expect(extraction.rejected).toBeNull();
+      expect(extraction.title).toBe(expected.title);
+      expect(extraction.contentClass).toBe(expected.contentClass);
+      expect(extraction.publishedAt).toBe(expected.publishedAt);
+      expect(article?.content.length).toBeGreaterThan(100);
+      expect(article?.imageUrls.length).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('parseArticle', () => {
+  it('rejects a page whose body container was renamed', () => {
+    const html = fixture('tuoitre', 'article').replace('detail-content', 'detail-body-v2');
+    const { extraction, article } = parseArticle(source('tuoitre'), 'https://tuoitre.vn/x-1.htm', html);
+    expect(article).toBeNull();
+    expect(extraction.rejected).toBe('no_content');
+  });
+
+  it('caps discovered links at maxArticles', () => {
+    const capped = { ...source('vnexpress'), maxArticles: 1 };
+    expect(discoverArticleUrls(capped, fixture('vnexpress', 'discovery'))).toHaveLength(1);
+  });
+});
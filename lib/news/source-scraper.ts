@@ -0,0 +1,160 @@
+/**
+ * Generic news scraper driven by a NewsSource definition: the definition's
+ * link pattern finds articles on the discovery page and its content classes
+ * locate the article body.
+ */
+
+import type {
+  ArticleExtraction,
+  NewsSource,
+  ScrapedArticle,
+  SourceDryRun,
+  SourceScrapeResult,
+} from './types';
+import {
+  fetchWithDelay,
+  extractTitle,
+  extractContent,
+  extractImages,
+  extractPublishedDate,
+  isDalatRelated,
+} from './base-scraper';
+
+/** Articles shorter than this are treated as teaser or paywall pages */
+const MIN_CONTENT_LENGTH = 50;
+
+/** Article pages fetched by a dry run */
+export const DRY_RUN_ARTICLE_LIMIT = 3;
+
+/**
+ * Article URLs on a discovery page, absolute, de-duplicated and capped at
+ * the source's maxArticles.
+ */
+export function discoverArticleUrls(source: NewsSource, html: string): string[] {
+  const pattern = new RegExp(source.linkPattern, 'gi');
+  const links: string[] = [];
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    // Guard against patterns that can match the empty string
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    const href = match[1];
+    if (!href) continue;
+    const url = href.startsWith('/') ? source.baseUrl + href : href;
+    if (source.excludeLinks.some(fragment => url.includes(fragment))) continue;
+    if (!links.includes(url)) links.push(url);
+  }
+  return links.slice(0, source.maxArticles);
+}
+
+/**
+ * Run the source's extractors over one article page. `article` is null when
+ * the page is rejected; `extraction` always says what was found and why.
+ */
+export function parseArticle(
+  source: NewsSource,
+  url: string,
+  html: string
+): { extraction: ArticleExtraction; article: ScrapedArticle | null } {
+  const title = extractTitle(html);
+  const { content, className } = extractContent(html, source.contentClasses);
+  const publishedAt = extractPublishedDate(html);
+  const imageUrls = extractImages(html);
+
+  let rejected: ArticleExtraction['rejected'] = null;
+  if (!title) rejected = 'no_title';
+  else if (content.length < MIN_CONTENT_LENGTH) rejected = 'no_content';
+  else if (!isDalatRelated(title, content)) rejected = 'not_dalat';
+
+  const extraction: ArticleExtraction = {
+    url,
+    title,
+    contentClass: className,
+    contentLength: content.length,
+    contentPreview: content.slice(0, 280),
+    publishedAt,
+    imageUrls,
+    rejected,
+  };
+
+  const article =
+    rejected || !title
+      ? null
+      : {
+          sourceId: source.id,
+          sourceUrl: url,
+          sourceName: source.name,
+          title,
+          content,
+          imageUrls,
+          publishedAt,
+        };
+
+  return { extraction, article };
+}
+
+/**
+ * Scrape one source. Never throws; a dead discovery page yields no links.
+ */
+export async function scrapeSource(source: NewsSource): Promise<SourceScrapeResult> {
+  try {
+    const html = await fetchWithDelay(source.discoveryUrl, source.requestDelay);
+    const articleUrls = html ? discoverArticleUrls(source, html) : [];
+
+    const articles: ScrapedArticle[] = [];
+    for (const url of articleUrls) {
+      try {
+        const page = await fetchWithDelay(url, source.requestDelay);
+        if (!page) continue;
+        const { article } = parseArticle(source, url, page);
+        if (article) articles.push(article);
+      } catch (error) {
+        console.error(`[${source.id}] Error scraping ${url}:`, error);
+      }
+    }
+
+    return { linksFound: articleUrls.length, articles };
+  } catch (error) {
+    console.error(`[${source.id}] Fatal error during scrape:`, error);
+    return { linksFound: 0, articles: [] };
+  }
+}
+
+/**
+ * Fetch the discovery page and the first few articles without storing
+ * anything, reporting what every extractor returned so an admin can check a
+ * definition before saving it.
+ */
+export async function dryRunSource(
+  source: NewsSource,
+  articleLimit: number = DRY_RUN_ARTICLE_LIMIT
+): Promise<SourceDryRun> {
+  const html = await fetchWithDelay(source.discoveryUrl, 0);
+  if (!html) {
+    return { discoveryStatus: 'fetch_failed', links: [], articles: [] };
+  }
+
+  const links = discoverArticleUrls(source, html);
+  const articles: ArticleExtraction[] = [];
+  for (const url of links.slice(0, articleLimit)) {
+    const page = await fetchWithDelay(url, source.requestDelay);
+    if (!page) {
+      articles.push({
+        url,
+        title: null,
+        contentClass: null,
+        contentLength: 0,
+        contentPreview: '',
+        publishedAt: null,
+        imageUrls: [],
+        rejected: 'fetch_failed',
+      });
+      continue;
+    }
+    articles.push(parseArticle(source, url, page).extraction);
+  }
+
+  return { discoveryStatus: 'ok', links, articles };
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { NEWS_SOURCES, validateNewsSource } from './sources';
+
+describe('validateNewsSource', () => {
+  it('accepts every built-in source', () => {
+    for (const source of NEWS_SOURCES) {
+      expect(validateNewsSource(source)).toEqual([]);
+    }
+  });
+
+  it('rejects a link pattern that does not compile or has no capture group', () => {
+    const base = NEWS_SOURCES[0];
+    expect(validateNewsSource({ ...base, linkPattern: 'href="(/[^"]*' })[0]).toMatch(/not a valid regex/);
+    expect(validateNewsSource({ ...base, linkPattern: 'href="/[^"]*"' })).toEqual([
+      'Link pattern needs a capture group around the href',
+    ]);
+  });
+
+  it('rejects selector syntax in content classes', () => {
+    expect(validateNewsSource({ ...NEWS_SOURCES[0], contentClasses: ['div.detail > p'] })).toEqual([
+      'Content classes must be plain class names, e.g. detail-content',
+    ]);
+  });
+});
@@ -1,8 +1,12 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { NewsSource } from './types';
 
 /**
  * DaLat News Source Registry
- * Each source defines how to find and extract Dalat-related articles
+ *
+ * Sources live in the news_sources table (admin-editable at
+ * /admin/news-sources). NEWS_SOURCES mirrors the seed rows and is used when
+ * the table can't be read, so a database hiccup never stops the scrape.
  */
 export const NEWS_SOURCES: NewsSource[] = [
   {
@@ -10,95 +14,202 @@ export const NEWS_SOURCES: NewsSource[] = [
     name: 'Tuổi Trẻ',
     baseUrl: 'https://tuoitre.vn',
     discoveryUrl: 'https://tuoitre.vn/da-lat.html',
-    selectors: {
-      articleList: '.box-category-item, .news-item',
-      articleLink: 'a[href*="/"]',
-      title: 'h1.article-title, h1.detail-title',
-      content: '.detail-content, .detail__content',
-      image: '.detail-content img, .detail__content img, meta[property="og:image"]',
-      date: '.date-time, .detail-time, meta[property="article:published_time"]',
-    },
+    // tuoitre uses .htm suffix and numeric article IDs
+    linkPattern: 'href="(/[^"]*-\\d+\\.html?)"',
+    excludeLinks: ['/tag/'],
+    contentClasses: ['detail-content', 'detail__content', 'fck_detail'],
     maxArticles: 30,
     requestDelay: 500,
+    enabled: true,
   },
   {
     id: 'vnexpress',
     name: 'VnExpress',
     baseUrl: 'https://vnexpress.net',
     discoveryUrl: 'https://vnexpress.net/tag/da-lat-1',
-    selectors: {
-      articleList: '.item-news, article.item-news',
-      articleLink: 'a.title-news[href]',
-      title: 'h1.title-detail',
-      content: '.fck_detail, article.fck_detail',
-      image: '.fck_detail img, meta[property="og:image"]',
-      date: '.date, meta[property="article:published_time"]',
-    },
+    linkPattern: 'href="(https://vnexpress\\.net/[^"]*-\\d+\\.html)"',
+    excludeLinks: ['/tag/'],
+    contentClasses: ['fck_detail', 'detail-content'],
     maxArticles: 30,
     requestDelay: 500,
+    enabled: true,
   },
   {
     id: 'thanhnien',
     name: 'Thanh Niên',
     baseUrl: 'https://thanhnien.vn',
     discoveryUrl: 'https://thanhnien.vn/da-lat.html',
-    selectors: {
-      articleList: '.story, .box-news-item',
-      articleLink: 'a.story__title[href], a.box-news-link[href]',
-      title: 'h1.detail__title',
-      content: '.detail__content, .detail-content',
-      image: '.detail__content img, meta[property="og:image"]',
-      date: '.detail__meta time, meta[property="article:published_time"]',
-    },
+    // Mixes absolute and relative article links
+    linkPattern: 'href="((?:https://thanhnien\\.vn)?/[^"]*-\\d+\\.html?)"',
+    excludeLinks: ['/tag/', '/da-lat.html'],
+    contentClasses: ['detail__content', 'detail-content', 'article-content'],
     maxArticles: 30,
     requestDelay: 500,
+    enabled: true,
   },
   {
     id: 'baophapluat',
     name: 'Báo Pháp Luật',
     baseUrl: 'https://baophapluat.vn',
     discoveryUrl: 'https://baophapluat.vn/da-lat-tag285.html',
-    selectors: {
-      articleList: '.item-news, .news-item',
-      articleLink: 'a[href*=".html"]',
-      title: 'h1.title-detail, h1.article-title',
-      content: '.content-detail, .article-content',
-      image: '.content-detail img, meta[property="og:image"]',
-      date: '.date-time, meta[property="article:published_time"]',
-    },
+    linkPattern: 'href="((?:https://baophapluat\\.vn)?/[^"]*\\.html)"',
+    excludeLinks: ['-tag', 'chuyenmuc'],
+    contentClasses: ['content-detail', 'article-content', 'detail-content'],
     maxArticles: 20,
     requestDelay: 700,
+    enabled: true,
   },
   {
     id: 'congan',
     name: 'Công An TP.HCM',
     baseUrl: 'https://congan.com.vn',
     discoveryUrl: 'https://congan.com.vn/tag/%C4%90%C3%A0+L%E1%BA%A1t.html',
-    selectors: {
-      articleList: '.item-news, .news-item',
-      articleLink: 'a[href*=".html"]',
-      title: 'h1.title-detail, h1',
-      content: '.detail-content, .content-detail, .article-body',
-      image: '.detail-content img, .content-detail img, meta[property="og:image"]',
-      date: '.date-time, time, meta[property="article:published_time"]',
-    },
+    linkPattern: 'href="((?:https://congan\\.com\\.vn)?/[^"]*\\.html)"',
+    excludeLinks: ['/tag/'],
+    contentClasses: ['detail-content', 'content-detail', 'article-body'],
     maxArticles: 20,
     requestDelay: 700,
+    enabled: true,
   },
 ];
 
-export function getSourceById(id: string): NewsSource | undefined {
-  return NEWS_SOURCES.find(s => s.id === id);
+/** news_sources row as stored */
+export interface NewsSourceRow {
+  id: string;
+  name: string;
+  base_url: string;
+  discovery_url: string;
+  link_pattern: string;
+  exclude_links: string[];
+  content_classes: string[];
+  max_articles: number;
+  request_delay_ms: number;
+  enabled: boolean;
+  sort_order: number;
+  last_run_at: string | null;
+  last_link_count: number | null;
+  last_yield: number | null;
+}
+
+export function rowToNewsSource(row: NewsSourceRow): NewsSource {
+  return {
+    id: row.id,
+    name: row.name,
+    baseUrl: row.base_url,
+    discoveryUrl: row.discovery_url,
+    linkPattern: row.link_pattern,
+    excludeLinks: row.exclude_links ?? [],
+    contentClasses: row.content_classes ?? [],
+    maxArticles: row.max_articles,
+    requestDelay: row.request_delay_ms,
+    enabled: row.enabled,
+  };
+}
+
+export function newsSourceToRow(source: NewsSource) {
+  return {
+    id: source.id,
+    name: source.name,
+    base_url: source.baseUrl,
+    discovery_url: source.discoveryUrl,
+    link_pattern: source.linkPattern,
+    exclude_links: source.excludeLinks,
+    content_classes: source.contentClasses,
+    max_articles: source.maxArticles,
+    request_delay_ms: source.requestDelay,
+    enabled: source.enabled,
+  };
+}
+
+/**
+ * Enabled sources in scrape order. Falls back to the built-in list when the
+ * table is unreadable; an empty table means every source was deliberately
+ * removed, so it is respected.
+ */
+export async function loadNewsSources(supabase: SupabaseClient): Promise<NewsSource[]> {
+  const { data, error } = await supabase
+    .from('news_sources')
+    .select('*')
+    .eq('enabled', true)
+    .order('sort_order')
+    .order('id');
+
+  if (error || !data) {
+    console.error('[news] Failed to load news_sources, using built-in list:', error);
+    return NEWS_SOURCES.filter(s => s.enabled);
+  }
+
+  return (data as NewsSourceRow[]).map(rowToNewsSource);
+}
+
+/**
+ * Coerce a JSON request body into a NewsSource; run validateNewsSource on
+ * the result before using it.
+ */
+export function newsSourceFromInput(input: Record<string, unknown>): NewsSource {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const list = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean)
+      : [];
+
+  return {
+    id: text(input.id),
+    name: text(input.name),
+    baseUrl: text(input.baseUrl).replace(/\/+$/, ''),
+    discoveryUrl: text(input.discoveryUrl),
+    linkPattern: text(input.linkPattern),
+    excludeLinks: list(input.excludeLinks),
+    contentClasses: list(input.contentClasses).map(c => c.replace(/^\./, '')),
+    maxArticles: Number(input.maxArticles),
+    requestDelay: Number(input.requestDelay),
+    enabled: input.enabled !== false,
+  };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
 }
 
 /**
- * Get a source by ID, throwing if not found.
- * Use in scrapers where the source MUST exist at module load time.
+ * Check an admin-submitted definition. Returns human-readable problems;
+ * an empty list means the source can be saved and scraped.
  */
-export function getSourceOrThrow(id: string): NewsSource {
-  const source = NEWS_SOURCES.find(s => s.id === id);
-  if (!source) {
-    throw new Error(`[news] Source "${id}" not found in NEWS_SOURCES`);
+export function validateNewsSource(source: NewsSource): string[] {
+  const problems: string[] = [];
+
+  if (!/^[a-z0-9-]{2,40}$/.test(source.id)) {
+    problems.push('ID must be 2–40 lowercase letters, digits or dashes');
+  }
+  if (!source.name?.trim()) problems.push('Name is required');
+  if (!isHttpUrl(source.baseUrl)) problems.push('Base URL must be an http(s) URL');
+  if (!isHttpUrl(source.discoveryUrl)) problems.push('Discovery URL must be an http(s) URL');
+
+  try {
+    // An empty alternative makes the regex match "", exposing its group count
+    const groups = new RegExp(`${source.linkPattern}|`).exec('')!.length - 1;
+    if (groups < 1) problems.push('Link pattern needs a capture group around the href');
+  } catch (error) {
+    problems.push(`Link pattern is not a valid regex: ${(error as Error).message}`);
+  }
+
+  if (source.contentClasses.length === 0) {
+    problems.push('At least one content class is required');
+  } else if (source.contentClasses.some(c => !/^\.?[\w-]+$/.test(c))) {
+    problems.push('Content classes must be plain class names, e.g. detail-content');
   }
-  return source;
+
+  if (!Number.isInteger(source.maxArticles) || source.maxArticles < 1 || source.maxArticles > 100) {
+    problems.push('Max articles must be between 1 and 100');
+  }
+  if (!Number.isInteger(source.requestDelay) || source.requestDelay < 0 || source.requestDelay > 10000) {
+    problems.push('Request delay must be between 0 and 10000 ms');
+  }
+
+  return problems;
 }
@@ -7,20 +7,45 @@ export interface NewsSource {
   name: string;
   baseUrl: string;
   discoveryUrl: string;
-  /** CSS selectors or patterns for article extraction */
-  selectors: {
-    articleList: string;
-    articleLink: string;
-    title: string;
-    content: string;
-    image: string;
-    date: string;
-    author?: string;
-  };
+  /** Regex (flags gi) run over the discovery page; group 1 is an article href */
+  linkPattern: string;
+  /** Substrings marking a matched href as a tag/listing page, not an article */
+  excludeLinks: string[];
+  /** Class names of the article body container, tried in order */
+  contentClasses: string[];
   /** Maximum articles per scrape run */
   maxArticles: number;
   /** Delay between requests in ms */
   requestDelay: number;
+  enabled: boolean;
+}
+
+/** What one scrape of a source produced, for yield monitoring */
+export interface SourceScrapeResult {
+  linksFound: number;
+  articles: ScrapedArticle[];
+}
+
+/** Why an article page was not turned into a ScrapedArticle */
+export type ArticleRejection = 'fetch_failed' | 'no_title' | 'no_content' | 'not_dalat';
+
+/** Everything the source definition extracted from one article page */
+export interface ArticleExtraction {
+  url: string;
+  title: string | null;
+  /** Class name that yielded the content, or null for the og:description fallback */
+  contentClass: string | null;
+  contentLength: number;
+  contentPreview: string;
+  publishedAt: string | null;
+  imageUrls: string[];
+  rejected: ArticleRejection | null;
+}
+
+export interface SourceDryRun {
+  discoveryStatus: 'ok' | 'fetch_failed';
+  links: string[];
+  articles: ArticleExtraction[];
 }
 
 export interface ScrapedArticle {
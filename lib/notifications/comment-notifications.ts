@@ -1,5 +1,5 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { notify } from '@/lib/notifications';
+import { notify, notifyTribeNewPost } from '@/lib/notifications';
 import type {
   CommentOnEventPayload,
   CommentOnMomentPayload,
@@ -52,6 +52,33 @@ async function isThreadMuted(
   return !!data;
 }
 
+/**
+ * Active members of a tribe, minus the author and anyone who muted the
+ * board (a muted_threads row keyed by the tribe id).
+ */
+async function getTribePostRecipients(
+  supabase: AnySupabaseClient,
+  tribeId: string,
+  authorId: string
+): Promise<string[]> {
+  const [{ data: members }, { data: muted }] = await Promise.all([
+    supabase
+      .from('tribe_members')
+      .select('user_id')
+      .eq('tribe_id', tribeId)
+      .eq('status', 'active'),
+    supabase
+      .from('muted_threads')
+      .select('user_id')
+      .eq('thread_id', tribeId),
+  ]);
+
+  const mutedIds = new Set((muted ?? []).map((m: { user_id: string }) => m.user_id));
+  return (members ?? [])
+    .map((m: { user_id: string }) => m.user_id)
+    .filter((id: string) => id !== authorId && !mutedIds.has(id));
+}
+
 function getCommentPreview(content: string): string {
   if (content.length <= 100) return content;
   return content.slice(0, 97) + '...';
@@ -63,6 +90,7 @@ export interface CommentCreatedData {
   contentId: string;
   contentOwnerId: string;
   contentTitle: string;
+  /** The event's slug — or the tribe's, for tribe posts */
   eventSlug: string;
   commentAuthorId: string;
   commentContent: string;
@@ -78,6 +106,9 @@ export interface CommentCreatedData {
  * 2. If reply: notify parent comment author
  * 3. If reply by someone other than content owner: notify content owner of thread activity
  *
+ * Tribe posts differ: a new post goes to every active member (tribe_new_post)
+ * except those who muted the board, and replies only notify the post author.
+ *
  * Never notify:
  * - Yourself
  * - The same person twice for the same action
@@ -136,6 +167,23 @@ export async function sendCommentNotifications(
     }
   }
 
+  if (contentType === 'tribe') {
+    if (!parentCommentId) {
+      const recipients = await getTribePostRecipients(supabase, contentId, commentAuthorId);
+      if (recipients.length > 0) {
+        await notifyTribeNewPost(recipients, {
+          tribeName: contentTitle,
+          tribeSlug: eventSlug,
+          postId: commentId,
+          authorName: commentAuthorName,
+          postPreview: commentPreview,
+        });
+        recipients.forEach((id) => notified.add(id));
+      }
+    }
+    return { notified: Array.from(notified) };
+  }
+
   // 2. Notify content owner if not already notified and not the commenter
   if (contentOwnerId !== commentAuthorId && !notified.has(contentOwnerId)) {
     // Check if this is a direct comment or thread activity
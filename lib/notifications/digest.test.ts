@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { isDigestDue, isDigestible, summarizeDigest, type DigestItem } from './digest';
+import type { NotificationPayload } from './types';
+
+const BASE = 'https://dalat.app';
+
+function rsvp(eventId: string, attendeeName: string): Pick<DigestItem, 'type' | 'payload'> {
+  return {
+    type: 'new_rsvp',
+    payload: {
+      type: 'new_rsvp',
+      userId: 'organizer',
+      locale: 'en',
+      eventId,
+      eventSlug: `slug-${eventId}`,
+      eventTitle: `Event ${eventId}`,
+      attendeeName,
+    } as NotificationPayload,
+  };
+}
+
+describe('isDigestible', () => {
+  it('only batches the low-priority types', () => {
+    expect(isDigestible('new_rsvp')).toBe(true);
+    expect(isDigestible('new_follower')).toBe(true);
+    expect(isDigestible('final_reminder_2h')).toBe(false);
+    expect(isDigestible('event_address_reveal')).toBe(false);
+  });
+});
+
+describe('summarizeDigest', () => {
+  it('counts notifications and distinct subjects per type', () => {
+    const items = [
+      rsvp('a', 'Linh'),
+      rsvp('a', 'Minh'),
+      rsvp('b', 'Hoa'),
+      {
+        type: 'thread_activity' as const,
+        payload: {
+          type: 'thread_activity',
+          userId: 'organizer',
+          locale: 'en',
+          contentType: 'moment',
+          contentId: 'm1',
+          eventSlug: 'slug-a',
+          contentTitle: 'Sunset',
+          threadId: 't1',
+          activityCount: 4,
+        } as NotificationPayload,
+      },
+    ];
+
+    const groups = summarizeDigest(items, BASE);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ type: 'new_rsvp', count: 3 });
+    expect(groups[0].subjects.map((s) => [s.title, s.count])).toEqual([
+      ['Event a', 2],
+      ['Event b', 1],
+    ]);
+    // Thread activity already aggregates replies
+    expect(groups[1]).toMatchObject({ type: 'thread_activity', count: 4 });
+    expect(groups[1].subjects[0].url).toBe(`${BASE}/events/slug-a/moments/m1?thread=t1`);
+  });
+
+  it('groups tribe posts by tribe', () => {
+    const post = (postId: string, tribeSlug: string) => ({
+      type: 'tribe_new_post' as const,
+      payload: {
+        type: 'tribe_new_post',
+        userId: 'member',
+        locale: 'en',
+        tribeName: `Tribe ${tribeSlug}`,
+        tribeSlug,
+        postId,
+        authorName: 'Linh',
+        postPreview: 'Run at 6?',
+      } as NotificationPayload,
+    });
+
+    const [group] = summarizeDigest([post('p1', 'runners'), post('p2', 'runners'), post('p3', 'boardgames')], BASE);
+
+    expect(group).toMatchObject({ type: 'tribe_new_post', count: 3 });
+    expect(group.subjects.map((s) => [s.url, s.count])).toEqual([
+      [`${BASE}/tribes/runners`, 2],
+      [`${BASE}/tribes/boardgames`, 1],
+    ]);
+  });
+
+  it('returns nothing for an empty queue', () => {
+    expect(summarizeDigest([], BASE)).toEqual([]);
+  });
+});
+
+describe('isDigestDue', () => {
+  const now = new Date('2026-10-19T03:20:00Z'); // 10:20 in Đà Lạt
+
+  it('flushes instant users and first-time digests immediately', () => {
+    expect(isDigestDue(null, now)).toBe(true);
+    expect(isDigestDue({ digest_frequency: 'hourly', digest_time: '08:00:00', last_digest_at: null }, now)).toBe(true);
+  });
+
+  it('sends hourly digests once per clock hour', () => {
+    const prefs = { digest_frequency: 'hourly' as const, digest_time: '08:00:00' };
+    expect(isDigestDue({ ...prefs, last_digest_at: '2026-10-19T02:55:00Z' }, now)).toBe(true);
+    expect(isDigestDue({ ...prefs, last_digest_at: '2026-10-19T03:05:00Z' }, now)).toBe(false);
+  });
+
+  it('sends daily digests after the chosen local time', () => {
+    const prefs = { digest_frequency: 'daily' as const };
+    // 08:00 local = 01:00Z today; last sent yesterday morning → due
+    expect(isDigestDue({ ...prefs, digest_time: '08:00:00', last_digest_at: '2026-10-18T01:02:00Z' }, now)).toBe(true);
+    // Already sent at 08:02 local today
+    expect(isDigestDue({ ...prefs, digest_time: '08:00:00', last_digest_at: '2026-10-19T01:02:00Z' }, now)).toBe(false);
+    // 18:00 local hasn't come yet today; yesterday's 18:00 already covered
+    expect(isDigestDue({ ...prefs, digest_time: '18:00:00', last_digest_at: '2026-10-18T11:01:00Z' }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+import { createClient } from '@supabase/supabase-js';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { DALAT_TIMEZONE } from '@/lib/timezone';
+import type {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationPayload,
+  NotificationPreferences,
+  NotificationType,
+} from './types';
+
+/**
+ * Notification digests — low-priority notifications batched into one push /
+ * email per hour or per day instead of one each.
+ *
+ * notify() still writes the in-app row immediately (the bell is quiet by
+ * nature); only the interruptive channels are queued in
+ * notification_digest_items. /api/cron/process-notifications drains the queue
+ * when a user's digest is due.
+ */
+
+export const DIGESTIBLE_TYPES = [
+  'new_rsvp',
+  'comment_on_event',
+  'tribe_new_post',
+  'thread_activity',
+  'new_follower',
+] as const satisfies readonly NotificationType[];
+
+export type DigestibleType = (typeof DIGESTIBLE_TYPES)[number];
+
+export const DIGEST_FREQUENCIES = ['instant', 'hourly', 'daily'] as const satisfies readonly DigestFrequency[];
+
+export const DEFAULT_DIGEST_TIME = '08:00';
+
+export function isDigestible(type: NotificationType): type is DigestibleType {
+  return (DIGESTIBLE_TYPES as readonly string[]).includes(type);
+}
+
+export interface DigestItem {
+  id: string;
+  user_id: string;
+  type: DigestibleType;
+  payload: NotificationPayload;
+  channels: NotificationChannel[];
+  created_at: string;
+}
+
+export type DigestPreferences = Pick<
+  NotificationPreferences,
+  'digest_frequency' | 'digest_time' | 'last_digest_at'
+>;
+
+/** What a digest says about one kind of notification, e.g. 12 RSVPs across 3 events */
+export interface DigestGroup {
+  type: DigestibleType;
+  /** Notifications (thread activity counts its replies) */
+  count: number;
+  /** Events / threads / — for followers — people, busiest first */
+  subjects: { title: string; url: string; count: number }[];
+}
+
+function createServiceClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  return createClient(url, serviceKey);
+}
+
+/**
+ * Whether a user's digest should go out now. `instant` is always due so
+ * anything queued before they switched back is flushed on the next run.
+ * Daily digest times are wall-clock times in the user's timezone.
+ */
+export function isDigestDue(
+  prefs: DigestPreferences | null,
+  now: Date,
+  timeZone: string = DALAT_TIMEZONE
+): boolean {
+  const frequency = prefs?.digest_frequency ?? 'instant';
+  const last = prefs?.last_digest_at ? new Date(prefs.last_digest_at) : null;
+
+  if (frequency === 'instant' || !last) return true;
+
+  if (frequency === 'hourly') {
+    const hourStart = new Date(now);
+    hourStart.setUTCMinutes(0, 0, 0);
+    return last < hourStart;
+  }
+
+  // Daily: the most recent occurrence of digest_time (local) at or before now
+  const time = (prefs?.digest_time ?? DEFAULT_DIGEST_TIME).slice(0, 5);
+  const today = formatInTimeZone(now, timeZone, 'yyyy-MM-dd');
+  let slot = fromZonedTime(`${today}T${time}:00`, timeZone);
+  if (slot > now) slot = new Date(slot.getTime() - 24 * 60 * 60 * 1000);
+  return last < slot;
+}
+
+function subjectOf(payload: NotificationPayload, baseUrl: string): { key: string; title: string; url: string } {
+  switch (payload.type) {
+    case 'new_rsvp':
+    case 'comment_on_event':
+      return { key: payload.eventId, title: payload.eventTitle, url: `${baseUrl}/events/${payload.eventSlug}` };
+    case 'thread_activity':
+      return {
+        key: payload.threadId,
+        title: payload.contentTitle,
+        url: payload.contentType === 'event'
+          ? `${baseUrl}/events/${payload.eventSlug}?thread=${payload.threadId}`
+          : `${baseUrl}/events/${payload.eventSlug}/moments/${payload.contentId}?thread=${payload.threadId}`,
+      };
+    case 'tribe_new_post':
+      return { key: payload.tribeSlug, title: payload.tribeName, url: `${baseUrl}/tribes/${payload.tribeSlug}` };
+    case 'new_follower':
+      return {
+        key: payload.followerUsername || payload.followerName,
+        title: payload.followerName,
+        url: `${baseUrl}/${payload.followerUsername || payload.followerName}`,
+      };
+    default:
+      return { key: payload.type, title: '', url: baseUrl };
+  }
+}
+
+/**
+ * Group queued items for the digest template, in DIGESTIBLE_TYPES order.
+ */
+export function summarizeDigest(items: Pick<DigestItem, 'type' | 'payload'>[], baseUrl: string): DigestGroup[] {
+  const groups: DigestGroup[] = [];
+
+  for (const type of DIGESTIBLE_TYPES) {
+    const subjects = new Map<string, { title: string; url: string; count: number }>();
+    let count = 0;
+
+    for (const item of items) {
+      if (item.type !== type) continue;
+      const weight = item.payload.type === 'thread_activity' ? Math.max(1, item.payload.activityCount) : 1;
+      const { key, title, url } = subjectOf(item.payload, baseUrl);
+      const subject = subjects.get(key) ?? { title, url, count: 0 };
+      subject.count += weight;
+      subjects.set(key, subject);
+      count += weight;
+    }
+
+    if (count > 0) {
+      groups.push({ type, count, subjects: [...subjects.values()].sort((a, b) => b.count - a.count) });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Queue a notification's push/email for the user's next digest.
+ * Returns false when it couldn't be queued — notify() then sends it now
+ * rather than dropping it.
+ */
+export async function queueDigestItem(
+  payload: NotificationPayload,
+  channels: NotificationChannel[]
+): Promise<boolean> {
+  const supabase = createServiceClient();
+  if (!supabase) return false;
+
+  const { error } = await supabase.from('notification_digest_items').insert({
+    user_id: payload.userId,
+    type: payload.type,
+    payload,
+    channels,
+  });
+
+  if (error) {
+    console.error(`[digest] Failed to queue ${payload.type} for ${payload.userId}:`, error.message);
+    return false;
+  }
+  return true;
+}
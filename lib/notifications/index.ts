@@ -26,9 +26,12 @@ import type {
   NotifyResult,
   ChannelResult,
   NotificationChannel,
+  DigestFrequency,
 } from './types';
-import { getChannelsForNotification } from './preferences';
-import { getNotificationTemplate } from './templates';
+import { getNotificationDelivery } from './preferences';
+import { getDigestTemplate, getNotificationTemplate } from './templates';
+import { isDigestible, queueDigestItem, type DigestItem } from './digest';
+import { deferNotification } from './scheduler';
 import { sendInAppNotification } from './channels/in-app';
 import { sendPushNotification } from './channels/push';
 import { sendEmailNotification } from './channels/email';
@@ -37,6 +40,7 @@ import { buildUnsubscribeUrl } from './unsubscribe';
 // Re-export types for convenience
 export * from './types';
 export { getChannelsForNotification, getDefaultChannels } from './preferences';
+export { DIGESTIBLE_TYPES, isDigestDue, type DigestItem } from './digest';
 export { getNotificationTemplate } from './templates';
 
 /**
@@ -77,12 +81,14 @@ export async function notify(
   payload: NotificationPayload,
   options: NotifyOptions = {}
 ): Promise<NotifyResult> {
-  const { channels: forcedChannels, skipPreferences, onlyChannels } = options;
+  const { channels: forcedChannels, skipPreferences, onlyChannels, reference } = options;
 
   console.log(`[notify] Starting notification: ${payload.type} for user ${payload.userId}`);
 
   // Get enabled channels
   let enabledChannels: NotificationChannel[];
+  let digestFrequency: DigestFrequency = 'instant';
+  let deferUntil: Date | null = null;
 
   if (forcedChannels) {
     enabledChannels = forcedChannels;
@@ -90,13 +96,32 @@ export async function notify(
     // Skip preference check - use all default channels
     enabledChannels = ['in_app', 'push'];
   } else {
-    enabledChannels = await getChannelsForNotification(payload.userId, payload.type);
+    const delivery = await getNotificationDelivery(payload.userId, payload.type);
+    enabledChannels = delivery.channels;
+    digestFrequency = delivery.digestFrequency;
+    deferUntil = delivery.deferUntil;
   }
 
   if (onlyChannels) {
     enabledChannels = enabledChannels.filter((c) => onlyChannels.includes(c));
   }
 
+  // Digest users get low-priority push/email batched by the cron; in-app still lands now
+  if (digestFrequency !== 'instant' && isDigestible(payload.type)) {
+    const deferred = enabledChannels.filter((c) => c !== 'in_app');
+    if (deferred.length > 0 && (await queueDigestItem(payload, deferred))) {
+      enabledChannels = enabledChannels.filter((c) => c === 'in_app');
+    }
+  }
+
+  // Quiet hours: non-urgent push/email wait for the recipient's window to end
+  if (deferUntil) {
+    const deferred = enabledChannels.filter((c) => c !== 'in_app');
+    if (deferred.length > 0 && (await deferNotification(payload, deferred, deferUntil, reference))) {
+      enabledChannels = enabledChannels.filter((c) => c === 'in_app');
+    }
+  }
+
   if (enabledChannels.length === 0) {
     console.log('[notify] No enabled channels, skipping notification');
     return { success: true, channels: [] };
@@ -172,6 +197,39 @@ export async function notify(
   };
 }
 
+/**
+ * Send one digest push/email covering a user's queued notifications.
+ * Called by the process-notifications cron once the user's digest is due.
+ */
+export async function sendDigest(
+  userId: string,
+  locale: Locale,
+  items: DigestItem[]
+): Promise<NotifyResult> {
+  const template = getDigestTemplate(items, locale);
+  const channels = new Set(items.flatMap((item) => item.channels));
+  const results: ChannelResult[] = [];
+
+  if (channels.has('push')) {
+    results.push(await sendPushNotification(userId, template.push));
+  }
+
+  if (channels.has('email') && template.email) {
+    const userEmail = await getUserEmail(userId);
+    results.push(
+      userEmail
+        ? await sendEmailNotification({
+            to: userEmail,
+            content: template.email,
+            unsubscribeUrl: buildUnsubscribeUrl(userId, 'all') ?? undefined,
+          })
+        : { channel: 'email', success: false, error: 'User email not found' }
+    );
+  }
+
+  return { success: results.some((r) => r.success), channels: results };
+}
+
 /**
  * Send notification to multiple users.
  * Useful for tribe notifications or organizer alerts.
@@ -225,6 +283,8 @@ import type {
   ConfirmAttendance24hPayload,
   FinalReminder2hPayload,
   WaitlistPromotionPayload,
+  WaitlistOfferPayload,
+  OrderReceiptPayload,
   EventReminderPayload,
   WaitlistPositionPayload,
   NewRsvpPayload,
@@ -233,6 +293,9 @@ import type {
   TribeRequestApprovedPayload,
   TribeRequestRejectedPayload,
   TribeInvitationPayload,
+  TribeNewPostPayload,
+  SeriesOccurrenceChangedPayload,
+  FestivalScheduleChangePayload,
 } from './types';
 import type { Locale } from '@/lib/types';
 
@@ -241,7 +304,8 @@ export async function notifyRsvpConfirmation(
   locale: Locale,
   eventTitle: string,
   eventSlug: string,
-  eventDescription: string | null
+  eventDescription: string | null,
+  tickets?: RsvpConfirmationPayload['tickets']
 ) {
   const payload: RsvpConfirmationPayload = {
     type: 'rsvp_confirmation',
@@ -251,6 +315,7 @@ export async function notifyRsvpConfirmation(
     eventSlug,
     eventTitle,
     eventDescription,
+    tickets,
   };
   return notify(payload);
 }
@@ -312,6 +377,44 @@ export async function notifyWaitlistPromotion(
   return notify(payload);
 }
 
+export async function notifyWaitlistOffer(
+  userId: string,
+  locale: Locale,
+  eventTitle: string,
+  eventSlug: string,
+  claimBy: string
+) {
+  const payload: WaitlistOfferPayload = {
+    type: 'waitlist_offer',
+    userId,
+    locale,
+    eventId: '',
+    eventSlug,
+    eventTitle,
+    claimBy,
+  };
+  return notify(payload);
+}
+
+export async function notifyOrderReceipt(
+  userId: string,
+  locale: Locale,
+  eventTitle: string,
+  eventSlug: string,
+  receipt: Pick<OrderReceiptPayload, 'referenceCode' | 'items' | 'totalAmount' | 'currency' | 'tickets'>
+) {
+  const payload: OrderReceiptPayload = {
+    type: 'order_receipt',
+    userId,
+    locale,
+    eventId: '',
+    eventSlug,
+    eventTitle,
+    ...receipt,
+  };
+  return notify(payload);
+}
+
 export async function notifyEventReminder(
   userId: string,
   locale: Locale,
@@ -537,3 +640,65 @@ export async function notifyTribeInvitation(
   };
   return notify(payload);
 }
+
+/**
+ * Tell tribe members about a new board post. Callers filter out the author
+ * and members who muted the board.
+ */
+export async function notifyTribeNewPost(
+  memberIds: string[],
+  post: Omit<TribeNewPostPayload, 'type' | 'userId' | 'locale'>
+) {
+  const locales = await getUserLocales(memberIds);
+  return notifyMultiple(
+    memberIds,
+    (userId) => ({
+      type: 'tribe_new_post',
+      userId,
+      locale: locales.get(userId) ?? 'en',
+      ...post,
+    })
+  );
+}
+
+/**
+ * Tell series subscribers and attendees of affected occurrences that a
+ * recurring series changed, each in their own locale.
+ */
+export async function notifySeriesOccurrenceChanged(
+  userIds: string[],
+  change: Omit<SeriesOccurrenceChangedPayload, 'type' | 'userId' | 'locale'>
+) {
+  const locales = await getUserLocales(userIds);
+  return notifyMultiple(
+    userIds,
+    (userId) => ({
+      type: 'series_occurrence_changed',
+      userId,
+      locale: locales.get(userId) ?? 'en',
+      ...change,
+    })
+  );
+}
+
+/**
+ * Tell visitors who starred sessions that a festival schedule_change update
+ * affects them. `sessionsByUser` holds each recipient's affected titles.
+ */
+export async function notifyFestivalScheduleChange(
+  sessionsByUser: Map<string, string[]>,
+  change: Omit<FestivalScheduleChangePayload, 'type' | 'userId' | 'locale' | 'sessionTitles'>
+) {
+  const userIds = [...sessionsByUser.keys()];
+  const locales = await getUserLocales(userIds);
+  return notifyMultiple(
+    userIds,
+    (userId) => ({
+      type: 'festival_schedule_change',
+      userId,
+      locale: locales.get(userId) ?? 'en',
+      sessionTitles: sessionsByUser.get(userId) ?? [],
+      ...change,
+    })
+  );
+}
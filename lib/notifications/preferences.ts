@@ -3,7 +3,9 @@ import type {
   NotificationType,
   NotificationChannel,
   NotificationPreferences,
+  DigestFrequency,
 } from './types';
+import { deliveryDeferredUntil } from './quiet-hours';
 
 /**
  * Create a service role Supabase client.
@@ -21,8 +23,8 @@ function createServiceClient() {
 
 // Default channels for each notification type
 const DEFAULT_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
-  // Event confirmations - in-app + push
-  rsvp_confirmation: ['in_app', 'push'],
+  // Event confirmations - in-app + push, plus email when there are QR tickets to carry
+  rsvp_confirmation: ['in_app', 'push', 'email'],
 
   // Reminders - in-app + push (time-sensitive)
   confirm_attendance_24h: ['in_app', 'push'],
@@ -31,8 +33,13 @@ const DEFAULT_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
 
   // Waitlist - in-app + push (important updates)
   waitlist_promotion: ['in_app', 'push'],
+  // Offers expire - email too, so nobody misses their window
+  waitlist_offer: ['in_app', 'push', 'email'],
   waitlist_position: ['in_app'],
 
+  // Paid tickets - the receipt is something people file, so email it
+  order_receipt: ['in_app', 'email'],
+
   // Organizer notifications - in-app only
   new_rsvp: ['in_app'],
 
@@ -48,10 +55,18 @@ const DEFAULT_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
   tribe_request_approved: ['in_app', 'push'],
   tribe_request_rejected: ['in_app'],
   tribe_new_event: ['in_app', 'push'],
+  tribe_new_post: ['in_app', 'push'],
   // Username invites go in-app + push only. The email path never calls notify()
   // — it goes through sendEmailInvitation() directly, like event invitations.
   tribe_invitation: ['in_app', 'push'],
 
+  // Recurring series edits - in-app + push (attendees may need to re-plan)
+  series_occurrence_changed: ['in_app', 'push'],
+
+  // Festival agenda - in-app + push (visitors are out on the festival grounds)
+  festival_session_reminder: ['in_app', 'push'],
+  festival_schedule_change: ['in_app', 'push'],
+
   // Comment notifications - in-app + push for direct interactions
   comment_on_event: ['in_app', 'push'],
   comment_on_moment: ['in_app', 'push'],
@@ -107,14 +122,60 @@ export async function getUserPreferences(
 
 /**
  * Get the channels to send a notification to for a user.
- * Respects user preferences and global toggles.
+ * Respects user preferences and global toggles. Quiet hours don't remove
+ * channels — notify() defers them (see getNotificationDelivery).
  */
 export async function getChannelsForNotification(
   userId: string,
   type: NotificationType
 ): Promise<NotificationChannel[]> {
   const preferences = await getUserPreferences(userId);
+  return channelsFromPreferences(preferences, type);
+}
+
+/**
+ * Get a user's timezone (IANA name), or null when they haven't set one.
+ */
+export async function getUserTimezone(userId: string): Promise<string | null> {
+  const supabase = createServiceClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return (data?.timezone as string | null) ?? null;
+}
+
+/**
+ * Everything notify() needs to route a notification: the channels, the
+ * user's digest frequency, and — during their quiet hours — when push/email
+ * may go out instead.
+ */
+export async function getNotificationDelivery(
+  userId: string,
+  type: NotificationType
+): Promise<{
+  channels: NotificationChannel[];
+  digestFrequency: DigestFrequency;
+  deferUntil: Date | null;
+}> {
+  const preferences = await getUserPreferences(userId);
+  const timezone = preferences?.quiet_hours_enabled ? await getUserTimezone(userId) : null;
+
+  return {
+    channels: channelsFromPreferences(preferences, type),
+    digestFrequency: preferences?.digest_frequency ?? 'instant',
+    deferUntil: deliveryDeferredUntil(preferences, type, timezone),
+  };
+}
 
+function channelsFromPreferences(
+  preferences: NotificationPreferences | null,
+  type: NotificationType
+): NotificationChannel[] {
   // Start with default channels for this notification type
   let channels = DEFAULT_CHANNELS[type] || ['in_app'];
 
@@ -139,44 +200,9 @@ export async function getChannelsForNotification(
     });
   }
 
-  // Check quiet hours for push notifications
-  if (preferences?.quiet_hours_enabled && channels.includes('push')) {
-    const now = new Date();
-    const currentTime = now.toLocaleTimeString('en-US', {
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-
-    const isQuietHours = isInQuietHours(
-      currentTime,
-      preferences.quiet_hours_start,
-      preferences.quiet_hours_end
-    );
-
-    if (isQuietHours) {
-      channels = channels.filter((c) => c !== 'push');
-    }
-  }
-
   return channels;
 }
 
-/**
- * Check if current time is within quiet hours.
- */
-function isInQuietHours(
-  currentTime: string,
-  startTime: string,
-  endTime: string
-): boolean {
-  // Handle overnight quiet hours (e.g., 22:00 to 08:00)
-  if (startTime > endTime) {
-    return currentTime >= startTime || currentTime <= endTime;
-  }
-  return currentTime >= startTime && currentTime <= endTime;
-}
-
 /**
  * Get default channels for a notification type.
  */
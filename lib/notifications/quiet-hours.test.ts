@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { deliveryDeferredUntil, isUrgent, quietHoursEnd, resolveTimezone } from './quiet-hours';
+
+const overnight = { quiet_hours_start: '22:00:00', quiet_hours_end: '08:00:00' };
+
+describe('quietHoursEnd', () => {
+  it('returns null outside the window', () => {
+    // 14:00 in Đà Lạt
+    expect(quietHoursEnd(overnight, 'Asia/Ho_Chi_Minh', new Date('2026-10-19T07:00:00Z'))).toBeNull();
+  });
+
+  it('ends the next morning when the window wraps midnight', () => {
+    // 23:30 in Đà Lạt on the 19th → 08:00 on the 20th (01:00Z)
+    expect(quietHoursEnd(overnight, 'Asia/Ho_Chi_Minh', new Date('2026-10-19T16:30:00Z'))?.toISOString())
+      .toBe('2026-10-20T01:00:00.000Z');
+    // 03:00 in Đà Lạt → 08:00 the same day
+    expect(quietHoursEnd(overnight, 'Asia/Ho_Chi_Minh', new Date('2026-10-19T20:00:00Z'))?.toISOString())
+      .toBe('2026-10-20T01:00:00.000Z');
+  });
+
+  it('treats the end as the first allowed minute', () => {
+    expect(quietHoursEnd(overnight, 'Asia/Ho_Chi_Minh', new Date('2026-10-20T01:00:00Z'))).toBeNull();
+  });
+
+  it('uses the recipient timezone, not Đà Lạt', () => {
+    // 04:00 in Đà Lạt is 23:00 the evening before in Berlin (CEST)
+    const at = new Date('2026-10-19T21:00:00Z');
+    expect(quietHoursEnd(overnight, 'Europe/Berlin', at)?.toISOString()).toBe('2026-10-20T06:00:00.000Z');
+    expect(quietHoursEnd({ quiet_hours_start: '22:00', quiet_hours_end: '23:00' }, 'Asia/Ho_Chi_Minh', at)).toBeNull();
+  });
+
+  it('ignores an empty window', () => {
+    expect(quietHoursEnd({ quiet_hours_start: '08:00', quiet_hours_end: '08:00' }, 'UTC', new Date())).toBeNull();
+  });
+});
+
+describe('deliveryDeferredUntil', () => {
+  const prefs = { ...overnight, quiet_hours_enabled: true };
+  const night = new Date('2026-10-19T16:30:00Z'); // 23:30 in Đà Lạt
+
+  it('defers non-urgent types during quiet hours', () => {
+    expect(deliveryDeferredUntil(prefs, 'comment_on_event', null, night)).not.toBeNull();
+  });
+
+  it('lets urgent types through', () => {
+    expect(isUrgent('final_reminder_2h')).toBe(true);
+    expect(deliveryDeferredUntil(prefs, 'final_reminder_2h', null, night)).toBeNull();
+    expect(deliveryDeferredUntil(prefs, 'event_address_reveal', null, night)).toBeNull();
+  });
+
+  it('does nothing when quiet hours are off', () => {
+    expect(deliveryDeferredUntil({ ...prefs, quiet_hours_enabled: false }, 'new_rsvp', null, night)).toBeNull();
+    expect(deliveryDeferredUntil(null, 'new_rsvp', null, night)).toBeNull();
+  });
+});
+
+describe('resolveTimezone', () => {
+  it('falls back to Đà Lạt for missing or unknown zones', () => {
+    expect(resolveTimezone(null)).toBe('Asia/Ho_Chi_Minh');
+    expect(resolveTimezone('Mars/Olympus_Mons')).toBe('Asia/Ho_Chi_Minh');
+    expect(resolveTimezone('Europe/Berlin')).toBe('Europe/Berlin');
+  });
+});
@@ -0,0 +1,80 @@
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { DALAT_TIMEZONE } from '@/lib/timezone';
+import type { NotificationPreferences, NotificationType } from './types';
+
+/**
+ * Quiet hours — a nightly window, in the recipient's own timezone, during
+ * which push and email wait. notify() still writes the in-app row and defers
+ * the rest to a scheduled_notifications row at the window's end.
+ *
+ * Members without a profile timezone are assumed to be in Đà Lạt; tourists set
+ * theirs in settings.
+ */
+
+/**
+ * Too time-sensitive to hold until morning: the event is about to start (or
+ * has), the address is needed at the door, or a claim window is ticking.
+ */
+export const URGENT_TYPES = [
+  'final_reminder_2h',
+  'event_address_reveal',
+  'event_starting_nudge',
+  'waitlist_offer',
+] as const satisfies readonly NotificationType[];
+
+export function isUrgent(type: NotificationType): boolean {
+  return (URGENT_TYPES as readonly string[]).includes(type);
+}
+
+export type QuietHoursWindow = Pick<NotificationPreferences, 'quiet_hours_start' | 'quiet_hours_end'>;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The profile's timezone, or Đà Lạt when unset or unrecognised */
+export function resolveTimezone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimezone(timeZone) ? timeZone : DALAT_TIMEZONE;
+}
+
+/**
+ * When the quiet window containing `now` ends, or null if `now` is outside it.
+ * Start is inclusive and end exclusive, so the end is the first allowed
+ * moment; windows may wrap midnight (22:00 → 08:00).
+ */
+export function quietHoursEnd(window: QuietHoursWindow, timeZone: string, now: Date): Date | null {
+  const start = window.quiet_hours_start.slice(0, 5);
+  const end = window.quiet_hours_end.slice(0, 5);
+  if (start === end) return null;
+
+  const current = formatInTimeZone(now, timeZone, 'HH:mm');
+  const inWindow = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!inWindow) return null;
+
+  const today = formatInTimeZone(now, timeZone, 'yyyy-MM-dd');
+  const endToday = fromZonedTime(`${today}T${end}:00`, timeZone);
+  if (endToday > now) return endToday;
+
+  const tomorrow = formatInTimeZone(new Date(now.getTime() + 24 * 60 * 60 * 1000), timeZone, 'yyyy-MM-dd');
+  return fromZonedTime(`${tomorrow}T${end}:00`, timeZone);
+}
+
+/**
+ * When push/email for this notification may go out, or null for "now".
+ */
+export function deliveryDeferredUntil(
+  preferences: Pick<NotificationPreferences, 'quiet_hours_enabled' | 'quiet_hours_start' | 'quiet_hours_end'> | null,
+  type: NotificationType,
+  timeZone: string | null | undefined,
+  now: Date = new Date()
+): Date | null {
+  if (!preferences?.quiet_hours_enabled || isUrgent(type)) return null;
+  return quietHoursEnd(preferences, resolveTimezone(timeZone), now);
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Locale } from '@/lib/types';
+import type { NotificationChannel, NotificationPayload } from './types';
 
 /**
  * Reminder scheduling — writes rows into scheduled_notifications, which the
@@ -359,3 +360,162 @@ export async function cancelRsvpReminders(userId: string, eventId: string): Prom
 
   return data?.length || 0;
 }
+
+export interface FestivalSessionReminderParams {
+  userId: string;
+  locale: Locale;
+  festivalSlug: string;
+  festivalTitle: string;
+  eventId: string;
+  eventSlug: string;
+  eventTitle: string;
+  startsAt: string;
+  stage: string | null;
+  minutesBefore: number;
+}
+
+function festivalReminderTime(startsAt: string, minutesBefore: number): {
+  scheduledFor: Date;
+  eventTime: string;
+} {
+  const eventStart = new Date(startsAt);
+  return {
+    scheduledFor: new Date(eventStart.getTime() - minutesBefore * 60 * 1000),
+    eventTime: eventStart.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: 'Asia/Ho_Chi_Minh',
+    }),
+  };
+}
+
+/**
+ * Schedule the reminder for a session starred into a festival agenda.
+ * Re-starring replaces the pending reminder rather than adding another.
+ */
+export async function scheduleFestivalSessionReminder(
+  params: FestivalSessionReminderParams
+): Promise<boolean> {
+  const { userId, locale, eventId, startsAt, minutesBefore } = params;
+
+  const supabase = createServiceClient();
+  if (!supabase) throw new Error('Supabase service client not configured');
+
+  await cancelFestivalSessionReminder(userId, eventId);
+
+  const { scheduledFor, eventTime } = festivalReminderTime(startsAt, minutesBefore);
+  if (scheduledFor <= new Date()) return false;
+
+  return insertScheduled(supabase, 'festival session reminder', {
+    user_id: userId,
+    type: 'festival_session_reminder',
+    scheduled_for: scheduledFor.toISOString(),
+    payload: {
+      type: 'festival_session_reminder',
+      userId,
+      locale,
+      festivalSlug: params.festivalSlug,
+      festivalTitle: params.festivalTitle,
+      eventSlug: params.eventSlug,
+      eventTitle: params.eventTitle,
+      eventTime,
+      stage: params.stage,
+    },
+    reference_type: 'festival_agenda',
+    reference_id: eventId,
+  });
+}
+
+/** Cancel a pending agenda reminder (session un-starred). */
+export async function cancelFestivalSessionReminder(userId: string, eventId: string): Promise<void> {
+  const supabase = createServiceClient();
+  if (!supabase) throw new Error('Supabase service client not configured');
+
+  const { error } = await supabase
+    .from('scheduled_notifications')
+    .update({ status: 'cancelled' })
+    .eq('user_id', userId)
+    .eq('reference_id', eventId)
+    .eq('reference_type', 'festival_agenda')
+    .eq('status', 'pending');
+  if (error) {
+    console.error(`[scheduler] Failed to cancel festival reminder (user ${userId}, event ${eventId}):`, error.message);
+  }
+}
+
+/**
+ * Move every pending agenda reminder for a session after its time changed,
+ * or cancel them if it was cancelled or now starts too soon to remind.
+ * Returns how many reminders were updated.
+ */
+export async function rescheduleFestivalSessionReminders(
+  eventId: string,
+  startsAt: string,
+  minutesBefore: number,
+  cancelled = false
+): Promise<number> {
+  const supabase = createServiceClient();
+  if (!supabase) throw new Error('Supabase service client not configured');
+
+  const { data: rows, error } = await supabase
+    .from('scheduled_notifications')
+    .select('id, payload')
+    .eq('reference_id', eventId)
+    .eq('reference_type', 'festival_agenda')
+    .eq('status', 'pending');
+  if (error) {
+    console.error(`[scheduler] Failed to load festival reminders (event ${eventId}):`, error.message);
+    return 0;
+  }
+
+  const { scheduledFor, eventTime } = festivalReminderTime(startsAt, minutesBefore);
+  const stillDue = !cancelled && scheduledFor > new Date();
+  let updated = 0;
+
+  for (const row of rows ?? []) {
+    const { error: updateError } = await supabase
+      .from('scheduled_notifications')
+      .update(
+        stillDue
+          ? {
+              scheduled_for: scheduledFor.toISOString(),
+              payload: { ...(row.payload as Record<string, unknown>), eventTime },
+            }
+          : { status: 'cancelled', error_message: 'Session rescheduled or cancelled' }
+      )
+      .eq('id', row.id)
+      .eq('status', 'pending');
+    if (updateError) {
+      console.error(`[scheduler] Failed to move festival reminder ${row.id}:`, updateError.message);
+      continue;
+    }
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Hold a notification's push/email until `until` (the end of the recipient's
+ * quiet hours). The cron re-runs notify() restricted to those channels. Pass
+ * the originating row's reference so cancelRsvpReminders still finds it.
+ */
+export async function deferNotification(
+  payload: NotificationPayload,
+  channels: NotificationChannel[],
+  until: Date,
+  reference?: { type: string; id: string }
+): Promise<boolean> {
+  const supabase = createServiceClient();
+  if (!supabase) return false;
+
+  return insertScheduled(supabase, `quiet-hours ${payload.type}`, {
+    user_id: payload.userId,
+    type: payload.type,
+    scheduled_for: until.toISOString(),
+    payload: { ...payload, onlyChannels: channels },
+    reference_type: reference?.type ?? 'quiet_hours',
+    reference_id: reference?.id ?? null,
+  });
+}
@@ -26,6 +26,10 @@ const TTL_BY_TYPE: Partial<Record<NotificationType, number>> = {
   final_reminder_2h: 6 * HOUR,
   event_starting_nudge: 6 * HOUR,
   event_address_reveal: 6 * HOUR,
+  festival_session_reminder: 6 * HOUR,
+
+  // The claim window is at most two days.
+  waitlist_offer: 2 * DAY,
 
   // Asks about a window that has since closed.
   confirm_attendance_24h: 2 * DAY,
@@ -33,11 +37,15 @@ const TTL_BY_TYPE: Partial<Record<NotificationType, number>> = {
 
   // Receipts and nudges — a week on, they're history.
   rsvp_confirmation: 7 * DAY,
+  order_receipt: 7 * DAY,
   event_reminder: 7 * DAY,
   feedback_request: 7 * DAY,
   waitlist_position: 7 * DAY,
   organizer_re_ping: 7 * DAY,
   new_rsvp: 7 * DAY,
+  series_occurrence_changed: 7 * DAY,
+  festival_schedule_change: 7 * DAY,
+  tribe_new_post: 7 * DAY,
 };
 
 /**
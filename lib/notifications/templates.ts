@@ -1,5 +1,9 @@
-import type { Locale } from '@/lib/types';
+import type { Locale, SeriesUpdateScope } from '@/lib/types';
+import type { SeriesChangeKind } from '@/lib/series/overrides';
 import { getRandomInspiringFooter } from './inspiring-footers';
+import { getTicketQrUrl } from '@/lib/checkin/tickets';
+import { formatTicketPrice } from '@/lib/payments/format';
+import { withRsvpSource } from '@/lib/events/rsvp-source';
 import type {
   NotificationContent,
   EmailNotificationContent,
@@ -8,6 +12,8 @@ import type {
   ConfirmAttendance24hPayload,
   FinalReminder2hPayload,
   WaitlistPromotionPayload,
+  WaitlistOfferPayload,
+  OrderReceiptPayload,
   EventReminderPayload,
   WaitlistPositionPayload,
   NewRsvpPayload,
@@ -19,7 +25,11 @@ import type {
   TribeRequestApprovedPayload,
   TribeRequestRejectedPayload,
   TribeNewEventPayload,
+  TribeNewPostPayload,
   TribeInvitationPayload,
+  SeriesOccurrenceChangedPayload,
+  FestivalSessionReminderPayload,
+  FestivalScheduleChangePayload,
   CommentOnEventPayload,
   CommentOnMomentPayload,
   ReplyToCommentPayload,
@@ -32,6 +42,7 @@ import type {
   EventAddressRevealPayload,
   NotificationPayload,
 } from './types';
+import { summarizeDigest, type DigestGroup, type DigestItem, type DigestibleType } from './digest';
 
 // Random emoji suffixes to make subjects unique and prevent threading
 const SUBJECT_EMOJIS = ['✨', '🎉', '🌟', '💫', '🎊', '🌸', '🍃', '☀️', '🌈', '💜', '💚', '🧡', '💙', '🤍', '🎯', '🚀', '⭐', '🌺', '🎪', '🎭'];
@@ -91,6 +102,26 @@ const translations = {
     fr: (title: string) => `Vous avez une place pour "${title}" ! À bientôt.`,
     vi: (title: string) => `Bạn đã có chỗ cho "${title}"! Hẹn gặp bạn.`,
   },
+  waitlistOffer: {
+    en: (title: string) => `A spot opened up for "${title}"!`,
+    fr: (title: string) => `Une place s'est libérée pour "${title}" !`,
+    vi: (title: string) => `Đã có chỗ trống cho "${title}"!`,
+  },
+  waitlistOfferBody: {
+    en: (time: string) => `It's held for you until ${time} — claim it before it goes to the next person.`,
+    fr: (time: string) => `Elle vous est réservée jusqu'à ${time} — réclamez-la avant qu'elle passe à la personne suivante.`,
+    vi: (time: string) => `Chỗ được giữ cho bạn đến ${time} — hãy nhận trước khi chuyển cho người tiếp theo.`,
+  },
+  orderReceipt: {
+    en: (title: string) => `Your tickets for "${title}"`,
+    fr: (title: string) => `Vos billets pour "${title}"`,
+    vi: (title: string) => `Vé của bạn cho "${title}"`,
+  },
+  orderReceiptBody: {
+    en: (total: string, ref: string) => `Payment received: ${total} (order ${ref}). You're on the list!`,
+    fr: (total: string, ref: string) => `Paiement reçu : ${total} (commande ${ref}). Vous êtes sur la liste !`,
+    vi: (total: string, ref: string) => `Đã nhận thanh toán: ${total} (đơn ${ref}). Bạn đã có tên trong danh sách!`,
+  },
   eventReminder: {
     en: (title: string, time: string) => `"${title}" is tomorrow at ${time}. Don't forget!`,
     fr: (title: string, time: string) => `"${title}" demain à ${time}. N'oubliez pas !`,
@@ -121,6 +152,11 @@ const translations = {
     fr: 'Appuyez pour partager votre avis',
     vi: 'Nhấn để chia sẻ trải nghiệm của bạn',
   },
+  feedbackSurveyBody: {
+    en: 'The organizer has a short survey — it takes a minute',
+    fr: "L'organisateur a un court questionnaire — une minute suffit",
+    vi: 'Ban tổ chức có một khảo sát ngắn — chỉ mất một phút',
+  },
   userInvitation: {
     en: (inviter: string, title: string) => `${inviter} invited you to "${title}"`,
     fr: (inviter: string, title: string) => `${inviter} vous invite à "${title}"`,
@@ -154,6 +190,11 @@ const translations = {
     fr: (event: string, tribe: string) => `Nouvel événement "${event}" dans ${tribe}`,
     vi: (event: string, tribe: string) => `Sự kiện mới "${event}" trong ${tribe}`,
   },
+  tribeNewPost: {
+    en: (author: string, tribe: string) => `${author} posted in ${tribe}`,
+    fr: (author: string, tribe: string) => `${author} a publié dans ${tribe}`,
+    vi: (author: string, tribe: string) => `${author} đã đăng bài trong ${tribe}`,
+  },
   // Comment notifications
   commentOnEvent: {
     en: (commenter: string, event: string) => `${commenter} commented on "${event}"`,
@@ -218,6 +259,7 @@ const translations = {
     changePlans: { en: 'Change plans', fr: 'Modifier', vi: 'Thay đổi' },
     shareFeedback: { en: 'Share feedback', fr: 'Donner mon avis', vi: 'Chia sẻ nhận xét' },
     reviewRequests: { en: 'Review requests', fr: 'Voir les demandes', vi: 'Xem yêu cầu' },
+    claimSpot: { en: 'Claim my spot', fr: 'Réclamer ma place', vi: 'Nhận chỗ' },
     viewTribe: { en: 'View tribe', fr: 'Voir la tribu', vi: 'Xem tribe' },
     viewComments: { en: 'View comments', fr: 'Voir les commentaires', vi: 'Xem bình luận' },
     viewMoment: { en: 'View moment', fr: 'Voir le moment', vi: 'Xem khoảnh khắc' },
@@ -225,6 +267,16 @@ const translations = {
   email: {
     clickToConfirm: { en: 'Click below to confirm:', fr: 'Cliquez ci-dessous pour confirmer :', vi: 'Nhấn bên dưới để xác nhận:' },
     seeYouThere: { en: 'See you there!', fr: 'À bientôt !', vi: 'Hẹn gặp bạn!' },
+    showTicket: {
+      en: 'Show this QR code at the door to check in. Each guest has their own code.',
+      fr: "Présentez ce QR code à l'entrée pour vous enregistrer. Chaque invité a son propre code.",
+      vi: 'Đưa mã QR này ở cửa để check-in. Mỗi khách có mã riêng.',
+    },
+    ticketFallback: {
+      en: 'Your tickets are on the event page:',
+      fr: "Vos billets sont sur la page de l'événement :",
+      vi: 'Vé của bạn có trên trang sự kiện:',
+    },
   },
 };
 
@@ -242,6 +294,19 @@ interface TemplateResult {
 // Template Functions
 // ============================================
 
+// QR ticket images for the email HTML part (rendered by /api/checkin/qr)
+function ticketsHtml(tickets: { label: string; code: string }[], locale: NotificationLocale): string {
+  return [
+    translations.email.showTicket[locale],
+    ...tickets.map(
+      (ticket) =>
+        `<span style="display: block; text-align: center; margin: 16px 0;">` +
+        `<img src="${getTicketQrUrl(ticket.code, getBaseUrl())}" alt="QR" width="200" height="200" style="display: block; margin: 0 auto;">` +
+        `<strong>${escapeHtml(ticket.label)}</strong></span>`
+    ),
+  ].join('<br><br>');
+}
+
 function rsvpConfirmationTemplate(payload: RsvpConfirmationPayload): TemplateResult {
   const locale = getNotificationLocale(payload.locale);
   const eventUrl = `${getBaseUrl()}/events/${payload.eventSlug}`;
@@ -262,6 +327,25 @@ function rsvpConfirmationTemplate(payload: RsvpConfirmationPayload): TemplateRes
       primaryActionUrl: eventUrl,
       tag: `rsvp-${payload.eventSlug}`,
     },
+    // Only 'going' RSVPs carry tickets — everything else stays in-app/push
+    email: payload.tickets?.length
+      ? {
+          subject: title,
+          title,
+          titleHtml: translations.rsvpConfirmation[locale](escapeHtml(payload.eventTitle)),
+          body: `${body}\n\n${translations.email.showTicket[locale]}`,
+          bodyHtml: [escapeHtml(body), ticketsHtml(payload.tickets, locale)].join('<br><br>'),
+          primaryActionUrl: eventUrl,
+          primaryActionLabel: translations.buttons.viewEvent[locale],
+          text: [
+            title,
+            '',
+            body,
+            '',
+            `${translations.email.ticketFallback[locale]} ${eventUrl}`,
+          ].join('\n'),
+        }
+      : undefined,
   };
 }
 
@@ -343,6 +427,84 @@ function waitlistPromotionTemplate(payload: WaitlistPromotionPayload): TemplateR
   };
 }
 
+function waitlistOfferTemplate(payload: WaitlistOfferPayload): TemplateResult {
+  const locale = getNotificationLocale(payload.locale);
+  const eventUrl = `${getBaseUrl()}/events/${payload.eventSlug}`;
+
+  const title = translations.waitlistOffer[locale](payload.eventTitle);
+  const body = translations.waitlistOfferBody[locale](payload.claimBy);
+
+  return {
+    inApp: {
+      title,
+      body,
+      primaryActionUrl: eventUrl,
+      primaryActionLabel: translations.buttons.claimSpot[locale],
+    },
+    push: {
+      title,
+      body,
+      primaryActionUrl: eventUrl,
+      tag: `waitlist-${payload.eventSlug}`,
+      requireInteraction: true,
+    },
+    email: {
+      title,
+      body,
+      subject: title,
+      primaryActionUrl: eventUrl,
+      primaryActionLabel: translations.buttons.claimSpot[locale],
+      text: [title, '', body, '', `${translations.buttons.claimSpot[locale]}: ${eventUrl}`].join('\n'),
+    },
+  };
+}
+
+function orderReceiptTemplate(payload: OrderReceiptPayload): TemplateResult {
+  const locale = getNotificationLocale(payload.locale);
+  const eventUrl = `${getBaseUrl()}/events/${payload.eventSlug}`;
+
+  const total = formatTicketPrice(payload.totalAmount, payload.currency);
+  const title = translations.orderReceipt[locale](payload.eventTitle);
+  const body = translations.orderReceiptBody[locale](total, payload.referenceCode);
+
+  const lines = payload.items.map(
+    (item) => `${item.quantity} × ${item.name} — ${formatTicketPrice(item.unitPrice * item.quantity, payload.currency)}`
+  );
+  const linesHtml = payload.items.map(
+    (item) =>
+      `${item.quantity} × ${escapeHtml(item.name)} — ${formatTicketPrice(item.unitPrice * item.quantity, payload.currency)}`
+  );
+
+  return {
+    inApp: {
+      title,
+      body,
+      primaryActionUrl: eventUrl,
+      primaryActionLabel: translations.buttons.viewEvent[locale],
+    },
+    push: {
+      title,
+      body,
+      primaryActionUrl: eventUrl,
+      tag: `order-${payload.referenceCode}`,
+    },
+    email: {
+      subject: title,
+      title,
+      titleHtml: translations.orderReceipt[locale](escapeHtml(payload.eventTitle)),
+      body: [body, '', ...lines].join('\n'),
+      bodyHtml: [
+        body,
+        linesHtml.join('<br>'),
+        ...(payload.tickets?.length ? [ticketsHtml(payload.tickets, locale)] : []),
+      ].join('<br><br>'),
+      primaryActionUrl: eventUrl,
+      primaryActionLabel: translations.buttons.viewEvent[locale],
+      text: [title, '', body, '', ...lines, '', `${translations.buttons.viewEvent[locale]}: ${eventUrl}`].join('\n'),
+    },
+  };
+}
+
 function eventReminderTemplate(payload: EventReminderPayload): TemplateResult {
   const locale = getNotificationLocale(payload.locale);
   const eventUrl = `${getBaseUrl()}/events/${payload.eventSlug}`;
@@ -414,10 +576,14 @@ function newRsvpTemplate(payload: NewRsvpPayload): TemplateResult {
 
 function feedbackRequestTemplate(payload: FeedbackRequestPayload): TemplateResult {
   const locale = getNotificationLocale(payload.locale);
-  const eventUrl = `${getBaseUrl()}/events/${payload.eventSlug}`;
+  const eventUrl = payload.surveyAvailable
+    ? `${getBaseUrl()}/events/${payload.eventSlug}/survey`
+    : `${getBaseUrl()}/events/${payload.eventSlug}`;
 
   const title = translations.feedbackRequest[locale](payload.eventTitle);
-  const body = translations.feedbackRequestBody[locale];
+  const body = payload.surveyAvailable
+    ? translations.feedbackSurveyBody[locale]
+    : translations.feedbackRequestBody[locale];
 
   return {
     inApp: {
@@ -654,7 +820,7 @@ function escapeHtml(s: string): string {
 function audienceInvitationTemplate(payload: AudienceInvitationPayload): TemplateResult {
   const locale: Locale = AUDIENCE_LOCALE_TAG[payload.locale] ? payload.locale : 'en';
   const localeTag = AUDIENCE_LOCALE_TAG[locale];
-  const eventUrl = `${getBaseUrl()}/events/${payload.eventSlug}`;
+  const eventUrl = withRsvpSource(`${getBaseUrl()}/events/${payload.eventSlug}`, 'audience');
   const rsvpUrl = `${getBaseUrl()}/invite/${payload.token}`;
 
   const eventDate = new Date(payload.startsAt);
@@ -892,6 +1058,185 @@ function tribeNewEventTemplate(payload: TribeNewEventPayload): TemplateResult {
   };
 }
 
+function tribeNewPostTemplate(payload: TribeNewPostPayload): TemplateResult {
+  const locale = getNotificationLocale(payload.locale);
+  const postUrl = `${getBaseUrl()}/tribes/${payload.tribeSlug}?post=${payload.postId}`;
+
+  const title = translations.tribeNewPost[locale](payload.authorName, payload.tribeName);
+  const body = payload.postPreview;
+
+  return {
+    inApp: {
+      title,
+      body,
+      primaryActionUrl: postUrl,
+      primaryActionLabel: translations.buttons.viewComments[locale],
+    },
+    push: {
+      title,
+      body,
+      primaryActionUrl: postUrl,
+      tag: `tribe-post-${payload.tribeSlug}`,
+    },
+  };
+}
+
+// ============================================
+// Recurring Series Edits
+// ============================================
+
+const seriesChangeTranslations: {
+  title: Record<SeriesUpdateScope, Record<NotificationLocale, (title: string, time: string) => string>>;
+  changes: Record<SeriesChangeKind, Record<NotificationLocale, string>>;
+  occurrences: Record<NotificationLocale, (count: number) => string>;
+} = {
+  title: {
+    this_event: {
+      en: (title, time) => `📅 "${title}" on ${time} has changed`,
+      fr: (title, time) => `📅 "${title}" du ${time} a changé`,
+      vi: (title, time) => `📅 "${title}" ngày ${time} đã thay đổi`,
+    },
+    future: {
+      en: (title, time) => `📅 "${title}" is changing from ${time}`,
+      fr: (title, time) => `📅 "${title}" change à partir du ${time}`,
+      vi: (title, time) => `📅 "${title}" thay đổi từ ${time}`,
+    },
+    all: {
+      en: (title) => `📅 "${title}" has changed`,
+      fr: (title) => `📅 "${title}" a changé`,
+      vi: (title) => `📅 "${title}" đã thay đổi`,
+    },
+  },
+  changes: {
+    time: { en: 'New time', fr: 'Nouvel horaire', vi: 'Giờ mới' },
+    venue: { en: 'New location', fr: 'Nouveau lieu', vi: 'Địa điểm mới' },
+    capacity: { en: 'Capacity updated', fr: 'Capacité modifiée', vi: 'Cập nhật số chỗ' },
+    description: { en: 'Details updated', fr: 'Détails mis à jour', vi: 'Cập nhật chi tiết' },
+    schedule: { en: 'New schedule', fr: 'Nouveau calendrier', vi: 'Lịch mới' },
+    cancelled: { en: 'Some dates cancelled', fr: 'Certaines dates annulées', vi: 'Một số buổi bị hủy' },
+  },
+  occurrences: {
+    en: (n) => `${n} upcoming date${n === 1 ? '' : 's'} affected`,
+    fr: (n) => `${n} date${n === 1 ? '' : 's'} à venir concernée${n === 1 ? '' : 's'}`,
+    vi: (n) => `${n} buổi sắp tới bị ảnh hưởng`,
+  },
+};
+
+function seriesOccurrenceChangedTemplate(payload: SeriesOccurrenceChangedPayload): TemplateResult {
+  const locale = getNotificationLocale(payload.locale);
+  // One occurrence links to that event; wider changes to the series page
+  const url = payload.scope === 'this_event' && payload.eventSlug
+    ? `${getBaseUrl()}/events/${payload.eventSlug}`
+    : `${getBaseUrl()}/series/${payload.seriesSlug}`;
+
+  const title = seriesChangeTranslations.title[payload.scope][locale](payload.seriesTitle, payload.eventTime);
+  const parts = payload.changes.map((change) => seriesChangeTranslations.changes[change][locale]);
+  if (payload.scope !== 'this_event' && payload.occurrenceCount > 0) {
+    parts.push(seriesChangeTranslations.occurrences[locale](payload.occurrenceCount));
+  }
+  const body = parts.join(' · ');
+
+  return {
+    inApp: {
+      title,
+      body,
+      primaryActionUrl: url,
+      primaryActionLabel: translations.buttons.viewEvent[locale],
+    },
+    push: {
+      title,
+      body,
+      primaryActionUrl: url,
+      tag: `series-change-${payload.seriesSlug}`,
+    },
+  };
+}
+
+// ============================================
+// Festival Agenda
+// ============================================
+
+const festivalTranslations: {
+  reminder: Record<NotificationLocale, (title: string, time: string) => string>;
+  reminderStage: Record<NotificationLocale, (stage: string) => string>;
+  scheduleChange: Record<NotificationLocale, (festival: string) => string>;
+  affected: Record<NotificationLocale, (titles: string) => string>;
+  viewSchedule: Record<NotificationLocale, string>;
+} = {
+  reminder: {
+    en: (title, time) => `🌸 "${title}" starts at ${time}`,
+    fr: (title, time) => `🌸 "${title}" commence à ${time}`,
+    vi: (title, time) => `🌸 "${title}" bắt đầu lúc ${time}`,
+  },
+  reminderStage: {
+    en: (stage) => `At ${stage} — it's on your agenda`,
+    fr: (stage) => `À ${stage} — c'est dans votre programme`,
+    vi: (stage) => `Tại ${stage} — có trong lịch của bạn`,
+  },
+  scheduleChange: {
+    en: (festival) => `📅 ${festival}: schedule change`,
+    fr: (festival) => `📅 ${festival} : changement de programme`,
+    vi: (festival) => `📅 ${festival}: thay đổi lịch trình`,
+  },
+  affected: {
+    en: (titles) => `Affects your agenda: ${titles}`,
+    fr: (titles) => `Concerne votre programme : ${titles}`,
+    vi: (titles) => `Ảnh hưởng lịch của bạn: ${titles}`,
+  },
+  viewSchedule: { en: 'View schedule', fr: 'Voir le programme', vi: 'Xem lịch trình' },
+};
+
+function festivalSessionReminderTemplate(payload: FestivalSessionReminderPayload): TemplateResult {
+  const locale = getNotificationLocale(payload.locale);
+  const eventUrl = `${getBaseUrl()}/events/${payload.eventSlug}`;
+
+  const title = festivalTranslations.reminder[locale](payload.eventTitle, payload.eventTime);
+  const body = payload.stage
+    ? festivalTranslations.reminderStage[locale](payload.stage)
+    : payload.festivalTitle;
+
+  return {
+    inApp: {
+      title,
+      body,
+      primaryActionUrl: eventUrl,
+      primaryActionLabel: translations.buttons.viewEvent[locale],
+    },
+    push: {
+      title,
+      body,
+      primaryActionUrl: eventUrl,
+      tag: `festival-reminder-${payload.eventSlug}`,
+    },
+  };
+}
+
+function festivalScheduleChangeTemplate(payload: FestivalScheduleChangePayload): TemplateResult {
+  const locale = getNotificationLocale(payload.locale);
+  const festivalUrl = `${getBaseUrl()}/festivals/${payload.festivalSlug}`;
+
+  const title = festivalTranslations.scheduleChange[locale](payload.festivalTitle);
+  const body = [
+    payload.updateTitle,
+    festivalTranslations.affected[locale](payload.sessionTitles.join(', ')),
+  ].join(' · ');
+
+  return {
+    inApp: {
+      title,
+      body,
+      primaryActionUrl: festivalUrl,
+      primaryActionLabel: festivalTranslations.viewSchedule[locale],
+    },
+    push: {
+      title,
+      body,
+      primaryActionUrl: festivalUrl,
+      tag: `festival-change-${payload.festivalSlug}`,
+    },
+  };
+}
+
 // ============================================
 // Comment Notification Templates
 // ============================================
@@ -945,10 +1290,12 @@ function commentOnMomentTemplate(payload: CommentOnMomentPayload): TemplateResul
 function replyToCommentTemplate(payload: ReplyToCommentPayload): TemplateResult {
   const locale = getNotificationLocale(payload.locale);
 
-  // Build URL based on content type
-  const url = payload.contentType === 'event'
-    ? `${getBaseUrl()}/events/${payload.eventSlug}?comment=${payload.commentId}`
-    : `${getBaseUrl()}/events/${payload.eventSlug}/moments/${payload.contentId}?comment=${payload.commentId}`;
+  // Build URL based on content type (for tribe posts eventSlug is the tribe slug)
+  const url = payload.contentType === 'tribe'
+    ? `${getBaseUrl()}/tribes/${payload.eventSlug}?post=${payload.parentCommentId}`
+    : payload.contentType === 'event'
+      ? `${getBaseUrl()}/events/${payload.eventSlug}?comment=${payload.commentId}`
+      : `${getBaseUrl()}/events/${payload.eventSlug}/moments/${payload.contentId}?comment=${payload.commentId}`;
 
   const title = translations.replyToComment[locale](payload.replierName);
   const body = payload.commentPreview;
@@ -1345,6 +1692,131 @@ function eventAddressRevealTemplate(payload: EventAddressRevealPayload): Templat
   };
 }
 
+// ============================================
+// Digest (batched low-priority notifications)
+// ============================================
+
+const digestStrings: {
+  line: Record<DigestibleType, Record<NotificationLocale, (count: number, subjects: number) => string>>;
+  title: Record<NotificationLocale, (count: number) => string>;
+  andMore: Record<NotificationLocale, (count: number) => string>;
+  openApp: Record<NotificationLocale, string>;
+  settings: Record<NotificationLocale, string>;
+} = {
+  line: {
+    new_rsvp: {
+      en: (n, m) => `${n} new RSVP${n === 1 ? '' : 's'}${m > 1 ? ` across ${m} events` : ''}`,
+      fr: (n, m) => `${n} nouvelle${n === 1 ? '' : 's'} inscription${n === 1 ? '' : 's'}${m > 1 ? ` sur ${m} événements` : ''}`,
+      vi: (n, m) => `${n} lượt đăng ký mới${m > 1 ? ` cho ${m} sự kiện` : ''}`,
+    },
+    comment_on_event: {
+      en: (n, m) => `${n} new comment${n === 1 ? '' : 's'}${m > 1 ? ` on ${m} events` : ''}`,
+      fr: (n, m) => `${n} nouveau${n === 1 ? '' : 'x'} commentaire${n === 1 ? '' : 's'}${m > 1 ? ` sur ${m} événements` : ''}`,
+      vi: (n, m) => `${n} bình luận mới${m > 1 ? ` trên ${m} sự kiện` : ''}`,
+    },
+    tribe_new_post: {
+      en: (n, m) => `${n} new post${n === 1 ? '' : 's'}${m > 1 ? ` in ${m} tribes` : ''}`,
+      fr: (n, m) => `${n} nouvelle${n === 1 ? '' : 's'} publication${n === 1 ? '' : 's'}${m > 1 ? ` dans ${m} tribus` : ''}`,
+      vi: (n, m) => `${n} bài đăng mới${m > 1 ? ` trong ${m} nhóm` : ''}`,
+    },
+    thread_activity: {
+      en: (n, m) => `${n} new repl${n === 1 ? 'y' : 'ies'}${m > 1 ? ` in ${m} threads` : ''}`,
+      fr: (n, m) => `${n} nouvelle${n === 1 ? '' : 's'} réponse${n === 1 ? '' : 's'}${m > 1 ? ` dans ${m} discussions` : ''}`,
+      vi: (n, m) => `${n} phản hồi mới${m > 1 ? ` trong ${m} cuộc thảo luận` : ''}`,
+    },
+    new_follower: {
+      en: (n) => `${n} new follower${n === 1 ? '' : 's'}`,
+      fr: (n) => `${n} nouvel${n === 1 ? '' : 's'} abonné${n === 1 ? '' : 's'}`,
+      vi: (n) => `${n} người theo dõi mới`,
+    },
+  },
+  title: {
+    en: (n) => `Your digest: ${n} update${n === 1 ? '' : 's'}`,
+    fr: (n) => `Votre résumé : ${n} nouveauté${n === 1 ? '' : 's'}`,
+    vi: (n) => `Bản tin của bạn: ${n} cập nhật`,
+  },
+  andMore: {
+    en: (n) => `and ${n} more`,
+    fr: (n) => `et ${n} de plus`,
+    vi: (n) => `và ${n} mục khác`,
+  },
+  openApp: { en: 'Open ĐàLạt.app', fr: 'Ouvrir ĐàLạt.app', vi: 'Mở ĐàLạt.app' },
+  settings: { en: 'Digest settings', fr: 'Réglages du résumé', vi: 'Cài đặt bản tin' },
+};
+
+// Subjects listed per group in the email before collapsing into "and N more"
+const DIGEST_SUBJECTS_SHOWN = 3;
+
+/**
+ * One push/email summarising a user's queued low-priority notifications,
+ * e.g. "12 new RSVPs across 3 events".
+ */
+export function getDigestTemplate(
+  items: Pick<DigestItem, 'type' | 'payload'>[],
+  userLocale: Locale
+): TemplateResult {
+  const locale = getNotificationLocale(userLocale);
+  const baseUrl = getBaseUrl();
+  const groups = summarizeDigest(items, baseUrl);
+  const settingsUrl = `${baseUrl}/settings`;
+
+  const total = groups.reduce((sum, group) => sum + group.count, 0);
+  const title = digestStrings.title[locale](total);
+  const lines = groups.map((group) => digestStrings.line[group.type][locale](group.count, group.subjects.length));
+  const body = lines.join(' · ');
+
+  // A single-subject digest can deep-link; otherwise land on the app
+  const onlySubject = groups.length === 1 && groups[0].subjects.length === 1 ? groups[0].subjects[0] : null;
+  const primaryActionUrl = onlySubject?.url ?? baseUrl;
+
+  const subjectLines = (group: DigestGroup, format: (subject: DigestGroup['subjects'][number]) => string) => {
+    const shown = group.subjects.slice(0, DIGEST_SUBJECTS_SHOWN).map(format);
+    const hidden = group.subjects.length - shown.length;
+    return hidden > 0 ? [...shown, digestStrings.andMore[locale](hidden)] : shown;
+  };
+
+  const text = groups.flatMap((group, i) => [
+    lines[i],
+    ...subjectLines(group, (subject) => `  • ${subject.title} (${subject.count}) — ${subject.url}`),
+    '',
+  ]);
+
+  const bodyHtml = groups
+    .map((group, i) => {
+      const items = subjectLines(group, (subject) =>
+        `<a href="${escapeHtml(subject.url)}">${escapeHtml(subject.title)}</a> (${subject.count})`
+      );
+      return `<strong>${escapeHtml(lines[i])}</strong><br>${items.map((item) => `• ${item}`).join('<br>')}`;
+    })
+    .join('<br><br>');
+
+  return {
+    inApp: {
+      title,
+      body,
+      primaryActionUrl,
+      primaryActionLabel: digestStrings.openApp[locale],
+    },
+    push: {
+      title,
+      body,
+      primaryActionUrl,
+      tag: 'notification-digest',
+    },
+    email: {
+      subject: `${title} ${getRandomSubjectEmoji()}`,
+      title,
+      body,
+      bodyHtml,
+      primaryActionUrl,
+      primaryActionLabel: digestStrings.openApp[locale],
+      secondaryActionUrl: settingsUrl,
+      secondaryActionLabel: digestStrings.settings[locale],
+      text: [title, '', ...text, `${digestStrings.settings[locale]}: ${settingsUrl}`].join('\n'),
+    },
+  };
+}
+
 export function getNotificationTemplate(payload: NotificationPayload): TemplateResult {
   switch (payload.type) {
     case 'rsvp_confirmation':
@@ -1355,6 +1827,10 @@ export function getNotificationTemplate(payload: NotificationPayload): TemplateR
       return finalReminder2hTemplate(payload);
     case 'waitlist_promotion':
       return waitlistPromotionTemplate(payload);
+    case 'waitlist_offer':
+      return waitlistOfferTemplate(payload);
+    case 'order_receipt':
+      return orderReceiptTemplate(payload);
     case 'event_reminder':
       return eventReminderTemplate(payload);
     case 'waitlist_position':
@@ -1377,8 +1853,16 @@ export function getNotificationTemplate(payload: NotificationPayload): TemplateR
       return tribeRequestRejectedTemplate(payload);
     case 'tribe_new_event':
       return tribeNewEventTemplate(payload);
+    case 'tribe_new_post':
+      return tribeNewPostTemplate(payload);
     case 'tribe_invitation':
       return tribeInvitationTemplate(payload);
+    case 'series_occurrence_changed':
+      return seriesOccurrenceChangedTemplate(payload);
+    case 'festival_session_reminder':
+      return festivalSessionReminderTemplate(payload);
+    case 'festival_schedule_change':
+      return festivalScheduleChangeTemplate(payload);
     // Comment notifications
     case 'comment_on_event':
       return commentOnEventTemplate(payload);
@@ -1,4 +1,5 @@
-import type { Locale } from '@/lib/types';
+import type { Locale, SeriesUpdateScope } from '@/lib/types';
+import type { SeriesChangeKind } from '@/lib/series/overrides';
 
 // ============================================
 // Notification Types
@@ -9,6 +10,8 @@ export type NotificationType =
   | 'confirm_attendance_24h'
   | 'final_reminder_2h'
   | 'waitlist_promotion'
+  | 'waitlist_offer'
+  | 'order_receipt'
   | 'event_reminder'
   | 'waitlist_position'
   | 'new_rsvp'
@@ -20,6 +23,12 @@ export type NotificationType =
   | 'tribe_request_rejected'
   | 'tribe_new_event'
   | 'tribe_invitation'
+  | 'tribe_new_post'
+  // Recurring series edits
+  | 'series_occurrence_changed'
+  // Festival personal agenda
+  | 'festival_session_reminder'
+  | 'festival_schedule_change'
   // Comment notifications
   | 'comment_on_event'
   | 'comment_on_moment'
@@ -97,6 +106,9 @@ export interface Notification {
   updated_at: string;
 }
 
+// How low-priority notifications reach push/email: one by one, or batched
+export type DigestFrequency = 'instant' | 'hourly' | 'daily';
+
 export interface NotificationPreferences {
   id: string;
   user_id: string;
@@ -108,6 +120,11 @@ export interface NotificationPreferences {
   quiet_hours_enabled: boolean;
   quiet_hours_start: string;
   quiet_hours_end: string;
+  /** instant | hourly | daily — supersedes the unused email_digest flag */
+  digest_frequency: DigestFrequency;
+  /** Local (Đà Lạt) time the daily digest goes out, HH:MM:SS */
+  digest_time: string;
+  last_digest_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -149,6 +166,8 @@ export interface EventNotificationPayload extends BaseNotificationPayload {
 
 export interface RsvpConfirmationPayload extends EventNotificationPayload {
   type: 'rsvp_confirmation';
+  /** Signed check-in tickets (attendee + plus-one guests); only for 'going' */
+  tickets?: { label: string; code: string }[];
 }
 
 export interface ConfirmAttendance24hPayload extends EventNotificationPayload {
@@ -165,6 +184,21 @@ export interface WaitlistPromotionPayload extends EventNotificationPayload {
   type: 'waitlist_promotion';
 }
 
+export interface WaitlistOfferPayload extends EventNotificationPayload {
+  type: 'waitlist_offer';
+  claimBy: string; // e.g. "7:30 PM", Da Lat time
+}
+
+export interface OrderReceiptPayload extends EventNotificationPayload {
+  type: 'order_receipt';
+  referenceCode: string;
+  items: { name: string; quantity: number; unitPrice: number }[];
+  totalAmount: number;
+  currency: string;
+  /** Signed check-in tickets, same as the RSVP confirmation carries */
+  tickets?: { label: string; code: string }[];
+}
+
 export interface EventReminderPayload extends EventNotificationPayload {
   type: 'event_reminder';
   eventTime: string;
@@ -182,6 +216,8 @@ export interface NewRsvpPayload extends EventNotificationPayload {
 
 export interface FeedbackRequestPayload extends EventNotificationPayload {
   type: 'feedback_request';
+  /** Set at send time when the organizer has an open post-event survey */
+  surveyAvailable?: boolean;
 }
 
 export interface EventInvitationPayload extends BaseNotificationPayload {
@@ -241,6 +277,48 @@ export interface TribeNewEventPayload extends BaseNotificationPayload {
   tribeName: string;
 }
 
+export interface TribeNewPostPayload extends BaseNotificationPayload {
+  type: 'tribe_new_post';
+  tribeName: string;
+  tribeSlug: string;
+  postId: string;
+  authorName: string;
+  postPreview: string;
+}
+
+export interface SeriesOccurrenceChangedPayload extends BaseNotificationPayload {
+  type: 'series_occurrence_changed';
+  seriesSlug: string;
+  seriesTitle: string;
+  /** The first affected occurrence — the one edited for 'this_event' */
+  eventSlug: string | null;
+  /** Its (new) start — or the split date — formatted in Đà Lạt time */
+  eventTime: string;
+  scope: SeriesUpdateScope;
+  changes: SeriesChangeKind[];
+  occurrenceCount: number;
+}
+
+export interface FestivalSessionReminderPayload extends BaseNotificationPayload {
+  type: 'festival_session_reminder';
+  festivalSlug: string;
+  festivalTitle: string;
+  eventSlug: string;
+  eventTitle: string;
+  /** Session start formatted in Đà Lạt time */
+  eventTime: string;
+  stage: string | null;
+}
+
+export interface FestivalScheduleChangePayload extends BaseNotificationPayload {
+  type: 'festival_schedule_change';
+  festivalSlug: string;
+  festivalTitle: string;
+  updateTitle: string;
+  /** The recipient's starred sessions the update affects */
+  sessionTitles: string[];
+}
+
 export interface TribeInvitationPayload extends BaseNotificationPayload {
   type: 'tribe_invitation';
   tribeName: string;
@@ -258,7 +336,7 @@ export interface TribeInvitationPayload extends BaseNotificationPayload {
 // Comment Notification Payloads
 // ============================================
 
-export type CommentTargetType = 'event' | 'moment';
+export type CommentTargetType = 'event' | 'moment' | 'tribe';
 
 export interface CommentOnEventPayload extends BaseNotificationPayload {
   type: 'comment_on_event';
@@ -356,6 +434,8 @@ export type NotificationPayload =
   | ConfirmAttendance24hPayload
   | FinalReminder2hPayload
   | WaitlistPromotionPayload
+  | WaitlistOfferPayload
+  | OrderReceiptPayload
   | EventReminderPayload
   | WaitlistPositionPayload
   | NewRsvpPayload
@@ -368,6 +448,10 @@ export type NotificationPayload =
   | TribeRequestRejectedPayload
   | TribeNewEventPayload
   | TribeInvitationPayload
+  | TribeNewPostPayload
+  | SeriesOccurrenceChangedPayload
+  | FestivalSessionReminderPayload
+  | FestivalScheduleChangePayload
   // Comment notifications
   | CommentOnEventPayload
   | CommentOnMomentPayload
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Waitlist offer delivery: each pending offer is claimed (notified_at) before
+ * it is sent, so overlapping runs never double-notify, and everyone still
+ * waiting behind the offer holders hears their new position.
+ */
+
+interface Offer {
+  id: string;
+  event_id: string;
+  user_id: string;
+  expires_at: string;
+  events: { title: string; slug: string };
+  profiles: { locale: string | null };
+}
+
+const db = {
+  offers: [] as Offer[],
+  // Offer IDs another run already claimed
+  claimed: new Set<string>(),
+  waitlist: [] as { user_id: string; profiles: { locale: string | null } }[],
+  pendingHolders: [] as { user_id: string }[],
+};
+
+function makeBuilder(table: string) {
+  let isUpdate = false;
+  let selectedColumns = '';
+  const filters: Record<string, unknown> = {};
+  const builder: Record<string, unknown> = {};
+  for (const m of ['gt', 'limit', 'order', 'is']) {
+    builder[m] = vi.fn(() => builder);
+  }
+  builder.select = vi.fn((columns: string) => {
+    selectedColumns = columns;
+    return builder;
+  });
+  builder.eq = vi.fn((column: string, value: unknown) => {
+    filters[column] = value;
+    return builder;
+  });
+  builder.update = vi.fn(() => {
+    isUpdate = true;
+    return builder;
+  });
+  builder.then = (resolve: (v: { data: unknown; error: null }) => void) => {
+    let data: unknown = null;
+    if (table === 'waitlist_offers' && isUpdate) {
+      const id = filters.id as string;
+      data = db.claimed.has(id) ? [] : [{ id }];
+      db.claimed.add(id);
+    } else if (table === 'waitlist_offers' && selectedColumns === 'user_id') {
+      data = db.pendingHolders;
+    } else if (table === 'waitlist_offers') {
+      data = db.offers;
+    } else if (table === 'rsvps') {
+      data = db.waitlist;
+    }
+    return Promise.resolve({ data, error: null }).then(resolve);
+  };
+  return builder;
+}
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({
+    from: vi.fn((table: string) => makeBuilder(table)),
+  })),
+}));
+
+const notifyWaitlistOffer = vi.fn(async () => ({ success: true }));
+const notifyWaitlistPositionUpdate = vi.fn(async () => ({ success: true }));
+
+vi.mock('./index', () => ({
+  notifyWaitlistOffer: (...args: unknown[]) => notifyWaitlistOffer(...(args as [])),
+  notifyWaitlistPositionUpdate: (...args: unknown[]) => notifyWaitlistPositionUpdate(...(args as [])),
+}));
+
+import { deliverWaitlistOffers, formatClaimDeadline } from './waitlist-offers';
+
+function offer(id: string, userId: string): Offer {
+  return {
+    id,
+    event_id: 'event-1',
+    user_id: userId,
+    expires_at: '2026-11-21T12:30:00Z',
+    events: { title: 'Jazz Night', slug: 'jazz-night' },
+    profiles: { locale: 'vi' },
+  };
+}
+
+beforeEach(() => {
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://example.supabase.co';
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-key';
+  db.offers = [];
+  db.claimed = new Set();
+  db.waitlist = [];
+  db.pendingHolders = [];
+  notifyWaitlistOffer.mockClear();
+  notifyWaitlistPositionUpdate.mockClear();
+});
+
+describe('formatClaimDeadline', () => {
+  it('shows the deadline in Da Lat time', () => {
+    // 12:30 UTC is 19:30 in Da Lat, a Saturday
+    expect(formatClaimDeadline('2026-11-21T12:30:00Z')).toBe('Sat 7:30 PM');
+  });
+
+  it('rolls over to the next Da Lat day', () => {
+    expect(formatClaimDeadline('2026-11-21T18:15:00Z')).toBe('Sun 1:15 AM');
+  });
+});
+
+describe('deliverWaitlistOffers', () => {
+  it('notifies each pending offer with its locale and deadline', async () => {
+    db.offers = [offer('o1', 'u1')];
+
+    expect(await deliverWaitlistOffers('event-1')).toBe(1);
+    expect(notifyWaitlistOffer).toHaveBeenCalledWith('u1', 'vi', 'Jazz Night', 'jazz-night', 'Sat 7:30 PM');
+  });
+
+  it('skips offers another run already claimed', async () => {
+    db.offers = [offer('o1', 'u1'), offer('o2', 'u2')];
+    db.claimed.add('o1');
+
+    expect(await deliverWaitlistOffers()).toBe(1);
+    expect(notifyWaitlistOffer).toHaveBeenCalledTimes(1);
+    expect(notifyWaitlistOffer).toHaveBeenCalledWith('u2', 'vi', 'Jazz Night', 'jazz-night', 'Sat 7:30 PM');
+  });
+
+  it('tells the rest of the waitlist their new position', async () => {
+    db.offers = [offer('o1', 'u1')];
+    db.pendingHolders = [{ user_id: 'u1' }];
+    db.waitlist = [
+      { user_id: 'u1', profiles: { locale: 'vi' } },
+      { user_id: 'u2', profiles: { locale: 'en' } },
+      { user_id: 'u3', profiles: { locale: null } },
+    ];
+
+    await deliverWaitlistOffers('event-1');
+
+    expect(notifyWaitlistPositionUpdate).toHaveBeenCalledTimes(2);
+    expect(notifyWaitlistPositionUpdate).toHaveBeenCalledWith('u2', 'en', 'Jazz Night', 1, 'jazz-night');
+    expect(notifyWaitlistPositionUpdate).toHaveBeenCalledWith('u3', 'en', 'Jazz Night', 2, 'jazz-night');
+  });
+
+  it('leaves the queue alone when nothing was delivered', async () => {
+    db.waitlist = [{ user_id: 'u2', profiles: { locale: 'en' } }];
+
+    expect(await deliverWaitlistOffers('event-1')).toBe(0);
+    expect(notifyWaitlistPositionUpdate).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without service credentials', async () => {
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+    db.offers = [offer('o1', 'u1')];
+
+    expect(await deliverWaitlistOffers()).toBe(0);
+    expect(notifyWaitlistOffer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Locale } from '@/lib/types';
+import { notifyWaitlistOffer, notifyWaitlistPositionUpdate } from './index';
+
+/**
+ * Waitlist offer delivery.
+ *
+ * Offers are created in the database (offer_waitlist_spots) by cancellations,
+ * no-shows, capacity increases and expiry cascades — several of which happen
+ * inside triggers or other RPCs that can't send notifications. So delivery is
+ * driven by the offers table itself: anything pending with notified_at IS NULL
+ * gets notified here, either right away from the route that freed the spot or
+ * by the /api/cron/waitlist-offers sweep.
+ */
+
+function createServiceClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  return createClient(url, serviceKey);
+}
+
+/**
+ * Format the claim deadline the way other notifications show times
+ * ("Sat 7:30 PM"), in Da Lat time.
+ */
+export function formatClaimDeadline(expiresAt: string): string {
+  return new Date(expiresAt).toLocaleString('en-US', {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: 'Asia/Ho_Chi_Minh',
+  });
+}
+
+/**
+ * Notify every pending, not-yet-notified offer (optionally for one event).
+ * Returns how many guests were reached.
+ */
+export async function deliverWaitlistOffers(eventId?: string): Promise<number> {
+  const supabase = createServiceClient();
+  if (!supabase) return 0;
+
+  let query = supabase
+    .from('waitlist_offers')
+    .select('id, event_id, user_id, expires_at, events!inner(title, slug), profiles!inner(locale)')
+    .eq('status', 'pending')
+    .is('notified_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .limit(200);
+
+  if (eventId) query = query.eq('event_id', eventId);
+
+  const { data: offers, error } = await query;
+  if (error) {
+    console.error('[waitlist-offers] Failed to load offers:', error.message);
+    return 0;
+  }
+
+  let delivered = 0;
+  const movedEvents = new Map<string, { title: string; slug: string }>();
+  for (const offer of offers ?? []) {
+    const event = offer.events as unknown as { title: string; slug: string };
+    const profile = offer.profiles as unknown as { locale: string | null };
+
+    // Claim the row first so an overlapping cron run doesn't double-notify
+    const { data: claimed } = await supabase
+      .from('waitlist_offers')
+      .update({ notified_at: new Date().toISOString() })
+      .eq('id', offer.id)
+      .is('notified_at', null)
+      .select('id');
+
+    if (!claimed?.length) continue;
+
+    const result = await notifyWaitlistOffer(
+      offer.user_id,
+      (profile?.locale as Locale) || 'en',
+      event.title,
+      event.slug,
+      formatClaimDeadline(offer.expires_at)
+    );
+
+    if (result.success) {
+      delivered++;
+    } else {
+      console.error(`[waitlist-offers] Offer notification failed for user ${offer.user_id}`);
+    }
+    movedEvents.set(offer.event_id, event);
+  }
+
+  // Everyone behind the new offer holders just moved up the queue
+  for (const [movedEventId, event] of movedEvents) {
+    await notifyWaitlistPositions(supabase, movedEventId, event);
+  }
+
+  return delivered;
+}
+
+/**
+ * Tell guests still waiting (without an open offer) their new place in line.
+ */
+async function notifyWaitlistPositions(
+  supabase: NonNullable<ReturnType<typeof createServiceClient>>,
+  eventId: string,
+  event: { title: string; slug: string }
+): Promise<void> {
+  const [{ data: waiting, error }, { data: holders }] = await Promise.all([
+    supabase
+      .from('rsvps')
+      .select('user_id, profiles(locale)')
+      .eq('event_id', eventId)
+      .eq('status', 'waitlist')
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('waitlist_offers')
+      .select('user_id')
+      .eq('event_id', eventId)
+      .eq('status', 'pending'),
+  ]);
+
+  if (error) {
+    console.error('[waitlist-offers] Failed to load waitlist:', error.message);
+    return;
+  }
+
+  const offered = new Set((holders ?? []).map((h) => h.user_id));
+  const queue = (waiting ?? []).filter((r) => !offered.has(r.user_id));
+
+  await Promise.all(
+    queue.map((rsvp, index) => {
+      const profile = rsvp.profiles as unknown as { locale?: string } | null;
+      return notifyWaitlistPositionUpdate(
+        rsvp.user_id,
+        (profile?.locale as Locale) || 'en',
+        event.title,
+        index + 1,
+        event.slug
+      );
+    })
+  );
+}
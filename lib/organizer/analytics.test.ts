@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEventFunnels,
+  buildOrganizerAnalytics,
+  buildSeriesCohorts,
+  cohortsToCsv,
+  funnelsToCsv,
+  toCsv,
+  type AnalyticsInput,
+  type AnalyticsRsvp,
+} from './analytics';
+
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+function rsvp(eventId: string, userId: string, overrides: Partial<AnalyticsRsvp> = {}): AnalyticsRsvp {
+  return {
+    event_id: eventId,
+    user_id: userId,
+    status: 'going',
+    checked_in_at: null,
+    no_show_at: null,
+    source: null,
+    ...overrides,
+  };
+}
+
+function input(overrides: Partial<AnalyticsInput> = {}): AnalyticsInput {
+  return {
+    events: [
+      { id: 'e1', slug: 'jazz-1', title: 'Jazz #1', starts_at: '2026-05-01T12:00:00Z', series_id: 's1' },
+      { id: 'e2', slug: 'jazz-2', title: 'Jazz #2', starts_at: '2026-06-01T12:00:00Z', series_id: 's1' },
+      { id: 'e3', slug: 'jazz-3', title: 'Jazz #3', starts_at: '2026-07-01T12:00:00Z', series_id: 's1' },
+    ],
+    series: [{ id: 's1', title: 'Jazz Night' }],
+    rsvps: [],
+    pageViews: [],
+    feedback: [],
+    moments: [],
+    ...overrides,
+  };
+}
+
+describe('buildEventFunnels', () => {
+  it('counts each funnel step and ignores cancelled RSVPs', () => {
+    const [, , first] = buildEventFunnels(
+      input({
+        rsvps: [
+          rsvp('e1', 'a', { checked_in_at: '2026-05-01T12:05:00Z', source: 'tribe' }),
+          rsvp('e1', 'b', { no_show_at: '2026-05-02T00:00:00Z' }),
+          rsvp('e1', 'c', { status: 'interested', source: 'search' }),
+          rsvp('e1', 'd', { status: 'cancelled', source: 'invite' }),
+        ],
+        pageViews: [
+          { event_id: 'e1', views: 10 },
+          { event_id: 'e1', views: 5 },
+        ],
+        feedback: [{ event_id: 'e1', user_id: 'a' }],
+        moments: [
+          { event_id: 'e1', user_id: 'a' },
+          { event_id: 'e1', user_id: 'c' },
+        ],
+      }),
+      NOW
+    );
+
+    expect(first).toMatchObject({
+      eventId: 'e1',
+      isPast: true,
+      views: 15,
+      interested: 3,
+      going: 2,
+      checkedIn: 1,
+      contributed: 2,
+      noShows: 1,
+      noShowRate: 0.5,
+      sources: { tribe: 1, search: 1, direct: 1, invite: 0, audience: 0 },
+    });
+  });
+
+  it('sorts newest first and leaves no-show rate empty for upcoming events', () => {
+    const funnels = buildEventFunnels(input({ rsvps: [rsvp('e3', 'a')] }), NOW);
+    expect(funnels.map((f) => f.eventId)).toEqual(['e3', 'e2', 'e1']);
+    expect(funnels[0].isPast).toBe(false);
+    expect(funnels[0].noShowRate).toBeNull();
+  });
+});
+
+describe('buildSeriesCohorts', () => {
+  it('counts returning attendees per occurrence, skipping no-shows and future dates', () => {
+    const [cohort] = buildSeriesCohorts(
+      input({
+        rsvps: [
+          rsvp('e1', 'a'),
+          rsvp('e1', 'b'),
+          rsvp('e2', 'a'),
+          rsvp('e2', 'b', { no_show_at: '2026-06-02T00:00:00Z' }),
+          rsvp('e2', 'c'),
+          rsvp('e3', 'a'),
+        ],
+      }),
+      NOW
+    );
+
+    expect(cohort.title).toBe('Jazz Night');
+    expect(cohort.occurrences).toEqual([
+      { eventId: 'e1', startsAt: '2026-05-01T12:00:00Z', attendees: 2, returning: 0 },
+      { eventId: 'e2', startsAt: '2026-06-01T12:00:00Z', attendees: 2, returning: 1 },
+    ]);
+    expect(cohort.uniqueAttendees).toBe(3);
+    expect(cohort.returningAttendees).toBe(1);
+    expect(cohort.returningRate).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('buildOrganizerAnalytics', () => {
+  it('totals funnels and counts returning attendees across events', () => {
+    const { totals } = buildOrganizerAnalytics(
+      input({
+        events: [
+          { id: 'e1', slug: 'a', title: 'A', starts_at: '2026-05-01T12:00:00Z', series_id: null },
+          { id: 'e2', slug: 'b', title: 'B', starts_at: '2026-06-01T12:00:00Z', series_id: null },
+        ],
+        rsvps: [
+          rsvp('e1', 'a', { source: 'audience' }),
+          rsvp('e1', 'b', { no_show_at: '2026-05-02T00:00:00Z' }),
+          rsvp('e2', 'a'),
+          rsvp('e2', 'c'),
+        ],
+        pageViews: [{ event_id: 'e2', views: 7 }],
+      }),
+      NOW
+    );
+
+    expect(totals.views).toBe(7);
+    expect(totals.going).toBe(4);
+    expect(totals.noShowRate).toBe(0.25);
+    expect(totals.uniqueAttendees).toBe(2);
+    expect(totals.returningAttendees).toBe(1);
+    expect(totals.sources.audience).toBe(1);
+    expect(totals.sources.direct).toBe(3);
+  });
+});
+
+describe('CSV export', () => {
+  it('escapes commas, quotes and newlines', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'x\ny', null, 3]])).toBe('"a,b","say ""hi""","x\ny",,3');
+  });
+
+  it('writes one funnel row per event and one cohort row per occurrence', () => {
+    const analytics = buildOrganizerAnalytics(input({ rsvps: [rsvp('e1', 'a'), rsvp('e2', 'a')] }), NOW);
+
+    const funnelLines = funnelsToCsv(analytics.funnels).split('\n');
+    expect(funnelLines).toHaveLength(4);
+    expect(funnelLines[0]).toContain('no_show_rate_percent');
+    expect(funnelLines[3]).toBe('Jazz #1,2026-05-01T12:00:00Z,0,1,1,0,0,0,0,0,0,0,0,1');
+
+    expect(cohortsToCsv(analytics.cohorts).split('\n')).toEqual([
+      'series,occurrence,starts_at,attendees,returning',
+      'Jazz Night,1,2026-05-01T12:00:00Z,1,0',
+      'Jazz Night,2,2026-06-01T12:00:00Z,1,1',
+    ]);
+  });
+});
@@ -0,0 +1,431 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from '@/lib/audiences/resolve';
+import { RSVP_SOURCES, type RsvpSource } from '@/lib/events/rsvp-source';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+/**
+ * Organizer analytics: per-event funnels, no-show rates, returning attendees
+ * across a series and where RSVPs came from.
+ *
+ * Everything is computed in memory from raw rows so the same functions back
+ * the dashboard and the CSV export. "Attended" means going, not marked as a
+ * no-show, and the event has started — check-in is optional for organizers,
+ * so it's its own funnel step rather than the definition of attendance.
+ */
+
+/** Most recent events included in the dashboard */
+export const MAX_ANALYTICS_EVENTS = 200;
+
+/** Event ids per .in() filter — keeps request URLs short */
+const EVENT_ID_CHUNK = 100;
+
+export type SourceKey = RsvpSource | 'direct';
+
+export const SOURCE_KEYS: readonly SourceKey[] = [...RSVP_SOURCES, 'direct'];
+
+export interface AnalyticsEvent {
+  id: string;
+  slug: string;
+  title: string;
+  starts_at: string;
+  series_id: string | null;
+}
+
+export interface AnalyticsRsvp {
+  event_id: string;
+  user_id: string;
+  status: 'going' | 'waitlist' | 'cancelled' | 'interested';
+  checked_in_at: string | null;
+  no_show_at: string | null;
+  source: RsvpSource | null;
+}
+
+export interface AnalyticsContribution {
+  event_id: string;
+  user_id: string;
+}
+
+export interface AnalyticsInput {
+  events: AnalyticsEvent[];
+  series: { id: string; title: string }[];
+  rsvps: AnalyticsRsvp[];
+  pageViews: { event_id: string; views: number }[];
+  feedback: AnalyticsContribution[];
+  moments: AnalyticsContribution[];
+}
+
+export interface EventFunnel {
+  eventId: string;
+  slug: string;
+  title: string;
+  startsAt: string;
+  isPast: boolean;
+  views: number;
+  /** Anyone who RSVP'd at all (interested, waitlist or going) */
+  interested: number;
+  going: number;
+  checkedIn: number;
+  /** People who left feedback or shared a moment */
+  contributed: number;
+  noShows: number;
+  /** No-shows / going, only once the event has started */
+  noShowRate: number | null;
+  sources: Record<SourceKey, number>;
+}
+
+export interface SeriesOccurrence {
+  eventId: string;
+  startsAt: string;
+  attendees: number;
+  /** Attendees who came to an earlier occurrence of the same series */
+  returning: number;
+}
+
+export interface SeriesCohort {
+  seriesId: string;
+  title: string;
+  occurrences: SeriesOccurrence[];
+  uniqueAttendees: number;
+  /** Attended two or more occurrences */
+  returningAttendees: number;
+  returningRate: number | null;
+}
+
+export interface AnalyticsTotals {
+  views: number;
+  interested: number;
+  going: number;
+  checkedIn: number;
+  contributed: number;
+  noShowRate: number | null;
+  uniqueAttendees: number;
+  /** Attended two or more of the organizer's events, any series */
+  returningAttendees: number;
+  sources: Record<SourceKey, number>;
+}
+
+export interface OrganizerAnalytics {
+  funnels: EventFunnel[];
+  cohorts: SeriesCohort[];
+  totals: AnalyticsTotals;
+}
+
+function emptySources(): Record<SourceKey, number> {
+  return Object.fromEntries(SOURCE_KEYS.map((key) => [key, 0])) as Record<SourceKey, number>;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+function groupByEvent<T extends { event_id: string }>(rows: T[]): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = map.get(row.event_id);
+    if (list) list.push(row);
+    else map.set(row.event_id, [row]);
+  }
+  return map;
+}
+
+function hasStarted(event: AnalyticsEvent, now: Date): boolean {
+  return new Date(event.starts_at).getTime() <= now.getTime();
+}
+
+/** Whole-percent label for a 0–1 rate; "—" when there's nothing to divide by */
+export function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+export function isAttendee(rsvp: AnalyticsRsvp): boolean {
+  return rsvp.status === 'going' && !rsvp.no_show_at;
+}
+
+/**
+ * Funnel for each event, newest first.
+ */
+export function buildEventFunnels(input: AnalyticsInput, now = new Date()): EventFunnel[] {
+  const rsvpsByEvent = groupByEvent(input.rsvps);
+  const viewsByEvent = new Map<string, number>();
+  for (const row of input.pageViews) {
+    viewsByEvent.set(row.event_id, (viewsByEvent.get(row.event_id) ?? 0) + row.views);
+  }
+  const contributorsByEvent = new Map<string, Set<string>>();
+  for (const row of [...input.feedback, ...input.moments]) {
+    const set = contributorsByEvent.get(row.event_id) ?? new Set<string>();
+    set.add(row.user_id);
+    contributorsByEvent.set(row.event_id, set);
+  }
+
+  return [...input.events]
+    .sort((a, b) => b.starts_at.localeCompare(a.starts_at))
+    .map((event) => {
+      const rsvps = (rsvpsByEvent.get(event.id) ?? []).filter((r) => r.status !== 'cancelled');
+      const going = rsvps.filter((r) => r.status === 'going');
+      const isPast = hasStarted(event, now);
+      const noShows = going.filter((r) => r.no_show_at).length;
+
+      const sources = emptySources();
+      for (const rsvp of rsvps) sources[rsvp.source ?? 'direct']++;
+
+      return {
+        eventId: event.id,
+        slug: event.slug,
+        title: event.title,
+        startsAt: event.starts_at,
+        isPast,
+        views: viewsByEvent.get(event.id) ?? 0,
+        interested: rsvps.length,
+        going: going.length,
+        checkedIn: going.filter((r) => r.checked_in_at).length,
+        contributed: contributorsByEvent.get(event.id)?.size ?? 0,
+        noShows,
+        noShowRate: isPast ? ratio(noShows, going.length) : null,
+        sources,
+      };
+    });
+}
+
+/**
+ * Returning attendees per series. Occurrences are in date order and only
+ * those that have started count.
+ */
+export function buildSeriesCohorts(input: AnalyticsInput, now = new Date()): SeriesCohort[] {
+  const attendeesByEvent = new Map<string, Set<string>>();
+  for (const rsvp of input.rsvps) {
+    if (!isAttendee(rsvp)) continue;
+    const set = attendeesByEvent.get(rsvp.event_id) ?? new Set<string>();
+    set.add(rsvp.user_id);
+    attendeesByEvent.set(rsvp.event_id, set);
+  }
+  const titles = new Map(input.series.map((s) => [s.id, s.title]));
+
+  const eventsBySeries = new Map<string, AnalyticsEvent[]>();
+  for (const event of input.events) {
+    if (!event.series_id || !hasStarted(event, now)) continue;
+    const list = eventsBySeries.get(event.series_id) ?? [];
+    list.push(event);
+    eventsBySeries.set(event.series_id, list);
+  }
+
+  const cohorts: SeriesCohort[] = [];
+  for (const [seriesId, events] of eventsBySeries) {
+    events.sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+
+    const timesAttended = new Map<string, number>();
+    const occurrences = events.map((event) => {
+      const attendees = attendeesByEvent.get(event.id) ?? new Set<string>();
+      let returning = 0;
+      for (const userId of attendees) {
+        const before = timesAttended.get(userId) ?? 0;
+        if (before > 0) returning++;
+        timesAttended.set(userId, before + 1);
+      }
+      return { eventId: event.id, startsAt: event.starts_at, attendees: attendees.size, returning };
+    });
+
+    const returningAttendees = [...timesAttended.values()].filter((n) => n >= 2).length;
+    cohorts.push({
+      seriesId,
+      title: titles.get(seriesId) ?? events[events.length - 1].title,
+      occurrences,
+      uniqueAttendees: timesAttended.size,
+      returningAttendees,
+      returningRate: ratio(returningAttendees, timesAttended.size),
+    });
+  }
+
+  return cohorts.sort((a, b) => b.uniqueAttendees - a.uniqueAttendees);
+}
+
+export function buildOrganizerAnalytics(input: AnalyticsInput, now = new Date()): OrganizerAnalytics {
+  const funnels = buildEventFunnels(input, now);
+  const cohorts = buildSeriesCohorts(input, now);
+
+  const totals: AnalyticsTotals = {
+    views: 0,
+    interested: 0,
+    going: 0,
+    checkedIn: 0,
+    contributed: 0,
+    noShowRate: null,
+    uniqueAttendees: 0,
+    returningAttendees: 0,
+    sources: emptySources(),
+  };
+  let pastGoing = 0;
+  let pastNoShows = 0;
+  for (const funnel of funnels) {
+    totals.views += funnel.views;
+    totals.interested += funnel.interested;
+    totals.going += funnel.going;
+    totals.checkedIn += funnel.checkedIn;
+    totals.contributed += funnel.contributed;
+    for (const key of SOURCE_KEYS) totals.sources[key] += funnel.sources[key];
+    if (funnel.isPast) {
+      pastGoing += funnel.going;
+      pastNoShows += funnel.noShows;
+    }
+  }
+  totals.noShowRate = ratio(pastNoShows, pastGoing);
+
+  const startedIds = new Set(funnels.filter((f) => f.isPast).map((f) => f.eventId));
+  const eventsAttended = new Map<string, Set<string>>();
+  for (const rsvp of input.rsvps) {
+    if (!isAttendee(rsvp) || !startedIds.has(rsvp.event_id)) continue;
+    const set = eventsAttended.get(rsvp.user_id) ?? new Set<string>();
+    set.add(rsvp.event_id);
+    eventsAttended.set(rsvp.user_id, set);
+  }
+  totals.uniqueAttendees = eventsAttended.size;
+  totals.returningAttendees = [...eventsAttended.values()].filter((s) => s.size >= 2).length;
+
+  return { funnels, cohorts, totals };
+}
+
+// ============================================
+// CSV export
+// ============================================
+
+type CsvCell = string | number | null;
+
+function escapeCsvCell(value: CsvCell): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\n');
+}
+
+function percent(rate: number | null): CsvCell {
+  return rate === null ? null : Math.round(rate * 1000) / 10;
+}
+
+export function funnelsToCsv(funnels: EventFunnel[]): string {
+  return toCsv([
+    [
+      'event',
+      'starts_at',
+      'page_views',
+      'interested',
+      'going',
+      'checked_in',
+      'feedback_or_moment',
+      'no_shows',
+      'no_show_rate_percent',
+      ...SOURCE_KEYS.map((key) => `source_${key}`),
+    ],
+    ...funnels.map((f) => [
+      f.title,
+      f.startsAt,
+      f.views,
+      f.interested,
+      f.going,
+      f.checkedIn,
+      f.contributed,
+      f.noShows,
+      percent(f.noShowRate),
+      ...SOURCE_KEYS.map((key) => f.sources[key]),
+    ]),
+  ]);
+}
+
+export function cohortsToCsv(cohorts: SeriesCohort[]): string {
+  return toCsv([
+    ['series', 'occurrence', 'starts_at', 'attendees', 'returning'],
+    ...cohorts.flatMap((cohort) =>
+      cohort.occurrences.map((o, index) => [cohort.title, index + 1, o.startsAt, o.attendees, o.returning])
+    ),
+  ]);
+}
+
+// ============================================
+// Loading
+// ============================================
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+async function fetchForEvents<T>(
+  label: string,
+  eventIds: string[],
+  query: (ids: string[], from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (const ids of chunk(eventIds, EVENT_ID_CHUNK)) {
+    rows.push(...(await fetchAllRows<T>(label, (from, to) => query(ids, from, to))));
+  }
+  return rows;
+}
+
+/**
+ * Raw rows for the user's events: those of organizers they own plus any
+ * they created. Runs as the user — RLS keeps page views to their own events.
+ */
+export async function loadOrganizerAnalyticsInput(
+  supabase: AnySupabaseClient,
+  userId: string
+): Promise<AnalyticsInput> {
+  const { data: organizers } = await supabase.from('organizers').select('id').eq('owner_id', userId);
+  const organizerIds = (organizers ?? []).map((o: { id: string }) => o.id);
+
+  const ownership = organizerIds.length > 0
+    ? `created_by.eq.${userId},organizer_id.in.(${organizerIds.join(',')})`
+    : `created_by.eq.${userId}`;
+
+  const { data: events, error } = await supabase
+    .from('events')
+    .select('id, slug, title, starts_at, series_id')
+    .or(ownership)
+    .neq('status', 'draft')
+    .order('starts_at', { ascending: false })
+    .limit(MAX_ANALYTICS_EVENTS);
+  if (error) throw new Error(`loadOrganizerAnalyticsInput(events): ${error.message}`);
+
+  const eventList = (events ?? []) as AnalyticsEvent[];
+  const eventIds = eventList.map((e) => e.id);
+  const seriesIds = [...new Set(eventList.map((e) => e.series_id).filter((id): id is string => !!id))];
+
+  const [rsvps, pageViews, feedback, moments, series] = await Promise.all([
+    fetchForEvents<AnalyticsRsvp>('loadOrganizerAnalyticsInput(rsvps)', eventIds, (ids, from, to) =>
+      supabase
+        .from('rsvps')
+        .select('event_id, user_id, status, checked_in_at, no_show_at, source')
+        .in('event_id', ids)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchForEvents<{ event_id: string; views: number }>('loadOrganizerAnalyticsInput(views)', eventIds, (ids, from, to) =>
+      supabase
+        .from('event_page_views')
+        .select('event_id, views')
+        .in('event_id', ids)
+        .order('event_id')
+        .order('day')
+        .range(from, to)
+    ),
+    fetchForEvents<AnalyticsContribution>('loadOrganizerAnalyticsInput(feedback)', eventIds, (ids, from, to) =>
+      supabase.from('event_feedback').select('event_id, user_id').in('event_id', ids).order('id').range(from, to)
+    ),
+    fetchForEvents<AnalyticsContribution>('loadOrganizerAnalyticsInput(moments)', eventIds, (ids, from, to) =>
+      supabase
+        .from('moments')
+        .select('event_id, user_id')
+        .in('event_id', ids)
+        .eq('status', 'published')
+        .order('id')
+        .range(from, to)
+    ),
+    seriesIds.length > 0
+      ? supabase.from('event_series').select('id, title').in('id', seriesIds).then(({ data }) => data ?? [])
+      : Promise.resolve([]),
+  ]);
+
+  return { events: eventList, series, rsvps, pageViews, feedback, moments };
+}
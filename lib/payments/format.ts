@@ -0,0 +1,11 @@
+/**
+ * Ticket prices the way the event form shows them: "150,000đ" for dong,
+ * "12 USD" otherwise. Fixed en-US grouping so emails and receipts read the
+ * same whatever the server locale.
+ */
+export function formatTicketPrice(amount: number, currency: string): string {
+  if (currency === 'VND') {
+    return `${amount.toLocaleString('en-US')}đ`;
+  }
+  return `${amount.toLocaleString('en-US')} ${currency}`;
+}
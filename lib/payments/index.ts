@@ -0,0 +1,27 @@
+import { mockProvider } from './providers/mock';
+import { vietqrProvider } from './providers/vietqr';
+import type { PaymentProvider, PaymentProviderId } from './types';
+
+export type {
+  BankTransferInstructions,
+  PaymentOrder,
+  PaymentProvider,
+  PaymentProviderId,
+  PaymentStart,
+} from './types';
+
+const PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  mock: mockProvider,
+  vietqr: vietqrProvider,
+};
+
+export function getPaymentProvider(id: string): PaymentProvider | null {
+  return (PROVIDERS as Record<string, PaymentProvider>)[id] ?? null;
+}
+
+/** Providers that are configured here and accept the order's currency. */
+export function getAvailableProviders(currency: string): PaymentProviderId[] {
+  return Object.values(PROVIDERS)
+    .filter((p) => p.isAvailable() && p.currencies.includes(currency))
+    .map((p) => p.id);
+}
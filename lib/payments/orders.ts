@@ -0,0 +1,159 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Locale, TicketOrder, TicketOrderItem } from '@/lib/types';
+import { notifyOrderReceipt } from '@/lib/notifications';
+import { scheduleRsvpReminders } from '@/lib/notifications/scheduler';
+import { issueRsvpTickets } from '@/lib/checkin/event-key';
+import { awardPoints } from '@/lib/loyalty';
+import type { PaymentProvider } from './types';
+
+/**
+ * Server-side order settlement.
+ *
+ * Whatever marks an order paid — the mock provider at checkout, a provider
+ * callback, or a host verifying a bank transfer — ends up in afterOrderPaid(),
+ * which does what the RSVP route does for free events (reminders, points)
+ * plus the emailed receipt. receipt_sent_at makes it safe to call twice, and
+ * is cleared again if the receipt couldn't be sent.
+ */
+
+function createServiceClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  return createClient(url, serviceKey);
+}
+
+export interface CreateTicketOrderInput {
+  userId: string;
+  eventId: string;
+  items: { tier_id: string; quantity: number }[];
+  provider: PaymentProvider;
+  rewardRedemptionId: string | null;
+}
+
+/**
+ * Place an order for a signed-in buyer. create_ticket_order is server-only:
+ * the hold length and provider come from lib/payments, never the client.
+ */
+export async function createTicketOrder(input: CreateTicketOrderInput) {
+  const supabase = createServiceClient();
+  if (!supabase) {
+    return { data: null, error: { message: 'Payments are not configured' } };
+  }
+
+  return supabase.rpc('create_ticket_order', {
+    p_user_id: input.userId,
+    p_event_id: input.eventId,
+    p_items: input.items,
+    p_provider: input.provider.id,
+    p_hold_minutes: input.provider.holdMinutes,
+    p_reward_redemption_id: input.rewardRedemptionId,
+  });
+}
+
+/**
+ * Mark an order paid on behalf of a payment provider (no user session), then
+ * run the follow-ups. Returns false when the order can't be settled.
+ */
+export async function confirmTicketOrder(orderId: string, providerRef?: string): Promise<boolean> {
+  const supabase = createServiceClient();
+  if (!supabase) return false;
+
+  const { data, error } = await supabase.rpc('confirm_ticket_order', {
+    p_order_id: orderId,
+    p_provider_ref: providerRef ?? null,
+  });
+
+  if (error || !data?.ok) {
+    console.error('[orders] confirm failed:', error?.message ?? data?.error);
+    return false;
+  }
+
+  await afterOrderPaid(orderId);
+  return true;
+}
+
+export async function afterOrderPaid(orderId: string): Promise<void> {
+  const supabase = createServiceClient();
+  if (!supabase) return;
+
+  // Claim the receipt first so concurrent confirmations don't double-send
+  const { data: claimed } = await supabase
+    .from('ticket_orders')
+    .update({ receipt_sent_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('status', 'paid')
+    .is('receipt_sent_at', null)
+    .select(
+      `*, ticket_order_items(*),
+      events!inner(id, title, slug, starts_at, ends_at, location_name, google_maps_url),
+      profiles!inner(locale, display_name)`
+    );
+
+  const order = claimed?.[0] as
+    | (TicketOrder & {
+        ticket_order_items: TicketOrderItem[];
+        events: {
+          id: string;
+          title: string;
+          slug: string;
+          starts_at: string;
+          ends_at: string | null;
+          location_name: string | null;
+          google_maps_url: string | null;
+        };
+        profiles: { locale: string | null; display_name: string | null };
+      })
+    | undefined;
+
+  if (!order) return;
+
+  const locale = (order.profiles.locale as Locale) || 'en';
+  const event = order.events;
+
+  const tickets = order.rsvp_id
+    ? await issueRsvpTickets(event.id, {
+        id: order.rsvp_id,
+        label: order.profiles.display_name || event.title,
+      })
+    : [];
+
+  const result = await notifyOrderReceipt(order.user_id, locale, event.title, event.slug, {
+    referenceCode: order.reference_code,
+    items: order.ticket_order_items.map((item) => ({
+      name: item.tier_name,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+    })),
+    totalAmount: order.total_amount,
+    currency: order.currency,
+    tickets: tickets.map(({ label, code }) => ({ label, code })),
+  });
+
+  if (!result.success) {
+    console.error(`[orders] Receipt failed for order ${order.reference_code}`);
+    // Release the claim so the next call sends it; the follow-ups below are idempotent
+    await supabase.from('ticket_orders').update({ receipt_sent_at: null }).eq('id', orderId);
+  }
+
+  try {
+    await scheduleRsvpReminders({
+      userId: order.user_id,
+      locale,
+      eventId: event.id,
+      eventTitle: event.title,
+      eventSlug: event.slug,
+      startsAt: event.starts_at,
+      endsAt: event.ends_at,
+      locationName: event.location_name,
+      googleMapsUrl: event.google_maps_url,
+    });
+  } catch (error) {
+    console.error('[orders] Failed to schedule reminders:', error);
+  }
+
+  void awardPoints(order.user_id, 'event_rsvp', {
+    referenceId: event.id,
+    referenceType: 'event',
+  });
+}
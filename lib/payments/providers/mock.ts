@@ -0,0 +1,22 @@
+import type { PaymentProvider } from '../types';
+
+/**
+ * Development stand-in: every payment succeeds immediately. Disabled in
+ * production unless PAYMENTS_MOCK_ENABLED=true (useful on preview deploys).
+ */
+export const mockProvider: PaymentProvider = {
+  id: 'mock',
+  currencies: ['VND', 'USD'],
+  holdMinutes: 15,
+
+  isAvailable() {
+    return (
+      process.env.NODE_ENV !== 'production' ||
+      process.env.PAYMENTS_MOCK_ENABLED === 'true'
+    );
+  },
+
+  async startPayment(order) {
+    return { status: 'paid', providerRef: `mock_${order.referenceCode}` };
+  },
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { vietqrProvider } from './vietqr';
+
+const ORDER = {
+  id: 'order-1',
+  referenceCode: 'DL4K7Q2M',
+  amount: 300000,
+  currency: 'VND',
+  eventTitle: 'Jazz night',
+  eventSlug: 'jazz-night',
+};
+
+describe('vietqrProvider', () => {
+  beforeEach(() => {
+    vi.stubEnv('VIETQR_BANK_BIN', '970436');
+    vi.stubEnv('VIETQR_BANK_NAME', 'Vietcombank');
+    vi.stubEnv('VIETQR_ACCOUNT_NO', '0123456789');
+    vi.stubEnv('VIETQR_ACCOUNT_NAME', 'NGUYEN VAN A');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('asks the buyer to transfer with the order reference as memo', async () => {
+    const start = await vietqrProvider.startPayment(ORDER);
+
+    expect(start.status).toBe('pending_verification');
+    if (start.status !== 'pending_verification') return;
+    expect(start.instructions).toMatchObject({
+      bankName: 'Vietcombank',
+      accountNumber: '0123456789',
+      amount: 300000,
+      memo: 'DL4K7Q2M',
+    });
+    expect(start.instructions.qrImageUrl).toBe(
+      'https://img.vietqr.io/image/970436-0123456789-compact2.png?amount=300000&addInfo=DL4K7Q2M&accountName=NGUYEN+VAN+A'
+    );
+  });
+
+  it('is unavailable until the receiving account is configured', () => {
+    vi.stubEnv('VIETQR_ACCOUNT_NO', '');
+
+    expect(vietqrProvider.isAvailable()).toBe(false);
+    expect(vietqrProvider.describePending?.(ORDER)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import type { BankTransferInstructions, PaymentOrder, PaymentProvider } from '../types';
+
+/**
+ * VietQR bank transfer. The buyer scans a QR that pre-fills amount and memo in
+ * any Vietnamese banking app; there's no callback, so orders stay
+ * 'pending' until a host matches the transfer and verifies it.
+ *
+ * Configured with the receiving account:
+ *   VIETQR_BANK_BIN       NAPAS bank BIN, e.g. 970436 (Vietcombank)
+ *   VIETQR_BANK_NAME      shown to the buyer
+ *   VIETQR_ACCOUNT_NO
+ *   VIETQR_ACCOUNT_NAME
+ */
+
+// Bank transfers clear slowly and hosts verify by hand — hold tickets for a day
+const HOLD_MINUTES = 24 * 60;
+
+function getAccount() {
+  const bankBin = process.env.VIETQR_BANK_BIN;
+  const accountNumber = process.env.VIETQR_ACCOUNT_NO;
+  const accountName = process.env.VIETQR_ACCOUNT_NAME;
+  if (!bankBin || !accountNumber || !accountName) return null;
+  return {
+    bankBin,
+    accountNumber,
+    accountName,
+    bankName: process.env.VIETQR_BANK_NAME || bankBin,
+  };
+}
+
+function instructionsFor(order: PaymentOrder): BankTransferInstructions | null {
+  const account = getAccount();
+  if (!account) return null;
+
+  const params = new URLSearchParams({
+    amount: String(order.amount),
+    addInfo: order.referenceCode,
+    accountName: account.accountName,
+  });
+
+  return {
+    bankName: account.bankName,
+    accountNumber: account.accountNumber,
+    accountName: account.accountName,
+    amount: order.amount,
+    currency: order.currency,
+    memo: order.referenceCode,
+    qrImageUrl: `https://img.vietqr.io/image/${account.bankBin}-${account.accountNumber}-compact2.png?${params}`,
+  };
+}
+
+export const vietqrProvider: PaymentProvider = {
+  id: 'vietqr',
+  // Interbank transfers are VND-only
+  currencies: ['VND'],
+  holdMinutes: HOLD_MINUTES,
+
+  isAvailable() {
+    return getAccount() !== null;
+  },
+
+  async startPayment(order) {
+    const instructions = instructionsFor(order);
+    if (!instructions) throw new Error('VietQR account not configured');
+    return { status: 'pending_verification', instructions };
+  },
+
+  describePending: instructionsFor,
+};
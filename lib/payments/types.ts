@@ -0,0 +1,56 @@
+/**
+ * Payment provider contract.
+ *
+ * The orders ledger (ticket_orders) doesn't know how money moves. When a
+ * buyer checks out, the order is created first (holding inventory), then the
+ * chosen provider starts a payment for it and says what happens next:
+ *
+ *   paid                  settled on the spot (mock provider in development)
+ *   redirect              send the buyer to a hosted checkout page
+ *   pending_verification  buyer pays outside the app (bank transfer) and a
+ *                         host confirms it by hand from the orders page
+ *
+ * Providers that settle asynchronously call confirmTicketOrder() from
+ * lib/payments/orders.ts when their callback arrives.
+ */
+
+export type PaymentProviderId = 'mock' | 'vietqr';
+
+export interface PaymentOrder {
+  id: string;
+  referenceCode: string;
+  amount: number;
+  currency: string;
+  eventTitle: string;
+  eventSlug: string;
+}
+
+export interface BankTransferInstructions {
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  amount: number;
+  currency: string;
+  /** Must appear in the transfer memo so the host can match the payment */
+  memo: string;
+  /** Scannable VietQR image that pre-fills the transfer in banking apps */
+  qrImageUrl: string;
+}
+
+export type PaymentStart =
+  | { status: 'paid'; providerRef: string }
+  | { status: 'redirect'; url: string; providerRef?: string }
+  | { status: 'pending_verification'; instructions: BankTransferInstructions };
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  /** Whether this provider can take payments in the current environment */
+  isAvailable(): boolean;
+  /** Supported ISO currency codes */
+  currencies: string[];
+  /** How long a pending order holds its tickets with this provider */
+  holdMinutes: number;
+  startPayment(order: PaymentOrder): Promise<PaymentStart>;
+  /** Re-show payment details for an order that's still pending */
+  describePending?(order: PaymentOrder): BankTransferInstructions | null;
+}
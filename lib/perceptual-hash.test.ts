@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  boxDownsample,
+  clusterNearDuplicates,
+  dHashFromGrayscale,
+  hammingDistance,
+  hashSimilarity,
+  isPerceptualHash,
+  pickClusterKeeper,
+} from "./perceptual-hash";
+
+/** Synthetic "photo": smooth diagonal shading with a bright blob */
+function scene(width: number, height: number, noise = 0): number[] {
+  const gray: number[] = [];
+  let seed = 7;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x / width;
+      const v = y / height;
+      const blob = Math.exp(-((u - 0.3) ** 2 + (v - 0.6) ** 2) * 20) * 120;
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      const jitter = ((seed / 2147483648) - 0.5) * noise;
+      gray.push(60 + 80 * u + 40 * Math.sin(v * 6) + blob + jitter);
+    }
+  }
+  return gray;
+}
+
+function hashOf(width: number, height: number, noise = 0): string {
+  return dHashFromGrayscale(boxDownsample(scene(width, height, noise), width, height, 9, 8));
+}
+
+describe("dHashFromGrayscale", () => {
+  it("produces a 16-char hex hash", () => {
+    const hash = hashOf(36, 32);
+    expect(isPerceptualHash(hash)).toBe(true);
+  });
+
+  it("sets every bit for a left-to-right darkening gradient", () => {
+    const gray = Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 10);
+    expect(dHashFromGrayscale(gray)).toBe("ffffffffffffffff");
+  });
+
+  it("rejects grids of the wrong size", () => {
+    expect(() => dHashFromGrayscale([1, 2, 3])).toThrow();
+  });
+});
+
+describe("near-duplicate robustness", () => {
+  it("keeps resized and recompressed copies within a few bits", () => {
+    const original = hashOf(36, 32);
+    const resized = hashOf(72, 64);
+    const recompressed = hashOf(36, 32, 6);
+
+    expect(hammingDistance(original, resized)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(original, recompressed)).toBeLessThanOrEqual(6);
+  });
+
+  it("separates unrelated images", () => {
+    const photo = hashOf(36, 32);
+    const other = dHashFromGrayscale(
+      Array.from({ length: 72 }, (_, i) => ((i * 37) % 11) * 20)
+    );
+    expect(hashSimilarity(photo, other)).toBeLessThan(0.8);
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+    expect(hashSimilarity("ffffffffffffffff", "0000000000000000")).toBe(0);
+  });
+});
+
+describe("clusterNearDuplicates", () => {
+  it("groups transitively and drops singletons", () => {
+    const items = [
+      { id: "a", perceptualHash: "0000000000000000" },
+      { id: "b", perceptualHash: "00000000000000ff" }, // 8 from a
+      { id: "c", perceptualHash: "000000000000ffff" }, // 8 from b, 16 from a
+      { id: "d", perceptualHash: "ffffffffffffffff" },
+    ];
+
+    const clusters = clusterNearDuplicates(items, 10);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].map((i) => i.id).sort()).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("pickClusterKeeper", () => {
+  it("prefers the highest quality score, then the earliest upload", () => {
+    const cluster = [
+      { id: "a", qualityScore: null, createdAt: "2026-11-01T10:00:00Z" },
+      { id: "b", qualityScore: 0.7, createdAt: "2026-11-01T12:00:00Z" },
+      { id: "c", qualityScore: 0.7, createdAt: "2026-11-01T11:00:00Z" },
+    ];
+    expect(pickClusterKeeper(cluster).id).toBe("c");
+    expect(pickClusterKeeper([cluster[0]]).id).toBe("a");
+  });
+});
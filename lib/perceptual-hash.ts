@@ -0,0 +1,291 @@
+/**
+ * Perceptual hashing for near-duplicate photo detection
+ *
+ * SHA-256 (lib/file-hash.ts) only matches byte-identical files. A photo that
+ * was re-exported from Zalo or resized by WhatsApp has different bytes but the
+ * same picture. dHash compares the brightness of neighbouring cells in a 9x8
+ * grayscale thumbnail, giving a 64-bit fingerprint that survives resizing and
+ * recompression. Near-duplicates differ in only a few bits.
+ */
+
+/** Grid the hash is computed on: 9 columns give 8 left/right comparisons per row */
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+/** Intermediate size the browser scales to before we box-average down to 9x8 */
+const SAMPLE_SCALE = 4;
+
+/**
+ * Hamming distance at or below which two photos count as near-duplicates.
+ * 10 of 64 bits ≈ 84% similar: catches re-encodes and resizes, not crops.
+ * find_near_duplicate_moments caps the distance at the same value.
+ */
+export const NEAR_DUPLICATE_MAX_DISTANCE = 10;
+
+const HASH_PATTERN = /^[0-9a-f]{16}$/;
+
+export function isPerceptualHash(value: unknown): value is string {
+  return typeof value === "string" && HASH_PATTERN.test(value);
+}
+
+/**
+ * Convert RGBA pixel data (as returned by getImageData) to luminance values
+ */
+export function toGrayscale(rgba: ArrayLike<number>): number[] {
+  const gray: number[] = [];
+  for (let i = 0; i < rgba.length; i += 4) {
+    gray.push(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]);
+  }
+  return gray;
+}
+
+/**
+ * Shrink a grayscale image by averaging whole blocks of pixels.
+ * Source dimensions must be exact multiples of the target dimensions.
+ */
+export function boxDownsample(
+  gray: ArrayLike<number>,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number
+): number[] {
+  const bw = width / targetWidth;
+  const bh = height / targetHeight;
+  const out: number[] = [];
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    for (let tx = 0; tx < targetWidth; tx++) {
+      let sum = 0;
+      for (let y = ty * bh; y < (ty + 1) * bh; y++) {
+        for (let x = tx * bw; x < (tx + 1) * bw; x++) {
+          sum += gray[y * width + x];
+        }
+      }
+      out.push(sum / (bw * bh));
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Compute a dHash from a 9x8 grayscale grid.
+ * Returns 16 hex chars; bit is set when a cell is brighter than its right neighbour.
+ */
+export function dHashFromGrayscale(gray: ArrayLike<number>): string {
+  if (gray.length !== HASH_WIDTH * HASH_HEIGHT) {
+    throw new Error(`dHash needs a ${HASH_WIDTH}x${HASH_HEIGHT} grid`);
+  }
+
+  let hex = "";
+  let nibble = 0;
+  let bitsInNibble = 0;
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = gray[y * HASH_WIDTH + x];
+      const right = gray[y * HASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (++bitsInNibble === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bitsInNibble = 0;
+      }
+    }
+  }
+
+  return hex;
+}
+
+/**
+ * Number of differing bits between two hashes (0 = identical, 64 = opposite)
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Similarity score between 0 and 1 derived from the Hamming distance
+ */
+export function hashSimilarity(a: string, b: string): number {
+  return distanceToSimilarity(hammingDistance(a, b));
+}
+
+export function distanceToSimilarity(distance: number): number {
+  return Math.round((1 - distance / HASH_BITS) * 1000) / 1000;
+}
+
+export interface HashedItem {
+  id: string;
+  perceptualHash: string;
+}
+
+/**
+ * Group items whose hashes are within maxDistance of each other.
+ * Grouping is transitive (A~B and B~C puts all three together).
+ * Returns only groups with more than one item, largest first.
+ */
+export function clusterNearDuplicates<T extends HashedItem>(
+  items: T[],
+  maxDistance = NEAR_DUPLICATE_MAX_DISTANCE
+): T[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (hammingDistance(items[i].perceptualHash, items[j].perceptualHash) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Choose which photo of a near-duplicate cluster to keep: highest AI
+ * quality_score, then the earliest upload. Unscored photos rank last.
+ */
+export function pickClusterKeeper<
+  T extends { id: string; qualityScore: number | null; createdAt: string }
+>(cluster: T[]): T {
+  return [...cluster].sort((a, b) => {
+    const qa = a.qualityScore ?? -1;
+    const qb = b.qualityScore ?? -1;
+    if (qa !== qb) return qb - qa;
+    return a.createdAt.localeCompare(b.createdAt);
+  })[0];
+}
+
+export interface NearDuplicatePhoto {
+  id: string;
+  mediaUrl: string;
+  thumbnailUrl: string | null;
+  qualityScore: number | null;
+  createdAt: string;
+  /** Similarity to the cluster's suggested keeper (1 for the keeper itself) */
+  similarity: number;
+}
+
+/** Album clean-up group as returned by /api/events/[slug]/moments/near-duplicates */
+export interface NearDuplicateCluster {
+  keepId: string;
+  photos: NearDuplicatePhoto[];
+}
+
+// ============================================
+// Browser helpers
+// ============================================
+
+function hashDrawable(source: CanvasImageSource): string | null {
+  const width = HASH_WIDTH * SAMPLE_SCALE;
+  const height = HASH_HEIGHT * SAMPLE_SCALE;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const gray = toGrayscale(ctx.getImageData(0, 0, width, height).data);
+  return dHashFromGrayscale(boxDownsample(gray, width, height, HASH_WIDTH, HASH_HEIGHT));
+}
+
+/**
+ * Compute the perceptual hash of a photo File.
+ * Returns null for videos and formats the browser can't decode (HEIC).
+ */
+export async function computePerceptualHash(file: File): Promise<string | null> {
+  if (!file.type.startsWith("image/")) return null;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    try {
+      return hashDrawable(bitmap);
+    } finally {
+      bitmap.close();
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the perceptual hash of an already-uploaded photo by URL.
+ * The image must be served with CORS headers or the canvas is tainted.
+ */
+export async function computePerceptualHashFromUrl(url: string): Promise<string | null> {
+  try {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject();
+      img.src = url;
+    });
+    return hashDrawable(img);
+  } catch {
+    return null;
+  }
+}
+
+export interface NearDuplicateMatch {
+  momentId: string;
+  similarity: number;
+  thumbnailUrl: string | null;
+}
+
+/**
+ * Find photos already in an event/album that look like the given hashes.
+ * Returns a Map of hash -> closest existing moment.
+ */
+export async function checkNearDuplicates(
+  eventId: string,
+  hashes: string[]
+): Promise<Map<string, NearDuplicateMatch>> {
+  if (hashes.length === 0) return new Map();
+
+  const response = await fetch("/api/moments/check-near-duplicates", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ eventId, hashes }),
+  });
+
+  if (!response.ok) {
+    console.warn("[NearDuplicateCheck] API call failed, skipping check");
+    return new Map();
+  }
+
+  const { matches } = (await response.json()) as {
+    matches: (NearDuplicateMatch & { hash: string })[];
+  };
+  return new Map(matches.map(({ hash, ...match }) => [hash, match]));
+}
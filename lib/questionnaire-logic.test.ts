@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  dropForwardConditions,
+  getVisibleQuestions,
+  isQuestionnaireResponses,
+  isQuestionRequired,
+  pruneHiddenResponses,
+  remainingSpots,
+  summarizeNumbers,
+  validateAnswer,
+  validateResponses,
+} from "./questionnaire-logic";
+import type { ResolvedQuestion } from "@/lib/types";
+
+function question(overrides: Partial<ResolvedQuestion> & Pick<ResolvedQuestion, "id">): ResolvedQuestion {
+  return {
+    template_id: null,
+    sort_order: 0,
+    question_type: "text",
+    question_text: { en: overrides.id },
+    description_text: null,
+    options: null,
+    is_required: false,
+    show_if: null,
+    required_if: null,
+    option_capacities: null,
+    option_counts: null,
+    ...overrides,
+  };
+}
+
+const yesNo = [
+  { value: "yes", label: { en: "Yes" } },
+  { value: "no", label: { en: "No" } },
+];
+
+const allergies = question({ id: "allergies", question_type: "single_choice", options: yesNo });
+const details = question({
+  id: "details",
+  is_required: true,
+  show_if: { question_id: "allergies", operator: "equals", value: "yes" },
+});
+const severity = question({
+  id: "severity",
+  question_type: "number",
+  show_if: { question_id: "details", operator: "answered" },
+});
+
+describe("isQuestionnaireResponses", () => {
+  it("accepts text and list answers only", () => {
+    expect(isQuestionnaireResponses({ allergies: "yes", diet: ["vegan"] })).toBe(true);
+    expect(isQuestionnaireResponses({ allergies: 1 })).toBe(false);
+    expect(isQuestionnaireResponses({ diet: ["vegan", 2] })).toBe(false);
+    expect(isQuestionnaireResponses(["yes"])).toBe(false);
+    expect(isQuestionnaireResponses(null)).toBe(false);
+  });
+});
+
+describe("getVisibleQuestions", () => {
+  it("shows follow-ups only when the rule matches, including chains", () => {
+    const questions = [allergies, details, severity];
+    expect(getVisibleQuestions(questions, {}).map((q) => q.id)).toEqual(["allergies"]);
+    expect(getVisibleQuestions(questions, { allergies: "yes" }).map((q) => q.id)).toEqual([
+      "allergies",
+      "details",
+    ]);
+    expect(
+      getVisibleQuestions(questions, { allergies: "yes", details: "Peanuts" }).map((q) => q.id)
+    ).toEqual(["allergies", "details", "severity"]);
+    // Switching back hides the whole chain even though details still has an answer
+    expect(
+      getVisibleQuestions(questions, { allergies: "no", details: "Peanuts" }).map((q) => q.id)
+    ).toEqual(["allergies"]);
+  });
+
+  it("treats multi-choice 'equals' as membership and ignores rules on removed questions", () => {
+    const extras = question({ id: "extras", question_type: "multi_choice" });
+    const shuttle = question({ id: "pickup", show_if: { question_id: "extras", operator: "equals", value: "shuttle" } });
+    const orphan = question({ id: "orphan", show_if: { question_id: "gone", operator: "answered" } });
+    const visible = getVisibleQuestions([extras, shuttle, orphan], { extras: ["yoga", "shuttle"] });
+    expect(visible.map((q) => q.id)).toEqual(["extras", "pickup", "orphan"]);
+  });
+});
+
+describe("isQuestionRequired", () => {
+  it("applies required-if rules", () => {
+    const phone = question({
+      id: "phone",
+      question_type: "phone",
+      required_if: { question_id: "allergies", operator: "not_equals", value: "no" },
+    });
+    const questions = [allergies, phone];
+    expect(isQuestionRequired(phone, questions, {})).toBe(false);
+    expect(isQuestionRequired(phone, questions, { allergies: "no" })).toBe(false);
+    expect(isQuestionRequired(phone, questions, { allergies: "yes" })).toBe(true);
+  });
+});
+
+describe("pruneHiddenResponses", () => {
+  it("drops answers to hidden and empty questions", () => {
+    expect(
+      pruneHiddenResponses([allergies, details, severity], { allergies: "no", details: "Peanuts", severity: "" })
+    ).toEqual({ allergies: "no" });
+  });
+});
+
+describe("validateAnswer", () => {
+  it("checks number, date, phone and file formats", () => {
+    expect(validateAnswer(question({ id: "n", question_type: "number" }), "12.5")).toBeNull();
+    expect(validateAnswer(question({ id: "n", question_type: "number" }), "twelve")).toBe("invalid_number");
+    expect(validateAnswer(question({ id: "d", question_type: "date" }), "2026-02-28")).toBeNull();
+    expect(validateAnswer(question({ id: "d", question_type: "date" }), "2026-02-30")).toBe("invalid_date");
+    expect(validateAnswer(question({ id: "p", question_type: "phone" }), "+84 (90) 123-4567")).toBeNull();
+    expect(validateAnswer(question({ id: "p", question_type: "phone" }), "12345")).toBe("invalid_phone");
+    expect(
+      validateAnswer(question({ id: "f", question_type: "file" }), "0b6f3c9e-2a41-4d7e-9c1a-5e8f7d6c4b3a/visa-lk2x9.pdf")
+    ).toBeNull();
+    expect(validateAnswer(question({ id: "f", question_type: "file" }), "https://cdn.example.com/a.pdf")).toBe("invalid_file");
+    expect(validateAnswer(question({ id: "f", question_type: "file" }), "../other/a.pdf")).toBe("invalid_file");
+  });
+
+  it("rejects unknown and full options", () => {
+    const transport = question({
+      id: "transport",
+      question_type: "multi_choice",
+      options: [
+        { value: "shuttle", label: { en: "Shuttle" } },
+        { value: "own", label: { en: "Own way" } },
+      ],
+      option_capacities: { shuttle: 20 },
+      option_counts: { shuttle: 20, own: 43 },
+    });
+    expect(remainingSpots(transport, "shuttle")).toBe(0);
+    expect(remainingSpots(transport, "own")).toBeNull();
+    expect(validateAnswer(transport, ["own"])).toBeNull();
+    expect(validateAnswer(transport, ["own", "shuttle"])).toBe("option_full");
+    expect(validateAnswer(transport, ["boat"])).toBe("invalid_option");
+  });
+});
+
+describe("validateResponses", () => {
+  it("only validates visible questions", () => {
+    const questions = [allergies, details, severity];
+    expect(validateResponses(questions, { allergies: "no" })).toEqual({});
+    expect(validateResponses(questions, { allergies: "yes" })).toEqual({ details: "required" });
+    expect(validateResponses(questions, { allergies: "yes", details: "Nuts", severity: "high" })).toEqual({
+      severity: "invalid_number",
+    });
+  });
+});
+
+describe("dropForwardConditions", () => {
+  it("clears rules pointing at later or removed questions", () => {
+    const [first, second] = dropForwardConditions([details, allergies]);
+    expect(first.show_if).toBeNull();
+    expect(second.show_if).toBeNull();
+    expect(dropForwardConditions([allergies, details])[1].show_if).toEqual(details.show_if);
+  });
+});
+
+describe("summarizeNumbers", () => {
+  it("averages numeric answers and skips the rest", () => {
+    expect(summarizeNumbers(["2", "4", "x", "9"])).toEqual({ count: 3, average: 5, min: 2, max: 9 });
+    expect(summarizeNumbers([])).toBeNull();
+  });
+});
@@ -0,0 +1,248 @@
+import type { QuestionCondition, QuestionType, ResolvedQuestion } from "@/lib/types";
+
+/**
+ * Branching, required-if rules, answer formats and option capacities for
+ * questionnaires. Pure so the flow (while answering) and the server (before
+ * the RSVP is written) apply exactly the same rules.
+ */
+
+export type QuestionnaireResponses = Record<string, string | string[]>;
+
+/** Shape check for answers posted to the API: question ID -> text or list */
+export function isQuestionnaireResponses(value: unknown): value is QuestionnaireResponses {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  return Object.values(value).every(
+    (answer) =>
+      typeof answer === "string" ||
+      (Array.isArray(answer) && answer.every((item) => typeof item === "string"))
+  );
+}
+
+export type AnswerError =
+  | "required"
+  | "invalid_number"
+  | "invalid_date"
+  | "invalid_phone"
+  | "invalid_file"
+  | "invalid_option"
+  | "option_full";
+
+// Question ID -> first problem with its answer
+export type QuestionnaireErrors = Record<string, AnswerError>;
+
+type LogicQuestion = Pick<ResolvedQuestion, "id" | "show_if" | "required_if">;
+
+// Only choice answers can be compared against an option value
+export const CONDITION_VALUE_TYPES: QuestionType[] = ["single_choice", "multi_choice"];
+
+// Types whose options can be capped ("max 20 people choose the shuttle")
+export const CAPACITY_TYPES: QuestionType[] = ["single_choice", "multi_choice"];
+
+export function hasAnswer(value: string | string[] | undefined | null): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Test a condition against the raw answers. 'equals' means "picked this
+ * option" for multi-choice; 'not_equals' only holds once there is an answer,
+ * so an unanswered question never triggers a rule.
+ */
+export function matchesCondition(
+  condition: QuestionCondition,
+  responses: QuestionnaireResponses
+): boolean {
+  const answer = responses[condition.question_id];
+  if (!hasAnswer(answer)) return false;
+  if (condition.operator === "answered") return true;
+
+  const picked = Array.isArray(answer) ? answer.includes(condition.value ?? "") : answer === condition.value;
+  return condition.operator === "equals" ? picked : !picked;
+}
+
+function conditionHolds(
+  condition: QuestionCondition,
+  questions: LogicQuestion[],
+  responses: QuestionnaireResponses,
+  seen: Set<string>
+): boolean | null {
+  const source = questions.find((q) => q.id === condition.question_id);
+  // The question the rule points at was removed: the rule no longer applies
+  if (!source) return null;
+  // Answers to hidden questions don't count
+  if (!visible(source, questions, responses, seen)) return false;
+  return matchesCondition(condition, responses);
+}
+
+function visible(
+  question: LogicQuestion,
+  questions: LogicQuestion[],
+  responses: QuestionnaireResponses,
+  seen: Set<string>
+): boolean {
+  if (!question.show_if) return true;
+  // A cycle can only come from hand-edited data; hide rather than loop
+  if (seen.has(question.id)) return false;
+  seen.add(question.id);
+  const holds = conditionHolds(question.show_if, questions, responses, seen);
+  seen.delete(question.id);
+  return holds ?? true;
+}
+
+export function isQuestionVisible(
+  question: LogicQuestion,
+  questions: LogicQuestion[],
+  responses: QuestionnaireResponses
+): boolean {
+  return visible(question, questions, responses, new Set());
+}
+
+export function getVisibleQuestions<T extends LogicQuestion>(
+  questions: T[],
+  responses: QuestionnaireResponses
+): T[] {
+  return questions.filter((q) => isQuestionVisible(q, questions, responses));
+}
+
+export function isQuestionRequired(
+  question: LogicQuestion & Pick<ResolvedQuestion, "is_required">,
+  questions: LogicQuestion[],
+  responses: QuestionnaireResponses
+): boolean {
+  if (question.is_required) return true;
+  if (!question.required_if) return false;
+  return conditionHolds(question.required_if, questions, responses, new Set()) === true;
+}
+
+/**
+ * Drop answers to questions that ended up hidden (e.g. dietary details after
+ * switching "has allergies" back to no) along with empty answers.
+ */
+export function pruneHiddenResponses(
+  questions: LogicQuestion[],
+  responses: QuestionnaireResponses
+): QuestionnaireResponses {
+  const pruned: QuestionnaireResponses = {};
+  for (const question of getVisibleQuestions(questions, responses)) {
+    const answer = responses[question.id];
+    if (hasAnswer(answer)) pruned[question.id] = answer;
+  }
+  return pruned;
+}
+
+/** Spots left on an option, or null when the option has no limit. */
+export function remainingSpots(
+  question: Pick<ResolvedQuestion, "option_capacities" | "option_counts">,
+  value: string
+): number | null {
+  const capacity = question.option_capacities?.[value];
+  if (capacity === undefined || capacity === null) return null;
+  return Math.max(0, capacity - (question.option_counts?.[value] ?? 0));
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function isValidDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// Loose international format: optional +, digits with spaces, dots, dashes or brackets
+function isValidPhone(value: string): boolean {
+  if (!/^\+?[\d\s().-]+$/.test(value)) return false;
+  const digits = value.replace(/\D/g, "").length;
+  return digits >= 7 && digits <= 15;
+}
+
+// Object path in the private questionnaire-uploads bucket: "<user id>/<file>"
+const FILE_PATH_PATTERN = /^[0-9a-f-]{36}\/[a-z0-9-]+\.[a-z0-9]+$/;
+
+function isValidFilePath(value: string): boolean {
+  return FILE_PATH_PATTERN.test(value);
+}
+
+/** Check the format of a non-empty answer; null when it's fine. */
+export function validateAnswer(
+  question: Pick<ResolvedQuestion, "question_type" | "options" | "option_capacities" | "option_counts">,
+  answer: string | string[]
+): AnswerError | null {
+  const values = Array.isArray(answer) ? answer : [answer];
+  const text = values[0]?.trim() ?? "";
+
+  switch (question.question_type) {
+    case "number":
+      return /^-?\d+(\.\d+)?$/.test(text) ? null : "invalid_number";
+    case "date":
+      return isValidDate(text) ? null : "invalid_date";
+    case "phone":
+      return isValidPhone(text) ? null : "invalid_phone";
+    case "file":
+      return isValidFilePath(text) ? null : "invalid_file";
+    case "single_choice":
+    case "multi_choice": {
+      const known = new Set((question.options ?? []).map((o) => o.value));
+      if (values.some((value) => !known.has(value))) return "invalid_option";
+      return values.some((value) => remainingSpots(question, value) === 0) ? "option_full" : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a full submission: visible questions only, required and
+ * required-if rules, answer formats and option capacities.
+ */
+export function validateResponses(
+  questions: ResolvedQuestion[],
+  responses: QuestionnaireResponses
+): QuestionnaireErrors {
+  const errors: QuestionnaireErrors = {};
+  for (const question of getVisibleQuestions(questions, responses)) {
+    const answer = responses[question.id];
+    if (!hasAnswer(answer)) {
+      if (isQuestionRequired(question, questions, responses)) errors[question.id] = "required";
+      continue;
+    }
+    const error = validateAnswer(question, answer);
+    if (error) errors[question.id] = error;
+  }
+  return errors;
+}
+
+/**
+ * Clear rules that point at a question that no longer comes earlier in the
+ * list (after a reorder or removal); the flow can only branch on answers it
+ * already has.
+ */
+export function dropForwardConditions<T extends LogicQuestion>(questions: T[]): T[] {
+  const earlier = new Set<string>();
+  return questions.map((question) => {
+    const keep = (condition: QuestionCondition | null) =>
+      condition && earlier.has(condition.question_id) ? condition : null;
+    const next = { ...question, show_if: keep(question.show_if), required_if: keep(question.required_if) };
+    earlier.add(question.id);
+    return next;
+  });
+}
+
+export interface NumberSummary {
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
+export function summarizeNumbers(values: string[]): NumberSummary | null {
+  const numbers = values.map(Number).filter((n) => Number.isFinite(n));
+  if (numbers.length === 0) return null;
+  return {
+    count: numbers.length,
+    average: numbers.reduce((sum, n) => sum + n, 0) / numbers.length,
+    min: Math.min(...numbers),
+    max: Math.max(...numbers),
+  };
+}
@@ -1,16 +1,23 @@
 import { createClient as createServerClient } from "@/lib/supabase/server";
-import type { QuestionnaireData, ResolvedQuestion } from "@/lib/types";
+import {
+  validateResponses,
+  type QuestionnaireErrors,
+  type QuestionnaireResponses,
+} from "@/lib/questionnaire-logic";
+import type { QuestionnaireData, QuestionnaireKind, ResolvedQuestion } from "@/lib/types";
 
 /**
  * Fetch questionnaire data for an event (server-side)
  */
 export async function getEventQuestionnaireServer(
-  eventId: string
+  eventId: string,
+  kind: QuestionnaireKind = "rsvp"
 ): Promise<QuestionnaireData | null> {
   const supabase = await createServerClient();
 
   const { data, error } = await supabase.rpc("get_event_questionnaire", {
     p_event_id: eventId,
+    p_kind: kind,
   });
 
   if (error || !data || data.length === 0) {
@@ -30,6 +37,10 @@ export async function getEventQuestionnaireServer(
         description_text: q.description_text,
         options: q.options,
         is_required: q.is_required,
+        show_if: q.show_if ?? null,
+        required_if: q.required_if ?? null,
+        option_capacities: q.option_capacities ?? null,
+        option_counts: q.option_counts ?? null,
       }))
     : [];
 
@@ -40,3 +51,21 @@ export async function getEventQuestionnaireServer(
     questions,
   };
 }
+
+/**
+ * Validate RSVP answers against the current questionnaire (server-side):
+ * branching, required / required-if, field formats and live option counts.
+ * Returns the problems keyed by question ID; empty when the answers are fine.
+ */
+export async function validateQuestionnaireResponsesServer(
+  eventId: string,
+  responses: QuestionnaireResponses
+): Promise<QuestionnaireErrors> {
+  const questionnaire = await getEventQuestionnaireServer(eventId);
+
+  if (!questionnaire?.is_enabled) {
+    return {};
+  }
+
+  return validateResponses(questionnaire.questions, responses);
+}
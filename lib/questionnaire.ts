@@ -1,16 +1,19 @@
 import { createClient } from "@/lib/supabase/client";
-import type { QuestionnaireData, ResolvedQuestion } from "@/lib/types";
+import type { QuestionnaireErrors, QuestionnaireResponses } from "@/lib/questionnaire-logic";
+import type { QuestionnaireData, QuestionnaireKind, ResolvedQuestion } from "@/lib/types";
 
 /**
  * Fetch questionnaire data for an event (client-side)
  */
 export async function getEventQuestionnaire(
-  eventId: string
+  eventId: string,
+  kind: QuestionnaireKind = "rsvp"
 ): Promise<QuestionnaireData | null> {
   const supabase = createClient();
 
   const { data, error } = await supabase.rpc("get_event_questionnaire", {
     p_event_id: eventId,
+    p_kind: kind,
   });
 
   if (error || !data || data.length === 0) {
@@ -30,6 +33,10 @@ export async function getEventQuestionnaire(
         description_text: q.description_text,
         options: q.options,
         is_required: q.is_required,
+        show_if: q.show_if ?? null,
+        required_if: q.required_if ?? null,
+        option_capacities: q.option_capacities ?? null,
+        option_counts: q.option_counts ?? null,
       }))
     : [];
 
@@ -42,43 +49,56 @@ export async function getEventQuestionnaire(
 }
 
 /**
- * Submit questionnaire responses along with RSVP
+ * Check RSVP answers on the server before RSVP'ing, so a full option or a
+ * skipped required-if question is caught while the flow is still open.
+ * Network failures don't block the RSVP; saving the answers checks them again.
  */
-export async function submitQuestionnaireResponses(
-  rsvpId: string,
-  responses: Record<string, string | string[]>
-): Promise<{ success: boolean; error?: string }> {
-  const supabase = createClient();
-
-  // Convert responses to array of row inserts
-  const responseRows = Object.entries(responses)
-    .filter(([, value]) => {
-      // Skip empty responses
-      if (Array.isArray(value)) return value.length > 0;
-      return value !== null && value !== undefined && value !== "";
-    })
-    .map(([questionId, responseValue]) => ({
-      rsvp_id: rsvpId,
-      question_id: questionId,
-      response_value: responseValue,
-    }));
-
-  if (responseRows.length === 0) {
-    return { success: true };
+export async function validateQuestionnaireResponses(
+  eventId: string,
+  responses: QuestionnaireResponses
+): Promise<QuestionnaireErrors> {
+  try {
+    const response = await fetch("/api/questionnaires/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ eventId, responses }),
+    });
+    if (!response.ok) return {};
+    const data = (await response.json()) as { errors?: QuestionnaireErrors };
+    return data.errors ?? {};
+  } catch (error) {
+    console.error("Failed to validate questionnaire responses:", error);
+    return {};
   }
+}
 
-  const { error } = await supabase
-    .from("rsvp_responses")
-    .upsert(responseRows, {
-      onConflict: "rsvp_id,question_id",
+/**
+ * Submit questionnaire responses along with RSVP (or a post-event survey).
+ * The server checks them against the questionnaire before writing.
+ */
+export async function submitQuestionnaireResponses(
+  rsvpId: string,
+  responses: Record<string, string | string[]>,
+  kind: QuestionnaireKind = "rsvp"
+): Promise<{ success: boolean; error?: string; errors?: QuestionnaireErrors }> {
+  try {
+    const response = await fetch("/api/questionnaires/responses", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rsvpId, kind, responses }),
     });
-
-  if (error) {
+    const data = (await response.json().catch(() => ({}))) as {
+      error?: string;
+      errors?: QuestionnaireErrors;
+    };
+    if (!response.ok) {
+      return { success: false, error: data.error ?? "invalid_responses", errors: data.errors };
+    }
+    return { success: true };
+  } catch (error) {
     console.error("Failed to submit questionnaire responses:", error);
-    return { success: false, error: error.message };
+    return { success: false, error: error instanceof Error ? error.message : "network_error" };
   }
-
-  return { success: true };
 }
 
 /**
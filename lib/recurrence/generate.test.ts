@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { format, parseISO } from "date-fns";
+import { generateOccurrences } from "./generate";
+import { buildRRule, describeRRule, isValidRRule, parseRRule } from "./rrule";
+
+const dates = (rrule: string, first: string, until: string, extra: Partial<Parameters<typeof generateOccurrences>[0]> = {}) =>
+  generateOccurrences({
+    rrule,
+    firstOccurrence: parseISO(first),
+    generateFrom: parseISO(first),
+    generateUntil: parseISO(until),
+    ...extra,
+  }).map((d) => format(d, "yyyy-MM-dd"));
+
+describe("generateOccurrences", () => {
+  it("expands simple weekly rules", () => {
+    expect(dates("FREQ=WEEKLY;BYDAY=TU", "2026-11-03", "2026-11-25")).toEqual([
+      "2026-11-03",
+      "2026-11-10",
+      "2026-11-17",
+      "2026-11-24",
+    ]);
+  });
+
+  it("handles the last weekday of the month via BYSETPOS", () => {
+    expect(
+      dates("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", "2026-10-30", "2027-02-01")
+    ).toEqual(["2026-10-30", "2026-11-30", "2026-12-31", "2027-01-29"]);
+  });
+
+  it("handles multiple BYMONTHDAY values (1st and 15th)", () => {
+    expect(dates("FREQ=MONTHLY;BYMONTHDAY=1,15", "2026-11-01", "2027-01-02")).toEqual([
+      "2026-11-01",
+      "2026-11-15",
+      "2026-12-01",
+      "2026-12-15",
+      "2027-01-01",
+    ]);
+  });
+
+  it("supports negative BYMONTHDAY (last day of month)", () => {
+    expect(dates("FREQ=MONTHLY;BYMONTHDAY=-1", "2027-01-31", "2027-04-01")).toEqual([
+      "2027-01-31",
+      "2027-02-28",
+      "2027-03-31",
+    ]);
+  });
+
+  it("supports multiple positional BYDAY entries (1st and 3rd Monday)", () => {
+    expect(dates("FREQ=MONTHLY;BYDAY=1MO,3MO", "2026-11-02", "2026-12-31")).toEqual([
+      "2026-11-02",
+      "2026-11-16",
+      "2026-12-07",
+      "2026-12-21",
+    ]);
+  });
+
+  it("honours COUNT from the rule, with EXDATEs still consuming it", () => {
+    expect(
+      dates("FREQ=WEEKLY;BYDAY=SA;COUNT=3", "2026-11-07", "2027-06-01", {
+        excludeDates: new Set(["2026-11-14"]),
+      })
+    ).toEqual(["2026-11-07", "2026-11-21"]);
+  });
+
+  it("skips EXDATEs on biweekly rules and adds RDATEs", () => {
+    expect(
+      dates("FREQ=WEEKLY;INTERVAL=2;BYDAY=WE", "2027-01-27", "2027-03-20", {
+        excludeDates: new Set(["2027-02-10"]),
+        extraDates: ["2027-02-13"],
+      })
+    ).toEqual(["2027-01-27", "2027-02-13", "2027-02-24", "2027-03-10"]);
+  });
+
+  it("treats UNTIL as inclusive", () => {
+    expect(
+      dates("FREQ=DAILY", "2026-11-01", "2026-12-01", { rruleUntil: parseISO("2026-11-03") })
+    ).toEqual(["2026-11-01", "2026-11-02", "2026-11-03"]);
+  });
+
+  it("skips months without the start day instead of clamping", () => {
+    expect(dates("FREQ=MONTHLY", "2027-01-31", "2027-05-01")).toEqual([
+      "2027-01-31",
+      "2027-03-31",
+    ]);
+  });
+});
+
+describe("RRULE round-trip", () => {
+  it.each([
+    "FREQ=WEEKLY;BYDAY=MO,WE,FR",
+    "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+    "FREQ=MONTHLY;BYMONTHDAY=1,15",
+    "FREQ=MONTHLY;BYDAY=1MO,3MO",
+    "FREQ=WEEKLY;INTERVAL=2;BYDAY=SU;COUNT=10",
+  ])("parses and rebuilds %s", (rrule) => {
+    expect(isValidRRule(rrule)).toBe(true);
+    expect(buildRRule(parseRRule(rrule))).toBe(rrule);
+  });
+
+  it("accepts RFC 5545 UNTIL values", () => {
+    expect(isValidRRule("FREQ=DAILY;UNTIL=20261231T000000Z")).toBe(true);
+    expect(parseRRule("FREQ=DAILY;UNTIL=20261231T000000Z").endDate).toBe("2026-12-31");
+  });
+
+  it("describes rules in English by default", () => {
+    expect(describeRRule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1")).toBe(
+      "Every month on the last weekday"
+    );
+    expect(describeRRule("FREQ=MONTHLY;BYMONTHDAY=1,15")).toBe("Every month on day 1, 15");
+  });
+
+  it("describes rules through a translator", () => {
+    const t = (key: string) => `[${key}]`;
+    expect(describeRRule("FREQ=WEEKLY;BYDAY=TU", t)).toBe("[describe.every.WEEKLY] [describe.onDays]");
+  });
+});
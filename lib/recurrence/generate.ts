@@ -2,6 +2,12 @@
  * Date Generation for Recurring Events
  *
  * Expands RRULE patterns into concrete occurrence dates.
+ *
+ * Follows RFC 5545 expansion: the rule steps through periods (day, week,
+ * month, year) of INTERVAL size, BYDAY/BYMONTHDAY expand each period into
+ * candidate days, BYSETPOS picks from that set, and COUNT/UNTIL bound the
+ * result. EXDATE removes dates afterwards (they still consume COUNT) and
+ * RDATE adds one-off dates outside the rule.
  */
 
 import {
@@ -9,17 +15,18 @@ import {
   addWeeks,
   addMonths,
   addYears,
+  isAfter,
   isBefore,
   isSameDay,
   getDay,
-  setDay,
   format,
+  parseISO,
+  startOfDay,
   startOfMonth,
-  endOfMonth,
-  eachDayOfInterval,
+  getDaysInMonth,
 } from "date-fns";
 import { parseRRule } from "./rrule";
-import type { EventSeries } from "@/lib/types";
+import type { EventSeries, RecurrenceFormData } from "@/lib/types";
 
 // Map RRULE day codes to date-fns day numbers (0=Sunday)
 const WEEKDAY_TO_NUM: Record<string, number> = {
@@ -32,6 +39,9 @@ const WEEKDAY_TO_NUM: Record<string, number> = {
   SA: 6,
 };
 
+// Safety limit on periods walked, to prevent runaway loops on sparse rules
+const MAX_PERIODS = 2000;
+
 interface GenerationConfig {
   rrule: string;
   firstOccurrence: Date;
@@ -39,7 +49,8 @@ interface GenerationConfig {
   generateUntil: Date;
   rruleUntil?: Date | null;
   rruleCount?: number | null;
-  excludeDates?: Set<string>; // YYYY-MM-DD format
+  excludeDates?: Set<string>; // YYYY-MM-DD format (EXDATE + already materialized)
+  extraDates?: string[]; // YYYY-MM-DD format (RDATE)
 }
 
 /**
@@ -51,187 +62,199 @@ export function generateOccurrences(config: GenerationConfig): Date[] {
     firstOccurrence,
     generateFrom,
     generateUntil,
-    rruleUntil,
-    rruleCount,
     excludeDates = new Set(),
+    extraDates = [],
   } = config;
 
   const parsed = parseRRule(rrule);
-  const occurrences: Date[] = [];
-
-  // Determine actual end date (earliest of generateUntil and rruleUntil)
-  let effectiveEndDate = generateUntil;
-  if (rruleUntil && isBefore(rruleUntil, generateUntil)) {
-    effectiveEndDate = rruleUntil;
+  const start = startOfDay(firstOccurrence);
+  const weekStart = WEEKDAY_TO_NUM[rrule.match(/WKST=([A-Z]{2})/)?.[1] ?? "MO"] ?? 1;
+
+  // UNTIL is inclusive. It comes from the rrule_until column, or from the
+  // RRULE itself for imported rules.
+  let until: Date | null = config.rruleUntil ? startOfDay(config.rruleUntil) : null;
+  if (!until && parsed.endType === "date" && parsed.endDate) {
+    until = parseISO(parsed.endDate);
   }
+  const maxCount = config.rruleCount ?? parsed.endCount ?? Infinity;
 
-  // Start from first occurrence
-  let current = new Date(firstOccurrence);
+  const occurrences: Date[] = [];
   let count = 0;
-  const maxCount = rruleCount ?? Infinity;
-
-  // Safety limit to prevent infinite loops
-  const maxIterations = 1000;
-  let iterations = 0;
-
-  while (
-    isBefore(current, effectiveEndDate) &&
-    count < maxCount &&
-    iterations < maxIterations
-  ) {
-    iterations++;
-    const dateStr = format(current, "yyyy-MM-dd");
-
-    // Check if this date should be included
-    if (!excludeDates.has(dateStr)) {
-      // Only include dates >= generateFrom
-      if (!isBefore(current, generateFrom)) {
-        occurrences.push(new Date(current));
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const periodStart = getPeriodStart(start, parsed.frequency, period * parsed.interval, weekStart);
+    if (!isBefore(periodStart, generateUntil) || (until && isAfter(periodStart, until))) {
+      break;
+    }
+
+    const candidates = applySetPositions(
+      expandPeriod(periodStart, parsed, start),
+      parsed.setPositions
+    );
+
+    let done = false;
+    for (const date of candidates) {
+      if (isBefore(date, start)) continue;
+      if ((until && isAfter(date, until)) || !isBefore(date, generateUntil) || count >= maxCount) {
+        done = true;
+        break;
+      }
+
+      count++; // EXDATEs and dates before generateFrom still consume COUNT
+      if (excludeDates.has(format(date, "yyyy-MM-dd"))) continue;
+      if (!isBefore(date, generateFrom)) {
+        occurrences.push(date);
       }
-      count++; // Count all occurrences, even skipped ones, for RRULE COUNT
     }
+    if (done) break;
+  }
 
-    // Get next occurrence based on frequency
-    current = getNextOccurrence(current, parsed);
+  // RDATE: one-off additions, not bounded by COUNT/UNTIL
+  for (const dateStr of extraDates) {
+    const date = parseISO(dateStr);
+    if (
+      !excludeDates.has(dateStr) &&
+      !isBefore(date, generateFrom) &&
+      isBefore(date, generateUntil) &&
+      !occurrences.some((occ) => isSameDay(occ, date))
+    ) {
+      occurrences.push(date);
+    }
   }
 
-  return occurrences;
+  return occurrences.sort((a, b) => a.getTime() - b.getTime());
 }
 
 /**
- * Get the next occurrence date based on recurrence pattern
+ * Start of the nth period after the first occurrence's period
  */
-function getNextOccurrence(
-  current: Date,
-  rule: ReturnType<typeof parseRRule>
+function getPeriodStart(
+  start: Date,
+  frequency: RecurrenceFormData["frequency"],
+  offset: number,
+  weekStart: number
 ): Date {
-  const { frequency, interval, weekDays, monthDay, monthWeekDay } = rule;
-
   switch (frequency) {
     case "DAILY":
-      return addDays(current, interval);
-
-    case "WEEKLY":
-      if (weekDays.length === 0) {
-        // Simple weekly on same day
-        return addWeeks(current, interval);
-      }
-      // Find next day in weekDays
-      return getNextWeeklyOccurrence(current, weekDays, interval);
-
+      return addDays(start, offset);
+    case "WEEKLY": {
+      const shift = (getDay(start) - weekStart + 7) % 7;
+      return addWeeks(addDays(start, -shift), offset);
+    }
     case "MONTHLY":
-      if (monthWeekDay) {
-        // Nth weekday of month (e.g., 2nd Tuesday)
-        return getNextMonthlyWeekdayOccurrence(current, monthWeekDay, interval);
-      }
-      if (monthDay) {
-        // Specific day of month
-        return getNextMonthlyDayOccurrence(current, monthDay, interval);
-      }
-      // Default: same day each month
-      return addMonths(current, interval);
-
+      return addMonths(startOfMonth(start), offset);
     case "YEARLY":
-      return addYears(current, interval);
-
+      return addMonths(startOfMonth(start), offset * 12);
     default:
-      return addWeeks(current, interval);
+      return addWeeks(start, offset);
   }
 }
 
 /**
- * Get next weekly occurrence with specific weekdays
+ * Expand one period into its candidate days (sorted)
  */
-function getNextWeeklyOccurrence(
-  current: Date,
-  weekDays: string[],
-  interval: number
-): Date {
-  const currentDayNum = getDay(current);
-  const targetDays = weekDays.map((d) => WEEKDAY_TO_NUM[d]).sort((a, b) => a - b);
-
-  // Find next day in current week
-  for (const dayNum of targetDays) {
-    if (dayNum > currentDayNum) {
-      return setDay(current, dayNum);
+function expandPeriod(periodStart: Date, rule: RecurrenceFormData, start: Date): Date[] {
+  switch (rule.frequency) {
+    case "DAILY":
+      return matchesDayFilters(periodStart, rule) ? [periodStart] : [];
+
+    case "WEEKLY": {
+      const days = rule.weekDays.length > 0
+        ? rule.weekDays.map((d) => WEEKDAY_TO_NUM[d])
+        : [getDay(start)];
+      return Array.from({ length: 7 }, (_, i) => addDays(periodStart, i)).filter((d) =>
+        days.includes(getDay(d))
+      );
     }
-  }
 
-  // Move to next interval and pick first day
-  const nextWeekStart = addWeeks(current, interval);
-  const firstTargetDay = targetDays[0];
-  // Set to start of week (Sunday) then to first target day
-  return setDay(addDays(nextWeekStart, -getDay(nextWeekStart)), firstTargetDay);
+    case "MONTHLY":
+    case "YEARLY":
+      return expandMonth(periodStart, rule, start);
+
+    default:
+      return [periodStart];
+  }
 }
 
 /**
- * Get next monthly occurrence by nth weekday
+ * BYDAY / BYMONTHDAY as filters (DAILY frequency)
  */
-function getNextMonthlyWeekdayOccurrence(
-  current: Date,
-  monthWeekDay: { week: number; day: string },
-  interval: number
-): Date {
-  const { week, day } = monthWeekDay;
-  const targetDayNum = WEEKDAY_TO_NUM[day];
-
-  // Try next month
-  const nextMonth = addMonths(current, interval);
-
-  // Find the nth weekday of that month
-  const occurrence = getNthWeekdayOfMonth(nextMonth, week, targetDayNum);
-
-  // If we get a valid date, return it
-  if (occurrence) {
-    return occurrence;
+function matchesDayFilters(date: Date, rule: RecurrenceFormData): boolean {
+  if (rule.weekDays.length > 0 && !rule.weekDays.some((d) => WEEKDAY_TO_NUM[d] === getDay(date))) {
+    return false;
   }
-
-  // Edge case: no valid date in that month (e.g., 5th Monday doesn't exist)
-  // Skip to next month
-  return getNextMonthlyWeekdayOccurrence(nextMonth, monthWeekDay, interval);
+  if (rule.monthDays.length > 0) {
+    const daysInMonth = getDaysInMonth(date);
+    return rule.monthDays.some((md) => resolveMonthDay(md, daysInMonth) === date.getDate());
+  }
+  return true;
 }
 
 /**
- * Get the nth weekday of a month
+ * BYMONTHDAY value → day number in a month (null when the month is too short)
  */
-function getNthWeekdayOfMonth(
-  date: Date,
-  n: number,
-  targetDayNum: number
-): Date | null {
-  const monthStart = startOfMonth(date);
-  const monthEnd = endOfMonth(date);
-
-  // Get all days in the month
-  const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
+function resolveMonthDay(monthDay: number, daysInMonth: number): number | null {
+  const day = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+  return day >= 1 && day <= daysInMonth ? day : null;
+}
 
-  // Filter to target weekday
-  const targetDays = daysInMonth.filter((d) => getDay(d) === targetDayNum);
+/**
+ * Expand a month into candidate days from BYMONTHDAY and/or BYDAY
+ */
+function expandMonth(monthStart: Date, rule: RecurrenceFormData, start: Date): Date[] {
+  const daysInMonth = getDaysInMonth(monthStart);
+  const allDays = Array.from({ length: daysInMonth }, (_, i) => addDays(monthStart, i));
+
+  const byMonthDay = new Set(
+    rule.monthDays
+      .map((md) => resolveMonthDay(md, daysInMonth))
+      .filter((d): d is number => d !== null)
+  );
+
+  const hasByDay = rule.weekDays.length > 0 || rule.monthWeekDays.length > 0;
+  const byDay = new Set<number>();
+  if (hasByDay) {
+    for (const day of rule.weekDays) {
+      allDays
+        .filter((d) => getDay(d) === WEEKDAY_TO_NUM[day])
+        .forEach((d) => byDay.add(d.getDate()));
+    }
+    for (const { week, day } of rule.monthWeekDays) {
+      const matching = allDays.filter((d) => getDay(d) === WEEKDAY_TO_NUM[day]);
+      const nth = week > 0 ? matching[week - 1] : matching[matching.length + week];
+      if (nth) byDay.add(nth.getDate());
+    }
+  }
 
-  if (n === -1) {
-    // Last occurrence
-    return targetDays[targetDays.length - 1] || null;
+  let days: number[];
+  if (rule.monthDays.length > 0 && hasByDay) {
+    // Both present: BYDAY limits BYMONTHDAY (e.g. Friday the 13th)
+    days = [...byMonthDay].filter((d) => byDay.has(d));
+  } else if (rule.monthDays.length > 0) {
+    days = [...byMonthDay];
+  } else if (hasByDay) {
+    days = [...byDay];
+  } else {
+    // Default: same day of month as the first occurrence. Months without
+    // that day (the 31st in April) are skipped, per RFC 5545.
+    const day = resolveMonthDay(start.getDate(), daysInMonth);
+    days = day ? [day] : [];
   }
 
-  // Nth occurrence (1-indexed)
-  return targetDays[n - 1] || null;
+  return days.sort((a, b) => a - b).map((d) => allDays[d - 1]);
 }
 
 /**
- * Get next monthly occurrence by day of month
+ * BYSETPOS: pick the nth entries of a period's candidate set
  */
-function getNextMonthlyDayOccurrence(
-  current: Date,
-  dayOfMonth: number,
-  interval: number
-): Date {
-  const nextMonth = addMonths(current, interval);
+function applySetPositions(candidates: Date[], setPositions: number[]): Date[] {
+  if (setPositions.length === 0) return candidates;
 
-  // Handle months with fewer days (e.g., Feb 30 -> Feb 28)
-  const targetDate = new Date(nextMonth);
-  targetDate.setDate(Math.min(dayOfMonth, endOfMonth(nextMonth).getDate()));
+  const picked = setPositions
+    .map((pos) => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+    .filter((d): d is Date => Boolean(d));
 
-  return targetDate;
+  return [...new Set(picked)].sort((a, b) => a.getTime() - b.getTime());
 }
 
 /**
@@ -241,19 +264,21 @@ export function generateSeriesInstances(
   series: Pick<
     EventSeries,
     "rrule" | "first_occurrence" | "rrule_until" | "rrule_count"
-  >,
+  > &
+    Partial<Pick<EventSeries, "exdates" | "rdates">>,
   generateFrom: Date,
   generateUntil: Date,
   excludeDates?: string[]
 ): Date[] {
   return generateOccurrences({
     rrule: series.rrule,
-    firstOccurrence: new Date(series.first_occurrence),
+    firstOccurrence: parseISO(series.first_occurrence),
     generateFrom,
     generateUntil,
     rruleUntil: series.rrule_until ? new Date(series.rrule_until) : null,
     rruleCount: series.rrule_count,
-    excludeDates: new Set(excludeDates),
+    excludeDates: new Set([...(excludeDates ?? []), ...(series.exdates ?? [])]),
+    extraDates: series.rdates ?? [],
   });
 }
 
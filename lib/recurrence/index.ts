@@ -6,6 +6,8 @@ export {
   buildRRule,
   parseRRule,
   describeRRule,
+  describeRecurrence,
+  isSameRecurrencePattern,
   getRecurrencePresets,
   getDayAbbreviation,
   getWeekOfMonth,
@@ -13,8 +15,11 @@ export {
   isValidRRule,
   getShortRRuleLabel,
   getDefaultRecurrenceData,
+  parseDateList,
 } from "./rrule";
 
+export type { RRuleTranslate } from "./rrule";
+
 export {
   generateOccurrences,
   generateSeriesInstances,
@@ -3,6 +3,11 @@
  *
  * Handles building and parsing iCalendar RRULE strings for recurring events.
  * Format: FREQ=WEEKLY;BYDAY=TU;INTERVAL=2
+ *
+ * Supported parts: FREQ, INTERVAL, BYDAY (plain or with position, comma
+ * lists), BYMONTHDAY (lists, negative = from month end), BYSETPOS, COUNT,
+ * UNTIL and WKST. EXDATE/RDATE are separate iCalendar properties, so they are
+ * carried on RecurrenceFormData but never written into the RRULE value.
  */
 
 import { getDay } from "date-fns";
@@ -19,15 +24,10 @@ const WEEKDAY_MAP: Record<number, string> = {
   6: "SA",
 };
 
-const _WEEKDAY_REVERSE: Record<string, number> = {
-  SU: 0,
-  MO: 1,
-  TU: 2,
-  WE: 3,
-  TH: 4,
-  FR: 5,
-  SA: 6,
-};
+const WEEKDAY_ORDER = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+const WEEKDAYS_MON_FRI = ["MO", "TU", "WE", "TH", "FR"];
+const WEEKEND_DAYS = ["SA", "SU"];
 
 const WEEKDAY_NAMES: Record<string, string> = {
   SU: "Sunday",
@@ -46,8 +46,78 @@ const ORDINAL_NAMES: Record<number, string> = {
   4: "fourth",
   5: "fifth",
   [-1]: "last",
+  [-2]: "second to last",
+};
+
+// BYDAY entry: optional signed position + two-letter weekday (e.g. "-1FR")
+const BYDAY_PATTERN = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/;
+
+/**
+ * Translator for describeRRule/describeRecurrence. Keys are relative to the
+ * `recurrence` message namespace, e.g. `describe.every.WEEKLY`.
+ */
+export type RRuleTranslate = (key: string, values?: Record<string, string | number>) => string;
+
+// English copy used when no translator is passed (server metadata, API
+// responses). Mirrors recurrence.describe in messages/en.json.
+const ENGLISH_PHRASES: Record<string, string> = {
+  "describe.every.DAILY": "Every day",
+  "describe.every.WEEKLY": "Every week",
+  "describe.every.MONTHLY": "Every month",
+  "describe.every.YEARLY": "Every year",
+  "describe.everyN.DAILY": "Every {interval} days",
+  "describe.everyN.WEEKLY": "Every {interval} weeks",
+  "describe.everyN.MONTHLY": "Every {interval} months",
+  "describe.everyN.YEARLY": "Every {interval} years",
+  "describe.onDays": "on {days}",
+  "describe.onMonthDays": "on day {days}",
+  "describe.onPosition": "on the {ordinal} {day}",
+  "describe.times": "{count} times",
+  "describe.until": "until {date}",
+  "describe.except": "except {dates}",
+  "describe.plus": "plus {dates}",
+  "describe.lastDay": "last day",
+  "describe.weekday": "weekday",
+  "describe.weekendDay": "weekend day",
+  "describe.ordinal.1": "first",
+  "describe.ordinal.2": "second",
+  "describe.ordinal.3": "third",
+  "describe.ordinal.4": "fourth",
+  "describe.ordinal.5": "fifth",
+  "describe.ordinal.-1": "last",
+  "describe.ordinal.-2": "second to last",
+  ...Object.fromEntries(
+    Object.entries(WEEKDAY_NAMES).map(([code, name]) => [`describe.day.${code}`, name])
+  ),
+};
+
+const englishTranslate: RRuleTranslate = (key, values = {}) => {
+  const template = ENGLISH_PHRASES[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (_, name) => String(values[name] ?? ""));
 };
 
+function sortWeekDays(days: string[]): string[] {
+  return [...days].sort((a, b) => WEEKDAY_ORDER.indexOf(a) - WEEKDAY_ORDER.indexOf(b));
+}
+
+function parseIntList(value: string | undefined): number[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((v) => parseInt(v, 10))
+    .filter((n) => !isNaN(n) && n !== 0);
+}
+
+/**
+ * Parse an RRULE UNTIL value (20261231, 20261231T000000Z or ISO) into YYYY-MM-DD
+ */
+function parseUntil(value: string): string | undefined {
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time).toISOString().slice(0, 10);
+}
+
 /**
  * Build an RRULE string from form data
  */
@@ -65,21 +135,29 @@ export function buildRRule(data: RecurrenceFormData): string {
 
   // Day selection for WEEKLY frequency
   if (data.frequency === "WEEKLY" && data.weekDays.length > 0) {
-    parts.push(`BYDAY=${data.weekDays.join(",")}`);
+    parts.push(`BYDAY=${sortWeekDays(data.weekDays).join(",")}`);
   }
 
-  // Day selection for MONTHLY frequency
-  if (data.frequency === "MONTHLY") {
-    if (data.monthWeekDay) {
-      // Nth weekday of month (e.g., 2TU = 2nd Tuesday)
-      const { week, day } = data.monthWeekDay;
-      parts.push(`BYDAY=${week}${day}`);
-    } else if (data.monthDay) {
-      // Specific day of month (e.g., 15th)
-      parts.push(`BYMONTHDAY=${data.monthDay}`);
+  // Day selection for MONTHLY (and YEARLY, within the start month)
+  if (data.frequency === "MONTHLY" || data.frequency === "YEARLY") {
+    if (data.monthWeekDays.length > 0) {
+      // Nth weekday(s) of month (e.g., 1MO,3MO = 1st and 3rd Monday)
+      parts.push(`BYDAY=${data.monthWeekDays.map(({ week, day }) => `${week}${day}`).join(",")}`);
+    } else if (data.weekDays.length > 0) {
+      // Plain weekdays, usually narrowed by BYSETPOS (last weekday of the month)
+      parts.push(`BYDAY=${sortWeekDays(data.weekDays).join(",")}`);
+    }
+
+    if (data.monthDays.length > 0) {
+      // Specific day(s) of month (e.g., 1,15 or -1 for the last day)
+      parts.push(`BYMONTHDAY=${data.monthDays.join(",")}`);
     }
   }
 
+  if (data.setPositions.length > 0) {
+    parts.push(`BYSETPOS=${data.setPositions.join(",")}`);
+  }
+
   // End condition: COUNT
   // Note: UNTIL is stored separately in the database, not in RRULE
   if (data.endType === "count" && data.endCount) {
@@ -97,46 +175,53 @@ export function parseRRule(rrule: string): RecurrenceFormData {
     return getDefaultRecurrenceData();
   }
 
-  const parts = Object.fromEntries(
-    rrule.split(";").map((p) => {
-      const [key, value] = p.split("=");
-      return [key, value];
-    })
+  const parts: Record<string, string> = Object.fromEntries(
+    rrule
+      .replace(/^RRULE:/, "")
+      .split(";")
+      .filter(Boolean)
+      .map((p) => {
+        const [key, value] = p.split("=");
+        return [key.toUpperCase(), value ?? ""];
+      })
   );
 
   const frequency = (parts.FREQ as RecurrenceFrequency) || "WEEKLY";
-  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
-
-  // Parse BYDAY for weekly (simple) or monthly (with position)
-  let weekDays: string[] = [];
-  let monthWeekDay: { week: number; day: string } | undefined;
-
-  if (parts.BYDAY) {
-    const byDay = parts.BYDAY;
-    // Check if it has a position prefix (e.g., "2TU" or "-1FR")
-    const posMatch = byDay.match(/^(-?\d)([A-Z]{2})$/);
-    if (posMatch) {
-      monthWeekDay = {
-        week: parseInt(posMatch[1], 10),
-        day: posMatch[2],
-      };
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) || 1 : 1;
+
+  // BYDAY entries without a position are plain weekdays; with a position
+  // (e.g. "2TU" or "-1FR") they pick the nth weekday of the month
+  const weekDays: string[] = [];
+  const monthWeekDays: { week: number; day: string }[] = [];
+
+  for (const entry of (parts.BYDAY || "").split(",").filter(Boolean)) {
+    const match = entry.match(BYDAY_PATTERN);
+    if (!match) continue;
+    if (match[1]) {
+      monthWeekDays.push({ week: parseInt(match[1], 10), day: match[2] });
     } else {
-      // Simple comma-separated days
-      weekDays = byDay.split(",").filter((d) => /^[A-Z]{2}$/.test(d));
+      weekDays.push(match[2]);
     }
   }
 
-  const monthDay = parts.BYMONTHDAY ? parseInt(parts.BYMONTHDAY, 10) : null;
+  const until = parts.UNTIL ? parseUntil(parts.UNTIL) : undefined;
+  let endType: RecurrenceFormData["endType"] = "never";
+  if (parts.COUNT) endType = "count";
+  else if (until) endType = "date";
 
   return {
     isRecurring: true,
     frequency,
     interval,
     weekDays,
-    monthDay,
-    monthWeekDay: monthWeekDay || null,
-    endType: parts.COUNT ? "count" : "never",
+    monthDays: parseIntList(parts.BYMONTHDAY).filter((d) => d >= -31 && d <= 31),
+    monthWeekDays,
+    setPositions: parseIntList(parts.BYSETPOS),
+    endType,
     endCount: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    endDate: until,
+    excludeDates: [],
+    extraDates: [],
   };
 }
 
@@ -149,58 +234,98 @@ export function getDefaultRecurrenceData(): RecurrenceFormData {
     frequency: "WEEKLY",
     interval: 1,
     weekDays: [],
-    monthDay: null,
-    monthWeekDay: null,
+    monthDays: [],
+    monthWeekDays: [],
+    setPositions: [],
     endType: "never",
+    excludeDates: [],
+    extraDates: [],
   };
 }
 
 /**
- * Get a human-readable description of an RRULE
+ * Describe a BYDAY set for BYSETPOS: "weekday", "weekend day" or a day list
  */
-export function describeRRule(rrule: string): string {
-  if (!rrule) return "";
+function describeDaySet(days: string[], t: RRuleTranslate): string {
+  const sorted = sortWeekDays(days);
+  if (sorted.join(",") === WEEKDAYS_MON_FRI.join(",")) return t("describe.weekday");
+  if (sorted.join(",") === sortWeekDays(WEEKEND_DAYS).join(",")) return t("describe.weekendDay");
+  return sorted.map((d) => t(`describe.day.${d}`)).join(", ");
+}
 
-  const data = parseRRule(rrule);
+function describeOrdinal(position: number, t: RRuleTranslate): string {
+  return ORDINAL_NAMES[position] !== undefined ? t(`describe.ordinal.${position}`) : `${position}.`;
+}
 
-  let description = "";
+/**
+ * Get a human-readable description of recurrence form data, including the
+ * end condition and EXDATE/RDATE lists. Pass a translator bound to the
+ * `recurrence` namespace for localized text; English otherwise.
+ */
+export function describeRecurrence(
+  data: RecurrenceFormData,
+  t: RRuleTranslate = englishTranslate
+): string {
+  const parts: string[] = [];
 
   // Frequency and interval
-  const freqName = data.frequency.toLowerCase();
-  if (data.interval === 1) {
-    description = `Every ${freqName.replace("ly", "")}`;
-  } else {
-    const unitMap: Record<string, string> = {
-      DAILY: "days",
-      WEEKLY: "weeks",
-      MONTHLY: "months",
-      YEARLY: "years",
-    };
-    description = `Every ${data.interval} ${unitMap[data.frequency]}`;
-  }
+  parts.push(
+    data.interval === 1
+      ? t(`describe.every.${data.frequency}`)
+      : t(`describe.everyN.${data.frequency}`, { interval: data.interval })
+  );
 
   // Day specification
-  if (data.frequency === "WEEKLY" && data.weekDays.length > 0) {
-    const dayNames = data.weekDays.map((d) => WEEKDAY_NAMES[d]).join(", ");
-    description += ` on ${dayNames}`;
-  } else if (data.frequency === "MONTHLY") {
-    if (data.monthWeekDay) {
-      const ordinal = ORDINAL_NAMES[data.monthWeekDay.week] || `${data.monthWeekDay.week}th`;
-      const dayName = WEEKDAY_NAMES[data.monthWeekDay.day];
-      description += ` on the ${ordinal} ${dayName}`;
-    } else if (data.monthDay) {
-      description += ` on day ${data.monthDay}`;
-    }
+  if (data.setPositions.length > 0 && data.weekDays.length > 0) {
+    const ordinals = data.setPositions.map((p) => describeOrdinal(p, t)).join(", ");
+    parts.push(t("describe.onPosition", { ordinal: ordinals, day: describeDaySet(data.weekDays, t) }));
+  } else if (data.monthWeekDays.length > 0) {
+    parts.push(
+      data.monthWeekDays
+        .map(({ week, day }) =>
+          t("describe.onPosition", { ordinal: describeOrdinal(week, t), day: t(`describe.day.${day}`) })
+        )
+        .join(", ")
+    );
+  } else if (data.weekDays.length > 0) {
+    const dayNames = sortWeekDays(data.weekDays).map((d) => t(`describe.day.${d}`)).join(", ");
+    parts.push(t("describe.onDays", { days: dayNames }));
+  }
+
+  if (data.monthDays.length > 0) {
+    const days = data.monthDays
+      .map((d) => (d === -1 ? t("describe.lastDay") : String(d)))
+      .join(", ");
+    parts.push(t("describe.onMonthDays", { days }));
   }
 
+  let description = parts.join(" ");
+
   // End condition
   if (data.endType === "count" && data.endCount) {
-    description += `, ${data.endCount} times`;
+    description += `, ${t("describe.times", { count: data.endCount })}`;
+  } else if (data.endType === "date" && data.endDate) {
+    description += `, ${t("describe.until", { date: data.endDate })}`;
+  }
+
+  if (data.excludeDates.length > 0) {
+    description += `, ${t("describe.except", { dates: data.excludeDates.join(", ") })}`;
+  }
+  if (data.extraDates.length > 0) {
+    description += `, ${t("describe.plus", { dates: data.extraDates.join(", ") })}`;
   }
 
   return description;
 }
 
+/**
+ * Get a human-readable description of an RRULE
+ */
+export function describeRRule(rrule: string, t?: RRuleTranslate): string {
+  if (!rrule) return "";
+  return describeRecurrence(parseRRule(rrule), t);
+}
+
 /**
  * Generate recurrence presets based on a given date
  */
@@ -209,12 +334,13 @@ export function getRecurrencePresets(date: Date): RecurrencePreset[] {
   const dayAbbr = WEEKDAY_MAP[dayOfWeek];
   const dayName = WEEKDAY_NAMES[dayAbbr];
   const dayOfMonth = date.getDate();
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
 
   // Calculate which week of the month (1st, 2nd, 3rd, 4th, or last)
   const weekOfMonth = Math.ceil(dayOfMonth / 7);
   const ordinal = ORDINAL_NAMES[weekOfMonth] || `${weekOfMonth}th`;
 
-  return [
+  const presets: RecurrencePreset[] = [
     {
       id: "weekly",
       label: `Every week on ${dayName}`,
@@ -230,12 +356,25 @@ export function getRecurrencePresets(date: Date): RecurrencePreset[] {
       label: `Monthly on the ${ordinal} ${dayName}`,
       rrule: `FREQ=MONTHLY;BYDAY=${weekOfMonth}${dayAbbr}`,
     },
-    {
-      id: "monthly-day",
-      label: `Monthly on day ${dayOfMonth}`,
-      rrule: `FREQ=MONTHLY;BYMONTHDAY=${dayOfMonth}`,
-    },
   ];
+
+  // In the last 7 days of the month, "last <weekday>" is usually the intent
+  // (the 4th Friday isn't always the last one)
+  if (dayOfMonth + 7 > daysInMonth) {
+    presets.push({
+      id: "monthly-last-weekday",
+      label: `Monthly on the last ${dayName}`,
+      rrule: `FREQ=MONTHLY;BYDAY=-1${dayAbbr}`,
+    });
+  }
+
+  presets.push({
+    id: "monthly-day",
+    label: `Monthly on day ${dayOfMonth}`,
+    rrule: `FREQ=MONTHLY;BYMONTHDAY=${dayOfMonth}`,
+  });
+
+  return presets;
 }
 
 /**
@@ -256,15 +395,28 @@ export function getWeekOfMonth(date: Date): number {
  * Check if two RRULE strings are equivalent
  */
 export function areRRulesEqual(rrule1: string, rrule2: string): boolean {
-  const data1 = parseRRule(rrule1);
-  const data2 = parseRRule(rrule2);
+  return isSameRecurrencePattern(parseRRule(rrule1), parseRRule(rrule2));
+}
+
+/**
+ * Compare the pattern part of two recurrence configurations (ignores end
+ * condition and EXDATE/RDATE)
+ */
+export function isSameRecurrencePattern(
+  data1: RecurrenceFormData,
+  data2: RecurrenceFormData
+): boolean {
+  const sortedNums = (nums: number[]) => JSON.stringify([...nums].sort((a, b) => a - b));
+  const sortedPositions = (list: { week: number; day: string }[]) =>
+    JSON.stringify(list.map(({ week, day }) => `${week}${day}`).sort());
 
   return (
     data1.frequency === data2.frequency &&
     data1.interval === data2.interval &&
-    JSON.stringify(data1.weekDays.sort()) === JSON.stringify(data2.weekDays.sort()) &&
-    data1.monthDay === data2.monthDay &&
-    JSON.stringify(data1.monthWeekDay) === JSON.stringify(data2.monthWeekDay)
+    JSON.stringify(sortWeekDays(data1.weekDays)) === JSON.stringify(sortWeekDays(data2.weekDays)) &&
+    sortedNums(data1.monthDays) === sortedNums(data2.monthDays) &&
+    sortedPositions(data1.monthWeekDays) === sortedPositions(data2.monthWeekDays) &&
+    sortedNums(data1.setPositions) === sortedNums(data2.setPositions)
   );
 }
 
@@ -279,6 +431,12 @@ export function isValidRRule(rrule: string): boolean {
 
   if (!hasFreq) return false;
 
+  const isIntList = (value: string, min: number, max: number) =>
+    value.split(",").every((v) => {
+      const n = parseInt(v, 10);
+      return /^[+-]?\d{1,3}$/.test(v) && n !== 0 && n >= min && n <= max;
+    });
+
   // Check each part is valid
   for (const part of parts) {
     const [key, value] = part.split("=");
@@ -295,20 +453,27 @@ export function isValidRRule(rrule: string): boolean {
           return false;
         }
         break;
-      case "BYDAY":
-        // Can be simple (TU,TH) or positional (2TU)
+      case "BYDAY": {
+        // Can be simple (TU,TH) or positional (2TU,-1FR)
         const days = value.split(",");
         for (const d of days) {
-          if (!/^(-?\d)?[A-Z]{2}$/.test(d)) {
-            return false;
+          const match = d.match(BYDAY_PATTERN);
+          if (!match) return false;
+          if (match[1]) {
+            const pos = parseInt(match[1], 10);
+            if (pos === 0 || pos < -5 || pos > 5) return false;
           }
         }
         break;
+      }
       case "BYMONTHDAY":
-        const day = parseInt(value, 10);
-        if (isNaN(day) || day < 1 || day > 31) {
-          return false;
-        }
+        if (!isIntList(value, -31, 31)) return false;
+        break;
+      case "BYSETPOS":
+        if (!isIntList(value, -366, 366)) return false;
+        break;
+      case "WKST":
+        if (!WEEKDAY_ORDER.includes(value)) return false;
         break;
       case "COUNT":
         if (isNaN(parseInt(value, 10)) || parseInt(value, 10) < 1) {
@@ -316,8 +481,8 @@ export function isValidRRule(rrule: string): boolean {
         }
         break;
       case "UNTIL":
-        // UNTIL should be a valid date - we accept ISO format
-        if (isNaN(Date.parse(value))) {
+        // Accept RFC 5545 (20261231 / 20261231T000000Z) or ISO format
+        if (!parseUntil(value)) {
           return false;
         }
         break;
@@ -349,12 +514,20 @@ export function getShortRRuleLabel(rrule: string): string {
   }
 
   if (data.frequency === "MONTHLY") {
-    if (data.monthWeekDay) {
-      const ordinal = ORDINAL_NAMES[data.monthWeekDay.week] || `${data.monthWeekDay.week}th`;
-      return `${ordinal} ${WEEKDAY_NAMES[data.monthWeekDay.day]}`;
+    if (data.setPositions.length === 1 && data.weekDays.length > 0) {
+      const ordinal = ORDINAL_NAMES[data.setPositions[0]] || `${data.setPositions[0]}th`;
+      return `${ordinal} ${describeDaySet(data.weekDays, englishTranslate)}`;
     }
-    if (data.monthDay) {
-      return `Day ${data.monthDay} monthly`;
+    if (data.monthWeekDays.length === 1) {
+      const { week, day } = data.monthWeekDays[0];
+      const ordinal = ORDINAL_NAMES[week] || `${week}th`;
+      return `${ordinal} ${WEEKDAY_NAMES[day]}`;
+    }
+    if (data.monthDays.length === 1) {
+      return data.monthDays[0] === -1 ? "Last day monthly" : `Day ${data.monthDays[0]} monthly`;
+    }
+    if (data.monthDays.length > 1) {
+      return `Days ${data.monthDays.join(", ")} monthly`;
     }
     return "Monthly";
   }
@@ -369,3 +542,21 @@ export function getShortRRuleLabel(rrule: string): string {
 
   return "Repeating";
 }
+
+/**
+ * Validate an EXDATE/RDATE list from a request body. Returns the sorted,
+ * de-duplicated YYYY-MM-DD dates, or null if anything is malformed.
+ */
+export function parseDateList(value: unknown): string[] | null {
+  if (value == null) return [];
+  if (!Array.isArray(value)) return null;
+
+  const dates = new Set<string>();
+  for (const entry of value) {
+    if (typeof entry !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(entry) || isNaN(Date.parse(entry))) {
+      return null;
+    }
+    dates.add(entry);
+  }
+  return [...dates].sort();
+}
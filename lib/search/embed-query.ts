@@ -0,0 +1,74 @@
+import Replicate from "replicate";
+import { unstable_cache } from "next/cache";
+
+// Same CLIP model the moment embeddings are backfilled with — query vectors
+// must come from the same space
+const CLIP_MODEL = "krthr/clip-embeddings:1c0371070cb827ec3c7f2f28adcdde54b50dcd239aa6faea0bc98b174ef03fb4";
+const EMBEDDING_DIMENSIONS = 768;
+
+// Search answers without the semantic leg rather than wait on a cold model
+const EMBEDDING_TIMEOUT_MS = 2500;
+
+/**
+ * Cached CLIP text embedding keyed by normalized query.
+ * Errors throw (and are NOT cached) so a flaky call doesn't stick for a week.
+ */
+const getCachedEmbedding = unstable_cache(
+  async (normalizedQuery: string): Promise<number[]> => {
+    const replicate = new Replicate({ auth: process.env.REPLICATE_API_TOKEN });
+    const output = await replicate.run(CLIP_MODEL, { input: { text: normalizedQuery } });
+
+    const embedding =
+      output && typeof output === "object" && !Array.isArray(output)
+        ? (output as { embedding?: unknown }).embedding
+        : output;
+
+    if (
+      !Array.isArray(embedding) ||
+      embedding.length !== EMBEDDING_DIMENSIONS ||
+      typeof embedding[0] !== "number"
+    ) {
+      throw new Error("Unexpected CLIP embedding format");
+    }
+
+    return embedding as number[];
+  },
+  ["search-query-embedding"],
+  { revalidate: 7 * 86400 }
+);
+
+/**
+ * Embed a search query for matching against moment photos, formatted for a
+ * pgvector parameter. Returns null when Replicate isn't configured, is slow,
+ * or fails — callers fall back to text search alone.
+ */
+export async function embedSearchQuery(query: string): Promise<string | null> {
+  if (!process.env.REPLICATE_API_TOKEN) return null;
+
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, " ");
+  if (normalized.length < 2) return null;
+
+  const embedding = getCachedEmbedding(normalized);
+  // Keep a late rejection from surfacing as unhandled after the race is lost
+  embedding.catch(() => {});
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const vector = await Promise.race([
+      embedding,
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), EMBEDDING_TIMEOUT_MS);
+      }),
+    ]);
+    if (!vector) {
+      console.warn(`[embed-query] timed out after ${EMBEDDING_TIMEOUT_MS}ms for "${normalized}"`);
+      return null;
+    }
+    return `[${vector.join(",")}]`;
+  } catch (error) {
+    console.error(`[embed-query] embedding failed for "${normalized}":`, error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
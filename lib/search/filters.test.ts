@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_FILTERS,
+  getDateWindow,
+  parseSearchFilters,
+  toSearchParams,
+  toWebsearchQuery,
+} from "./filters";
+
+describe("search filter URLs", () => {
+  it("round-trips a fully filtered search", () => {
+    const params = new URLSearchParams(
+      "q=jazz&type=events&tag=music,concert&price=free&venue=cafe,bar&date=weekend&near=11.9404,108.4583&radius=10&sort=distance&page=2"
+    );
+    const filters = parseSearchFilters(params);
+
+    expect(filters).toMatchObject({
+      q: "jazz",
+      type: "events",
+      tags: ["music", "concert"],
+      priceTypes: ["free"],
+      venueTypes: ["cafe", "bar"],
+      date: "weekend",
+      near: { lat: 11.9404, lng: 108.4583 },
+      radiusKm: 10,
+      sort: "distance",
+      page: 2,
+    });
+    expect(parseSearchFilters(toSearchParams(filters))).toEqual(filters);
+  });
+
+  it("drops unknown values instead of failing", () => {
+    const filters = parseSearchFilters(
+      new URLSearchParams("type=planets&tag=music,nope&price=expensive&radius=7&near=abc&page=-3")
+    );
+
+    expect(filters).toEqual({ ...EMPTY_FILTERS, tags: ["music"] });
+  });
+
+  it("drops impossible calendar dates", () => {
+    const filters = parseSearchFilters(new URLSearchParams("from=2026-02-31&to=2026-13-01"));
+    expect(filters).toMatchObject({ from: null, to: null });
+    expect(parseSearchFilters(new URLSearchParams("from=2028-02-29")).from).toBe("2028-02-29");
+  });
+
+  it("ignores distance sort without a point", () => {
+    expect(parseSearchFilters(new URLSearchParams("sort=distance")).sort).toBe("relevance");
+  });
+
+  it("keeps default values out of the URL", () => {
+    expect(toSearchParams({ ...EMPTY_FILTERS, q: "yoga" }).toString()).toBe("q=yoga");
+  });
+});
+
+describe("toWebsearchQuery", () => {
+  it("ORs terms, quoting phrases and dropping duplicates", () => {
+    expect(toWebsearchQuery(["cherry", "Cherry", "hoa anh đào"])).toBe('cherry OR "hoa anh đào"');
+  });
+
+  it("strips websearch operators from user input", () => {
+    expect(toWebsearchQuery(['"live -music', "or", "-jazz"])).toBe('"live music" OR jazz');
+  });
+});
+
+describe("getDateWindow", () => {
+  // Wednesday 2026-10-21, 10:00 in Đà Lạt (UTC+7)
+  const now = new Date("2026-10-21T03:00:00Z");
+
+  it("covers the coming weekend in Đà Lạt time", () => {
+    expect(getDateWindow({ date: "weekend", from: null, to: null }, now)).toEqual({
+      from: "2026-10-23T17:00:00.000Z",
+      to: "2026-10-25T17:00:00.000Z",
+    });
+  });
+
+  it("starts the weekend now when it's already Sunday", () => {
+    const sunday = new Date("2026-10-25T05:00:00Z");
+    expect(getDateWindow({ date: "weekend", from: null, to: null }, sunday)).toEqual({
+      from: sunday.toISOString(),
+      to: "2026-10-25T17:00:00.000Z",
+    });
+  });
+
+  it("runs the month to the first of the next", () => {
+    expect(getDateWindow({ date: "month", from: null, to: null }, now).to).toBe("2026-10-31T17:00:00.000Z");
+  });
+
+  it("prefers a custom range, inclusive of the last day", () => {
+    expect(getDateWindow({ date: "today", from: "2026-12-24", to: "2026-12-26" }, now)).toEqual({
+      from: "2026-12-23T17:00:00.000Z",
+      to: "2026-12-26T17:00:00.000Z",
+    });
+  });
+});
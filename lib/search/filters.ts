@@ -0,0 +1,215 @@
+import { EVENT_TAGS, type EventTag } from "@/lib/constants/event-tags";
+import { VENUE_TYPES } from "@/lib/constants/venue-types";
+import { getDateTimeInDaLat, toUTCFromDaLat } from "@/lib/timezone";
+import type { PriceType, VenueType } from "@/lib/types";
+
+/**
+ * Search filters and their URL form.
+ *
+ * The URL is the state: /search?q=jazz&tag=music,concert&date=weekend&near=11.94,108.44
+ * round-trips through parseSearchFilters / toSearchParams, so a filtered
+ * search can be shared or bookmarked. The API accepts the same parameters.
+ */
+
+export const SEARCH_TYPES = ["all", "events", "venues", "organizers", "tribes", "moments"] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export const DATE_PRESETS = ["today", "tomorrow", "weekend", "week", "month"] as const;
+export type DatePreset = (typeof DATE_PRESETS)[number];
+
+export const SEARCH_SORTS = ["relevance", "date", "distance"] as const;
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+export const PRICE_TYPES: PriceType[] = ["free", "paid", "donation"];
+
+export const RADIUS_OPTIONS_KM = [2, 5, 10, 25] as const;
+const DEFAULT_RADIUS_KM = 5;
+
+export const MAX_QUERY_LENGTH = 100;
+
+export interface SearchFilters {
+  q: string;
+  type: SearchType;
+  tags: EventTag[];
+  priceTypes: PriceType[];
+  venueTypes: VenueType[];
+  date: DatePreset | null;
+  /** Custom range as Đà Lạt calendar days (YYYY-MM-DD), inclusive */
+  from: string | null;
+  to: string | null;
+  near: { lat: number; lng: number } | null;
+  radiusKm: number;
+  sort: SearchSort;
+  page: number;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  q: "",
+  type: "all",
+  tags: [],
+  priceTypes: [],
+  venueTypes: [],
+  date: null,
+  from: null,
+  to: null,
+  near: null,
+  radiusKm: DEFAULT_RADIUS_KM,
+  sort: "relevance",
+  page: 1,
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function oneOf<T extends string>(allowed: readonly T[], value: string | null): T | null {
+  return value && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+}
+
+function listOf<T extends string>(allowed: readonly T[], value: string | null): T[] {
+  if (!value) return [];
+  const picked = value.split(",").filter((v): v is T => (allowed as readonly string[]).includes(v));
+  return [...new Set(picked)];
+}
+
+// "2026-02-31" matches the pattern but would roll over to March
+function parseDay(value: string | null): string | null {
+  if (!value || !DAY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? value : null;
+}
+
+function parseNear(value: string | null): SearchFilters["near"] {
+  if (!value) return null;
+  const [lat, lng] = value.split(",").map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const radius = Number(params.get("radius"));
+  const page = parseInt(params.get("page") ?? "", 10);
+  const near = parseNear(params.get("near"));
+  const sort = oneOf(SEARCH_SORTS, params.get("sort")) ?? "relevance";
+
+  return {
+    q: (params.get("q") ?? "").trim().slice(0, MAX_QUERY_LENGTH),
+    type: oneOf(SEARCH_TYPES, params.get("type")) ?? "all",
+    tags: listOf(EVENT_TAGS, params.get("tag")),
+    priceTypes: listOf(PRICE_TYPES, params.get("price")),
+    venueTypes: listOf(VENUE_TYPES, params.get("venue")),
+    date: oneOf(DATE_PRESETS, params.get("date")),
+    from: parseDay(params.get("from")),
+    to: parseDay(params.get("to")),
+    near,
+    radiusKm: (RADIUS_OPTIONS_KM as readonly number[]).includes(radius) ? radius : DEFAULT_RADIUS_KM,
+    // Distance order without a point to measure from means nothing
+    sort: sort === "distance" && !near ? "relevance" : sort,
+    page: Number.isFinite(page) && page > 1 ? page : 1,
+  };
+}
+
+/** Inverse of parseSearchFilters; defaults are left out to keep URLs short. */
+export function toSearchParams(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.q) params.set("q", filters.q);
+  if (filters.type !== "all") params.set("type", filters.type);
+  if (filters.tags.length) params.set("tag", filters.tags.join(","));
+  if (filters.priceTypes.length) params.set("price", filters.priceTypes.join(","));
+  if (filters.venueTypes.length) params.set("venue", filters.venueTypes.join(","));
+  if (filters.date) params.set("date", filters.date);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.near) {
+    params.set("near", `${filters.near.lat.toFixed(4)},${filters.near.lng.toFixed(4)}`);
+    if (filters.radiusKm !== DEFAULT_RADIUS_KM) params.set("radius", String(filters.radiusKm));
+  }
+  if (filters.sort !== "relevance") params.set("sort", filters.sort);
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+}
+
+/** Whether anything narrows the results beyond the text query. */
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return (
+    filters.tags.length > 0 ||
+    filters.priceTypes.length > 0 ||
+    filters.venueTypes.length > 0 ||
+    filters.date !== null ||
+    filters.from !== null ||
+    filters.to !== null ||
+    filters.near !== null
+  );
+}
+
+/**
+ * Combine the raw query and its expansions into one websearch_to_tsquery
+ * string: any term may match, multi-word terms match as phrases.
+ */
+export function toWebsearchQuery(terms: string[]): string {
+  const seen = new Set<string>();
+  const parts: string[] = [];
+
+  for (const term of terms) {
+    // Quotes and a leading minus are websearch operators — strip them from input
+    const clean = term.replace(/["]/g, " ").replace(/(^|\s)-+/g, "$1").replace(/\s+/g, " ").trim();
+    const key = clean.toLowerCase();
+    if (!clean || key === "or" || seen.has(key)) continue;
+    seen.add(key);
+    parts.push(clean.includes(" ") ? `"${clean}"` : clean);
+  }
+
+  return parts.join(" OR ");
+}
+
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve the date filter to a UTC [from, to) window on Đà Lạt calendar
+ * days. A custom from/to range wins over a preset.
+ */
+export function getDateWindow(
+  filters: Pick<SearchFilters, "date" | "from" | "to">,
+  now: Date = new Date()
+): { from: string | null; to: string | null } {
+  const start = (day: string) => toUTCFromDaLat(day, "00:00");
+
+  if (filters.from || filters.to) {
+    return {
+      from: filters.from ? start(filters.from) : null,
+      to: filters.to ? start(addDays(filters.to, 1)) : null,
+    };
+  }
+
+  if (!filters.date) return { from: null, to: null };
+
+  const today = getDateTimeInDaLat(now.toISOString()).date;
+  // 0 = Sunday … 6 = Saturday
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const daysToMonday = weekday === 0 ? 1 : 8 - weekday;
+
+  switch (filters.date) {
+    case "today":
+      return { from: now.toISOString(), to: start(addDays(today, 1)) };
+    case "tomorrow":
+      return { from: start(addDays(today, 1)), to: start(addDays(today, 2)) };
+    case "weekend": {
+      // Already the weekend: what's left of it; otherwise the coming Sat–Sun
+      const saturday = weekday === 6 || weekday === 0 ? null : addDays(today, 6 - weekday);
+      return {
+        from: saturday ? start(saturday) : now.toISOString(),
+        to: start(addDays(today, daysToMonday)),
+      };
+    }
+    case "week":
+      return { from: now.toISOString(), to: start(addDays(today, daysToMonday)) };
+    case "month": {
+      const [year, month] = today.split("-").map(Number);
+      const nextMonth = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, "0")}-01`;
+      return { from: now.toISOString(), to: start(nextMonth) };
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import type { Event, OrganizerType, TribeAccessType } from "@/lib/types";
+import type { SearchFilters } from "./filters";
+
+/** Shapes returned by GET /api/search. */
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface EventFacets {
+  tags: FacetCount[];
+  price_type: FacetCount[];
+  venue_type: FacetCount[];
+}
+
+export interface SearchSection<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
+
+export type EventSearchResult = Event & { distance_km: number | null };
+
+export interface VenueSearchResult {
+  id: string;
+  slug: string;
+  name: string;
+  venue_type: string | null;
+  address: string | null;
+  logo_url: string | null;
+  cover_photo_url: string | null;
+  is_verified: boolean;
+  distance_km: number | null;
+}
+
+export interface OrganizerSearchResult {
+  id: string;
+  slug: string;
+  name: string;
+  logo_url: string | null;
+  organizer_type: OrganizerType;
+  is_verified: boolean;
+}
+
+export interface TribeSearchResult {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  cover_image_url: string | null;
+  access_type: TribeAccessType;
+}
+
+export interface MomentSearchResult {
+  id: string;
+  content_type: string;
+  thumbnail_url: string | null;
+  media_url: string | null;
+  event_slug: string;
+  event_title: string;
+  similarity: number;
+}
+
+export interface SearchResponse {
+  filters: SearchFilters;
+  /** Query plus LLM translations/synonyms actually searched */
+  expandedTerms?: string[];
+  events?: SearchSection<EventSearchResult> & { facets: EventFacets };
+  venues?: SearchSection<VenueSearchResult>;
+  organizers?: SearchSection<OrganizerSearchResult>;
+  tribes?: SearchSection<TribeSearchResult>;
+  moments?: SearchSection<MomentSearchResult>;
+  /** Some sections failed or ran without semantic matching */
+  degraded?: boolean;
+}
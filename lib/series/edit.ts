@@ -0,0 +1,505 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { format, parseISO } from "date-fns";
+import { getOccurrenceCount, isOccurrenceDate } from "@/lib/recurrence";
+import type { EventSeries, SeriesOccurrenceOverrides } from "@/lib/types";
+import { materializeSeriesOccurrences } from "./materialize";
+import {
+  TEMPLATE_FIELDS,
+  computeOverrides,
+  dayBefore,
+  describeChanges,
+  hasOverrides,
+  resolveOccurrence,
+  templateUpdateForInstance,
+  type InstanceSnapshot,
+  type OccurrenceBaseline,
+  type OccurrenceEditFields,
+  type SeriesChangeKind,
+} from "./overrides";
+
+/**
+ * Server side of the "this event / this and following / all" edit flow.
+ *
+ * Callers authorize first (creator or admin) and pass a service-role client:
+ * series_exceptions is creator-only under RLS and admins edit other people's
+ * series.
+ */
+
+export const SERIES_INSTANCE_COLUMNS =
+  "id, slug, series_instance_date, starts_at, ends_at, venue_id, location_name, address, google_maps_url, capacity, description, status, is_exception";
+
+export type SeriesInstanceRow = InstanceSnapshot & {
+  id: string;
+  slug: string;
+  series_instance_date: string;
+  status: string;
+  is_exception: boolean;
+};
+
+/** An occurrence whose attendees should hear about the edit */
+export interface ChangedOccurrence {
+  eventId: string;
+  eventSlug: string;
+  startsAt: string;
+  changes: SeriesChangeKind[];
+}
+
+export type SeriesEditResult =
+  | {
+      ok: true;
+      /** The series the edited occurrences belong to now (the new half after a split) */
+      series: Pick<EventSeries, "id" | "slug" | "title">;
+      changed: ChangedOccurrence[];
+      split: boolean;
+    }
+  | { ok: false; status: number; error: string };
+
+function snapshot(row: SeriesInstanceRow): InstanceSnapshot {
+  return {
+    starts_at: row.starts_at,
+    ends_at: row.ends_at,
+    venue_id: row.venue_id,
+    location_name: row.location_name,
+    address: row.address,
+    google_maps_url: row.google_maps_url,
+    capacity: row.capacity,
+    description: row.description,
+  };
+}
+
+/**
+ * The values an occurrence inherits. venue_id lives on instances, not the
+ * template, so it comes from the latest instance that follows the template
+ * (the same source materializeSeriesOccurrences carries forward).
+ */
+async function loadBaseline(
+  supabase: SupabaseClient,
+  series: EventSeries,
+  fallbackVenueId: string | null
+): Promise<OccurrenceBaseline> {
+  const { data: lastInstance } = await supabase
+    .from("events")
+    .select("venue_id")
+    .eq("series_id", series.id)
+    .eq("is_exception", false)
+    .order("starts_at", { ascending: false })
+    .limit(1);
+
+  return {
+    starts_at_time: series.starts_at_time,
+    duration_minutes: series.duration_minutes,
+    venue_id: lastInstance?.[0] ? lastInstance[0].venue_id ?? null : fallbackVenueId,
+    location_name: series.location_name || null,
+    address: series.address || null,
+    google_maps_url: series.google_maps_url || null,
+    capacity: series.capacity || null,
+    description: series.description || null,
+  };
+}
+
+async function loadOverrides(
+  supabase: SupabaseClient,
+  seriesId: string,
+  fromDate?: string
+): Promise<Map<string, SeriesOccurrenceOverrides | null>> {
+  let query = supabase
+    .from("series_exceptions")
+    .select("original_date, overrides")
+    .eq("series_id", seriesId)
+    .in("exception_type", ["modified", "rescheduled"]);
+  if (fromDate) query = query.gte("original_date", fromDate);
+
+  const { data } = await query;
+  return new Map(
+    (data ?? []).map((e) => [e.original_date as string, e.overrides as SeriesOccurrenceOverrides | null])
+  );
+}
+
+function templateUpdate(fields: OccurrenceEditFields): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    if (field in fields) update[field] = fields[field];
+  }
+  return update;
+}
+
+/**
+ * Push a template edit down to instances, leaving overridden fields alone.
+ * Instances hand-edited before overrides existed (is_exception with no
+ * exception row) are skipped entirely, as the series PATCH always has.
+ */
+async function applyTemplateToInstances(
+  supabase: SupabaseClient,
+  template: Pick<EventSeries, "starts_at_time" | "duration_minutes">,
+  instances: SeriesInstanceRow[],
+  fields: OccurrenceEditFields,
+  overridesByDate: Map<string, SeriesOccurrenceOverrides | null>,
+  extra: Record<string, unknown> = {}
+): Promise<ChangedOccurrence[]> {
+  const changed: ChangedOccurrence[] = [];
+
+  for (const instance of instances) {
+    const hasException = overridesByDate.has(instance.series_instance_date);
+    if (instance.is_exception && !hasException) {
+      if (Object.keys(extra).length > 0) {
+        await supabase.from("events").update(extra).eq("id", instance.id);
+      }
+      continue;
+    }
+
+    const update = {
+      ...templateUpdateForInstance(
+        fields,
+        {
+          series_instance_date: instance.series_instance_date,
+          starts_at_time: template.starts_at_time,
+          duration_minutes: template.duration_minutes,
+        },
+        overridesByDate.get(instance.series_instance_date) ?? null
+      ),
+      ...extra,
+    };
+    if (Object.keys(update).length === 0) continue;
+
+    const { error } = await supabase.from("events").update(update).eq("id", instance.id);
+    if (error) {
+      console.error(`[series-edit] Failed to update ${instance.slug}:`, error);
+      continue;
+    }
+
+    const before = snapshot(instance);
+    const changes = describeChanges(before, { ...before, ...(update as Partial<InstanceSnapshot>) });
+    if (changes.length > 0) {
+      changed.push({
+        eventId: instance.id,
+        eventSlug: instance.slug,
+        startsAt: (update.starts_at as string | undefined) ?? instance.starts_at,
+        changes,
+      });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * "This event": record the edit as field-level overrides on the occurrence's
+ * exception and apply them to its events row. Editing every field back to the
+ * template value drops the exception again.
+ */
+export async function editThisOccurrence(
+  supabase: SupabaseClient,
+  series: EventSeries,
+  instance: SeriesInstanceRow,
+  fields: OccurrenceEditFields,
+  userId: string
+): Promise<SeriesEditResult> {
+  const originalDate = instance.series_instance_date;
+
+  const { data: existing } = await supabase
+    .from("series_exceptions")
+    .select("exception_type, overrides")
+    .eq("series_id", series.id)
+    .eq("original_date", originalDate)
+    .maybeSingle();
+
+  if (existing?.exception_type === "cancelled") {
+    return { ok: false, status: 409, error: "This occurrence is cancelled" };
+  }
+
+  const baseline = await loadBaseline(supabase, series, instance.venue_id);
+  const overrides = computeOverrides(
+    baseline,
+    originalDate,
+    (existing?.overrides as SeriesOccurrenceOverrides | null) ?? null,
+    fields
+  );
+  const exceptionType = overrides.date ? "rescheduled" : "modified";
+
+  if (hasOverrides(overrides)) {
+    const { error } = await supabase.from("series_exceptions").upsert(
+      {
+        series_id: series.id,
+        original_date: originalDate,
+        exception_type: exceptionType,
+        overrides,
+        new_event_id: instance.id,
+        created_by: userId,
+      },
+      { onConflict: "series_id,original_date" }
+    );
+    if (error) {
+      return { ok: false, status: 500, error: "Failed to save occurrence: " + error.message };
+    }
+  } else if (existing) {
+    await supabase
+      .from("series_exceptions")
+      .delete()
+      .eq("series_id", series.id)
+      .eq("original_date", originalDate);
+  }
+
+  const after = resolveOccurrence(baseline, originalDate, overrides);
+  const { error: updateError } = await supabase
+    .from("events")
+    .update({
+      ...after,
+      // Clearing the last override rejoins the template
+      is_exception: hasOverrides(overrides) || (instance.is_exception && !existing),
+      exception_type: hasOverrides(overrides) ? exceptionType : null,
+    })
+    .eq("id", instance.id);
+
+  if (updateError) {
+    return { ok: false, status: 500, error: "Failed to update event: " + updateError.message };
+  }
+
+  const changes = describeChanges(snapshot(instance), after);
+  return {
+    ok: true,
+    series,
+    split: false,
+    changed: changes.length > 0
+      ? [{ eventId: instance.id, eventSlug: instance.slug, startsAt: after.starts_at, changes }]
+      : [],
+  };
+}
+
+/**
+ * "All events": update the template and every instance, past ones included,
+ * respecting per-occurrence overrides. Schedule changes need a date to split
+ * at, so they go through "this and following" instead.
+ */
+export async function editAllOccurrences(
+  supabase: SupabaseClient,
+  series: EventSeries,
+  fields: OccurrenceEditFields
+): Promise<SeriesEditResult> {
+  const seriesUpdate = templateUpdate(fields);
+  if (Object.keys(seriesUpdate).length > 0) {
+    const { error } = await supabase.from("event_series").update(seriesUpdate).eq("id", series.id);
+    if (error) {
+      return { ok: false, status: 500, error: "Failed to update series: " + error.message };
+    }
+  }
+
+  const { data: instances } = await supabase
+    .from("events")
+    .select(SERIES_INSTANCE_COLUMNS)
+    .eq("series_id", series.id)
+    .neq("status", "cancelled");
+
+  const changed = await applyTemplateToInstances(
+    supabase,
+    series,
+    (instances ?? []) as SeriesInstanceRow[],
+    fields,
+    await loadOverrides(supabase, series.id)
+  );
+
+  return { ok: true, series, split: false, changed };
+}
+
+/**
+ * "This and following": update the template and every instance from
+ * `fromDate` on. A new RRULE splits the series — the original ends the day
+ * before and a new series (split_from_series_id) carries the rest, keeping
+ * subscribers, matching instances with their RSVPs, and overrides. Instances
+ * the new rule no longer produces are cancelled.
+ */
+export async function editFutureOccurrences(
+  supabase: SupabaseClient,
+  series: EventSeries,
+  fromDate: string,
+  fields: OccurrenceEditFields,
+  rrule?: string
+): Promise<SeriesEditResult> {
+  const { data: instanceData } = await supabase
+    .from("events")
+    .select(SERIES_INSTANCE_COLUMNS)
+    .eq("series_id", series.id)
+    .neq("status", "cancelled")
+    .gte("series_instance_date", fromDate);
+  const instances = (instanceData ?? []) as SeriesInstanceRow[];
+
+  if (!rrule || rrule === series.rrule) {
+    const seriesUpdate = templateUpdate(fields);
+    if (Object.keys(seriesUpdate).length > 0) {
+      const { error } = await supabase.from("event_series").update(seriesUpdate).eq("id", series.id);
+      if (error) {
+        return { ok: false, status: 500, error: "Failed to update series: " + error.message };
+      }
+    }
+    const changed = await applyTemplateToInstances(
+      supabase,
+      series,
+      instances,
+      fields,
+      await loadOverrides(supabase, series.id, fromDate)
+    );
+    return { ok: true, series, split: false, changed };
+  }
+
+  // From the first occurrence there's nothing to keep: change the rule in place
+  const splitting = fromDate > series.first_occurrence;
+  let target: EventSeries;
+
+  if (splitting) {
+    const created = await createSplitSeries(supabase, series, fromDate, rrule, templateUpdate(fields));
+    if (!created) {
+      return { ok: false, status: 500, error: "Failed to split series" };
+    }
+    target = created;
+
+    await supabase
+      .from("event_series")
+      .update({
+        rrule_until: dayBefore(fromDate),
+        exdates: (series.exdates ?? []).filter((d) => d < fromDate),
+        rdates: (series.rdates ?? []).filter((d) => d < fromDate),
+      })
+      .eq("id", series.id);
+
+    // Overrides and cancellations follow their occurrences
+    await supabase
+      .from("series_exceptions")
+      .update({ series_id: target.id })
+      .eq("series_id", series.id)
+      .gte("original_date", fromDate);
+
+    // Subscribers keep getting the series, now under its new id
+    const { data: subscribers } = await supabase
+      .from("series_rsvps")
+      .select("user_id, auto_rsvp")
+      .eq("series_id", series.id);
+    if (subscribers?.length) {
+      await supabase.from("series_rsvps").upsert(
+        subscribers.map((s) => ({ series_id: target.id, user_id: s.user_id, auto_rsvp: s.auto_rsvp })),
+        { onConflict: "series_id,user_id" }
+      );
+    }
+  } else {
+    const { data: updated, error } = await supabase
+      .from("event_series")
+      .update({ ...templateUpdate(fields), rrule })
+      .eq("id", series.id)
+      .select("*")
+      .single();
+    if (error || !updated) {
+      return { ok: false, status: 500, error: "Failed to update series: " + (error?.message ?? "") };
+    }
+    target = updated as EventSeries;
+  }
+
+  // Instances the new rule still produces stay (re-parented on a split)
+  const kept: SeriesInstanceRow[] = [];
+  const dropped: SeriesInstanceRow[] = [];
+  for (const instance of instances) {
+    const date = parseISO(instance.series_instance_date);
+    const matches =
+      (target.rdates ?? []).includes(instance.series_instance_date) ||
+      isOccurrenceDate(
+        date,
+        target.rrule,
+        parseISO(target.first_occurrence),
+        target.rrule_until ? new Date(target.rrule_until) : null,
+        target.rrule_count
+      );
+    (matches ? kept : dropped).push(instance);
+  }
+
+  const changed = await applyTemplateToInstances(
+    supabase,
+    series,
+    kept,
+    fields,
+    await loadOverrides(supabase, target.id, fromDate),
+    splitting ? { series_id: target.id } : {}
+  );
+
+  if (dropped.length > 0) {
+    await supabase
+      .from("events")
+      .update({ status: "cancelled" })
+      .in("id", dropped.map((i) => i.id));
+    for (const instance of dropped) {
+      changed.push({
+        eventId: instance.id,
+        eventSlug: instance.slug,
+        startsAt: instance.starts_at,
+        changes: ["cancelled"],
+      });
+    }
+  }
+
+  // Fill in dates the new rule adds
+  await materializeSeriesOccurrences(supabase, { ...target, instances_generated_until: null });
+
+  return { ok: true, series: target, split: splitting, changed };
+}
+
+/**
+ * Insert the second half of a split: the template (with this edit applied)
+ * starting on `fromDate` under the new rule. A COUNT on the original carries
+ * over as whatever it had left.
+ */
+async function createSplitSeries(
+  supabase: SupabaseClient,
+  series: EventSeries,
+  fromDate: string,
+  rrule: string,
+  edits: Record<string, unknown>
+): Promise<EventSeries | null> {
+  const slug = await availableSlug(supabase, `${series.slug}-${format(parseISO(fromDate), "yyyyMMdd")}`);
+
+  let rruleCount = series.rrule_count;
+  if (rruleCount) {
+    const used = getOccurrenceCount(series.rrule, parseISO(series.first_occurrence), parseISO(fromDate));
+    rruleCount = Math.max(rruleCount - used, 1);
+  }
+
+  const {
+    id: _id,
+    created_at: _createdAt,
+    updated_at: _updatedAt,
+    profiles: _profiles,
+    organizers: _organizers,
+    tribes: _tribes,
+    ...template
+  } = series;
+
+  const { data, error } = await supabase
+    .from("event_series")
+    .insert({
+      ...template,
+      ...edits,
+      slug,
+      rrule,
+      first_occurrence: fromDate,
+      rrule_count: rruleCount,
+      exdates: (series.exdates ?? []).filter((d) => d >= fromDate),
+      rdates: (series.rdates ?? []).filter((d) => d >= fromDate),
+      instances_generated_until: null,
+      split_from_series_id: series.id,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error(`[series-edit] Failed to split ${series.slug}:`, error);
+    return null;
+  }
+  return data as EventSeries;
+}
+
+async function availableSlug(supabase: SupabaseClient, base: string): Promise<string> {
+  const { data } = await supabase
+    .from("event_series")
+    .select("slug")
+    .like("slug", `${base}%`);
+  const taken = new Set((data ?? []).map((s) => s.slug as string));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
@@ -1,8 +1,8 @@
 import { SupabaseClient } from "@supabase/supabase-js";
 import { addMonths, format } from "date-fns";
-import { fromZonedTime } from "date-fns-tz";
 import { generateSeriesInstances } from "@/lib/recurrence";
-import type { EventSeries } from "@/lib/types";
+import type { EventSeries, SeriesOccurrenceOverrides } from "@/lib/types";
+import { resolveOccurrence, type OccurrenceBaseline } from "./overrides";
 
 const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
 
@@ -15,6 +15,11 @@ const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
  * time passes and the "recurring events floor" empties. Idempotent: generates
  * only past the watermark and skips dates that already have an instance.
  *
+ * Dates are skipped when the series lists them in `exdates` (EXDATE) or a
+ * cancelled series_exceptions row exists for them (its instance may have been
+ * deleted); `rdates` (RDATE) add one-off instances. Modified and rescheduled
+ * exceptions have their field overrides (lib/series/overrides.ts) applied.
+ *
  * The event field mapping mirrors app/api/series/route.ts — keep them in sync.
  */
 export async function materializeSeriesOccurrences(
@@ -42,11 +47,19 @@ export async function materializeSeriesOccurrences(
     .map((e) => e.series_instance_date as string)
     .filter(Boolean);
 
+  const { data: cancelled } = await supabase
+    .from("series_exceptions")
+    .select("original_date")
+    .eq("series_id", series.id)
+    .eq("exception_type", "cancelled")
+    .gte("original_date", format(generateFrom, "yyyy-MM-dd"));
+  const cancelledDates = (cancelled ?? []).map((e) => e.original_date as string);
+
   const occurrenceDates = generateSeriesInstances(
     series,
     generateFrom,
     generateUntil,
-    existingDates
+    [...existingDates, ...cancelledDates]
   );
 
   if (occurrenceDates.length === 0) {
@@ -68,27 +81,47 @@ export async function materializeSeriesOccurrences(
     .limit(1);
   const venueId = lastInstance?.[0]?.venue_id ?? null;
 
+  // Overrides recorded against dates that have no instance yet
+  const { data: modified } = await supabase
+    .from("series_exceptions")
+    .select("original_date, exception_type, overrides")
+    .eq("series_id", series.id)
+    .in("exception_type", ["modified", "rescheduled"])
+    .gte("original_date", format(generateFrom, "yyyy-MM-dd"));
+  const overridesByDate = new Map<string, { type: string; overrides: SeriesOccurrenceOverrides | null }>(
+    (modified ?? []).map((e) => [
+      e.original_date as string,
+      { type: e.exception_type as string, overrides: e.overrides as SeriesOccurrenceOverrides | null },
+    ])
+  );
+
+  const baseline: OccurrenceBaseline = {
+    starts_at_time: series.starts_at_time,
+    duration_minutes: series.duration_minutes,
+    venue_id: venueId,
+    location_name: series.location_name || null,
+    address: series.address || null,
+    google_maps_url: series.google_maps_url || null,
+    capacity: series.capacity || null,
+    description: series.description || null,
+  };
+
   const eventInserts = occurrenceDates.map((date) => {
     const dateStr = format(date, "yyyy-MM-dd");
     const instanceSlug = `${series.slug}-${format(date, "yyyyMMdd")}`;
-
-    // Combine date and time in Đà Lạt timezone, then convert to UTC
-    const localDateTime = `${dateStr}T${series.starts_at_time}`;
-    const startsAt = fromZonedTime(localDateTime, DALAT_TIMEZONE);
-    const endsAt = new Date(
-      startsAt.getTime() + series.duration_minutes * 60 * 1000
-    );
+    const exception = overridesByDate.get(dateStr);
+    const occurrence = resolveOccurrence(baseline, dateStr, exception?.overrides ?? null);
 
     return {
       slug: instanceSlug,
       series_id: series.id,
       series_instance_date: dateStr,
       title: series.title,
-      description: series.description || null,
+      description: occurrence.description,
       image_url: series.image_url || null,
-      location_name: series.location_name || null,
-      address: series.address || null,
-      google_maps_url: series.google_maps_url || null,
+      location_name: occurrence.location_name,
+      address: occurrence.address,
+      google_maps_url: occurrence.google_maps_url,
       latitude: series.latitude ?? null,
       longitude: series.longitude ?? null,
       external_chat_url: series.external_chat_url || null,
@@ -98,17 +131,18 @@ export async function materializeSeriesOccurrences(
       image_fit: series.image_fit || "cover",
       focal_point: series.focal_point || null,
       timezone: DALAT_TIMEZONE,
-      capacity: series.capacity || null,
+      capacity: occurrence.capacity,
       price_type: series.price_type || null,
       ticket_tiers: series.ticket_tiers || null,
       tribe_id: series.tribe_id || null,
       organizer_id: series.organizer_id || null,
-      venue_id: venueId,
+      venue_id: occurrence.venue_id,
       created_by: series.created_by,
-      starts_at: startsAt.toISOString(),
-      ends_at: endsAt.toISOString(),
+      starts_at: occurrence.starts_at,
+      ends_at: occurrence.ends_at,
       status: "published" as const,
-      is_exception: false,
+      is_exception: !!exception,
+      exception_type: exception?.type ?? null,
     };
   });
 
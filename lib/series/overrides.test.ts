@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeOverrides,
+  describeChanges,
+  parseOccurrenceFields,
+  resolveOccurrence,
+  templateUpdateForInstance,
+  type OccurrenceBaseline,
+} from "./overrides";
+
+const VENUE = "0b6c3c2e-5a7d-4f1e-9c3b-2d1e0f9a8b7c";
+
+const baseline: OccurrenceBaseline = {
+  starts_at_time: "19:00:00",
+  duration_minutes: 120,
+  venue_id: VENUE,
+  location_name: "Maze Bar",
+  address: null,
+  google_maps_url: null,
+  capacity: 30,
+  description: "Weekly jam",
+};
+
+describe("parseOccurrenceFields", () => {
+  it("normalizes valid fields and drops unknown keys", () => {
+    const result = parseOccurrenceFields({
+      starts_at_time: "20:30",
+      capacity: null,
+      description: "  ",
+      status: "cancelled",
+    });
+    expect(result).toEqual({
+      ok: true,
+      fields: { starts_at_time: "20:30", capacity: null, description: null },
+    });
+  });
+
+  it("rejects invalid values instead of ignoring them", () => {
+    expect(parseOccurrenceFields({ starts_at_time: "25:00" }).ok).toBe(false);
+    expect(parseOccurrenceFields({ capacity: 0 }).ok).toBe(false);
+    expect(parseOccurrenceFields({ venue_id: "not-a-uuid" }).ok).toBe(false);
+    expect(parseOccurrenceFields({ date: "20/10/2026" }).ok).toBe(false);
+    expect(parseOccurrenceFields(null).ok).toBe(false);
+  });
+});
+
+describe("computeOverrides", () => {
+  it("keeps only fields that differ from the template", () => {
+    const overrides = computeOverrides(baseline, "2026-10-22", null, {
+      starts_at_time: "19:00",
+      capacity: 40,
+      description: "Weekly jam",
+      date: "2026-10-22",
+    });
+    expect(overrides).toEqual({ capacity: 40 });
+  });
+
+  it("merges with existing overrides and drops ones edited back", () => {
+    const overrides = computeOverrides(
+      baseline,
+      "2026-10-22",
+      { capacity: 40, starts_at_time: "20:00" },
+      { starts_at_time: "19:00", venue_id: null, date: "2026-10-23" }
+    );
+    expect(overrides).toEqual({ capacity: 40, venue_id: null, date: "2026-10-23" });
+  });
+});
+
+describe("resolveOccurrence", () => {
+  it("applies overrides on top of the template in Đà Lạt time", () => {
+    const occurrence = resolveOccurrence(baseline, "2026-10-22", {
+      date: "2026-10-23",
+      starts_at_time: "20:00",
+      capacity: null,
+    });
+    expect(occurrence).toMatchObject({
+      starts_at: "2026-10-23T13:00:00.000Z",
+      ends_at: "2026-10-23T15:00:00.000Z",
+      venue_id: VENUE,
+      capacity: null,
+      description: "Weekly jam",
+    });
+  });
+});
+
+describe("templateUpdateForInstance", () => {
+  const instance = { series_instance_date: "2026-10-22", starts_at_time: "19:00", duration_minutes: 120 };
+
+  it("leaves overridden fields alone", () => {
+    const update = templateUpdateForInstance(
+      { title: "Jazz Night", capacity: 50, description: "New blurb" },
+      instance,
+      { capacity: 40 }
+    );
+    expect(update).toEqual({ title: "Jazz Night", description: "New blurb" });
+  });
+
+  it("recomputes times with the instance's own overrides", () => {
+    const update = templateUpdateForInstance({ duration_minutes: 90 }, instance, { starts_at_time: "18:00" });
+    expect(update).toEqual({
+      starts_at: "2026-10-22T11:00:00.000Z",
+      ends_at: "2026-10-22T12:30:00.000Z",
+    });
+    // An overridden time isn't moved by a template time change
+    expect(templateUpdateForInstance({ starts_at_time: "21:00" }, instance, { starts_at_time: "18:00" })).toEqual({});
+  });
+});
+
+describe("describeChanges", () => {
+  it("reports what attendees need to know", () => {
+    const before = resolveOccurrence(baseline, "2026-10-22", null);
+    const after = resolveOccurrence(baseline, "2026-10-22", { starts_at_time: "20:00", venue_id: null });
+    expect(describeChanges(before, after)).toEqual(["time", "venue"]);
+    expect(describeChanges(before, before)).toEqual([]);
+  });
+});
@@ -0,0 +1,280 @@
+import { addDays, format, parseISO } from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
+import type { EventSeries, SeriesOccurrenceOverrides } from "@/lib/types";
+
+const DALAT_TIMEZONE = "Asia/Ho_Chi_Minh";
+
+/**
+ * Per-occurrence overrides for recurring series.
+ *
+ * A series instance is the template (event_series) plus whatever its
+ * series_exceptions row overrides. Only these fields can differ per
+ * occurrence; everything else (title, cover, pricing) is series-wide.
+ */
+export const OVERRIDE_FIELDS = [
+  "starts_at_time",
+  "duration_minutes",
+  "venue_id",
+  "location_name",
+  "address",
+  "google_maps_url",
+  "capacity",
+  "description",
+] as const;
+
+export type OverrideField = (typeof OVERRIDE_FIELDS)[number];
+
+/** Fields a "this and following" / "all" edit may change on the template */
+export const TEMPLATE_FIELDS = [
+  "title",
+  "description",
+  "image_url",
+  "location_name",
+  "address",
+  "google_maps_url",
+  "external_chat_url",
+  "capacity",
+  "starts_at_time",
+  "duration_minutes",
+] as const;
+
+/** Series-wide fields written to instances as-is (never overridden) */
+const SHARED_INSTANCE_FIELDS = ["title", "image_url", "external_chat_url"] as const;
+
+/** Everything the edit flow accepts: template fields plus the instance's venue and date */
+export type OccurrenceEditFields = Partial<
+  Pick<EventSeries, (typeof TEMPLATE_FIELDS)[number]> & {
+    venue_id: string | null;
+    date: string;
+  }
+>;
+
+/** What changed, for the notification sent to series subscribers */
+export type SeriesChangeKind = "time" | "venue" | "capacity" | "description" | "schedule" | "cancelled";
+
+/** The override-able baseline for a series: its template plus the venue instances inherit */
+export type OccurrenceBaseline = Pick<
+  EventSeries,
+  "starts_at_time" | "duration_minutes" | "location_name" | "address" | "google_maps_url" | "capacity" | "description"
+> & { venue_id: string | null };
+
+/** The parts of an events row a schedule edit can change */
+export interface InstanceSnapshot {
+  starts_at: string;
+  ends_at: string | null;
+  venue_id: string | null;
+  location_name: string | null;
+  address: string | null;
+  google_maps_url: string | null;
+  capacity: number | null;
+  description: string | null;
+}
+
+type ParseResult = { ok: true; fields: OccurrenceEditFields } | { ok: false; error: string };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_TEXT_LENGTH = 10000;
+
+function optionalText(value: unknown): string | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== "string" || value.length > MAX_TEXT_LENGTH) return undefined;
+  return value.trim() || null;
+}
+
+/**
+ * Validate the fields of an occurrence edit request body. Unknown keys are
+ * dropped; a present-but-invalid value is an error rather than ignored.
+ */
+export function parseOccurrenceFields(input: unknown): ParseResult {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, error: "fields must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const fields: OccurrenceEditFields = {};
+
+  if ("title" in raw) {
+    const title = optionalText(raw.title);
+    if (!title) return { ok: false, error: "Invalid title" };
+    fields.title = title;
+  }
+
+  for (const key of ["description", "image_url", "location_name", "address", "google_maps_url", "external_chat_url"] as const) {
+    if (!(key in raw)) continue;
+    const value = optionalText(raw[key]);
+    if (value === undefined) return { ok: false, error: `Invalid ${key}` };
+    fields[key] = value;
+  }
+
+  if ("starts_at_time" in raw) {
+    if (typeof raw.starts_at_time !== "string" || !TIME_PATTERN.test(raw.starts_at_time)) {
+      return { ok: false, error: "Invalid starts_at_time" };
+    }
+    fields.starts_at_time = raw.starts_at_time.slice(0, 5);
+  }
+
+  if ("duration_minutes" in raw) {
+    const minutes = raw.duration_minutes;
+    if (typeof minutes !== "number" || !Number.isInteger(minutes) || minutes < 1 || minutes > 24 * 60) {
+      return { ok: false, error: "Invalid duration_minutes" };
+    }
+    fields.duration_minutes = minutes;
+  }
+
+  if ("capacity" in raw) {
+    const capacity = raw.capacity;
+    if (capacity !== null && (typeof capacity !== "number" || !Number.isInteger(capacity) || capacity < 1)) {
+      return { ok: false, error: "Invalid capacity" };
+    }
+    fields.capacity = capacity;
+  }
+
+  if ("venue_id" in raw) {
+    if (raw.venue_id !== null && (typeof raw.venue_id !== "string" || !UUID_PATTERN.test(raw.venue_id))) {
+      return { ok: false, error: "Invalid venue_id" };
+    }
+    fields.venue_id = raw.venue_id;
+  }
+
+  if ("date" in raw) {
+    if (typeof raw.date !== "string" || !DATE_PATTERN.test(raw.date)) {
+      return { ok: false, error: "Invalid date" };
+    }
+    fields.date = raw.date;
+  }
+
+  return { ok: true, fields };
+}
+
+function sameValue(field: OverrideField, a: unknown, b: unknown): boolean {
+  if (field === "starts_at_time") {
+    return String(a ?? "").slice(0, 5) === String(b ?? "").slice(0, 5);
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Merge an edit into an occurrence's existing overrides, keeping only the
+ * fields that still differ from the baseline — editing a field back to the
+ * template value removes its override. A date is kept only when it differs
+ * from the occurrence's original date.
+ */
+export function computeOverrides(
+  baseline: OccurrenceBaseline,
+  originalDate: string,
+  existing: SeriesOccurrenceOverrides | null,
+  edits: OccurrenceEditFields
+): SeriesOccurrenceOverrides {
+  const merged: Record<string, unknown> = { ...(existing ?? {}) };
+  for (const field of OVERRIDE_FIELDS) {
+    if (field in edits) merged[field] = edits[field as keyof OccurrenceEditFields];
+  }
+  if (edits.date) merged.date = edits.date;
+
+  const overrides: Record<string, unknown> = {};
+  for (const field of OVERRIDE_FIELDS) {
+    if (field in merged && !sameValue(field, merged[field], baseline[field])) {
+      overrides[field] = field === "starts_at_time" ? String(merged[field]).slice(0, 5) : merged[field];
+    }
+  }
+  if (typeof merged.date === "string" && merged.date !== originalDate) {
+    overrides.date = merged.date;
+  }
+  return overrides as SeriesOccurrenceOverrides;
+}
+
+export function hasOverrides(overrides: SeriesOccurrenceOverrides | null | undefined): boolean {
+  return !!overrides && Object.keys(overrides).length > 0;
+}
+
+/** Start/end of an occurrence on `date` at `time` (Đà Lạt wall clock) */
+export function occurrenceTimes(date: string, time: string, durationMinutes: number) {
+  const startsAt = fromZonedTime(`${date}T${time.slice(0, 5)}:00`, DALAT_TIMEZONE);
+  const endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+  return { starts_at: startsAt.toISOString(), ends_at: endsAt.toISOString() };
+}
+
+/**
+ * The events-row fields for an occurrence: template values with its
+ * overrides applied. Used for materialized inserts and after edits.
+ */
+export function resolveOccurrence(
+  baseline: OccurrenceBaseline,
+  originalDate: string,
+  overrides: SeriesOccurrenceOverrides | null
+): InstanceSnapshot {
+  const o = overrides ?? {};
+  const pick = <K extends OverrideField>(field: K): OccurrenceBaseline[K] =>
+    (field in o ? o[field as keyof SeriesOccurrenceOverrides] : baseline[field]) as OccurrenceBaseline[K];
+
+  return {
+    ...occurrenceTimes(o.date ?? originalDate, pick("starts_at_time"), pick("duration_minutes")),
+    venue_id: pick("venue_id"),
+    location_name: pick("location_name"),
+    address: pick("address"),
+    google_maps_url: pick("google_maps_url"),
+    capacity: pick("capacity"),
+    description: pick("description"),
+  };
+}
+
+/**
+ * Fields to write to one instance when the template changes: every edited
+ * field the instance hasn't overridden, with start/end recomputed if the time
+ * or duration moved.
+ */
+export function templateUpdateForInstance(
+  edits: OccurrenceEditFields,
+  instance: { series_instance_date: string; starts_at_time: string; duration_minutes: number },
+  overrides: SeriesOccurrenceOverrides | null
+): Record<string, unknown> {
+  const o = overrides ?? {};
+  const update: Record<string, unknown> = {};
+
+  for (const field of SHARED_INSTANCE_FIELDS) {
+    if (field in edits) update[field] = edits[field];
+  }
+  for (const field of ["venue_id", "location_name", "address", "google_maps_url", "capacity", "description"] as const) {
+    if (field in edits && !(field in o)) update[field] = edits[field];
+  }
+
+  const timeEdited = "starts_at_time" in edits && !("starts_at_time" in o);
+  const durationEdited = "duration_minutes" in edits && !("duration_minutes" in o);
+  if (timeEdited || durationEdited) {
+    Object.assign(
+      update,
+      occurrenceTimes(
+        o.date ?? instance.series_instance_date,
+        o.starts_at_time ?? (timeEdited ? edits.starts_at_time! : instance.starts_at_time),
+        o.duration_minutes ?? (durationEdited ? edits.duration_minutes! : instance.duration_minutes)
+      )
+    );
+  }
+
+  return update;
+}
+
+/** What a subscriber should hear about, comparing an instance before and after */
+export function describeChanges(before: InstanceSnapshot, after: InstanceSnapshot): SeriesChangeKind[] {
+  const changes: SeriesChangeKind[] = [];
+  if (before.starts_at !== after.starts_at || (before.ends_at ?? null) !== (after.ends_at ?? null)) {
+    changes.push("time");
+  }
+  if (
+    before.venue_id !== after.venue_id ||
+    before.location_name !== after.location_name ||
+    before.address !== after.address ||
+    before.google_maps_url !== after.google_maps_url
+  ) {
+    changes.push("venue");
+  }
+  if (before.capacity !== after.capacity) changes.push("capacity");
+  if (before.description !== after.description) changes.push("description");
+  return changes;
+}
+
+/** The local date before `date` (YYYY-MM-DD) — where the first half of a split ends */
+export function dayBefore(date: string): string {
+  return format(addDays(parseISO(date), -1), "yyyy-MM-dd");
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_BLOCKED_TERM_LENGTH,
+  chatErrorStatus,
+  findBlockedTerm,
+  formatChatDuration,
+  parseBlockedWords,
+  parseChatError,
+  splitBlockedTerms,
+} from './moderation';
+
+describe('parseBlockedWords', () => {
+  it('normalises, de-duplicates and drops empty lists', () => {
+    const result = parseBlockedWords({ en: [' Spam ', 'spam', ''], vi: [] });
+    expect(result).toEqual({ ok: true, value: { en: ['spam'] } });
+  });
+
+  it('rejects unknown locales and non-string terms', () => {
+    expect(parseBlockedWords({ xx: ['a'] }).ok).toBe(false);
+    expect(parseBlockedWords({ en: [1] }).ok).toBe(false);
+    expect(parseBlockedWords(['spam']).ok).toBe(false);
+  });
+
+  it('rejects overlong terms', () => {
+    const result = parseBlockedWords({ en: ['x'.repeat(MAX_BLOCKED_TERM_LENGTH + 1)] });
+    expect(result).toEqual({ ok: false, error: 'blocked_word_too_long' });
+  });
+});
+
+describe('splitBlockedTerms', () => {
+  it('splits on newlines and commas, including CJK ones', () => {
+    expect(splitBlockedTerms('spam, scam\n广告，骗子')).toEqual(['spam', 'scam', '广告', '骗子']);
+  });
+});
+
+describe('findBlockedTerm', () => {
+  const blocked = { en: ['ass', 'free money'], vi: ['lừa đảo'], zh: ['广告'] };
+
+  it('matches whole words in spaced scripts', () => {
+    expect(findBlockedTerm('what an ASS!', blocked)).toBe('ass');
+    expect(findBlockedTerm('join the class', blocked)).toBeNull();
+    expect(findBlockedTerm('get FREE money now', blocked)).toBe('free money');
+  });
+
+  it('matches Vietnamese with diacritics as words', () => {
+    expect(findBlockedTerm('đây là Lừa Đảo', blocked)).toBe('lừa đảo');
+  });
+
+  it('matches unspaced scripts as substrings', () => {
+    expect(findBlockedTerm('看广告吧', blocked)).toBe('广告');
+  });
+
+  it('passes everything without a list', () => {
+    expect(findBlockedTerm('anything', undefined)).toBeNull();
+  });
+});
+
+describe('parseChatError', () => {
+  it('reads codes and retry delays', () => {
+    expect(parseChatError('slow_mode:12')).toEqual({ code: 'slow_mode', retryAfter: 12 });
+    expect(parseChatError('chat_banned')).toEqual({ code: 'chat_banned' });
+    expect(parseChatError('duplicate key value')).toEqual({ code: 'unknown' });
+  });
+
+  it('maps codes to HTTP statuses', () => {
+    expect(chatErrorStatus('slow_mode')).toBe(429);
+    expect(chatErrorStatus('chat_banned')).toBe(403);
+    expect(chatErrorStatus('blocked_word')).toBe(400);
+    expect(chatErrorStatus('unknown')).toBe(500);
+  });
+});
+
+describe('formatChatDuration', () => {
+  it('uses the largest whole unit', () => {
+    expect(formatChatDuration(45)).toBe('45s');
+    expect(formatChatDuration(600)).toBe('10m');
+    expect(formatChatDuration(3600)).toBe('1h');
+    expect(formatChatDuration(90)).toBe('90s');
+  });
+});
@@ -0,0 +1,159 @@
+import { CONTENT_LOCALES, type ContentLocale, type StreamChatBlockedWords } from '@/lib/types';
+
+/** Slow mode intervals offered to moderators; 0 = off. The RPC accepts 0–300. */
+export const CHAT_SLOW_MODE_OPTIONS = [0, 5, 10, 30, 60, 120, 300];
+/** Timeout lengths offered in the message menu. The RPC accepts 10s–24h. */
+export const CHAT_TIMEOUT_OPTIONS = [60, 600, 3600];
+
+export const MAX_BLOCKED_TERM_LENGTH = 50;
+export const MAX_BLOCKED_TERMS = 500;
+
+/** Compact duration for timeouts and slow mode: 45s, 10m, 1h. */
+export function formatChatDuration(seconds: number): string {
+  if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds >= 60 && seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// Latin (incl. Vietnamese) and Cyrillic put spaces between words
+const SPACED_SCRIPT = /^[ -ɏḀ-ỿЀ-ӿ]+$/;
+
+function normalizeTerm(term: string): string {
+  return term.normalize('NFC').trim().toLowerCase();
+}
+
+/**
+ * Validate and normalise a blocked-word map from a request body: known
+ * locales only, string terms, lowercased and de-duplicated, empty lists
+ * dropped. Same limits as update_stream_chat_settings().
+ */
+export function parseBlockedWords(input: unknown): ParseResult<StreamChatBlockedWords> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'blocked_words_invalid' };
+  }
+
+  const value: StreamChatBlockedWords = {};
+  let total = 0;
+
+  for (const [locale, terms] of Object.entries(input)) {
+    if (!CONTENT_LOCALES.includes(locale as ContentLocale) || !Array.isArray(terms)) {
+      return { ok: false, error: 'blocked_words_invalid' };
+    }
+
+    const cleaned = new Set<string>();
+    for (const term of terms) {
+      if (typeof term !== 'string') return { ok: false, error: 'blocked_words_invalid' };
+      const normalized = normalizeTerm(term);
+      if (!normalized) continue;
+      if (normalized.length > MAX_BLOCKED_TERM_LENGTH) {
+        return { ok: false, error: 'blocked_word_too_long' };
+      }
+      cleaned.add(normalized);
+    }
+
+    if (cleaned.size > 0) {
+      value[locale as ContentLocale] = [...cleaned];
+      total += cleaned.size;
+    }
+  }
+
+  if (total > MAX_BLOCKED_TERMS) return { ok: false, error: 'too_many_blocked_words' };
+  return { ok: true, value };
+}
+
+/** One term per line or comma, as typed into the settings form. */
+export function splitBlockedTerms(text: string): string[] {
+  return text
+    .split(/[\n,，、]/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+}
+
+/**
+ * First blocked term in `content`, or null. Client-side mirror of
+ * stream_chat_blocked_term() so the input can warn before sending; the RPC
+ * is what actually enforces it.
+ */
+export function findBlockedTerm(content: string, blocked: StreamChatBlockedWords | undefined): string | null {
+  if (!blocked) return null;
+  const text = content.normalize('NFC').toLowerCase();
+
+  for (const terms of Object.values(blocked)) {
+    for (const raw of terms ?? []) {
+      const term = normalizeTerm(raw);
+      if (!term) continue;
+
+      if (SPACED_SCRIPT.test(term)) {
+        const escaped = term.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+        if (new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text)) {
+          return term;
+        }
+      } else if (text.includes(term)) {
+        return term;
+      }
+    }
+  }
+
+  return null;
+}
+
+export type ChatErrorCode =
+  | 'not_authenticated'
+  | 'empty_message'
+  | 'message_too_long'
+  | 'event_not_found'
+  | 'chat_banned'
+  | 'chat_timed_out'
+  | 'followers_only'
+  | 'slow_mode'
+  | 'blocked_word'
+  | 'not_authorized'
+  | 'message_not_found'
+  | 'cannot_moderate_moderator'
+  | 'user_not_found'
+  | 'invalid_duration'
+  | 'invalid_slow_mode'
+  | 'invalid_blocked_words'
+  | 'invalid_action'
+  | 'unknown';
+
+const KNOWN_CODES: ChatErrorCode[] = [
+  'not_authenticated', 'empty_message', 'message_too_long', 'event_not_found',
+  'chat_banned', 'chat_timed_out', 'followers_only', 'slow_mode', 'blocked_word',
+  'not_authorized', 'message_not_found', 'cannot_moderate_moderator', 'user_not_found',
+  'invalid_duration', 'invalid_slow_mode', 'invalid_blocked_words', 'invalid_action',
+];
+
+export interface ChatError {
+  code: ChatErrorCode;
+  /** Seconds until the user may send again (slow mode, timeouts) */
+  retryAfter?: number;
+}
+
+/** Read the `code` or `code:seconds` the chat RPCs raise. */
+export function parseChatError(message: string | undefined | null): ChatError {
+  const match = /\b([a-z_]+)(?::(\d+))?/.exec(message ?? '');
+  const code = KNOWN_CODES.find((c) => c === match?.[1]);
+  if (!code) return { code: 'unknown' };
+  return match?.[2] ? { code, retryAfter: Number(match[2]) } : { code };
+}
+
+const ERROR_STATUS: Partial<Record<ChatErrorCode, number>> = {
+  not_authenticated: 401,
+  not_authorized: 403,
+  chat_banned: 403,
+  followers_only: 403,
+  cannot_moderate_moderator: 403,
+  event_not_found: 404,
+  message_not_found: 404,
+  user_not_found: 404,
+  chat_timed_out: 429,
+  slow_mode: 429,
+};
+
+/** HTTP status for an RPC error code (400 for validation, 500 if unknown). */
+export function chatErrorStatus(code: ChatErrorCode): number {
+  return ERROR_STATUS[code] ?? (code === 'unknown' ? 500 : 400);
+}
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enableVideoDownloads, getVideoDetails } from '@/lib/cloudflare-stream';
+import type { ReplayChapter, ReplayChatMessage, StreamRecording } from '@/lib/types';
+import { buildReplayChapters, buildReplayMessages } from './replay';
+
+export interface IngestedRecording {
+  momentId: string;
+  eventId: string;
+  broadcasterId: string;
+  thumbnailUrl: string | null;
+  /** False when a retried webhook found the recording already ingested */
+  created: boolean;
+}
+
+/**
+ * Publish a finished live input recording as a `video` moment on the stream's
+ * event and link it in stream_recordings for chat replay. Also closes the
+ * stream if the disconnect webhook left it in `reconnecting`.
+ *
+ * Needs a service-role client: the moment is inserted on the broadcaster's
+ * behalf. Safe to call repeatedly for the same video — Cloudflare retries
+ * webhooks that don't answer 2xx.
+ */
+export async function ingestStreamRecording(
+  supabase: SupabaseClient,
+  liveInputUid: string,
+  videoUid: string
+): Promise<IngestedRecording | null> {
+  const { data: stream, error: streamError } = await supabase
+    .from('live_streams')
+    .select('id, event_id, broadcaster_id, title, status, started_at')
+    .eq('cf_live_input_id', liveInputUid)
+    .maybeSingle();
+
+  if (streamError) throw streamError;
+  if (!stream) return null;
+
+  // A recording from an earlier session can land after the broadcaster is
+  // live again; only a stream still waiting on its reconnect window is over
+  if (stream.status === 'reconnecting') {
+    const { error } = await supabase
+      .from('live_streams')
+      .update({ status: 'ended', ended_at: new Date().toISOString() })
+      .eq('id', stream.id)
+      .eq('status', 'reconnecting');
+    if (error) console.error('[recording] Failed to end stream:', error);
+  }
+
+  const { data: existing } = await supabase
+    .from('stream_recordings')
+    .select('moment_id, moments(thumbnail_url)')
+    .eq('cf_video_uid', videoUid)
+    .maybeSingle();
+
+  if (existing) {
+    const moment = existing.moments as unknown as { thumbnail_url: string | null } | null;
+    return {
+      momentId: existing.moment_id,
+      eventId: stream.event_id,
+      broadcasterId: stream.broadcaster_id,
+      thumbnailUrl: moment?.thumbnail_url ?? null,
+      created: false,
+    };
+  }
+
+  // Non-fatal, as for VOD uploads: the download route enables lazily too
+  try {
+    await enableVideoDownloads(videoUid);
+  } catch (err) {
+    console.error('[recording] enableVideoDownloads failed:', err);
+  }
+
+  const video = await getVideoDetails(videoUid);
+  const playbackUrl = video.playback?.hls;
+  if (!playbackUrl) {
+    throw new Error(`No playback URL for recording ${videoUid}`);
+  }
+
+  // Cloudflare reports -1 while the duration is still unknown
+  const duration = video.duration && video.duration > 0 ? video.duration : null;
+  const thumbnailUrl = video.thumbnail ?? null;
+
+  // A previous attempt may have got as far as the moment
+  const { data: orphan } = await supabase
+    .from('moments')
+    .select('id')
+    .eq('cf_video_uid', videoUid)
+    .maybeSingle();
+
+  let momentId = orphan?.id as string | undefined;
+  if (!momentId) {
+    const { data: moment, error: momentError } = await supabase
+      .from('moments')
+      .insert({
+        event_id: stream.event_id,
+        user_id: stream.broadcaster_id,
+        content_type: 'video',
+        text_content: stream.title,
+        status: 'published',
+        cf_video_uid: videoUid,
+        cf_playback_url: playbackUrl,
+        video_status: 'ready',
+        thumbnail_url: thumbnailUrl,
+        video_duration_seconds: duration,
+      })
+      .select('id')
+      .single();
+
+    if (momentError) throw momentError;
+    momentId = moment.id as string;
+  }
+
+  const { error: recordingError } = await supabase.from('stream_recordings').insert({
+    stream_id: stream.id,
+    event_id: stream.event_id,
+    moment_id: momentId,
+    cf_video_uid: videoUid,
+    // The video is created when recording starts; started_at is reset on
+    // every reconnect, so it's only the fallback
+    recorded_at: video.created ?? stream.started_at ?? new Date().toISOString(),
+    duration_seconds: duration,
+  });
+
+  // 23505: a concurrent delivery linked it first — same outcome
+  if (recordingError && recordingError.code !== '23505') throw recordingError;
+
+  return {
+    momentId,
+    eventId: stream.event_id,
+    broadcasterId: stream.broadcaster_id,
+    thumbnailUrl,
+    created: !recordingError,
+  };
+}
+
+// Enough for a few hours of busy chat; later messages are left off the replay
+const MAX_REPLAY_MESSAGES = 2000;
+
+export interface RecordingReplay {
+  recording: StreamRecording;
+  messages: ReplayChatMessage[];
+  chapters: ReplayChapter[];
+}
+
+/**
+ * Load a recording moment's chat replay, or null for any other moment.
+ * Uses the caller's client, so RLS hides recordings of moments they can't see.
+ */
+export async function getRecordingReplay(
+  supabase: SupabaseClient,
+  momentId: string
+): Promise<RecordingReplay | null> {
+  const { data: recording } = await supabase
+    .from('stream_recordings')
+    .select('*')
+    .eq('moment_id', momentId)
+    .maybeSingle<StreamRecording>();
+
+  if (!recording) return null;
+
+  let query = supabase
+    .from('stream_chat_messages')
+    .select('id, user_id, content, message_type, created_at, profiles!stream_chat_messages_user_id_fkey(display_name, avatar_url)')
+    .eq('event_id', recording.event_id)
+    .eq('is_deleted', false)
+    .gte('created_at', recording.recorded_at)
+    .order('created_at', { ascending: true })
+    .limit(MAX_REPLAY_MESSAGES);
+
+  if (recording.duration_seconds != null) {
+    const end = new Date(recording.recorded_at).getTime() + Number(recording.duration_seconds) * 1000;
+    query = query.lte('created_at', new Date(end).toISOString());
+  }
+
+  const { data: rows, error } = await query;
+  if (error) console.error('[recording] Failed to load chat replay:', error);
+
+  const messages = buildReplayMessages(
+    (rows ?? []).map((row) => {
+      const profile = row.profiles as unknown as { display_name: string | null; avatar_url: string | null } | null;
+      return {
+        id: row.id,
+        user_id: row.user_id,
+        user_name: profile?.display_name ?? null,
+        user_avatar: profile?.avatar_url ?? null,
+        content: row.content,
+        message_type: row.message_type,
+        created_at: row.created_at,
+      };
+    }),
+    recording.recorded_at,
+    recording.duration_seconds != null ? Number(recording.duration_seconds) : null
+  );
+
+  return { recording, messages, chapters: buildReplayChapters(messages) };
+}
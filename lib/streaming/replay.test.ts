@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { StreamChatMessageType, StreamChatMessageWithUser } from '@/lib/types';
+import {
+  MAX_CHAPTER_TITLE_LENGTH,
+  buildReplayChapters,
+  buildReplayMessages,
+  chapterAt,
+  countReachedAt,
+  formatReplayOffset,
+} from './replay';
+
+const RECORDED_AT = '2026-10-01T12:00:00.000Z';
+
+function message(
+  id: string,
+  secondsIn: number,
+  content = 'hi',
+  type: StreamChatMessageType = 'text'
+): StreamChatMessageWithUser {
+  return {
+    id,
+    user_id: 'u1',
+    user_name: 'Lan',
+    user_avatar: null,
+    content,
+    message_type: type,
+    created_at: new Date(Date.parse(RECORDED_AT) + secondsIn * 1000).toISOString(),
+  };
+}
+
+describe('buildReplayMessages', () => {
+  it('offsets messages from the recording start and sorts them', () => {
+    const replay = buildReplayMessages([message('b', 30), message('a', 5)], RECORDED_AT, 60);
+    expect(replay.map((m) => [m.id, m.offset_seconds])).toEqual([
+      ['a', 5],
+      ['b', 30],
+    ]);
+  });
+
+  it('drops chat from outside the recording window', () => {
+    const replay = buildReplayMessages(
+      [message('before', -10), message('in', 0), message('end', 60), message('after', 61)],
+      RECORDED_AT,
+      60
+    );
+    expect(replay.map((m) => m.id)).toEqual(['in', 'end']);
+  });
+
+  it('keeps everything after the start when the duration is unknown', () => {
+    const replay = buildReplayMessages([message('late', 5000)], RECORDED_AT, null);
+    expect(replay).toHaveLength(1);
+  });
+});
+
+describe('buildReplayChapters', () => {
+  it('turns highlights into chapters and ignores other messages', () => {
+    const replay = buildReplayMessages(
+      [
+        message('t', 1),
+        message('h1', 20, 'Opening set', 'highlight'),
+        message('s', 25, 'Lan joined', 'system'),
+        message('h2', 90, '  Encore\n  time ', 'highlight'),
+      ],
+      RECORDED_AT,
+      null
+    );
+    expect(buildReplayChapters(replay)).toEqual([
+      { id: 'h1', title: 'Opening set', offset_seconds: 20 },
+      { id: 'h2', title: 'Encore time', offset_seconds: 90 },
+    ]);
+  });
+
+  it('collapses highlights sent in quick succession', () => {
+    const replay = buildReplayMessages(
+      [message('h1', 20, 'First', 'highlight'), message('h2', 25, 'Dupe', 'highlight')],
+      RECORDED_AT,
+      null
+    );
+    expect(buildReplayChapters(replay).map((c) => c.id)).toEqual(['h1']);
+  });
+
+  it('truncates long titles', () => {
+    const replay = buildReplayMessages([message('h', 1, 'x'.repeat(200), 'highlight')], RECORDED_AT, null);
+    const [chapter] = buildReplayChapters(replay);
+    expect(chapter.title).toHaveLength(MAX_CHAPTER_TITLE_LENGTH);
+    expect(chapter.title.endsWith('…')).toBe(true);
+  });
+});
+
+describe('timeline lookups', () => {
+  const chapters = [
+    { id: 'a', title: 'A', offset_seconds: 10 },
+    { id: 'b', title: 'B', offset_seconds: 40 },
+  ];
+
+  it('counts entries reached at a time', () => {
+    expect(countReachedAt(chapters, 0)).toBe(0);
+    expect(countReachedAt(chapters, 10)).toBe(1);
+    expect(countReachedAt(chapters, 100)).toBe(2);
+  });
+
+  it('finds the current chapter', () => {
+    expect(chapterAt(chapters, 5)).toBeNull();
+    expect(chapterAt(chapters, 39)?.id).toBe('a');
+    expect(chapterAt(chapters, 40)?.id).toBe('b');
+  });
+
+  it('formats offsets', () => {
+    expect(formatReplayOffset(7.9)).toBe('0:07');
+    expect(formatReplayOffset(125)).toBe('2:05');
+    expect(formatReplayOffset(3725)).toBe('1:02:05');
+  });
+});
@@ -0,0 +1,86 @@
+import type { ReplayChapter, ReplayChatMessage, StreamChatMessageWithUser } from '@/lib/types';
+
+/** Highlights closer together than this collapse into the earlier chapter */
+export const MIN_CHAPTER_GAP_SECONDS = 10;
+export const MAX_CHAPTER_TITLE_LENGTH = 80;
+
+/**
+ * Place stored chat messages on a recording's timeline.
+ *
+ * Chat is per event, not per stream, so messages sent before the recording
+ * started or after it ended are dropped. Without a known duration only the
+ * lower bound applies.
+ */
+export function buildReplayMessages(
+  messages: StreamChatMessageWithUser[],
+  recordedAt: string,
+  durationSeconds: number | null
+): ReplayChatMessage[] {
+  const start = new Date(recordedAt).getTime();
+
+  return messages
+    .map((message) => ({
+      ...message,
+      offset_seconds: (new Date(message.created_at).getTime() - start) / 1000,
+    }))
+    .filter(
+      (message) =>
+        message.offset_seconds >= 0 &&
+        (durationSeconds == null || message.offset_seconds <= durationSeconds)
+    )
+    .sort((a, b) => a.offset_seconds - b.offset_seconds);
+}
+
+/** Turn highlight messages into chapter markers, in timeline order. */
+export function buildReplayChapters(messages: ReplayChatMessage[]): ReplayChapter[] {
+  const chapters: ReplayChapter[] = [];
+
+  for (const message of messages) {
+    if (message.message_type !== 'highlight') continue;
+    const title = message.content.trim().replace(/\s+/g, ' ');
+    if (!title) continue;
+
+    const previous = chapters[chapters.length - 1];
+    if (previous && message.offset_seconds - previous.offset_seconds < MIN_CHAPTER_GAP_SECONDS) {
+      continue;
+    }
+
+    chapters.push({
+      id: message.id,
+      title:
+        title.length > MAX_CHAPTER_TITLE_LENGTH
+          ? `${title.slice(0, MAX_CHAPTER_TITLE_LENGTH - 1).trimEnd()}…`
+          : title,
+      offset_seconds: message.offset_seconds,
+    });
+  }
+
+  return chapters;
+}
+
+/** How many (sorted) entries have been reached at `time` seconds. */
+export function countReachedAt(entries: { offset_seconds: number }[], time: number): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (entries[mid].offset_seconds <= time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/** The chapter playing at `time`, or null before the first one. */
+export function chapterAt(chapters: ReplayChapter[], time: number): ReplayChapter | null {
+  const reached = countReachedAt(chapters, time);
+  return reached > 0 ? chapters[reached - 1] : null;
+}
+
+/** m:ss, or h:mm:ss for recordings past the hour. */
+export function formatReplayOffset(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
@@ -10,6 +10,7 @@
 
 import type { Event, Profile, Organizer, Festival, EventSeries, Moment, Venue, VenueType } from "@/lib/types";
 import type { BlogPostFull } from "@/lib/types/blog";
+import { normalizeDayHours, toVenueDateKey } from "@/lib/venues/hours";
 
 const SITE_URL = "https://dalat.app";
 const SITE_NAME = "ĐàLạt.app";
@@ -260,31 +261,41 @@ export function generateLocalBusinessSchema(
     ? VENUE_TYPE_SCHEMA_MAP[venue.venue_type]
     : "LocalBusiness";
 
-  // Format opening hours for Schema.org
+  // Format opening hours for Schema.org (one spec per range for split shifts)
+  const dayMap: Record<string, string> = {
+    monday: "Monday",
+    tuesday: "Tuesday",
+    wednesday: "Wednesday",
+    thursday: "Thursday",
+    friday: "Friday",
+    saturday: "Saturday",
+    sunday: "Sunday",
+  };
   const openingHoursSpec = venue.operating_hours
-    ? Object.entries(venue.operating_hours)
-        .filter(([, hours]) => hours !== "closed" && hours)
-        .map(([day, hours]) => {
-          if (hours === "closed" || !hours) return null;
-          const dayMap: Record<string, string> = {
-            monday: "Monday",
-            tuesday: "Tuesday",
-            wednesday: "Wednesday",
-            thursday: "Thursday",
-            friday: "Friday",
-            saturday: "Saturday",
-            sunday: "Sunday",
-          };
-          return {
-            "@type": "OpeningHoursSpecification",
-            dayOfWeek: dayMap[day],
-            opens: (hours as { open: string; close: string }).open,
-            closes: (hours as { open: string; close: string }).close,
-          };
-        })
-        .filter(Boolean)
+    ? Object.entries(venue.operating_hours).flatMap(([day, hours]) =>
+        normalizeDayHours(hours).map((range) => ({
+          "@type": "OpeningHoursSpecification",
+          dayOfWeek: dayMap[day],
+          opens: range.open,
+          closes: range.close,
+        }))
+      )
     : undefined;
 
+  // Upcoming one-off closures and special hours; 00:00-00:00 means closed
+  const today = toVenueDateKey(new Date());
+  const specialHoursSpec = (venue.hours_exceptions ?? [])
+    .filter((e) => e.recurrence === "once" && (e.ends_on || e.starts_on) >= today)
+    .flatMap((e) =>
+      (e.closed ? [{ open: "00:00", close: "00:00" }] : normalizeDayHours(e.ranges)).map((range) => ({
+        "@type": "OpeningHoursSpecification",
+        validFrom: e.starts_on,
+        validThrough: e.ends_on || e.starts_on,
+        opens: range.open,
+        closes: range.close,
+      }))
+    );
+
   const schema: Record<string, unknown> = {
     "@context": "https://schema.org",
     "@type": schemaType,
@@ -323,6 +334,9 @@ export function generateLocalBusinessSchema(
     ...(openingHoursSpec && openingHoursSpec.length > 0 && {
       openingHoursSpecification: openingHoursSpec,
     }),
+    ...(specialHoursSpec.length > 0 && {
+      specialOpeningHoursSpecification: specialHoursSpec,
+    }),
 
     // Price range
     ...(venue.price_range && { priceRange: venue.price_range }),
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSurveyReport,
+  questionKey,
+  summarizeNps,
+  summarizeRanking,
+  summarizeScale,
+  type SurveyAnswer,
+  type SurveyQuestion,
+} from "./report";
+
+const OPTIONS = [
+  { value: "program", label: { en: "Program" } },
+  { value: "people", label: { en: "People" } },
+  { value: "venue", label: { en: "Venue" } },
+];
+
+function question(id: string, eventId: string, overrides: Partial<SurveyQuestion> = {}): SurveyQuestion {
+  return {
+    id,
+    event_id: eventId,
+    template_id: null,
+    question_type: "scale",
+    question_text: { en: "How was it?" },
+    options: null,
+    ...overrides,
+  };
+}
+
+function answer(rsvpId: string, questionId: string, value: string | string[]): SurveyAnswer {
+  return { rsvp_id: rsvpId, question_id: questionId, response_value: value };
+}
+
+describe("summarizeScale", () => {
+  it("averages valid steps and counts each one", () => {
+    expect(summarizeScale([5, 4, 4, 0, 6, 2.5])).toEqual({
+      count: 3,
+      average: 4.33,
+      distribution: [0, 0, 0, 2, 1],
+    });
+  });
+
+  it("has no average without answers", () => {
+    expect(summarizeScale([]).average).toBeNull();
+  });
+});
+
+describe("summarizeNps", () => {
+  it("subtracts detractors from promoters", () => {
+    // 3 promoters, 1 passive, 2 detractors → (3 - 2) / 6 = 17
+    expect(summarizeNps([10, 9, 9, 8, 6, 0])).toEqual({
+      count: 6,
+      promoters: 3,
+      passives: 1,
+      detractors: 2,
+      score: 17,
+    });
+  });
+
+  it("ranges from -100 to 100", () => {
+    expect(summarizeNps([0, 3]).score).toBe(-100);
+    expect(summarizeNps([10]).score).toBe(100);
+    expect(summarizeNps([11, -1]).score).toBeNull();
+  });
+});
+
+describe("summarizeRanking", () => {
+  it("orders options by average position", () => {
+    const result = summarizeRanking(
+      [
+        ["people", "program", "venue"],
+        ["people", "venue", "program"],
+        ["program", "people", "venue"],
+      ],
+      OPTIONS
+    );
+    expect(result.map((r) => [r.value, r.averageRank, r.firstPlace])).toEqual([
+      ["people", 1.33, 2],
+      ["program", 2, 1],
+      ["venue", 2.67, 0],
+    ]);
+  });
+
+  it("ignores values that are no longer options", () => {
+    const [first] = summarizeRanking([["removed", "venue", "program", "people"]], OPTIONS);
+    expect(first).toMatchObject({ value: "venue", averageRank: 1, firstPlace: 1 });
+  });
+});
+
+describe("questionKey", () => {
+  it("prefers the template and falls back to type and English text", () => {
+    expect(questionKey(question("q1", "e1", { template_id: "t1" }))).toBe("template:t1");
+    expect(questionKey(question("q1", "e1", { question_text: { en: " How was it? ", vi: "?" } }))).toBe(
+      "custom:scale:how was it?"
+    );
+  });
+});
+
+describe("buildSurveyReport", () => {
+  const occurrences = [
+    { eventId: "e2", title: "Jazz #2", startsAt: "2026-06-01T12:00:00Z", attendees: 4 },
+    { eventId: "e1", title: "Jazz #1", startsAt: "2026-05-01T12:00:00Z", attendees: 6 },
+  ];
+
+  it("merges the same question across a series into one trend", () => {
+    const report = buildSurveyReport({
+      occurrences,
+      questions: [
+        question("q1", "e1", { template_id: "overall" }),
+        question("q2", "e2", { template_id: "overall" }),
+        question("n1", "e1", { template_id: "nps", question_type: "nps" }),
+      ],
+      answers: [
+        answer("r1", "q1", "5"),
+        answer("r2", "q1", "3"),
+        answer("r3", "q2", "2"),
+        answer("r1", "n1", "10"),
+        answer("r2", "n1", "4"),
+      ],
+    });
+
+    expect(report.respondents).toBe(3);
+    expect(report.attendees).toBe(10);
+    expect(report.responseRate).toBe(0.3);
+
+    const [overall, nps] = report.questions;
+    expect(overall).toMatchObject({ type: "scale", count: 3, summary: { average: 3.33 } });
+    expect(overall.type === "scale" && overall.trend).toEqual([
+      { eventId: "e1", startsAt: "2026-05-01T12:00:00Z", count: 2, value: 4 },
+      { eventId: "e2", startsAt: "2026-06-01T12:00:00Z", count: 1, value: 2 },
+    ]);
+    expect(nps).toMatchObject({ type: "nps", summary: { score: 0 } });
+    // The NPS question was only asked on the first date
+    expect(nps.type === "nps" && nps.trend.map((p) => p.eventId)).toEqual(["e1"]);
+  });
+
+  it("breaks down choices and keeps non-empty text answers", () => {
+    const report = buildSurveyReport({
+      occurrences: occurrences.slice(0, 1),
+      questions: [
+        question("c1", "e2", { question_type: "multi_choice", options: OPTIONS }),
+        question("t1", "e2", { question_type: "text", question_text: { en: "Anything else?" } }),
+      ],
+      answers: [
+        answer("r1", "c1", ["program", "venue"]),
+        answer("r2", "c1", ["venue"]),
+        answer("r1", "t1", "  Great sound "),
+        answer("r2", "t1", "   "),
+      ],
+    });
+
+    const [choice, text] = report.questions;
+    expect(choice.type === "multi_choice" && choice.options.map((o) => o.count)).toEqual([1, 0, 2]);
+    expect(text.type === "text" && text.answers).toEqual(["Great sound"]);
+  });
+
+  it("has no response rate without attendees", () => {
+    const report = buildSurveyReport({ occurrences: [], questions: [], answers: [] });
+    expect(report.responseRate).toBeNull();
+    expect(report.questions).toEqual([]);
+  });
+});
@@ -0,0 +1,459 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllRows } from "@/lib/audiences/resolve";
+import type { MultilingualText, QuestionOption, QuestionType } from "@/lib/types";
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+/**
+ * Post-event survey reports for one event or a whole series.
+ *
+ * Series reports line questions up across dates by template (or by type and
+ * English text for custom questions), so a survey copied to every date with
+ * copy_survey_to_series() reads as one question with a trend per date.
+ */
+
+export interface SurveyQuestion {
+  id: string;
+  event_id: string;
+  template_id: string | null;
+  question_type: QuestionType;
+  question_text: MultilingualText;
+  options: QuestionOption[] | null;
+}
+
+export interface SurveyOccurrence {
+  eventId: string;
+  title: string;
+  startsAt: string;
+  /** Going, not marked as a no-show */
+  attendees: number;
+}
+
+export interface SurveyAnswer {
+  rsvp_id: string;
+  question_id: string;
+  response_value: string | string[];
+  created_at?: string;
+}
+
+export interface SurveyReportInput {
+  occurrences: SurveyOccurrence[];
+  questions: SurveyQuestion[];
+  answers: SurveyAnswer[];
+}
+
+export interface ScaleSummary {
+  count: number;
+  average: number | null;
+  /** Answer counts from the lowest step up */
+  distribution: number[];
+}
+
+export interface NpsSummary {
+  count: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  /** % promoters − % detractors, −100 to 100 */
+  score: number | null;
+}
+
+export interface RankingSummary {
+  value: string;
+  label: MultilingualText;
+  averageRank: number | null;
+  firstPlace: number;
+}
+
+export interface TrendPoint {
+  eventId: string;
+  startsAt: string;
+  count: number;
+  /** Average for scale questions, NPS for nps questions */
+  value: number | null;
+}
+
+interface BaseQuestionReport {
+  key: string;
+  questionText: MultilingualText;
+  count: number;
+}
+
+export type QuestionReport =
+  | (BaseQuestionReport & { type: "scale"; summary: ScaleSummary; trend: TrendPoint[] })
+  | (BaseQuestionReport & { type: "nps"; summary: NpsSummary; trend: TrendPoint[] })
+  | (BaseQuestionReport & { type: "ranking"; ranking: RankingSummary[] })
+  | (BaseQuestionReport & {
+      type: "single_choice" | "multi_choice";
+      options: { value: string; label: MultilingualText; count: number }[];
+    })
+  | (BaseQuestionReport & { type: "text"; answers: string[] });
+
+export interface SurveyReport {
+  respondents: number;
+  attendees: number;
+  responseRate: number | null;
+  questions: QuestionReport[];
+}
+
+export function questionKey(question: Pick<SurveyQuestion, "template_id" | "question_type" | "question_text">): string {
+  if (question.template_id) return `template:${question.template_id}`;
+  const text = question.question_text.en ?? Object.values(question.question_text)[0] ?? "";
+  return `custom:${question.question_type}:${text.trim().toLowerCase()}`;
+}
+
+function toNumber(value: string | string[]): number | null {
+  if (Array.isArray(value)) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function summarizeScale(values: number[], min = 1, max = 5): ScaleSummary {
+  const valid = values.filter((v) => Number.isInteger(v) && v >= min && v <= max);
+  const distribution = Array.from({ length: max - min + 1 }, () => 0);
+  for (const v of valid) distribution[v - min]++;
+  return {
+    count: valid.length,
+    average: valid.length > 0 ? round(valid.reduce((a, b) => a + b, 0) / valid.length, 2) : null,
+    distribution,
+  };
+}
+
+/**
+ * Net Promoter Score: 9–10 promote, 7–8 are passive, 0–6 detract.
+ */
+export function summarizeNps(values: number[]): NpsSummary {
+  const valid = values.filter((v) => Number.isInteger(v) && v >= 0 && v <= 10);
+  const promoters = valid.filter((v) => v >= 9).length;
+  const detractors = valid.filter((v) => v <= 6).length;
+  return {
+    count: valid.length,
+    promoters,
+    passives: valid.length - promoters - detractors,
+    detractors,
+    score: valid.length > 0 ? Math.round(((promoters - detractors) / valid.length) * 100) : null,
+  };
+}
+
+/**
+ * Average position of each option (1 = best), best first. Unknown values in
+ * an answer are ignored; options missing from an answer don't count for it.
+ */
+export function summarizeRanking(rankings: string[][], options: QuestionOption[]): RankingSummary[] {
+  return options
+    .map((option) => {
+      const positions = rankings
+        .map((ranking) => ranking.filter((v) => options.some((o) => o.value === v)).indexOf(option.value))
+        .filter((index) => index >= 0);
+      return {
+        value: option.value,
+        label: option.label,
+        averageRank:
+          positions.length > 0 ? round(positions.reduce((a, b) => a + b + 1, 0) / positions.length, 2) : null,
+        firstPlace: positions.filter((index) => index === 0).length,
+      };
+    })
+    .sort((a, b) => (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity));
+}
+
+export function buildSurveyReport(input: SurveyReportInput): SurveyReport {
+  const occurrences = [...input.occurrences].sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  const questionsById = new Map(input.questions.map((q) => [q.id, q]));
+
+  const answersByQuestion = new Map<string, SurveyAnswer[]>();
+  for (const answer of input.answers) {
+    if (!questionsById.has(answer.question_id)) continue;
+    const list = answersByQuestion.get(answer.question_id) ?? [];
+    list.push(answer);
+    answersByQuestion.set(answer.question_id, list);
+  }
+
+  // Group the same question across dates; the most recent date's wording wins
+  const groups = new Map<string, SurveyQuestion[]>();
+  const eventOrder = new Map(occurrences.map((o, i) => [o.eventId, i]));
+  for (const question of input.questions) {
+    const key = questionKey(question);
+    const list = groups.get(key) ?? [];
+    list.push(question);
+    groups.set(key, list);
+  }
+
+  const reports: QuestionReport[] = [];
+  for (const [key, questions] of groups) {
+    questions.sort((a, b) => (eventOrder.get(b.event_id) ?? 0) - (eventOrder.get(a.event_id) ?? 0));
+    const latest = questions[0];
+    const answers = questions.flatMap((q) => answersByQuestion.get(q.id) ?? []);
+    const base = { key, questionText: latest.question_text, count: answers.length };
+
+    const trendFor = (summarize: (values: number[]) => { count: number; value: number | null }) =>
+      occurrences
+        .map((occurrence) => {
+          const ids = new Set(questions.filter((q) => q.event_id === occurrence.eventId).map((q) => q.id));
+          if (ids.size === 0) return null;
+          const values = answers
+            .filter((a) => ids.has(a.question_id))
+            .map((a) => toNumber(a.response_value))
+            .filter((v): v is number => v !== null);
+          return { eventId: occurrence.eventId, startsAt: occurrence.startsAt, ...summarize(values) };
+        })
+        .filter((point): point is TrendPoint => point !== null);
+
+    const numbers = answers.map((a) => toNumber(a.response_value)).filter((v): v is number => v !== null);
+
+    switch (latest.question_type) {
+      case "scale":
+        reports.push({
+          ...base,
+          type: "scale",
+          summary: summarizeScale(numbers),
+          trend: trendFor((values) => {
+            const summary = summarizeScale(values);
+            return { count: summary.count, value: summary.average };
+          }),
+        });
+        break;
+      case "nps":
+        reports.push({
+          ...base,
+          type: "nps",
+          summary: summarizeNps(numbers),
+          trend: trendFor((values) => {
+            const summary = summarizeNps(values);
+            return { count: summary.count, value: summary.score };
+          }),
+        });
+        break;
+      case "ranking":
+        reports.push({
+          ...base,
+          type: "ranking",
+          ranking: summarizeRanking(
+            answers.map((a) => (Array.isArray(a.response_value) ? a.response_value : [])),
+            latest.options ?? []
+          ),
+        });
+        break;
+      case "single_choice":
+      case "multi_choice": {
+        const counts = new Map<string, number>();
+        for (const answer of answers) {
+          const values = Array.isArray(answer.response_value) ? answer.response_value : [answer.response_value];
+          for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+        reports.push({
+          ...base,
+          type: latest.question_type,
+          options: (latest.options ?? []).map((o) => ({ value: o.value, label: o.label, count: counts.get(o.value) ?? 0 })),
+        });
+        break;
+      }
+      default:
+        reports.push({
+          ...base,
+          type: "text",
+          answers: answers
+            .map((a) => (Array.isArray(a.response_value) ? a.response_value.join(", ") : a.response_value).trim())
+            .filter((text) => text.length > 0),
+        });
+    }
+  }
+
+  const respondents = new Set(input.answers.filter((a) => questionsById.has(a.question_id)).map((a) => a.rsvp_id)).size;
+  const attendees = occurrences.reduce((sum, o) => sum + o.attendees, 0);
+
+  // Keep the survey's own question order (first date that asked each question)
+  const firstSeen = new Map<string, number>();
+  input.questions.forEach((q, index) => {
+    const key = questionKey(q);
+    if (!firstSeen.has(key)) firstSeen.set(key, index);
+  });
+  reports.sort((a, b) => (firstSeen.get(a.key) ?? 0) - (firstSeen.get(b.key) ?? 0));
+
+  return {
+    respondents,
+    attendees,
+    responseRate: attendees > 0 ? round(respondents / attendees, 3) : null,
+    questions: reports,
+  };
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/** Most recent dates included in a series report */
+export const MAX_REPORT_OCCURRENCES = 50;
+
+/** Ids per .in() filter — keeps request URLs short */
+const ID_CHUNK = 100;
+
+interface QuestionRow {
+  id: string;
+  template_id: string | null;
+  custom_question_type: QuestionType | null;
+  custom_question_text: MultilingualText | null;
+  custom_options: QuestionOption[] | null;
+  event_questionnaires: { event_id: string } | { event_id: string }[] | null;
+  question_templates:
+    | { question_type: QuestionType; question_text: MultilingualText; options: QuestionOption[] | null }
+    | { question_type: QuestionType; question_text: MultilingualText; options: QuestionOption[] | null }[]
+    | null;
+}
+
+function one<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? (value[0] ?? null) : value;
+}
+
+async function fetchInChunks<T>(
+  label: string,
+  ids: string[],
+  query: (ids: string[], from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const slice = ids.slice(i, i + ID_CHUNK);
+    rows.push(...(await fetchAllRows<T>(label, (from, to) => query(slice, from, to))));
+  }
+  return rows;
+}
+
+export type ReportScope = "event" | "series";
+
+export interface ReportTarget {
+  /** Cache key for theme summaries: "event:<id>" or "series:<id>" */
+  key: string;
+  title: string;
+  slug: string;
+  events: { id: string; slug: string; title: string; starts_at: string }[];
+}
+
+/**
+ * The event or series a report covers, or null if it doesn't exist or the
+ * user didn't create it. Series reports cover dates that have started,
+ * most recent first.
+ */
+export async function resolveReportTarget(
+  supabase: AnySupabaseClient,
+  userId: string,
+  scope: ReportScope,
+  slug: string
+): Promise<ReportTarget | null> {
+  if (scope === "event") {
+    const { data: event } = await supabase
+      .from("events")
+      .select("id, slug, title, starts_at, created_by")
+      .eq("slug", slug)
+      .maybeSingle();
+    if (!event || event.created_by !== userId) return null;
+    return { key: `event:${event.id}`, title: event.title, slug: event.slug, events: [event] };
+  }
+
+  const { data: series } = await supabase
+    .from("event_series")
+    .select("id, slug, title, created_by")
+    .eq("slug", slug)
+    .maybeSingle();
+  if (!series || series.created_by !== userId) return null;
+
+  const { data: events, error } = await supabase
+    .from("events")
+    .select("id, slug, title, starts_at")
+    .eq("series_id", series.id)
+    .neq("status", "draft")
+    .lte("starts_at", new Date().toISOString())
+    .order("starts_at", { ascending: false })
+    .limit(MAX_REPORT_OCCURRENCES);
+  if (error) throw new Error(`resolveReportTarget(events): ${error.message}`);
+
+  return { key: `series:${series.id}`, title: series.title, slug: series.slug, events: events ?? [] };
+}
+
+/**
+ * Survey questions, answers and attendance for the given events. Runs as the
+ * event creator — RLS limits answers to their own events.
+ */
+export async function loadSurveyReportInput(
+  supabase: AnySupabaseClient,
+  events: { id: string; title: string; starts_at: string }[]
+): Promise<SurveyReportInput> {
+  const eventIds = events.map((e) => e.id);
+
+  const questionRows = await fetchInChunks<QuestionRow>("loadSurveyReportInput(questions)", eventIds, (ids, from, to) =>
+    supabase
+      .from("event_questions")
+      .select(
+        `id, template_id, custom_question_type, custom_question_text, custom_options,
+         event_questionnaires!inner (event_id, kind),
+         question_templates (question_type, question_text, options)`
+      )
+      .in("event_questionnaires.event_id", ids)
+      .eq("event_questionnaires.kind", "post_event")
+      .order("sort_order")
+      .order("id")
+      .range(from, to)
+  );
+
+  const questions: SurveyQuestion[] = questionRows
+    .map((row) => {
+      const template = one(row.question_templates);
+      const questionnaire = one(row.event_questionnaires);
+      if (!questionnaire) return null;
+      return {
+        id: row.id,
+        event_id: questionnaire.event_id,
+        template_id: row.template_id,
+        question_type: template?.question_type ?? row.custom_question_type ?? "text",
+        question_text: template?.question_text ?? row.custom_question_text ?? {},
+        options: template?.options ?? row.custom_options,
+      };
+    })
+    .filter((q): q is SurveyQuestion => q !== null);
+
+  const [answers, rsvps] = await Promise.all([
+    fetchInChunks<SurveyAnswer>(
+      "loadSurveyReportInput(answers)",
+      questions.map((q) => q.id),
+      (ids, from, to) =>
+        supabase
+          .from("rsvp_responses")
+          .select("rsvp_id, question_id, response_value, created_at")
+          .in("question_id", ids)
+          .order("id")
+          .range(from, to)
+    ),
+    fetchInChunks<{ event_id: string; no_show_at: string | null }>(
+      "loadSurveyReportInput(rsvps)",
+      eventIds,
+      (ids, from, to) =>
+        supabase
+          .from("rsvps")
+          .select("event_id, no_show_at")
+          .in("event_id", ids)
+          .eq("status", "going")
+          .order("id")
+          .range(from, to)
+    ),
+  ]);
+
+  const attendees = new Map<string, number>();
+  for (const rsvp of rsvps) {
+    if (rsvp.no_show_at) continue;
+    attendees.set(rsvp.event_id, (attendees.get(rsvp.event_id) ?? 0) + 1);
+  }
+
+  return {
+    occurrences: events.map((e) => ({
+      eventId: e.id,
+      title: e.title,
+      startsAt: e.starts_at,
+      attendees: attendees.get(e.id) ?? 0,
+    })),
+    questions,
+    answers,
+  };
+}
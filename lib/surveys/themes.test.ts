@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { buildThemesPrompt, MAX_THEME_ANSWERS, parseThemes, pickThemeAnswers } from "./themes";
+import type { SurveyQuestion } from "./report";
+
+describe("parseThemes", () => {
+  it("keeps well-formed themes and clamps mentions", () => {
+    expect(
+      parseThemes(
+        {
+          themes: [
+            { theme: " Sound ", summary: "Too loud at the back.", mentions: 40, sentiment: "negative" },
+            { theme: "Venue", summary: "Loved the garden.", mentions: "many", sentiment: "glowing" },
+            { theme: "", summary: "No label" },
+            "not an object",
+          ],
+        },
+        12
+      )
+    ).toEqual([
+      { theme: "Sound", summary: "Too loud at the back.", mentions: 12, sentiment: "negative" },
+      { theme: "Venue", summary: "Loved the garden.", mentions: 1, sentiment: "neutral" },
+    ]);
+  });
+
+  it("returns nothing for unexpected output", () => {
+    expect(parseThemes(null, 3)).toEqual([]);
+    expect(parseThemes({ themes: "Sound" }, 3)).toEqual([]);
+  });
+});
+
+describe("buildThemesPrompt", () => {
+  it("numbers answers on one line each", () => {
+    expect(buildThemesPrompt(["Great\nmusic", "Too hot"])).toBe(
+      "Feedback answers (2):\n1. Great music\n2. Too hot"
+    );
+  });
+});
+
+describe("pickThemeAnswers", () => {
+  const question = (id: string, type: SurveyQuestion["question_type"]): SurveyQuestion => ({
+    id,
+    event_id: "e1",
+    template_id: null,
+    question_type: type,
+    question_text: { en: id },
+    options: null,
+  });
+
+  it("samples the newest text answers and counts them all", () => {
+    const answers = Array.from({ length: MAX_THEME_ANSWERS + 5 }, (_, i) => ({
+      rsvp_id: `r${i}`,
+      question_id: i % 2 ? "q1" : "q2",
+      response_value: `answer ${i}`,
+      created_at: new Date(Date.UTC(2026, 10, 1, 0, i)).toISOString(),
+    }));
+    const picked = pickThemeAnswers({
+      occurrences: [],
+      questions: [question("q1", "text"), question("q2", "text"), question("q3", "scale")],
+      answers: [...answers, { rsvp_id: "r0", question_id: "q3", response_value: "5" }],
+    });
+
+    expect(picked.total).toBe(MAX_THEME_ANSWERS + 5);
+    expect(picked.answers).toHaveLength(MAX_THEME_ANSWERS);
+    expect(picked.answers[0]).toBe(`answer ${MAX_THEME_ANSWERS + 4}`);
+    expect(picked.answers).not.toContain("answer 0");
+  });
+
+  it("skips blank answers", () => {
+    const picked = pickThemeAnswers({
+      occurrences: [],
+      questions: [question("q1", "text")],
+      answers: [
+        { rsvp_id: "r1", question_id: "q1", response_value: "  " },
+        { rsvp_id: "r2", question_id: "q1", response_value: "Great sound" },
+      ],
+    });
+
+    expect(picked).toEqual({ total: 1, answers: ["Great sound"] });
+  });
+});
@@ -0,0 +1,93 @@
+import { aiChatJson } from "@/lib/ai/provider";
+import type { SurveyReportInput } from "./report";
+
+/**
+ * AI-summarised themes from free-text survey answers. Answers are sent
+ * without names; the model only sees the text.
+ */
+
+export type ThemeSentiment = "positive" | "neutral" | "negative";
+
+export interface SurveyTheme {
+  theme: string;
+  summary: string;
+  /** Roughly how many answers mention it */
+  mentions: number;
+  sentiment: ThemeSentiment;
+}
+
+/** Answers sent to the model, most recent first */
+export const MAX_THEME_ANSWERS = 200;
+/** Characters kept per answer */
+const MAX_ANSWER_LENGTH = 500;
+const MAX_THEMES = 6;
+
+const SENTIMENTS: readonly ThemeSentiment[] = ["positive", "neutral", "negative"];
+
+const THEMES_SYSTEM = `You summarise attendee feedback for event organizers.
+Group the answers into at most ${MAX_THEMES} recurring themes, most mentioned first.
+Answers may be in any language; always write themes and summaries in English.
+Respond with JSON only: {"themes":[{"theme":"short label","summary":"one sentence","mentions":number,"sentiment":"positive"|"neutral"|"negative"}]}`;
+
+/**
+ * The free-text answers to summarise, newest first, and how many there are
+ * in all. The total is the cache key: once the sample is full it still
+ * changes with every new answer.
+ */
+export function pickThemeAnswers(input: SurveyReportInput): { total: number; answers: string[] } {
+  const textQuestions = new Set(input.questions.filter((q) => q.question_type === "text").map((q) => q.id));
+  const answers = input.answers
+    .filter((a) => textQuestions.has(a.question_id))
+    .map((a) => ({
+      text: (Array.isArray(a.response_value) ? a.response_value.join(", ") : a.response_value).trim(),
+      at: a.created_at ?? "",
+    }))
+    .filter((a) => a.text.length > 0)
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+  return { total: answers.length, answers: answers.slice(0, MAX_THEME_ANSWERS).map((a) => a.text) };
+}
+
+export function buildThemesPrompt(answers: string[]): string {
+  const lines = answers
+    .slice(0, MAX_THEME_ANSWERS)
+    .map((answer, i) => `${i + 1}. ${answer.replace(/\s+/g, " ").slice(0, MAX_ANSWER_LENGTH)}`);
+  return `Feedback answers (${lines.length}):\n${lines.join("\n")}`;
+}
+
+/**
+ * Keep only well-formed themes from the model's output.
+ */
+export function parseThemes(raw: unknown, answerCount: number): SurveyTheme[] {
+  const list = (raw as { themes?: unknown } | null)?.themes;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter((item): item is Record<string, unknown> => typeof item === "object" && item !== null)
+    .map((item) => ({
+      theme: typeof item.theme === "string" ? item.theme.trim() : "",
+      summary: typeof item.summary === "string" ? item.summary.trim() : "",
+      mentions:
+        typeof item.mentions === "number" && Number.isFinite(item.mentions)
+          ? Math.min(Math.max(Math.round(item.mentions), 1), answerCount)
+          : 1,
+      sentiment: SENTIMENTS.includes(item.sentiment as ThemeSentiment)
+        ? (item.sentiment as ThemeSentiment)
+        : "neutral",
+    }))
+    .filter((theme) => theme.theme.length > 0)
+    .slice(0, MAX_THEMES);
+}
+
+export async function summarizeThemes(answers: string[]): Promise<SurveyTheme[]> {
+  if (answers.length === 0) return [];
+
+  const result = await aiChatJson<unknown>({
+    system: THEMES_SYSTEM,
+    prompt: buildThemesPrompt(answers),
+    maxTokens: 1024,
+    temperature: 0.2,
+  });
+
+  return parseThemes(result, Math.min(answers.length, MAX_THEME_ANSWERS));
+}
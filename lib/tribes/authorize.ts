@@ -0,0 +1,85 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { hasRoleLevel, type UserRole } from "@/lib/types";
+import {
+  hasTribePermission,
+  type TribeAction,
+  type TribeAuthSubject,
+  type TribeViewerMembership,
+} from "./permissions";
+
+export type AuthorizedTribe<T> = T & TribeAuthSubject & { id: string };
+
+export type TribeAuthResult<T> =
+  | {
+      ok: true;
+      tribe: AuthorizedTribe<T>;
+      membership: TribeViewerMembership | null;
+    }
+  | { ok: false; error: string; status: 401 | 403 | 404 | 500 };
+
+interface AuthorizeTribeOptions {
+  /** Extra tribe columns the route needs, e.g. "name, slug" */
+  columns?: string;
+  /** Site admins may act on any tribe (invitations) */
+  allowSiteAdmin?: boolean;
+}
+
+/**
+ * Load a tribe (by slug, or `{ id }` where a route only has the id) and check
+ * the current user may perform `action` on it. Every /api/tribes/[slug]/*
+ * route goes through here so the permission matrix in tribe settings is
+ * enforced in one place.
+ *
+ * @example
+ * const auth = await authorizeTribe(supabase, slug, user?.id, "approve_requests");
+ * if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+ */
+export async function authorizeTribe<T = object>(
+  supabase: SupabaseClient,
+  tribeRef: string | { id: string },
+  userId: string | null | undefined,
+  action: TribeAction,
+  options: AuthorizeTribeOptions = {}
+): Promise<TribeAuthResult<T>> {
+  if (!userId) return { ok: false, error: "Not authenticated", status: 401 };
+
+  const columns = ["id, created_by, settings", options.columns].filter(Boolean).join(", ");
+  const { data: tribe, error: tribeError } = await supabase
+    .from("tribes")
+    .select(columns)
+    .eq(typeof tribeRef === "string" ? "slug" : "id", typeof tribeRef === "string" ? tribeRef : tribeRef.id)
+    .maybeSingle<AuthorizedTribe<T>>();
+  if (tribeError) {
+    console.error("Tribe fetch error:", tribeError);
+    return { ok: false, error: "Failed to load tribe", status: 500 };
+  }
+  if (!tribe) return { ok: false, error: "Tribe not found", status: 404 };
+
+  const { data: membership, error: membershipError } = await supabase
+    .from("tribe_members")
+    .select("role, status")
+    .eq("tribe_id", tribe.id)
+    .eq("user_id", userId)
+    .maybeSingle<TribeViewerMembership>();
+  if (membershipError) {
+    console.error("Tribe membership fetch error:", membershipError);
+    return { ok: false, error: "Failed to load membership", status: 500 };
+  }
+
+  if (hasTribePermission(tribe, membership, userId, action)) {
+    return { ok: true, tribe, membership };
+  }
+
+  if (options.allowSiteAdmin) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", userId)
+      .maybeSingle<{ role: UserRole }>();
+    if (profile && hasRoleLevel(profile.role, "admin")) {
+      return { ok: true, tribe, membership };
+    }
+  }
+
+  return { ok: false, error: "Not authorized", status: 403 };
+}
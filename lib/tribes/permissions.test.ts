@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TRIBE_PERMISSIONS,
+  hasTribePermission,
+  parsePermissionMatrix,
+  parseRoleNames,
+  resolveTribePermissions,
+  tribePermissionsFor,
+  tribeRoleName,
+} from "./permissions";
+
+const tribe = (permissions?: Record<string, string[]>) => ({
+  created_by: "creator",
+  settings: permissions ? { permissions } : null,
+});
+
+const active = (role: "leader" | "admin" | "member") => ({ role, status: "active" as const });
+
+describe("resolveTribePermissions", () => {
+  it("falls back to leaders and admins", () => {
+    expect(resolveTribePermissions(null)).toEqual(DEFAULT_TRIBE_PERMISSIONS);
+  });
+
+  it("always keeps leaders in configured permissions", () => {
+    const resolved = resolveTribePermissions({ permissions: { invite: ["member"], ban_members: [] } });
+    expect(resolved.invite).toEqual(["leader", "member"]);
+    expect(resolved.ban_members).toEqual(["leader"]);
+    expect(resolved.create_events).toEqual(["leader", "admin"]);
+  });
+});
+
+describe("hasTribePermission", () => {
+  it("keeps the old leader/admin behaviour by default", () => {
+    expect(hasTribePermission(tribe(), active("admin"), "u1", "approve_requests")).toBe(true);
+    expect(hasTribePermission(tribe(), active("member"), "u1", "approve_requests")).toBe(false);
+  });
+
+  it("follows the tribe's matrix", () => {
+    const t = tribe({ create_events: ["member"], ban_members: [] });
+    expect(hasTribePermission(t, active("member"), "u1", "create_events")).toBe(true);
+    expect(hasTribePermission(t, active("admin"), "u1", "create_events")).toBe(false);
+    expect(hasTribePermission(t, active("admin"), "u1", "ban_members")).toBe(false);
+    expect(hasTribePermission(t, active("leader"), "u1", "ban_members")).toBe(true);
+  });
+
+  it("lets the creator do anything, even without a membership row", () => {
+    expect(hasTribePermission(tribe({ invite: [] }), null, "creator", "invite")).toBe(true);
+    expect(hasTribePermission(tribe(), null, "creator", "manage")).toBe(true);
+  });
+
+  it("denies banned members and anonymous viewers", () => {
+    const t = tribe({ invite: ["member"] });
+    expect(hasTribePermission(t, { role: "leader", status: "banned" }, "u1", "invite")).toBe(false);
+    expect(hasTribePermission(t, active("member"), null, "invite")).toBe(false);
+  });
+
+  it("never lets members manage the tribe", () => {
+    expect(hasTribePermission(tribe(), active("member"), "u1", "manage")).toBe(false);
+    expect(hasTribePermission(tribe(), active("admin"), "u1", "manage")).toBe(true);
+  });
+
+  it("summarises every action for the UI", () => {
+    const flags = tribePermissionsFor(tribe({ invite: ["member"] }), active("member"), "u1");
+    expect(flags.invite).toBe(true);
+    expect(flags.manage).toBe(false);
+    expect(flags.rotate_invite_code).toBe(false);
+  });
+});
+
+describe("parsePermissionMatrix", () => {
+  it("normalises roles and adds leaders", () => {
+    expect(parsePermissionMatrix({ invite: ["member", "admin", "member"] })).toEqual({
+      ok: true,
+      value: { invite: ["leader", "admin", "member"] },
+    });
+  });
+
+  it("rejects unknown permissions and roles", () => {
+    expect(parsePermissionMatrix({ delete_tribe: ["admin"] }).ok).toBe(false);
+    expect(parsePermissionMatrix({ invite: ["owner"] }).ok).toBe(false);
+    expect(parsePermissionMatrix(["invite"]).ok).toBe(false);
+  });
+});
+
+describe("role names", () => {
+  it("trims names and drops blanks", () => {
+    expect(parseRoleNames({ leader: "  Captain ", member: "" })).toEqual({
+      ok: true,
+      value: { leader: "Captain" },
+    });
+  });
+
+  it("rejects long names and unknown roles", () => {
+    expect(parseRoleNames({ leader: "x".repeat(31) }).ok).toBe(false);
+    expect(parseRoleNames({ owner: "Boss" }).ok).toBe(false);
+  });
+
+  it("returns null when the tribe uses the default label", () => {
+    expect(tribeRoleName({ role_names: { admin: "Pacer" } }, "admin")).toBe("Pacer");
+    expect(tribeRoleName({ role_names: { admin: "Pacer" } }, "member")).toBeNull();
+    expect(tribeRoleName(null, "leader")).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import type {
+  TribeMemberRole,
+  TribeMemberStatus,
+  TribePermission,
+  TribePermissionMatrix,
+  TribeSettings,
+} from "@/lib/types";
+
+export const TRIBE_PERMISSIONS: readonly TribePermission[] = [
+  "create_events",
+  "approve_requests",
+  "invite",
+  "rotate_invite_code",
+  "moderate_moments",
+  "ban_members",
+];
+
+export const TRIBE_ROLES: readonly TribeMemberRole[] = ["leader", "admin", "member"];
+
+/**
+ * Before per-tribe permissions every check was "leader or admin", so that's
+ * what a tribe without settings.permissions gets. Keep in sync with
+ * has_tribe_permission() in 20261103_001_tribe_permissions.sql.
+ */
+export const DEFAULT_TRIBE_PERMISSIONS: Record<TribePermission, TribeMemberRole[]> = {
+  create_events: ["leader", "admin"],
+  approve_requests: ["leader", "admin"],
+  invite: ["leader", "admin"],
+  rotate_invite_code: ["leader", "admin"],
+  moderate_moments: ["leader", "admin"],
+  ban_members: ["leader", "admin"],
+};
+
+export const MAX_ROLE_NAME_LENGTH = 30;
+
+/**
+ * A permission, or "manage": editing the tribe and its members' roles. That
+ * one isn't configurable — handing it to members would let them rewrite the
+ * matrix itself.
+ */
+export type TribeAction = TribePermission | "manage";
+
+export interface TribeAuthSubject {
+  created_by: string;
+  settings: TribeSettings | null;
+}
+
+export interface TribeViewerMembership {
+  role: TribeMemberRole;
+  status: TribeMemberStatus;
+}
+
+function isRole(value: unknown): value is TribeMemberRole {
+  return TRIBE_ROLES.includes(value as TribeMemberRole);
+}
+
+function isPermission(value: string): value is TribePermission {
+  return TRIBE_PERMISSIONS.includes(value as TribePermission);
+}
+
+/**
+ * The effective matrix: configured roles where set, defaults elsewhere.
+ * Leaders are always included, whatever the stored settings say.
+ */
+export function resolveTribePermissions(
+  settings: TribeSettings | null | undefined
+): Record<TribePermission, TribeMemberRole[]> {
+  const configured = settings?.permissions ?? {};
+  const resolved = { ...DEFAULT_TRIBE_PERMISSIONS };
+
+  for (const permission of TRIBE_PERMISSIONS) {
+    const roles = configured[permission];
+    if (!Array.isArray(roles)) continue;
+    resolved[permission] = TRIBE_ROLES.filter((role) => role === "leader" || roles.includes(role));
+  }
+
+  return resolved;
+}
+
+export function hasTribePermission(
+  tribe: TribeAuthSubject,
+  membership: TribeViewerMembership | null | undefined,
+  userId: string | null | undefined,
+  action: TribeAction
+): boolean {
+  if (!userId) return false;
+  // The creator keeps every power even without a tribe_members row
+  if (tribe.created_by === userId) return true;
+  if (!membership || membership.status !== "active") return false;
+  if (membership.role === "leader") return true;
+  if (action === "manage") return membership.role === "admin";
+  return resolveTribePermissions(tribe.settings)[action].includes(membership.role);
+}
+
+/** Every action at once, for pages deciding which controls to render */
+export function tribePermissionsFor(
+  tribe: TribeAuthSubject,
+  membership: TribeViewerMembership | null | undefined,
+  userId: string | null | undefined
+): Record<TribeAction, boolean> {
+  const actions: TribeAction[] = ["manage", ...TRIBE_PERMISSIONS];
+  return Object.fromEntries(
+    actions.map((action) => [action, hasTribePermission(tribe, membership, userId, action)])
+  ) as Record<TribeAction, boolean>;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/** Validate a matrix from the settings form. Unknown keys or roles are errors. */
+export function parsePermissionMatrix(input: unknown): ParseResult<TribePermissionMatrix> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, error: "permissions must be an object" };
+  }
+
+  const matrix: TribePermissionMatrix = {};
+  for (const [key, roles] of Object.entries(input)) {
+    if (!isPermission(key)) return { ok: false, error: `Unknown permission: ${key}` };
+    if (!Array.isArray(roles) || !roles.every(isRole)) {
+      return { ok: false, error: `Invalid roles for ${key}` };
+    }
+    matrix[key] = TRIBE_ROLES.filter((role) => role === "leader" || roles.includes(role));
+  }
+
+  return { ok: true, value: matrix };
+}
+
+/** Validate custom role names. Blank names fall back to the built-in label. */
+export function parseRoleNames(input: unknown): ParseResult<Partial<Record<TribeMemberRole, string>>> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, error: "role_names must be an object" };
+  }
+
+  const names: Partial<Record<TribeMemberRole, string>> = {};
+  for (const [role, name] of Object.entries(input)) {
+    if (!isRole(role)) return { ok: false, error: `Unknown role: ${role}` };
+    if (name === null || name === undefined) continue;
+    if (typeof name !== "string") return { ok: false, error: `Invalid name for ${role}` };
+    const trimmed = name.trim();
+    if (trimmed.length > MAX_ROLE_NAME_LENGTH) {
+      return { ok: false, error: `Role names are at most ${MAX_ROLE_NAME_LENGTH} characters` };
+    }
+    if (trimmed) names[role] = trimmed;
+  }
+
+  return { ok: true, value: names };
+}
+
+/** The tribe's own name for a role, or null to use the translated default */
+export function tribeRoleName(
+  settings: TribeSettings | null | undefined,
+  role: TribeMemberRole
+): string | null {
+  return settings?.role_names?.[role]?.trim() || null;
+}
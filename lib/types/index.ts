@@ -52,10 +52,50 @@ export type TranslationFieldName =
 export type PriceType = 'free' | 'paid' | 'donation';
 
 export interface TicketTier {
+  /** Stable id assigned by the database; orders reference tiers by it */
+  id?: string;
   name: string;
   price: number;
   currency: string;
   description?: string;
+  /** Tickets on sale for this tier; unset means limited only by event capacity */
+  quantity?: number | null;
+}
+
+// Ticket orders (paid events)
+export type TicketOrderStatus = 'pending' | 'paid' | 'cancelled' | 'expired' | 'refunded';
+
+export interface TicketOrderItem {
+  id: string;
+  order_id: string;
+  tier_id: string;
+  tier_name: string;
+  unit_price: number;
+  currency: string;
+  quantity: number;
+}
+
+export interface TicketOrder {
+  id: string;
+  event_id: string;
+  user_id: string;
+  status: TicketOrderStatus;
+  provider: string;
+  provider_ref: string | null;
+  reference_code: string;
+  total_amount: number;
+  currency: string;
+  rsvp_id: string | null;
+  expires_at: string;
+  paid_at: string | null;
+  verified_by: string | null;
+  cancelled_at: string | null;
+  receipt_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  ticket_order_items?: TicketOrderItem[];
+  profiles?: Profile;
 }
 
 export interface ContentTranslation {
@@ -122,6 +162,8 @@ export interface Profile {
   can_blog?: boolean;
   /** Opt-out of tribe-leader user search. Defaults true (migration 20261018). */
   discoverable?: boolean;
+  /** IANA timezone for quiet hours and digests; null means Đà Lạt */
+  timezone?: string | null;
   follower_count?: number;
   following_count?: number;
   created_at: string;
@@ -170,14 +212,37 @@ export type VenueType =
   | 'vegan'
   | 'other';
 
+export interface TimeRange {
+  open: string; // HH:MM
+  close: string; // HH:MM, at or before open means it closes after midnight
+}
+
+// A single range (legacy shape), split shifts, or closed all day
+export type DayHours = TimeRange | TimeRange[] | 'closed';
+
 export interface OperatingHours {
-  monday?: { open: string; close: string } | 'closed';
-  tuesday?: { open: string; close: string } | 'closed';
-  wednesday?: { open: string; close: string } | 'closed';
-  thursday?: { open: string; close: string } | 'closed';
-  friday?: { open: string; close: string } | 'closed';
-  saturday?: { open: string; close: string } | 'closed';
-  sunday?: { open: string; close: string } | 'closed';
+  monday?: DayHours;
+  tuesday?: DayHours;
+  wednesday?: DayHours;
+  thursday?: DayHours;
+  friday?: DayHours;
+  saturday?: DayHours;
+  sunday?: DayHours;
+}
+
+// once: starts_on..ends_on; yearly: same month/day span every year (Tết,
+// festivals); monthly_weekday: the same nth weekday as starts_on every month
+export type HoursExceptionRecurrence = 'once' | 'yearly' | 'monthly_weekday';
+
+// Special hours or a closure that replaces the weekly hours on matching dates
+export interface HoursException {
+  id: string;
+  label: string | null;
+  starts_on: string; // YYYY-MM-DD
+  ends_on: string | null; // inclusive; for monthly_weekday the last date the rule applies
+  recurrence: HoursExceptionRecurrence;
+  closed: boolean;
+  ranges: TimeRange[];
 }
 
 export interface VenuePhoto {
@@ -210,6 +275,7 @@ export interface Venue {
 
   // Details
   operating_hours: OperatingHours | null;
+  hours_exceptions: HoursException[];
   has_wifi: boolean;
   has_parking: boolean;
   has_outdoor_seating: boolean;
@@ -253,6 +319,8 @@ export interface VenueMapMarker {
   longitude: number;
   logo_url: string | null;
   is_verified: boolean;
+  operating_hours: OperatingHours | null;
+  hours_exceptions: HoursException[];
   upcoming_event_count: number;
   has_happening_now: boolean;
 }
@@ -270,6 +338,7 @@ export interface VenueListItem {
   price_range: string | null;
   tags: string[];
   operating_hours: OperatingHours | null;
+  hours_exceptions: HoursException[];
   upcoming_event_count: number;
   has_happening_now: boolean;
 }
@@ -296,8 +365,23 @@ export type TribeMemberStatus = 'active' | 'banned';
 export type TribeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
 export type TribeEventVisibility = 'public' | 'members_only';
 
+/** What a tribe lets its roles do (lib/tribes/permissions.ts) */
+export type TribePermission =
+  | 'create_events'
+  | 'approve_requests'
+  | 'invite'
+  | 'rotate_invite_code'
+  | 'moderate_moments'
+  | 'ban_members';
+
+/** Roles granted each permission; leaders and the creator always have all of them */
+export type TribePermissionMatrix = Partial<Record<TribePermission, TribeMemberRole[]>>;
+
 export interface TribeSettings {
   avatar_url?: string | null;
+  permissions?: TribePermissionMatrix;
+  /** Display names for roles, e.g. { leader: 'Captain', member: 'Runner' } */
+  role_names?: Partial<Record<TribeMemberRole, string>>;
   [key: string]: unknown;
 }
 
@@ -362,6 +446,11 @@ export interface TribeInvitation {
   name: string | null;
   token: string;
   status: TribeInvitationStatus;
+  channel: InviteChannel;
+  /** E.164, for sms / whatsapp / zalo invites */
+  phone: string | null;
+  delivery_status: InviteDeliveryStatus | null;
+  delivery_error: string | null;
   claimed_by: string | null;
   personal_note: string | null;
   sent_at: string | null;
@@ -402,6 +491,15 @@ export interface TribeInvitationByToken {
 
 export type InviteChannel = 'email' | 'sms' | 'whatsapp' | 'zalo' | 'in_app';
 
+/** Channels that reach a phone number (see lib/invites) */
+export type PhoneInviteChannel = Extract<InviteChannel, 'sms' | 'whatsapp' | 'zalo'>;
+
+/**
+ * What the channel's provider last reported for one invitation. Feeds
+ * InvitationStatus: anything but 'failed' counts as sent.
+ */
+export type InviteDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed';
+
 export interface InviteRecipient {
   identifier: string; // email, phone, or user_id depending on channel
   name?: string;
@@ -418,6 +516,8 @@ export interface InviteResult {
   success: boolean;
   error?: string;
   inviteId?: string;
+  channel?: InviteChannel;
+  deliveryStatus?: InviteDeliveryStatus;
 }
 
 export interface Event {
@@ -444,6 +544,8 @@ export interface Event {
   ends_at: string | null;
   timezone: string;
   capacity: number | null;
+  // Minutes a waitlisted guest has to claim a freed spot
+  waitlist_claim_minutes: number;
   // Online event support
   is_online: boolean;
   online_link: string | null;
@@ -454,6 +556,10 @@ export interface Event {
   // Pricing
   price_type: PriceType | null;
   ticket_tiers: TicketTier[] | null;
+  // When RSVPs and ticket sales open to everyone (null = already open)
+  rsvp_opens_at: string | null;
+  // Members with an early-access reward may RSVP before rsvp_opens_at
+  loyalty_early_access: boolean;
   status: "draft" | "published" | "cancelled";
   created_by: string;
   created_at: string;
@@ -526,6 +632,8 @@ export interface PlusOneGuest {
   email: string | null;
   invitation_id: string | null;
   sort_order: number;
+  checked_in_at: string | null;
+  checked_in_by: string | null;
   created_at: string;
 }
 
@@ -546,6 +654,24 @@ export interface Rsvp {
   plus_one_guests?: PlusOneGuest[];
 }
 
+// A freed spot held for one waitlisted guest until expires_at
+export type WaitlistOfferStatus = "pending" | "claimed" | "declined" | "expired" | "withdrawn";
+
+export interface WaitlistOffer {
+  id: string;
+  event_id: string;
+  rsvp_id: string;
+  user_id: string;
+  spots: number;
+  status: WaitlistOfferStatus;
+  offered_at: string;
+  expires_at: string;
+  responded_at: string | null;
+  notified_at: string | null;
+  // Joined data
+  profiles?: Profile;
+}
+
 export interface EventCounts {
   event_id: string;
   going_count: number;
@@ -650,6 +776,8 @@ export interface FestivalEvent {
   event_type: FestivalEventType;
   is_highlighted: boolean;
   sort_order: number;
+  /** Schedule grid column; null falls back to the event's location_name */
+  stage: string | null;
   added_at: string;
   added_by: string | null;
   // Joined data
@@ -657,6 +785,13 @@ export interface FestivalEvent {
   festivals?: Festival;
 }
 
+export interface FestivalAgendaItem {
+  user_id: string;
+  festival_id: string;
+  event_id: string;
+  created_at: string;
+}
+
 export type FestivalUpdateType = 'announcement' | 'schedule_change' | 'highlight' | 'reminder';
 
 export interface FestivalUpdate {
@@ -667,6 +802,8 @@ export interface FestivalUpdate {
   image_urls: string[];
   source_url: string | null;
   update_type: FestivalUpdateType;
+  /** schedule_change only: sessions whose starrers were notified */
+  affected_event_ids: string[];
   is_pinned: boolean;
   created_by: string;
   posted_at: string;
@@ -1143,6 +1280,11 @@ export interface EventInvitation {
   name: string | null;
   token: string;
   status: InvitationStatus;
+  channel: InviteChannel;
+  /** E.164, for sms / whatsapp / zalo invites */
+  phone: string | null;
+  delivery_status: InviteDeliveryStatus | null;
+  delivery_error: string | null;
   rsvp_status: InvitationRsvpStatus | null;
   claimed_by: string | null;
   sent_at: string | null;
@@ -1172,6 +1314,8 @@ export interface InviteQuota {
   daily_count: number;
   weekly_count: number;
   week_start: string;
+  /** Today's count by channel, e.g. { email: 12, zalo: 3 } */
+  channel_counts: Partial<Record<InviteChannel, number>>;
 }
 
 export interface InviteQuotaCheck {
@@ -1233,8 +1377,12 @@ export interface EventSeries {
   first_occurrence: string;
   rrule_until: string | null;
   rrule_count: number | null;
+  exdates: string[];  // EXDATE: dates skipped by the rule (YYYY-MM-DD)
+  rdates: string[];   // RDATE: one-off dates added to the rule (YYYY-MM-DD)
   status: SeriesStatus;
   instances_generated_until: string | null;
+  // Set on the second half when "this and following" changed the schedule
+  split_from_series_id: string | null;
   created_at: string;
   updated_at: string;
   // Joined data
@@ -1243,12 +1391,32 @@ export interface EventSeries {
   tribes?: Tribe;
 }
 
+// Which occurrences an edit to a series event applies to (mirrors PromoUpdateScope)
+export type SeriesUpdateScope = 'this_event' | 'future' | 'all';
+
+/**
+ * Field-level changes a 'modified' / 'rescheduled' exception applies on top of
+ * the series template. Absent keys follow the template.
+ */
+export interface SeriesOccurrenceOverrides {
+  date?: string;              // YYYY-MM-DD — only on 'rescheduled'
+  starts_at_time?: string;    // HH:MM, Đà Lạt time
+  duration_minutes?: number;
+  venue_id?: string | null;
+  location_name?: string | null;
+  address?: string | null;
+  google_maps_url?: string | null;
+  capacity?: number | null;
+  description?: string | null;
+}
+
 export interface SeriesException {
   id: string;
   series_id: string;
   original_date: string;
   exception_type: ExceptionType;
   new_event_id: string | null;
+  overrides: SeriesOccurrenceOverrides | null;
   reason: string | null;
   created_at: string;
   created_by: string;
@@ -1268,15 +1436,20 @@ export interface RecurrenceFormData {
   isRecurring: boolean;
   frequency: RecurrenceFrequency;
   interval: number;
-  weekDays: string[];  // ["MO", "TU", "WE", "TH", "FR", "SA", "SU"]
-  monthDay: number | null;  // 1-31 for specific day
-  monthWeekDay: {
+  weekDays: string[];  // ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] (BYDAY without position)
+  monthDays: number[];  // BYMONTHDAY: 1-31, negative counts back from month end (-1 = last day)
+  monthWeekDays: {
     week: number;  // 1-5 (-1 for last)
     day: string;   // "MO", "TU", etc.
-  } | null;
+  }[];  // BYDAY with position, e.g. 1MO,3MO
+  setPositions: number[];  // BYSETPOS, e.g. [-1] with MO-FR = last weekday of the month
   endType: 'never' | 'count' | 'date';
   endCount?: number;
   endDate?: string;  // ISO date string
+  // RFC 5545 EXDATE/RDATE (YYYY-MM-DD). These are not part of the RRULE value;
+  // they live in event_series.exdates / event_series.rdates.
+  excludeDates: string[];
+  extraDates: string[];
 }
 
 // Preset recurrence patterns for quick selection
@@ -1348,9 +1521,71 @@ export interface StreamChatMessageWithUser {
   user_avatar: string | null;
   content: string;
   message_type: StreamChatMessageType;
+  /** Set on moderation audit entries (system messages) */
+  metadata?: StreamChatAuditMetadata | null;
   created_at: string;
 }
 
+export type StreamChatAuditAction =
+  | 'slow_mode'
+  | 'followers_only'
+  | 'timeout'
+  | 'ban'
+  | 'unban'
+  | 'pin'
+  | 'unpin'
+  | 'delete'
+  | 'moderator_added'
+  | 'moderator_removed';
+
+export interface StreamChatAuditMetadata {
+  action: StreamChatAuditAction;
+  target_user_id?: string;
+  target_name?: string;
+  seconds?: number;
+  enabled?: boolean;
+  message_id?: string | null;
+}
+
+/** Blocked chat terms, one list per language; every list applies to every message */
+export type StreamChatBlockedWords = Partial<Record<ContentLocale, string[]>>;
+
+/** get_stream_chat_state(): moderator-only fields are absent for everyone else */
+export interface StreamChatState {
+  slow_mode_seconds: number;
+  followers_only: boolean;
+  can_moderate: boolean;
+  pinned: StreamChatMessageWithUser | null;
+  /** The caller's own ban (expires_at null) or timeout */
+  restriction: { expires_at: string | null } | null;
+  blocked_words?: StreamChatBlockedWords;
+  moderators?: { user_id: string; user_name: string | null }[];
+  bans?: { user_id: string; user_name: string | null; expires_at: string | null }[];
+}
+
+export interface StreamRecording {
+  id: string;
+  stream_id: string | null;
+  event_id: string;
+  moment_id: string;
+  cf_video_uid: string;
+  recorded_at: string;
+  duration_seconds: number | null;
+  created_at: string;
+}
+
+/** A stored chat message placed on a recording's timeline */
+export interface ReplayChatMessage extends StreamChatMessageWithUser {
+  offset_seconds: number;
+}
+
+/** Chapter marker derived from a highlight message */
+export interface ReplayChapter {
+  id: string;
+  title: string;
+  offset_seconds: number;
+}
+
 // Cloudflare Stream API types
 export interface CloudflareStreamInput {
   uid: string;
@@ -1379,7 +1614,7 @@ export interface CloudflareStreamInput {
 // Comment Types
 // ============================================
 
-export type CommentTargetType = 'event' | 'moment';
+export type CommentTargetType = 'event' | 'moment' | 'tribe';
 
 export interface Comment {
   id: string;
@@ -1416,6 +1651,8 @@ export interface CommentWithProfile {
   reply_count: number;
   source_locale: string | null;
   created_at: string;
+  /** Tribe posts only: pinned as an announcement by a leader/admin */
+  is_pinned?: boolean;
   username: string | null;
   display_name: string | null;
   avatar_url: string | null;
@@ -1520,8 +1757,21 @@ export interface DraftMaterial {
 // RSVP Questionnaire Types
 // ============================================
 
-export type QuestionType = 'single_choice' | 'multi_choice' | 'text';
-export type QuestionCategory = 'logistics' | 'dietary' | 'contribution' | 'personal' | 'custom';
+export type QuestionType =
+  | 'single_choice'
+  | 'multi_choice'
+  | 'text'
+  | 'scale'
+  | 'nps'
+  | 'ranking'
+  | 'number'
+  | 'date'
+  | 'phone'
+  | 'file';
+export type QuestionCategory = 'logistics' | 'dietary' | 'contribution' | 'personal' | 'custom' | 'feedback';
+
+// 'rsvp' is answered when RSVP'ing; 'post_event' is the survey sent after the event
+export type QuestionnaireKind = 'rsvp' | 'post_event';
 
 // Multilingual text - keyed by locale
 export type MultilingualText = Partial<Record<Locale, string>>;
@@ -1531,6 +1781,19 @@ export interface QuestionOption {
   label: MultilingualText;
 }
 
+// Branching rule on an earlier answer. 'equals'/'not_equals' test for the
+// option value (membership for multi-choice); 'answered' needs no value.
+export type QuestionConditionOperator = 'equals' | 'not_equals' | 'answered';
+
+export interface QuestionCondition {
+  question_id: string;
+  operator: QuestionConditionOperator;
+  value?: string;
+}
+
+// Max attendees per option value, e.g. { shuttle: 20 }
+export type OptionCapacities = Record<string, number>;
+
 export interface QuestionTemplate {
   id: string;
   slug: string;
@@ -1548,6 +1811,7 @@ export interface QuestionTemplate {
 export interface EventQuestionnaire {
   id: string;
   event_id: string;
+  kind: QuestionnaireKind;
   is_enabled: boolean;
   intro_text: MultilingualText | null;
   created_at: string;
@@ -1563,6 +1827,9 @@ export interface EventQuestion {
   custom_options: QuestionOption[] | null;
   custom_is_required: boolean | null;
   custom_description_text: MultilingualText | null;
+  show_if: QuestionCondition | null;
+  required_if: QuestionCondition | null;
+  option_capacities: OptionCapacities | null;
   sort_order: number;
   created_at: string;
   // Joined data from template
@@ -1579,13 +1846,18 @@ export interface ResolvedQuestion {
   description_text: MultilingualText | null;
   options: QuestionOption[] | null;
   is_required: boolean;
+  show_if: QuestionCondition | null;
+  required_if: QuestionCondition | null;
+  option_capacities: OptionCapacities | null;
+  // Going attendees per option value, for capacity checks
+  option_counts: Record<string, number> | null;
 }
 
 export interface RsvpResponse {
   id: string;
   rsvp_id: string;
   question_id: string;
-  response_value: string | string[]; // string for text/single_choice, array for multi_choice
+  response_value: string | string[]; // string for text/single_choice/scale/nps/number/date/phone/file (URL), array for multi_choice/ranking
   created_at: string;
   updated_at: string;
 }
@@ -1733,7 +2005,8 @@ export type PointAction =
   | 'livestream_broadcast'
   | 'feedback_submit'
   | 'admin_bonus'
-  | 'penalty';
+  | 'penalty'
+  | 'point_reversal';
 
 export type RewardType = 'badge' | 'feature' | 'discount' | 'early_access' | 'priority_support' | 'profile_badge' | 'custom_perk';
 
@@ -1814,6 +2087,59 @@ export interface UserReward {
   loyalty_rewards?: LoyaltyReward;
 }
 
+// Points catalog (`rewards`) and what members claimed from it (`reward_redemptions`)
+export interface CatalogReward {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string;
+  points_cost: number;
+  min_tier: string | null;
+  reward_type: RewardType | null;
+  discount_percentage: number | null;
+  discount_fixed_amount: number | null;
+  discount_currency: string;
+  early_access_hours: number | null;
+  // Set on perks a host issued; honoured at that host's events only
+  host_id: string | null;
+  is_active: boolean;
+}
+
+export type RewardRedemptionStatus = 'pending' | 'approved' | 'fulfilled' | 'cancelled' | 'expired';
+
+export interface RewardRedemption {
+  id: string;
+  user_id: string;
+  reward_id: string;
+  points_spent: number;
+  status: RewardRedemptionStatus;
+  // Custom perks only: shown to the host at check-in
+  redemption_code: string | null;
+  redeemed_at: string;
+  used_at: string | null;
+  used_for_reference_type: 'event' | 'ticket_order' | null;
+  used_for_reference_id: string | null;
+  // Joined data
+  rewards?: CatalogReward;
+}
+
+export type LoyaltyAnomalyKind = 'daily_cap' | 'reversal_churn';
+
+// Suspicious earning pattern for admins to review (one row per user, kind,
+// activity and Đà Lạt day)
+export interface LoyaltyAnomalyFlag {
+  id: string;
+  user_id: string;
+  kind: LoyaltyAnomalyKind;
+  activity_type: string;
+  flagged_on: string;
+  occurrences: number;
+  details: Record<string, number>;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+}
+
 export interface LoyaltyStatus {
   user_id: string;
   current_tier: LoyaltyTier;
@@ -1919,7 +2245,8 @@ export const POINT_VALUES: Record<PointAction, number> = {
   livestream_broadcast: 25,
   feedback_submit: 5,
   admin_bonus: 0, // Variable
-  penalty: 0 // Variable (negative)
+  penalty: 0, // Variable (negative)
+  point_reversal: 0 // Negates the original award
 };
 
 // ============================================
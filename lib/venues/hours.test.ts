@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  exceptionMatches,
+  getRangesForDate,
+  getVenueStatus,
+  isVenueOpenAt,
+  isVenueOpenThroughout,
+  normalizeDayHours,
+  parseVenueDateTime,
+  toVenueDateKey,
+  type VenueHours,
+} from "./hours";
+import type { HoursException } from "@/lib/types";
+
+// Đà Lạt wall-clock time as an instant
+function at(value: string): Date {
+  return parseVenueDateTime(value)!;
+}
+
+function exception(overrides: Partial<HoursException> = {}): HoursException {
+  return {
+    id: "ex-1",
+    label: "Tết",
+    starts_on: "2026-02-16",
+    ends_on: "2026-02-20",
+    recurrence: "once",
+    closed: true,
+    ranges: [],
+    ...overrides,
+  };
+}
+
+const everyDay = { open: "07:00", close: "22:00" };
+
+const cafe: VenueHours = {
+  operating_hours: {
+    monday: everyDay,
+    tuesday: everyDay,
+    wednesday: everyDay,
+    thursday: everyDay,
+    friday: [
+      { open: "07:00", close: "11:00" },
+      { open: "17:00", close: "02:00" },
+    ],
+    saturday: { open: "18:00", close: "02:00" },
+    sunday: "closed",
+  },
+  hours_exceptions: [],
+};
+
+describe("parseVenueDateTime", () => {
+  it("reads datetime-local values as Đà Lạt time", () => {
+    expect(at("2026-11-16T09:30").toISOString()).toBe("2026-11-16T02:30:00.000Z");
+    expect(toVenueDateKey(new Date("2026-11-16T18:00:00Z"))).toBe("2026-11-17");
+  });
+
+  it("rejects other formats", () => {
+    expect(parseVenueDateTime("2026-11-16")).toBeNull();
+    expect(parseVenueDateTime("2026-11-16T25:00")).toBeNull();
+  });
+});
+
+describe("normalizeDayHours", () => {
+  it("accepts the legacy single range, split shifts and closed days", () => {
+    expect(normalizeDayHours(everyDay)).toEqual([everyDay]);
+    expect(normalizeDayHours("closed")).toEqual([]);
+    expect(normalizeDayHours(undefined)).toEqual([]);
+    expect(normalizeDayHours([everyDay, { open: "bad", close: "23:00" }])).toEqual([everyDay]);
+  });
+});
+
+describe("isVenueOpenAt", () => {
+  it("uses the weekday hours", () => {
+    expect(isVenueOpenAt(cafe, at("2026-11-16T09:00"))).toBe(true);
+    expect(isVenueOpenAt(cafe, at("2026-11-16T22:00"))).toBe(false);
+    expect(isVenueOpenAt(cafe, at("2026-11-22T12:00"))).toBe(false);
+  });
+
+  it("handles split shifts", () => {
+    expect(isVenueOpenAt(cafe, at("2026-11-20T10:00"))).toBe(true);
+    expect(isVenueOpenAt(cafe, at("2026-11-20T14:00"))).toBe(false);
+    expect(isVenueOpenAt(cafe, at("2026-11-20T20:00"))).toBe(true);
+  });
+
+  it("keeps a past-midnight close open into the next day", () => {
+    // Saturday's 18:00-02:00 runs into Sunday, which is otherwise closed
+    expect(isVenueOpenAt(cafe, at("2026-11-22T01:30"))).toBe(true);
+    expect(isVenueOpenAt(cafe, at("2026-11-22T02:00"))).toBe(false);
+  });
+
+  it("is false for venues without hours", () => {
+    expect(isVenueOpenAt({ operating_hours: null }, at("2026-11-16T09:00"))).toBe(false);
+  });
+});
+
+describe("exceptions", () => {
+  it("closes for a one-off date range", () => {
+    const venue = { ...cafe, hours_exceptions: [exception()] };
+    expect(isVenueOpenAt(venue, at("2026-02-17T09:00"))).toBe(false);
+    expect(isVenueOpenAt(venue, at("2026-02-23T09:00"))).toBe(true);
+  });
+
+  it("replaces the weekly hours with special hours", () => {
+    const venue = {
+      ...cafe,
+      hours_exceptions: [
+        exception({ closed: false, starts_on: "2026-11-16", ends_on: null, ranges: [{ open: "15:00", close: "23:30" }] }),
+      ],
+    };
+    expect(isVenueOpenAt(venue, at("2026-11-16T09:00"))).toBe(false);
+    expect(isVenueOpenAt(venue, at("2026-11-16T23:00"))).toBe(true);
+    expect(getRangesForDate(venue, "2026-11-16").exception?.label).toBe("Tết");
+  });
+
+  it("repeats yearly, including spans over new year", () => {
+    const yearly = exception({ recurrence: "yearly", starts_on: "2025-12-30", ends_on: "2026-01-02" });
+    expect(exceptionMatches(yearly, "2027-12-31")).toBe(true);
+    expect(exceptionMatches(yearly, "2028-01-02")).toBe(true);
+    expect(exceptionMatches(yearly, "2028-01-03")).toBe(false);
+  });
+
+  it("repeats on the same weekday of every month", () => {
+    // 2nd Monday of each month from November 2026
+    const monthly = exception({ recurrence: "monthly_weekday", starts_on: "2026-11-09", ends_on: null });
+    expect(exceptionMatches(monthly, "2026-12-14")).toBe(true);
+    expect(exceptionMatches(monthly, "2026-12-07")).toBe(false);
+    expect(exceptionMatches(monthly, "2026-10-12")).toBe(false);
+  });
+
+  it("prefers a one-off exception over a recurring one", () => {
+    const venue = {
+      ...cafe,
+      hours_exceptions: [
+        exception({ id: "yearly", recurrence: "yearly", starts_on: "2025-11-16", ends_on: null }),
+        exception({ id: "once", closed: false, starts_on: "2026-11-16", ends_on: null, ranges: [everyDay] }),
+      ],
+    };
+    expect(getRangesForDate(venue, "2026-11-16").exception?.id).toBe("once");
+    expect(isVenueOpenAt(venue, at("2026-11-16T09:00"))).toBe(true);
+  });
+});
+
+describe("getVenueStatus", () => {
+  it("reports when an open venue closes, across midnight", () => {
+    expect(getVenueStatus(cafe, at("2026-11-20T23:00"))).toMatchObject({ isOpen: true, closesAt: "02:00" });
+  });
+
+  it("reports the next opening when closed", () => {
+    expect(getVenueStatus(cafe, at("2026-11-20T13:00"))?.opensAt).toEqual({
+      weekday: "friday",
+      time: "17:00",
+      isToday: true,
+    });
+    expect(getVenueStatus(cafe, at("2026-11-22T12:00"))?.opensAt).toEqual({
+      weekday: "monday",
+      time: "07:00",
+      isToday: false,
+    });
+  });
+
+  it("skips a closure when looking for the next opening", () => {
+    const venue = { ...cafe, hours_exceptions: [exception()] };
+    const status = getVenueStatus(venue, at("2026-02-17T09:00"));
+    expect(status?.exception?.label).toBe("Tết");
+    expect(status?.opensAt).toMatchObject({ weekday: "saturday", time: "18:00" });
+  });
+
+  it("has no closing time for venues open around the clock", () => {
+    const allDay = { open: "00:00", close: "00:00" };
+    const venue: VenueHours = {
+      operating_hours: {
+        monday: allDay,
+        tuesday: allDay,
+        wednesday: allDay,
+        thursday: allDay,
+        friday: allDay,
+        saturday: allDay,
+        sunday: allDay,
+      },
+    };
+    expect(getVenueStatus(venue, at("2026-11-16T03:00"))).toMatchObject({ isOpen: true, closesAt: null });
+  });
+
+  it("is null without hours", () => {
+    expect(getVenueStatus({ operating_hours: null, hours_exceptions: [] })).toBeNull();
+  });
+});
+
+describe("isVenueOpenThroughout", () => {
+  it("requires the venue to stay open for the whole event", () => {
+    expect(isVenueOpenThroughout(cafe, at("2026-11-20T19:00"), at("2026-11-21T01:00"))).toBe(true);
+    expect(isVenueOpenThroughout(cafe, at("2026-11-20T10:00"), at("2026-11-20T12:00"))).toBe(false);
+    expect(isVenueOpenThroughout(cafe, at("2026-11-22T10:00"), at("2026-11-22T10:00"))).toBe(false);
+  });
+});
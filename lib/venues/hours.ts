@@ -0,0 +1,283 @@
+import type {
+  DayHours,
+  HoursException,
+  HoursExceptionRecurrence,
+  OperatingHours,
+  TimeRange,
+} from "@/lib/types";
+
+/**
+ * Venue opening-hours evaluator, shared by the server (open-venue search,
+ * structured data) and the client (hours badge, event form warning).
+ *
+ * Everything is evaluated in Đà Lạt time (Asia/Ho_Chi_Minh). Vietnam has no
+ * daylight saving, so a fixed UTC+7 offset is exact and keeps this free of
+ * timezone libraries.
+ *
+ * Each day resolves to a list of ranges: special-date exceptions replace the
+ * weekly hours, and a range whose close is at or before its open runs past
+ * midnight into the next day.
+ */
+
+export interface VenueHours {
+  operating_hours: OperatingHours | null;
+  hours_exceptions?: HoursException[] | null;
+}
+
+export interface VenueStatus {
+  isOpen: boolean;
+  /** HH:MM the current opening ends (null when open around the clock) */
+  closesAt: string | null;
+  /** Next opening when closed (null when nothing is scheduled soon) */
+  opensAt: { weekday: keyof OperatingHours; time: string; isToday: boolean } | null;
+  /** Special hours or closure in effect today */
+  exception: HoursException | null;
+}
+
+const UTC_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// How far ahead to look for the next opening (covers a long Tết closure)
+const LOOKAHEAD_DAYS = 31;
+
+// Indexed like Date.getUTCDay()
+export const WEEKDAYS: (keyof OperatingHours)[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// More specific exceptions win when several match the same date
+const RECURRENCE_PRIORITY: Record<HoursExceptionRecurrence, number> = {
+  once: 0,
+  yearly: 1,
+  monthly_weekday: 2,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-4]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})$/;
+
+/** Minutes after midnight for "HH:MM" ("24:00" is end of day), or null if malformed */
+export function parseTime(time: string): number | null {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+/** Legacy single ranges, split shifts and "closed" as one list of ranges */
+export function normalizeDayHours(day: DayHours | null | undefined): TimeRange[] {
+  if (!day || day === "closed") return [];
+  const ranges = Array.isArray(day) ? day : [day];
+  return ranges.filter((r) => parseTime(r.open) !== null && parseTime(r.close) !== null);
+}
+
+// Calendar date at UTC midnight, so getUTC* reads the date parts back
+function dateKeyToUtc(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function utcToDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return utcToDateKey(new Date(dateKeyToUtc(dateKey).getTime() + days * DAY_MS));
+}
+
+export function weekdayOf(dateKey: string): keyof OperatingHours {
+  return WEEKDAYS[dateKeyToUtc(dateKey).getUTCDay()];
+}
+
+/** Đà Lạt calendar date (YYYY-MM-DD) of an instant */
+export function toVenueDateKey(at: Date): string {
+  return utcToDateKey(new Date(at.getTime() + UTC_OFFSET_MS));
+}
+
+/** "HH:MM" in Đà Lạt time of an instant */
+export function toVenueTime(at: Date): string {
+  return new Date(at.getTime() + UTC_OFFSET_MS).toISOString().slice(11, 16);
+}
+
+// Instant at which a Đà Lạt wall-clock time on dateKey occurs
+function venueInstant(dateKey: string, minutes: number): number {
+  return dateKeyToUtc(dateKey).getTime() - UTC_OFFSET_MS + minutes * MINUTE_MS;
+}
+
+/**
+ * Parse a Đà Lạt wall-clock time as sent by a datetime-local input
+ * ("2026-02-17T19:30"). Returns null for anything else.
+ */
+export function parseVenueDateTime(value: string): Date | null {
+  const match = DATE_TIME_PATTERN.exec(value);
+  if (!match) return null;
+  const minutes = parseTime(match[2]);
+  if (minutes === null || Number.isNaN(dateKeyToUtc(match[1]).getTime())) return null;
+  return new Date(venueInstant(match[1], minutes));
+}
+
+// Same weekday and same week of the month (1st-5th), e.g. "2nd Monday"
+function sameMonthlyWeekday(a: string, b: string): boolean {
+  const da = dateKeyToUtc(a);
+  const db = dateKeyToUtc(b);
+  return (
+    da.getUTCDay() === db.getUTCDay() &&
+    Math.ceil(da.getUTCDate() / 7) === Math.ceil(db.getUTCDate() / 7)
+  );
+}
+
+/** Whether an exception applies on a Đà Lạt calendar date */
+export function exceptionMatches(exception: HoursException, dateKey: string): boolean {
+  if (!DATE_PATTERN.test(exception.starts_on)) return false;
+  const endsOn = exception.ends_on || exception.starts_on;
+
+  switch (exception.recurrence) {
+    case "once":
+      return dateKey >= exception.starts_on && dateKey <= endsOn;
+    case "yearly": {
+      // Month/day span, which may wrap over new year (Dec 30 - Jan 2)
+      const day = dateKey.slice(5);
+      const from = exception.starts_on.slice(5);
+      const to = endsOn.slice(5);
+      return from <= to ? day >= from && day <= to : day >= from || day <= to;
+    }
+    case "monthly_weekday":
+      return (
+        dateKey >= exception.starts_on &&
+        (!exception.ends_on || dateKey <= exception.ends_on) &&
+        sameMonthlyWeekday(dateKey, exception.starts_on)
+      );
+    default:
+      return false;
+  }
+}
+
+export function getExceptionForDate(
+  exceptions: HoursException[] | null | undefined,
+  dateKey: string
+): HoursException | null {
+  let match: HoursException | null = null;
+  for (const exception of exceptions ?? []) {
+    if (!exceptionMatches(exception, dateKey)) continue;
+    if (!match || RECURRENCE_PRIORITY[exception.recurrence] < RECURRENCE_PRIORITY[match.recurrence]) {
+      match = exception;
+    }
+  }
+  return match;
+}
+
+/** Opening ranges that start on a Đà Lạt calendar date, after exceptions */
+export function getRangesForDate(
+  venue: VenueHours,
+  dateKey: string
+): { ranges: TimeRange[]; exception: HoursException | null } {
+  const exception = getExceptionForDate(venue.hours_exceptions, dateKey);
+  if (exception) {
+    return { ranges: exception.closed ? [] : normalizeDayHours(exception.ranges), exception };
+  }
+  return { ranges: normalizeDayHours(venue.operating_hours?.[weekdayOf(dateKey)]), exception: null };
+}
+
+interface OpenInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Merged open intervals (epoch ms) for ranges starting on fromKey..fromKey+days.
+ * Includes the day before so last night's past-midnight close is counted.
+ */
+function getOpenIntervals(venue: VenueHours, fromKey: string, days: number): OpenInterval[] {
+  const intervals: OpenInterval[] = [];
+  for (let offset = -1; offset <= days; offset++) {
+    const dateKey = addDays(fromKey, offset);
+    for (const range of getRangesForDate(venue, dateKey).ranges) {
+      const open = parseTime(range.open)!;
+      let close = parseTime(range.close)!;
+      if (close <= open) close += 24 * 60;
+      intervals.push({ start: venueInstant(dateKey, open), end: venueInstant(dateKey, close) });
+    }
+  }
+
+  intervals.sort((a, b) => a.start - b.start);
+  const merged: OpenInterval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    // Back-to-back shifts (11:00-14:00, 14:00-22:00) count as one opening
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+export function hasOpeningHours(venue: VenueHours): boolean {
+  return !!venue.operating_hours || (venue.hours_exceptions?.length ?? 0) > 0;
+}
+
+export function isVenueOpenAt(venue: VenueHours, at: Date): boolean {
+  if (!hasOpeningHours(venue)) return false;
+  const time = at.getTime();
+  return getOpenIntervals(venue, toVenueDateKey(at), 0).some(
+    (interval) => time >= interval.start && time < interval.end
+  );
+}
+
+/** Whether the venue stays open for the whole of start..end */
+export function isVenueOpenThroughout(venue: VenueHours, start: Date, end: Date): boolean {
+  if (!hasOpeningHours(venue)) return false;
+  const from = start.getTime();
+  const to = Math.max(from, end.getTime());
+  const days = Math.ceil((to - from) / DAY_MS);
+  return getOpenIntervals(venue, toVenueDateKey(start), days).some(
+    (interval) => from >= interval.start && from < interval.end && to <= interval.end
+  );
+}
+
+/**
+ * Open/closed status at an instant, with when it closes or next opens.
+ * Returns null when the venue has no hours on file.
+ */
+export function getVenueStatus(venue: VenueHours, at: Date = new Date()): VenueStatus | null {
+  if (!hasOpeningHours(venue)) return null;
+
+  const todayKey = toVenueDateKey(at);
+  const time = at.getTime();
+  const intervals = getOpenIntervals(venue, todayKey, LOOKAHEAD_DAYS);
+  const exception = getExceptionForDate(venue.hours_exceptions, todayKey);
+  const horizon = venueInstant(addDays(todayKey, LOOKAHEAD_DAYS), 0);
+
+  const current = intervals.find((interval) => time >= interval.start && time < interval.end);
+  if (current) {
+    return {
+      isOpen: true,
+      closesAt: current.end > horizon ? null : toVenueTime(new Date(current.end)),
+      opensAt: null,
+      exception,
+    };
+  }
+
+  const next = intervals.find((interval) => interval.start > time);
+  const opensAt = next
+    ? {
+        weekday: weekdayOf(toVenueDateKey(new Date(next.start))),
+        time: toVenueTime(new Date(next.start)),
+        isToday: toVenueDateKey(new Date(next.start)) === todayKey,
+      }
+    : null;
+
+  return { isOpen: false, closesAt: null, opensAt, exception };
+}
+
+/** "07:00–11:00, 17:00–23:00" for display */
+export function formatRanges(ranges: TimeRange[]): string {
+  return ranges.map((range) => `${range.open}–${range.close}`).join(", ");
+}
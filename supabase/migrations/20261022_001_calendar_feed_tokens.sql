@@ -0,0 +1,55 @@
+-- Personal calendar feed: one secret token per user backing a webcal URL
+-- (/api/calendar/<token>/feed.ics) that streams every event they're going to
+-- or interested in, plus the series they subscribe to.
+--
+-- The token IS the credential — calendar apps can't send cookies — so it is
+-- long, random, and rotatable from Settings. Rotating invalidates every
+-- calendar app subscribed with the old URL.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  token TEXT UNIQUE NOT NULL DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  rotated_at TIMESTAMPTZ
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read their own token. No insert/update policies: writes go
+-- through get_calendar_feed_token() so the token is always server-generated.
+DROP POLICY IF EXISTS "calendar_feed_tokens_select_own" ON calendar_feed_tokens;
+CREATE POLICY "calendar_feed_tokens_select_own" ON calendar_feed_tokens
+FOR SELECT USING (user_id = auth.uid());
+
+-- Returns the caller's token, creating it on first use. p_rotate = true
+-- replaces it with a fresh one.
+CREATE OR REPLACE FUNCTION get_calendar_feed_token(p_rotate BOOLEAN DEFAULT false)
+RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_token TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_rotate THEN
+    INSERT INTO calendar_feed_tokens (user_id)
+    VALUES (v_user_id)
+    ON CONFLICT (user_id) DO UPDATE
+      SET token = encode(extensions.gen_random_bytes(24), 'hex'),
+          rotated_at = now()
+    RETURNING token INTO v_token;
+  ELSE
+    INSERT INTO calendar_feed_tokens (user_id)
+    VALUES (v_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT token INTO v_token FROM calendar_feed_tokens WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token(BOOLEAN) TO authenticated;
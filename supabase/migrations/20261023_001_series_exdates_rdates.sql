@@ -0,0 +1,18 @@
+-- RFC 5545 EXDATE/RDATE for recurring series.
+--
+-- EXDATE/RDATE are iCalendar properties alongside the RRULE, not parts of it,
+-- so they get their own columns instead of being packed into event_series.rrule:
+--   exdates — dates the rule skips ("every other Wednesday except Tết")
+--   rdates  — one-off dates added on top of the rule
+-- series_exceptions stays the per-instance record (cancel/modify after the
+-- fact); these columns describe the rule itself and are exported as-is in
+-- the series .ics download and personal calendar feeds.
+
+ALTER TABLE event_series
+  ADD COLUMN IF NOT EXISTS exdates DATE[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS rdates DATE[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN event_series.exdates IS
+  'RFC 5545 EXDATE: local dates (Asia/Ho_Chi_Minh) excluded from the RRULE';
+COMMENT ON COLUMN event_series.rdates IS
+  'RFC 5545 RDATE: local dates (Asia/Ho_Chi_Minh) added to the RRULE';
@@ -0,0 +1,597 @@
+-- Waitlist auto-promotion with claim windows
+--
+-- Previously a freed spot went straight to the next waitlisted person, who
+-- often had made other plans by then and simply never showed up. Now the spot
+-- is *offered*: it's held for that person for the event's claim window, and if
+-- they don't claim it in time the offer expires and cascades to the next
+-- person in line.
+--
+-- Spots are freed by cancel_rsvp / mark_interested, by a host marking a
+-- no-show before the event ends (toggle_no_show), and by capacity increases.
+-- Expiry + cascade runs from /api/cron/waitlist-offers, which also delivers
+-- the offer notifications (any offer with notified_at IS NULL).
+
+-- ============================================
+-- 1. Configurable claim window per event
+-- ============================================
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS waitlist_claim_minutes int NOT NULL DEFAULT 120
+  CHECK (waitlist_claim_minutes BETWEEN 15 AND 2880);
+
+COMMENT ON COLUMN events.waitlist_claim_minutes IS
+  'How long a waitlisted guest has to claim a freed spot before it moves to the next person';
+
+-- ============================================
+-- 2. Offers table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  rsvp_id uuid NOT NULL REFERENCES rsvps(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Spots held for this offer: the guest plus their plus-ones
+  spots int NOT NULL CHECK (spots > 0),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'claimed', 'declined', 'expired', 'withdrawn')),
+  offered_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  responded_at timestamptz,
+  notified_at timestamptz
+);
+
+-- At most one open offer per RSVP
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_offers_pending_rsvp
+  ON waitlist_offers (rsvp_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_expiry
+  ON waitlist_offers (expires_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_event
+  ON waitlist_offers (event_id, offered_at DESC);
+
+ALTER TABLE waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+-- Guests see their own offers, hosts see the event's whole queue.
+-- No write policies: offers only change through the functions below.
+CREATE POLICY "waitlist_offers_select_own_or_host"
+ON waitlist_offers FOR SELECT
+USING (user_id = auth.uid() OR can_manage_event(event_id));
+
+-- ============================================
+-- 3. Capacity accounting
+-- ============================================
+
+-- Spots held = going guests who haven't been marked no-show + open offers.
+-- p_exclude_user lets rsvp_event re-evaluate the caller's own spot.
+CREATE OR REPLACE FUNCTION event_spots_held(p_event_id uuid, p_exclude_user uuid DEFAULT NULL)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    (SELECT coalesce(sum(1 + plus_ones), 0)
+       FROM rsvps
+      WHERE event_id = p_event_id
+        AND status = 'going'
+        AND no_show_at IS NULL
+        AND user_id IS DISTINCT FROM p_exclude_user)
+    +
+    (SELECT coalesce(sum(spots), 0)
+       FROM waitlist_offers
+      WHERE event_id = p_event_id
+        AND status = 'pending'
+        AND expires_at > now()
+        AND user_id IS DISTINCT FROM p_exclude_user)
+  )::int;
+$$;
+
+-- ============================================
+-- 4. Offer engine
+-- ============================================
+
+-- Offer as many free spots as fit to the waitlist, FIFO. Strict order: if the
+-- next person (+ their plus-ones) doesn't fit, nobody behind them jumps ahead.
+-- People whose offer already expired keep their waitlist entry but are skipped
+-- until they re-join. Returns the number of offers created.
+CREATE OR REPLACE FUNCTION offer_waitlist_spots(p_event_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_available int;
+  v_expires_at timestamptz;
+  v_rsvp record;
+  v_count int := 0;
+BEGIN
+  SELECT * INTO v_event
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_event.status <> 'published' OR is_event_past(p_event_id) THEN
+    RETURN 0;
+  END IF;
+
+  -- Unlimited capacity: nothing to hold, everyone gets in
+  IF v_event.capacity IS NULL THEN
+    UPDATE rsvps
+    SET status = 'going'
+    WHERE event_id = p_event_id AND status = 'waitlist';
+
+    UPDATE waitlist_offers
+    SET status = 'withdrawn', responded_at = now()
+    WHERE event_id = p_event_id AND status = 'pending';
+
+    RETURN 0;
+  END IF;
+
+  v_available := v_event.capacity - event_spots_held(p_event_id);
+
+  -- The window never runs past the start time, but a spot freed at the last
+  -- minute still gets a usable window
+  v_expires_at := LEAST(
+    now() + make_interval(mins => v_event.waitlist_claim_minutes),
+    GREATEST(v_event.starts_at, now() + interval '15 minutes')
+  );
+
+  FOR v_rsvp IN
+    SELECT r.id, r.user_id, r.plus_ones
+    FROM rsvps r
+    WHERE r.event_id = p_event_id
+      AND r.status = 'waitlist'
+      AND NOT EXISTS (
+        SELECT 1 FROM waitlist_offers o
+        WHERE o.rsvp_id = r.id
+          AND (o.status = 'pending' OR (o.status = 'expired' AND o.offered_at >= r.created_at))
+      )
+    ORDER BY r.created_at ASC
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    EXIT WHEN v_available < (1 + v_rsvp.plus_ones);
+
+    INSERT INTO waitlist_offers (event_id, rsvp_id, user_id, spots, expires_at)
+    VALUES (p_event_id, v_rsvp.id, v_rsvp.user_id, 1 + v_rsvp.plus_ones, v_expires_at);
+
+    v_available := v_available - (1 + v_rsvp.plus_ones);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION offer_waitlist_spots(uuid) FROM anon, authenticated, public;
+
+-- ============================================
+-- 5. Guest actions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_offer waitlist_offers%ROWTYPE;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Lock event row to serialize with other promotions
+  PERFORM 1 FROM events WHERE id = p_event_id FOR UPDATE;
+
+  SELECT * INTO v_offer
+  FROM waitlist_offers
+  WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'no_pending_offer');
+  END IF;
+
+  IF v_offer.expires_at <= now() THEN
+    UPDATE waitlist_offers
+    SET status = 'expired', responded_at = now()
+    WHERE id = v_offer.id;
+
+    PERFORM offer_waitlist_spots(p_event_id);
+    RETURN jsonb_build_object('ok', false, 'error', 'offer_expired');
+  END IF;
+
+  UPDATE rsvps
+  SET status = 'going'
+  WHERE id = v_offer.rsvp_id AND status = 'waitlist';
+
+  IF NOT FOUND THEN
+    UPDATE waitlist_offers
+    SET status = 'withdrawn', responded_at = now()
+    WHERE id = v_offer.id;
+    RETURN jsonb_build_object('ok', false, 'error', 'offer_withdrawn');
+  END IF;
+
+  UPDATE waitlist_offers
+  SET status = 'claimed', responded_at = now()
+  WHERE id = v_offer.id;
+
+  RETURN jsonb_build_object('ok', true, 'status', 'going', 'rsvp_id', v_offer.rsvp_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_waitlist_offer(uuid) TO authenticated;
+
+-- Cancelling frees the caller's spot (if going) or declines their open offer
+-- (if waitlisted with one) — either way the spot is offered onwards.
+CREATE OR REPLACE FUNCTION cancel_rsvp(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_was_going boolean := false;
+  v_had_offer boolean := false;
+  v_offers int := 0;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Lock event row to serialize promotions
+  PERFORM 1 FROM events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  SELECT (status = 'going')
+  INTO v_was_going
+  FROM rsvps
+  WHERE event_id = p_event_id AND user_id = v_uid;
+
+  UPDATE rsvps
+  SET status = 'cancelled'
+  WHERE event_id = p_event_id AND user_id = v_uid;
+
+  UPDATE waitlist_offers
+  SET status = 'declined', responded_at = now()
+  WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending';
+  v_had_offer := FOUND;
+
+  IF v_was_going OR v_had_offer THEN
+    v_offers := offer_waitlist_spots(p_event_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'cancelled', true,
+    'offers', v_offers
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_rsvp(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_interested(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_event_status text;
+  v_rsvp_id uuid;
+  v_was_going boolean := false;
+  v_had_offer boolean := false;
+  v_offers int := 0;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Check if event is past (fast rejection before locking)
+  IF is_event_past(p_event_id) THEN
+    RAISE EXCEPTION 'event_has_ended';
+  END IF;
+
+  -- Lock event row to serialize promotions
+  SELECT status INTO v_event_status
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  IF v_event_status <> 'published' THEN
+    RAISE EXCEPTION 'event_not_published';
+  END IF;
+
+  SELECT (status = 'going') INTO v_was_going
+  FROM rsvps
+  WHERE event_id = p_event_id AND user_id = v_uid;
+
+  -- Upsert as interested (plus_ones = 0 since they're not taking spots)
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (p_event_id, v_uid, 'interested', 0)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = 'interested',
+        plus_ones = 0
+  RETURNING id INTO v_rsvp_id;
+
+  UPDATE waitlist_offers
+  SET status = 'declined', responded_at = now()
+  WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending';
+  v_had_offer := FOUND;
+
+  IF v_was_going OR v_had_offer THEN
+    v_offers := offer_waitlist_spots(p_event_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', 'interested',
+    'rsvp_id', v_rsvp_id,
+    'offers', v_offers
+  );
+END;
+$$;
+
+-- rsvp_event: spots held by open offers are off-limits to new RSVPs, and an
+-- offered guest re-RSVPing counts as claiming their offer
+CREATE OR REPLACE FUNCTION rsvp_event(p_event_id uuid, p_plus_ones int DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_capacity int;
+  v_status text;
+  v_event_status text;
+  v_spots_taken_excl_me int;
+  v_rsvp_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_plus_ones < 0 THEN
+    RAISE EXCEPTION 'invalid_plus_ones';
+  END IF;
+
+  -- Check if event is past (fast rejection before locking)
+  IF is_event_past(p_event_id) THEN
+    RAISE EXCEPTION 'event_has_ended';
+  END IF;
+
+  -- Lock event row to serialize capacity decisions
+  SELECT capacity, status
+  INTO v_capacity, v_event_status
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  IF v_event_status <> 'published' THEN
+    RAISE EXCEPTION 'event_not_published';
+  END IF;
+
+  -- Spots held EXCLUDING caller (so +1 updates and offer claims work)
+  v_spots_taken_excl_me := event_spots_held(p_event_id, v_uid);
+
+  IF v_capacity IS NULL OR (v_spots_taken_excl_me + 1 + p_plus_ones) <= v_capacity THEN
+    v_status := 'going';
+  ELSE
+    v_status := 'waitlist';
+  END IF;
+
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (p_event_id, v_uid, v_status, p_plus_ones)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = EXCLUDED.status,
+        plus_ones = EXCLUDED.plus_ones
+  RETURNING id INTO v_rsvp_id;
+
+  IF v_status = 'going' THEN
+    UPDATE waitlist_offers
+    SET status = 'claimed', responded_at = now()
+    WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', v_status,
+    'rsvp_id', v_rsvp_id
+  );
+END;
+$$;
+
+-- ============================================
+-- 6. Host actions
+-- ============================================
+
+-- Same as before, plus: a no-show marked while the event is still running
+-- frees their spot for the waitlist
+CREATE OR REPLACE FUNCTION toggle_no_show(
+  p_rsvp_id uuid,
+  p_event_id uuid,
+  p_is_no_show boolean,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Permission check
+  IF NOT can_manage_event(p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  -- Verify RSVP belongs to this event
+  IF NOT EXISTS (
+    SELECT 1 FROM rsvps WHERE id = p_rsvp_id AND event_id = p_event_id
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'rsvp_not_found');
+  END IF;
+
+  IF p_is_no_show THEN
+    -- Mark as no-show, clear check-in
+    UPDATE rsvps
+    SET
+      no_show_at = now(),
+      checkin_note = COALESCE(p_reason, checkin_note),
+      checked_in_at = NULL,
+      checked_in_by = NULL
+    WHERE id = p_rsvp_id;
+
+    PERFORM offer_waitlist_spots(p_event_id);
+  ELSE
+    -- Clear no-show (late arrival)
+    UPDATE rsvps
+    SET no_show_at = NULL
+    WHERE id = p_rsvp_id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'is_no_show', p_is_no_show);
+END;
+$$;
+
+-- Same as before, plus: open offers on ended events are withdrawn so the
+-- queue doesn't show stale offers forever
+CREATE OR REPLACE FUNCTION auto_mark_no_shows()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_withdrawn integer;
+BEGIN
+  UPDATE rsvps r
+  SET no_show_at = now()
+  FROM events e
+  WHERE r.event_id = e.id
+    AND r.status = 'going'
+    AND r.checked_in_at IS NULL
+    AND r.no_show_at IS NULL
+    AND (
+      (e.ends_at IS NOT NULL AND e.ends_at < now())
+      OR
+      (e.ends_at IS NULL AND e.starts_at + interval '4 hours' < now())
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE waitlist_offers o
+  SET status = 'withdrawn', responded_at = now()
+  FROM events e
+  WHERE o.event_id = e.id
+    AND o.status = 'pending'
+    AND (
+      (e.ends_at IS NOT NULL AND e.ends_at < now())
+      OR
+      (e.ends_at IS NULL AND e.starts_at + interval '4 hours' < now())
+    );
+
+  GET DIAGNOSTICS v_withdrawn = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'marked_count', v_count,
+    'withdrawn_offers', v_withdrawn,
+    'timestamp', now()
+  );
+END;
+$$;
+
+-- ============================================
+-- 7. Expiry + cascade (cron)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_ids uuid[];
+  v_event_id uuid;
+  v_expired int;
+  v_offered int := 0;
+BEGIN
+  WITH expired AS (
+    UPDATE waitlist_offers
+    SET status = 'expired', responded_at = now()
+    WHERE status = 'pending' AND expires_at <= now()
+    RETURNING event_id
+  )
+  SELECT count(*)::int, array_agg(DISTINCT event_id)
+  INTO v_expired, v_event_ids
+  FROM expired;
+
+  FOREACH v_event_id IN ARRAY COALESCE(v_event_ids, '{}')
+  LOOP
+    v_offered := v_offered + offer_waitlist_spots(v_event_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true, 'expired', v_expired, 'offered', v_offered);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_waitlist_offers() FROM anon, authenticated, public;
+
+-- ============================================
+-- 8. Capacity increases now offer instead of promoting
+-- ============================================
+
+CREATE OR REPLACE FUNCTION trigger_promote_on_capacity_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only offer when capacity increases or becomes unlimited
+  IF (OLD.capacity IS NOT NULL AND NEW.capacity IS NULL)
+     OR (NEW.capacity IS NOT NULL AND OLD.capacity IS NOT NULL AND NEW.capacity > OLD.capacity)
+  THEN
+    PERFORM offer_waitlist_spots(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS promote_from_waitlist(uuid);
+
+-- ============================================
+-- 9. Notification type
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'waitlist_offer';
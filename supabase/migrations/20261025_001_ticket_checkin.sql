@@ -0,0 +1,152 @@
+-- QR ticket check-in
+-- Plus-one guests get their own check-in state, and scanned tickets (possibly
+-- queued offline on the door device) are applied through one idempotent RPC
+-- that reports conflicts instead of blindly overwriting.
+
+-- ============================================
+-- 1. Check-in columns for plus-one guests
+-- ============================================
+
+ALTER TABLE plus_one_guests
+  ADD COLUMN IF NOT EXISTS checked_in_at timestamptz,
+  ADD COLUMN IF NOT EXISTS checked_in_by uuid REFERENCES auth.users(id);
+
+-- ============================================
+-- 2. RPC: Apply a scanned ticket
+-- ============================================
+-- p_kind is 'rsvp' or 'guest'. p_scanned_at is when the door scanned it,
+-- which can be well before the call when the scanner was offline.
+--
+-- Outcomes:
+--   ok=true,  status='checked_in'          first check-in for this ticket
+--   ok=true,  status='already_checked_in'  someone got there first; the
+--                                          earliest time is kept and returned
+--   ok=false, error='not_going'            RSVP was cancelled / moved off
+--                                          'going' while the scan was queued
+--   ok=false, error='ticket_not_found'     unknown id or other event
+
+CREATE OR REPLACE FUNCTION checkin_ticket(
+  p_event_id uuid,
+  p_kind text,
+  p_id uuid,
+  p_scanned_at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rsvp rsvps%ROWTYPE;
+  v_guest plus_one_guests%ROWTYPE;
+  -- Never trust a scanner clock that runs ahead of ours
+  v_at timestamptz := LEAST(COALESCE(p_scanned_at, now()), now());
+BEGIN
+  IF NOT can_manage_event(p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  IF p_kind = 'rsvp' THEN
+    SELECT * INTO v_rsvp
+    FROM rsvps
+    WHERE id = p_id AND event_id = p_event_id
+    FOR UPDATE;
+  ELSIF p_kind = 'guest' THEN
+    SELECT * INTO v_guest
+    FROM plus_one_guests
+    WHERE id = p_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+      SELECT * INTO v_rsvp
+      FROM rsvps
+      WHERE id = v_guest.rsvp_id AND event_id = p_event_id;
+    END IF;
+  ELSE
+    RETURN jsonb_build_object('ok', false, 'error', 'ticket_not_found');
+  END IF;
+
+  IF v_rsvp.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'ticket_not_found');
+  END IF;
+
+  IF v_rsvp.status <> 'going' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_going', 'rsvp_status', v_rsvp.status);
+  END IF;
+
+  IF p_kind = 'rsvp' THEN
+    IF v_rsvp.checked_in_at IS NOT NULL THEN
+      UPDATE rsvps
+      SET checked_in_at = LEAST(checked_in_at, v_at)
+      WHERE id = v_rsvp.id;
+
+      RETURN jsonb_build_object(
+        'ok', true,
+        'status', 'already_checked_in',
+        'checked_in_at', LEAST(v_rsvp.checked_in_at, v_at)
+      );
+    END IF;
+
+    UPDATE rsvps
+    SET
+      checked_in_at = v_at,
+      checked_in_by = auth.uid(),
+      no_show_at = NULL
+    WHERE id = v_rsvp.id;
+  ELSE
+    IF v_guest.checked_in_at IS NOT NULL THEN
+      UPDATE plus_one_guests
+      SET checked_in_at = LEAST(checked_in_at, v_at)
+      WHERE id = v_guest.id;
+
+      RETURN jsonb_build_object(
+        'ok', true,
+        'status', 'already_checked_in',
+        'checked_in_at', LEAST(v_guest.checked_in_at, v_at)
+      );
+    END IF;
+
+    UPDATE plus_one_guests
+    SET checked_in_at = v_at, checked_in_by = auth.uid()
+    WHERE id = v_guest.id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'status', 'checked_in', 'checked_in_at', v_at);
+END;
+$$;
+
+-- ============================================
+-- 3. RPC: Undo a guest check-in
+-- ============================================
+
+CREATE OR REPLACE FUNCTION undo_guest_checkin(
+  p_guest_id uuid,
+  p_event_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_event(p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  UPDATE plus_one_guests g
+  SET checked_in_at = NULL, checked_in_by = NULL
+  FROM rsvps r
+  WHERE g.id = p_guest_id
+    AND r.id = g.rsvp_id
+    AND r.event_id = p_event_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'ticket_not_found');
+  END IF;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkin_ticket(uuid, text, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_guest_checkin(uuid, uuid) TO authenticated;
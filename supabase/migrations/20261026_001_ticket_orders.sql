@@ -0,0 +1,595 @@
+-- Paid ticket orders
+-- Ticket tiers on paid events become sellable: orders + order items form a
+-- ledger, pending orders hold inventory (per tier and against the event's
+-- capacity) until they're paid or expire, and a paid order becomes the
+-- buyer's 'going' RSVP — so it shows up in the check-in list like any other.
+-- Payment itself happens in app code behind a provider interface
+-- (lib/payments); the database only records the outcome.
+
+-- ============================================
+-- 1. Stable tier ids
+-- ============================================
+-- Tiers live in events.ticket_tiers JSON. Orders need to point at a tier
+-- even after it's renamed, so every tier gets an id the edit form preserves.
+
+CREATE OR REPLACE FUNCTION assign_ticket_tier_ids(p_tiers jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_tiers IS NULL OR jsonb_typeof(p_tiers) <> 'array' THEN p_tiers
+    ELSE COALESCE((
+      SELECT jsonb_agg(
+        CASE WHEN tier ? 'id' AND tier->>'id' <> '' THEN tier
+             ELSE tier || jsonb_build_object('id', md5(tier::text || ord::text))
+        END
+        ORDER BY ord
+      )
+      FROM jsonb_array_elements(p_tiers) WITH ORDINALITY AS t(tier, ord)
+    ), '[]'::jsonb)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_assign_ticket_tier_ids()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.ticket_tiers := assign_ticket_tier_ids(NEW.ticket_tiers);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_ticket_tier_ids ON events;
+CREATE TRIGGER assign_ticket_tier_ids
+  BEFORE INSERT OR UPDATE OF ticket_tiers ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_assign_ticket_tier_ids();
+
+UPDATE events
+SET ticket_tiers = assign_ticket_tier_ids(ticket_tiers)
+WHERE ticket_tiers IS NOT NULL;
+
+-- ============================================
+-- 2. Orders ledger
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS ticket_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- pending: awaiting payment or manual verification (holds inventory)
+  -- paid: settled, RSVP created; cancelled/expired: released; refunded: paid then reversed
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'cancelled', 'expired', 'refunded')),
+  provider text NOT NULL,
+  provider_ref text,
+  -- Short code the buyer puts in the bank transfer memo
+  reference_code text NOT NULL UNIQUE,
+  total_amount bigint NOT NULL CHECK (total_amount >= 0),
+  currency text NOT NULL,
+  rsvp_id uuid REFERENCES rsvps(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL,
+  paid_at timestamptz,
+  verified_by uuid REFERENCES auth.users(id),
+  cancelled_at timestamptz,
+  receipt_sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS ticket_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES ticket_orders(id) ON DELETE CASCADE,
+  tier_id text NOT NULL,
+  -- Snapshot at purchase time; the tier can be edited later
+  tier_name text NOT NULL,
+  unit_price bigint NOT NULL CHECK (unit_price >= 0),
+  currency text NOT NULL,
+  quantity int NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_orders_event ON ticket_orders (event_id, status);
+CREATE INDEX IF NOT EXISTS idx_ticket_orders_user ON ticket_orders (user_id, event_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_orders_pending_expiry
+  ON ticket_orders (expires_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_ticket_order_items_order ON ticket_order_items (order_id);
+
+-- At most one open (pending or paid) order per buyer per event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_orders_one_open
+  ON ticket_orders (event_id, user_id) WHERE status IN ('pending', 'paid');
+
+ALTER TABLE ticket_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Reads only; every write goes through the RPCs below
+DROP POLICY IF EXISTS "ticket_orders_select" ON ticket_orders;
+CREATE POLICY "ticket_orders_select" ON ticket_orders
+  FOR SELECT USING (user_id = auth.uid() OR can_manage_event(event_id));
+
+DROP POLICY IF EXISTS "ticket_order_items_select" ON ticket_order_items;
+CREATE POLICY "ticket_order_items_select" ON ticket_order_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM ticket_orders o
+      WHERE o.id = order_id
+        AND (o.user_id = auth.uid() OR can_manage_event(o.event_id))
+    )
+  );
+
+-- ============================================
+-- 3. Inventory
+-- ============================================
+
+-- Tickets per tier that are sold or held by an unexpired pending order
+CREATE OR REPLACE FUNCTION ticket_tiers_sold(p_event_id uuid)
+RETURNS TABLE (tier_id text, sold int)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.tier_id, sum(i.quantity)::int
+  FROM ticket_order_items i
+  JOIN ticket_orders o ON o.id = i.order_id
+  WHERE o.event_id = p_event_id
+    AND (o.status = 'paid' OR (o.status = 'pending' AND o.expires_at > now()))
+  GROUP BY i.tier_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION ticket_tiers_sold(uuid) TO anon, authenticated;
+
+-- Spots held now include pending orders. Paid orders are already counted
+-- through the buyer's 'going' RSVP.
+CREATE OR REPLACE FUNCTION event_spots_held(p_event_id uuid, p_exclude_user uuid DEFAULT NULL)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    (SELECT coalesce(sum(1 + plus_ones), 0)
+       FROM rsvps
+      WHERE event_id = p_event_id
+        AND status = 'going'
+        AND no_show_at IS NULL
+        AND user_id IS DISTINCT FROM p_exclude_user)
+    +
+    (SELECT coalesce(sum(spots), 0)
+       FROM waitlist_offers
+      WHERE event_id = p_event_id
+        AND status = 'pending'
+        AND expires_at > now()
+        AND user_id IS DISTINCT FROM p_exclude_user)
+    +
+    (SELECT coalesce(sum(i.quantity), 0)
+       FROM ticket_orders o
+       JOIN ticket_order_items i ON i.order_id = o.id
+      WHERE o.event_id = p_event_id
+        AND o.status = 'pending'
+        AND o.expires_at > now()
+        AND o.user_id IS DISTINCT FROM p_exclude_user)
+  )::int;
+$$;
+
+-- ============================================
+-- 4. RPC: Place an order
+-- ============================================
+-- p_items: [{"tier_id": "...", "quantity": 2}, ...]
+-- Prices come from the event's tiers, never from the client.
+
+CREATE OR REPLACE FUNCTION create_ticket_order(
+  p_event_id uuid,
+  p_items jsonb,
+  p_provider text,
+  p_hold_minutes int DEFAULT 30
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_event events%ROWTYPE;
+  v_item jsonb;
+  v_tier jsonb;
+  v_qty int;
+  v_sold int;
+  v_total_qty int := 0;
+  v_total bigint := 0;
+  v_currency text;
+  v_order_id uuid;
+  v_code text;
+  v_expires timestamptz;
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  END IF;
+
+  IF is_event_past(p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_has_ended');
+  END IF;
+
+  -- Same lock as rsvp_event so orders and RSVPs can't oversell together
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND OR v_event.status <> 'published' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_not_found');
+  END IF;
+
+  IF v_event.price_type IS DISTINCT FROM 'paid'
+     OR COALESCE(jsonb_array_length(v_event.ticket_tiers), 0) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_ticketed');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_orders
+    WHERE event_id = p_event_id AND user_id = v_uid
+      AND (status = 'paid' OR (status = 'pending' AND expires_at > now()))
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_exists');
+  END IF;
+
+  -- A lapsed pending order would block the unique index; close it out first
+  UPDATE ticket_orders
+  SET status = 'expired', updated_at = now()
+  WHERE event_id = p_event_id AND user_id = v_uid
+    AND status = 'pending' AND expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM rsvps
+    WHERE event_id = p_event_id AND user_id = v_uid AND status = 'going'
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_going');
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_items');
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_qty := COALESCE((v_item->>'quantity')::int, 0);
+    IF v_qty <= 0 THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_items');
+    END IF;
+
+    SELECT tier INTO v_tier
+    FROM jsonb_array_elements(v_event.ticket_tiers) AS tier
+    WHERE tier->>'id' = v_item->>'tier_id';
+
+    IF v_tier IS NULL THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'tier_not_found');
+    END IF;
+
+    -- One currency per order (bank transfers can't mix)
+    IF v_currency IS NOT NULL AND v_currency <> COALESCE(v_tier->>'currency', 'VND') THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'mixed_currency');
+    END IF;
+    v_currency := COALESCE(v_tier->>'currency', 'VND');
+
+    IF (v_tier->>'quantity') IS NOT NULL THEN
+      SELECT COALESCE(s.sold, 0) INTO v_sold
+      FROM ticket_tiers_sold(p_event_id) s
+      WHERE s.tier_id = v_tier->>'id';
+
+      IF COALESCE(v_sold, 0) + v_qty > (v_tier->>'quantity')::int THEN
+        RETURN jsonb_build_object('ok', false, 'error', 'tier_sold_out', 'tier_id', v_tier->>'id');
+      END IF;
+    END IF;
+
+    v_total_qty := v_total_qty + v_qty;
+    v_total := v_total + v_qty * COALESCE((v_tier->>'price')::bigint, 0);
+    v_tier := NULL;
+    v_sold := NULL;
+  END LOOP;
+
+  IF v_event.capacity IS NOT NULL
+     AND event_spots_held(p_event_id, v_uid) + v_total_qty > v_event.capacity THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'sold_out');
+  END IF;
+
+  -- 'DL' + 6 chars, skipping look-alikes so it survives being typed into a banking app
+  LOOP
+    v_code := 'DL' || (
+      SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', (random() * 30)::int + 1, 1), '')
+      FROM generate_series(1, 6)
+    );
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM ticket_orders WHERE reference_code = v_code);
+  END LOOP;
+
+  v_expires := now() + make_interval(mins => GREATEST(5, LEAST(COALESCE(p_hold_minutes, 30), 4320)));
+
+  INSERT INTO ticket_orders (event_id, user_id, provider, reference_code, total_amount, currency, expires_at)
+  VALUES (p_event_id, v_uid, p_provider, v_code, v_total, v_currency, v_expires)
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO ticket_order_items (order_id, tier_id, tier_name, unit_price, currency, quantity)
+  SELECT
+    v_order_id,
+    tier->>'id',
+    COALESCE(NULLIF(tier->>'name', ''), 'General'),
+    COALESCE((tier->>'price')::bigint, 0),
+    COALESCE(tier->>'currency', 'VND'),
+    (item->>'quantity')::int
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN jsonb_array_elements(v_event.ticket_tiers) AS tier ON tier->>'id' = item->>'tier_id';
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', v_order_id,
+    'reference_code', v_code,
+    'total_amount', v_total,
+    'currency', v_currency,
+    'quantity', v_total_qty,
+    'expires_at', v_expires
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_ticket_order(uuid, jsonb, text, int) TO authenticated;
+
+-- ============================================
+-- 5. RPC: Mark an order paid
+-- ============================================
+-- Called by the app with the service role once a provider confirms payment,
+-- or by an event manager verifying a bank transfer by hand. Creates (or
+-- upgrades) the buyer's RSVP to 'going' with the extra tickets as plus-ones;
+-- capacity was already reserved by the pending order.
+
+CREATE OR REPLACE FUNCTION confirm_ticket_order(
+  p_order_id uuid,
+  p_provider_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order ticket_orders%ROWTYPE;
+  v_qty int;
+  v_rsvp_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM ticket_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_not_found');
+  END IF;
+
+  -- auth.uid() is NULL for the service role (provider callbacks)
+  IF auth.uid() IS NOT NULL AND NOT can_manage_event(v_order.event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  IF v_order.status = 'paid' THEN
+    RETURN jsonb_build_object('ok', true, 'status', 'paid', 'rsvp_id', v_order.rsvp_id, 'already', true);
+  END IF;
+
+  -- A manager can still accept a transfer that landed after the hold lapsed
+  IF v_order.status NOT IN ('pending', 'expired') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_closed', 'status', v_order.status);
+  END IF;
+
+  SELECT sum(quantity)::int INTO v_qty FROM ticket_order_items WHERE order_id = p_order_id;
+
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (v_order.event_id, v_order.user_id, 'going', GREATEST(v_qty - 1, 0))
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = 'going',
+        plus_ones = EXCLUDED.plus_ones,
+        no_show_at = NULL
+  RETURNING id INTO v_rsvp_id;
+
+  UPDATE waitlist_offers
+  SET status = 'claimed', responded_at = now()
+  WHERE event_id = v_order.event_id AND user_id = v_order.user_id AND status = 'pending';
+
+  UPDATE ticket_orders
+  SET
+    status = 'paid',
+    paid_at = now(),
+    provider_ref = COALESCE(p_provider_ref, provider_ref),
+    verified_by = auth.uid(),
+    rsvp_id = v_rsvp_id,
+    updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('ok', true, 'status', 'paid', 'rsvp_id', v_rsvp_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_ticket_order(uuid, text) TO authenticated;
+
+-- ============================================
+-- 6. RPC: Cancel / refund an order
+-- ============================================
+-- Buyers can drop their own pending order. Managers can also cancel a
+-- pending order or mark a paid one refunded, which cancels the RSVP and
+-- offers the freed spots to the waitlist. Money moves outside the app.
+
+CREATE OR REPLACE FUNCTION cancel_ticket_order(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order ticket_orders%ROWTYPE;
+  v_is_manager boolean;
+  v_new_status text;
+  v_offers int := 0;
+BEGIN
+  SELECT * INTO v_order FROM ticket_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_not_found');
+  END IF;
+
+  v_is_manager := can_manage_event(v_order.event_id);
+
+  IF v_order.user_id <> auth.uid() AND NOT v_is_manager THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  IF v_order.status = 'pending' THEN
+    v_new_status := 'cancelled';
+  ELSIF v_order.status = 'paid' AND v_is_manager THEN
+    v_new_status := 'refunded';
+  ELSE
+    RETURN jsonb_build_object('ok', false, 'error', 'order_closed', 'status', v_order.status);
+  END IF;
+
+  UPDATE ticket_orders
+  SET status = v_new_status, cancelled_at = now(), updated_at = now()
+  WHERE id = p_order_id;
+
+  IF v_new_status = 'refunded' AND v_order.rsvp_id IS NOT NULL THEN
+    UPDATE rsvps SET status = 'cancelled' WHERE id = v_order.rsvp_id;
+  END IF;
+
+  v_offers := offer_waitlist_spots(v_order.event_id);
+
+  RETURN jsonb_build_object('ok', true, 'status', v_new_status, 'offers', v_offers);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_ticket_order(uuid) TO authenticated;
+
+-- ============================================
+-- 7. Cron: release lapsed holds
+-- ============================================
+
+CREATE OR REPLACE FUNCTION expire_ticket_orders()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_ids uuid[];
+  v_event_id uuid;
+  v_expired int;
+  v_offered int := 0;
+BEGIN
+  WITH expired AS (
+    UPDATE ticket_orders
+    SET status = 'expired', updated_at = now()
+    WHERE status = 'pending' AND expires_at <= now()
+    RETURNING event_id
+  )
+  SELECT count(*)::int, array_agg(DISTINCT event_id)
+  INTO v_expired, v_event_ids
+  FROM expired;
+
+  FOREACH v_event_id IN ARRAY COALESCE(v_event_ids, '{}')
+  LOOP
+    v_offered := v_offered + offer_waitlist_spots(v_event_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true, 'expired', v_expired, 'offered', v_offered);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_ticket_orders() FROM anon, authenticated, public;
+
+-- ============================================
+-- 8. Free RSVPs can't skip the ticket desk
+-- ============================================
+-- Same as 20261024, plus: on a ticketed event a 'going' RSVP needs a paid
+-- order. Joining the waitlist is still free.
+
+CREATE OR REPLACE FUNCTION rsvp_event(p_event_id uuid, p_plus_ones int DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_capacity int;
+  v_status text;
+  v_event_status text;
+  v_price_type text;
+  v_tier_count int;
+  v_spots_taken_excl_me int;
+  v_rsvp_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_plus_ones < 0 THEN
+    RAISE EXCEPTION 'invalid_plus_ones';
+  END IF;
+
+  -- Check if event is past (fast rejection before locking)
+  IF is_event_past(p_event_id) THEN
+    RAISE EXCEPTION 'event_has_ended';
+  END IF;
+
+  -- Lock event row to serialize capacity decisions
+  SELECT capacity, status, price_type::text, COALESCE(jsonb_array_length(ticket_tiers), 0)
+  INTO v_capacity, v_event_status, v_price_type, v_tier_count
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  IF v_event_status <> 'published' THEN
+    RAISE EXCEPTION 'event_not_published';
+  END IF;
+
+  -- Spots held EXCLUDING caller (so +1 updates and offer claims work)
+  v_spots_taken_excl_me := event_spots_held(p_event_id, v_uid);
+
+  IF v_capacity IS NULL OR (v_spots_taken_excl_me + 1 + p_plus_ones) <= v_capacity THEN
+    v_status := 'going';
+  ELSE
+    v_status := 'waitlist';
+  END IF;
+
+  -- The paid order also caps how many plus-ones the buyer can bring
+  IF v_status = 'going' AND v_price_type = 'paid' AND v_tier_count > 0
+     AND NOT EXISTS (
+       SELECT 1 FROM ticket_orders o
+       WHERE o.event_id = p_event_id AND o.user_id = v_uid AND o.status = 'paid'
+         AND (SELECT sum(quantity) FROM ticket_order_items WHERE order_id = o.id) >= 1 + p_plus_ones
+     ) THEN
+    RAISE EXCEPTION 'tickets_required';
+  END IF;
+
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (p_event_id, v_uid, v_status, p_plus_ones)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = EXCLUDED.status,
+        plus_ones = EXCLUDED.plus_ones
+  RETURNING id INTO v_rsvp_id;
+
+  IF v_status = 'going' THEN
+    UPDATE waitlist_offers
+    SET status = 'claimed', responded_at = now()
+    WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', v_status,
+    'rsvp_id', v_rsvp_id
+  );
+END;
+$$;
+
+-- ============================================
+-- 9. Receipt notification type
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'order_receipt';
@@ -0,0 +1,307 @@
+-- Full-text + semantic search with facets
+--
+-- Replaces the ilike-only suggestions path for the /api/search endpoint:
+--   * search_vector tsvector columns (generated) on events, venues,
+--     organizers and tribes, with GIN indexes
+--   * search_events() ranks by ts_rank_cd plus CLIP similarity of the
+--     event's moments, and returns facet counts (tag, price type, venue type)
+--   * search_venues() ranks venues with the same filters where they apply
+--
+-- The 'simple' config is used throughout: content is a mix of Vietnamese and
+-- English and the language-specific stemmers mangle Vietnamese syllables.
+-- Translations and synonyms come from the LLM query expansion instead.
+
+-- ============================================
+-- 1. Search vectors
+-- ============================================
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(location_name, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_events_search_vector ON events USING gin (search_vector);
+
+ALTER TABLE venues
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(address, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_venues_search_vector ON venues USING gin (search_vector);
+
+ALTER TABLE organizers
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_organizers_search_vector ON organizers USING gin (search_vector);
+
+ALTER TABLE tribes
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tribes_search_vector ON tribes USING gin (search_vector);
+
+-- ============================================
+-- 2. Distance helper
+-- ============================================
+
+-- Great-circle distance in km (haversine). Plenty accurate at city scale.
+CREATE OR REPLACE FUNCTION search_distance_km(
+  lat1 double precision,
+  lng1 double precision,
+  lat2 double precision,
+  lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+-- ============================================
+-- 3. Event search with facets
+-- ============================================
+
+-- p_query is websearch syntax ("jazz OR \"nhạc jazz\""). Facet counts for a
+-- dimension ignore that dimension's own filter, so picking one tag still
+-- shows how many results the other tags would give.
+--
+-- Runs as the caller so events RLS (tribe-only events) still applies.
+CREATE OR REPLACE FUNCTION search_events(
+  p_query text DEFAULT NULL,
+  p_embedding vector(768) DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_price_types text[] DEFAULT NULL,
+  p_venue_types text[] DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_tsq tsquery;
+  v_semantic_ids uuid[] := '{}';
+  v_semantic_scores float[] := '{}';
+  v_result jsonb;
+BEGIN
+  IF nullif(trim(p_query), '') IS NOT NULL THEN
+    v_tsq := websearch_to_tsquery('simple', p_query);
+  END IF;
+
+  -- Events whose moments look like the query (CLIP text-to-image), scored
+  -- by their best-matching moment
+  IF p_embedding IS NOT NULL THEN
+    SELECT coalesce(array_agg(event_id), '{}'), coalesce(array_agg(similarity), '{}')
+    INTO v_semantic_ids, v_semantic_scores
+    FROM (
+      SELECT m.event_id, max(h.similarity) AS similarity
+      FROM search_moments_by_embedding(p_embedding, 0.15, 200) h
+      JOIN moments m ON m.id = h.moment_id
+      GROUP BY m.event_id
+    ) s;
+  END IF;
+
+  WITH semantic AS (
+    SELECT unnest(v_semantic_ids) AS event_id, unnest(v_semantic_scores) AS similarity
+  ),
+  candidates AS (
+    SELECT
+      e.id,
+      e.starts_at,
+      coalesce(e.ends_at, e.starts_at) AS ends_at,
+      coalesce(e.ai_tags, '{}') AS tags,
+      coalesce(e.price_type, 'free') AS price_type,
+      v.venue_type,
+      CASE WHEN v_tsq IS NULL THEN 0 ELSE ts_rank_cd(e.search_vector, v_tsq) END
+        -- CLIP text-to-image scores sit around 0.15-0.3; doubling puts a good
+        -- visual match on par with a title hit
+        + coalesce(s.similarity, 0) * 2 AS rank,
+      CASE
+        WHEN p_lat IS NULL OR p_lng IS NULL THEN NULL
+        WHEN coalesce(e.latitude, v.latitude) IS NULL THEN NULL
+        ELSE search_distance_km(p_lat, p_lng, coalesce(e.latitude, v.latitude), coalesce(e.longitude, v.longitude))
+      END AS distance_km
+    FROM events e
+    LEFT JOIN venues v ON v.id = e.venue_id
+    LEFT JOIN semantic s ON s.event_id = e.id
+    WHERE e.status = 'published'
+      AND (v_tsq IS NULL OR e.search_vector @@ v_tsq OR s.event_id IS NOT NULL)
+      AND (p_from IS NULL OR coalesce(e.ends_at, e.starts_at) >= p_from)
+      AND (p_to IS NULL OR e.starts_at < p_to)
+  ),
+  filtered AS (
+    SELECT
+      c.*,
+      (p_tags IS NULL OR c.tags && p_tags) AS tag_ok,
+      (p_price_types IS NULL OR c.price_type = ANY (p_price_types)) AS price_ok,
+      (p_venue_types IS NULL OR c.venue_type = ANY (p_venue_types)) AS venue_ok,
+      (p_radius_km IS NULL OR coalesce(c.distance_km <= p_radius_km, false)) AS near_ok
+    FROM candidates c
+  ),
+  matches AS (
+    SELECT * FROM filtered WHERE tag_ok AND price_ok AND venue_ok AND near_ok
+  ),
+  page AS (
+    SELECT
+      id,
+      rank,
+      distance_km,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'distance' THEN distance_km END ASC NULLS LAST,
+          CASE WHEN p_sort = 'relevance' THEN rank END DESC,
+          -- Then upcoming soonest-first, then past most-recent-first
+          (ends_at >= now()) DESC,
+          CASE WHEN ends_at >= now() THEN starts_at END ASC,
+          starts_at DESC
+      ) AS position
+    FROM matches
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matches),
+    'hits', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', id,
+          'rank', round(rank::numeric, 4),
+          'distance_km', round(distance_km::numeric, 1)
+        ) ORDER BY position
+      )
+      FROM page
+      WHERE position > p_offset AND position <= p_offset + p_limit
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'tags', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('value', tag, 'count', n) ORDER BY n DESC, tag)
+        FROM (
+          SELECT unnest(tags) AS tag, count(*) AS n
+          FROM filtered
+          WHERE price_ok AND venue_ok AND near_ok
+          GROUP BY 1
+        ) t
+      ), '[]'::jsonb),
+      'price_type', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('value', price_type, 'count', n) ORDER BY n DESC)
+        FROM (
+          SELECT price_type, count(*) AS n
+          FROM filtered
+          WHERE tag_ok AND venue_ok AND near_ok
+          GROUP BY 1
+        ) p
+      ), '[]'::jsonb),
+      'venue_type', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('value', venue_type, 'count', n) ORDER BY n DESC)
+        FROM (
+          SELECT venue_type, count(*) AS n
+          FROM filtered
+          WHERE tag_ok AND price_ok AND near_ok AND venue_type IS NOT NULL
+          GROUP BY 1
+        ) v
+      ), '[]'::jsonb)
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_events(
+  text, vector, text[], text[], text[], timestamptz, timestamptz,
+  double precision, double precision, double precision, text, int, int
+) TO anon, authenticated;
+
+-- ============================================
+-- 4. Venue search
+-- ============================================
+
+CREATE OR REPLACE FUNCTION search_venues(
+  p_query text DEFAULT NULL,
+  p_venue_types text[] DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_tsq tsquery;
+  v_result jsonb;
+BEGIN
+  IF nullif(trim(p_query), '') IS NOT NULL THEN
+    v_tsq := websearch_to_tsquery('simple', p_query);
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      v.id,
+      v.priority_score,
+      CASE WHEN v_tsq IS NULL THEN 0 ELSE ts_rank_cd(v.search_vector, v_tsq) END AS rank,
+      CASE
+        WHEN p_lat IS NULL OR p_lng IS NULL THEN NULL
+        ELSE search_distance_km(p_lat, p_lng, v.latitude, v.longitude)
+      END AS distance_km
+    FROM venues v
+    WHERE (v_tsq IS NULL OR v.search_vector @@ v_tsq)
+      AND (p_venue_types IS NULL OR v.venue_type = ANY (p_venue_types))
+  ),
+  nearby AS (
+    SELECT * FROM matches
+    WHERE p_radius_km IS NULL OR coalesce(distance_km <= p_radius_km, false)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM nearby),
+    'hits', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', id, 'distance_km', round(distance_km::numeric, 1))
+        ORDER BY position
+      )
+      FROM (
+        SELECT
+          id,
+          distance_km,
+          row_number() OVER (ORDER BY rank DESC, distance_km ASC NULLS LAST, priority_score DESC) AS position
+        FROM nearby
+      ) p
+      WHERE position > p_offset AND position <= p_offset + p_limit
+    ), '[]'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_venues(
+  text, text[], double precision, double precision, double precision, int, int
+) TO anon, authenticated;
@@ -0,0 +1,69 @@
+-- Saved audience segments: organizer-defined, reusable invitation audiences
+-- built from composable rules (attended venue X, RSVP'd to tribe Y events,
+-- loyalty tier >= insider, locale = ko, no-show rate under N%, follows
+-- organizer Z). Rules are stored as jsonb and resolved in
+-- lib/audiences/segments.ts; blasts record `segment:<id>` in
+-- event_invitations.audience so the 30-day cooldown keeps applying.
+
+-- ============================================
+-- 1. Segments
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS audience_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organizer_id uuid NOT NULL REFERENCES organizers(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  -- [{ "type": "loyalty_tier", "minTier": "insider" }, ...] — all rules must match
+  rules jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(rules) = 'array'),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organizer_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_segments_organizer
+  ON audience_segments (organizer_id, updated_at DESC);
+
+DROP TRIGGER IF EXISTS audience_segments_updated_at ON audience_segments;
+CREATE TRIGGER audience_segments_updated_at
+  BEFORE UPDATE ON audience_segments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE audience_segments IS
+  'Saved invitation audiences per organizer. Resolved server-side with the service role; never exposes member lists to the organizer.';
+
+-- ============================================
+-- 2. RLS — organizer owner or admin
+-- ============================================
+
+ALTER TABLE audience_segments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "audience_segments_owner_all" ON audience_segments;
+CREATE POLICY "audience_segments_owner_all" ON audience_segments
+  FOR ALL
+  USING (
+    is_admin()
+    OR EXISTS (
+      SELECT 1 FROM organizers o
+      WHERE o.id = organizer_id AND o.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    is_admin()
+    OR EXISTS (
+      SELECT 1 FROM organizers o
+      WHERE o.id = organizer_id AND o.owner_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 3. Indexes the rule resolvers lean on
+-- ============================================
+
+-- no_show_rate: only RSVPs with an attendance outcome
+CREATE INDEX IF NOT EXISTS idx_rsvps_attendance_outcome
+  ON rsvps (user_id)
+  WHERE checked_in_at IS NOT NULL OR no_show_at IS NOT NULL;
+
+-- locale rule
+CREATE INDEX IF NOT EXISTS idx_profiles_locale ON profiles (locale);
@@ -0,0 +1,51 @@
+-- Notification digests: users can batch low-priority notifications
+-- (new_rsvp, comment_on_event, thread_activity, new_follower) into one
+-- push/email per hour or per day. notify() writes the in-app row immediately
+-- and queues the push/email part in notification_digest_items;
+-- /api/cron/process-notifications sends the grouped digest when it's due.
+
+-- ============================================
+-- 1. Digest preferences
+-- ============================================
+
+-- digest_frequency supersedes the never-read email_digest flag
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS digest_frequency text NOT NULL DEFAULT 'instant'
+    CHECK (digest_frequency IN ('instant', 'hourly', 'daily')),
+  -- Wall-clock time in Đà Lạt for daily digests
+  ADD COLUMN IF NOT EXISTS digest_time time NOT NULL DEFAULT '08:00',
+  ADD COLUMN IF NOT EXISTS last_digest_at timestamptz;
+
+COMMENT ON COLUMN notification_preferences.email_digest IS
+  'Deprecated: superseded by digest_frequency';
+
+-- ============================================
+-- 2. Digest queue
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  -- The full NotificationPayload, as notify() received it
+  payload jsonb NOT NULL,
+  -- Channels deferred to the digest (push and/or email)
+  channels text[] NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- Set when a cron run claims the item; sent items are pruned after 7 days
+  digested_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_items_pending
+  ON notification_digest_items (user_id, created_at)
+  WHERE digested_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_items_digested
+  ON notification_digest_items (digested_at)
+  WHERE digested_at IS NOT NULL;
+
+-- ============================================
+-- 3. RLS: service role only (queued and drained server-side)
+-- ============================================
+
+ALTER TABLE notification_digest_items ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,15 @@
+-- Quiet hours in the recipient's own timezone. notification_preferences has
+-- had quiet_hours_* columns since the notifications system landed, but they
+-- were compared against the server clock. Profiles now carry an IANA
+-- timezone; notify() defers non-urgent push/email that would land inside the
+-- window to a scheduled_notifications row at its end.
+
+-- IANA name (e.g. 'Europe/Berlin'); NULL means Đà Lạt (Asia/Ho_Chi_Minh)
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS timezone text
+    CHECK (timezone IS NULL OR char_length(timezone) BETWEEN 1 AND 64);
+
+COMMENT ON COLUMN notification_preferences.quiet_hours_start IS
+  'Local wall-clock time in profiles.timezone (inclusive)';
+COMMENT ON COLUMN notification_preferences.quiet_hours_end IS
+  'Local wall-clock time in profiles.timezone (exclusive) — deferred notifications go out here';
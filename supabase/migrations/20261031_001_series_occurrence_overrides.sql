@@ -0,0 +1,40 @@
+-- Per-occurrence overrides for recurring series. Editing one instance (or
+-- "this and following") from the event edit page now records which fields
+-- differ from the series template on its series_exceptions row, so
+-- materializeSeriesOccurrences and later template edits leave them alone.
+-- A schedule (RRULE) change from a given date splits the series in two.
+
+-- ============================================
+-- 1. Field-level overrides on exceptions
+-- ============================================
+
+-- 'modified' was allowed on events.exception_type but never on the
+-- exceptions table itself
+ALTER TABLE series_exceptions
+  DROP CONSTRAINT IF EXISTS series_exceptions_exception_type_check;
+ALTER TABLE series_exceptions
+  ADD CONSTRAINT series_exceptions_exception_type_check
+  CHECK (exception_type IN ('modified', 'cancelled', 'rescheduled'));
+
+-- { "starts_at_time": "20:00", "venue_id": "…", "capacity": 40, … }
+ALTER TABLE series_exceptions
+  ADD COLUMN IF NOT EXISTS overrides jsonb
+    CHECK (overrides IS NULL OR jsonb_typeof(overrides) = 'object');
+
+-- ============================================
+-- 2. Series splits
+-- ============================================
+
+ALTER TABLE event_series
+  ADD COLUMN IF NOT EXISTS split_from_series_id uuid
+    REFERENCES event_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_event_series_split_from
+  ON event_series (split_from_series_id)
+  WHERE split_from_series_id IS NOT NULL;
+
+-- ============================================
+-- 3. Notification type
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'series_occurrence_changed';
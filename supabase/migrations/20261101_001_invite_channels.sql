@@ -0,0 +1,103 @@
+-- SMS, WhatsApp and Zalo invitations. Event and tribe invitations can now go
+-- out through a phone channel (lib/invites) as well as email / in-app. Phone
+-- invites reuse the synthetic-email trick of username invites
+-- (`phone-84901234567@dalat.app`) so the existing UNIQUE(…, email)
+-- constraints dedupe them too; the real number lives in `phone`.
+
+-- ============================================
+-- 1. Channel + delivery status on invitations
+-- ============================================
+
+ALTER TABLE event_invitations
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'email'
+    CHECK (channel IN ('email', 'sms', 'whatsapp', 'zalo', 'in_app')),
+  -- E.164, e.g. +84901234567
+  ADD COLUMN IF NOT EXISTS phone TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_status TEXT
+    CHECK (delivery_status IN ('queued', 'sent', 'delivered', 'failed')),
+  ADD COLUMN IF NOT EXISTS delivery_error TEXT,
+  -- Provider's message id, matched by delivery status callbacks
+  ADD COLUMN IF NOT EXISTS provider_message_id TEXT;
+
+ALTER TABLE tribe_invitations
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'email'
+    CHECK (channel IN ('email', 'sms', 'whatsapp', 'zalo', 'in_app')),
+  ADD COLUMN IF NOT EXISTS phone TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_status TEXT
+    CHECK (delivery_status IN ('queued', 'sent', 'delivered', 'failed')),
+  ADD COLUMN IF NOT EXISTS delivery_error TEXT,
+  ADD COLUMN IF NOT EXISTS provider_message_id TEXT;
+
+-- Username invites were always in-app
+UPDATE event_invitations SET channel = 'in_app'
+  WHERE email LIKE 'user-%@dalat.app' AND claimed_by IS NOT NULL AND channel = 'email';
+UPDATE tribe_invitations SET channel = 'in_app'
+  WHERE email LIKE 'user-%@dalat.app' AND claimed_by IS NOT NULL AND channel = 'email';
+
+CREATE INDEX IF NOT EXISTS idx_invitations_provider_message
+  ON event_invitations (provider_message_id) WHERE provider_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tribe_invitations_provider_message
+  ON tribe_invitations (provider_message_id) WHERE provider_message_id IS NOT NULL;
+
+-- ============================================
+-- 2. Per-channel quota accounting
+-- ============================================
+
+-- {"email": 12, "zalo": 3} — what each day's count was spent on. SMS and
+-- Zalo cost money per message, so it's worth knowing.
+ALTER TABLE invite_quotas
+  ADD COLUMN IF NOT EXISTS channel_counts JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE tribe_invite_quotas
+  ADD COLUMN IF NOT EXISTS channel_counts JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Replaced (not overloaded) so two-argument calls stay unambiguous
+DROP FUNCTION IF EXISTS increment_invite_quota(UUID, INT);
+CREATE OR REPLACE FUNCTION increment_invite_quota(
+  p_user_id UUID,
+  p_count INT DEFAULT 1,
+  p_channel TEXT DEFAULT 'email'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO invite_quotas (user_id, date, daily_count, weekly_count, week_start, channel_counts)
+  VALUES (
+    p_user_id, CURRENT_DATE, p_count, p_count, date_trunc('week', CURRENT_DATE)::date,
+    jsonb_build_object(p_channel, p_count)
+  )
+  ON CONFLICT (user_id, date) DO UPDATE
+  SET daily_count = invite_quotas.daily_count + p_count,
+      weekly_count = invite_quotas.weekly_count + p_count,
+      channel_counts = invite_quotas.channel_counts || jsonb_build_object(
+        p_channel, COALESCE((invite_quotas.channel_counts ->> p_channel)::int, 0) + p_count
+      );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS increment_tribe_invite_quota(UUID, INT);
+CREATE OR REPLACE FUNCTION increment_tribe_invite_quota(
+  p_user_id UUID,
+  p_count INT DEFAULT 1,
+  p_channel TEXT DEFAULT 'email'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO tribe_invite_quotas (user_id, date, daily_count, channel_counts)
+  VALUES (p_user_id, CURRENT_DATE, p_count, jsonb_build_object(p_channel, p_count))
+  ON CONFLICT (user_id, date) DO UPDATE
+  SET daily_count = tribe_invite_quotas.daily_count + p_count,
+      channel_counts = tribe_invite_quotas.channel_counts || jsonb_build_object(
+        p_channel, COALESCE((tribe_invite_quotas.channel_counts ->> p_channel)::int, 0) + p_count
+      );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION increment_invite_quota(UUID, INT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION increment_tribe_invite_quota(UUID, INT, TEXT) TO authenticated;
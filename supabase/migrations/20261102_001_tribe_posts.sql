@@ -0,0 +1,620 @@
+-- Tribe discussion board.
+--
+-- A tribe post is a top-level comment with target_type = 'tribe' and
+-- target_id = the tribe; replies, edits, soft deletes, moderation, thread
+-- muting, translations and reactions all come from the comments system
+-- (20260413) and reactions (20261013) unchanged.
+--
+-- What's new:
+--   1. 'tribe' as a comment target, readable per TribeAccessType: public
+--      tribes' boards are readable by anyone (not banned); request,
+--      invite_only and secret boards by members only. Only active members post.
+--   2. Tribe leaders/admins moderate their board, and pin up to three posts
+--      as announcements (pinned first in get_comments).
+--   3. The SECURITY DEFINER readers (get_comments, get_comment_replies,
+--      counts) bypass RLS, so each now checks can_view_comment_target().
+--   4. A member can mute a whole board: a muted_threads row whose thread_id is
+--      the tribe id. tribe_new_post notifications skip those members, exactly
+--      like reply notifications skip a muted thread.
+
+-- ============================================
+-- 1. Tribe as a comment target
+-- ============================================
+
+ALTER TABLE comments DROP CONSTRAINT IF EXISTS comments_target_type_check;
+ALTER TABLE comments ADD CONSTRAINT comments_target_type_check
+  CHECK (target_type IN ('event', 'moment', 'tribe'));
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS is_pinned boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pinned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS pinned_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_pinned
+  ON comments(target_type, target_id, pinned_at DESC)
+  WHERE is_pinned AND parent_id IS NULL;
+
+-- Who may read a tribe's board. Banned users lose even public boards.
+CREATE OR REPLACE FUNCTION can_view_tribe_posts(p_tribe_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT is_admin()
+    OR is_tribe_member(p_tribe_id, auth.uid())
+    OR is_tribe_creator(p_tribe_id, auth.uid())
+    OR (
+      EXISTS (SELECT 1 FROM tribes WHERE id = p_tribe_id AND access_type = 'public')
+      AND NOT is_tribe_banned(p_tribe_id, auth.uid())
+    );
+$$;
+
+-- Events and moments keep their existing (public) comment visibility
+CREATE OR REPLACE FUNCTION can_view_comment_target(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_target_type
+    WHEN 'tribe' THEN can_view_tribe_posts(p_target_id)
+    ELSE true
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_view_tribe_posts(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_view_comment_target(text, uuid) TO anon, authenticated;
+
+-- ============================================
+-- 2. Moderation: tribe leaders and admins
+-- ============================================
+
+CREATE OR REPLACE FUNCTION can_moderate_comments(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  -- Admins/superadmins can moderate anything
+  IF is_admin() THEN
+    RETURN true;
+  END IF;
+
+  -- Event creator can moderate event comments
+  IF p_target_type = 'event' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM events
+      WHERE id = p_target_id
+      AND created_by = auth.uid()
+    );
+  END IF;
+
+  -- Moment owner can moderate moment comments
+  IF p_target_type = 'moment' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM moments
+      WHERE id = p_target_id
+      AND user_id = auth.uid()
+    );
+  END IF;
+
+  -- Tribe leaders/admins (and the creator) moderate the board
+  IF p_target_type = 'tribe' THEN
+    RETURN is_tribe_admin(p_target_id, auth.uid());
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- ============================================
+-- 3. RLS: visibility and posting
+-- ============================================
+
+DROP POLICY IF EXISTS "comments_select_published" ON comments;
+CREATE POLICY "comments_select_published"
+ON comments FOR SELECT
+USING (
+  (NOT is_deleted AND NOT is_hidden AND can_view_comment_target(target_type, target_id))
+  OR
+  (user_id = auth.uid())
+  OR
+  can_moderate_comments(target_type, target_id)
+);
+
+DROP POLICY IF EXISTS "comments_insert_authenticated" ON comments;
+CREATE POLICY "comments_insert_authenticated"
+ON comments FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND
+  CASE target_type
+    WHEN 'event' THEN EXISTS (
+      SELECT 1 FROM events
+      WHERE id = target_id
+      AND status = 'published'
+    )
+    WHEN 'moment' THEN EXISTS (
+      SELECT 1 FROM moments
+      WHERE id = target_id
+      AND status = 'published'
+    )
+    WHEN 'tribe' THEN is_tribe_member(target_id, auth.uid()) OR is_tribe_creator(target_id, auth.uid())
+    ELSE false
+  END
+  AND
+  (parent_id IS NULL OR EXISTS (
+    SELECT 1 FROM comments c
+    WHERE c.id = parent_id
+    AND c.parent_id IS NULL
+    AND c.target_type = comments.target_type
+    AND c.target_id = comments.target_id
+    AND NOT c.is_deleted
+  ))
+);
+
+-- ============================================
+-- 4. RPC: create_comment accepts tribe posts
+-- ============================================
+
+CREATE OR REPLACE FUNCTION create_comment(
+  p_target_type text,
+  p_target_id uuid,
+  p_content text,
+  p_parent_id uuid DEFAULT NULL,
+  p_source_locale text DEFAULT 'en'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_comment_id uuid;
+  v_parent_target_type text;
+  v_parent_target_id uuid;
+  v_content_owner_id uuid;
+  v_parent_author_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF char_length(p_content) < 1 OR char_length(p_content) > 2000 THEN
+    RAISE EXCEPTION 'invalid_content_length';
+  END IF;
+
+  IF p_target_type NOT IN ('event', 'moment', 'tribe') THEN
+    RAISE EXCEPTION 'invalid_target_type';
+  END IF;
+
+  IF p_target_type = 'event' THEN
+    SELECT created_by INTO v_content_owner_id
+    FROM events WHERE id = p_target_id AND status = 'published';
+    IF v_content_owner_id IS NULL THEN
+      RAISE EXCEPTION 'target_not_found';
+    END IF;
+  ELSIF p_target_type = 'moment' THEN
+    SELECT user_id INTO v_content_owner_id
+    FROM moments WHERE id = p_target_id AND status = 'published';
+    IF v_content_owner_id IS NULL THEN
+      RAISE EXCEPTION 'target_not_found';
+    END IF;
+  ELSIF p_target_type = 'tribe' THEN
+    SELECT created_by INTO v_content_owner_id
+    FROM tribes WHERE id = p_target_id;
+    IF v_content_owner_id IS NULL THEN
+      RAISE EXCEPTION 'target_not_found';
+    END IF;
+    -- Readers of a public board can't post; only members can
+    IF NOT (is_tribe_member(p_target_id, v_uid) OR is_tribe_creator(p_target_id, v_uid)) THEN
+      RAISE EXCEPTION 'not_a_member';
+    END IF;
+  END IF;
+
+  IF p_parent_id IS NOT NULL THEN
+    SELECT target_type, target_id, user_id
+    INTO v_parent_target_type, v_parent_target_id, v_parent_author_id
+    FROM comments
+    WHERE id = p_parent_id
+      AND parent_id IS NULL
+      AND NOT is_deleted;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'parent_not_found';
+    END IF;
+
+    IF v_parent_target_type != p_target_type OR v_parent_target_id != p_target_id THEN
+      RAISE EXCEPTION 'parent_target_mismatch';
+    END IF;
+  END IF;
+
+  INSERT INTO comments (
+    target_type,
+    target_id,
+    parent_id,
+    user_id,
+    content,
+    source_locale
+  ) VALUES (
+    p_target_type,
+    p_target_id,
+    p_parent_id,
+    v_uid,
+    p_content,
+    p_source_locale
+  )
+  RETURNING id INTO v_comment_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'comment_id', v_comment_id,
+    'is_reply', p_parent_id IS NOT NULL,
+    'content_owner_id', v_content_owner_id,
+    'parent_author_id', v_parent_author_id
+  );
+END;
+$$;
+
+-- ============================================
+-- 5. Readers: visibility guard + pinned first
+-- ============================================
+
+-- Return type gains is_pinned, so the function is dropped, not replaced
+DROP FUNCTION IF EXISTS get_comments(text, uuid, int, int, text);
+CREATE FUNCTION get_comments(
+  p_target_type text,
+  p_target_id uuid,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_sort text DEFAULT 'newest'
+)
+RETURNS TABLE (
+  id uuid,
+  parent_id uuid,
+  user_id uuid,
+  content text,
+  is_deleted boolean,
+  is_edited boolean,
+  edited_at timestamptz,
+  reply_count int,
+  source_locale text,
+  created_at timestamptz,
+  is_pinned boolean,
+  username text,
+  display_name text,
+  avatar_url text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_view_comment_target(p_target_type, p_target_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.parent_id,
+    c.user_id,
+    CASE WHEN c.is_deleted THEN '[deleted]' ELSE c.content END AS content,
+    c.is_deleted,
+    c.is_edited,
+    c.edited_at,
+    c.reply_count,
+    c.source_locale,
+    c.created_at,
+    c.is_pinned,
+    p.username,
+    p.display_name,
+    p.avatar_url
+  FROM comments c
+  JOIN profiles p ON p.id = c.user_id
+  WHERE c.target_type = p_target_type
+    AND c.target_id = p_target_id
+    AND c.parent_id IS NULL
+    AND NOT c.is_hidden
+    AND (NOT c.is_deleted OR c.reply_count > 0)
+  ORDER BY
+    c.is_pinned DESC,
+    c.pinned_at DESC NULLS LAST,
+    CASE WHEN p_sort = 'newest' THEN c.created_at END DESC,
+    CASE WHEN p_sort = 'oldest' THEN c.created_at END ASC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_comments(text, uuid, int, int, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_comment_replies(
+  p_parent_id uuid,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  parent_id uuid,
+  user_id uuid,
+  content text,
+  is_deleted boolean,
+  is_edited boolean,
+  edited_at timestamptz,
+  source_locale text,
+  created_at timestamptz,
+  username text,
+  display_name text,
+  avatar_url text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.parent_id,
+    c.user_id,
+    CASE WHEN c.is_deleted THEN '[deleted]' ELSE c.content END AS content,
+    c.is_deleted,
+    c.is_edited,
+    c.edited_at,
+    c.source_locale,
+    c.created_at,
+    p.username,
+    p.display_name,
+    p.avatar_url
+  FROM comments c
+  JOIN profiles p ON p.id = c.user_id
+  WHERE c.parent_id = p_parent_id
+    AND NOT c.is_hidden
+    AND can_view_comment_target(c.target_type, c.target_id)
+  ORDER BY c.created_at ASC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_comment_count(
+  p_target_type text,
+  p_target_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total_count int := 0;
+  v_top_level_count int := 0;
+BEGIN
+  IF can_view_comment_target(p_target_type, p_target_id) THEN
+    SELECT
+      count(*),
+      count(*) FILTER (WHERE parent_id IS NULL)
+    INTO v_total_count, v_top_level_count
+    FROM comments
+    WHERE target_type = p_target_type
+      AND target_id = p_target_id
+      AND NOT is_deleted
+      AND NOT is_hidden;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'target_type', p_target_type,
+    'target_id', p_target_id,
+    'total_count', v_total_count,
+    'top_level_count', v_top_level_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_comment_counts_batch(
+  p_target_type text,
+  p_target_ids uuid[]
+)
+RETURNS TABLE (
+  target_id uuid,
+  total_count bigint,
+  top_level_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_target_type NOT IN ('event', 'moment', 'tribe') THEN
+    RAISE EXCEPTION 'invalid_target_type';
+  END IF;
+
+  IF p_target_ids IS NULL OR array_length(p_target_ids, 1) IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.target_id,
+    COUNT(*)::bigint AS total_count,
+    COUNT(*) FILTER (WHERE c.parent_id IS NULL)::bigint AS top_level_count
+  FROM comments c
+  WHERE c.target_type = p_target_type
+    AND c.target_id = ANY(p_target_ids)
+    AND c.is_deleted = false
+    AND c.is_hidden = false
+    AND can_view_comment_target(c.target_type, c.target_id)
+  GROUP BY c.target_id;
+END;
+$$;
+
+-- Reacting to a post you can't read would confirm it exists
+CREATE OR REPLACE FUNCTION reaction_target_is_valid(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE p_target_type
+    WHEN 'moment' THEN
+      RETURN EXISTS (SELECT 1 FROM moments WHERE id = p_target_id AND status = 'published');
+    WHEN 'comment' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM comments
+        WHERE id = p_target_id AND NOT is_deleted AND NOT is_hidden
+          AND can_view_comment_target(target_type, target_id)
+      );
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$;
+
+-- ============================================
+-- 6. Pinning
+-- ============================================
+
+CREATE OR REPLACE FUNCTION pin_comment(p_comment_id uuid, p_pinned boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_comment record;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO v_comment
+  FROM comments
+  WHERE id = p_comment_id AND NOT is_deleted;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'comment_not_found';
+  END IF;
+
+  -- Only board posts are pinnable; replies and event/moment comments aren't
+  IF v_comment.target_type <> 'tribe' OR v_comment.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'not_pinnable';
+  END IF;
+
+  IF NOT can_moderate_comments(v_comment.target_type, v_comment.target_id) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  -- Three announcements is already a lot of scrolling before the discussion
+  IF p_pinned AND NOT v_comment.is_pinned AND (
+    SELECT count(*) FROM comments
+    WHERE target_type = 'tribe' AND target_id = v_comment.target_id
+      AND is_pinned AND NOT is_deleted
+  ) >= 3 THEN
+    RAISE EXCEPTION 'pin_limit_reached';
+  END IF;
+
+  UPDATE comments
+  SET
+    is_pinned = p_pinned,
+    pinned_at = CASE WHEN p_pinned THEN now() END,
+    pinned_by = CASE WHEN p_pinned THEN v_uid END
+  WHERE id = p_comment_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'comment_id', p_comment_id,
+    'is_pinned', p_pinned
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION pin_comment(uuid, boolean) TO authenticated;
+
+-- ============================================
+-- 7. Muting a whole board
+-- ============================================
+
+-- thread_id may now also be a tribe id: "no tribe_new_post for me"
+CREATE OR REPLACE FUNCTION toggle_mute_thread(p_thread_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_existing uuid;
+  v_muted boolean;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE id = p_thread_id AND parent_id IS NULL
+  ) AND NOT is_tribe_member(p_thread_id, v_uid) THEN
+    RAISE EXCEPTION 'thread_not_found';
+  END IF;
+
+  SELECT id INTO v_existing
+  FROM muted_threads
+  WHERE user_id = v_uid AND thread_id = p_thread_id;
+
+  IF v_existing IS NOT NULL THEN
+    DELETE FROM muted_threads WHERE id = v_existing;
+    v_muted := false;
+  ELSE
+    INSERT INTO muted_threads (user_id, thread_id)
+    VALUES (v_uid, p_thread_id);
+    v_muted := true;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'thread_id', p_thread_id,
+    'muted', v_muted
+  );
+END;
+$$;
+
+-- ============================================
+-- 8. Cleanup + notification type
+-- ============================================
+
+-- target_id can't carry a FK; deleting a tribe takes its board with it (the
+-- comment delete trigger then clears their reactions)
+CREATE OR REPLACE FUNCTION delete_tribe_posts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM comments WHERE target_type = 'tribe' AND target_id = OLD.id;
+  DELETE FROM muted_threads WHERE thread_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_tribe_delete_clear_posts ON tribes;
+CREATE TRIGGER on_tribe_delete_clear_posts
+  AFTER DELETE ON tribes
+  FOR EACH ROW EXECUTE FUNCTION delete_tribe_posts();
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'tribe_new_post';
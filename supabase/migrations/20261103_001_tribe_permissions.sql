@@ -0,0 +1,209 @@
+-- Per-tribe permissions matrix.
+--
+-- Until now every tribe power was "creator, leader or admin" (is_tribe_admin).
+-- Tribes can now choose which roles may:
+--   create_events, approve_requests, invite, rotate_invite_code,
+--   moderate_moments, ban_members
+-- stored as tribes.settings->'permissions' = { "<permission>": ["admin", ...] }.
+-- A permission that isn't configured keeps the old leader/admin default.
+-- The creator and leaders always hold every permission.
+--
+-- The API checks the same rules in lib/tribes/permissions.ts; this function
+-- mirrors it so RLS and SECURITY DEFINER functions agree with the routes.
+-- Board moderation (can_moderate_comments) stays on is_tribe_admin.
+
+-- ============================================
+-- 1. has_tribe_permission()
+-- ============================================
+
+CREATE OR REPLACE FUNCTION has_tribe_permission(
+  p_tribe_id UUID,
+  p_permission TEXT,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tribes
+    WHERE id = p_tribe_id
+    AND created_by = p_user_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM tribe_members tm
+    JOIN tribes t ON t.id = tm.tribe_id
+    WHERE tm.tribe_id = p_tribe_id
+    AND tm.user_id = p_user_id
+    AND tm.status = 'active'
+    AND (
+      tm.role = 'leader'
+      OR CASE
+        WHEN jsonb_typeof(t.settings->'permissions'->p_permission) = 'array'
+          THEN (t.settings->'permissions'->p_permission) ? tm.role
+        ELSE tm.role = 'admin'
+      END
+    )
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION has_tribe_permission(UUID, TEXT, UUID) TO authenticated;
+
+-- ============================================
+-- 2. Join requests: approve_requests
+-- ============================================
+
+DROP POLICY IF EXISTS "tribe_requests_select" ON tribe_requests;
+CREATE POLICY "tribe_requests_select" ON tribe_requests FOR SELECT USING (
+  user_id = auth.uid()
+  OR has_tribe_permission(tribe_id, 'approve_requests')
+);
+
+DROP POLICY IF EXISTS "tribe_requests_update" ON tribe_requests;
+CREATE POLICY "tribe_requests_update" ON tribe_requests FOR UPDATE USING (
+  (user_id = auth.uid() AND status = 'pending')
+  OR has_tribe_permission(tribe_id, 'approve_requests')
+);
+
+-- ============================================
+-- 3. Members: approving adds a row, banning updates or deletes one
+-- ============================================
+-- is_tribe_admin stays on update/delete: leaders and admins still change
+-- roles (the route decides which), independent of ban_members.
+
+DROP POLICY IF EXISTS "tribe_members_insert" ON tribe_members;
+CREATE POLICY "tribe_members_insert" ON tribe_members FOR INSERT WITH CHECK (
+  -- User joining a public tribe
+  (user_id = auth.uid() AND EXISTS (
+    SELECT 1 FROM tribes WHERE id = tribe_id AND access_type = 'public'
+  ))
+  OR has_tribe_permission(tribe_id, 'approve_requests')
+);
+
+DROP POLICY IF EXISTS "tribe_members_update" ON tribe_members;
+CREATE POLICY "tribe_members_update" ON tribe_members FOR UPDATE USING (
+  user_id = auth.uid()
+  OR is_tribe_admin(tribe_id, auth.uid())
+  OR has_tribe_permission(tribe_id, 'ban_members')
+);
+
+DROP POLICY IF EXISTS "tribe_members_delete" ON tribe_members;
+CREATE POLICY "tribe_members_delete" ON tribe_members FOR DELETE USING (
+  user_id = auth.uid()
+  OR is_tribe_admin(tribe_id, auth.uid())
+  OR has_tribe_permission(tribe_id, 'ban_members')
+);
+
+-- ============================================
+-- 4. Invitations: invite
+-- ============================================
+
+DROP POLICY IF EXISTS "tribe_invitations_select" ON tribe_invitations;
+CREATE POLICY "tribe_invitations_select" ON tribe_invitations FOR SELECT USING (
+  invited_by = auth.uid()
+  OR claimed_by = auth.uid()
+  OR has_tribe_permission(tribe_id, 'invite')
+);
+
+DROP POLICY IF EXISTS "tribe_invitations_insert" ON tribe_invitations;
+CREATE POLICY "tribe_invitations_insert" ON tribe_invitations FOR INSERT WITH CHECK (
+  invited_by = auth.uid()
+  AND has_tribe_permission(tribe_id, 'invite')
+);
+
+DROP POLICY IF EXISTS "tribe_invitations_update" ON tribe_invitations;
+CREATE POLICY "tribe_invitations_update" ON tribe_invitations FOR UPDATE USING (
+  invited_by = auth.uid()
+  OR claimed_by = auth.uid()
+  OR has_tribe_permission(tribe_id, 'invite')
+);
+
+DROP POLICY IF EXISTS "tribe_invitations_delete" ON tribe_invitations;
+CREATE POLICY "tribe_invitations_delete" ON tribe_invitations FOR DELETE USING (
+  invited_by = auth.uid()
+  OR has_tribe_permission(tribe_id, 'invite')
+);
+
+-- ============================================
+-- 5. Invite code rotation: rotate_invite_code
+-- ============================================
+-- Previously SECURITY DEFINER with no check at all: any signed-in user
+-- could rotate any tribe's code through the RPC.
+
+CREATE OR REPLACE FUNCTION regenerate_tribe_invite_code(p_tribe_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  new_code TEXT;
+BEGIN
+  IF NOT has_tribe_permission(p_tribe_id, 'rotate_invite_code') THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  new_code := generate_invite_code();
+  UPDATE tribes SET invite_code = new_code WHERE id = p_tribe_id;
+  RETURN new_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 6. Moments on tribe events: moderate_moments
+-- ============================================
+
+CREATE OR REPLACE FUNCTION remove_moment(
+  p_moment_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_current_status text;
+  v_is_event_creator boolean;
+  v_is_admin_or_mod boolean;
+  v_is_tribe_moderator boolean;
+BEGIN
+  SELECT event_id, status INTO v_event_id, v_current_status
+  FROM moments
+  WHERE id = p_moment_id;
+
+  IF v_event_id IS NULL THEN
+    RAISE EXCEPTION 'moment_not_found';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = v_event_id AND created_by = auth.uid()
+  ) INTO v_is_event_creator;
+
+  SELECT has_role_level('moderator') INTO v_is_admin_or_mod;
+
+  -- Tribe events: whoever the tribe lets moderate moments
+  SELECT COALESCE(has_tribe_permission(e.tribe_id, 'moderate_moments'), false)
+  INTO v_is_tribe_moderator
+  FROM events e
+  WHERE e.id = v_event_id AND e.tribe_id IS NOT NULL;
+
+  IF NOT v_is_event_creator AND NOT v_is_admin_or_mod AND NOT COALESCE(v_is_tribe_moderator, false) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF v_current_status NOT IN ('published', 'pending') THEN
+    RAISE EXCEPTION 'invalid_status';
+  END IF;
+
+  UPDATE moments
+  SET
+    status = 'removed',
+    moderation_note = COALESCE(p_reason, 'Removed by moderator'),
+    updated_at = now()
+  WHERE id = p_moment_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'moment_id', p_moment_id,
+    'new_status', 'removed'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION remove_moment(uuid, text) TO authenticated;
@@ -0,0 +1,45 @@
+-- Live stream recordings as replayable moments.
+--
+-- When Cloudflare finishes a live input's recording it sends video.ready with
+-- liveInput.uid set. The webhook now publishes that recording as a `video`
+-- moment on the stream's event (owned by the broadcaster) and records the link
+-- here, so the moment page can replay stream_chat_messages against the video
+-- timeline: a message's position is created_at - recorded_at.
+
+-- ============================================
+-- 1. stream_recordings
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS stream_recordings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept when the live_streams row is cleaned up; the moment outlives it
+  stream_id UUID REFERENCES live_streams(id) ON DELETE SET NULL,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  moment_id UUID NOT NULL REFERENCES moments(id) ON DELETE CASCADE,
+  -- Webhooks are retried; one recording per Cloudflare video
+  cf_video_uid TEXT NOT NULL UNIQUE,
+  -- Wall-clock time of the recording's first frame (chat offset origin)
+  recorded_at TIMESTAMPTZ NOT NULL,
+  duration_seconds NUMERIC,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stream_recordings_moment ON stream_recordings(moment_id);
+CREATE INDEX IF NOT EXISTS idx_stream_recordings_event ON stream_recordings(event_id);
+
+-- ============================================
+-- 2. RLS
+-- ============================================
+
+ALTER TABLE stream_recordings ENABLE ROW LEVEL SECURITY;
+
+-- Readable whenever the recording's moment is (moments RLS does the work).
+-- Writes come from the webhook with the service role only.
+CREATE POLICY "stream_recordings_select_visible_moment"
+ON stream_recordings FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM moments
+    WHERE moments.id = stream_recordings.moment_id
+  )
+);
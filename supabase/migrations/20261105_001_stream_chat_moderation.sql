@@ -0,0 +1,764 @@
+-- Live stream chat moderation.
+--
+-- One chat is shared by every stream (angle) of an event, so moderation state
+-- hangs off the event:
+--   * stream_chat_settings   slow mode, followers-only, blocked words, pinned message
+--   * stream_chat_moderators people the host has deputised
+--   * stream_chat_bans       timeouts (expires_at set) and bans (expires_at null)
+-- Moderators are the event creator, anyone broadcasting on the event, deputies
+-- and site moderators/admins.
+--
+-- Everything is enforced in the RPCs below. The direct INSERT/UPDATE policies
+-- on stream_chat_messages are dropped so nothing can go around them.
+--
+-- Every moderation action leaves a `system` message in the chat (the audit
+-- trail viewers see), with metadata so clients can render it in their own
+-- language. Pinning marks the message as a `highlight`, which also makes it a
+-- chapter in the recording's replay.
+
+-- ============================================
+-- 1. Tables
+-- ============================================
+
+ALTER TABLE stream_chat_messages
+ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE TABLE IF NOT EXISTS stream_chat_settings (
+  event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  slow_mode_seconds INT NOT NULL DEFAULT 0 CHECK (slow_mode_seconds BETWEEN 0 AND 300),
+  followers_only BOOLEAN NOT NULL DEFAULT false,
+  -- { "<locale>": ["term", ...] }; every list applies to every message
+  blocked_words JSONB NOT NULL DEFAULT '{}'::jsonb,
+  pinned_message_id UUID REFERENCES stream_chat_messages(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stream_chat_moderators (
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS stream_chat_bans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  banned_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reason TEXT CHECK (reason IS NULL OR char_length(reason) <= 200),
+  -- NULL = banned for the rest of the event; otherwise a timeout
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stream_chat_user_event_created
+ON stream_chat_messages(user_id, event_id, created_at DESC);
+
+-- ============================================
+-- 2. Helpers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION can_moderate_stream_chat(
+  p_event_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND created_by = p_user_id)
+    OR EXISTS (SELECT 1 FROM live_streams WHERE event_id = p_event_id AND broadcaster_id = p_user_id)
+    OR EXISTS (SELECT 1 FROM stream_chat_moderators WHERE event_id = p_event_id AND user_id = p_user_id)
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = p_user_id
+      AND get_role_level(role) >= get_role_level('moderator')
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_moderate_stream_chat(UUID, UUID) TO anon, authenticated;
+
+-- First blocked term found in p_content, or NULL. Terms in spaced scripts
+-- (Latin incl. Vietnamese, Cyrillic) must match whole words so "ass" doesn't
+-- catch "class"; anything else (CJK, Thai...) has no word breaks and matches
+-- as a substring. Mirrors findBlockedTerm() in lib/streaming/moderation.ts.
+CREATE OR REPLACE FUNCTION stream_chat_blocked_term(
+  p_content TEXT,
+  p_blocked_words JSONB
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_content TEXT := lower(normalize(p_content, NFC));
+  v_term TEXT;
+  v_pattern TEXT;
+BEGIN
+  IF p_blocked_words IS NULL OR jsonb_typeof(p_blocked_words) <> 'object' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_term IN
+    SELECT DISTINCT lower(normalize(t, NFC))
+    FROM jsonb_each(p_blocked_words) AS lists(locale, terms),
+         jsonb_array_elements_text(
+           CASE WHEN jsonb_typeof(lists.terms) = 'array' THEN lists.terms ELSE '[]'::jsonb END
+         ) AS t
+    WHERE char_length(trim(t)) > 0
+  LOOP
+    IF v_term ~ '^[ -ɏḀ-ỿЀ-ӿ]+$' THEN
+      v_pattern := '(^|[^[:alnum:]])'
+        || regexp_replace(v_term, '([.^$*+?()\[\]{}|\\-])', '\\\1', 'g')
+        || '($|[^[:alnum:]])';
+      IF v_content ~ v_pattern THEN
+        RETURN v_term;
+      END IF;
+    ELSIF strpos(v_content, v_term) > 0 THEN
+      RETURN v_term;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Append an audit entry to the chat. Internal: only called from the RPCs here.
+CREATE OR REPLACE FUNCTION log_stream_chat_action(
+  p_event_id UUID,
+  p_actor UUID,
+  p_content TEXT,
+  p_metadata JSONB
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO stream_chat_messages (event_id, user_id, content, message_type, metadata)
+  VALUES (p_event_id, p_actor, left(p_content, 500), 'system', p_metadata);
+$$;
+
+REVOKE EXECUTE ON FUNCTION log_stream_chat_action(UUID, UUID, TEXT, JSONB) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION stream_chat_display_name(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(display_name, username, 'Someone') FROM profiles WHERE id = p_user_id;
+$$;
+
+-- ============================================
+-- 3. Sending and deleting
+-- ============================================
+
+CREATE OR REPLACE FUNCTION send_stream_chat_message(
+  p_event_id uuid,
+  p_content text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_message_id uuid;
+  v_event record;
+  v_settings stream_chat_settings%ROWTYPE;
+  v_ban stream_chat_bans%ROWTYPE;
+  v_last_sent timestamptz;
+  v_wait int;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_content IS NULL OR char_length(trim(p_content)) = 0 THEN
+    RAISE EXCEPTION 'empty_message';
+  END IF;
+
+  IF char_length(p_content) > 500 THEN
+    RAISE EXCEPTION 'message_too_long';
+  END IF;
+
+  SELECT id, created_by INTO v_event
+  FROM events
+  WHERE id = p_event_id AND status = 'published';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  -- Moderators are exempt from every restriction below
+  IF NOT can_moderate_stream_chat(p_event_id, v_uid) THEN
+    SELECT * INTO v_ban
+    FROM stream_chat_bans
+    WHERE event_id = p_event_id AND user_id = v_uid
+    AND (expires_at IS NULL OR expires_at > now());
+
+    IF FOUND THEN
+      IF v_ban.expires_at IS NULL THEN
+        RAISE EXCEPTION 'chat_banned';
+      END IF;
+      RAISE EXCEPTION 'chat_timed_out:%', ceil(extract(epoch FROM v_ban.expires_at - now()))::int;
+    END IF;
+
+    SELECT * INTO v_settings FROM stream_chat_settings WHERE event_id = p_event_id;
+
+    IF FOUND THEN
+      IF v_settings.followers_only AND NOT EXISTS (
+        SELECT 1 FROM user_follows
+        WHERE follower_id = v_uid AND following_id = v_event.created_by
+      ) THEN
+        RAISE EXCEPTION 'followers_only';
+      END IF;
+
+      IF v_settings.slow_mode_seconds > 0 THEN
+        SELECT max(created_at) INTO v_last_sent
+        FROM stream_chat_messages
+        WHERE event_id = p_event_id AND user_id = v_uid AND message_type = 'text';
+
+        IF v_last_sent IS NOT NULL
+          AND v_last_sent > now() - make_interval(secs => v_settings.slow_mode_seconds) THEN
+          v_wait := ceil(extract(epoch FROM
+            v_last_sent + make_interval(secs => v_settings.slow_mode_seconds) - now()))::int;
+          RAISE EXCEPTION 'slow_mode:%', greatest(v_wait, 1);
+        END IF;
+      END IF;
+
+      IF stream_chat_blocked_term(p_content, v_settings.blocked_words) IS NOT NULL THEN
+        RAISE EXCEPTION 'blocked_word';
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO stream_chat_messages (event_id, user_id, content, message_type)
+  VALUES (p_event_id, v_uid, trim(p_content), 'text')
+  RETURNING id INTO v_message_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'message_id', v_message_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION send_stream_chat_message(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION delete_stream_chat_message(p_message_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_message record;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM stream_chat_messages
+  WHERE id = p_message_id AND is_deleted = false;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'message_not_found';
+  END IF;
+
+  -- Authors may delete their own messages, but not the audit trail
+  IF NOT (
+    (v_message.user_id = v_uid AND v_message.message_type <> 'system')
+    OR can_moderate_stream_chat(v_message.event_id, v_uid)
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  UPDATE stream_chat_messages
+  SET
+    is_deleted = true,
+    deleted_by = v_uid,
+    deleted_at = now()
+  WHERE id = p_message_id;
+
+  UPDATE stream_chat_settings
+  SET pinned_message_id = NULL
+  WHERE pinned_message_id = p_message_id;
+
+  IF v_message.user_id <> v_uid AND v_message.message_type <> 'system' THEN
+    PERFORM log_stream_chat_action(
+      v_message.event_id, v_uid,
+      'A message from ' || stream_chat_display_name(v_message.user_id) || ' was removed',
+      jsonb_build_object(
+        'action', 'delete',
+        'target_user_id', v_message.user_id,
+        'target_name', stream_chat_display_name(v_message.user_id)
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'message_id', p_message_id,
+    'deleted', true
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_stream_chat_message(uuid) TO authenticated;
+
+-- Now returns metadata so audit entries can be localised. Also reads
+-- display_name: profiles has no full_name column, so the original errored.
+DROP FUNCTION IF EXISTS get_stream_chat_messages(uuid, int, timestamptz);
+
+CREATE FUNCTION get_stream_chat_messages(
+  p_event_id uuid,
+  p_limit int DEFAULT 50,
+  p_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  user_name text,
+  user_avatar text,
+  content text,
+  message_type text,
+  metadata jsonb,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.user_id,
+    p.display_name AS user_name,
+    p.avatar_url AS user_avatar,
+    m.content,
+    m.message_type,
+    m.metadata,
+    m.created_at
+  FROM stream_chat_messages m
+  JOIN profiles p ON p.id = m.user_id
+  WHERE m.event_id = p_event_id
+    AND m.is_deleted = false
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY m.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stream_chat_messages(uuid, int, timestamptz) TO anon, authenticated;
+
+-- ============================================
+-- 4. Moderation RPCs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_stream_chat_settings(
+  p_event_id UUID,
+  p_slow_mode_seconds INT,
+  p_followers_only BOOLEAN,
+  p_blocked_words JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_old stream_chat_settings%ROWTYPE;
+  v_term_count INT;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT can_moderate_stream_chat(p_event_id, v_uid) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_slow_mode_seconds IS NULL OR p_slow_mode_seconds NOT BETWEEN 0 AND 300 THEN
+    RAISE EXCEPTION 'invalid_slow_mode';
+  END IF;
+
+  IF p_blocked_words IS NULL OR jsonb_typeof(p_blocked_words) <> 'object' OR EXISTS (
+    SELECT 1 FROM jsonb_each(p_blocked_words) AS lists(locale, terms)
+    WHERE jsonb_typeof(lists.terms) <> 'array'
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(lists.terms) AS t
+      WHERE jsonb_typeof(t) <> 'string' OR char_length(t #>> '{}') > 50
+    )
+  ) THEN
+    RAISE EXCEPTION 'invalid_blocked_words';
+  END IF;
+
+  SELECT count(*) INTO v_term_count
+  FROM jsonb_each(p_blocked_words) AS lists(locale, terms),
+       jsonb_array_elements(lists.terms);
+
+  IF v_term_count > 500 THEN
+    RAISE EXCEPTION 'invalid_blocked_words';
+  END IF;
+
+  SELECT * INTO v_old FROM stream_chat_settings WHERE event_id = p_event_id;
+
+  INSERT INTO stream_chat_settings (event_id, slow_mode_seconds, followers_only, blocked_words, updated_by, updated_at)
+  VALUES (p_event_id, p_slow_mode_seconds, coalesce(p_followers_only, false), p_blocked_words, v_uid, now())
+  ON CONFLICT (event_id) DO UPDATE SET
+    slow_mode_seconds = EXCLUDED.slow_mode_seconds,
+    followers_only = EXCLUDED.followers_only,
+    blocked_words = EXCLUDED.blocked_words,
+    updated_by = EXCLUDED.updated_by,
+    updated_at = EXCLUDED.updated_at;
+
+  -- Viewers are told about the rules that affect them; the word list stays private
+  IF coalesce(v_old.slow_mode_seconds, 0) <> p_slow_mode_seconds THEN
+    PERFORM log_stream_chat_action(
+      p_event_id, v_uid,
+      CASE WHEN p_slow_mode_seconds > 0
+        THEN 'Slow mode is on: one message every ' || p_slow_mode_seconds || 's'
+        ELSE 'Slow mode is off'
+      END,
+      jsonb_build_object('action', 'slow_mode', 'seconds', p_slow_mode_seconds)
+    );
+  END IF;
+
+  IF coalesce(v_old.followers_only, false) <> coalesce(p_followers_only, false) THEN
+    PERFORM log_stream_chat_action(
+      p_event_id, v_uid,
+      CASE WHEN p_followers_only
+        THEN 'Chat is now followers-only'
+        ELSE 'Chat is open to everyone'
+      END,
+      jsonb_build_object('action', 'followers_only', 'enabled', coalesce(p_followers_only, false))
+    );
+  END IF;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_stream_chat_settings(UUID, INT, BOOLEAN, JSONB) TO authenticated;
+
+-- p_action: 'timeout' (needs p_duration_seconds, max 24h), 'ban' or 'unban'
+CREATE OR REPLACE FUNCTION moderate_stream_chat_user(
+  p_event_id UUID,
+  p_user_id UUID,
+  p_action TEXT,
+  p_duration_seconds INT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_name TEXT;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT can_moderate_stream_chat(p_event_id, v_uid) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_user_id = v_uid OR can_moderate_stream_chat(p_event_id, p_user_id) THEN
+    RAISE EXCEPTION 'cannot_moderate_moderator';
+  END IF;
+
+  v_name := stream_chat_display_name(p_user_id);
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'user_not_found';
+  END IF;
+
+  IF p_action = 'timeout' THEN
+    IF p_duration_seconds IS NULL OR p_duration_seconds NOT BETWEEN 10 AND 86400 THEN
+      RAISE EXCEPTION 'invalid_duration';
+    END IF;
+
+    INSERT INTO stream_chat_bans (event_id, user_id, banned_by, reason, expires_at)
+    VALUES (p_event_id, p_user_id, v_uid, p_reason, now() + make_interval(secs => p_duration_seconds))
+    ON CONFLICT (event_id, user_id) DO UPDATE SET
+      banned_by = EXCLUDED.banned_by,
+      reason = EXCLUDED.reason,
+      expires_at = EXCLUDED.expires_at,
+      created_at = now();
+
+    PERFORM log_stream_chat_action(
+      p_event_id, v_uid,
+      v_name || ' was timed out for ' || p_duration_seconds || 's',
+      jsonb_build_object('action', 'timeout', 'target_user_id', p_user_id, 'target_name', v_name, 'seconds', p_duration_seconds)
+    );
+  ELSIF p_action = 'ban' THEN
+    INSERT INTO stream_chat_bans (event_id, user_id, banned_by, reason, expires_at)
+    VALUES (p_event_id, p_user_id, v_uid, p_reason, NULL)
+    ON CONFLICT (event_id, user_id) DO UPDATE SET
+      banned_by = EXCLUDED.banned_by,
+      reason = EXCLUDED.reason,
+      expires_at = NULL,
+      created_at = now();
+
+    PERFORM log_stream_chat_action(
+      p_event_id, v_uid,
+      v_name || ' was banned from the chat',
+      jsonb_build_object('action', 'ban', 'target_user_id', p_user_id, 'target_name', v_name)
+    );
+  ELSIF p_action = 'unban' THEN
+    DELETE FROM stream_chat_bans WHERE event_id = p_event_id AND user_id = p_user_id;
+
+    IF FOUND THEN
+      PERFORM log_stream_chat_action(
+        p_event_id, v_uid,
+        v_name || ' can chat again',
+        jsonb_build_object('action', 'unban', 'target_user_id', p_user_id, 'target_name', v_name)
+      );
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'invalid_action';
+  END IF;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION moderate_stream_chat_user(UUID, UUID, TEXT, INT, TEXT) TO authenticated;
+
+-- Pin a message to the top of the chat (NULL p_message_id unpins). Pinned
+-- messages become highlights and stay highlights after unpinning.
+CREATE OR REPLACE FUNCTION pin_stream_chat_message(
+  p_event_id UUID,
+  p_message_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_message stream_chat_messages%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT can_moderate_stream_chat(p_event_id, v_uid) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_message_id IS NOT NULL THEN
+    SELECT * INTO v_message
+    FROM stream_chat_messages
+    WHERE id = p_message_id AND event_id = p_event_id
+    AND is_deleted = false AND message_type <> 'system';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'message_not_found';
+    END IF;
+
+    UPDATE stream_chat_messages SET message_type = 'highlight' WHERE id = p_message_id;
+  END IF;
+
+  INSERT INTO stream_chat_settings (event_id, pinned_message_id, updated_by, updated_at)
+  VALUES (p_event_id, p_message_id, v_uid, now())
+  ON CONFLICT (event_id) DO UPDATE SET
+    pinned_message_id = EXCLUDED.pinned_message_id,
+    updated_by = EXCLUDED.updated_by,
+    updated_at = EXCLUDED.updated_at;
+
+  PERFORM log_stream_chat_action(
+    p_event_id, v_uid,
+    CASE WHEN p_message_id IS NOT NULL THEN 'A message was pinned' ELSE 'The pinned message was removed' END,
+    jsonb_build_object(
+      'action', CASE WHEN p_message_id IS NOT NULL THEN 'pin' ELSE 'unpin' END,
+      'message_id', p_message_id
+    )
+  );
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION pin_stream_chat_message(UUID, UUID) TO authenticated;
+
+-- Deputies are appointed by the event creator (or site staff), not by other deputies
+CREATE OR REPLACE FUNCTION set_stream_chat_moderator(
+  p_event_id UUID,
+  p_user_id UUID,
+  p_is_moderator BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_name TEXT;
+  v_changed INT;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT (
+    EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND created_by = v_uid)
+    OR has_role_level('moderator')
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  v_name := stream_chat_display_name(p_user_id);
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'user_not_found';
+  END IF;
+
+  IF p_is_moderator THEN
+    INSERT INTO stream_chat_moderators (event_id, user_id, added_by)
+    VALUES (p_event_id, p_user_id, v_uid)
+    ON CONFLICT DO NOTHING;
+    GET DIAGNOSTICS v_changed = ROW_COUNT;
+
+    -- A new deputy starts with a clean slate
+    DELETE FROM stream_chat_bans WHERE event_id = p_event_id AND user_id = p_user_id;
+  ELSE
+    DELETE FROM stream_chat_moderators WHERE event_id = p_event_id AND user_id = p_user_id;
+    GET DIAGNOSTICS v_changed = ROW_COUNT;
+  END IF;
+
+  IF v_changed > 0 THEN
+    PERFORM log_stream_chat_action(
+      p_event_id, v_uid,
+      v_name || CASE WHEN p_is_moderator THEN ' is now a moderator' ELSE ' is no longer a moderator' END,
+      jsonb_build_object(
+        'action', CASE WHEN p_is_moderator THEN 'moderator_added' ELSE 'moderator_removed' END,
+        'target_user_id', p_user_id,
+        'target_name', v_name
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_stream_chat_moderator(UUID, UUID, BOOLEAN) TO authenticated;
+
+-- What a client needs to render the chat chrome: the public rules, the pinned
+-- message, the caller's own restriction, and (for moderators only) the word
+-- lists, deputies and active bans.
+CREATE OR REPLACE FUNCTION get_stream_chat_state(p_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_settings stream_chat_settings%ROWTYPE;
+  v_can_moderate BOOLEAN := can_moderate_stream_chat(p_event_id, v_uid);
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_settings FROM stream_chat_settings WHERE event_id = p_event_id;
+
+  v_result := jsonb_build_object(
+    'slow_mode_seconds', coalesce(v_settings.slow_mode_seconds, 0),
+    'followers_only', coalesce(v_settings.followers_only, false),
+    'can_moderate', v_can_moderate,
+    'pinned', (
+      SELECT jsonb_build_object(
+        'id', m.id,
+        'user_id', m.user_id,
+        'user_name', p.display_name,
+        'user_avatar', p.avatar_url,
+        'content', m.content,
+        'message_type', m.message_type,
+        'created_at', m.created_at
+      )
+      FROM stream_chat_messages m
+      JOIN profiles p ON p.id = m.user_id
+      WHERE m.id = v_settings.pinned_message_id AND m.is_deleted = false
+    ),
+    'restriction', (
+      SELECT jsonb_build_object('expires_at', b.expires_at)
+      FROM stream_chat_bans b
+      WHERE b.event_id = p_event_id AND b.user_id = v_uid
+      AND (b.expires_at IS NULL OR b.expires_at > now())
+    )
+  );
+
+  IF v_can_moderate THEN
+    v_result := v_result || jsonb_build_object(
+      'blocked_words', coalesce(v_settings.blocked_words, '{}'::jsonb),
+      'moderators', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('user_id', sm.user_id, 'user_name', p.display_name))
+        FROM stream_chat_moderators sm
+        JOIN profiles p ON p.id = sm.user_id
+        WHERE sm.event_id = p_event_id
+      ), '[]'::jsonb),
+      'bans', coalesce((
+        SELECT jsonb_agg(jsonb_build_object(
+          'user_id', b.user_id,
+          'user_name', p.display_name,
+          'expires_at', b.expires_at
+        ) ORDER BY b.created_at DESC)
+        FROM stream_chat_bans b
+        JOIN profiles p ON p.id = b.user_id
+        WHERE b.event_id = p_event_id
+        AND (b.expires_at IS NULL OR b.expires_at > now())
+      ), '[]'::jsonb)
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stream_chat_state(UUID) TO anon, authenticated;
+
+-- ============================================
+-- 5. RLS
+-- ============================================
+
+-- Writes only go through the RPCs above
+DROP POLICY IF EXISTS "stream_chat_insert_authenticated" ON stream_chat_messages;
+DROP POLICY IF EXISTS "stream_chat_update_own" ON stream_chat_messages;
+DROP POLICY IF EXISTS "stream_chat_moderate_event_creator" ON stream_chat_messages;
+
+ALTER TABLE stream_chat_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stream_chat_moderators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stream_chat_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stream_chat_settings_select_moderators"
+ON stream_chat_settings FOR SELECT
+USING (can_moderate_stream_chat(event_id));
+
+CREATE POLICY "stream_chat_moderators_select_public"
+ON stream_chat_moderators FOR SELECT
+USING (true);
+
+CREATE POLICY "stream_chat_bans_select_own_or_moderators"
+ON stream_chat_bans FOR SELECT
+USING (auth.uid() = user_id OR can_moderate_stream_chat(event_id));
@@ -0,0 +1,721 @@
+-- Loyalty reward fulfilment
+-- Claimed rewards now do something instead of sitting at 'pending':
+--   early_access  RSVP (or buy tickets) up to N hours before an event's
+--                 public opening, on events the host flagged for it
+--   discount      knocked off a paid ticket order when it's placed
+--   custom_perk   issued by a host; the member gets a code that the host
+--                 scans or types at check-in, once
+-- Rewards without a reward_type keep the manual admin fulfilment flow.
+-- A redemption is spent when used_at is set; used_for_reference_* says on what.
+
+-- ============================================
+-- 1. Reward behaviour
+-- ============================================
+
+ALTER TABLE rewards
+  ADD COLUMN IF NOT EXISTS reward_type text CHECK (
+    reward_type IS NULL OR
+    reward_type IN ('badge', 'feature', 'discount', 'early_access', 'priority_support', 'profile_badge', 'custom_perk')
+  ),
+  ADD COLUMN IF NOT EXISTS feature_key text,
+  ADD COLUMN IF NOT EXISTS discount_percentage int CHECK (discount_percentage BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS discount_fixed_amount bigint CHECK (discount_fixed_amount > 0),
+  ADD COLUMN IF NOT EXISTS discount_currency text NOT NULL DEFAULT 'VND',
+  ADD COLUMN IF NOT EXISTS early_access_hours int CHECK (early_access_hours BETWEEN 1 AND 168),
+  -- Host who issued a custom perk; it's honoured at that host's events only
+  ADD COLUMN IF NOT EXISTS host_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_fulfilment_fields;
+ALTER TABLE rewards ADD CONSTRAINT rewards_fulfilment_fields CHECK (
+  (reward_type IS DISTINCT FROM 'discount' OR discount_percentage IS NOT NULL OR discount_fixed_amount IS NOT NULL)
+  AND (reward_type IS DISTINCT FROM 'early_access' OR early_access_hours IS NOT NULL)
+  AND (host_id IS NULL OR reward_type = 'custom_perk')
+);
+
+CREATE INDEX IF NOT EXISTS idx_rewards_host ON rewards(host_id) WHERE host_id IS NOT NULL;
+
+-- The seeded early-access reward becomes a real one
+UPDATE rewards
+SET reward_type = 'early_access', early_access_hours = 24
+WHERE name = 'Event Early Access' AND reward_type IS NULL;
+
+-- Hosts issue their own perks. Anyone who has created an event counts as a host.
+DROP POLICY IF EXISTS "rewards_select_own_perks" ON rewards;
+CREATE POLICY "rewards_select_own_perks"
+ON rewards FOR SELECT
+USING (host_id = auth.uid());
+
+DROP POLICY IF EXISTS "rewards_insert_host_perk" ON rewards;
+CREATE POLICY "rewards_insert_host_perk"
+ON rewards FOR INSERT
+WITH CHECK (
+  host_id = auth.uid()
+  AND reward_type = 'custom_perk'
+  AND category <> 'host'
+  AND EXISTS (SELECT 1 FROM events WHERE created_by = auth.uid())
+);
+
+DROP POLICY IF EXISTS "rewards_update_host_perk" ON rewards;
+CREATE POLICY "rewards_update_host_perk"
+ON rewards FOR UPDATE
+USING (host_id = auth.uid())
+WITH CHECK (host_id = auth.uid() AND reward_type = 'custom_perk' AND category <> 'host');
+
+-- ============================================
+-- 2. Redemption usage
+-- ============================================
+
+ALTER TABLE reward_redemptions
+  ADD COLUMN IF NOT EXISTS used_at timestamptz,
+  ADD COLUMN IF NOT EXISTS used_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS used_for_reference_type text CHECK (
+    used_for_reference_type IS NULL OR used_for_reference_type IN ('event', 'ticket_order')
+  ),
+  ADD COLUMN IF NOT EXISTS used_for_reference_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_redemptions_unused
+  ON reward_redemptions(user_id, reward_id) WHERE used_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_redemptions_used_for
+  ON reward_redemptions(used_for_reference_type, used_for_reference_id);
+
+-- ============================================
+-- 3. Redeem: self-fulfilling rewards skip the admin queue
+-- ============================================
+-- Same checks as 20260820. Typed rewards start 'approved' (ready to use);
+-- custom perks also get a code for the door.
+
+CREATE OR REPLACE FUNCTION redeem_loyalty_reward(
+  p_reward_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_reward_cost int;
+  v_reward_type text;
+  v_current_balance int;
+  v_current_tier text;
+  v_min_tier text;
+  v_reward_stock int;
+  v_max_per_user int;
+  v_user_redemption_count int;
+  v_redemption_id uuid;
+  v_code text;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Get reward details
+  SELECT points_cost, reward_type, min_tier, stock_quantity, max_per_user
+  INTO v_reward_cost, v_reward_type, v_min_tier, v_reward_stock, v_max_per_user
+  FROM rewards
+  WHERE id = p_reward_id
+    AND is_active = true
+    AND (valid_from IS NULL OR valid_from <= NOW())
+    AND (valid_until IS NULL OR valid_until >= NOW());
+
+  IF v_reward_cost IS NULL THEN
+    RAISE EXCEPTION 'reward_not_available';
+  END IF;
+
+  -- Get user's current status
+  SELECT current_point_balance, current_tier
+  INTO v_current_balance, v_current_tier
+  FROM user_loyalty_status
+  WHERE user_id = v_user_id;
+
+  IF v_current_balance IS NULL THEN
+    RAISE EXCEPTION 'user_not_enrolled';
+  END IF;
+
+  -- Check point balance
+  IF v_current_balance < v_reward_cost THEN
+    RAISE EXCEPTION 'insufficient_points';
+  END IF;
+
+  -- Check tier requirement
+  IF v_min_tier IS NOT NULL AND tier_rank(v_current_tier) < tier_rank(v_min_tier) THEN
+    RAISE EXCEPTION 'tier_requirement_not_met';
+  END IF;
+
+  -- Check stock
+  IF v_reward_stock IS NOT NULL AND v_reward_stock <= 0 THEN
+    RAISE EXCEPTION 'reward_out_of_stock';
+  END IF;
+
+  -- Check max per user
+  IF v_max_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_user_redemption_count
+    FROM reward_redemptions
+    WHERE user_id = v_user_id
+      AND reward_id = p_reward_id
+      AND status != 'cancelled';
+
+    IF v_user_redemption_count >= v_max_per_user THEN
+      RAISE EXCEPTION 'max_redemptions_reached';
+    END IF;
+  END IF;
+
+  -- 'PK' + 6 chars from the same look-alike-free alphabet as order references
+  IF v_reward_type = 'custom_perk' THEN
+    LOOP
+      v_code := 'PK' || (
+        SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', (random() * 30)::int + 1, 1), '')
+        FROM generate_series(1, 6)
+      );
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM reward_redemptions WHERE redemption_code = v_code);
+    END LOOP;
+  END IF;
+
+  -- Deduct points
+  INSERT INTO loyalty_point_transactions (
+    user_id,
+    points_delta,
+    activity_type,
+    reference_id,
+    reference_type
+  )
+  VALUES (
+    v_user_id,
+    -v_reward_cost,
+    'reward_redemption',
+    p_reward_id,
+    'reward'
+  );
+
+  -- Create redemption record
+  INSERT INTO reward_redemptions (
+    user_id,
+    reward_id,
+    points_spent,
+    user_tier_at_redemption,
+    status,
+    redemption_code
+  )
+  VALUES (
+    v_user_id,
+    p_reward_id,
+    v_reward_cost,
+    v_current_tier,
+    CASE WHEN v_reward_type IN ('early_access', 'discount', 'custom_perk') THEN 'approved' ELSE 'pending' END,
+    v_code
+  )
+  RETURNING id INTO v_redemption_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'redemption_id', v_redemption_id,
+    'reward_type', v_reward_type,
+    'redemption_code', v_code,
+    'points_spent', v_reward_cost,
+    'new_balance', v_current_balance - v_reward_cost
+  );
+END;
+$$;
+
+-- ============================================
+-- 4. Early access
+-- ============================================
+-- rsvp_opens_at is when RSVPs (and ticket sales) open to everyone; NULL
+-- means open now. On events with loyalty_early_access, holders of an unused
+-- early_access reward get in early_access_hours sooner.
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS rsvp_opens_at timestamptz,
+  ADD COLUMN IF NOT EXISTS loyalty_early_access boolean NOT NULL DEFAULT false;
+
+-- May p_user_id RSVP to p_event_id right now? Spends an early-access reward
+-- when that's what lets them in. The reward is tied to the event, so coming
+-- back to change plus-ones or re-RSVP doesn't spend another.
+CREATE OR REPLACE FUNCTION rsvp_opening_gate(p_event_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_opens_at timestamptz;
+  v_early_access boolean;
+  v_redemption_id uuid;
+BEGIN
+  SELECT rsvp_opens_at, loyalty_early_access
+  INTO v_opens_at, v_early_access
+  FROM events
+  WHERE id = p_event_id;
+
+  IF v_opens_at IS NULL OR v_opens_at <= now() OR can_manage_event(p_event_id) THEN
+    RETURN true;
+  END IF;
+
+  IF NOT v_early_access THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM reward_redemptions rr
+    JOIN rewards r ON r.id = rr.reward_id
+    WHERE rr.user_id = p_user_id
+      AND r.reward_type = 'early_access'
+      AND rr.used_for_reference_type = 'event'
+      AND rr.used_for_reference_id = p_event_id
+  ) THEN
+    RETURN true;
+  END IF;
+
+  -- Spend the shortest window that's already open, keeping longer ones for later
+  SELECT rr.id INTO v_redemption_id
+  FROM reward_redemptions rr
+  JOIN rewards r ON r.id = rr.reward_id
+  WHERE rr.user_id = p_user_id
+    AND r.reward_type = 'early_access'
+    AND rr.status = 'approved'
+    AND rr.used_at IS NULL
+    AND now() >= v_opens_at - make_interval(hours => r.early_access_hours)
+  ORDER BY r.early_access_hours, rr.redeemed_at
+  LIMIT 1
+  FOR UPDATE OF rr;
+
+  IF v_redemption_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE reward_redemptions
+  SET
+    status = 'fulfilled',
+    fulfilled_at = now(),
+    used_at = now(),
+    used_for_reference_type = 'event',
+    used_for_reference_id = p_event_id
+  WHERE id = v_redemption_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rsvp_opening_gate(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Same as 20261026, plus the opening gate
+CREATE OR REPLACE FUNCTION rsvp_event(p_event_id uuid, p_plus_ones int DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_capacity int;
+  v_status text;
+  v_event_status text;
+  v_price_type text;
+  v_tier_count int;
+  v_spots_taken_excl_me int;
+  v_rsvp_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_plus_ones < 0 THEN
+    RAISE EXCEPTION 'invalid_plus_ones';
+  END IF;
+
+  -- Check if event is past (fast rejection before locking)
+  IF is_event_past(p_event_id) THEN
+    RAISE EXCEPTION 'event_has_ended';
+  END IF;
+
+  -- Lock event row to serialize capacity decisions
+  SELECT capacity, status, price_type::text, COALESCE(jsonb_array_length(ticket_tiers), 0)
+  INTO v_capacity, v_event_status, v_price_type, v_tier_count
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  IF v_event_status <> 'published' THEN
+    RAISE EXCEPTION 'event_not_published';
+  END IF;
+
+  -- Raising rolls back any early-access reward the gate just spent
+  IF NOT rsvp_opening_gate(p_event_id, v_uid) THEN
+    RAISE EXCEPTION 'rsvp_not_open';
+  END IF;
+
+  -- Spots held EXCLUDING caller (so +1 updates and offer claims work)
+  v_spots_taken_excl_me := event_spots_held(p_event_id, v_uid);
+
+  IF v_capacity IS NULL OR (v_spots_taken_excl_me + 1 + p_plus_ones) <= v_capacity THEN
+    v_status := 'going';
+  ELSE
+    v_status := 'waitlist';
+  END IF;
+
+  -- The paid order also caps how many plus-ones the buyer can bring
+  IF v_status = 'going' AND v_price_type = 'paid' AND v_tier_count > 0
+     AND NOT EXISTS (
+       SELECT 1 FROM ticket_orders o
+       WHERE o.event_id = p_event_id AND o.user_id = v_uid AND o.status = 'paid'
+         AND (SELECT sum(quantity) FROM ticket_order_items WHERE order_id = o.id) >= 1 + p_plus_ones
+     ) THEN
+    RAISE EXCEPTION 'tickets_required';
+  END IF;
+
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (p_event_id, v_uid, v_status, p_plus_ones)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = EXCLUDED.status,
+        plus_ones = EXCLUDED.plus_ones
+  RETURNING id INTO v_rsvp_id;
+
+  IF v_status = 'going' THEN
+    UPDATE waitlist_offers
+    SET status = 'claimed', responded_at = now()
+    WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', v_status,
+    'rsvp_id', v_rsvp_id
+  );
+END;
+$$;
+
+-- ============================================
+-- 5. Discounts on ticket orders
+-- ============================================
+-- A discount redemption is held by the order it was applied to while that
+-- order is pending, and spent when the order is paid. If the order is
+-- cancelled or expires, the redemption is free to use again.
+
+ALTER TABLE ticket_orders
+  ADD COLUMN IF NOT EXISTS discount_amount bigint NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  ADD COLUMN IF NOT EXISTS reward_redemption_id uuid REFERENCES reward_redemptions(id) ON DELETE SET NULL;
+
+-- Same as 20261026, plus the opening gate and an optional discount reward.
+-- The signature changes, so the old one goes first.
+DROP FUNCTION IF EXISTS create_ticket_order(uuid, jsonb, text, int);
+
+CREATE OR REPLACE FUNCTION create_ticket_order(
+  p_event_id uuid,
+  p_items jsonb,
+  p_provider text,
+  p_hold_minutes int DEFAULT 30,
+  p_reward_redemption_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_event events%ROWTYPE;
+  v_item jsonb;
+  v_tier jsonb;
+  v_qty int;
+  v_sold int;
+  v_total_qty int := 0;
+  v_total bigint := 0;
+  v_discount bigint := 0;
+  v_currency text;
+  v_order_id uuid;
+  v_code text;
+  v_expires timestamptz;
+  v_redemption reward_redemptions%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  END IF;
+
+  IF is_event_past(p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_has_ended');
+  END IF;
+
+  -- Same lock as rsvp_event so orders and RSVPs can't oversell together
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND OR v_event.status <> 'published' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_not_found');
+  END IF;
+
+  IF v_event.price_type IS DISTINCT FROM 'paid'
+     OR COALESCE(jsonb_array_length(v_event.ticket_tiers), 0) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_ticketed');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_orders
+    WHERE event_id = p_event_id AND user_id = v_uid
+      AND (status = 'paid' OR (status = 'pending' AND expires_at > now()))
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_exists');
+  END IF;
+
+  -- A lapsed pending order would block the unique index; close it out first
+  UPDATE ticket_orders
+  SET status = 'expired', updated_at = now()
+  WHERE event_id = p_event_id AND user_id = v_uid
+    AND status = 'pending' AND expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM rsvps
+    WHERE event_id = p_event_id AND user_id = v_uid AND status = 'going'
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_going');
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_items');
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_qty := COALESCE((v_item->>'quantity')::int, 0);
+    IF v_qty <= 0 THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_items');
+    END IF;
+
+    SELECT tier INTO v_tier
+    FROM jsonb_array_elements(v_event.ticket_tiers) AS tier
+    WHERE tier->>'id' = v_item->>'tier_id';
+
+    IF v_tier IS NULL THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'tier_not_found');
+    END IF;
+
+    -- One currency per order (bank transfers can't mix)
+    IF v_currency IS NOT NULL AND v_currency <> COALESCE(v_tier->>'currency', 'VND') THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'mixed_currency');
+    END IF;
+    v_currency := COALESCE(v_tier->>'currency', 'VND');
+
+    IF (v_tier->>'quantity') IS NOT NULL THEN
+      SELECT COALESCE(s.sold, 0) INTO v_sold
+      FROM ticket_tiers_sold(p_event_id) s
+      WHERE s.tier_id = v_tier->>'id';
+
+      IF COALESCE(v_sold, 0) + v_qty > (v_tier->>'quantity')::int THEN
+        RETURN jsonb_build_object('ok', false, 'error', 'tier_sold_out', 'tier_id', v_tier->>'id');
+      END IF;
+    END IF;
+
+    v_total_qty := v_total_qty + v_qty;
+    v_total := v_total + v_qty * COALESCE((v_tier->>'price')::bigint, 0);
+    v_tier := NULL;
+    v_sold := NULL;
+  END LOOP;
+
+  IF v_event.capacity IS NOT NULL
+     AND event_spots_held(p_event_id, v_uid) + v_total_qty > v_event.capacity THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'sold_out');
+  END IF;
+
+  IF p_reward_redemption_id IS NOT NULL THEN
+    SELECT * INTO v_redemption
+    FROM reward_redemptions
+    WHERE id = p_reward_redemption_id AND user_id = v_uid
+      AND status = 'approved' AND used_at IS NULL
+    FOR UPDATE;
+
+    SELECT * INTO v_reward FROM rewards WHERE id = v_redemption.reward_id;
+
+    IF v_redemption.id IS NULL OR v_reward.reward_type IS DISTINCT FROM 'discount' THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_not_available');
+    END IF;
+
+    IF v_redemption.used_for_reference_type = 'ticket_order' AND EXISTS (
+      SELECT 1 FROM ticket_orders
+      WHERE id = v_redemption.used_for_reference_id
+        AND status = 'pending' AND expires_at > now()
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_in_use');
+    END IF;
+
+    IF v_reward.discount_percentage IS NOT NULL THEN
+      v_discount := v_total * v_reward.discount_percentage / 100;
+    ELSIF v_reward.discount_currency = v_currency THEN
+      v_discount := LEAST(v_reward.discount_fixed_amount, v_total);
+    ELSE
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_not_applicable');
+    END IF;
+  END IF;
+
+  -- Last check, so an early-access reward is only spent on an order that goes through
+  IF NOT rsvp_opening_gate(p_event_id, v_uid) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'rsvp_not_open');
+  END IF;
+
+  -- 'DL' + 6 chars, skipping look-alikes so it survives being typed into a banking app
+  LOOP
+    v_code := 'DL' || (
+      SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', (random() * 30)::int + 1, 1), '')
+      FROM generate_series(1, 6)
+    );
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM ticket_orders WHERE reference_code = v_code);
+  END LOOP;
+
+  v_expires := now() + make_interval(mins => GREATEST(5, LEAST(COALESCE(p_hold_minutes, 30), 4320)));
+
+  INSERT INTO ticket_orders (
+    event_id, user_id, provider, reference_code, total_amount, discount_amount,
+    reward_redemption_id, currency, expires_at
+  )
+  VALUES (
+    p_event_id, v_uid, p_provider, v_code, v_total - v_discount, v_discount,
+    v_redemption.id, v_currency, v_expires
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO ticket_order_items (order_id, tier_id, tier_name, unit_price, currency, quantity)
+  SELECT
+    v_order_id,
+    tier->>'id',
+    COALESCE(NULLIF(tier->>'name', ''), 'General'),
+    COALESCE((tier->>'price')::bigint, 0),
+    COALESCE(tier->>'currency', 'VND'),
+    (item->>'quantity')::int
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN jsonb_array_elements(v_event.ticket_tiers) AS tier ON tier->>'id' = item->>'tier_id';
+
+  IF v_redemption.id IS NOT NULL THEN
+    UPDATE reward_redemptions
+    SET used_for_reference_type = 'ticket_order', used_for_reference_id = v_order_id
+    WHERE id = v_redemption.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', v_order_id,
+    'reference_code', v_code,
+    'total_amount', v_total - v_discount,
+    'discount_amount', v_discount,
+    'currency', v_currency,
+    'quantity', v_total_qty,
+    'expires_at', v_expires
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_ticket_order(uuid, jsonb, text, int, uuid) TO authenticated;
+
+-- Spend the discount once the order is paid, however it got paid
+CREATE OR REPLACE FUNCTION trigger_spend_order_reward()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reward_redemptions
+  SET
+    status = 'fulfilled',
+    fulfilled_at = now(),
+    used_at = now(),
+    used_for_reference_type = 'ticket_order',
+    used_for_reference_id = NEW.id
+  WHERE id = NEW.reward_redemption_id
+    AND used_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS spend_order_reward ON ticket_orders;
+CREATE TRIGGER spend_order_reward
+  AFTER UPDATE OF status ON ticket_orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' AND NEW.reward_redemption_id IS NOT NULL)
+  EXECUTE FUNCTION trigger_spend_order_reward();
+
+-- ============================================
+-- 6. RPC: Redeem a perk code at check-in
+-- ============================================
+-- The host types or scans the member's code on the check-in page. Row lock
+-- plus used_at make a second scan (another door device, a screenshot
+-- passed around) come back as already_used.
+
+CREATE OR REPLACE FUNCTION redeem_perk_code(p_event_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text := upper(regexp_replace(COALESCE(p_code, ''), '[^A-Za-z0-9]', '', 'g'));
+  v_redemption reward_redemptions%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+  v_member_name text;
+BEGIN
+  IF NOT can_manage_event(p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE redemption_code = v_code
+  FOR UPDATE;
+
+  SELECT * INTO v_reward FROM rewards WHERE id = v_redemption.reward_id;
+
+  IF v_redemption.id IS NULL OR v_reward.reward_type IS DISTINCT FROM 'custom_perk' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'code_not_found');
+  END IF;
+
+  IF v_reward.host_id IS NOT NULL
+     AND v_reward.host_id <> (SELECT created_by FROM events WHERE id = p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'wrong_host');
+  END IF;
+
+  SELECT COALESCE(display_name, username) INTO v_member_name
+  FROM profiles WHERE id = v_redemption.user_id;
+
+  IF v_redemption.used_at IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', 'already_used',
+      'used_at', v_redemption.used_at,
+      'reward_name', v_reward.name,
+      'member_name', v_member_name
+    );
+  END IF;
+
+  IF v_redemption.status <> 'approved' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'code_not_found');
+  END IF;
+
+  UPDATE reward_redemptions
+  SET
+    status = 'fulfilled',
+    fulfilled_at = now(),
+    fulfilled_by = auth.uid(),
+    used_at = now(),
+    used_by = auth.uid(),
+    used_for_reference_type = 'event',
+    used_for_reference_id = p_event_id
+  WHERE id = v_redemption.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'reward_name', v_reward.name,
+    'member_name', v_member_name
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION redeem_perk_code(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION rsvp_opening_gate IS 'Whether a user may RSVP yet; spends an early-access reward when that is what lets them in';
+COMMENT ON FUNCTION redeem_perk_code IS 'Host-side: mark a custom perk used at check-in (one use per code)';
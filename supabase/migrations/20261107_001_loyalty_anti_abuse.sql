@@ -0,0 +1,560 @@
+-- Loyalty anti-abuse
+-- Points were only ever added: deleting a moment, cancelling an RSVP or
+-- unfollowing left the award in place, and nothing limited how many points
+-- one activity could earn in a day. This migration adds:
+--   reversals    a 'point_reversal' entry cancels the original award when the
+--                thing it was for goes away. The original stays in the ledger,
+--                so re-doing the action (re-RSVP, re-follow) doesn't pay again.
+--   daily caps   per activity type, counted on the Đà Lạt calendar day
+--   flags        cap hits and reversal churn are recorded for admins to review
+--   adjustments  admin_bonus / penalty entries, always with a reason
+
+-- ============================================
+-- 1. Ledger
+-- ============================================
+
+ALTER TABLE loyalty_point_transactions
+  DROP CONSTRAINT IF EXISTS loyalty_point_transactions_activity_type_check;
+ALTER TABLE loyalty_point_transactions
+  ADD CONSTRAINT loyalty_point_transactions_activity_type_check CHECK (
+    activity_type IN (
+      'event_rsvp', 'event_attendance', 'event_checkin', 'moment_upload',
+      'moment_like', 'comment_post', 'profile_complete', 'referral',
+      'invite_accepted', 'first_event', 'streak_bonus', 'reward_redemption',
+      'admin_adjustment', 'tier_bonus', 'birthday_bonus',
+      'event_hosted', 'event_series_created', 'venue_created',
+      'blog_published', 'livestream_hosted',
+      'follow_give', 'follow_received',
+      'point_reversal', 'admin_bonus', 'penalty'
+    )
+  );
+
+ALTER TABLE loyalty_point_transactions
+  -- The award a point_reversal cancels
+  ADD COLUMN IF NOT EXISTS reverses_transaction_id uuid
+    REFERENCES loyalty_point_transactions(id) ON DELETE CASCADE;
+
+-- An award can only be reversed once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_transactions_reverses
+  ON loyalty_point_transactions(reverses_transaction_id)
+  WHERE reverses_transaction_id IS NOT NULL;
+
+ALTER TABLE loyalty_point_transactions DROP CONSTRAINT IF EXISTS loyalty_transactions_entry_shape;
+ALTER TABLE loyalty_point_transactions ADD CONSTRAINT loyalty_transactions_entry_shape CHECK (
+  (activity_type <> 'point_reversal' OR (reverses_transaction_id IS NOT NULL AND points_delta < 0))
+  AND (activity_type <> 'admin_bonus' OR (points_delta > 0 AND length(trim(COALESCE(admin_note, ''))) > 0))
+  AND (activity_type <> 'penalty' OR (points_delta < 0 AND length(trim(COALESCE(admin_note, ''))) > 0))
+);
+
+-- Reversals and penalties take back earned points; they aren't spending
+CREATE OR REPLACE FUNCTION auto_enroll_loyalty()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_clawback boolean := NEW.activity_type IN ('point_reversal', 'penalty');
+  v_earned int := CASE
+    WHEN NEW.points_delta > 0 THEN NEW.points_delta
+    WHEN v_clawback THEN NEW.points_delta
+    ELSE 0
+  END;
+  v_spent int := CASE
+    WHEN NEW.points_delta < 0 AND NOT v_clawback THEN ABS(NEW.points_delta)
+    ELSE 0
+  END;
+BEGIN
+  INSERT INTO user_loyalty_status (
+    user_id,
+    total_points_earned,
+    total_points_spent,
+    last_points_earned_at
+  )
+  VALUES (
+    NEW.user_id,
+    GREATEST(v_earned, 0),
+    v_spent,
+    CASE WHEN NEW.points_delta > 0 THEN NEW.created_at ELSE NULL END
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    total_points_earned = GREATEST(user_loyalty_status.total_points_earned + v_earned, 0),
+    total_points_spent = user_loyalty_status.total_points_spent + v_spent,
+    last_points_earned_at = CASE
+      WHEN NEW.points_delta > 0 THEN NEW.created_at
+      ELSE user_loyalty_status.last_points_earned_at
+    END,
+    updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- 2. Daily caps
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS loyalty_daily_caps (
+  activity_type text PRIMARY KEY,
+  max_points int NOT NULL CHECK (max_points > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Activities without a row are uncapped (hosting, profile completion, ...)
+INSERT INTO loyalty_daily_caps (activity_type, max_points) VALUES
+  ('event_rsvp', 50),
+  ('event_checkin', 100),
+  ('moment_upload', 100),
+  ('moment_like', 20),
+  ('comment_post', 30),
+  ('follow_give', 20),
+  ('follow_received', 50),
+  ('invite_accepted', 250)
+ON CONFLICT (activity_type) DO NOTHING;
+
+ALTER TABLE loyalty_daily_caps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "loyalty_daily_caps_select" ON loyalty_daily_caps;
+CREATE POLICY "loyalty_daily_caps_select"
+ON loyalty_daily_caps FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "loyalty_daily_caps_admin" ON loyalty_daily_caps;
+CREATE POLICY "loyalty_daily_caps_admin"
+ON loyalty_daily_caps FOR ALL
+USING (has_role_level('admin'))
+WITH CHECK (has_role_level('admin'));
+
+CREATE TRIGGER loyalty_daily_caps_updated_at
+  BEFORE UPDATE ON loyalty_daily_caps
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Start of today in Đà Lạt, as a timestamp
+CREATE OR REPLACE FUNCTION loyalty_day_start()
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_trunc('day', now() AT TIME ZONE 'Asia/Ho_Chi_Minh') AT TIME ZONE 'Asia/Ho_Chi_Minh';
+$$;
+
+-- ============================================
+-- 3. Anomaly flags
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS loyalty_anomaly_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('daily_cap', 'reversal_churn')),
+  activity_type text NOT NULL,
+  flagged_on date NOT NULL DEFAULT (now() AT TIME ZONE 'Asia/Ho_Chi_Minh')::date,
+  -- Times it tripped that day
+  occurrences int NOT NULL DEFAULT 1,
+  details jsonb NOT NULL DEFAULT '{}',
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES profiles ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, kind, activity_type, flagged_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_flags_open
+  ON loyalty_anomaly_flags(user_id, flagged_on DESC)
+  WHERE resolved_at IS NULL;
+
+ALTER TABLE loyalty_anomaly_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "loyalty_anomaly_flags_admin_select" ON loyalty_anomaly_flags;
+CREATE POLICY "loyalty_anomaly_flags_admin_select"
+ON loyalty_anomaly_flags FOR SELECT
+USING (has_role_level('admin'));
+
+DROP POLICY IF EXISTS "loyalty_anomaly_flags_admin_update" ON loyalty_anomaly_flags;
+CREATE POLICY "loyalty_anomaly_flags_admin_update"
+ON loyalty_anomaly_flags FOR UPDATE
+USING (has_role_level('admin'))
+WITH CHECK (has_role_level('admin'));
+
+CREATE TRIGGER loyalty_anomaly_flags_updated_at
+  BEFORE UPDATE ON loyalty_anomaly_flags
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Raise (or bump) today's flag. A flag an admin already resolved today stays
+-- resolved unless it trips again.
+CREATE OR REPLACE FUNCTION flag_loyalty_anomaly(
+  p_user_id uuid,
+  p_kind text,
+  p_activity_type text,
+  p_details jsonb DEFAULT '{}'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO loyalty_anomaly_flags (user_id, kind, activity_type, details)
+  VALUES (p_user_id, p_kind, p_activity_type, p_details)
+  ON CONFLICT (user_id, kind, activity_type, flagged_on) DO UPDATE SET
+    occurrences = loyalty_anomaly_flags.occurrences + 1,
+    details = EXCLUDED.details,
+    resolved_at = NULL,
+    resolved_by = NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION flag_loyalty_anomaly(uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. Awarding: callers, caps
+-- ============================================
+
+CREATE OR REPLACE FUNCTION award_loyalty_points(
+  p_user_id uuid,
+  p_activity_type text,
+  p_points int DEFAULT NULL,  -- if NULL, use default for activity_type
+  p_reference_id uuid DEFAULT NULL,
+  p_reference_type text DEFAULT NULL
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_points int;
+  v_existing_transaction_id uuid;
+  v_cap int;
+  v_earned_today int;
+BEGIN
+  -- Ledger corrections have their own paths (reversal triggers, admin_adjust_loyalty_points)
+  IF p_activity_type IN ('point_reversal', 'admin_bonus', 'penalty', 'reward_redemption') THEN
+    RAISE EXCEPTION 'activity_not_awardable';
+  END IF;
+
+  -- Signed-in callers award themselves; moderators may award others.
+  -- Server jobs without a session (service role) are trusted.
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT has_role_level('moderator') THEN
+    RETURN 0;
+  END IF;
+
+  -- Prevent duplicate transactions for same reference. A reversed award still
+  -- counts, so undo/redo cycles don't pay out twice.
+  IF p_reference_id IS NOT NULL THEN
+    SELECT id INTO v_existing_transaction_id
+    FROM loyalty_point_transactions
+    WHERE user_id = p_user_id
+      AND activity_type = p_activity_type
+      AND reference_id = p_reference_id
+    LIMIT 1;
+
+    IF v_existing_transaction_id IS NOT NULL THEN
+      RAISE NOTICE 'Points already awarded for this activity';
+      RETURN 0;  -- Already awarded
+    END IF;
+  END IF;
+
+  -- Determine points (custom or default)
+  v_points := COALESCE(p_points, CASE p_activity_type
+    -- Attendee activities
+    WHEN 'event_rsvp' THEN 10
+    WHEN 'event_attendance' THEN 50
+    WHEN 'event_checkin' THEN 25
+    WHEN 'moment_upload' THEN 25
+    WHEN 'moment_like' THEN 2
+    WHEN 'comment_post' THEN 5
+    WHEN 'profile_complete' THEN 20
+    WHEN 'referral' THEN 100
+    WHEN 'invite_accepted' THEN 50
+    WHEN 'first_event' THEN 30
+    WHEN 'streak_bonus' THEN 15
+    WHEN 'tier_bonus' THEN 50
+    WHEN 'birthday_bonus' THEN 25
+    WHEN 'follow_give' THEN 2
+    WHEN 'follow_received' THEN 2
+    -- Host activities
+    WHEN 'event_hosted' THEN 30
+    WHEN 'event_series_created' THEN 50
+    WHEN 'venue_created' THEN 30
+    WHEN 'blog_published' THEN 40
+    WHEN 'livestream_hosted' THEN 25
+    ELSE 0
+  END);
+
+  IF v_points <= 0 THEN
+    RETURN 0;  -- No points to award
+  END IF;
+
+  -- Daily cap: gross points earned today, so reversed awards still count
+  SELECT max_points INTO v_cap
+  FROM loyalty_daily_caps
+  WHERE activity_type = p_activity_type;
+
+  IF v_cap IS NOT NULL THEN
+    SELECT COALESCE(SUM(points_delta), 0) INTO v_earned_today
+    FROM loyalty_point_transactions
+    WHERE user_id = p_user_id
+      AND activity_type = p_activity_type
+      AND points_delta > 0
+      AND created_at >= loyalty_day_start();
+
+    IF v_earned_today + v_points > v_cap THEN
+      PERFORM flag_loyalty_anomaly(
+        p_user_id, 'daily_cap', p_activity_type,
+        jsonb_build_object('cap', v_cap, 'earned_today', v_earned_today)
+      );
+      v_points := v_cap - v_earned_today;
+      IF v_points <= 0 THEN
+        RETURN 0;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Insert transaction (triggers will handle enrollment and tier progression)
+  INSERT INTO loyalty_point_transactions (
+    user_id,
+    points_delta,
+    activity_type,
+    reference_id,
+    reference_type
+  )
+  VALUES (
+    p_user_id,
+    v_points,
+    p_activity_type,
+    p_reference_id,
+    p_reference_type
+  );
+
+  RETURN v_points;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION award_loyalty_points(uuid, text, int, uuid, text) TO authenticated;
+
+-- ============================================
+-- 5. Reversals
+-- ============================================
+
+-- Cancel every standing award of one activity for one reference.
+-- Returns the points taken back.
+CREATE OR REPLACE FUNCTION reverse_loyalty_points(
+  p_user_id uuid,
+  p_activity_type text,
+  p_reference_id uuid
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reversed int;
+  v_recent int;
+BEGIN
+  WITH reversed AS (
+    INSERT INTO loyalty_point_transactions (
+      user_id, points_delta, activity_type, reference_id, reference_type, reverses_transaction_id
+    )
+    SELECT t.user_id, -t.points_delta, 'point_reversal', t.reference_id, t.reference_type, t.id
+    FROM loyalty_point_transactions t
+    WHERE t.user_id = p_user_id
+      AND t.activity_type = p_activity_type
+      AND t.reference_id = p_reference_id
+      AND t.points_delta > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM loyalty_point_transactions r WHERE r.reverses_transaction_id = t.id
+      )
+    RETURNING points_delta
+  )
+  SELECT COALESCE(-SUM(points_delta), 0) INTO v_reversed FROM reversed;
+
+  IF v_reversed = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Earn, undo, repeat: five reversals of one activity in a day is worth a look
+  SELECT COUNT(*) INTO v_recent
+  FROM loyalty_point_transactions r
+  JOIN loyalty_point_transactions t ON t.id = r.reverses_transaction_id
+  WHERE r.user_id = p_user_id
+    AND r.activity_type = 'point_reversal'
+    AND t.activity_type = p_activity_type
+    AND r.created_at >= loyalty_day_start();
+
+  IF v_recent >= 5 THEN
+    PERFORM flag_loyalty_anomaly(
+      p_user_id, 'reversal_churn', p_activity_type,
+      jsonb_build_object('reversals_today', v_recent)
+    );
+  END IF;
+
+  RETURN v_reversed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reverse_loyalty_points(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Moments: removed, rejected or deleted
+CREATE OR REPLACE FUNCTION reverse_moment_points()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE'
+     OR (NEW.status IN ('removed', 'rejected') AND OLD.status NOT IN ('removed', 'rejected')) THEN
+    PERFORM reverse_loyalty_points(OLD.user_id, 'moment_upload', OLD.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_moment_loyalty_reversal ON moments;
+CREATE TRIGGER on_moment_loyalty_reversal
+  AFTER UPDATE OF status OR DELETE ON moments
+  FOR EACH ROW EXECUTE FUNCTION reverse_moment_points();
+
+-- Comments: soft-deleted or deleted
+CREATE OR REPLACE FUNCTION reverse_comment_points()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' OR (NEW.is_deleted AND NOT OLD.is_deleted) THEN
+    PERFORM reverse_loyalty_points(OLD.user_id, 'comment_post', OLD.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_loyalty_reversal ON comments;
+CREATE TRIGGER on_comment_loyalty_reversal
+  AFTER UPDATE OF is_deleted OR DELETE ON comments
+  FOR EACH ROW EXECUTE FUNCTION reverse_comment_points();
+
+-- RSVPs: leaving 'going' (cancel, decline) or deleted while going
+CREATE OR REPLACE FUNCTION reverse_rsvp_points()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'going' AND (TG_OP = 'DELETE' OR NEW.status <> 'going') THEN
+    PERFORM reverse_loyalty_points(OLD.user_id, 'event_rsvp', OLD.event_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_rsvp_loyalty_reversal ON rsvps;
+CREATE TRIGGER on_rsvp_loyalty_reversal
+  AFTER UPDATE OF status OR DELETE ON rsvps
+  FOR EACH ROW EXECUTE FUNCTION reverse_rsvp_points();
+
+-- Follows: both sides of an unfollow
+CREATE OR REPLACE FUNCTION reverse_follow_points()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM reverse_loyalty_points(OLD.follower_id, 'follow_give', OLD.following_id);
+  PERFORM reverse_loyalty_points(OLD.following_id, 'follow_received', OLD.follower_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_follow_loyalty_reversal ON user_follows;
+CREATE TRIGGER on_follow_loyalty_reversal
+  AFTER DELETE ON user_follows
+  FOR EACH ROW EXECUTE FUNCTION reverse_follow_points();
+
+-- Likes: unliking a moment
+CREATE OR REPLACE FUNCTION reverse_like_points()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM reverse_loyalty_points(OLD.user_id, 'moment_like', OLD.moment_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_like_loyalty_reversal ON moment_likes;
+CREATE TRIGGER on_like_loyalty_reversal
+  AFTER DELETE ON moment_likes
+  FOR EACH ROW EXECUTE FUNCTION reverse_like_points();
+
+-- ============================================
+-- 6. Admin adjustments
+-- ============================================
+
+CREATE OR REPLACE FUNCTION admin_adjust_loyalty_points(
+  p_user_id uuid,
+  p_points int,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason text := trim(COALESCE(p_reason, ''));
+  v_balance int;
+BEGIN
+  IF NOT has_role_level('admin') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_authorized');
+  END IF;
+
+  IF p_points IS NULL OR p_points = 0 OR abs(p_points) > 100000 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_points');
+  END IF;
+
+  IF length(v_reason) < 3 OR length(v_reason) > 500 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'reason_required');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'user_not_found');
+  END IF;
+
+  INSERT INTO loyalty_point_transactions (
+    user_id, points_delta, activity_type, reference_id, reference_type, admin_note, admin_user_id
+  )
+  VALUES (
+    p_user_id,
+    p_points,
+    CASE WHEN p_points > 0 THEN 'admin_bonus' ELSE 'penalty' END,
+    p_user_id,
+    'user',
+    v_reason,
+    auth.uid()
+  );
+
+  SELECT current_point_balance INTO v_balance
+  FROM user_loyalty_status
+  WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object('ok', true, 'balance', COALESCE(v_balance, 0));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_adjust_loyalty_points(uuid, int, text) TO authenticated;
+
+-- ============================================
+-- 7. Comments
+-- ============================================
+
+COMMENT ON TABLE loyalty_daily_caps IS 'Most points one activity type can earn a user per Đà Lạt day';
+COMMENT ON TABLE loyalty_anomaly_flags IS 'Suspicious earning patterns (cap hits, undo/redo churn) for admin review';
+COMMENT ON FUNCTION reverse_loyalty_points IS 'Cancel standing awards for a reference with point_reversal entries';
+COMMENT ON FUNCTION admin_adjust_loyalty_points IS 'Admin bonus or penalty with a required reason';
@@ -0,0 +1,72 @@
+-- Festival schedule builder. Program items get a stage so the festival page
+-- can lay them out as a per-day grid, visitors can star sessions into a
+-- personal agenda (reminders go through scheduled_notifications), and
+-- schedule_change updates record which sessions they affect so everyone who
+-- starred one is notified.
+
+-- ============================================
+-- 1. Stages
+-- ============================================
+
+-- Free text, e.g. "Main stage – Lâm Viên Square". NULL falls back to the
+-- event's location_name when grouping the grid.
+ALTER TABLE festival_events
+  ADD COLUMN IF NOT EXISTS stage text
+    CHECK (stage IS NULL OR length(trim(stage)) BETWEEN 1 AND 80);
+
+-- ============================================
+-- 2. Personal agenda
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS festival_agenda_items (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  festival_id uuid NOT NULL,
+  event_id uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, festival_id, event_id),
+  FOREIGN KEY (festival_id, event_id)
+    REFERENCES festival_events (festival_id, event_id) ON DELETE CASCADE
+);
+
+-- Schedule-change fan-out looks up everyone who starred a session
+CREATE INDEX IF NOT EXISTS idx_festival_agenda_items_event
+  ON festival_agenda_items (festival_id, event_id);
+
+ALTER TABLE festival_agenda_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "festival_agenda_items_select_own"
+ON festival_agenda_items FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "festival_agenda_items_insert_own"
+ON festival_agenda_items FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM festivals
+    WHERE id = festival_id
+    AND status = 'published'
+  )
+);
+
+CREATE POLICY "festival_agenda_items_delete_own"
+ON festival_agenda_items FOR DELETE
+USING (user_id = auth.uid());
+
+-- ============================================
+-- 3. Sessions affected by an update
+-- ============================================
+
+ALTER TABLE festival_updates
+  ADD COLUMN IF NOT EXISTS affected_event_ids uuid[] NOT NULL DEFAULT '{}';
+
+-- ============================================
+-- 4. Notification types
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'festival_session_reminder';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'festival_schedule_change';
+
+COMMENT ON COLUMN festival_events.stage IS 'Stage or venue column in the festival schedule grid; NULL uses the event location';
+COMMENT ON TABLE festival_agenda_items IS 'Sessions a visitor starred into their personal festival agenda';
+COMMENT ON COLUMN festival_updates.affected_event_ids IS 'For schedule_change updates: the sessions whose starrers were notified';
@@ -0,0 +1,140 @@
+-- Cross-source duplicate detection for imported events. Every import scores
+-- nearby events (title, time, venue, organizer) and queues probable
+-- duplicates here; admins review the queue in /admin/import and either
+-- dismiss the pair or merge it. A merge folds the dropped event into the
+-- kept one and redirects the dropped slug through previous_slugs.
+
+-- ============================================
+-- 1. Review queue
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS event_duplicate_candidates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The newly imported event and the existing event it resembles. SET NULL
+  -- rather than CASCADE so merged pairs stay in the queue's history.
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  duplicate_of_event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  score numeric(4, 3) NOT NULL CHECK (score BETWEEN 0 AND 1),
+  -- Per-signal scores and raw measurements, e.g.
+  -- {"title": 0.91, "time": 1, "venue": 0.6, "organizer": null, "minutes_apart": 15, "distance_m": 320}
+  signals jsonb NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'merged', 'dismissed')),
+  -- Slug of the event removed by a merge, for the audit trail
+  merged_slug text,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, duplicate_of_event_id),
+  CHECK (event_id IS DISTINCT FROM duplicate_of_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_duplicate_candidates_pending
+  ON event_duplicate_candidates (created_at DESC)
+  WHERE status = 'pending';
+
+ALTER TABLE event_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the importers (service role); only admins read or
+-- review them.
+CREATE POLICY "event_duplicate_candidates_select_admin"
+ON event_duplicate_candidates FOR SELECT
+USING (is_admin());
+
+CREATE POLICY "event_duplicate_candidates_update_admin"
+ON event_duplicate_candidates FOR UPDATE
+USING (is_admin())
+WITH CHECK (is_admin());
+
+-- ============================================
+-- 2. Merge
+-- ============================================
+
+-- Folds p_drop_event_id into p_keep_event_id: moves RSVPs (unless the guest
+-- already has one on the kept event) and moments, records the dropped slug
+-- and its history in the kept event's previous_slugs so old links redirect,
+-- then deletes the dropped event. Copying the richer fields across is done
+-- by the caller beforehand (see lib/import/duplicates.ts).
+CREATE OR REPLACE FUNCTION merge_duplicate_events(
+  p_candidate_id uuid,
+  p_keep_event_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate event_duplicate_candidates%ROWTYPE;
+  v_drop_id uuid;
+  v_drop_slug text;
+  v_drop_previous text[];
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  SELECT * INTO v_candidate
+  FROM event_duplicate_candidates
+  WHERE id = p_candidate_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_candidate.status <> 'pending' THEN
+    RAISE EXCEPTION 'candidate_not_pending';
+  END IF;
+
+  IF p_keep_event_id = v_candidate.event_id THEN
+    v_drop_id := v_candidate.duplicate_of_event_id;
+  ELSIF p_keep_event_id = v_candidate.duplicate_of_event_id THEN
+    v_drop_id := v_candidate.event_id;
+  ELSE
+    RAISE EXCEPTION 'keep_event_not_in_pair';
+  END IF;
+
+  SELECT slug, COALESCE(previous_slugs, '{}')
+  INTO v_drop_slug, v_drop_previous
+  FROM events
+  WHERE id = v_drop_id;
+
+  IF v_drop_slug IS NULL THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  UPDATE rsvps r
+  SET event_id = p_keep_event_id
+  WHERE r.event_id = v_drop_id
+    AND NOT EXISTS (
+      SELECT 1 FROM rsvps k
+      WHERE k.event_id = p_keep_event_id AND k.user_id = r.user_id
+    );
+
+  UPDATE moments
+  SET event_id = p_keep_event_id
+  WHERE event_id = v_drop_id;
+
+  -- Other pending pairs involving the dropped event are moot once it is gone
+  DELETE FROM event_duplicate_candidates
+  WHERE status = 'pending'
+    AND id <> p_candidate_id
+    AND (event_id = v_drop_id OR duplicate_of_event_id = v_drop_id);
+
+  UPDATE event_duplicate_candidates
+  SET status = 'merged',
+      merged_slug = v_drop_slug,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_candidate_id;
+
+  DELETE FROM events WHERE id = v_drop_id;
+
+  UPDATE events
+  SET previous_slugs = ARRAY(
+    SELECT DISTINCT s
+    FROM unnest(COALESCE(previous_slugs, '{}') || v_drop_previous || v_drop_slug) AS s
+    WHERE s <> slug
+  )
+  WHERE id = p_keep_event_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_duplicate_events(uuid, uuid) TO authenticated;
@@ -0,0 +1,80 @@
+-- News sources as data. The Đà Lạt news scraper used to hard-code one
+-- processor per outlet; every outlet is now a row here describing how to find
+-- article links on its discovery page and which container holds the article
+-- body, editable from /admin/news-sources. The scrape cron records each
+-- source's yield so a source that stops producing articles raises an alert.
+
+-- ============================================
+-- 1. Source definitions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS news_sources (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z0-9-]{2,40}$'),
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  base_url text NOT NULL CHECK (base_url ~ '^https?://'),
+  discovery_url text NOT NULL CHECK (discovery_url ~ '^https?://'),
+  -- JavaScript regex (flags gi); capture group 1 is an article href
+  link_pattern text NOT NULL,
+  -- Substrings marking a matched href as a tag/listing page, not an article
+  exclude_links text[] NOT NULL DEFAULT '{}',
+  -- Class names of the article body container, tried in order
+  content_classes text[] NOT NULL CHECK (cardinality(content_classes) > 0),
+  max_articles int NOT NULL DEFAULT 30 CHECK (max_articles BETWEEN 1 AND 100),
+  request_delay_ms int NOT NULL DEFAULT 500 CHECK (request_delay_ms BETWEEN 0 AND 10000),
+  enabled boolean NOT NULL DEFAULT true,
+  sort_order int NOT NULL DEFAULT 0,
+  -- Yield of the latest scrape run (written by /api/cron/news-scrape)
+  last_run_at timestamptz,
+  last_link_count int,
+  last_yield int,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER news_sources_updated_at
+  BEFORE UPDATE ON news_sources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE news_sources ENABLE ROW LEVEL SECURITY;
+
+-- The cron uses the service role; admins manage sources from the admin panel
+CREATE POLICY "news_sources_select_admin"
+ON news_sources FOR SELECT
+USING (is_admin());
+
+CREATE POLICY "news_sources_insert_admin"
+ON news_sources FOR INSERT
+WITH CHECK (is_admin());
+
+CREATE POLICY "news_sources_update_admin"
+ON news_sources FOR UPDATE
+USING (is_admin())
+WITH CHECK (is_admin());
+
+CREATE POLICY "news_sources_delete_admin"
+ON news_sources FOR DELETE
+USING (is_admin());
+
+-- ============================================
+-- 2. Seed the outlets previously hard-coded in lib/news/processors
+-- ============================================
+
+INSERT INTO news_sources
+  (id, name, base_url, discovery_url, link_pattern, exclude_links, content_classes, max_articles, request_delay_ms, sort_order)
+VALUES
+  ('tuoitre', 'Tuổi Trẻ', 'https://tuoitre.vn', 'https://tuoitre.vn/da-lat.html',
+    'href="(/[^"]*-\d+\.html?)"', '{/tag/}',
+    '{detail-content,detail__content,fck_detail}', 30, 500, 1),
+  ('vnexpress', 'VnExpress', 'https://vnexpress.net', 'https://vnexpress.net/tag/da-lat-1',
+    'href="(https://vnexpress\.net/[^"]*-\d+\.html)"', '{/tag/}',
+    '{fck_detail,detail-content}', 30, 500, 2),
+  ('thanhnien', 'Thanh Niên', 'https://thanhnien.vn', 'https://thanhnien.vn/da-lat.html',
+    'href="((?:https://thanhnien\.vn)?/[^"]*-\d+\.html?)"', '{/tag/,/da-lat.html}',
+    '{detail__content,detail-content,article-content}', 30, 500, 3),
+  ('baophapluat', 'Báo Pháp Luật', 'https://baophapluat.vn', 'https://baophapluat.vn/da-lat-tag285.html',
+    'href="((?:https://baophapluat\.vn)?/[^"]*\.html)"', '{-tag,chuyenmuc}',
+    '{content-detail,article-content,detail-content}', 20, 700, 4),
+  ('congan', 'Công An TP.HCM', 'https://congan.com.vn', 'https://congan.com.vn/tag/%C4%90%C3%A0+L%E1%BA%A1t.html',
+    'href="((?:https://congan\.com\.vn)?/[^"]*\.html)"', '{/tag/}',
+    '{detail-content,content-detail,article-body}', 20, 700, 5)
+ON CONFLICT (id) DO NOTHING;
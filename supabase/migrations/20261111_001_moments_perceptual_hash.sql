@@ -0,0 +1,150 @@
+-- 20261111_001_moments_perceptual_hash
+--
+-- Near-duplicate detection for moment photos.
+--
+-- file_hash (SHA-256) only catches byte-identical re-uploads. The same photo
+-- re-exported from Zalo or resized by WhatsApp has different bytes, so it slips
+-- through and an album ends up with three copies. perceptual_hash is a 64-bit
+-- dHash (16 hex chars) computed in the browser from the decoded pixels — see
+-- lib/perceptual-hash.ts. Two photos are near-duplicates when the Hamming
+-- distance between their hashes is small.
+
+-- ============================================
+-- 1. Column
+-- ============================================
+
+ALTER TABLE moments ADD COLUMN IF NOT EXISTS perceptual_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_moments_event_perceptual_hash
+ON moments(event_id)
+WHERE perceptual_hash IS NOT NULL;
+
+COMMENT ON COLUMN moments.perceptual_hash IS '64-bit dHash (hex) of photo pixels for near-duplicate detection within album';
+
+-- ============================================
+-- 2. create_moment_draft: accept p_perceptual_hash
+-- ============================================
+-- Adding a parameter changes the signature, and CREATE OR REPLACE would leave
+-- the 9-param version behind as an overload (PGRST203, see 20260919_001).
+-- Drop it first. Body is otherwise unchanged from 20261012_001.
+
+DROP FUNCTION IF EXISTS public.create_moment_draft(uuid, text, text, text, text, timestamptz, double precision, text, text);
+
+CREATE OR REPLACE FUNCTION public.create_moment_draft(p_event_id uuid, p_media_url text, p_media_type text, p_thumbnail_url text DEFAULT NULL::text, p_text_content text DEFAULT NULL::text, p_taken_at timestamp with time zone DEFAULT NULL::timestamp with time zone, p_video_duration double precision DEFAULT NULL::double precision, p_cf_video_uid text DEFAULT NULL::text, p_file_hash text DEFAULT NULL::text, p_perceptual_hash text DEFAULT NULL::text)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+  v_moment_id UUID;
+  v_content_type TEXT;
+  v_media_url TEXT;
+BEGIN
+  -- Map media_type values to content_type values
+  v_content_type := CASE p_media_type
+    WHEN 'image' THEN 'photo'
+    WHEN 'photo' THEN 'photo'
+    WHEN 'video' THEN 'video'
+    ELSE 'photo'
+  END;
+
+  -- Convert empty string to NULL (prevents unique constraint violation)
+  v_media_url := NULLIF(TRIM(p_media_url), '');
+
+  INSERT INTO moments (
+    event_id, user_id, content_type, media_url, thumbnail_url,
+    text_content, video_duration_seconds, status, cf_video_uid, file_hash, captured_at,
+    perceptual_hash
+  ) VALUES (
+    p_event_id, auth.uid(), v_content_type, v_media_url, p_thumbnail_url,
+    p_text_content, p_video_duration, 'draft', p_cf_video_uid, p_file_hash, p_taken_at,
+    CASE WHEN p_perceptual_hash ~ '^[0-9a-f]{16}$' THEN p_perceptual_hash END
+  ) RETURNING id INTO v_moment_id;
+
+  RETURN v_moment_id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.create_moment_draft(uuid, text, text, text, text, timestamptz, double precision, text, text, text) TO authenticated;
+
+-- ============================================
+-- 3. find_near_duplicate_moments
+-- ============================================
+-- For each candidate hash, the closest photo already in the album within
+-- p_max_distance bits. SECURITY DEFINER like check_duplicate_hashes so
+-- uploaders see matches against drafts and pending photos they can't read.
+
+CREATE OR REPLACE FUNCTION find_near_duplicate_moments(
+  p_event_id uuid,
+  p_hashes text[],
+  p_max_distance int DEFAULT 10
+)
+RETURNS TABLE (
+  hash text,
+  moment_id uuid,
+  distance int,
+  media_url text,
+  thumbnail_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (h.hash)
+    h.hash,
+    m.id,
+    bit_count(('x' || m.perceptual_hash)::bit(64) # ('x' || h.hash)::bit(64))::int AS distance,
+    m.media_url,
+    m.thumbnail_url
+  FROM unnest(p_hashes) AS h(hash)
+  JOIN moments m
+    ON m.event_id = p_event_id
+   AND m.perceptual_hash IS NOT NULL
+   AND m.status IN ('draft', 'pending', 'published')
+  WHERE h.hash ~ '^[0-9a-f]{16}$'
+    AND bit_count(('x' || m.perceptual_hash)::bit(64) # ('x' || h.hash)::bit(64)) <= LEAST(p_max_distance, 20)
+  ORDER BY h.hash, distance, m.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_near_duplicate_moments(uuid, text[], int) TO authenticated;
+
+-- ============================================
+-- 4. set_moment_perceptual_hashes (backfill)
+-- ============================================
+-- Photos uploaded before this migration have no hash. There is no image
+-- decoder on the server, so the organizer's clean-up view hashes them in the
+-- browser and posts the results here. Only fills empty hashes, and only for
+-- the event's creator or a moderator.
+
+CREATE OR REPLACE FUNCTION set_moment_perceptual_hashes(
+  p_event_id uuid,
+  p_hashes jsonb
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated int;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND created_by = auth.uid())
+     AND NOT has_role_level('moderator') THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  UPDATE moments m
+  SET perceptual_hash = x.hash
+  FROM jsonb_to_recordset(p_hashes) AS x(moment_id uuid, hash text)
+  WHERE m.id = x.moment_id
+    AND m.event_id = p_event_id
+    AND m.perceptual_hash IS NULL
+    AND x.hash ~ '^[0-9a-f]{16}$';
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_moment_perceptual_hashes(uuid, jsonb) TO authenticated;
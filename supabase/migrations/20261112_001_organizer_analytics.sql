@@ -0,0 +1,78 @@
+-- 20261112_001_organizer_analytics
+--
+-- Data the organizer analytics dashboard needs that nothing recorded yet:
+-- event page views (top of the funnel) and where each RSVP came from.
+--
+-- Page views are a per-event daily counter rather than a row per visit: the
+-- dashboard only needs totals, and a counter can't grow into a tracking log.
+-- The client beacon dedupes per browser session (components/events/event-view-tracker.tsx).
+
+-- ============================================
+-- 1. Event page views
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS event_page_views (
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  day date NOT NULL DEFAULT (now() AT TIME ZONE 'Asia/Ho_Chi_Minh')::date,
+  views int NOT NULL DEFAULT 0,
+  PRIMARY KEY (event_id, day)
+);
+
+ALTER TABLE event_page_views ENABLE ROW LEVEL SECURITY;
+
+-- The event's creator, the owner of its organizer, and admins can read views
+DROP POLICY IF EXISTS "event_page_views_select_manager" ON event_page_views;
+CREATE POLICY "event_page_views_select_manager"
+ON event_page_views FOR SELECT
+USING (
+  is_admin()
+  OR EXISTS (
+    SELECT 1 FROM events e
+    LEFT JOIN organizers o ON o.id = e.organizer_id
+    WHERE e.id = event_page_views.event_id
+      AND (e.created_by = auth.uid() OR o.owner_id = auth.uid())
+  )
+);
+
+-- Writes only go through record_event_page_view()
+CREATE OR REPLACE FUNCTION record_event_page_view(p_event_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO event_page_views (event_id, views)
+  SELECT id, 1 FROM events WHERE id = p_event_id
+  ON CONFLICT (event_id, day) DO UPDATE SET views = event_page_views.views + 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_event_page_view(uuid) TO anon, authenticated;
+
+-- ============================================
+-- 2. RSVP source attribution
+-- ============================================
+-- Set from the ?src= tag on the link that brought the user to the event page
+-- (lib/events/rsvp-source.ts). NULL means direct / untagged.
+
+ALTER TABLE rsvps ADD COLUMN IF NOT EXISTS source text
+  CHECK (source IN ('invite', 'tribe', 'audience', 'search'));
+
+COMMENT ON COLUMN rsvps.source IS 'Channel that led to the RSVP: invite, tribe, audience, search; NULL = direct';
+
+-- Called by the RSVP button right after rsvp_event()/mark_interested().
+-- First touch wins: an existing source is never overwritten.
+CREATE OR REPLACE FUNCTION set_rsvp_source(p_event_id uuid, p_source text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE rsvps
+  SET source = p_source
+  WHERE event_id = p_event_id
+    AND user_id = auth.uid()
+    AND source IS NULL
+    AND p_source IN ('invite', 'tribe', 'audience', 'search');
+$$;
+
+GRANT EXECUTE ON FUNCTION set_rsvp_source(uuid, text) TO authenticated;
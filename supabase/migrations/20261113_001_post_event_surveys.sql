@@ -0,0 +1,327 @@
+-- 20261113_001_post_event_surveys
+--
+-- Post-event surveys built on the RSVP questionnaire tables.
+--
+-- An event can now have two questionnaires: the existing RSVP one
+-- (kind = 'rsvp', answered before RSVP'ing) and a post-event survey
+-- (kind = 'post_event', linked from the feedback_request notification once
+-- the event is over). Survey answers go into rsvp_responses like RSVP answers,
+-- so the existing RLS (own answers, event creator reads all) applies as is.
+--
+-- New question types for surveys: 'scale' (1–5), 'nps' (0–10) and 'ranking'
+-- (order the options). Answers are stored as strings / string arrays like the
+-- existing types: "4", "9", ["venue", "people", ...].
+--
+-- AI theme summaries of free-text answers are cached per event or series in
+-- survey_theme_summaries and regenerated when the answer count changes.
+
+-- ============================================
+-- 1. Questionnaire kind
+-- ============================================
+
+ALTER TABLE event_questionnaires
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'rsvp'
+  CHECK (kind IN ('rsvp', 'post_event'));
+
+-- One questionnaire of each kind per event (was one per event)
+ALTER TABLE event_questionnaires DROP CONSTRAINT IF EXISTS event_questionnaires_event_id_key;
+ALTER TABLE event_questionnaires
+  ADD CONSTRAINT event_questionnaires_event_id_kind_key UNIQUE (event_id, kind);
+
+-- ============================================
+-- 2. Survey question types
+-- ============================================
+
+ALTER TABLE question_templates DROP CONSTRAINT IF EXISTS question_templates_question_type_check;
+ALTER TABLE question_templates ADD CONSTRAINT question_templates_question_type_check
+  CHECK (question_type IN ('single_choice', 'multi_choice', 'text', 'scale', 'nps', 'ranking'));
+
+ALTER TABLE question_templates DROP CONSTRAINT IF EXISTS question_templates_category_check;
+ALTER TABLE question_templates ADD CONSTRAINT question_templates_category_check
+  CHECK (category IN ('logistics', 'dietary', 'contribution', 'personal', 'custom', 'feedback'));
+
+ALTER TABLE event_questions DROP CONSTRAINT IF EXISTS event_questions_custom_question_type_check;
+ALTER TABLE event_questions ADD CONSTRAINT event_questions_custom_question_type_check
+  CHECK (custom_question_type IN ('single_choice', 'multi_choice', 'text', 'scale', 'nps', 'ranking'));
+
+-- ============================================
+-- 3. Feedback templates
+-- ============================================
+
+INSERT INTO question_templates (slug, is_system, question_type, question_text, options, is_required, category) VALUES
+
+('feedback-overall', true, 'scale',
+ '{"en": "Overall, how was the event?", "vi": "Nhìn chung, sự kiện thế nào?", "ko": "전반적으로 이벤트는 어땠나요?", "zh": "总体来说，活动怎么样？", "ru": "Как вам событие в целом?", "fr": "Dans l''ensemble, comment était l''événement ?", "ja": "全体的にイベントはいかがでしたか？", "ms": "Secara keseluruhan, bagaimana acara ini?", "th": "โดยรวมแล้วอีเวนต์เป็นอย่างไร?", "de": "Wie war das Event insgesamt?", "es": "En general, ¿qué tal estuvo el evento?", "id": "Secara keseluruhan, bagaimana acaranya?"}'::jsonb,
+ NULL,
+ true, 'feedback'),
+
+('feedback-nps', true, 'nps',
+ '{"en": "How likely are you to recommend this event to a friend?", "vi": "Bạn có muốn giới thiệu sự kiện này cho bạn bè không?", "ko": "이 이벤트를 친구에게 추천할 가능성은 얼마나 되나요?", "zh": "你有多大可能向朋友推荐这个活动？", "ru": "Насколько вероятно, что вы порекомендуете это событие другу?", "fr": "Quelle est la probabilité que vous recommandiez cet événement à un ami ?", "ja": "このイベントを友人にすすめる可能性はどのくらいですか？", "ms": "Sejauh mana anda akan mengesyorkan acara ini kepada rakan?", "th": "คุณมีแนวโน้มจะแนะนำอีเวนต์นี้ให้เพื่อนมากแค่ไหน?", "de": "Wie wahrscheinlich ist es, dass du dieses Event einem Freund empfiehlst?", "es": "¿Qué probabilidad hay de que recomiendes este evento a un amigo?", "id": "Seberapa mungkin kamu merekomendasikan acara ini ke teman?"}'::jsonb,
+ NULL,
+ true, 'feedback'),
+
+('feedback-highlights', true, 'ranking',
+ '{"en": "Rank what you enjoyed most", "vi": "Xếp hạng điều bạn thích nhất", "ko": "가장 좋았던 것을 순위대로 정해 주세요", "zh": "请为你最喜欢的部分排序", "ru": "Расставьте, что понравилось больше всего", "fr": "Classez ce que vous avez le plus apprécié", "ja": "特に楽しかったものを順位付けしてください", "ms": "Susun perkara yang paling anda nikmati", "th": "จัดอันดับสิ่งที่คุณชอบที่สุด", "de": "Ordne, was dir am besten gefallen hat", "es": "Ordena lo que más disfrutaste", "id": "Urutkan hal yang paling kamu nikmati"}'::jsonb,
+ '[{"value": "program", "label": {"en": "The program", "vi": "Nội dung chương trình", "ko": "프로그램", "zh": "活动内容", "ru": "Программа", "fr": "Le programme", "ja": "プログラム", "ms": "Program", "th": "กิจกรรม", "de": "Das Programm", "es": "El programa", "id": "Acaranya"}},
+   {"value": "people", "label": {"en": "The people", "vi": "Mọi người", "ko": "사람들", "zh": "认识的人", "ru": "Люди", "fr": "Les gens", "ja": "人との出会い", "ms": "Orang ramai", "th": "ผู้คน", "de": "Die Leute", "es": "La gente", "id": "Orang-orangnya"}},
+   {"value": "venue", "label": {"en": "The venue", "vi": "Địa điểm", "ko": "장소", "zh": "场地", "ru": "Место", "fr": "Le lieu", "ja": "会場", "ms": "Tempat", "th": "สถานที่", "de": "Der Ort", "es": "El lugar", "id": "Tempatnya"}},
+   {"value": "organization", "label": {"en": "How it was organized", "vi": "Cách tổ chức", "ko": "운영", "zh": "组织安排", "ru": "Организация", "fr": "L''organisation", "ja": "運営", "ms": "Penganjuran", "th": "การจัดงาน", "de": "Die Organisation", "es": "La organización", "id": "Penyelenggaraannya"}},
+   {"value": "value", "label": {"en": "Value for money", "vi": "Đáng đồng tiền", "ko": "가성비", "zh": "性价比", "ru": "Цена и качество", "fr": "Le rapport qualité-prix", "ja": "コストパフォーマンス", "ms": "Nilai untuk wang", "th": "ความคุ้มค่า", "de": "Preis-Leistung", "es": "La relación calidad-precio", "id": "Sepadan dengan harganya"}}]'::jsonb,
+ false, 'feedback'),
+
+('feedback-best', true, 'text',
+ '{"en": "What was the best part?", "vi": "Phần nào hay nhất?", "ko": "가장 좋았던 점은 무엇인가요?", "zh": "最棒的部分是什么？", "ru": "Что было лучше всего?", "fr": "Quel a été le meilleur moment ?", "ja": "一番良かったところは？", "ms": "Apakah bahagian terbaik?", "th": "ส่วนที่ดีที่สุดคืออะไร?", "de": "Was war das Beste?", "es": "¿Qué fue lo mejor?", "id": "Bagian apa yang paling seru?"}'::jsonb,
+ NULL,
+ false, 'feedback'),
+
+('feedback-improve', true, 'text',
+ '{"en": "What should we do differently next time?", "vi": "Lần sau chúng tôi nên làm khác điều gì?", "ko": "다음에는 무엇을 다르게 하면 좋을까요?", "zh": "下次我们应该在哪些方面做得不同？", "ru": "Что нам стоит сделать иначе в следующий раз?", "fr": "Que devrions-nous faire autrement la prochaine fois ?", "ja": "次回、どこを変えるとよいですか？", "ms": "Apa yang patut kami ubah pada lain kali?", "th": "ครั้งหน้าเราควรทำอะไรต่างออกไป?", "de": "Was sollten wir beim nächsten Mal anders machen?", "es": "¿Qué deberíamos hacer distinto la próxima vez?", "id": "Apa yang sebaiknya kami ubah lain kali?"}'::jsonb,
+ NULL,
+ false, 'feedback')
+
+ON CONFLICT (slug) DO NOTHING;
+
+-- ============================================
+-- 4. Questionnaire functions: filter by kind
+-- ============================================
+
+-- p_kind defaults to 'rsvp' so existing callers keep getting the RSVP questionnaire
+DROP FUNCTION IF EXISTS get_event_questionnaire(UUID);
+
+CREATE OR REPLACE FUNCTION get_event_questionnaire(p_event_id UUID, p_kind TEXT DEFAULT 'rsvp')
+RETURNS TABLE (
+  questionnaire_id UUID,
+  is_enabled BOOLEAN,
+  intro_text JSONB,
+  questions JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    eq.id as questionnaire_id,
+    eq.is_enabled,
+    eq.intro_text,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'id', eqs.id,
+          'template_id', eqs.template_id,
+          'sort_order', eqs.sort_order,
+          'question_type', COALESCE(eqs.custom_question_type, qt.question_type),
+          'question_text', COALESCE(eqs.custom_question_text, qt.question_text),
+          'description_text', COALESCE(eqs.custom_description_text, qt.description_text),
+          'options', COALESCE(eqs.custom_options, qt.options),
+          'is_required', COALESCE(eqs.custom_is_required, qt.is_required)
+        ) ORDER BY eqs.sort_order
+      ) FILTER (WHERE eqs.id IS NOT NULL),
+      '[]'::jsonb
+    ) as questions
+  FROM event_questionnaires eq
+  LEFT JOIN event_questions eqs ON eqs.questionnaire_id = eq.id
+  LEFT JOIN question_templates qt ON qt.id = eqs.template_id
+  WHERE eq.event_id = p_event_id
+    AND eq.kind = p_kind
+  GROUP BY eq.id, eq.is_enabled, eq.intro_text;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_event_questionnaire(UUID, TEXT) TO authenticated, anon;
+
+-- The RSVP responses dashboard only covers RSVP questions
+CREATE OR REPLACE FUNCTION get_questionnaire_responses_summary(p_event_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_text JSONB,
+  question_type TEXT,
+  total_responses BIGINT,
+  response_breakdown JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user is the event owner
+  IF NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = p_event_id AND e.created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    eqs.id as question_id,
+    COALESCE(eqs.custom_question_text, qt.question_text) as question_text,
+    COALESCE(eqs.custom_question_type, qt.question_type) as question_type,
+    COUNT(rr.id) as total_responses,
+    COALESCE(
+      jsonb_object_agg(
+        rr.response_value::text,
+        cnt
+      ) FILTER (WHERE rr.response_value IS NOT NULL),
+      '{}'::jsonb
+    ) as response_breakdown
+  FROM event_questionnaires eq
+  JOIN event_questions eqs ON eqs.questionnaire_id = eq.id
+  LEFT JOIN question_templates qt ON qt.id = eqs.template_id
+  LEFT JOIN rsvp_responses rr ON rr.question_id = eqs.id
+  LEFT JOIN rsvps r ON r.id = rr.rsvp_id AND r.status = 'going'
+  LEFT JOIN (
+    SELECT question_id, response_value, COUNT(*) as cnt
+    FROM rsvp_responses rr2
+    JOIN rsvps r2 ON r2.id = rr2.rsvp_id AND r2.status = 'going'
+    GROUP BY question_id, response_value
+  ) breakdown ON breakdown.question_id = eqs.id
+  WHERE eq.event_id = p_event_id
+    AND eq.kind = 'rsvp'
+  GROUP BY eqs.id, qt.question_text, qt.question_type, eqs.custom_question_text, eqs.custom_question_type
+  ORDER BY eqs.sort_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_questionnaire_responses_full(p_event_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  username TEXT,
+  avatar_url TEXT,
+  rsvp_status TEXT,
+  rsvp_created_at TIMESTAMPTZ,
+  responses JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user is the event owner
+  IF NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = p_event_id AND e.created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id as user_id,
+    p.display_name,
+    p.username,
+    p.avatar_url,
+    r.status as rsvp_status,
+    r.created_at as rsvp_created_at,
+    COALESCE(
+      jsonb_object_agg(
+        eqs.id::text,
+        rr.response_value
+      ) FILTER (WHERE rr.id IS NOT NULL),
+      '{}'::jsonb
+    ) as responses
+  FROM rsvps r
+  JOIN profiles p ON p.id = r.user_id
+  LEFT JOIN event_questionnaires eq ON eq.event_id = r.event_id AND eq.kind = 'rsvp'
+  LEFT JOIN event_questions eqs ON eqs.questionnaire_id = eq.id
+  LEFT JOIN rsvp_responses rr ON rr.rsvp_id = r.id AND rr.question_id = eqs.id
+  WHERE r.event_id = p_event_id
+    AND r.status IN ('going', 'waitlist')
+  GROUP BY p.id, p.display_name, p.username, p.avatar_url, r.status, r.created_at
+  ORDER BY r.created_at DESC;
+END;
+$$;
+
+-- ============================================
+-- 5. Reuse a survey across a series
+-- ============================================
+-- Copies the event's survey to every later date of its series, so series
+-- reports compare the same questions. Dates that already have survey answers
+-- keep their own survey. Returns the number of dates updated.
+
+CREATE OR REPLACE FUNCTION copy_survey_to_series(p_event_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source event_questionnaires%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_target record;
+  v_target_questionnaire uuid;
+  v_copied int := 0;
+BEGIN
+  IF NOT can_manage_event(p_event_id) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+  IF v_event.series_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_source
+  FROM event_questionnaires
+  WHERE event_id = p_event_id AND kind = 'post_event';
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_target IN
+    SELECT e.id
+    FROM events e
+    WHERE e.series_id = v_event.series_id
+      AND e.id <> p_event_id
+      AND e.starts_at > v_event.starts_at
+      AND NOT EXISTS (
+        SELECT 1
+        FROM event_questionnaires tq
+        JOIN event_questions tqs ON tqs.questionnaire_id = tq.id
+        JOIN rsvp_responses rr ON rr.question_id = tqs.id
+        WHERE tq.event_id = e.id AND tq.kind = 'post_event'
+      )
+  LOOP
+    INSERT INTO event_questionnaires (event_id, kind, is_enabled, intro_text)
+    VALUES (v_target.id, 'post_event', v_source.is_enabled, v_source.intro_text)
+    ON CONFLICT (event_id, kind) DO UPDATE
+      SET is_enabled = EXCLUDED.is_enabled,
+          intro_text = EXCLUDED.intro_text,
+          updated_at = now()
+    RETURNING id INTO v_target_questionnaire;
+
+    DELETE FROM event_questions WHERE questionnaire_id = v_target_questionnaire;
+
+    INSERT INTO event_questions (
+      questionnaire_id, template_id, custom_question_text, custom_question_type,
+      custom_options, custom_is_required, custom_description_text, sort_order
+    )
+    SELECT
+      v_target_questionnaire, template_id, custom_question_text, custom_question_type,
+      custom_options, custom_is_required, custom_description_text, sort_order
+    FROM event_questions
+    WHERE questionnaire_id = v_source.id;
+
+    v_copied := v_copied + 1;
+  END LOOP;
+
+  RETURN v_copied;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION copy_survey_to_series(uuid) TO authenticated;
+
+-- ============================================
+-- 6. AI theme summary cache
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS survey_theme_summaries (
+  -- 'event:<uuid>' or 'series:<uuid>'
+  scope text PRIMARY KEY,
+  -- Number of free-text answers the summary was built from
+  answer_count int NOT NULL,
+  themes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  generated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Written and read by the report API with the service client only
+ALTER TABLE survey_theme_summaries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,279 @@
+-- 20261114_001_questionnaire_logic
+--
+-- Conditional logic, new field types and option capacities for event
+-- questionnaires (retreat registration forms).
+--
+-- - New types: 'number', 'date' (YYYY-MM-DD), 'phone' and 'file' (the public
+--   URL of an upload to the questionnaire-uploads bucket). Answers are stored
+--   as strings like the existing types.
+-- - show_if / required_if on event_questions: a rule on an earlier answer,
+--   {"question_id": uuid, "operator": "equals"|"not_equals"|"answered",
+--    "value": "<option value>"}. Evaluated by lib/questionnaire-logic.ts in
+--   the flow and again server-side before the RSVP is written.
+-- - option_capacities: max going attendees per option value,
+--   e.g. {"shuttle": 20}. Enforced here by a trigger so two people can't take
+--   the last seat at the same time.
+
+-- ============================================
+-- 1. New question types
+-- ============================================
+
+ALTER TABLE question_templates DROP CONSTRAINT IF EXISTS question_templates_question_type_check;
+ALTER TABLE question_templates ADD CONSTRAINT question_templates_question_type_check
+  CHECK (question_type IN (
+    'single_choice', 'multi_choice', 'text', 'scale', 'nps', 'ranking',
+    'number', 'date', 'phone', 'file'
+  ));
+
+ALTER TABLE event_questions DROP CONSTRAINT IF EXISTS event_questions_custom_question_type_check;
+ALTER TABLE event_questions ADD CONSTRAINT event_questions_custom_question_type_check
+  CHECK (custom_question_type IN (
+    'single_choice', 'multi_choice', 'text', 'scale', 'nps', 'ranking',
+    'number', 'date', 'phone', 'file'
+  ));
+
+-- ============================================
+-- 2. Conditions and capacities
+-- ============================================
+
+ALTER TABLE event_questions
+  ADD COLUMN IF NOT EXISTS show_if jsonb,
+  ADD COLUMN IF NOT EXISTS required_if jsonb,
+  ADD COLUMN IF NOT EXISTS option_capacities jsonb;
+
+ALTER TABLE event_questions DROP CONSTRAINT IF EXISTS event_questions_option_capacities_check;
+ALTER TABLE event_questions ADD CONSTRAINT event_questions_option_capacities_check
+  CHECK (option_capacities IS NULL OR jsonb_typeof(option_capacities) = 'object');
+
+-- ============================================
+-- 3. Option counts
+-- ============================================
+-- Going attendees per option value of a question. Only 'going' RSVPs count,
+-- so a cancellation frees the seat again.
+
+CREATE OR REPLACE FUNCTION question_option_counts(p_question_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(picked.value, picked.total), '{}'::jsonb)
+  FROM (
+    SELECT opt.value, count(*) AS total
+    FROM rsvp_responses rr
+    JOIN rsvps r ON r.id = rr.rsvp_id AND r.status = 'going'
+    CROSS JOIN LATERAL (
+      SELECT jsonb_array_elements_text(rr.response_value) AS value
+      WHERE jsonb_typeof(rr.response_value) = 'array'
+      UNION ALL
+      SELECT rr.response_value #>> '{}'
+      WHERE jsonb_typeof(rr.response_value) = 'string'
+    ) opt
+    WHERE rr.question_id = p_question_id
+    GROUP BY opt.value
+  ) picked;
+$$;
+
+-- ============================================
+-- 4. Questionnaire with rules and counts
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_event_questionnaire(p_event_id UUID, p_kind TEXT DEFAULT 'rsvp')
+RETURNS TABLE (
+  questionnaire_id UUID,
+  is_enabled BOOLEAN,
+  intro_text JSONB,
+  questions JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    eq.id as questionnaire_id,
+    eq.is_enabled,
+    eq.intro_text,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'id', eqs.id,
+          'template_id', eqs.template_id,
+          'sort_order', eqs.sort_order,
+          'question_type', COALESCE(eqs.custom_question_type, qt.question_type),
+          'question_text', COALESCE(eqs.custom_question_text, qt.question_text),
+          'description_text', COALESCE(eqs.custom_description_text, qt.description_text),
+          'options', COALESCE(eqs.custom_options, qt.options),
+          'is_required', COALESCE(eqs.custom_is_required, qt.is_required),
+          'show_if', eqs.show_if,
+          'required_if', eqs.required_if,
+          'option_capacities', eqs.option_capacities,
+          'option_counts', CASE
+            WHEN eqs.option_capacities IS NULL THEN NULL
+            ELSE question_option_counts(eqs.id)
+          END
+        ) ORDER BY eqs.sort_order
+      ) FILTER (WHERE eqs.id IS NOT NULL),
+      '[]'::jsonb
+    ) as questions
+  FROM event_questionnaires eq
+  LEFT JOIN event_questions eqs ON eqs.questionnaire_id = eq.id
+  LEFT JOIN question_templates qt ON qt.id = eqs.template_id
+  WHERE eq.event_id = p_event_id
+    AND eq.kind = p_kind
+  GROUP BY eq.id, eq.is_enabled, eq.intro_text;
+END;
+$$;
+
+-- ============================================
+-- 5. Capacity enforcement
+-- ============================================
+-- Locks the question row so concurrent answers for the same question are
+-- checked one at a time. Keeping an option you already had is always allowed,
+-- even if the organizer has since lowered the limit.
+
+CREATE OR REPLACE FUNCTION enforce_option_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capacities jsonb;
+  v_option text;
+  v_taken int;
+BEGIN
+  SELECT option_capacities INTO v_capacities
+  FROM event_questions
+  WHERE id = NEW.question_id
+  FOR UPDATE;
+
+  IF v_capacities IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_option IN
+    SELECT jsonb_array_elements_text(NEW.response_value)
+    WHERE jsonb_typeof(NEW.response_value) = 'array'
+    UNION ALL
+    SELECT NEW.response_value #>> '{}'
+    WHERE jsonb_typeof(NEW.response_value) = 'string'
+  LOOP
+    CONTINUE WHEN NOT v_capacities ? v_option;
+    CONTINUE WHEN TG_OP = 'UPDATE' AND (
+      OLD.response_value ? v_option OR OLD.response_value #>> '{}' = v_option
+    );
+
+    SELECT count(*) INTO v_taken
+    FROM rsvp_responses rr
+    JOIN rsvps r ON r.id = rr.rsvp_id AND r.status = 'going'
+    WHERE rr.question_id = NEW.question_id
+      AND rr.rsvp_id <> NEW.rsvp_id
+      AND (rr.response_value ? v_option OR rr.response_value #>> '{}' = v_option);
+
+    IF v_taken >= (v_capacities ->> v_option)::int THEN
+      RAISE EXCEPTION 'option_full';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rsvp_responses_option_capacity ON rsvp_responses;
+CREATE TRIGGER rsvp_responses_option_capacity
+  BEFORE INSERT OR UPDATE OF response_value ON rsvp_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_option_capacity();
+
+-- ============================================
+-- 6. Series copy keeps rules pointing at the copies
+-- ============================================
+-- Same as 20261113_001, but questions get their new ids up front so
+-- show_if / required_if can be remapped from source to copied question.
+
+CREATE OR REPLACE FUNCTION copy_survey_to_series(p_event_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source event_questionnaires%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_target record;
+  v_target_questionnaire uuid;
+  v_copied int := 0;
+BEGIN
+  IF NOT can_manage_event(p_event_id) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+  IF v_event.series_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_source
+  FROM event_questionnaires
+  WHERE event_id = p_event_id AND kind = 'post_event';
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_target IN
+    SELECT e.id
+    FROM events e
+    WHERE e.series_id = v_event.series_id
+      AND e.id <> p_event_id
+      AND e.starts_at > v_event.starts_at
+      AND NOT EXISTS (
+        SELECT 1
+        FROM event_questionnaires tq
+        JOIN event_questions tqs ON tqs.questionnaire_id = tq.id
+        JOIN rsvp_responses rr ON rr.question_id = tqs.id
+        WHERE tq.event_id = e.id AND tq.kind = 'post_event'
+      )
+  LOOP
+    INSERT INTO event_questionnaires (event_id, kind, is_enabled, intro_text)
+    VALUES (v_target.id, 'post_event', v_source.is_enabled, v_source.intro_text)
+    ON CONFLICT (event_id, kind) DO UPDATE
+      SET is_enabled = EXCLUDED.is_enabled,
+          intro_text = EXCLUDED.intro_text,
+          updated_at = now()
+    RETURNING id INTO v_target_questionnaire;
+
+    DELETE FROM event_questions WHERE questionnaire_id = v_target_questionnaire;
+
+    WITH mapping AS (
+      SELECT id AS old_id, gen_random_uuid() AS new_id
+      FROM event_questions
+      WHERE questionnaire_id = v_source.id
+    )
+    INSERT INTO event_questions (
+      id, questionnaire_id, template_id, custom_question_text, custom_question_type,
+      custom_options, custom_is_required, custom_description_text, sort_order,
+      show_if, required_if, option_capacities
+    )
+    SELECT
+      m.new_id, v_target_questionnaire, q.template_id, q.custom_question_text, q.custom_question_type,
+      q.custom_options, q.custom_is_required, q.custom_description_text, q.sort_order,
+      CASE WHEN q.show_if IS NULL THEN NULL ELSE jsonb_set(
+        q.show_if, '{question_id}',
+        to_jsonb((SELECT s.new_id FROM mapping s WHERE s.old_id::text = q.show_if ->> 'question_id'))
+      ) END,
+      CASE WHEN q.required_if IS NULL THEN NULL ELSE jsonb_set(
+        q.required_if, '{question_id}',
+        to_jsonb((SELECT s.new_id FROM mapping s WHERE s.old_id::text = q.required_if ->> 'question_id'))
+      ) END,
+      q.option_capacities
+    FROM event_questions q
+    JOIN mapping m ON m.old_id = q.id;
+
+    v_copied := v_copied + 1;
+  END LOOP;
+
+  RETURN v_copied;
+END;
+$$;
@@ -0,0 +1,147 @@
+-- 20261115_001_venue_hours
+--
+-- Opening-hours engine for venues: special dates, recurring closures and
+-- split shifts.
+--
+-- - operating_hours days may now hold an array of ranges for split shifts,
+--   {"friday": [{"open": "07:00", "close": "11:00"},
+--               {"open": "17:00", "close": "02:00"}]}.
+--   The single {"open", "close"} object and "closed" stay valid, and a close
+--   at or before the open time runs past midnight.
+-- - hours_exceptions: special hours or closures that replace the weekly hours
+--   on matching dates, e.g. closed for Tết or late opening for the flower
+--   festival:
+--   [{"id": uuid, "label": "Tết", "starts_on": "2027-02-05",
+--     "ends_on": "2027-02-10", "recurrence": "once"|"yearly"|"monthly_weekday",
+--     "closed": true, "ranges": []}]
+-- - Both are evaluated in Asia/Ho_Chi_Minh time by lib/venues/hours.ts, which
+--   backs the hours badge, the "open now / open at" venue search and the
+--   event form warning. The map and discovery RPCs return the hours for it.
+
+-- ============================================
+-- 1. Exceptions column
+-- ============================================
+
+ALTER TABLE venues
+  ADD COLUMN IF NOT EXISTS hours_exceptions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE venues DROP CONSTRAINT IF EXISTS venues_hours_exceptions_check;
+ALTER TABLE venues ADD CONSTRAINT venues_hours_exceptions_check
+  CHECK (jsonb_typeof(hours_exceptions) = 'array');
+
+COMMENT ON COLUMN venues.hours_exceptions IS
+  'Special hours and closures overriding operating_hours (see lib/venues/hours.ts)';
+
+-- ============================================
+-- 2. Map venues with hours
+-- ============================================
+
+-- The result columns change, so the functions are dropped and recreated
+DROP FUNCTION IF EXISTS get_venues_for_map(text[], int);
+
+CREATE FUNCTION get_venues_for_map(
+  p_types text[] DEFAULT NULL,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  name text,
+  venue_type text,
+  latitude double precision,
+  longitude double precision,
+  logo_url text,
+  is_verified boolean,
+  operating_hours jsonb,
+  hours_exceptions jsonb,
+  upcoming_event_count bigint,
+  has_happening_now boolean
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    v.id, v.slug, v.name, v.venue_type,
+    v.latitude, v.longitude, v.logo_url, v.is_verified,
+    v.operating_hours, v.hours_exceptions,
+    COUNT(e.id) FILTER (
+      WHERE e.starts_at > now()
+      AND e.status = 'published'
+    ) as upcoming_event_count,
+    EXISTS (
+      SELECT 1 FROM events e2
+      WHERE e2.venue_id = v.id
+      AND e2.status = 'published'
+      AND e2.starts_at <= now()
+      AND (
+        e2.ends_at >= now()
+        OR (e2.ends_at IS NULL AND e2.starts_at + interval '4 hours' >= now())
+      )
+    ) as has_happening_now
+  FROM venues v
+  LEFT JOIN events e ON e.venue_id = v.id
+  WHERE (p_types IS NULL OR v.venue_type = ANY(p_types))
+  GROUP BY v.id
+  ORDER BY has_happening_now DESC, upcoming_event_count DESC, v.priority_score DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_venues_for_map(text[], int) TO anon, authenticated;
+
+-- ============================================
+-- 3. Discovery venues with exceptions
+-- ============================================
+
+DROP FUNCTION IF EXISTS get_venues_for_discovery(text, int, int);
+
+CREATE FUNCTION get_venues_for_discovery(
+  p_type text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  name text,
+  venue_type text,
+  logo_url text,
+  cover_photo_url text,
+  address text,
+  is_verified boolean,
+  price_range text,
+  tags text[],
+  operating_hours jsonb,
+  hours_exceptions jsonb,
+  upcoming_event_count bigint,
+  has_happening_now boolean
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    v.id, v.slug, v.name, v.venue_type,
+    v.logo_url, v.cover_photo_url, v.address,
+    v.is_verified, v.price_range, v.tags, v.operating_hours, v.hours_exceptions,
+    COUNT(e.id) FILTER (
+      WHERE e.starts_at > now() AND e.status = 'published'
+    ) as upcoming_event_count,
+    EXISTS (
+      SELECT 1 FROM events e2
+      WHERE e2.venue_id = v.id
+      AND e2.status = 'published'
+      AND e2.starts_at <= now()
+      AND (
+        e2.ends_at >= now()
+        OR (e2.ends_at IS NULL AND e2.starts_at + interval '4 hours' >= now())
+      )
+    ) as has_happening_now
+  FROM venues v
+  LEFT JOIN events e ON e.venue_id = v.id
+  WHERE (p_type IS NULL OR v.venue_type = p_type)
+  GROUP BY v.id
+  ORDER BY
+    has_happening_now DESC,
+    upcoming_event_count DESC,
+    v.priority_score DESC,
+    v.is_verified DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_venues_for_discovery(text, int, int) TO anon, authenticated;
@@ -0,0 +1,524 @@
+-- Ticket order hardening
+-- Closes the ways around the ticket desk:
+--   * create_ticket_order trusted the caller for the hold length and the
+--     provider, and checked repeated tier lines against stock one by one.
+--     It's now server-only (the orders route passes the buyer) and sums
+--     quantities per tier before checking stock.
+--   * confirm_ticket_order accepted a lapsed order without checking that its
+--     tickets, capacity and discount were still free.
+--   * A waitlist offer (or capacity becoming unlimited) turned a guest 'going'
+--     on a ticketed event without a paid order.
+
+-- ============================================
+-- 1. Place an order (server-only)
+-- ============================================
+-- Same as 20261106, except the buyer is a parameter instead of auth.uid(),
+-- and repeated tiers are merged before any inventory check.
+
+DROP FUNCTION IF EXISTS create_ticket_order(uuid, jsonb, text, int, uuid);
+
+CREATE OR REPLACE FUNCTION create_ticket_order(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_items jsonb,
+  p_provider text,
+  p_hold_minutes int DEFAULT 30,
+  p_reward_redemption_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := p_user_id;
+  v_event events%ROWTYPE;
+  v_lines jsonb;
+  v_item jsonb;
+  v_tier jsonb;
+  v_qty int;
+  v_sold int;
+  v_total_qty int := 0;
+  v_total bigint := 0;
+  v_discount bigint := 0;
+  v_currency text;
+  v_order_id uuid;
+  v_code text;
+  v_expires timestamptz;
+  v_redemption reward_redemptions%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  END IF;
+
+  IF is_event_past(p_event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_has_ended');
+  END IF;
+
+  -- Same lock as rsvp_event so orders and RSVPs can't oversell together
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND OR v_event.status <> 'published' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_not_found');
+  END IF;
+
+  IF v_event.price_type IS DISTINCT FROM 'paid'
+     OR COALESCE(jsonb_array_length(v_event.ticket_tiers), 0) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_ticketed');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_orders
+    WHERE event_id = p_event_id AND user_id = v_uid
+      AND (status = 'paid' OR (status = 'pending' AND expires_at > now()))
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_exists');
+  END IF;
+
+  -- A lapsed pending order would block the unique index; close it out first
+  UPDATE ticket_orders
+  SET status = 'expired', updated_at = now()
+  WHERE event_id = p_event_id AND user_id = v_uid
+    AND status = 'pending' AND expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM rsvps
+    WHERE event_id = p_event_id AND user_id = v_uid AND status = 'going'
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_going');
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_items');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS item
+    WHERE COALESCE((item->>'quantity')::int, 0) <= 0
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_items');
+  END IF;
+
+  -- One line per tier, so stock is checked against the real total
+  SELECT jsonb_agg(jsonb_build_object('tier_id', l.tier_id, 'quantity', l.quantity))
+  INTO v_lines
+  FROM (
+    SELECT item->>'tier_id' AS tier_id, sum((item->>'quantity')::int)::int AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY item->>'tier_id'
+  ) l;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_lines)
+  LOOP
+    v_qty := (v_item->>'quantity')::int;
+
+    SELECT tier INTO v_tier
+    FROM jsonb_array_elements(v_event.ticket_tiers) AS tier
+    WHERE tier->>'id' = v_item->>'tier_id';
+
+    IF v_tier IS NULL THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'tier_not_found');
+    END IF;
+
+    -- One currency per order (bank transfers can't mix)
+    IF v_currency IS NOT NULL AND v_currency <> COALESCE(v_tier->>'currency', 'VND') THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'mixed_currency');
+    END IF;
+    v_currency := COALESCE(v_tier->>'currency', 'VND');
+
+    IF (v_tier->>'quantity') IS NOT NULL THEN
+      SELECT COALESCE(s.sold, 0) INTO v_sold
+      FROM ticket_tiers_sold(p_event_id) s
+      WHERE s.tier_id = v_tier->>'id';
+
+      IF COALESCE(v_sold, 0) + v_qty > (v_tier->>'quantity')::int THEN
+        RETURN jsonb_build_object('ok', false, 'error', 'tier_sold_out', 'tier_id', v_tier->>'id');
+      END IF;
+    END IF;
+
+    v_total_qty := v_total_qty + v_qty;
+    v_total := v_total + v_qty * COALESCE((v_tier->>'price')::bigint, 0);
+    v_tier := NULL;
+    v_sold := NULL;
+  END LOOP;
+
+  IF v_event.capacity IS NOT NULL
+     AND event_spots_held(p_event_id, v_uid) + v_total_qty > v_event.capacity THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'sold_out');
+  END IF;
+
+  IF p_reward_redemption_id IS NOT NULL THEN
+    SELECT * INTO v_redemption
+    FROM reward_redemptions
+    WHERE id = p_reward_redemption_id AND user_id = v_uid
+      AND status = 'approved' AND used_at IS NULL
+    FOR UPDATE;
+
+    SELECT * INTO v_reward FROM rewards WHERE id = v_redemption.reward_id;
+
+    IF v_redemption.id IS NULL OR v_reward.reward_type IS DISTINCT FROM 'discount' THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_not_available');
+    END IF;
+
+    IF v_redemption.used_for_reference_type = 'ticket_order' AND EXISTS (
+      SELECT 1 FROM ticket_orders
+      WHERE id = v_redemption.used_for_reference_id
+        AND status = 'pending' AND expires_at > now()
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_in_use');
+    END IF;
+
+    IF v_reward.discount_percentage IS NOT NULL THEN
+      v_discount := v_total * v_reward.discount_percentage / 100;
+    ELSIF v_reward.discount_currency = v_currency THEN
+      v_discount := LEAST(v_reward.discount_fixed_amount, v_total);
+    ELSE
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_not_applicable');
+    END IF;
+  END IF;
+
+  -- Last check, so an early-access reward is only spent on an order that goes through
+  IF NOT rsvp_opening_gate(p_event_id, v_uid) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'rsvp_not_open');
+  END IF;
+
+  -- 'DL' + 6 chars, skipping look-alikes so it survives being typed into a banking app
+  LOOP
+    v_code := 'DL' || (
+      SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', (random() * 30)::int + 1, 1), '')
+      FROM generate_series(1, 6)
+    );
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM ticket_orders WHERE reference_code = v_code);
+  END LOOP;
+
+  v_expires := now() + make_interval(mins => GREATEST(5, LEAST(COALESCE(p_hold_minutes, 30), 4320)));
+
+  INSERT INTO ticket_orders (
+    event_id, user_id, provider, reference_code, total_amount, discount_amount,
+    reward_redemption_id, currency, expires_at
+  )
+  VALUES (
+    p_event_id, v_uid, p_provider, v_code, v_total - v_discount, v_discount,
+    v_redemption.id, v_currency, v_expires
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO ticket_order_items (order_id, tier_id, tier_name, unit_price, currency, quantity)
+  SELECT
+    v_order_id,
+    tier->>'id',
+    COALESCE(NULLIF(tier->>'name', ''), 'General'),
+    COALESCE((tier->>'price')::bigint, 0),
+    COALESCE(tier->>'currency', 'VND'),
+    (item->>'quantity')::int
+  FROM jsonb_array_elements(v_lines) AS item
+  JOIN jsonb_array_elements(v_event.ticket_tiers) AS tier ON tier->>'id' = item->>'tier_id';
+
+  IF v_redemption.id IS NOT NULL THEN
+    UPDATE reward_redemptions
+    SET used_for_reference_type = 'ticket_order', used_for_reference_id = v_order_id
+    WHERE id = v_redemption.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', v_order_id,
+    'reference_code', v_code,
+    'total_amount', v_total - v_discount,
+    'discount_amount', v_discount,
+    'currency', v_currency,
+    'quantity', v_total_qty,
+    'expires_at', v_expires
+  );
+END;
+$$;
+
+-- Hold length and provider come from lib/payments, so only the server may call this
+REVOKE ALL ON FUNCTION create_ticket_order(uuid, uuid, jsonb, text, int, uuid) FROM anon, authenticated, public;
+
+-- ============================================
+-- 2. Mark an order paid
+-- ============================================
+-- Same as 20261026, except a lapsed order (expired, or pending past its hold)
+-- gave its tickets back, so they may have been sold since. It's only accepted
+-- when its tiers, the event's capacity and its discount are all still free.
+
+CREATE OR REPLACE FUNCTION confirm_ticket_order(
+  p_order_id uuid,
+  p_provider_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order ticket_orders%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_line record;
+  v_tier jsonb;
+  v_sold int;
+  v_qty int;
+  v_rsvp_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM ticket_orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_not_found');
+  END IF;
+
+  -- auth.uid() is NULL for the service role (provider callbacks)
+  IF auth.uid() IS NOT NULL AND NOT can_manage_event(v_order.event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  -- Event before order, the same lock order as create_ticket_order
+  SELECT * INTO v_event FROM events WHERE id = v_order.event_id FOR UPDATE;
+  SELECT * INTO v_order FROM ticket_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_order.status = 'paid' THEN
+    RETURN jsonb_build_object('ok', true, 'status', 'paid', 'rsvp_id', v_order.rsvp_id, 'already', true);
+  END IF;
+
+  -- A manager can still accept a transfer that landed after the hold lapsed
+  IF v_order.status NOT IN ('pending', 'expired') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_closed', 'status', v_order.status);
+  END IF;
+
+  SELECT sum(quantity)::int INTO v_qty FROM ticket_order_items WHERE order_id = p_order_id;
+
+  IF v_order.status = 'expired' OR v_order.expires_at <= now() THEN
+    -- ticket_tiers_sold and event_spots_held no longer count this order
+    FOR v_line IN
+      SELECT tier_id, sum(quantity)::int AS quantity
+      FROM ticket_order_items
+      WHERE order_id = p_order_id
+      GROUP BY tier_id
+    LOOP
+      SELECT tier INTO v_tier
+      FROM jsonb_array_elements(v_event.ticket_tiers) AS tier
+      WHERE tier->>'id' = v_line.tier_id;
+
+      IF (v_tier->>'quantity') IS NOT NULL THEN
+        SELECT s.sold INTO v_sold
+        FROM ticket_tiers_sold(v_event.id) s
+        WHERE s.tier_id = v_line.tier_id;
+
+        IF COALESCE(v_sold, 0) + v_line.quantity > (v_tier->>'quantity')::int THEN
+          RETURN jsonb_build_object('ok', false, 'error', 'tier_sold_out', 'tier_id', v_line.tier_id);
+        END IF;
+      END IF;
+
+      v_tier := NULL;
+      v_sold := NULL;
+    END LOOP;
+
+    IF v_event.capacity IS NOT NULL
+       AND event_spots_held(v_event.id, v_order.user_id) + v_qty > v_event.capacity THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'sold_out');
+    END IF;
+
+    -- The discount was released with the hold; another order may have used it
+    IF v_order.reward_redemption_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM reward_redemptions r
+      WHERE r.id = v_order.reward_redemption_id
+        AND (
+          r.used_at IS NOT NULL
+          OR (
+            r.used_for_reference_type = 'ticket_order'
+            AND r.used_for_reference_id <> v_order.id
+            AND EXISTS (
+              SELECT 1 FROM ticket_orders o
+              WHERE o.id = r.used_for_reference_id
+                AND o.status = 'pending' AND o.expires_at > now()
+            )
+          )
+        )
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_not_available');
+    END IF;
+  END IF;
+
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (v_order.event_id, v_order.user_id, 'going', GREATEST(v_qty - 1, 0))
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = 'going',
+        plus_ones = EXCLUDED.plus_ones,
+        no_show_at = NULL
+  RETURNING id INTO v_rsvp_id;
+
+  UPDATE waitlist_offers
+  SET status = 'claimed', responded_at = now()
+  WHERE event_id = v_order.event_id AND user_id = v_order.user_id AND status = 'pending';
+
+  UPDATE ticket_orders
+  SET
+    status = 'paid',
+    paid_at = now(),
+    provider_ref = COALESCE(p_provider_ref, provider_ref),
+    verified_by = auth.uid(),
+    rsvp_id = v_rsvp_id,
+    updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('ok', true, 'status', 'paid', 'rsvp_id', v_rsvp_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_ticket_order(uuid, text) TO authenticated;
+
+-- ============================================
+-- 3. Waitlist on ticketed events
+-- ============================================
+-- An offer on a ticketed event holds the spot for the guest's checkout
+-- (create_ticket_order doesn't count their own offer against capacity); it's
+-- the paid order that makes them 'going', and claims the offer.
+
+-- Same as 20261024, except unlimited capacity only waves the waitlist in on
+-- free events. On a ticketed event they can now simply buy tickets.
+CREATE OR REPLACE FUNCTION offer_waitlist_spots(p_event_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_available int;
+  v_expires_at timestamptz;
+  v_rsvp record;
+  v_count int := 0;
+BEGIN
+  SELECT * INTO v_event
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_event.status <> 'published' OR is_event_past(p_event_id) THEN
+    RETURN 0;
+  END IF;
+
+  -- Unlimited capacity: nothing to hold, everyone gets in
+  IF v_event.capacity IS NULL THEN
+    IF v_event.price_type IS DISTINCT FROM 'paid'
+       OR COALESCE(jsonb_array_length(v_event.ticket_tiers), 0) = 0 THEN
+      UPDATE rsvps
+      SET status = 'going'
+      WHERE event_id = p_event_id AND status = 'waitlist';
+    END IF;
+
+    UPDATE waitlist_offers
+    SET status = 'withdrawn', responded_at = now()
+    WHERE event_id = p_event_id AND status = 'pending';
+
+    RETURN 0;
+  END IF;
+
+  v_available := v_event.capacity - event_spots_held(p_event_id);
+
+  -- The window never runs past the start time, but a spot freed at the last
+  -- minute still gets a usable window
+  v_expires_at := LEAST(
+    now() + make_interval(mins => v_event.waitlist_claim_minutes),
+    GREATEST(v_event.starts_at, now() + interval '15 minutes')
+  );
+
+  FOR v_rsvp IN
+    SELECT r.id, r.user_id, r.plus_ones
+    FROM rsvps r
+    WHERE r.event_id = p_event_id
+      AND r.status = 'waitlist'
+      AND NOT EXISTS (
+        SELECT 1 FROM waitlist_offers o
+        WHERE o.rsvp_id = r.id
+          AND (o.status = 'pending' OR (o.status = 'expired' AND o.offered_at >= r.created_at))
+      )
+    ORDER BY r.created_at ASC
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    EXIT WHEN v_available < (1 + v_rsvp.plus_ones);
+
+    INSERT INTO waitlist_offers (event_id, rsvp_id, user_id, spots, expires_at)
+    VALUES (p_event_id, v_rsvp.id, v_rsvp.user_id, 1 + v_rsvp.plus_ones, v_expires_at);
+
+    v_available := v_available - (1 + v_rsvp.plus_ones);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION offer_waitlist_spots(uuid) FROM anon, authenticated, public;
+
+-- Same as 20261024, except a ticketed event needs a paid order covering the
+-- offered spots, like rsvp_event.
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_event events%ROWTYPE;
+  v_offer waitlist_offers%ROWTYPE;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Lock event row to serialize with other promotions
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+
+  SELECT * INTO v_offer
+  FROM waitlist_offers
+  WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'no_pending_offer');
+  END IF;
+
+  IF v_offer.expires_at <= now() THEN
+    UPDATE waitlist_offers
+    SET status = 'expired', responded_at = now()
+    WHERE id = v_offer.id;
+
+    PERFORM offer_waitlist_spots(p_event_id);
+    RETURN jsonb_build_object('ok', false, 'error', 'offer_expired');
+  END IF;
+
+  -- The offer only holds the spot; checkout is what claims it
+  IF v_event.price_type = 'paid' AND COALESCE(jsonb_array_length(v_event.ticket_tiers), 0) > 0
+     AND NOT EXISTS (
+       SELECT 1 FROM ticket_orders o
+       WHERE o.event_id = p_event_id AND o.user_id = v_uid AND o.status = 'paid'
+         AND (SELECT sum(quantity) FROM ticket_order_items WHERE order_id = o.id) >= v_offer.spots
+     ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'tickets_required');
+  END IF;
+
+  UPDATE rsvps
+  SET status = 'going'
+  WHERE id = v_offer.rsvp_id AND status = 'waitlist';
+
+  IF NOT FOUND THEN
+    UPDATE waitlist_offers
+    SET status = 'withdrawn', responded_at = now()
+    WHERE id = v_offer.id;
+    RETURN jsonb_build_object('ok', false, 'error', 'offer_withdrawn');
+  END IF;
+
+  UPDATE waitlist_offers
+  SET status = 'claimed', responded_at = now()
+  WHERE id = v_offer.id;
+
+  RETURN jsonb_build_object('ok', true, 'status', 'going', 'rsvp_id', v_offer.rsvp_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_waitlist_offer(uuid) TO authenticated;
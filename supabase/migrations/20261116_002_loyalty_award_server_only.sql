@@ -0,0 +1,9 @@
+-- Loyalty awards are server-only
+-- award_loyalty_points let any signed-in user award themselves: p_points was
+-- taken as given, and a fresh reference id got past the duplicate check every
+-- time for the uncapped activities (referral, event_hosted, venue_created,
+-- streak_bonus, tier_bonus). App code now awards through the service role
+-- (lib/loyalty.ts, and the admin-checked /api/loyalty/award), so clients lose
+-- the grant. Triggers and other SECURITY DEFINER functions are unaffected.
+
+REVOKE ALL ON FUNCTION award_loyalty_points(uuid, text, int, uuid, text) FROM anon, authenticated, public;
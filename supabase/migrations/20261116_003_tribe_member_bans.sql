@@ -0,0 +1,79 @@
+-- Tribe bans go through an RPC
+--
+-- 20261103 let ban_members holders UPDATE member rows directly, which meant
+-- any column: a role given only ban_members could also promote or demote.
+-- Banning and unbanning now goes through set_tribe_member_status(), which
+-- only touches status and applies the same target rules as the members API
+-- (lib/tribes/permissions.ts, checkTarget in the members route). Row updates
+-- are back to the member themselves and tribe admins.
+
+-- ============================================
+-- 1. Members: updates
+-- ============================================
+
+DROP POLICY IF EXISTS "tribe_members_update" ON tribe_members;
+CREATE POLICY "tribe_members_update" ON tribe_members FOR UPDATE USING (
+  user_id = auth.uid()
+  OR is_tribe_admin(tribe_id, auth.uid())
+);
+
+-- ============================================
+-- 2. RPC: ban / unban
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_tribe_member_status(
+  p_tribe_id UUID,
+  p_user_id UUID,
+  p_status TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_target_role TEXT;
+BEGIN
+  IF p_status NOT IN ('active', 'banned') THEN
+    RAISE EXCEPTION 'invalid_status';
+  END IF;
+
+  IF NOT has_tribe_permission(p_tribe_id, 'ban_members', v_uid) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tribes WHERE id = p_tribe_id AND created_by = p_user_id) THEN
+    RAISE EXCEPTION 'cannot_modify_creator';
+  END IF;
+
+  SELECT role INTO v_target_role
+  FROM tribe_members
+  WHERE tribe_id = p_tribe_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Leaders answer to leaders; admins to whoever may manage the tribe
+  IF v_target_role = 'leader' AND NOT (
+    is_tribe_creator(p_tribe_id, v_uid)
+    OR EXISTS (
+      SELECT 1 FROM tribe_members
+      WHERE tribe_id = p_tribe_id AND user_id = v_uid
+        AND role = 'leader' AND status = 'active'
+    )
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF v_target_role <> 'member' AND NOT is_tribe_admin(p_tribe_id, v_uid) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  UPDATE tribe_members
+  SET status = p_status
+  WHERE tribe_id = p_tribe_id AND user_id = p_user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_tribe_member_status(UUID, UUID, TEXT) TO authenticated;
@@ -0,0 +1,75 @@
+-- Digest users who are due
+-- The digest cron used to read the 1000 oldest queued items and pick users
+-- from those. A few users with long queues who weren't due yet (daily
+-- digests, quiet hours) filled that window on every run and starved everyone
+-- behind them. The cron now asks for users who are due right away; the
+-- rules mirror isDigestDue (lib/notifications/digest.ts) and quietHoursEnd
+-- (lib/notifications/quiet-hours.ts), which the cron still applies as well.
+
+CREATE OR REPLACE FUNCTION digest_due_users(p_now timestamptz DEFAULT now(), p_limit int DEFAULT 200)
+RETURNS TABLE (user_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH queued AS (
+    SELECT i.user_id, min(i.created_at) AS oldest
+    FROM notification_digest_items i
+    WHERE i.digested_at IS NULL
+    GROUP BY i.user_id
+  ),
+  users AS (
+    SELECT
+      q.user_id,
+      q.oldest,
+      np.digest_frequency,
+      np.digest_time,
+      np.last_digest_at,
+      np.quiet_hours_enabled,
+      np.quiet_hours_start,
+      np.quiet_hours_end,
+      -- Unknown zones fall back to Đà Lạt, like resolveTimezone()
+      COALESCE(tz.name, 'Asia/Ho_Chi_Minh') AS tz
+    FROM queued q
+    LEFT JOIN notification_preferences np ON np.user_id = q.user_id
+    LEFT JOIN profiles p ON p.id = q.user_id
+    LEFT JOIN pg_timezone_names tz ON tz.name = p.timezone
+  ),
+  local AS (
+    SELECT
+      u.*,
+      to_char(p_now AT TIME ZONE u.tz, 'HH24:MI') AS local_time,
+      -- Most recent daily slot at or before now
+      CASE
+        WHEN ((p_now AT TIME ZONE u.tz)::date + COALESCE(u.digest_time, '08:00')) AT TIME ZONE u.tz > p_now
+          THEN ((p_now AT TIME ZONE u.tz)::date - 1 + COALESCE(u.digest_time, '08:00')) AT TIME ZONE u.tz
+        ELSE ((p_now AT TIME ZONE u.tz)::date + COALESCE(u.digest_time, '08:00')) AT TIME ZONE u.tz
+      END AS daily_slot
+    FROM users u
+  )
+  SELECT l.user_id
+  FROM local l
+  WHERE (
+      COALESCE(l.digest_frequency, 'instant') = 'instant'
+      OR l.last_digest_at IS NULL
+      OR (l.digest_frequency = 'hourly'
+          AND l.last_digest_at < date_trunc('hour', p_now AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')
+      OR (l.digest_frequency = 'daily' AND l.last_digest_at < l.daily_slot)
+    )
+    AND NOT (
+      COALESCE(l.quiet_hours_enabled, false)
+      AND to_char(l.quiet_hours_start, 'HH24:MI') <> to_char(l.quiet_hours_end, 'HH24:MI')
+      AND CASE
+        WHEN to_char(l.quiet_hours_start, 'HH24:MI') < to_char(l.quiet_hours_end, 'HH24:MI')
+          THEN l.local_time >= to_char(l.quiet_hours_start, 'HH24:MI')
+           AND l.local_time < to_char(l.quiet_hours_end, 'HH24:MI')
+        ELSE l.local_time >= to_char(l.quiet_hours_start, 'HH24:MI')
+          OR l.local_time < to_char(l.quiet_hours_end, 'HH24:MI')
+      END
+    )
+  ORDER BY l.oldest
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION digest_due_users(timestamptz, int) FROM anon, authenticated, public;
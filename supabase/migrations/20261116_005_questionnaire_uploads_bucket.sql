@@ -0,0 +1,68 @@
+-- Private storage for questionnaire file answers
+-- File questions (20261114) uploaded to a public CDN bucket, so an ID scan
+-- or a dietary certificate was readable by anyone holding the link. Uploads
+-- now go to a private Supabase bucket and the answer stores the object path
+-- ("<user id>/<file>"); the app hands out short-lived signed URLs.
+--
+-- Who can read a file:
+--   * the attendee who uploaded it (their own folder)
+--   * managers of an event where that attendee gave it as an answer
+
+-- ============================================
+-- 1. Bucket
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'questionnaire-uploads',
+  'questionnaire-uploads',
+  false,
+  10485760,  -- 10MB, same as the form's limit
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================
+-- 2. Policies
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can upload own questionnaire files" ON storage.objects;
+CREATE POLICY "Users can upload own questionnaire files"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'questionnaire-uploads' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Users can delete own questionnaire files" ON storage.objects;
+CREATE POLICY "Users can delete own questionnaire files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'questionnaire-uploads' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- The answer must come from the file's owner, so nobody can expose someone
+-- else's upload by pasting its path into their own answer
+DROP POLICY IF EXISTS "Owners and organizers can view questionnaire files" ON storage.objects;
+CREATE POLICY "Owners and organizers can view questionnaire files"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'questionnaire-uploads' AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR EXISTS (
+      SELECT 1
+      FROM public.rsvp_responses rr
+      JOIN public.rsvps r ON r.id = rr.rsvp_id
+      WHERE rr.response_value = to_jsonb(storage.objects.name)
+        AND r.user_id::text = (storage.foldername(storage.objects.name))[1]
+        AND public.can_manage_event(r.event_id)
+    )
+  )
+);
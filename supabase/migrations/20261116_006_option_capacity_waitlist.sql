@@ -0,0 +1,91 @@
+-- Waitlisted answers hold their option
+-- Option limits (20261114) only counted 'going' RSVPs and were only checked
+-- when an answer was written. A waitlisted attendee could pick a full option
+-- and later be promoted (offer_waitlist_spots, claim_waitlist_offer,
+-- confirm_ticket_order) without another check, overfilling it. Waitlisted
+-- answers now count against the limit too, so a promotion never adds someone
+-- the option hasn't already made room for.
+--
+-- Same as 20261114 otherwise; the trigger keeps pointing at the function.
+
+-- ============================================
+-- 1. Option counts
+-- ============================================
+-- Going and waitlisted attendees per option value of a question. A
+-- cancellation still frees the seat again.
+
+CREATE OR REPLACE FUNCTION question_option_counts(p_question_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(picked.value, picked.total), '{}'::jsonb)
+  FROM (
+    SELECT opt.value, count(*) AS total
+    FROM rsvp_responses rr
+    JOIN rsvps r ON r.id = rr.rsvp_id AND r.status IN ('going', 'waitlist')
+    CROSS JOIN LATERAL (
+      SELECT jsonb_array_elements_text(rr.response_value) AS value
+      WHERE jsonb_typeof(rr.response_value) = 'array'
+      UNION ALL
+      SELECT rr.response_value #>> '{}'
+      WHERE jsonb_typeof(rr.response_value) = 'string'
+    ) opt
+    WHERE rr.question_id = p_question_id
+    GROUP BY opt.value
+  ) picked;
+$$;
+
+-- ============================================
+-- 2. Capacity enforcement
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enforce_option_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capacities jsonb;
+  v_option text;
+  v_taken int;
+BEGIN
+  SELECT option_capacities INTO v_capacities
+  FROM event_questions
+  WHERE id = NEW.question_id
+  FOR UPDATE;
+
+  IF v_capacities IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_option IN
+    SELECT jsonb_array_elements_text(NEW.response_value)
+    WHERE jsonb_typeof(NEW.response_value) = 'array'
+    UNION ALL
+    SELECT NEW.response_value #>> '{}'
+    WHERE jsonb_typeof(NEW.response_value) = 'string'
+  LOOP
+    CONTINUE WHEN NOT v_capacities ? v_option;
+    CONTINUE WHEN TG_OP = 'UPDATE' AND (
+      OLD.response_value ? v_option OR OLD.response_value #>> '{}' = v_option
+    );
+
+    SELECT count(*) INTO v_taken
+    FROM rsvp_responses rr
+    JOIN rsvps r ON r.id = rr.rsvp_id AND r.status IN ('going', 'waitlist')
+    WHERE rr.question_id = NEW.question_id
+      AND rr.rsvp_id <> NEW.rsvp_id
+      AND (rr.response_value ? v_option OR rr.response_value #>> '{}' = v_option);
+
+    IF v_taken >= (v_capacities ->> v_option)::int THEN
+      RAISE EXCEPTION 'option_full';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,133 @@
+-- Only hosts and the server confirm ticket orders
+-- confirm_ticket_order took a NULL auth.uid() to mean the service role
+-- (provider callbacks). The function was never revoked from anon, so a
+-- caller with the anon key and no session was treated the same way and
+-- could mark their own pending bank-transfer order paid. It now checks the
+-- JWT role instead, and anon can no longer call it at all.
+--
+-- Same as 20261116_001 otherwise.
+
+CREATE OR REPLACE FUNCTION confirm_ticket_order(
+  p_order_id uuid,
+  p_provider_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order ticket_orders%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_line record;
+  v_tier jsonb;
+  v_sold int;
+  v_qty int;
+  v_rsvp_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM ticket_orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_not_found');
+  END IF;
+
+  -- Provider callbacks run as the service role; everyone else must manage the event
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT can_manage_event(v_order.event_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'unauthorized');
+  END IF;
+
+  -- Event before order, the same lock order as create_ticket_order
+  SELECT * INTO v_event FROM events WHERE id = v_order.event_id FOR UPDATE;
+  SELECT * INTO v_order FROM ticket_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_order.status = 'paid' THEN
+    RETURN jsonb_build_object('ok', true, 'status', 'paid', 'rsvp_id', v_order.rsvp_id, 'already', true);
+  END IF;
+
+  -- A manager can still accept a transfer that landed after the hold lapsed
+  IF v_order.status NOT IN ('pending', 'expired') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'order_closed', 'status', v_order.status);
+  END IF;
+
+  SELECT sum(quantity)::int INTO v_qty FROM ticket_order_items WHERE order_id = p_order_id;
+
+  IF v_order.status = 'expired' OR v_order.expires_at <= now() THEN
+    -- ticket_tiers_sold and event_spots_held no longer count this order
+    FOR v_line IN
+      SELECT tier_id, sum(quantity)::int AS quantity
+      FROM ticket_order_items
+      WHERE order_id = p_order_id
+      GROUP BY tier_id
+    LOOP
+      SELECT tier INTO v_tier
+      FROM jsonb_array_elements(v_event.ticket_tiers) AS tier
+      WHERE tier->>'id' = v_line.tier_id;
+
+      IF (v_tier->>'quantity') IS NOT NULL THEN
+        SELECT s.sold INTO v_sold
+        FROM ticket_tiers_sold(v_event.id) s
+        WHERE s.tier_id = v_line.tier_id;
+
+        IF COALESCE(v_sold, 0) + v_line.quantity > (v_tier->>'quantity')::int THEN
+          RETURN jsonb_build_object('ok', false, 'error', 'tier_sold_out', 'tier_id', v_line.tier_id);
+        END IF;
+      END IF;
+
+      v_tier := NULL;
+      v_sold := NULL;
+    END LOOP;
+
+    IF v_event.capacity IS NOT NULL
+       AND event_spots_held(v_event.id, v_order.user_id) + v_qty > v_event.capacity THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'sold_out');
+    END IF;
+
+    -- The discount was released with the hold; another order may have used it
+    IF v_order.reward_redemption_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM reward_redemptions r
+      WHERE r.id = v_order.reward_redemption_id
+        AND (
+          r.used_at IS NOT NULL
+          OR (
+            r.used_for_reference_type = 'ticket_order'
+            AND r.used_for_reference_id <> v_order.id
+            AND EXISTS (
+              SELECT 1 FROM ticket_orders o
+              WHERE o.id = r.used_for_reference_id
+                AND o.status = 'pending' AND o.expires_at > now()
+            )
+          )
+        )
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'reward_not_available');
+    END IF;
+  END IF;
+
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (v_order.event_id, v_order.user_id, 'going', GREATEST(v_qty - 1, 0))
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = 'going',
+        plus_ones = EXCLUDED.plus_ones,
+        no_show_at = NULL
+  RETURNING id INTO v_rsvp_id;
+
+  UPDATE waitlist_offers
+  SET status = 'claimed', responded_at = now()
+  WHERE event_id = v_order.event_id AND user_id = v_order.user_id AND status = 'pending';
+
+  UPDATE ticket_orders
+  SET
+    status = 'paid',
+    paid_at = now(),
+    provider_ref = COALESCE(p_provider_ref, provider_ref),
+    verified_by = auth.uid(),
+    rsvp_id = v_rsvp_id,
+    updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('ok', true, 'status', 'paid', 'rsvp_id', v_rsvp_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION confirm_ticket_order(uuid, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION confirm_ticket_order(uuid, text) TO authenticated;
@@ -0,0 +1,89 @@
+-- Tribe approvals add members only, removals go through an RPC
+--
+-- 20261103 let approve_requests holders INSERT member rows with any role, so
+-- a delegated approver could add a leader (themselves, via a second
+-- account). Likewise ban_members holders could DELETE any row, leaders and
+-- admins included. 20261116_003 closed the same gap for updates.
+--
+-- Delegated inserts are now limited to plain, active members, and so is
+-- joining a public tribe. Removing someone else goes through
+-- remove_tribe_member(), which applies the same target rules as
+-- set_tribe_member_status(). Row deletes are back to the member themselves
+-- and tribe admins.
+
+-- ============================================
+-- 1. Members: inserts and deletes
+-- ============================================
+
+DROP POLICY IF EXISTS "tribe_members_insert" ON tribe_members;
+CREATE POLICY "tribe_members_insert" ON tribe_members FOR INSERT WITH CHECK (
+  -- User joining a public tribe
+  (user_id = auth.uid() AND role = 'member' AND EXISTS (
+    SELECT 1 FROM tribes WHERE id = tribe_id AND access_type = 'public'
+  ))
+  -- Admins and the creator add anyone (the creator's own leader row, too)
+  OR is_tribe_admin(tribe_id, auth.uid())
+  -- Approving a join request
+  OR (role = 'member' AND status = 'active' AND has_tribe_permission(tribe_id, 'approve_requests'))
+);
+
+DROP POLICY IF EXISTS "tribe_members_delete" ON tribe_members;
+CREATE POLICY "tribe_members_delete" ON tribe_members FOR DELETE USING (
+  user_id = auth.uid()
+  OR is_tribe_admin(tribe_id, auth.uid())
+);
+
+-- ============================================
+-- 2. RPC: remove a member
+-- ============================================
+
+CREATE OR REPLACE FUNCTION remove_tribe_member(
+  p_tribe_id UUID,
+  p_user_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_target_role TEXT;
+BEGIN
+  IF NOT has_tribe_permission(p_tribe_id, 'ban_members', v_uid) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tribes WHERE id = p_tribe_id AND created_by = p_user_id) THEN
+    RAISE EXCEPTION 'cannot_modify_creator';
+  END IF;
+
+  SELECT role INTO v_target_role
+  FROM tribe_members
+  WHERE tribe_id = p_tribe_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Same rank rules as set_tribe_member_status
+  IF v_target_role = 'leader' AND NOT (
+    is_tribe_creator(p_tribe_id, v_uid)
+    OR EXISTS (
+      SELECT 1 FROM tribe_members
+      WHERE tribe_id = p_tribe_id AND user_id = v_uid
+        AND role = 'leader' AND status = 'active'
+    )
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF v_target_role <> 'member' AND NOT is_tribe_admin(p_tribe_id, v_uid) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  DELETE FROM tribe_members
+  WHERE tribe_id = p_tribe_id AND user_id = p_user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION remove_tribe_member(UUID, UUID) TO authenticated;
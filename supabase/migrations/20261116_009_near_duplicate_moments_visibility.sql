@@ -0,0 +1,48 @@
+-- Near-duplicate lookups only show photos the caller may see
+-- find_near_duplicate_moments (20261111) answered for any event and any
+-- distance up to 20 bits, and returned the URLs of drafts and photos still
+-- waiting for moderation. With 500 hashes per call, any logged-in user could
+-- page through other people's unpublished photos.
+--
+-- Same as 20261111 otherwise, except:
+--   * the caller must be allowed to post moments to the event
+--   * URLs come back only for published photos and the caller's own; other
+--     matches still count as duplicates, like check_duplicate_hashes
+--   * the distance is capped at NEAR_DUPLICATE_MAX_DISTANCE
+--     (lib/perceptual-hash.ts)
+
+CREATE OR REPLACE FUNCTION find_near_duplicate_moments(
+  p_event_id uuid,
+  p_hashes text[],
+  p_max_distance int DEFAULT 10
+)
+RETURNS TABLE (
+  hash text,
+  moment_id uuid,
+  distance int,
+  media_url text,
+  thumbnail_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (h.hash)
+    h.hash,
+    m.id,
+    bit_count(('x' || m.perceptual_hash)::bit(64) # ('x' || h.hash)::bit(64))::int AS distance,
+    CASE WHEN m.status = 'published' OR m.user_id = auth.uid() THEN m.media_url END,
+    CASE WHEN m.status = 'published' OR m.user_id = auth.uid() THEN m.thumbnail_url END
+  FROM unnest(p_hashes) AS h(hash)
+  JOIN moments m
+    ON m.event_id = p_event_id
+   AND m.perceptual_hash IS NOT NULL
+   AND m.status IN ('draft', 'pending', 'published')
+  WHERE can_post_moment(p_event_id)
+    AND h.hash ~ '^[0-9a-f]{16}$'
+    AND bit_count(('x' || m.perceptual_hash)::bit(64) # ('x' || h.hash)::bit(64)) <= LEAST(p_max_distance, 10)
+  ORDER BY h.hash, distance, m.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_near_duplicate_moments(uuid, text[], int) TO authenticated;
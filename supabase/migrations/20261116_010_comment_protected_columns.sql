@@ -0,0 +1,46 @@
+-- Authors can't pin or move their own comments
+-- comments_update_own_or_moderator (20260413) lets an author update any
+-- column of their comment. Since 20261102 that includes is_pinned, so a
+-- member could pin their own board post past pin_comment's moderator check
+-- and three-pin limit, or re-point an event comment at a members-only tribe
+-- board they can't post to.
+--
+-- A BEFORE UPDATE trigger now keeps those columns fixed:
+--   * pinning (is_pinned, pinned_at, pinned_by) needs a moderator of the
+--     comment's target, which is what pin_comment already checks
+--   * target_type, target_id and parent_id never change after posting
+
+CREATE OR REPLACE FUNCTION protect_comment_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.target_type, NEW.target_id, NEW.parent_id)
+     IS DISTINCT FROM (OLD.target_type, OLD.target_id, OLD.parent_id) THEN
+    RAISE EXCEPTION 'comment_target_immutable';
+  END IF;
+
+  -- pinned_by going NULL is the profile's ON DELETE SET NULL, not a pin change
+  IF (
+       (NEW.is_pinned, NEW.pinned_at) IS DISTINCT FROM (OLD.is_pinned, OLD.pinned_at)
+       OR (NEW.pinned_by IS NOT NULL AND NEW.pinned_by IS DISTINCT FROM OLD.pinned_by)
+     )
+     AND NOT can_moderate_comments(OLD.target_type, OLD.target_id) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_protect_columns ON comments;
+CREATE TRIGGER comments_protect_columns
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_comment_columns();
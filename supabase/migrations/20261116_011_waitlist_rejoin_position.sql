@@ -0,0 +1,105 @@
+-- Re-joining the waitlist starts a new place in line
+-- offer_waitlist_spots skips a guest whose offer expired, until they re-join:
+-- it compares the expired offer's offered_at with rsvps.created_at. But
+-- rsvp_event stopped resetting created_at on conflict in 20260223 (20241231
+-- had added it), so a guest whose offer lapsed was never offered a spot
+-- again, even after leaving and joining the waitlist again.
+--
+-- Same as 20261106, except created_at is reset whenever an RSVP moves onto
+-- the waitlist from any other status. That both puts the guest at the back
+-- of the line and makes them eligible for offers again. Changing plus-ones
+-- while already waitlisted keeps the place.
+
+CREATE OR REPLACE FUNCTION rsvp_event(p_event_id uuid, p_plus_ones int DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid;
+  v_capacity int;
+  v_status text;
+  v_event_status text;
+  v_price_type text;
+  v_tier_count int;
+  v_spots_taken_excl_me int;
+  v_rsvp_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_plus_ones < 0 THEN
+    RAISE EXCEPTION 'invalid_plus_ones';
+  END IF;
+
+  -- Check if event is past (fast rejection before locking)
+  IF is_event_past(p_event_id) THEN
+    RAISE EXCEPTION 'event_has_ended';
+  END IF;
+
+  -- Lock event row to serialize capacity decisions
+  SELECT capacity, status, price_type::text, COALESCE(jsonb_array_length(ticket_tiers), 0)
+  INTO v_capacity, v_event_status, v_price_type, v_tier_count
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  IF v_event_status <> 'published' THEN
+    RAISE EXCEPTION 'event_not_published';
+  END IF;
+
+  -- Raising rolls back any early-access reward the gate just spent
+  IF NOT rsvp_opening_gate(p_event_id, v_uid) THEN
+    RAISE EXCEPTION 'rsvp_not_open';
+  END IF;
+
+  -- Spots held EXCLUDING caller (so +1 updates and offer claims work)
+  v_spots_taken_excl_me := event_spots_held(p_event_id, v_uid);
+
+  IF v_capacity IS NULL OR (v_spots_taken_excl_me + 1 + p_plus_ones) <= v_capacity THEN
+    v_status := 'going';
+  ELSE
+    v_status := 'waitlist';
+  END IF;
+
+  -- The paid order also caps how many plus-ones the buyer can bring
+  IF v_status = 'going' AND v_price_type = 'paid' AND v_tier_count > 0
+     AND NOT EXISTS (
+       SELECT 1 FROM ticket_orders o
+       WHERE o.event_id = p_event_id AND o.user_id = v_uid AND o.status = 'paid'
+         AND (SELECT sum(quantity) FROM ticket_order_items WHERE order_id = o.id) >= 1 + p_plus_ones
+     ) THEN
+    RAISE EXCEPTION 'tickets_required';
+  END IF;
+
+  INSERT INTO rsvps (event_id, user_id, status, plus_ones)
+  VALUES (p_event_id, v_uid, v_status, p_plus_ones)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+    SET status = EXCLUDED.status,
+        plus_ones = EXCLUDED.plus_ones,
+        created_at = CASE
+          WHEN EXCLUDED.status = 'waitlist' AND rsvps.status <> 'waitlist' THEN now()
+          ELSE rsvps.created_at
+        END
+  RETURNING id INTO v_rsvp_id;
+
+  IF v_status = 'going' THEN
+    UPDATE waitlist_offers
+    SET status = 'claimed', responded_at = now()
+    WHERE event_id = p_event_id AND user_id = v_uid AND status = 'pending';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', v_status,
+    'rsvp_id', v_rsvp_id
+  );
+END;
+$$;
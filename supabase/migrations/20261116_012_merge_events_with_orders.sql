@@ -0,0 +1,99 @@
+-- Merging never drops an event with ticket orders
+-- merge_duplicate_events (20261109) moved RSVPs and moments, then deleted
+-- the dropped event. ticket_orders cascade on that delete, so merging away
+-- an event with paid orders silently erased its payment records. Orders
+-- can't simply be re-pointed: their lines refer to the dropped event's
+-- ticket tiers. The merge now refuses instead; the admin keeps the event
+-- that sold tickets.
+--
+-- Same as 20261109 otherwise.
+
+CREATE OR REPLACE FUNCTION merge_duplicate_events(
+  p_candidate_id uuid,
+  p_keep_event_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate event_duplicate_candidates%ROWTYPE;
+  v_drop_id uuid;
+  v_drop_slug text;
+  v_drop_previous text[];
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  SELECT * INTO v_candidate
+  FROM event_duplicate_candidates
+  WHERE id = p_candidate_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_candidate.status <> 'pending' THEN
+    RAISE EXCEPTION 'candidate_not_pending';
+  END IF;
+
+  IF p_keep_event_id = v_candidate.event_id THEN
+    v_drop_id := v_candidate.duplicate_of_event_id;
+  ELSIF p_keep_event_id = v_candidate.duplicate_of_event_id THEN
+    v_drop_id := v_candidate.event_id;
+  ELSE
+    RAISE EXCEPTION 'keep_event_not_in_pair';
+  END IF;
+
+  SELECT slug, COALESCE(previous_slugs, '{}')
+  INTO v_drop_slug, v_drop_previous
+  FROM events
+  WHERE id = v_drop_id
+  FOR UPDATE;  -- create_ticket_order locks the event too, so no order slips in
+
+  IF v_drop_slug IS NULL THEN
+    RAISE EXCEPTION 'event_not_found';
+  END IF;
+
+  -- Deleting the event would cascade to its orders
+  IF EXISTS (SELECT 1 FROM ticket_orders WHERE event_id = v_drop_id) THEN
+    RAISE EXCEPTION 'drop_event_has_orders';
+  END IF;
+
+  UPDATE rsvps r
+  SET event_id = p_keep_event_id
+  WHERE r.event_id = v_drop_id
+    AND NOT EXISTS (
+      SELECT 1 FROM rsvps k
+      WHERE k.event_id = p_keep_event_id AND k.user_id = r.user_id
+    );
+
+  UPDATE moments
+  SET event_id = p_keep_event_id
+  WHERE event_id = v_drop_id;
+
+  -- Other pending pairs involving the dropped event are moot once it is gone
+  DELETE FROM event_duplicate_candidates
+  WHERE status = 'pending'
+    AND id <> p_candidate_id
+    AND (event_id = v_drop_id OR duplicate_of_event_id = v_drop_id);
+
+  UPDATE event_duplicate_candidates
+  SET status = 'merged',
+      merged_slug = v_drop_slug,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_candidate_id;
+
+  DELETE FROM events WHERE id = v_drop_id;
+
+  UPDATE events
+  SET previous_slugs = ARRAY(
+    SELECT DISTINCT s
+    FROM unnest(COALESCE(previous_slugs, '{}') || v_drop_previous || v_drop_slug) AS s
+    WHERE s <> slug
+  )
+  WHERE id = p_keep_event_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_duplicate_events(uuid, uuid) TO authenticated;
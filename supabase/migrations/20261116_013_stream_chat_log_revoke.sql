@@ -0,0 +1,6 @@
+-- log_stream_chat_action is server-only
+-- 20261105 revoked it from PUBLIC only. Supabase grants new functions to anon
+-- and authenticated directly, so anyone could still post system messages
+-- into a stream's chat under another user's name.
+
+REVOKE EXECUTE ON FUNCTION log_stream_chat_action(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
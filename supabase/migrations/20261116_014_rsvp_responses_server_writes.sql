@@ -0,0 +1,11 @@
+-- Questionnaire answers are written by the server
+-- Guests upserted their answers straight into rsvp_responses, and the rules
+-- from 20261114 (required-if, number/date/phone formats) were only checked by
+-- a separate validate call the client could skip. Option capacity was the
+-- only rule the database enforced. Answers now go through
+-- /api/questionnaires/responses, which validates them and writes with the
+-- service role, so guests lose direct insert and update. Reading their own
+-- answers is unchanged.
+
+DROP POLICY IF EXISTS "responses_insert_own" ON rsvp_responses;
+DROP POLICY IF EXISTS "responses_update_own" ON rsvp_responses;